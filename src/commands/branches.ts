@@ -0,0 +1,115 @@
+// ============================================
+// Branch Report CLI Command
+// ============================================
+
+import chalk from 'chalk';
+import ora from 'ora';
+import { writeFileSync } from 'fs';
+import { GitMetrics } from '../core/git-metrics';
+import { runGit, isSafeRevision } from '../core/git-runner';
+import { BranchStatus } from '../types';
+import { formatBranchReport } from '../output/formatters';
+import { isInitialized, getCommitIndexDir, getGitConfig } from '../config/integrations';
+
+type OutputFormat = 'table' | 'json' | 'csv' | 'markdown';
+
+const STATUSES: BranchStatus[] = ['active', 'long-lived', 'stale', 'abandoned'];
+
+interface BranchesCommandOptions {
+  main?: string;
+  staleDays?: number;
+  abandonedDays?: number;
+  longLivedDays?: number;
+  status?: string;
+  branch?: string;
+  details?: boolean;
+  fetch?: boolean;
+  limit?: number;
+  format?: OutputFormat;
+  output?: string;
+}
+
+// ==========================================
+// Branches Command
+// ==========================================
+
+export async function branchesCommand(path: string, options: BranchesCommandOptions): Promise<void> {
+  const spinner = ora('Finding unmerged branches...').start();
+
+  try {
+    for (const [flag, value] of [
+      ['--stale-days', options.staleDays],
+      ['--abandoned-days', options.abandonedDays],
+      ['--long-lived-days', options.longLivedDays],
+    ] as const) {
+      if (value !== undefined && !(value > 0)) {
+        throw new Error(`Invalid ${flag}: expected a positive number of days`);
+      }
+    }
+    const statuses = options.status?.split(',').map(status => status.trim()) as BranchStatus[] | undefined;
+    const unknown = statuses?.find(status => !STATUSES.includes(status));
+    if (unknown !== undefined) {
+      throw new Error(`Invalid --status: ${unknown} (expected ${STATUSES.join(', ')})`);
+    }
+
+    if (options.fetch) {
+      spinner.text = 'Fetching remote branches...';
+      try {
+        await runGit(['fetch', '--all', '--quiet'], { cwd: path });
+      } catch (error: unknown) {
+        spinner.warn(chalk.yellow(`Could not fetch from remotes: ${(error as Error).message}`));
+        spinner.start('Finding unmerged branches...');
+      }
+    }
+
+    // Like `git branch -r` lists it; a bare name is taken to be on origin
+    const branch = options.branch && !options.branch.startsWith('origin/') ? `origin/${options.branch}` : options.branch;
+    if (branch !== undefined) {
+      try {
+        await runGit(['rev-parse', '--verify', '--quiet', `refs/remotes/${branch}`], { cwd: path });
+      } catch {
+        throw new Error(`Branch not found: ${branch}`);
+      }
+    }
+
+    const mainBranch = options.main || (isInitialized() ? getGitConfig()?.mainBranch : undefined) || 'main';
+    try {
+      if (!isSafeRevision(mainBranch)) throw new Error();
+      await runGit(['rev-parse', '--verify', '--quiet', `${mainBranch}^{commit}`], { cwd: path });
+    } catch {
+      throw new Error(`Branch not found: ${mainBranch}`);
+    }
+    const metrics = new GitMetrics(path, { cacheDir: isInitialized() ? getCommitIndexDir() : undefined });
+    const report = await metrics.getBranchReport(mainBranch, {
+      branch,
+      details: options.details,
+      thresholds: {
+        staleDays: options.staleDays,
+        abandonedDays: options.abandonedDays,
+        longLivedDays: options.longLivedDays,
+      },
+    });
+    if (statuses) {
+      report.branches = report.branches.filter(branch => statuses.includes(branch.status));
+    }
+    const outputFormat = options.format || 'table';
+
+    spinner.stop();
+
+    if (outputFormat !== 'json') {
+      console.log(chalk.bold.cyan(`\n🌿 UNMERGED BRANCHES (vs ${report.mainBranch})\n`));
+    }
+    const output = formatBranchReport(report, outputFormat, options.limit);
+
+    if (options.output) {
+      writeFileSync(options.output, output);
+      console.log(chalk.green(`✓ Output saved to ${options.output}`));
+    } else {
+      console.log(output);
+    }
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    spinner.fail(chalk.red(`Error: ${message}`));
+    process.exit(1);
+  }
+}
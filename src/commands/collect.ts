@@ -4,7 +4,6 @@
 
 import chalk from 'chalk';
 import ora from 'ora';
-import { execSync } from 'child_process';
 import { existsSync, writeFileSync, readdirSync, readFileSync } from 'fs';
 import { join, basename } from 'path';
 import { format, differenceInDays, parseISO } from 'date-fns';
@@ -12,6 +11,7 @@ import {
   getConfig,
   getJiraConfig,
   getDataDir,
+  getCommitIndexDir,
   saveConfig,
   isInitialized,
   getActiveClient,
@@ -21,12 +21,26 @@ import {
   findRepositoryOwners,
 } from '../config/integrations';
 import { GitMetrics } from '../core/git-metrics';
-import { JiraClient } from '../integrations/jira/client';
-import { calculateJiraMetrics } from '../integrations/jira/metrics';
+import { getRemote, runGit, streamGit } from '../core/git-runner';
+import { validateBranchName } from '../utils/validation';
+import { IssueTrackerProvider, ReviewProvider } from '../integrations/base/interfaces';
+import {
+  detectReviewProvider, getRequestedTrackers, getReviewMetrics, getReviewProvider, getReviewProviders, getTracker,
+  getTrackerMetrics, getTrackers,
+} from '../integrations/registry';
+import { IssueTracker, ReviewMetrics, ReviewPlatform, TrackerMetrics } from '../types';
+import { resolveDoraOptions, getJiraReleaseIncidents } from './dora';
+import { resolveIssueTracker, fetchTrackedIssues } from './links';
 import { printCompactHeader, printSuccess, printError, printWarning, printSection } from '../branding';
 import { DEFAULTS, TIME_THRESHOLDS } from '../config/constants';
 
-interface CollectedData {
+/** Key of a tracker's metrics in collected data, e.g. `jiraMetrics` */
+type TrackerMetricsKey = `${IssueTracker}Metrics`;
+
+/** Key of a code review platform's metrics in collected data, e.g. `gitlabMetrics` */
+type ReviewMetricsKey = `${ReviewPlatform}Metrics`;
+
+export interface CollectedData extends Partial<Record<TrackerMetricsKey | ReviewMetricsKey, unknown>> {
   collectedAt: string;
   fileName?: string;
   period?: {
@@ -42,71 +56,75 @@ interface CollectedData {
     userStats: unknown;
     activity: unknown;
     trends: unknown;
+    churn?: unknown;
   };
-  jiraMetrics?: unknown;
+  doraMetrics?: unknown;
+  issueLinks?: unknown;
+}
+
+function getTrackerMetricsKey(provider: IssueTrackerProvider): TrackerMetricsKey {
+  return `${provider.id}Metrics`;
+}
+
+function getReviewMetricsKey(provider: ReviewProvider): ReviewMetricsKey {
+  return `${provider.id}Metrics`;
 }
 
 // ==========================================
 // Git Operations
 // ==========================================
 
-function gitPull(repoPath: string, branch: string): { success: boolean; message: string } {
+async function gitPull(repoPath: string, branch: string): Promise<{ success: boolean; message: string }> {
+  // The branch comes from config and is passed to checkout/pull, so refuse anything git could misread
+  const branchCheck = validateBranchName(branch);
+  if (!branchCheck.valid) {
+    return { success: false, message: `${branchCheck.error}: ${branch}` };
+  }
+
+  const git = (args: string[]) => runGit(args, { cwd: repoPath });
   try {
     // Fetch first
-    execSync(`git fetch origin`, {
-      cwd: repoPath,
-      encoding: 'utf-8',
-      stdio: ['pipe', 'pipe', 'pipe'],
-    });
+    await git(['fetch', 'origin']);
     
     // Get current branch
-    const currentBranch = execSync('git rev-parse --abbrev-ref HEAD', {
-      cwd: repoPath,
-      encoding: 'utf-8',
-      stdio: ['pipe', 'pipe', 'pipe'],
-    }).trim();
+    const currentBranch = await git(['rev-parse', '--abbrev-ref', 'HEAD']);
     
     // If not on main branch, checkout
     if (currentBranch !== branch) {
       try {
-        execSync('git stash', { cwd: repoPath, stdio: ['pipe', 'pipe', 'pipe'] });
+        await git(['stash']);
       } catch (error: unknown) {
         // Stash might fail if there are no changes, which is fine
       }
       
-      execSync(`git checkout ${branch}`, {
-        cwd: repoPath,
-        encoding: 'utf-8',
-        stdio: ['pipe', 'pipe', 'pipe'],
-      });
+      // Trailing -- so the branch is never taken as a path
+      await git(['checkout', branch, '--']);
     }
     
     // Pull
-    const result = execSync(`git pull origin ${branch}`, {
-      cwd: repoPath,
-      encoding: 'utf-8',
-      stdio: ['pipe', 'pipe', 'pipe'],
-    });
+    const result = await git(['pull', 'origin', branch]);
     
-    return { success: true, message: result.trim() || 'Already up to date' };
+    return { success: true, message: result || 'Already up to date' };
   } catch (error: unknown) {
     return { success: false, message: (error as Error).message };
   }
 }
 
-function getRepoName(repoPath: string): string {
-  try {
-    const remoteUrl = execSync('git remote get-url origin', {
-      cwd: repoPath,
-      encoding: 'utf-8',
-      stdio: ['pipe', 'pipe', 'pipe'],
-    }).trim();
-    
-    const match = remoteUrl.match(/\/([^\/]+?)(\.git)?$/);
-    return match ? match[1] : basename(repoPath);
-  } catch {
-    return basename(repoPath);
-  }
+/**
+ * Names a repository after its origin remote and finds the configured code
+ * review platform hosting it (GitHub, GitLab, Bitbucket, Azure Repos).
+ *
+ * @returns The name (the directory name without a remote) and the platform
+ *   with the repository's slug on it, or null if no configured platform hosts it
+ */
+async function getRepoInfo(
+  repoPath: string
+): Promise<{ name: string; review: { provider: ReviewProvider; repository: string } | null }> {
+  const remote = await getRemote(repoPath);
+  return {
+    name: remote?.path.split('/').pop() || basename(repoPath),
+    review: remote && detectReviewProvider(remote),
+  };
 }
 
 /** Slug for filenames: "John Doe" -> "John_Doe". */
@@ -115,74 +133,65 @@ function authorToSlug(name: string): string {
 }
 
 /** Get one email for an author from repo history. */
-function getEmailForAuthor(repoPath: string, authorName: string): string {
+async function getEmailForAuthor(repoPath: string, authorName: string): Promise<string> {
   try {
-    const escaped = authorName.replace(/"/g, '\\"');
     // Use --use-mailmap to respect .mailmap file for consolidating author identities
-    const email = execSync(`git log --use-mailmap -1 --format=%ae --author="${escaped}"`, {
-      cwd: repoPath,
-      encoding: 'utf-8',
-      stdio: ['pipe', 'pipe', 'pipe'],
-    }).trim();
-    return email || '';
+    return await runGit(
+      ['log', '--use-mailmap', '-1', '--format=%ae', `--author=${authorName}`],
+      { cwd: repoPath }
+    );
   } catch {
     return '';
   }
 }
 
+/** Build git log date filter arguments. */
+function dateRangeArgs(filterOptions: { since?: string; until?: string }): string[] {
+  const args: string[] = [];
+  if (filterOptions.since) args.push(`--since=${filterOptions.since}`);
+  if (filterOptions.until) args.push(`--until=${filterOptions.until}`);
+  return args;
+}
+
 /** Get all author names in the repo (optionally filtered by since/until). */
-function getAuthorsInRepo(
+async function getAuthorsInRepo(
   repoPath: string,
   filterOptions: { since?: string; until?: string }
-): string[] {
+): Promise<string[]> {
   try {
-    const args: string[] = [];
-    if (filterOptions.since) args.push(`--since="${filterOptions.since}"`);
-    if (filterOptions.until) args.push(`--until="${filterOptions.until}"`);
-    const logArgs = args.join(' ');
-    // Windows-compatible: no sort -u, use JavaScript Set for uniqueness
+    // Stream the log and keep unique names only, so long histories stay cheap
     // Use --use-mailmap to respect .mailmap file for consolidating author identities
-    const raw = execSync(`git log --use-mailmap --format='%aN' ${logArgs}`, {
-      cwd: repoPath,
-      encoding: 'utf-8',
-      stdio: ['pipe', 'pipe', 'pipe'],
-    }).trim();
-    const authors = raw ? raw.split('\n').filter(Boolean) : [];
-    return Array.from(new Set(authors)); // Get unique authors
+    const authors = new Set<string>();
+    await streamGit(
+      ['log', '--use-mailmap', '--format=%aN', ...dateRangeArgs(filterOptions)],
+      line => { if (line) authors.add(line); },
+      { cwd: repoPath }
+    );
+    return Array.from(authors);
   } catch {
     return [];
   }
 }
 
 /** Get all authors with their emails and names for flexible matching. */
-function getAuthorsWithDetails(
+async function getAuthorsWithDetails(
   repoPath: string,
   filterOptions: { since?: string; until?: string }
-): Array<{ name: string; email: string }> {
+): Promise<Array<{ name: string; email: string }>> {
   try {
-    const args: string[] = [];
-    if (filterOptions.since) args.push(`--since="${filterOptions.since}"`);
-    if (filterOptions.until) args.push(`--until="${filterOptions.until}"`);
-    const logArgs = args.join(' ');
-    // Get both name and email using format: "Name|Email"
-    const raw = execSync(`git log --use-mailmap --format='%aN|%ae' ${logArgs}`, {
-      cwd: repoPath,
-      encoding: 'utf-8',
-      stdio: ['pipe', 'pipe', 'pipe'],
-    }).trim();
-    
-    if (!raw) return [];
-    
-    const lines = raw.split('\n').filter(Boolean);
     const authorsMap = new Map<string, { name: string; email: string }>();
-    
-    for (const line of lines) {
-      const [name, email] = line.split('|');
-      if (name && email) {
-        // Use email as key to avoid duplicates
-        authorsMap.set(email, { name, email });
-      }
-    }
+    // Get both name and email using format: "Name|Email"
+    await streamGit(
+      ['log', '--use-mailmap', '--format=%aN|%ae', ...dateRangeArgs(filterOptions)],
+      line => {
+        const [name, email] = line.split('|');
+        if (name && email) {
+          // Use email as key to avoid duplicates
+          authorsMap.set(email, { name, email });
+        }
+      },
+      { cwd: repoPath }
+    );
     
     return Array.from(authorsMap.values());
   } catch {
@@ -265,11 +274,14 @@ async function collectRepoMetrics(
     total?: boolean;
     since?: string;
     until?: string;
-    jiraProject?: string;
+    /** Project or team per tracker, e.g. `{ jira: 'ABC' }` */
+    trackers?: Partial<Record<IssueTracker, string>>;
     authorOverride?: string;
+    /** Measure code churn too (blames every changed file, so it's opt-in) */
+    churn?: boolean;
   }
 ): Promise<CollectedData> {
-  const metrics = new GitMetrics(repoPath);
+  const metrics = new GitMetrics(repoPath, { cacheDir: getCommitIndexDir() });
   const now = new Date();
   const defaultSince = format(new Date(now.getTime() - DEFAULTS.COLLECTION_DAYS * 24 * 60 * 60 * 1000), 'yyyy-MM-dd');
   const defaultUntil = format(now, 'yyyy-MM-dd');
@@ -293,54 +305,83 @@ async function collectRepoMetrics(
 
   const author = options.authorOverride ?? gitConfig.username;
   const userEmail = options.authorOverride
-    ? getEmailForAuthor(repoPath, options.authorOverride)
+    ? await getEmailForAuthor(repoPath, options.authorOverride)
     : gitConfig.email;
 
   // Discover all active branches (main + unmerged branches)
   const mainBranch = gitConfig.mainBranch;
-  const unmergedBranches = metrics.getUnmergedBranches(mainBranch);
+  const unmergedBranches = await metrics.getUnmergedBranches(mainBranch);
   const allBranches = [mainBranch, ...unmergedBranches];
   
   // Add branches to filter options for multi-branch collection
   const multiBranchOptions = { ...filterOptions, branches: allBranches };
-
-  // Get general summary (repo-wide, no author filter) - from all branches
-  const summary = metrics.getRepoSummary(multiBranchOptions);
-  // Get user-specific stats (filter by email for accuracy) - from all branches
-  // getAuthorStats returns an array, so we take the first element (should only be one when filtering by email)
-  const userStatsArray = metrics.getAuthorStats({ ...multiBranchOptions, email: userEmail });
+  const userOptions = { ...multiBranchOptions, email: userEmail };
+
+  // Team-level DORA metrics; Jira bugs reported against releases count as failures
+  const jiraProject = options.trackers?.jira;
+  const doraRequest = (jiraProject && getJiraConfig()
+    ? getJiraReleaseIncidents(jiraProject, filterOptions.since).catch(() => [])
+    : Promise.resolve([])
+  )
+    .then(incidents => metrics.getDoraMetrics(
+      { since: filterOptions.since, until: filterOptions.until },
+      resolveDoraOptions(),
+      incidents
+    ))
+    .catch((error: unknown) => ({ available: false, error: (error as Error).message }));
+
+  // The user's commits joined with the Jira/Linear issues they reference
+  const linkProjects = jiraProject ? [jiraProject] : undefined;
+  const linksRequest = (async () => {
+    const tracker = resolveIssueTracker();
+    const issues = tracker
+      ? await fetchTrackedIssues(tracker, await metrics.getIssueKeys(userOptions, linkProjects))
+      : [];
+    return metrics.getIssueLinks(userOptions, { projects: linkProjects, tracker, issues });
+  })().catch((error: unknown) => ({ available: false, error: (error as Error).message }));
+
+  // Team-level review metrics when the origin remote is on a configured code review platform
+  const repoInfoRequest = getRepoInfo(repoPath);
+  const reviewRequest = repoInfoRequest.then(({ review }) => review
+    ? getReviewMetrics(review.provider, repoPath, { repository: review.repository, since, until })
+      .then(metrics => ({ provider: review.provider, metrics }))
+    : null);
+
+  // Independent queries run concurrently - all from all branches:
+  // the repo-wide summary (no author filter), then user-specific stats, activity
+  // patterns, weekly trends and, with --churn, code churn (filtered by email for accuracy)
+  const [summary, userStatsArray, activity, trends, churnArray, repoInfo, doraMetrics, issueLinks, reviews] = await Promise.all([
+    metrics.getRepoSummary(multiBranchOptions),
+    metrics.getAuthorStats(userOptions),
+    metrics.getTimeStats(userOptions),
+    metrics.getStatsByPeriod(userOptions, 'week'),
+    options.churn ? metrics.getCodeChurn(userOptions) : Promise.resolve([]),
+    repoInfoRequest,
+    doraRequest,
+    linksRequest,
+    reviewRequest,
+  ]);
+  // getAuthorStats/getCodeChurn return arrays; take the first element (should only be one when filtering by email)
   const userStats = userStatsArray.length > 0 ? userStatsArray[0] : null;
-  // Get activity patterns (filter by email for accuracy) - from all branches
-  const activity = metrics.getTimeStats({ ...multiBranchOptions, email: userEmail });
-  // Get weekly trends (filter by email for accuracy) - from all branches
-  const trends = metrics.getStatsByPeriod({ ...multiBranchOptions, email: userEmail }, 'week');
+  const churn = churnArray.length > 0 ? churnArray[0] : null;
 
   const data: CollectedData = {
     collectedAt: now.toISOString(),
     period,
     repository: repoPath,
-    repoName: getRepoName(repoPath),
+    repoName: repoInfo.name,
     user: { username: author, email: userEmail },
-    gitMetrics: { summary, userStats, activity, trends },
+    gitMetrics: { summary, userStats, activity, trends, churn },
+    doraMetrics,
+    issueLinks,
+    ...(reviews && { [getReviewMetricsKey(reviews.provider)]: reviews.metrics }),
   };
 
-  // Get Jira metrics if configured (use config email for assignee when no override)
-  if (options.jiraProject) {
-    const jiraConfig = getJiraConfig();
-    if (jiraConfig) {
-      try {
-        const client = new JiraClient(jiraConfig);
-        const assigneeEmail = options.authorOverride ? userEmail : gitConfig.email;
-        const issues = await client.getProjectIssues({
-          project: options.jiraProject,
-          since,
-          assignee: assigneeEmail,
-        });
-        data.jiraMetrics = calculateJiraMetrics(issues, { since, until });
-      } catch (error: unknown) {
-        data.jiraMetrics = { available: false, error: (error as Error).message };
-      }
-    }
+  // Issue tracker metrics of the user's issues (config email for the assignee when no override)
+  const assignee = options.authorOverride ? userEmail : gitConfig.email;
+  for (const { provider, project } of getRequestedTrackers(options.trackers ?? {})) {
+    if (!provider.createClient()) continue;
+    data[getTrackerMetricsKey(provider)] = await getTrackerMetrics(provider, { project, since, until, assignee });
   }
 
   return data;
@@ -350,7 +391,7 @@ async function collectRepoMetrics(
 // Save Data
 // ==========================================
 
-function convertToCSV(data: CollectedData): string {
+export function convertToCSV(data: CollectedData): string {
   const lines: string[] = [];
   
   // Header row
@@ -430,29 +471,101 @@ function convertToCSV(data: CollectedData): string {
     });
   }
   
-  // Jira Metrics
-  if (data.jiraMetrics && typeof data.jiraMetrics === 'object') {
-    const jira = data.jiraMetrics as any;
-    if (jira.available !== false) {
-      lines.push(`jira,issues_analyzed,${jira.issuesAnalyzed || 0},count,`);
-      lines.push(`jira,issues_created,${jira.created || 0},count,`);
-      lines.push(`jira,issues_in_progress,${jira.inProgress || 0},count,`);
-      lines.push(`jira,issues_completed,${jira.completed || 0},count,`);
-      
-      if (jira.cycleTime) {
-        lines.push(`jira,cycle_time_avg_days,${jira.cycleTime.avgDays || 0},days,`);
-        lines.push(`jira,cycle_time_median_days,${jira.cycleTime.medianDays || 0},days,`);
-      }
-      
-      if (jira.leadTime) {
-        lines.push(`jira,lead_time_avg_days,${jira.leadTime.avgDays || 0},days,`);
-        lines.push(`jira,lead_time_median_days,${jira.leadTime.medianDays || 0},days,`);
-      }
-      
-      if (jira.velocity) {
-        lines.push(`jira,velocity_story_points,${jira.velocity.storyPoints || 0},points,`);
-        lines.push(`jira,velocity_issues_per_week,${jira.velocity.issuesPerWeek || 0},rate,`);
-      }
+  // Git Metrics - Code Churn
+  const churn = data.gitMetrics.churn as any;
+  if (churn) {
+    lines.push(`git_churn,new_code,${churn.newCode || 0},count,`);
+    lines.push(`git_churn,churned_code,${churn.churnedCode || 0},count,`);
+    lines.push(`git_churn,churn_rate,${churn.churnRate || 0},rate,`);
+  }
+  
+  // DORA Metrics
+  const dora = data.doraMetrics as any;
+  if (dora && dora.available !== false) {
+    lines.push(`dora,deployments,${dora.deploymentFrequency?.total || 0},count,`);
+    lines.push(`dora,deployments_per_week,${dora.deploymentFrequency?.perWeek || 0},rate,`);
+    if (dora.leadTime) {
+      lines.push(`dora,lead_time_median_hours,${dora.leadTime.medianHours || 0},hours,`);
+    }
+    lines.push(`dora,change_failure_rate,${dora.changeFailureRate?.rate || 0},rate,`);
+    if (dora.timeToRestore?.count) {
+      lines.push(`dora,time_to_restore_median_hours,${dora.timeToRestore.medianHours || 0},hours,`);
+    }
+  }
+  
+  // Commit-to-Issue Links
+  const links = data.issueLinks as any;
+  if (links && links.available !== false) {
+    lines.push(`issue_links,linked_commits,${links.linkedCommits || 0},count,`);
+    lines.push(`issue_links,unlinked_commits,${links.unlinkedCommits || 0},count,`);
+    lines.push(`issue_links,unlinked_rate,${links.unlinkedRate || 0},rate,`);
+    lines.push(`issue_links,issues,${links.issues?.length || 0},count,`);
+    if (links.codingTime) {
+      lines.push(`issue_links,coding_time_median_hours,${links.codingTime.medianHours || 0},hours,`);
+    }
+    if (links.waitingTime) {
+      lines.push(`issue_links,waiting_time_median_hours,${links.waitingTime.medianHours || 0},hours,`);
+    }
+  }
+  
+  // Pull request reviews, per code review platform
+  for (const provider of getReviewProviders()) {
+    const review = data[getReviewMetricsKey(provider)] as ReviewMetrics | undefined;
+    if (!review || review.available === false) continue;
+
+    const id = provider.id;
+    lines.push(`${id},pull_requests,${review.pullRequests || 0},count,`);
+    lines.push(`${id},merged,${review.merged || 0},count,`);
+    if (review.cycleTime) {
+      lines.push(`${id},cycle_time_median_hours,${review.cycleTime.medianHours || 0},hours,`);
+    }
+    if (review.timeToFirstReview) {
+      lines.push(`${id},time_to_first_review_median_hours,${review.timeToFirstReview.medianHours || 0},hours,`);
+    }
+    if (review.timeToFirstComment) {
+      lines.push(`${id},time_to_first_comment_median_hours,${review.timeToFirstComment.medianHours || 0},hours,`);
+    }
+    if (review.approvalLatency) {
+      lines.push(`${id},approval_latency_median_hours,${review.approvalLatency.medianHours || 0},hours,`);
+    }
+    if (review.reviewRounds) {
+      lines.push(`${id},review_rounds_avg,${review.reviewRounds.avg || 0},count,`);
+    }
+    lines.push(`${id},comments_total,${review.comments?.total || 0},count,`);
+    lines.push(`${id},size_median_lines,${review.size?.medianLines || 0},count,`);
+    lines.push(`${id},unreviewed_merge_rate,${review.unreviewedMerges?.rate || 0},rate,`);
+    if (review.pipelines) {
+      lines.push(`${id},pipeline_failure_rate,${review.pipelines.failureRate || 0},rate,`);
+    }
+    for (const { reviewer, reviews } of review.reviewerLoad ?? []) {
+      lines.push(`${id},reviews,${reviews},count,"reviewer:${reviewer.replace(/"/g, '""')}"`);
+    }
+  }
+
+  // Issue tracker metrics: the shared ones, then each tracker's own
+  for (const provider of getTrackers()) {
+    const metrics = data[getTrackerMetricsKey(provider)] as TrackerMetrics | undefined;
+    if (!metrics || typeof metrics !== 'object' || metrics.available === false) continue;
+
+    const rows: Array<[string, string | number, string]> = [
+      ['issues_analyzed', metrics.issuesAnalyzed || 0, 'count'],
+      ['wip_current', metrics.wip?.current || 0, 'count'],
+    ];
+    if (metrics.cycleTime) {
+      rows.push(['cycle_time_avg_days', metrics.cycleTime.avgDays || 0, 'days']);
+      rows.push(['cycle_time_median_days', metrics.cycleTime.medianDays || 0, 'days']);
+    }
+    if (metrics.leadTime) {
+      rows.push(['lead_time_avg_days', metrics.leadTime.avgDays || 0, 'days']);
+      rows.push(['lead_time_median_days', metrics.leadTime.medianDays || 0, 'days']);
+    }
+    if (metrics.throughput) {
+      rows.push(['throughput_total', metrics.throughput.total || 0, 'count']);
+      rows.push(['throughput_per_week', metrics.throughput.perWeek || 0, 'rate']);
+    }
+    rows.push(...provider.csvRows?.(metrics) ?? []);
+    for (const [name, value, unit] of rows) {
+      lines.push(`${provider.id},${name},${value},${unit},`);
     }
   }
   
@@ -524,10 +637,42 @@ export function loadHistoricalData(repoName: string, limit: number = 10, clientN
     .slice(0, limit);
 }
 
+/**
+ * Splits a CSV line into fields, honoring quoted fields with commas and
+ * doubled quotes.
+ */
+function splitCSVLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
 /**
  * Parse CSV content back to CollectedData format for display
  */
-function parseCSVToCollectedData(csvContent: string): CollectedData | null {
+export function parseCSVToCollectedData(csvContent: string): CollectedData | null {
   try {
     const lines = csvContent.split('\n');
     const data: any = {
@@ -548,7 +693,7 @@ function parseCSVToCollectedData(csvContent: string): CollectedData | null {
       const line = lines[i].trim();
       if (!line) continue;
       
-      const parts = line.split(',');
+      const parts = splitCSVLine(line);
       if (parts.length < 3) continue;
       
       const [metricType, metricName, value] = parts;
@@ -575,6 +720,59 @@ function parseCSVToCollectedData(csvContent: string): CollectedData | null {
         else if (metricName === 'lines_added') data.gitMetrics.userStats.linesAdded = parseInt(value) || 0;
         else if (metricName === 'lines_deleted') data.gitMetrics.userStats.linesDeleted = parseInt(value) || 0;
       }
+      // Git Churn
+      else if (metricType === 'git_churn') {
+        data.gitMetrics.churn = data.gitMetrics.churn || {};
+        if (metricName === 'new_code') data.gitMetrics.churn.newCode = parseInt(value) || 0;
+        else if (metricName === 'churned_code') data.gitMetrics.churn.churnedCode = parseInt(value) || 0;
+        else if (metricName === 'churn_rate') data.gitMetrics.churn.churnRate = parseFloat(value) || 0;
+      }
+      // DORA
+      else if (metricType === 'dora') {
+        data.doraMetrics = data.doraMetrics || { deploymentFrequency: {}, changeFailureRate: {} };
+        if (metricName === 'deployments') data.doraMetrics.deploymentFrequency.total = parseInt(value) || 0;
+        else if (metricName === 'deployments_per_week') data.doraMetrics.deploymentFrequency.perWeek = parseFloat(value) || 0;
+        else if (metricName === 'lead_time_median_hours') data.doraMetrics.leadTime = { medianHours: parseFloat(value) || 0 };
+        else if (metricName === 'change_failure_rate') data.doraMetrics.changeFailureRate.rate = parseFloat(value) || 0;
+        else if (metricName === 'time_to_restore_median_hours') data.doraMetrics.timeToRestore = { medianHours: parseFloat(value) || 0 };
+      }
+      // Commit-to-Issue Links
+      else if (metricType === 'issue_links') {
+        data.issueLinks = data.issueLinks || {};
+        if (metricName === 'linked_commits') data.issueLinks.linkedCommits = parseInt(value) || 0;
+        else if (metricName === 'unlinked_commits') data.issueLinks.unlinkedCommits = parseInt(value) || 0;
+        else if (metricName === 'unlinked_rate') data.issueLinks.unlinkedRate = parseFloat(value) || 0;
+        else if (metricName === 'issues') data.issueLinks.issueCount = parseInt(value) || 0;
+        else if (metricName === 'coding_time_median_hours') data.issueLinks.codingTime = { medianHours: parseFloat(value) || 0 };
+        else if (metricName === 'waiting_time_median_hours') data.issueLinks.waitingTime = { medianHours: parseFloat(value) || 0 };
+      }
+      // Pull request reviews (github, gitlab, ...)
+      else if (getReviewProvider(metricType)) {
+        const key = `${metricType}Metrics`;
+        const review = data[key] = data[key] || { unreviewedMerges: {} };
+        if (metricName === 'pull_requests') review.pullRequests = parseInt(value) || 0;
+        else if (metricName === 'merged') review.merged = parseInt(value) || 0;
+        else if (metricName === 'cycle_time_median_hours') review.cycleTime = { medianHours: parseFloat(value) || 0 };
+        else if (metricName === 'time_to_first_review_median_hours') review.timeToFirstReview = { medianHours: parseFloat(value) || 0 };
+        else if (metricName === 'time_to_first_comment_median_hours') review.timeToFirstComment = { medianHours: parseFloat(value) || 0 };
+        else if (metricName === 'approval_latency_median_hours') review.approvalLatency = { medianHours: parseFloat(value) || 0 };
+        else if (metricName === 'unreviewed_merge_rate') review.unreviewedMerges.rate = parseFloat(value) || 0;
+        else if (metricName === 'pipeline_failure_rate') review.pipelines = { failureRate: parseFloat(value) || 0 };
+      }
+      // Issue trackers (jira, linear): the shared metrics, then each tracker's own
+      else if (getTracker(metricType)) {
+        const key = `${metricType}Metrics`;
+        const tracker = data[key] = data[key] || { available: true, wip: { current: 0, byAssignee: {} } };
+        if (metricName === 'issues_analyzed') tracker.issuesAnalyzed = parseInt(value) || 0;
+        else if (metricName === 'wip_current') tracker.wip.current = parseInt(value) || 0;
+        else if (metricName === 'cycle_time_avg_days') tracker.cycleTime = { ...tracker.cycleTime, avgDays: parseFloat(value) || 0 };
+        else if (metricName === 'cycle_time_median_days') tracker.cycleTime = { ...tracker.cycleTime, medianDays: parseFloat(value) || 0 };
+        else if (metricName === 'lead_time_avg_days') tracker.leadTime = { ...tracker.leadTime, avgDays: parseFloat(value) || 0 };
+        else if (metricName === 'lead_time_median_days') tracker.leadTime = { ...tracker.leadTime, medianDays: parseFloat(value) || 0 };
+        else if (metricName === 'throughput_total') tracker.throughput = { ...tracker.throughput, total: parseInt(value) || 0 };
+        else if (metricName === 'throughput_per_week') tracker.throughput = { ...tracker.throughput, perWeek: parseFloat(value) || 0 };
+        else getTracker(metricType)!.parseCsvRow?.(tracker, metricName, value);
+      }
     }
     
     return data as CollectedData;
@@ -596,7 +794,7 @@ function parseUsernamesOption(usernames?: string): { type: 'none' } | { type: 'a
   return names.length ? { type: 'list', names } : { type: 'none' };
 }
 
-export async function collectCommand(options: {
+export async function collectCommand(options: Partial<Record<IssueTracker, string>> & {
   repo?: string;
   client?: string;
   pull?: boolean;
@@ -604,13 +802,13 @@ export async function collectCommand(options: {
   since?: string;
   until?: string;
   usernames?: string;
-  jira?: string;
   all?: boolean;
   quiet?: boolean;
   scheduled?: boolean;
   upload?: boolean;
   noUpload?: boolean;
   format?: 'json' | 'csv';
+  churn?: boolean;
 }): Promise<void> {
   // Detect common mistake: using -authors instead of --usernames
   const args = process.argv.slice(2);
@@ -680,7 +878,7 @@ export async function collectCommand(options: {
     // Use current directory
     const cwd = process.cwd();
     try {
-      execSync('git rev-parse --git-dir', { cwd, stdio: ['pipe', 'pipe', 'pipe'] });
+      await runGit(['rev-parse', '--git-dir'], { cwd });
       
       // Check if this repo is configured for any client
       const owners = findRepositoryOwners(cwd);
@@ -749,21 +947,21 @@ export async function collectCommand(options: {
       continue;
     }
 
-    const repoName = getRepoName(repoPath);
+    const repoName = (await getRepoInfo(repoPath)).name;
 
     // Resolve list of users to collect for this repo
     let usersToCollect: string[];
     if (usernamesOption.type === 'none') {
       usersToCollect = [gitConfig.username];
     } else if (usernamesOption.type === 'all') {
-      usersToCollect = getAuthorsInRepo(repoPath, filterOptions);
+      usersToCollect = await getAuthorsInRepo(repoPath, filterOptions);
       if (!usersToCollect.length && !options.quiet) {
         printWarning(`No authors found in ${repoName}.`);
         continue;
       }
     } else {
       // Validate that requested users exist in the repository (check entire history, not just the filtered period)
-      const authorsWithDetails = getAuthorsWithDetails(repoPath, {});
+      const authorsWithDetails = await getAuthorsWithDetails(repoPath, {});
       const allAuthorsNames = authorsWithDetails.map(a => a.name);
       usersToCollect = [];
       const missingUsers: string[] = [];
@@ -809,7 +1007,7 @@ export async function collectCommand(options: {
       // Git pull if not disabled (once per repo)
       if (options.pull !== false) {
         spinner.text = `Pulling latest from ${gitConfig.mainBranch}...`;
-        const pullResult = gitPull(repoPath, gitConfig.mainBranch);
+        const pullResult = await gitPull(repoPath, gitConfig.mainBranch);
 
         if (!pullResult.success && !options.quiet) {
           spinner.warn(`Pull warning: ${pullResult.message}`);
@@ -831,8 +1029,9 @@ export async function collectCommand(options: {
           total: options.total,
           since: options.since,
           until: options.until,
-          jiraProject: options.jira,
+          trackers: options,
           authorOverride: singleUser ? undefined : username,
+          churn: options.churn,
         });
 
         const authorSlug = singleUser ? undefined : authorToSlug(username);
@@ -1020,11 +1219,11 @@ export async function showCommand(options: {
   let repoName: string;
   
   if (options.repo) {
-    repoName = getRepoName(options.repo);
+    repoName = (await getRepoInfo(options.repo)).name;
   } else if (config.repositories?.length) {
-    repoName = getRepoName(config.repositories[0]);
+    repoName = (await getRepoInfo(config.repositories[0])).name;
   } else {
-    repoName = getRepoName(process.cwd());
+    repoName = (await getRepoInfo(process.cwd())).name;
   }
   
   const limit = options.last || 5;
@@ -1055,15 +1254,79 @@ export async function showCommand(options: {
       console.log(`    Commits: ${chalk.yellow(summary.totalCommits)}`);
       console.log(`    Lines: ${chalk.green(`+${summary.totalLinesAdded}`)} ${chalk.red(`-${summary.totalLinesDeleted}`)}`);
     }
+    if (git?.churn) {
+      const churn = git.churn as { churnedCode: number; churnRate: number };
+      console.log(`    Churn: ${chalk.yellow(churn.churnedCode)} lines (${Math.round(churn.churnRate * 100)}%)`);
+    }
     
-    if (entry.jiraMetrics) {
-      const jira = entry.jiraMetrics as { available?: boolean; issuesAnalyzed?: number; cycleTime?: { avgDays: number } };
-      if (jira.available !== false) {
-        console.log(chalk.gray('\n    Jira:'));
-        console.log(`      Issues: ${jira.issuesAnalyzed || 0}`);
-        if (jira.cycleTime) {
-          console.log(`      Cycle Time: ${jira.cycleTime.avgDays} days avg`);
+    if (entry.doraMetrics) {
+      const dora = entry.doraMetrics as {
+        available?: boolean;
+        deploymentFrequency?: { total: number; perWeek: number };
+        leadTime?: { medianHours: number } | null;
+        changeFailureRate?: { rate: number };
+      };
+      if (dora.available !== false && dora.deploymentFrequency) {
+        console.log(chalk.gray('\n    DORA:'));
+        console.log(`      Deployments: ${dora.deploymentFrequency.total} (${dora.deploymentFrequency.perWeek}/week)`);
+        if (dora.leadTime) {
+          console.log(`      Lead Time: ${dora.leadTime.medianHours} hours median`);
+        }
+        console.log(`      Change Failure Rate: ${Math.round((dora.changeFailureRate?.rate || 0) * 100)}%`);
+      }
+    }
+    
+    if (entry.issueLinks) {
+      const links = entry.issueLinks as {
+        available?: boolean;
+        unlinkedRate?: number;
+        issues?: unknown[];
+        issueCount?: number;
+        codingTime?: { medianHours: number } | null;
+        waitingTime?: { medianHours: number } | null;
+      };
+      if (links.available !== false && links.unlinkedRate !== undefined) {
+        console.log(chalk.gray('\n    Issue Links:'));
+        console.log(`      Issues: ${links.issues?.length ?? links.issueCount ?? 0} (${Math.round(links.unlinkedRate * 100)}% of commits unlinked)`);
+        if (links.codingTime) {
+          console.log(`      Coding Time: ${links.codingTime.medianHours} hours median`);
         }
+        if (links.waitingTime) {
+          console.log(`      Waiting Time: ${links.waitingTime.medianHours} hours median`);
+        }
+      }
+    }
+    
+    for (const provider of getReviewProviders()) {
+      const review = entry[getReviewMetricsKey(provider)] as Partial<ReviewMetrics> | undefined;
+      if (!review || review.available === false || review.pullRequests === undefined) continue;
+      console.log(chalk.gray(`\n    ${provider.name}:`));
+      console.log(`      ${provider.label}: ${review.pullRequests} (${review.merged ?? 0} merged)`);
+      if (review.cycleTime) {
+        console.log(`      Cycle Time: ${review.cycleTime.medianHours} hours median`);
+      }
+      if (review.timeToFirstReview) {
+        console.log(`      Time to First Review: ${review.timeToFirstReview.medianHours} hours median`);
+      }
+      if (review.approvalLatency) {
+        console.log(`      Approval Latency: ${review.approvalLatency.medianHours} hours median`);
+      }
+      console.log(`      Unreviewed Merges: ${Math.round((review.unreviewedMerges?.rate || 0) * 100)}%`);
+      if (review.pipelines) {
+        console.log(`      Pipeline Failure Rate: ${Math.round((review.pipelines.failureRate || 0) * 100)}%`);
+      }
+    }
+    
+    for (const provider of getTrackers()) {
+      const metrics = entry[getTrackerMetricsKey(provider)] as TrackerMetrics | undefined;
+      if (!metrics || metrics.available === false) continue;
+      console.log(chalk.gray(`\n    ${provider.name}:`));
+      console.log(`      Issues: ${metrics.issuesAnalyzed || 0}`);
+      if (metrics.cycleTime) {
+        console.log(`      Cycle Time: ${metrics.cycleTime.avgDays} days avg`);
+      }
+      for (const line of provider.summaryLines?.(metrics) ?? []) {
+        console.log(`      ${line}`);
       }
     }
   }
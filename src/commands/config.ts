@@ -6,8 +6,8 @@ import chalk from 'chalk';
 import Table from 'cli-table3';
 import { writeFileSync, existsSync, mkdirSync } from 'fs';
 import { dirname } from 'path';
-import { getConfigStatus, getConfigFilePath, configFileExists, getJiraConfig } from '../config/integrations';
-import { JiraClient } from '../integrations/jira/client';
+import { getConfigStatus, getConfigFilePath, configFileExists } from '../config/integrations';
+import { getReviewProviders, getTrackers } from '../integrations/registry';
 
 interface ConfigCommandOptions {
   check?: boolean;
@@ -50,7 +50,7 @@ async function checkConfig(testConnections: boolean): Promise<void> {
 
   const table = new Table({
     head: [chalk.cyan('Integration'), chalk.cyan('Status'), chalk.cyan('Details')],
-    colWidths: [12, 18, 50],
+    colWidths: [14, 18, 50],
   });
 
   table.push([
@@ -65,6 +65,32 @@ async function checkConfig(testConnections: boolean): Promise<void> {
     activeClientStatus.linear.configured ? 'API Key set' : '-',
   ]);
 
+  table.push([
+    'GitHub',
+    activeClientStatus.github.configured ? chalk.green('✓ Configured') : chalk.gray('Not configured'),
+    activeClientStatus.github.configured ? (activeClientStatus.github.url || 'github.com') : '-',
+  ]);
+
+  table.push([
+    'GitLab',
+    activeClientStatus.gitlab.configured ? chalk.green('✓ Configured') : chalk.gray('Not configured'),
+    activeClientStatus.gitlab.configured ? (activeClientStatus.gitlab.url || 'gitlab.com') : '-',
+  ]);
+
+  table.push([
+    'Bitbucket',
+    activeClientStatus.bitbucket.configured ? chalk.green('✓ Configured') : chalk.gray('Not configured'),
+    activeClientStatus.bitbucket.configured ? (activeClientStatus.bitbucket.username || 'Access token') : '-',
+  ]);
+
+  table.push([
+    'Azure Repos',
+    activeClientStatus.azure.configured ? chalk.green('✓ Configured') : chalk.gray('Not configured'),
+    activeClientStatus.azure.configured
+      ? `${activeClientStatus.azure.url || 'dev.azure.com'}/${activeClientStatus.azure.organization}`
+      : '-',
+  ]);
+
   table.push([
     'Notion',
     activeClientStatus.notion.configured ? chalk.green('✓ Configured') : chalk.gray('Not configured'),
@@ -78,38 +104,16 @@ async function checkConfig(testConnections: boolean): Promise<void> {
   if (testConnections) {
     console.log(chalk.bold('Testing connections...\n'));
     
-    if (activeClientStatus.jira.configured) {
-      process.stdout.write('  Jira: ');
+    for (const provider of [...getTrackers(), ...getReviewProviders()]) {
+      const client = provider.createClient();
+      if (!client) continue;
+      process.stdout.write(`  ${provider.name}: `);
       try {
-        const config = getJiraConfig();
-        if (config) {
-          const client = new JiraClient(config);
-          const result = await client.testConnection();
-          if (result.success) {
-            console.log(chalk.green(`✓ Connected as ${result.user}`));
-          } else {
-            console.log(chalk.red(`✗ ${result.error}`));
-          }
-        }
-      } catch (error: unknown) {
-        console.log(chalk.red(`✗ ${(error as Error).message}`));
-      }
-    }
-
-    if (activeClientStatus.linear.configured) {
-      process.stdout.write('  Linear: ');
-      try {
-        const { getLinearConfig } = await import('../config/integrations');
-        const { LinearClient } = await import('../integrations/linear/client');
-        const linearConfig = getLinearConfig();
-        if (linearConfig) {
-          const client = new LinearClient(linearConfig);
-          const result = await client.testConnection();
-          if (result.success) {
-            console.log(chalk.green(`✓ Connected as ${result.user}`));
-          } else {
-            console.log(chalk.red(`✗ ${result.error}`));
-          }
+        const result = await client.testConnection();
+        if (result.success) {
+          console.log(chalk.green(`✓ Connected as ${result.user}`));
+        } else {
+          console.log(chalk.red(`✗ ${result.error}`));
         }
       } catch (error: unknown) {
         console.log(chalk.red(`✗ ${(error as Error).message}`));
@@ -139,7 +143,10 @@ async function checkConfig(testConnections: boolean): Promise<void> {
     console.log('');
   }
 
-  if (!activeClientStatus.jira.configured && !activeClientStatus.linear.configured && !activeClientStatus.notion.configured) {
+  if (!activeClientStatus.jira.configured && !activeClientStatus.linear.configured &&
+      !activeClientStatus.github.configured && !activeClientStatus.gitlab.configured &&
+      !activeClientStatus.bitbucket.configured && !activeClientStatus.azure.configured &&
+      !activeClientStatus.notion.configured) {
     showSetupInstructions();
   }
 }
@@ -0,0 +1,142 @@
+// ============================================
+// DORA CLI Command
+// ============================================
+
+import chalk from 'chalk';
+import ora from 'ora';
+import { writeFileSync } from 'fs';
+import { format, isValid } from 'date-fns';
+import { GitMetrics } from '../core/git-metrics';
+import { DeploymentIncident, DeploymentSource, DoraOptions } from '../types';
+import { formatDoraMetrics, formatDeployments } from '../output/formatters';
+import {
+  isInitialized,
+  getCommitIndexDir,
+  getDoraConfig,
+  getGitConfig,
+  getJiraConfig,
+} from '../config/integrations';
+import { JiraClient } from '../integrations/jira/client';
+import { getReleaseIncidents } from '../integrations/jira/metrics';
+import { parseDate } from '../utils/date-utils';
+
+type OutputFormat = 'table' | 'json' | 'csv' | 'markdown';
+
+interface DoraCommandOptions {
+  since?: string;
+  until?: string;
+  source?: DeploymentSource;
+  tagPattern?: string;
+  releaseBranch?: string;
+  deploymentsFile?: string;
+  hotfixPattern?: string;
+  jira?: string;
+  format?: OutputFormat;
+  output?: string;
+}
+
+// ==========================================
+// Helpers
+// ==========================================
+
+/**
+ * Builds DORA options from the active client's `dora` config, with the
+ * client's main branch as release branch, overridden by CLI options.
+ *
+ * @param overrides - Options given on the command line
+ * @returns Options for GitMetrics.getDoraMetrics
+ */
+export function resolveDoraOptions(overrides: DoraOptions = {}): DoraOptions {
+  const config = isInitialized() ? getDoraConfig() : null;
+  const mainBranch = isInitialized() ? getGitConfig()?.mainBranch : undefined;
+  const defined = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined)
+  ) as DoraOptions;
+
+  return {
+    releaseBranch: mainBranch,
+    ...config,
+    ...defined,
+  };
+}
+
+/**
+ * Fetches Jira bugs reported against releases as DORA incidents.
+ *
+ * @param projectKey - Jira project key
+ * @param since - Start of the period (ISO or relative); earlier bugs are skipped
+ * @returns Incidents per affected release
+ * @throws {Error} If Jira isn't configured or the request fails
+ */
+export async function getJiraReleaseIncidents(projectKey: string, since?: string): Promise<DeploymentIncident[]> {
+  const config = getJiraConfig();
+  if (!config) {
+    throw new Error('Jira not configured (set JIRA_URL, JIRA_EMAIL, JIRA_TOKEN)');
+  }
+
+  const sinceDate = since ? parseDate(since) : null;
+  const client = new JiraClient(config);
+  const bugs = await client.getReleaseBugs(
+    projectKey,
+    sinceDate && isValid(sinceDate) ? format(sinceDate, 'yyyy-MM-dd') : undefined
+  );
+  return getReleaseIncidents(bugs);
+}
+
+// ==========================================
+// DORA Command
+// ==========================================
+
+export async function doraCommand(path: string, options: DoraCommandOptions): Promise<void> {
+  const spinner = ora('Calculating DORA metrics...').start();
+
+  try {
+    const metrics = new GitMetrics(path, { cacheDir: isInitialized() ? getCommitIndexDir() : undefined });
+    const doraOptions = resolveDoraOptions({
+      source: options.source,
+      tagPattern: options.tagPattern,
+      releaseBranch: options.releaseBranch,
+      deploymentsFile: options.deploymentsFile,
+      hotfixPattern: options.hotfixPattern,
+    });
+
+    let incidents: DeploymentIncident[] = [];
+    if (options.jira) {
+      spinner.text = 'Fetching Jira bugs reported against releases...';
+      incidents = await getJiraReleaseIncidents(options.jira, options.since);
+      spinner.text = 'Calculating DORA metrics...';
+    }
+
+    const dora = await metrics.getDoraMetrics(
+      { since: options.since, until: options.until },
+      doraOptions,
+      incidents
+    );
+    const outputFormat = options.format || 'table';
+
+    spinner.stop();
+
+    let output: string;
+    if (outputFormat === 'json') {
+      output = formatDoraMetrics(dora, outputFormat);
+    } else {
+      console.log(chalk.bold.cyan(`\n🚀 DORA METRICS (deployments from ${dora.source})\n`));
+      output = formatDoraMetrics(dora, outputFormat);
+      if (dora.deployments.length) {
+        output += outputFormat === 'table' ? chalk.bold.cyan('\n\n📦 DEPLOYMENTS\n\n') : '\n\n';
+        output += formatDeployments(dora.deployments, outputFormat);
+      }
+    }
+
+    if (options.output) {
+      writeFileSync(options.output, output);
+      console.log(chalk.green(`✓ Output saved to ${options.output}`));
+    } else {
+      console.log(output);
+    }
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    spinner.fail(chalk.red(`Error: ${message}`));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,217 @@
+// ============================================
+// Delivery Forecast CLI Command
+// ============================================
+
+import chalk from 'chalk';
+import ora from 'ora';
+import { writeFileSync } from 'fs';
+import { format, isValid, subMonths } from 'date-fns';
+import { calculateForecast, getFullWeeks } from '../core/forecast';
+import { formatForecast } from '../output/formatters';
+import { getJiraConfig, getJiraStatusMapping, getLinearConfig } from '../config/integrations';
+import { JiraClient } from '../integrations/jira/client';
+import { calculateJiraMetrics } from '../integrations/jira/metrics';
+import { LinearClient } from '../integrations/linear/client';
+import { calculateLinearMetrics } from '../integrations/linear/metrics';
+import { parseDate } from '../utils/date-utils';
+
+type OutputFormat = 'table' | 'json' | 'csv' | 'markdown';
+
+interface ForecastCommandOptions {
+  jira?: string;
+  linear?: string;
+  jql?: string;
+  epic?: string;
+  project?: string;
+  cycle?: number;
+  items?: number;
+  by?: string;
+  since?: string;
+  iterations?: number;
+  seed?: number;
+  format?: OutputFormat;
+  output?: string;
+}
+
+/**
+ * Throughput history and the work left, as fetched from a tracker.
+ */
+interface ForecastInput {
+  /** Completed items per week (ThroughputMetrics.byWeek) */
+  byWeek: Array<{ week: string; count: number }>;
+  /** Open items in the scope, undefined without a scope */
+  remaining?: number;
+  /** Description of the scope */
+  scope?: string;
+}
+
+// ==========================================
+// Helpers
+// ==========================================
+
+/**
+ * Parses a date option into YYYY-MM-DD.
+ *
+ * @private
+ */
+function toDateString(value: string): string {
+  const date = parseDate(value);
+  if (!isValid(date)) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Fetches a Jira project's throughput since `since` and counts the open
+ * issues of a JQL query or epic.
+ *
+ * @param projectKey - Jira project key
+ * @param since - Start of the throughput history (YYYY-MM-DD)
+ * @param scope - JQL query or epic key to count remaining issues from
+ * @returns Weekly throughput and the remaining issues
+ * @throws {Error} If Jira isn't configured or the request fails
+ */
+export async function getJiraForecastInput(
+  projectKey: string,
+  since: string,
+  scope: { jql?: string; epic?: string } = {}
+): Promise<ForecastInput> {
+  const config = getJiraConfig();
+  if (!config) {
+    throw new Error('Jira not configured (set JIRA_URL, JIRA_EMAIL, JIRA_TOKEN)');
+  }
+  if (scope.epic && !/^[A-Z][A-Z0-9]*-\d+$/i.test(scope.epic)) {
+    throw new Error(`Invalid epic key: ${scope.epic}`);
+  }
+
+  const client = new JiraClient(config);
+  const completed = await client.getCompletedIssues(projectKey, since);
+  const metrics = calculateJiraMetrics(completed, { since, statusMapping: getJiraStatusMapping() });
+  const byWeek = metrics.throughput?.byWeek ?? [];
+
+  if (scope.epic) {
+    const epic = scope.epic.toUpperCase();
+    return { byWeek, remaining: await client.countOpenIssues(`parent = "${epic}"`), scope: `epic ${epic}` };
+  }
+  if (scope.jql) {
+    return { byWeek, remaining: await client.countOpenIssues(scope.jql), scope: `JQL: ${scope.jql}` };
+  }
+  return { byWeek };
+}
+
+/**
+ * Fetches a Linear team's throughput since `since` and counts the open
+ * issues of a project or cycle.
+ *
+ * @param teamName - Linear team name
+ * @param since - Start of the throughput history (YYYY-MM-DD)
+ * @param scope - Project name or cycle number to count remaining issues from
+ * @returns Weekly throughput and the remaining issues
+ * @throws {Error} If Linear isn't configured, the team doesn't exist or the request fails
+ */
+export async function getLinearForecastInput(
+  teamName: string,
+  since: string,
+  scope: { project?: string; cycle?: number } = {}
+): Promise<ForecastInput> {
+  const config = getLinearConfig();
+  if (!config) {
+    throw new Error('Linear not configured (set LINEAR_API_KEY)');
+  }
+
+  const client = new LinearClient(config);
+  const completed = await client.getTeamIssues(teamName, { stateTypes: ['completed'], completedSince: since });
+  const byWeek = calculateLinearMetrics(completed, { since }).throughput?.byWeek ?? [];
+
+  if (scope.project === undefined && scope.cycle === undefined) return { byWeek };
+
+  const open = await client.getTeamIssues(teamName, {
+    stateTypes: ['backlog', 'unstarted', 'started'],
+    projectName: scope.project,
+    cycleNumber: scope.cycle,
+  });
+  const name = scope.project !== undefined ? `project ${scope.project}` : `cycle ${scope.cycle}`;
+  return { byWeek, remaining: open.length, scope: name };
+}
+
+// ==========================================
+// Forecast Command
+// ==========================================
+
+export async function forecastCommand(options: ForecastCommandOptions): Promise<void> {
+  const spinner = ora('Fetching throughput history...').start();
+
+  try {
+    if (!options.jira === !options.linear) {
+      throw new Error('Pass either --jira <project> or --linear <team>');
+    }
+    if (options.jira && (options.project !== undefined || options.cycle !== undefined)) {
+      throw new Error('--project and --cycle are Linear scopes; use --jql or --epic with Jira');
+    }
+    if (options.linear && (options.jql !== undefined || options.epic !== undefined)) {
+      throw new Error('--jql and --epic are Jira scopes; use --project or --cycle with Linear');
+    }
+    const scopes = [options.jql, options.epic, options.project, options.cycle, options.items];
+    if (scopes.filter(scope => scope !== undefined).length > 1) {
+      throw new Error('Pass only one of --jql, --epic, --project, --cycle or --items');
+    }
+    if (scopes.every(scope => scope === undefined) && !options.by) {
+      throw new Error('Nothing to forecast: pass remaining work (--jql, --epic, --project, --cycle, --items) or --by <date>');
+    }
+    if (options.items !== undefined && !(options.items >= 0)) {
+      throw new Error('Invalid --items: expected a number of items');
+    }
+    if (options.cycle !== undefined && !(options.cycle > 0)) {
+      throw new Error('Invalid --cycle: expected a cycle number');
+    }
+    if (options.iterations !== undefined && !(options.iterations > 0)) {
+      throw new Error('Invalid --iterations: expected a positive number');
+    }
+    if (options.seed !== undefined && isNaN(options.seed)) {
+      throw new Error('Invalid --seed: expected an integer');
+    }
+
+    const now = new Date();
+    const since = options.since ? toDateString(options.since) : format(subMonths(now, 3), 'yyyy-MM-dd');
+    const targetDate = options.by ? toDateString(options.by) : undefined;
+
+    const input = options.jira
+      ? await getJiraForecastInput(options.jira, since, { jql: options.jql, epic: options.epic })
+      : await getLinearForecastInput(options.linear!, since, { project: options.project, cycle: options.cycle });
+
+    spinner.text = `Running ${options.iterations ?? 10000} simulations...`;
+    const history = getFullWeeks(input.byWeek, parseDate(since), now);
+    const forecast = calculateForecast(history.byWeek, {
+      tracker: options.jira ? 'jira' : 'linear',
+      project: (options.jira ?? options.linear)!,
+      scope: options.items !== undefined ? `${options.items} items` : input.scope,
+      weeks: history.weeks,
+      remaining: options.items ?? input.remaining,
+      targetDate,
+      iterations: options.iterations,
+      seed: options.seed,
+      now,
+    });
+    const outputFormat = options.format || 'table';
+
+    spinner.stop();
+
+    if (outputFormat !== 'json') {
+      const source = forecast.tracker === 'jira' ? 'Jira' : 'Linear';
+      console.log(chalk.bold.cyan(`\n🎲 DELIVERY FORECAST (${source} ${forecast.project})\n`));
+    }
+    const output = formatForecast(forecast, outputFormat);
+
+    if (options.output) {
+      writeFileSync(options.output, output);
+      console.log(chalk.green(`✓ Output saved to ${options.output}`));
+    } else {
+      console.log(output);
+    }
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    spinner.fail(chalk.red(`Error: ${message}`));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,87 @@
+// ============================================
+// Hotspots CLI Command
+// ============================================
+
+import chalk from 'chalk';
+import ora from 'ora';
+import { writeFileSync } from 'fs';
+import { GitMetrics } from '../core/git-metrics';
+import { formatComplexityTrends, formatDirectoryHotspots, formatFileHotspots } from '../output/formatters';
+import { isInitialized, getCommitIndexDir } from '../config/integrations';
+
+type OutputFormat = 'table' | 'json' | 'csv' | 'markdown';
+
+/** Change window when --since isn't given */
+const DEFAULT_SINCE = '1 year ago';
+
+interface HotspotsCommandOptions {
+  since?: string;
+  until?: string;
+  author?: string;
+  branch?: string;
+  path?: string[];
+  limit?: number;
+  trend?: number;
+  format?: OutputFormat;
+  output?: string;
+}
+
+// ==========================================
+// Hotspots Command
+// ==========================================
+
+export async function hotspotsCommand(path: string, options: HotspotsCommandOptions): Promise<void> {
+  const spinner = ora('Measuring file complexity...').start();
+
+  try {
+    if (options.trend !== undefined && !(options.trend >= 0)) {
+      throw new Error('Invalid --trend: expected a number of files');
+    }
+
+    const since = options.since || DEFAULT_SINCE;
+    const metrics = new GitMetrics(path, { cacheDir: isInitialized() ? getCommitIndexDir() : undefined });
+    const report = await metrics.getHotspots(
+      {
+        since,
+        until: options.until,
+        author: options.author,
+        branch: options.branch,
+        paths: options.path,
+      },
+      { limit: options.limit, trendFiles: options.trend }
+    );
+    const outputFormat = options.format || 'table';
+
+    spinner.stop();
+
+    let output: string;
+    if (outputFormat === 'json') {
+      output = JSON.stringify(report, null, 2);
+    } else {
+      console.log(chalk.bold.cyan(`\n🔥 HOTSPOTS (changes since ${since}, complexity at ${report.revision})\n`));
+      output = formatFileHotspots(report.files, outputFormat, options.limit);
+      if (report.files.length) {
+        output += outputFormat === 'table' ? chalk.bold.cyan('\n\n📁 DIRECTORIES\n\n') : '\n\n';
+        output += formatDirectoryHotspots(report.directories, outputFormat, options.limit);
+        if (report.trends.length) {
+          output += outputFormat === 'table' ? chalk.bold.cyan('\n\n📈 COMPLEXITY TRENDS\n\n') : '\n\n';
+          output += formatComplexityTrends(report.trends, outputFormat);
+        }
+        if (outputFormat === 'table') {
+          output += chalk.gray(`\n\n${report.analyzedFiles} files analyzed. Complexity is total indentation depth; the riskiest file scores 100.`);
+        }
+      }
+    }
+
+    if (options.output) {
+      writeFileSync(options.output, output);
+      console.log(chalk.green(`✓ Output saved to ${options.output}`));
+    } else {
+      console.log(output);
+    }
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    spinner.fail(chalk.red(`Error: ${message}`));
+    process.exit(1);
+  }
+}
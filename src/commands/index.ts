@@ -6,7 +6,9 @@ import chalk from 'chalk';
 import ora from 'ora';
 import { writeFileSync } from 'fs';
 import { GitMetrics } from '../core/git-metrics';
-import { FilterOptions, GroupBy } from '../types';
+import {
+  FilterOptions, GroupBy, ComparisonStats, DoraMetrics, DeploymentIncident, IssueTracker, ReviewPlatform, TrackerMetrics,
+} from '../types';
 import {
   formatRepoSummary,
   formatAuthorStats,
@@ -15,9 +17,19 @@ import {
   formatFileStats,
   formatPeriodStats,
   formatBlameStats,
+  formatCodeChurn,
+  formatComparisonStats,
+  formatDoraMetrics,
+  formatReviewMetrics,
 } from '../output/formatters';
-import { JiraMetrics } from '../integrations/jira/types';
+import { resolveDoraOptions, getJiraReleaseIncidents } from './dora';
+import { IssueTrackerProvider, MetricRow } from '../integrations/base/interfaces';
+import {
+  getRequestedReviewProviders, getRequestedTrackers, getReviewMetrics, getReviewProviders, getTrackerMetrics, getTrackers,
+} from '../integrations/registry';
+import { isInitialized, getCommitIndexDir } from '../config/integrations';
 import { DEFAULTS, DISPLAY, TIME_THRESHOLDS } from '../config/constants';
+import { Period, parsePeriod, getPreviousPeriod, periodToGitRange, formatDate } from '../utils/date-utils';
 
 type OutputFormat = 'table' | 'json' | 'csv' | 'markdown';
 
@@ -32,7 +44,9 @@ interface CommonOptions {
 }
 
 function getMetrics(path: string): GitMetrics {
-  return new GitMetrics(path);
+  // Persist the commit index under the active client's data dir once gdm is set up
+  const cacheDir = isInitialized() ? getCommitIndexDir() : undefined;
+  return new GitMetrics(path, { cacheDir });
 }
 
 function buildFilterOptions(options: CommonOptions): FilterOptions {
@@ -67,7 +81,7 @@ export async function summaryCommand(
   try {
     const metrics = getMetrics(path);
     const filterOptions = buildFilterOptions(options);
-    const summary = metrics.getRepoSummary(filterOptions);
+    const summary = await metrics.getRepoSummary(filterOptions);
     
     spinner.stop();
     
@@ -94,7 +108,7 @@ export async function authorsCommand(
   try {
     const metrics = getMetrics(path);
     const filterOptions = buildFilterOptions(options);
-    let stats = metrics.getAuthorStats(filterOptions);
+    let stats = await metrics.getAuthorStats(filterOptions);
     
     if (options.limit) {
       stats = stats.slice(0, options.limit);
@@ -125,7 +139,7 @@ export async function commitsCommand(
   try {
     const metrics = getMetrics(path);
     const filterOptions = buildFilterOptions(options);
-    const commits = metrics.getCommits(filterOptions, options.limit || DEFAULTS.COMMIT_LIMIT);
+    const commits = await metrics.getCommits(filterOptions, options.limit || DEFAULTS.COMMIT_LIMIT);
     
     spinner.stop();
     
@@ -152,7 +166,7 @@ export async function activityCommand(
   try {
     const metrics = getMetrics(path);
     const filterOptions = buildFilterOptions(options);
-    const stats = metrics.getTimeStats(filterOptions);
+    const stats = await metrics.getTimeStats(filterOptions);
     
     spinner.stop();
     
@@ -179,7 +193,7 @@ export async function filesCommand(
   try {
     const metrics = getMetrics(path);
     const filterOptions = buildFilterOptions(options);
-    const stats = metrics.getFileStats(filterOptions, options.limit || DEFAULTS.FILE_LIMIT);
+    const stats = await metrics.getFileStats(filterOptions, options.limit || DEFAULTS.FILE_LIMIT);
     
     spinner.stop();
     
@@ -206,7 +220,7 @@ export async function trendsCommand(
   try {
     const metrics = getMetrics(path);
     const filterOptions = buildFilterOptions(options);
-    const stats = metrics.getStatsByPeriod(filterOptions, options.groupBy || 'month');
+    const stats = await metrics.getStatsByPeriod(filterOptions, options.groupBy || 'month');
     
     spinner.stop();
     
@@ -232,7 +246,7 @@ export async function blameCommand(
 
   try {
     const metrics = getMetrics(path);
-    const stats = metrics.getBlameStats(options.file);
+    const stats = await metrics.getBlameStats(options.file);
     
     spinner.stop();
     
@@ -246,13 +260,99 @@ export async function blameCommand(
   }
 }
 
+// ==========================================
+// Churn Command (Rework)
+// ==========================================
+
+export async function churnCommand(
+  path: string,
+  options: CommonOptions & { window?: number }
+): Promise<void> {
+  const spinner = ora('Analyzing code churn (this may take a while)...').start();
+
+  try {
+    const metrics = getMetrics(path);
+    const filterOptions = buildFilterOptions(options);
+    const windowDays = options.window || TIME_THRESHOLDS.NEW_CODE_DAYS;
+    const stats = await metrics.getCodeChurn(filterOptions, windowDays);
+    
+    spinner.stop();
+    
+    console.log(chalk.bold.cyan(`\n♻️  CODE CHURN (rewritten within ${windowDays} days)\n`));
+    const output = formatCodeChurn(stats, options.format || 'table');
+    outputResult(output, options.output);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    spinner.fail(chalk.red(`Error: ${message}`));
+    process.exit(1);
+  }
+}
+
+// ==========================================
+// Compare Command (Period over Period)
+// ==========================================
+
+/**
+ * Resolves the current and previous windows for a comparison.
+ * The current window comes from --current, then --since/--until, then the
+ * default collection window; the previous one from --previous or the
+ * equal-length window right before the current one.
+ */
+function resolveComparisonPeriods(
+  options: CommonOptions & { current?: string; previous?: string }
+): { current: Period; previous: Period } {
+  let current: Period;
+  if (options.current) {
+    current = parsePeriod(options.current);
+  } else if (options.since) {
+    current = parsePeriod(`${options.since}..${options.until || ''}`);
+  } else {
+    current = parsePeriod(`last ${DEFAULTS.COLLECTION_DAYS} days`);
+  }
+  return { current, previous: getPreviousPeriod(current, options.previous) };
+}
+
+function formatPeriodLabel(period: Period): string {
+  return `${formatDate(period.since)} → ${formatDate(period.until)}`;
+}
+
+export async function compareCommand(
+  path: string,
+  options: CommonOptions & { current?: string; previous?: string }
+): Promise<void> {
+  const spinner = ora('Comparing periods...').start();
+
+  try {
+    const metrics = getMetrics(path);
+    const { current, previous } = resolveComparisonPeriods(options);
+    const filterOptions = buildFilterOptions(options);
+    const stats = await metrics.getComparisonStats(
+      { ...filterOptions, ...periodToGitRange(current) },
+      { ...filterOptions, ...periodToGitRange(previous) }
+    );
+    
+    spinner.stop();
+    
+    console.log(chalk.bold.cyan('\n⚖️  PERIOD COMPARISON\n'));
+    console.log(chalk.gray(`  Current:  ${formatPeriodLabel(current)}`));
+    console.log(chalk.gray(`  Previous: ${formatPeriodLabel(previous)}\n`));
+    const output = formatComparisonStats(stats, options.format || 'table');
+    outputResult(output, options.output);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    spinner.fail(chalk.red(`Error: ${message}`));
+    process.exit(1);
+  }
+}
+
 // ==========================================
 // Report Command (Full Report)
 // ==========================================
 
 export async function reportCommand(
   path: string,
-  options: CommonOptions & { jira?: string; linear?: string }
+  options: CommonOptions & Partial<Record<IssueTracker, string>> & Partial<Record<ReviewPlatform, string | boolean>>
+    & { compare?: boolean; churn?: boolean }
 ): Promise<void> {
   const spinner = ora('Generating full report...').start();
 
@@ -261,12 +361,58 @@ export async function reportCommand(
     const filterOptions = buildFilterOptions(options);
     const format = options.format || 'table';
     
-    // Get Jira metrics if requested
-    let jiraMetrics: JiraMetrics | null = null;
-    if (options.jira) {
-      spinner.text = 'Fetching Jira metrics...';
-      jiraMetrics = await getJiraMetricsForReport(options.jira, filterOptions.since, filterOptions.until);
+    // Metrics of every tracker requested through its option (--jira KEY, --linear Team, ...)
+    const requested = getRequestedTrackers(options);
+    const trackersRequest = Promise.all(requested.map(({ provider, project }) =>
+      getTrackerMetrics(provider, { project, since: filterOptions.since, until: filterOptions.until })));
+
+    // Review metrics of every platform requested through its option (--github, --gitlab group/project, ...),
+    // of the origin remote unless a repository is given
+    const requestedReviews = getRequestedReviewProviders(options);
+    const reviewsRequest = Promise.all(requestedReviews.map(({ provider, repository }) =>
+      getReviewMetrics(provider, path, { repository, since: filterOptions.since, until: filterOptions.until })));
+
+    // Compare against the equal-length window before the report period
+    let comparisonRequest: Promise<{ current: Period; previous: Period; authors: ComparisonStats[] } | null> =
+      Promise.resolve(null);
+    if (options.compare && filterOptions.since) {
+      const { current, previous } = resolveComparisonPeriods(options);
+      comparisonRequest = metrics.getComparisonStats(
+        { ...filterOptions, ...periodToGitRange(current) },
+        { ...filterOptions, ...periodToGitRange(previous) }
+      ).then(authors => ({ current, previous, authors }));
     }
+
+    // DORA metrics; with --jira, bugs reported against releases count as failures
+    let doraReason = '';
+    const incidentsRequest: Promise<DeploymentIncident[]> = options.jira
+      ? getJiraReleaseIncidents(options.jira, filterOptions.since).catch(() => [])
+      : Promise.resolve([]);
+    const doraRequest: Promise<DoraMetrics | null> = incidentsRequest
+      .then(incidents => metrics.getDoraMetrics(
+        { since: filterOptions.since, until: filterOptions.until },
+        resolveDoraOptions(),
+        incidents
+      ))
+      .catch((error: unknown) => {
+        doraReason = error instanceof Error ? error.message : 'Unknown error';
+        return null;
+      });
+
+    // Independent queries run concurrently (they share one commit index refresh)
+    const [summary, authors, activity, files, trends, churn, trackerMetrics, reviewMetrics, comparison, dora] = await Promise.all([
+      metrics.getRepoSummary(filterOptions),
+      metrics.getAuthorStats(filterOptions),
+      metrics.getTimeStats(filterOptions),
+      metrics.getFileStats(filterOptions, 20),
+      metrics.getStatsByPeriod(filterOptions, 'month'),
+      // Churn blames every changed file of every commit, so it's opt-in
+      options.churn ? metrics.getCodeChurn(filterOptions) : Promise.resolve(null),
+      trackersRequest,
+      reviewsRequest,
+      comparisonRequest,
+      doraRequest,
+    ]);
     
     let output = '';
     const isMarkdown = format === 'markdown';
@@ -277,25 +423,25 @@ export async function reportCommand(
       const report = {
         repository: path,
         period: { since: filterOptions.since || 'all time', until: filterOptions.until || 'now' },
-        git_metrics: {
-          summary: metrics.getRepoSummary(filterOptions),
-          authors: metrics.getAuthorStats(filterOptions),
-          activity: metrics.getTimeStats(filterOptions),
-          files: metrics.getFileStats(filterOptions, 20),
-          trends: metrics.getStatsByPeriod(filterOptions, 'month'),
-        },
-        jira_metrics: jiraMetrics || { available: false, reason: 'Not requested or not configured' },
-        linear_metrics: { available: false, reason: 'Not implemented yet' },
+        git_metrics: { summary, authors, activity, files, trends, ...(churn && { churn }) },
+        ...(options.compare && {
+          comparison: comparison || { available: false, reason: 'Requires --since' },
+        }),
+        dora_metrics: dora || { available: false, reason: doraReason },
+        ...Object.fromEntries(getTrackers().map(provider => [
+          `${provider.id}_metrics`,
+          trackerMetrics[requested.findIndex(r => r.provider === provider)]
+            ?? { available: false, reason: 'Not requested or not configured' },
+        ])),
+        ...Object.fromEntries(getReviewProviders().map(provider => [
+          `${provider.id}_metrics`,
+          reviewMetrics[requestedReviews.findIndex(r => r.provider === provider)]
+            ?? { available: false, reason: 'Not requested' },
+        ])),
       };
       output = JSON.stringify(report, null, 2);
     } else {
       // Table or Markdown
-      const summary = metrics.getRepoSummary(filterOptions);
-      const authors = metrics.getAuthorStats(filterOptions);
-      const activity = metrics.getTimeStats(filterOptions);
-      const files = metrics.getFileStats(filterOptions, 20);
-      const trends = metrics.getStatsByPeriod(filterOptions, 'month');
-
       if (isMarkdown) {
         output = `# Git Repository Report\n\n`;
         output += `Generated: ${new Date().toISOString()}\n\n`;
@@ -317,15 +463,49 @@ export async function reportCommand(
       output += '\n\n' + (isMarkdown ? '## 📁 Hot Files\n\n' : chalk.bold.cyan('📁 HOT FILES\n\n'));
       output += formatFileStats(files.slice(0, 10), format);
 
-      // Add Jira section if available
-      if (jiraMetrics && jiraMetrics.available) {
-        output += '\n\n' + (isMarkdown ? '## 🎫 Jira Metrics\n\n' : chalk.bold.cyan('🎫 JIRA METRICS\n\n'));
-        output += formatJiraMetricsSection(jiraMetrics, format, isMarkdown);
-      } else if (options.jira) {
-        const reason = jiraMetrics?.reason || 'Jira not configured';
-        output += '\n\n' + (isMarkdown ? `## 🎫 Jira Metrics\n\n_${reason}_\n` : chalk.yellow(`\n⚠️  Jira: ${reason}\n`));
+      if (churn) {
+        output += '\n\n' + (isMarkdown ? '## ♻️ Code Churn\n\n' : chalk.bold.cyan('♻️  CODE CHURN\n\n'));
+        output += formatCodeChurn(churn.slice(0, 10), format);
       }
 
+      output += '\n\n' + (isMarkdown ? '## 🚀 DORA Metrics\n\n' : chalk.bold.cyan('🚀 DORA METRICS\n\n'));
+      output += dora
+        ? formatDoraMetrics(dora, format)
+        : (isMarkdown ? `_${doraReason}_\n` : chalk.yellow(`⚠️  DORA: ${doraReason}\n`));
+
+      if (comparison) {
+        const label = `vs previous period (${formatPeriodLabel(comparison.previous)})`;
+        output += '\n\n' + (isMarkdown ? `## ⚖️ Authors ${label}\n\n` : chalk.bold.cyan(`⚖️  AUTHORS ${label.toUpperCase()}\n\n`));
+        output += formatComparisonStats(comparison.authors.slice(0, 10), format);
+      } else if (options.compare) {
+        output += '\n\n' + (isMarkdown ? '## ⚖️ vs Previous Period\n\n_Requires --since_\n' : chalk.yellow('\n⚠️  Comparison: requires --since\n'));
+      }
+
+      // One section per requested tracker
+      requested.forEach(({ provider }, i) => {
+        const metrics = trackerMetrics[i];
+        const title = `${provider.icon} ${provider.name} Metrics`;
+        if (metrics.available) {
+          output += '\n\n' + (isMarkdown ? `## ${title}\n\n` : chalk.bold.cyan(`${title.toUpperCase()}\n\n`));
+          output += formatTrackerMetricsSection(provider, metrics, isMarkdown);
+        } else {
+          output += '\n\n' + (isMarkdown ? `## ${title}\n\n_${metrics.reason}_\n` : chalk.yellow(`\n⚠️  ${provider.name}: ${metrics.reason}\n`));
+        }
+      });
+
+      // One section per requested code review platform
+      requestedReviews.forEach(({ provider }, i) => {
+        const metrics = reviewMetrics[i];
+        const title = `🔀 ${provider.name} ${provider.label}`;
+        if (metrics.available) {
+          const heading = `${title} (${metrics.repository})`;
+          output += '\n\n' + (isMarkdown ? `## ${heading}\n\n` : chalk.bold.cyan(`${title.toUpperCase()} (${metrics.repository})\n\n`));
+          output += formatReviewMetrics(metrics, format);
+        } else {
+          output += '\n\n' + (isMarkdown ? `## ${title}\n\n_${metrics.reason}_\n` : chalk.yellow(`\n⚠️  ${provider.name}: ${metrics.reason}\n`));
+        }
+      });
+
       if (!isMarkdown) {
         output += '\n' + chalk.bold.magenta('═'.repeat(60) + '\n');
       }
@@ -340,90 +520,34 @@ export async function reportCommand(
   }
 }
 
-// Helper to get Jira metrics for report
-async function getJiraMetricsForReport(projectKey: string, since?: string, until?: string): Promise<any> {
-  try {
-    const { getJiraConfig } = await import('../config/integrations');
-    const { JiraClient } = await import('../integrations/jira/client');
-    const { calculateJiraMetrics } = await import('../integrations/jira/metrics');
-    const { format, subMonths } = await import('date-fns');
-    
-    const config = getJiraConfig();
-    if (!config) {
-      return { available: false, reason: 'Jira not configured (set JIRA_URL, JIRA_EMAIL, JIRA_TOKEN)' };
-    }
-    
-    const client = new JiraClient(config);
-    const test = await client.testConnection();
-    if (!test.success) {
-      return { available: false, reason: `Connection failed: ${test.error}` };
-    }
-    
-    const issues = await client.getProjectIssues({
-      project: projectKey,
-      since: since || format(subMonths(new Date(), 3), 'yyyy-MM-dd'),
-      until: until || format(new Date(), 'yyyy-MM-dd'),
-      excludeTypes: ['Epic'],
-    });
-    
-    return calculateJiraMetrics(issues, { since, until });
-  } catch (error: unknown) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    return { available: false, reason: message } as any;
+// Format a tracker's metrics for table/markdown
+function formatTrackerMetricsSection(provider: IssueTrackerProvider, metrics: TrackerMetrics, isMarkdown: boolean): string {
+  const rows: MetricRow[] = [['Issues Analyzed', metrics.issuesAnalyzed.toString()]];
+  if (metrics.cycleTime) {
+    rows.push(['Cycle Time (avg)', isMarkdown ? `${metrics.cycleTime.avgDays} days` : chalk.yellow(`${metrics.cycleTime.avgDays} days`)]);
+    rows.push(['Cycle Time (p90)', `${metrics.cycleTime.p90Days} days`]);
   }
-}
+  if (metrics.leadTime) {
+    rows.push(['Lead Time (avg)', `${metrics.leadTime.avgDays} days`]);
+  }
+  rows.push(['WIP (current)', metrics.wip.current.toString()]);
+  if (metrics.throughput) {
+    rows.push(['Throughput (total)', isMarkdown ? metrics.throughput.total.toString() : chalk.green(metrics.throughput.total.toString())]);
+    rows.push([isMarkdown ? 'Throughput (per week)' : 'Throughput/week', metrics.throughput.perWeek.toString()]);
+  }
+  rows.push(...provider.reportRows?.(metrics, isMarkdown) ?? []);
 
-// Format Jira metrics for table/markdown
-function formatJiraMetricsSection(metrics: JiraMetrics | null, format: string, isMarkdown: boolean): string {
-  if (!metrics) return '';
-  
-  if (format === 'json') return JSON.stringify(metrics, null, 2);
-  
-  let output = '';
-  
   if (isMarkdown) {
-    output += `| Metric | Value |\n|--------|-------|\n`;
-    output += `| Issues Analyzed | ${metrics.issuesAnalyzed} |\n`;
-    if (metrics.cycleTime) {
-      output += `| Cycle Time (avg) | ${metrics.cycleTime.avgDays} days |\n`;
-      output += `| Cycle Time (p90) | ${metrics.cycleTime.p90Days} days |\n`;
-    }
-    if (metrics.leadTime) {
-      output += `| Lead Time (avg) | ${metrics.leadTime.avgDays} days |\n`;
-    }
-    output += `| WIP (current) | ${metrics.wip.current} |\n`;
-    if (metrics.throughput) {
-      output += `| Throughput (total) | ${metrics.throughput.total} |\n`;
-      output += `| Throughput (per week) | ${metrics.throughput.perWeek} |\n`;
-    }
-    output += `| Bug Ratio | ${Math.round(metrics.bugRatio.ratio * 100)}% |\n`;
-  } else {
-    const Table = require('cli-table3');
-    const table = new Table({
-      head: [chalk.cyan('Metric'), chalk.cyan('Value')],
-      colWidths: [25, 20],
-    });
-    
-    table.push(['Issues Analyzed', metrics.issuesAnalyzed.toString()]);
-    if (metrics.cycleTime) {
-      table.push(['Cycle Time (avg)', chalk.yellow(`${metrics.cycleTime.avgDays} days`)]);
-      table.push(['Cycle Time (p90)', `${metrics.cycleTime.p90Days} days`]);
-    }
-    if (metrics.leadTime) {
-      table.push(['Lead Time (avg)', `${metrics.leadTime.avgDays} days`]);
-    }
-    table.push(['WIP (current)', metrics.wip.current.toString()]);
-    if (metrics.throughput) {
-      table.push(['Throughput (total)', chalk.green(metrics.throughput.total.toString())]);
-      table.push(['Throughput/week', metrics.throughput.perWeek.toString()]);
-    }
-    const ratioColor = metrics.bugRatio.ratio > 0.3 ? chalk.red : metrics.bugRatio.ratio > 0.15 ? chalk.yellow : chalk.green;
-    table.push(['Bug Ratio', ratioColor(`${Math.round(metrics.bugRatio.ratio * 100)}%`)]);
-    
-    output = table.toString();
+    return `| Metric | Value |\n|--------|-------|\n` + rows.map(([label, value]) => `| ${label} | ${value} |\n`).join('');
   }
-  
-  return output;
+
+  const Table = require('cli-table3');
+  const table = new Table({
+    head: [chalk.cyan('Metric'), chalk.cyan('Value')],
+    colWidths: [25, 20],
+  });
+  table.push(...rows);
+  return table.toString();
 }
 
 // ==========================================
@@ -439,7 +563,7 @@ export async function fileTypesCommand(
   try {
     const metrics = getMetrics(path);
     const filterOptions = buildFilterOptions(options);
-    const stats = metrics.getFileTypeStats(filterOptions);
+    const stats = await metrics.getFileTypeStats(filterOptions);
     const format = options.format || 'table';
 
     spinner.stop();
@@ -4,7 +4,6 @@
 
 import chalk from 'chalk';
 import * as readline from 'readline';
-import { execSync } from 'child_process';
 import { existsSync } from 'fs';
 import { resolve } from 'path';
 import {
@@ -21,11 +20,23 @@ import {
   GitConfig,
   JiraConfig,
   LinearConfig,
+  GitHubConfig,
+  GitLabConfig,
+  BitbucketConfig,
+  AzureReposConfig,
   ClientConfig,
 } from '../config/integrations';
 import { printWelcome, printSuccess, printError, printWarning, printSection } from '../branding';
 import { JiraClient } from '../integrations/jira/client';
+import { getStatusCategory, mergeStatusMapping, suggestStatusMapping } from '../integrations/jira/metrics';
+import { DEFAULT_STATUS_MAPPING, JiraStatusCategory, JiraStatusMapping } from '../integrations/jira/types';
 import { LinearClient } from '../integrations/linear/client';
+import { GitHubClient } from '../integrations/github/client';
+import { GitLabClient } from '../integrations/gitlab/client';
+import { BitbucketClient } from '../integrations/bitbucket/client';
+import { AzureReposClient } from '../integrations/azure/client';
+import { runGit } from '../core/git-runner';
+import { validateBranchName } from '../utils/validation';
 
 // ==========================================
 // Readline Helper
@@ -113,18 +124,18 @@ async function askPassword(rl: readline.Interface, question: string): Promise<st
  * @returns Object with username and email
  * @private
  */
-function detectGitUser(): { username: string; email: string } {
+async function detectGitUser(): Promise<{ username: string; email: string }> {
   let username = '';
   let email = '';
   
   try {
-    username = execSync('git config --global user.name', { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'] }).trim();
+    username = await runGit(['config', '--global', 'user.name'], { cwd: process.cwd() });
   } catch (error: unknown) {
     // Git username not configured globally, will prompt user
   }
   
   try {
-    email = execSync('git config --global user.email', { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'] }).trim();
+    email = await runGit(['config', '--global', 'user.email'], { cwd: process.cwd() });
   } catch (error: unknown) {
     // Git email not configured globally, will prompt user
   }
@@ -140,15 +151,14 @@ function detectGitUser(): { username: string; email: string } {
  * @returns Main branch name ('main' or 'master')
  * @private
  */
-function detectMainBranch(repoPath?: string): string {
+async function detectMainBranch(repoPath?: string): Promise<string> {
+  const workDir = repoPath || process.cwd();
   try {
-    const workDir = repoPath || process.cwd();
-    execSync('git rev-parse --verify main', { cwd: workDir, encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'] });
+    await runGit(['rev-parse', '--verify', 'main'], { cwd: workDir });
     return 'main';
   } catch {
     try {
-      const workDir = repoPath || process.cwd();
-      execSync('git rev-parse --verify master', { cwd: workDir, encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'] });
+      await runGit(['rev-parse', '--verify', 'master'], { cwd: workDir });
       return 'master';
     } catch {
       return 'main';
@@ -163,15 +173,49 @@ function detectMainBranch(repoPath?: string): string {
  * @returns True if it's a git repository, false otherwise
  * @private
  */
-function isGitRepo(path: string): boolean {
+async function isGitRepo(path: string): Promise<boolean> {
   try {
-    execSync('git rev-parse --git-dir', { cwd: path, encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'] });
+    await runGit(['rev-parse', '--git-dir'], { cwd: path });
     return true;
   } catch {
     return false;
   }
 }
 
+/**
+ * Walks the user through a Jira project's workflow statuses, asking which
+ * gdm category each one belongs to (suggested from its Jira category).
+ * 
+ * @param rl - Readline interface
+ * @param client - Connected Jira client
+ * @returns Status mapping, or undefined to keep the defaults
+ * @private
+ */
+async function askStatusMapping(rl: readline.Interface, client: JiraClient): Promise<JiraStatusMapping | undefined> {
+  const projectKey = await ask(rl, 'Jira project key to read statuses from (e.g., PROJ)');
+  if (!projectKey) return undefined;
+
+  const statuses = await client.getProjectStatuses(projectKey.toUpperCase());
+  if (!statuses.length) {
+    printWarning(`No statuses found for ${projectKey}`);
+    return undefined;
+  }
+
+  const choices: Record<string, JiraStatusCategory> = { t: 'todo', i: 'inProgress', b: 'blocked', d: 'done' };
+  const suggestion = suggestStatusMapping(statuses);
+  const answers: JiraStatusMapping = { todo: [], inProgress: [], blocked: [], done: [] };
+
+  console.log(chalk.gray('\n  Map each status: (t)o do, (i)n progress, (b)locked, (d)one\n'));
+  for (const status of statuses) {
+    const suggested = getStatusCategory(status.name, suggestion) ?? 'inProgress';
+    const defaultChoice = Object.keys(choices).find(key => choices[key] === suggested)!;
+    const answer = (await ask(rl, `${status.name} ${chalk.gray(`(${status.categoryName})`)}`, defaultChoice)).toLowerCase();
+    answers[choices[answer] ?? suggested].push(status.name);
+  }
+
+  return mergeStatusMapping(DEFAULT_STATUS_MAPPING, answers);
+}
+
 // ==========================================
 // Init Command
 // ==========================================
@@ -200,6 +244,10 @@ export async function initCommand(options: { force?: boolean } = {}): Promise<vo
       console.log(`      Git: ${client.git.configured ? chalk.green('✓') : chalk.gray('✗')} ${client.git.username || 'Not set'}`);
       console.log(`      Jira: ${client.jira.configured ? chalk.green('✓ Connected') : chalk.gray('Not configured')}`);
       console.log(`      Linear: ${client.linear.configured ? chalk.green('✓ Connected') : chalk.gray('Not configured')}`);
+      console.log(`      GitHub: ${client.github.configured ? chalk.green('✓ Connected') : chalk.gray('Not configured')}`);
+      console.log(`      GitLab: ${client.gitlab.configured ? chalk.green('✓ Connected') : chalk.gray('Not configured')}`);
+      console.log(`      Bitbucket: ${client.bitbucket.configured ? chalk.green('✓ Connected') : chalk.gray('Not configured')}`);
+      console.log(`      Azure Repos: ${client.azure.configured ? chalk.green('✓ Connected') : chalk.gray('Not configured')}`);
     }
     
     console.log(`\n  Run ${chalk.cyan('gdm init --force')} to add/update a client.`);
@@ -258,12 +306,19 @@ export async function initCommand(options: { force?: boolean } = {}): Promise<vo
     printSection('Step 2: Git Configuration');
     console.log(chalk.gray('  Your Git identity for tracking contributions.\n'));
     
-    const detected = detectGitUser();
-    const detectedBranch = detectMainBranch();
+    const detected = await detectGitUser();
+    const detectedBranch = await detectMainBranch();
     
     const gitUsername = await ask(rl, 'Git Username', detected.username);
     const gitEmail = await ask(rl, 'Git Email', detected.email);
-    const mainBranch = await ask(rl, 'Main Branch (main/master)', detectedBranch);
+    let mainBranch = await ask(rl, 'Main Branch (main/master)', detectedBranch);
+    
+    // The branch is later passed to git checkout/pull, so only accept valid names
+    const branchCheck = validateBranchName(mainBranch);
+    if (!branchCheck.valid) {
+      printWarning(`${branchCheck.error}: ${mainBranch}. Using ${detectedBranch}.`);
+      mainBranch = detectedBranch;
+    }
     
     const gitConfig: GitConfig = {
       username: gitUsername,
@@ -283,7 +338,7 @@ export async function initCommand(options: { force?: boolean } = {}): Promise<vo
     if (!existsSync(repoPath)) {
       printWarning(`Path not found: ${repoPath}`);
       repoPath = '';
-    } else if (!isGitRepo(repoPath)) {
+    } else if (!(await isGitRepo(repoPath))) {
       printWarning(`Not a Git repository: ${repoPath}`);
       repoPath = '';
     } else {
@@ -326,6 +381,15 @@ export async function initCommand(options: { force?: boolean } = {}): Promise<vo
           const result = await client.testConnection();
           if (result.success) {
             printSuccess(`Connected to Jira as ${result.user}`);
+            
+            const mapStatuses = await askYesNo(rl, 'Map your Jira workflow statuses to gdm categories?', false);
+            if (mapStatuses) {
+              const statusMapping = await askStatusMapping(rl, client);
+              if (statusMapping) {
+                jiraConfig.statusMapping = statusMapping;
+                printSuccess('Status mapping saved');
+              }
+            }
           } else {
             printError(`Connection failed: ${result.error}`);
             const saveAnyway = await askYesNo(rl, 'Save configuration anyway?', false);
@@ -373,9 +437,135 @@ export async function initCommand(options: { force?: boolean } = {}): Promise<vo
     }
     
     // ==========================================
-    // Step 6: Notion Integration (Optional)
+    // Step 6: GitHub Integration (Optional)
+    // ==========================================
+    printSection('Step 6: GitHub Integration (Optional)');
+    console.log(chalk.gray('  Connect to GitHub for pull request review metrics.\n'));
+    
+    const configureGitHub = await askYesNo(rl, 'Configure GitHub integration?', false);
+    
+    let githubConfig: GitHubConfig | undefined;
+    if (configureGitHub) {
+      console.log(chalk.gray('\n  Create a token with read access to pull requests at: https://github.com/settings/tokens\n'));
+      
+      const githubToken = await askPassword(rl, 'GitHub Token');
+      const githubUrl = await ask(rl, 'API URL (GitHub Enterprise only, e.g. https://github.example.com/api/v3)');
+      
+      if (githubToken) {
+        githubConfig = { token: githubToken, url: githubUrl || undefined };
+        
+        // Test connection
+        console.log(chalk.gray('\n  Testing GitHub connection...'));
+        const result = await new GitHubClient(githubConfig).testConnection();
+        if (result.success) {
+          printSuccess(`Connected to GitHub as ${result.user}`);
+        } else {
+          printError(`Connection failed: ${result.error}`);
+          const saveAnyway = await askYesNo(rl, 'Save configuration anyway?', false);
+          if (!saveAnyway) githubConfig = undefined;
+        }
+      }
+    }
+    
+    // ==========================================
+    // Step 7: GitLab Integration (Optional)
+    // ==========================================
+    printSection('Step 7: GitLab Integration (Optional)');
+    console.log(chalk.gray('  Connect to GitLab (gitlab.com or self-managed) for merge request review metrics.\n'));
+    
+    const configureGitLab = await askYesNo(rl, 'Configure GitLab integration?', false);
+    
+    let gitlabConfig: GitLabConfig | undefined;
+    if (configureGitLab) {
+      console.log(chalk.gray('\n  Create a token with the read_api scope under User Settings > Access Tokens\n'));
+      
+      const gitlabToken = await askPassword(rl, 'GitLab Token');
+      const gitlabUrl = await ask(rl, 'Instance URL (self-managed only, e.g. https://gitlab.example.com)');
+      
+      if (gitlabToken) {
+        gitlabConfig = { token: gitlabToken, url: gitlabUrl || undefined };
+        
+        // Test connection
+        console.log(chalk.gray('\n  Testing GitLab connection...'));
+        const result = await new GitLabClient(gitlabConfig).testConnection();
+        if (result.success) {
+          printSuccess(`Connected to GitLab as ${result.user}`);
+        } else {
+          printError(`Connection failed: ${result.error}`);
+          const saveAnyway = await askYesNo(rl, 'Save configuration anyway?', false);
+          if (!saveAnyway) gitlabConfig = undefined;
+        }
+      }
+    }
+    
+    // ==========================================
+    // Step 8: Bitbucket Integration (Optional)
     // ==========================================
-    printSection('Step 6: Notion Integration (Optional)');
+    printSection('Step 8: Bitbucket Integration (Optional)');
+    console.log(chalk.gray('  Connect to Bitbucket Cloud for pull request review metrics.\n'));
+    
+    const configureBitbucket = await askYesNo(rl, 'Configure Bitbucket integration?', false);
+    
+    let bitbucketConfig: BitbucketConfig | undefined;
+    if (configureBitbucket) {
+      console.log(chalk.gray('\n  Create an app password with Pull requests: Read under Personal settings > App passwords,'));
+      console.log(chalk.gray('  or leave the username empty to use a workspace or repository access token\n'));
+      
+      const bitbucketUsername = await ask(rl, 'Bitbucket Username');
+      const bitbucketToken = await askPassword(rl, 'Bitbucket App Password or Token');
+      
+      if (bitbucketToken) {
+        bitbucketConfig = { token: bitbucketToken, username: bitbucketUsername || undefined };
+        
+        // Test connection
+        console.log(chalk.gray('\n  Testing Bitbucket connection...'));
+        const result = await new BitbucketClient(bitbucketConfig).testConnection();
+        if (result.success) {
+          printSuccess(`Connected to Bitbucket as ${result.user}`);
+        } else {
+          printError(`Connection failed: ${result.error}`);
+          const saveAnyway = await askYesNo(rl, 'Save configuration anyway?', false);
+          if (!saveAnyway) bitbucketConfig = undefined;
+        }
+      }
+    }
+    
+    // ==========================================
+    // Step 9: Azure Repos Integration (Optional)
+    // ==========================================
+    printSection('Step 9: Azure Repos Integration (Optional)');
+    console.log(chalk.gray('  Connect to Azure DevOps (Services or Server) for pull request review metrics.\n'));
+    
+    const configureAzure = await askYesNo(rl, 'Configure Azure Repos integration?', false);
+    
+    let azureConfig: AzureReposConfig | undefined;
+    if (configureAzure) {
+      console.log(chalk.gray('\n  Create a token with the Code (Read) scope under User settings > Personal access tokens\n'));
+      
+      const azureOrganization = await ask(rl, 'Organization (collection on Azure DevOps Server)');
+      const azureToken = await askPassword(rl, 'Azure DevOps Token');
+      const azureUrl = await ask(rl, 'Server URL (Azure DevOps Server only, e.g. https://tfs.example.com/tfs)');
+      
+      if (azureOrganization && azureToken) {
+        azureConfig = { organization: azureOrganization, token: azureToken, url: azureUrl || undefined };
+        
+        // Test connection
+        console.log(chalk.gray('\n  Testing Azure Repos connection...'));
+        const result = await new AzureReposClient(azureConfig).testConnection();
+        if (result.success) {
+          printSuccess(`Connected to Azure DevOps as ${result.user}`);
+        } else {
+          printError(`Connection failed: ${result.error}`);
+          const saveAnyway = await askYesNo(rl, 'Save configuration anyway?', false);
+          if (!saveAnyway) azureConfig = undefined;
+        }
+      }
+    }
+    
+    // ==========================================
+    // Step 10: Notion Integration (Optional)
+    // ==========================================
+    printSection('Step 10: Notion Integration (Optional)');
     console.log(chalk.gray('  Upload metrics to Notion for easy tracking.\n'));
     
     const configureNotion = await askYesNo(rl, 'Configure Notion integration?', false);
@@ -421,9 +611,9 @@ export async function initCommand(options: { force?: boolean } = {}): Promise<vo
     }
     
     // ==========================================
-    // Step 7: Scheduler (Optional)
+    // Step 11: Scheduler (Optional)
     // ==========================================
-    printSection('Step 7: Automatic Collection (Optional)');
+    printSection('Step 11: Automatic Collection (Optional)');
     console.log(chalk.gray('  Schedule automatic metric collection.\n'));
     
     const enableScheduler = await askYesNo(rl, 'Enable weekly automatic collection?', true);
@@ -447,6 +637,10 @@ export async function initCommand(options: { force?: boolean } = {}): Promise<vo
       git: gitConfig,
       jira: jiraConfig,
       linear: linearConfig,
+      github: githubConfig,
+      gitlab: gitlabConfig,
+      bitbucket: bitbucketConfig,
+      azure: azureConfig,
       notion: notionConfig,
       repositories,
       scheduler: {
@@ -503,6 +697,15 @@ export async function initCommand(options: { force?: boolean } = {}): Promise<vo
  * @param options.jiraEmail - Jira account email
  * @param options.jiraToken - Jira API token
  * @param options.linearKey - Linear API key
+ * @param options.githubToken - GitHub token
+ * @param options.githubUrl - GitHub API URL (GitHub Enterprise)
+ * @param options.gitlabToken - GitLab token
+ * @param options.gitlabUrl - GitLab instance URL (self-managed)
+ * @param options.bitbucketUsername - Bitbucket username (app password or API token)
+ * @param options.bitbucketToken - Bitbucket token
+ * @param options.azureOrg - Azure DevOps organization
+ * @param options.azureToken - Azure DevOps token
+ * @param options.azureUrl - Azure DevOps Server URL
  */
 export async function quickInitCommand(options: {
   clientName?: string;
@@ -514,6 +717,15 @@ export async function quickInitCommand(options: {
   jiraEmail?: string;
   jiraToken?: string;
   linearKey?: string;
+  githubToken?: string;
+  githubUrl?: string;
+  gitlabToken?: string;
+  gitlabUrl?: string;
+  bitbucketUsername?: string;
+  bitbucketToken?: string;
+  azureOrg?: string;
+  azureToken?: string;
+  azureUrl?: string;
 }): Promise<void> {
   const clientName = options.clientName?.trim().toUpperCase();
   if (!clientName) {
@@ -521,9 +733,17 @@ export async function quickInitCommand(options: {
     return;
   }
 
+  if (options.branch) {
+    const branchCheck = validateBranchName(options.branch);
+    if (!branchCheck.valid) {
+      printError(`${branchCheck.error}: ${options.branch}`);
+      return;
+    }
+  }
+
   ensureConfigDirs();
   
-  const detected = detectGitUser();
+  const detected = await detectGitUser();
   
   const clientConfig: ClientConfig = {
     git: {
@@ -536,7 +756,7 @@ export async function quickInitCommand(options: {
   
   if (options.repo) {
     const fullPath = resolve(options.repo);
-    if (existsSync(fullPath) && isGitRepo(fullPath)) {
+    if (existsSync(fullPath) && (await isGitRepo(fullPath))) {
       clientConfig.repositories = [fullPath];
     }
   }
@@ -553,6 +773,22 @@ export async function quickInitCommand(options: {
     clientConfig.linear = { apiKey: options.linearKey };
   }
   
+  if (options.githubToken) {
+    clientConfig.github = { token: options.githubToken, url: options.githubUrl };
+  }
+  
+  if (options.gitlabToken) {
+    clientConfig.gitlab = { token: options.gitlabToken, url: options.gitlabUrl };
+  }
+  
+  if (options.bitbucketToken) {
+    clientConfig.bitbucket = { token: options.bitbucketToken, username: options.bitbucketUsername };
+  }
+  
+  if (options.azureOrg && options.azureToken) {
+    clientConfig.azure = { organization: options.azureOrg, token: options.azureToken, url: options.azureUrl };
+  }
+  
   addClient(clientName, clientConfig, true);
   printSuccess(`Client '${clientName}' configured and activated!`);
 }
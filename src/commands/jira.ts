@@ -7,10 +7,27 @@ import ora from 'ora';
 import Table from 'cli-table3';
 import { writeFileSync } from 'fs';
 import { format, subMonths } from 'date-fns';
-import { getJiraConfig } from '../config/integrations';
+import { getJiraConfig, getJiraStatusMapping, setJiraStatusMapping } from '../config/integrations';
+import { DEFAULTS } from '../config/constants';
 import { JiraClient } from '../integrations/jira/client';
-import { calculateJiraMetrics } from '../integrations/jira/metrics';
-import { JiraMetrics, JiraFilterOptions } from '../integrations/jira/types';
+import { formatCumulativeFlow } from '../output/formatters';
+import {
+  calculateCumulativeFlow,
+  calculateJiraMetrics,
+  getStatusCategory,
+  mergeStatusMapping,
+  suggestStatusMapping,
+} from '../integrations/jira/metrics';
+import {
+  JiraMetrics,
+  JiraFilterOptions,
+  JiraProjectStatus,
+  JiraSprintIssues,
+  JiraStatusCategory,
+  JiraStatusMapping,
+  SprintMetrics,
+  FlowMetrics,
+} from '../integrations/jira/types';
 
 type OutputFormat = 'table' | 'json' | 'csv' | 'markdown';
 
@@ -18,11 +35,104 @@ interface JiraCommandOptions {
   project: string;
   since?: string;
   until?: string;
+  /** Number of recent sprints to analyze; `true` for the default */
+  sprints?: number | boolean;
+  flow?: boolean;
+  /** Output cumulative flow data instead of the metrics */
+  cfd?: boolean;
   format?: OutputFormat;
   output?: string;
 }
 
+interface JiraStatusesCommandOptions {
+  project: string;
+  save?: boolean;
+  format?: OutputFormat;
+  output?: string;
+}
+
+/** A project status with the category gdm maps it to */
+interface MappedStatus extends JiraProjectStatus {
+  mappedTo: JiraStatusCategory | null;
+  suggested: boolean;
+}
+
+const CATEGORY_LABELS: Record<JiraStatusCategory, string> = {
+  todo: 'To Do',
+  inProgress: 'In Progress',
+  blocked: 'Blocked',
+  done: 'Done',
+};
+
 // Formatters
+const TREND_LABELS: Record<NonNullable<SprintMetrics['velocityTrend']>, string> = {
+  up: chalk.green('↑ up'),
+  down: chalk.red('↓ down'),
+  stable: 'stable',
+};
+
+function formatSprintsTable(sprints: SprintMetrics): string {
+  let output = chalk.bold.cyan('\n\n🏃 SPRINTS\n\n');
+  const summary = new Table({ head: [chalk.cyan('Metric'), chalk.cyan('Value')], colWidths: [25, 15] });
+  summary.push(
+    ['Velocity (points/sprint)', chalk.yellow(sprints.avgVelocity.toString())],
+    ['Velocity Trend', sprints.velocityTrend ? TREND_LABELS[sprints.velocityTrend] : chalk.gray('n/a')],
+    ['Completed Issues/Sprint', sprints.avgCompletedIssues.toString()],
+    ['Completion Rate', `${sprints.avgCompletionRate}%`],
+    ['Scope Added', `${sprints.scopeAddedRate}%`],
+    ['Carry-over', `${sprints.carryOverRate}%`],
+  );
+  output += summary.toString() + '\n\n';
+
+  const table = new Table({
+    head: ['Sprint', 'Committed', 'Added', 'Completed', 'Carried Over', 'Points (done/planned)', 'Rate'].map(h => chalk.cyan(h)),
+  });
+  for (const sprint of sprints.sprints) {
+    const planned = sprint.committedPoints + sprint.addedPoints;
+    const rateColor = sprint.completionRate >= 80 ? chalk.green : sprint.completionRate >= 60 ? chalk.yellow : chalk.red;
+    table.push([
+      sprint.state === 'active' ? `${sprint.name} ${chalk.gray('(active)')}` : sprint.name,
+      sprint.committed,
+      sprint.added,
+      sprint.completed,
+      sprint.carriedOver,
+      `${sprint.completedPoints} / ${planned}`,
+      rateColor(`${sprint.completionRate}%`),
+    ]);
+  }
+  return output + table.toString();
+}
+
+function formatFlowTable(flow: FlowMetrics): string {
+  let output = chalk.bold.cyan('\n\n🌊 FLOW (time in status, first In Progress → Done)\n\n');
+  const effColor = flow.avgEfficiency >= 40 ? chalk.green : flow.avgEfficiency >= 15 ? chalk.yellow : chalk.red;
+  const summary = new Table({ head: [chalk.cyan('Metric'), chalk.cyan('Value')], colWidths: [25, 15] });
+  summary.push(
+    ['Issues Analyzed', flow.issuesAnalyzed.toString()],
+    ['Flow Efficiency (avg)', effColor(`${flow.avgEfficiency}%`)],
+    ['Flow Efficiency (median)', `${flow.medianEfficiency}%`],
+    ['Active / Waiting Hours', `${flow.activeHours} / ${flow.waitingHours}`],
+  );
+  output += summary.toString() + '\n\n';
+
+  const table = new Table({
+    head: ['Status', 'Mapped To', 'Issues', 'Avg h', 'Median h', 'P85 h', 'P95 h', 'Share'].map(h => chalk.cyan(h)),
+  });
+  for (const status of flow.byStatus) {
+    table.push([
+      status.status,
+      status.category ? CATEGORY_LABELS[status.category] : chalk.gray('unmapped'),
+      status.issues,
+      status.avgHours,
+      status.medianHours,
+      status.p85Hours,
+      status.p95Hours,
+      status.category === 'inProgress' ? `${status.share}%` : chalk.yellow(`${status.share}%`),
+    ]);
+  }
+  return output + table.toString();
+}
+
 function formatTable(metrics: JiraMetrics): string {
   let output = chalk.bold.cyan('\n📊 JIRA METRICS\n\n');
 
@@ -110,6 +220,49 @@ function formatTable(metrics: JiraMetrics): string {
   );
   output += br.toString();
 
+  if (metrics.velocity) {
+    const velocity = metrics.velocity;
+    output += chalk.bold.cyan('\n\n🚀 VELOCITY\n\n');
+    const vt = new Table({ head: [chalk.cyan('Metric'), chalk.cyan('Value')], colWidths: [25, 15] });
+    vt.push(
+      [`Points per ${velocity.per}`, chalk.yellow(velocity.storyPoints.toString())],
+      ['Issues per week', velocity.issuesPerWeek.toString()],
+      ['Points completed', velocity.totalPoints.toString()],
+    );
+    output += vt.toString();
+    if (Object.keys(velocity.byAssignee).length) {
+      output += chalk.gray('\n  Points by Assignee: ');
+      const sorted = Object.entries(velocity.byAssignee).sort((a, b) => b[1] - a[1]).slice(0, 5);
+      output += sorted.map(([n, p]) => `${n}: ${p}`).join(', ');
+    }
+  }
+
+  if (metrics.estimateAccuracy) {
+    const ea = metrics.estimateAccuracy;
+    output += chalk.bold.cyan('\n\n📐 ESTIMATES\n\n');
+    const et = new Table({ head: [chalk.cyan('Metric'), chalk.cyan('Value')], colWidths: [25, 15] });
+    et.push(
+      ['Issues w/ Estimates', `${ea.issuesWithEstimates} (${ea.coverage}%)`],
+      ['Avg Estimate', ea.avgEstimate.toString()],
+      ['Total Points Est.', ea.totalEstimated.toString()],
+      ['Total Completed', ea.totalCompleted.toString()],
+      ['Estimate ↔ Cycle Time', ea.cycleTimeCorrelation === null ? chalk.gray('n/a') : ea.cycleTimeCorrelation.toString()],
+    );
+    output += et.toString();
+    if (Object.keys(ea.cycleDaysByEstimate).length) {
+      output += chalk.gray('\n  Cycle Days by Estimate: ');
+      output += Object.entries(ea.cycleDaysByEstimate).map(([p, d]) => `${p}pt: ${d}d`).join(', ');
+    }
+  }
+
+  if (metrics.sprints) {
+    output += formatSprintsTable(metrics.sprints);
+  }
+
+  if (metrics.flow) {
+    output += formatFlowTable(metrics.flow);
+  }
+
   return output;
 }
 
@@ -138,6 +291,32 @@ function formatCsv(metrics: JiraMetrics): string {
   }
   lines.push(`bug_ratio,${metrics.bugRatio.ratio}`);
   lines.push(`bugs_total,${metrics.bugRatio.totalBugs}`);
+  if (metrics.velocity) {
+    lines.push(`velocity_story_points,${metrics.velocity.storyPoints}`);
+    lines.push(`velocity_per,${metrics.velocity.per}`);
+    lines.push(`velocity_issues_per_week,${metrics.velocity.issuesPerWeek}`);
+  }
+  if (metrics.estimateAccuracy) {
+    lines.push(`estimate_coverage,${metrics.estimateAccuracy.coverage}`);
+    lines.push(`estimate_avg_points,${metrics.estimateAccuracy.avgEstimate}`);
+    lines.push(`estimate_cycle_time_correlation,${metrics.estimateAccuracy.cycleTimeCorrelation ?? ''}`);
+  }
+  if (metrics.sprints) {
+    lines.push(`sprint_velocity_points,${metrics.sprints.avgVelocity}`);
+    lines.push(`sprint_completion_rate,${metrics.sprints.avgCompletionRate}`);
+    lines.push(`sprint_scope_added_rate,${metrics.sprints.scopeAddedRate}`);
+    lines.push(`sprint_carry_over_rate,${metrics.sprints.carryOverRate}`);
+    for (const sprint of metrics.sprints.sprints) {
+      lines.push(`"sprint:${sprint.name.replace(/"/g, '""')}",${sprint.completedPoints}`);
+    }
+  }
+  if (metrics.flow) {
+    lines.push(`flow_efficiency_avg,${metrics.flow.avgEfficiency}`);
+    lines.push(`flow_efficiency_median,${metrics.flow.medianEfficiency}`);
+    for (const status of metrics.flow.byStatus) {
+      lines.push(`"status_hours_median:${status.status.replace(/"/g, '""')}",${status.medianHours}`);
+    }
+  }
   return lines.join('\n');
 }
 
@@ -160,6 +339,78 @@ function formatMarkdown(metrics: JiraMetrics): string {
   }
   md += `## 🐛 Bug Ratio\n\n| Metric | Value |\n|--------|-------|\n`;
   md += `| Total Bugs | ${metrics.bugRatio.totalBugs} |\n| Ratio | ${Math.round(metrics.bugRatio.ratio * 100)}% |\n`;
+  if (metrics.velocity) {
+    md += `\n## 🚀 Velocity\n\n| Metric | Value |\n|--------|-------|\n`;
+    md += `| Points per ${metrics.velocity.per} | ${metrics.velocity.storyPoints} |\n| Issues per week | ${metrics.velocity.issuesPerWeek} |\n`;
+    for (const [assignee, points] of Object.entries(metrics.velocity.byAssignee).sort((a, b) => b[1] - a[1])) {
+      md += `| ${assignee} | ${points} pts |\n`;
+    }
+  }
+  if (metrics.estimateAccuracy) {
+    const ea = metrics.estimateAccuracy;
+    md += `\n## 📐 Estimates\n\n| Metric | Value |\n|--------|-------|\n`;
+    md += `| Issues w/ Estimates | ${ea.issuesWithEstimates} (${ea.coverage}%) |\n| Avg Estimate | ${ea.avgEstimate} |\n`;
+    md += `| Total Points Est. | ${ea.totalEstimated} |\n| Total Completed | ${ea.totalCompleted} |\n`;
+    md += `| Estimate ↔ Cycle Time | ${ea.cycleTimeCorrelation ?? 'n/a'} |\n`;
+  }
+  if (metrics.sprints) {
+    const sprints = metrics.sprints;
+    md += `\n## 🏃 Sprints\n\n`;
+    md += `**Velocity:** ${sprints.avgVelocity} points/sprint (${sprints.velocityTrend || 'n/a'})  \n`;
+    md += `**Completion:** ${sprints.avgCompletionRate}% · **Scope Added:** ${sprints.scopeAddedRate}% · **Carry-over:** ${sprints.carryOverRate}%\n\n`;
+    md += `| Sprint | Committed | Added | Completed | Carried Over | Points (done/planned) | Rate |\n`;
+    md += `|--------|-----------|-------|-----------|--------------|-----------------------|------|\n`;
+    for (const sprint of sprints.sprints) {
+      md += `| ${sprint.name}${sprint.state === 'active' ? ' (active)' : ''} | ${sprint.committed} | ${sprint.added} | ${sprint.completed} | ${sprint.carriedOver} | ${sprint.completedPoints} / ${sprint.committedPoints + sprint.addedPoints} | ${sprint.completionRate}% |\n`;
+    }
+  }
+  if (metrics.flow) {
+    const flow = metrics.flow;
+    md += `\n## 🌊 Flow\n\n`;
+    md += `**Flow Efficiency:** ${flow.avgEfficiency}% avg, ${flow.medianEfficiency}% median (${flow.issuesAnalyzed} issues)\n\n`;
+    md += `| Status | Mapped To | Issues | Avg h | Median h | P85 h | P95 h | Share |\n`;
+    md += `|--------|-----------|--------|-------|----------|-------|-------|-------|\n`;
+    for (const status of flow.byStatus) {
+      md += `| ${status.status} | ${status.category ? CATEGORY_LABELS[status.category] : 'unmapped'} | ${status.issues} | ${status.avgHours} | ${status.medianHours} | ${status.p85Hours} | ${status.p95Hours} | ${status.share}% |\n`;
+    }
+  }
+  return md;
+}
+
+// Status formatters
+function formatStatusesTable(statuses: MappedStatus[]): string {
+  const table = new Table({
+    head: [chalk.cyan('Status'), chalk.cyan('Jira Category'), chalk.cyan('Mapped To'), chalk.cyan('Issue Types')],
+    colWidths: [28, 16, 24, 34],
+  });
+  for (const status of statuses) {
+    let mapped = status.mappedTo ? CATEGORY_LABELS[status.mappedTo] : chalk.red('unmapped');
+    if (status.suggested) mapped = chalk.yellow(`${mapped} (suggested)`);
+    table.push([status.name, status.categoryName, mapped, status.issueTypes.join(', ').substring(0, 32)]);
+  }
+  return table.toString();
+}
+
+function formatStatusesCsv(statuses: MappedStatus[]): string {
+  const lines = ['status,jira_category,mapped_to,suggested,issue_types'];
+  for (const status of statuses) {
+    lines.push([
+      `"${status.name.replace(/"/g, '""')}"`,
+      status.categoryKey,
+      status.mappedTo ?? '',
+      status.suggested,
+      `"${status.issueTypes.join('; ').replace(/"/g, '""')}"`,
+    ].join(','));
+  }
+  return lines.join('\n');
+}
+
+function formatStatusesMarkdown(statuses: MappedStatus[]): string {
+  let md = `# Jira Statuses\n\n| Status | Jira Category | Mapped To | Issue Types |\n|--------|---------------|-----------|-------------|\n`;
+  for (const status of statuses) {
+    const mapped = status.mappedTo ? CATEGORY_LABELS[status.mappedTo] : 'unmapped';
+    md += `| ${status.name} | ${status.categoryName} | ${mapped}${status.suggested ? ' (suggested)' : ''} | ${status.issueTypes.join(', ')} |\n`;
+  }
   return md;
 }
 
@@ -200,28 +451,111 @@ export async function jiraCommand(options: JiraCommandOptions): Promise<void> {
       excludeTypes: ['Epic'],
     };
 
-    const issues = await client.getProjectIssues(filterOptions, {
-      onProgress: (fetched: number, total: number) => {
-        spinner.text = `Fetching issues... ${fetched}/${total}`;
-      },
-    });
+    const fmt = options.format || 'table';
+    let output: string;
 
-    spinner.text = 'Calculating metrics...';
+    if (options.cfd) {
+      const since = filterOptions.since!;
+      const until = filterOptions.until!;
+      const issues = await client.getIssuesActiveBetween(options.project, since, until, {
+        onProgress: (fetched: number, total: number) => {
+          spinner.text = `Fetching issues... ${fetched}/${total}`;
+        },
+      });
+      const cfd = calculateCumulativeFlow(issues, getJiraStatusMapping(), { project: options.project, since, until });
 
-    const metrics = calculateJiraMetrics(issues, {
-      since: filterOptions.since,
-      until: filterOptions.until,
-    });
+      spinner.stop();
+      if (fmt === 'table') {
+        console.log(chalk.bold.cyan(`\n📊 CUMULATIVE FLOW (${project.name}, ${since} → ${until})\n`));
+      }
+      output = formatCumulativeFlow(cfd, fmt);
+    } else {
+      const issues = await client.getProjectIssues(filterOptions, {
+        onProgress: (fetched: number, total: number) => {
+          spinner.text = `Fetching issues... ${fetched}/${total}`;
+        },
+      });
+
+      let sprints: JiraSprintIssues[] | undefined;
+      if (options.sprints) {
+        const count = options.sprints === true ? DEFAULTS.SPRINT_COUNT : options.sprints;
+        spinner.text = `Fetching the last ${count} sprints...`;
+        sprints = await client.getRecentSprintIssues(options.project, count);
+      }
+
+      spinner.text = 'Calculating metrics...';
+
+      const metrics = calculateJiraMetrics(issues, {
+        since: filterOptions.since,
+        until: filterOptions.until,
+        statusMapping: getJiraStatusMapping(),
+        sprints,
+        storyPointsField: await client.getStoryPointsField() ?? undefined,
+        flow: options.flow,
+      });
 
+      spinner.stop();
+
+      switch (fmt) {
+        case 'json': output = formatJson(metrics); break;
+        case 'csv': output = formatCsv(metrics); break;
+        case 'markdown': output = formatMarkdown(metrics); break;
+        default: output = formatTable(metrics);
+      }
+    }
+
+    if (options.output) {
+      writeFileSync(options.output, output);
+      console.log(chalk.green(`✓ Output saved to ${options.output}`));
+    } else {
+      console.log(output);
+    }
+
+  } catch (error: unknown) {
+    spinner.fail(chalk.red(`Error: ${(error as Error).message}`));
+  }
+}
+
+/**
+ * Lists a project's workflow statuses with their Jira category and the
+ * category gdm maps them to. Statuses the mapping doesn't cover get a
+ * suggestion from their Jira category; `--save` stores those suggestions.
+ */
+export async function jiraStatusesCommand(options: JiraStatusesCommandOptions): Promise<void> {
+  const config = getJiraConfig();
+
+  if (!config) {
+    console.log(chalk.yellow('\n⚠️  Jira is not configured.\n'));
+    console.log('Run: gdm init, or set JIRA_URL, JIRA_EMAIL and JIRA_TOKEN\n');
+    return;
+  }
+
+  const spinner = ora(`Fetching statuses for ${options.project}...`).start();
+
+  try {
+    const client = new JiraClient(config);
+    const statuses = await client.getProjectStatuses(options.project);
     spinner.stop();
 
+    const mapping = getJiraStatusMapping();
+    const suggestion = suggestStatusMapping(statuses);
+    const missing: Partial<JiraStatusMapping> = {};
+    const mapped: MappedStatus[] = statuses.map(status => {
+      const current = getStatusCategory(status.name, mapping);
+      if (current) return { ...status, mappedTo: current, suggested: false };
+
+      const suggested = getStatusCategory(status.name, suggestion);
+      if (suggested) missing[suggested] = [...(missing[suggested] ?? []), status.name];
+      return { ...status, mappedTo: suggested, suggested: true };
+    });
+
     const fmt = options.format || 'table';
     let output: string;
     switch (fmt) {
-      case 'json': output = formatJson(metrics); break;
-      case 'csv': output = formatCsv(metrics); break;
-      case 'markdown': output = formatMarkdown(metrics); break;
-      default: output = formatTable(metrics);
+      case 'json': output = JSON.stringify(mapped, null, 2); break;
+      case 'csv': output = formatStatusesCsv(mapped); break;
+      case 'markdown': output = formatStatusesMarkdown(mapped); break;
+      default: output = chalk.bold.cyan(`\n📋 JIRA STATUSES (${options.project})\n\n`) + formatStatusesTable(mapped);
     }
 
     if (options.output) {
@@ -231,7 +565,15 @@ export async function jiraCommand(options: JiraCommandOptions): Promise<void> {
       console.log(output);
     }
 
+    const unmapped = mapped.filter(status => status.suggested).length;
+    if (options.save) {
+      setJiraStatusMapping(mergeStatusMapping(mapping, missing));
+      console.log(chalk.green(`\n✓ Status mapping saved (${unmapped} statuses added)`));
+    } else if (unmapped && fmt === 'table') {
+      console.log(chalk.gray(`\n  ${unmapped} statuses aren't mapped yet. Run with --save to keep the suggestions.`));
+    }
   } catch (error: unknown) {
     spinner.fail(chalk.red(`Error: ${(error as Error).message}`));
+    process.exit(1);
   }
 }
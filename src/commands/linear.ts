@@ -9,8 +9,9 @@ import { writeFileSync } from 'fs';
 import { format, subMonths } from 'date-fns';
 import { getLinearConfig } from '../config/integrations';
 import { LinearClient } from '../integrations/linear/client';
-import { calculateLinearMetrics } from '../integrations/linear/metrics';
-import { LinearMetrics } from '../integrations/linear/types';
+import { calculateCumulativeFlow, calculateLinearMetrics } from '../integrations/linear/metrics';
+import { formatCumulativeFlow } from '../output/formatters';
+import { LinearMetrics, ProjectHealth, RoadmapMetrics } from '../integrations/linear/types';
 
 type OutputFormat = 'table' | 'json' | 'csv' | 'markdown';
 
@@ -18,10 +19,83 @@ interface LinearCommandOptions {
   team: string;
   since?: string;
   until?: string;
+  /** Output cumulative flow data instead of the metrics */
+  cfd?: boolean;
+  /** Add project and initiative progress */
+  projects?: boolean;
   format?: OutputFormat;
   output?: string;
 }
 
+const HEALTH_LABELS: Record<ProjectHealth, string> = {
+  completed: 'Completed',
+  on_track: 'On track',
+  at_risk: 'At risk',
+  off_track: 'Off track',
+  no_target: 'No target date',
+  no_forecast: 'No forecast',
+};
+
+function colorHealth(health: ProjectHealth): string {
+  const label = HEALTH_LABELS[health];
+  switch (health) {
+    case 'completed':
+    case 'on_track': return chalk.green(label);
+    case 'at_risk': return chalk.yellow(label);
+    case 'off_track': return chalk.red(label);
+    default: return chalk.gray(label);
+  }
+}
+
+function formatRoadmapTable(roadmap: RoadmapMetrics): string {
+  let output = chalk.bold.cyan('\n\n🗺️  PROJECTS\n\n');
+  if (!roadmap.projects.length) {
+    return output + chalk.gray('  No active projects');
+  }
+
+  const projects = new Table({
+    head: ['Project', 'Progress', 'Points', 'Target', 'Forecast (P50/P85)', 'Health'].map(h => chalk.cyan(h)),
+  });
+  for (const project of roadmap.projects) {
+    projects.push([
+      project.name,
+      `${project.progress}% (${project.completedIssues}/${project.totalIssues})`,
+      `${project.completedPoints} done / ${project.remainingPoints} left`,
+      project.targetDate || '-',
+      project.forecast ? `${project.forecast.p50} / ${project.forecast.p85}` : '-',
+      colorHealth(project.health),
+    ]);
+  }
+  output += projects.toString();
+
+  const slipped = roadmap.projects.flatMap(p => p.slippedMilestones.map(m => ({ project: p.name, ...m })));
+  if (slipped.length) {
+    output += chalk.bold.red('\n\n  Slipped milestones:');
+    for (const milestone of slipped) {
+      output += chalk.red(`\n  - ${milestone.project} › ${milestone.name}: due ${milestone.targetDate}, ${milestone.openIssues} open`);
+    }
+  }
+
+  if (roadmap.initiatives?.length) {
+    output += chalk.bold.cyan('\n\n🚀 INITIATIVES\n\n');
+    const initiatives = new Table({
+      head: ['Initiative', 'Projects', 'Progress', 'Target', 'Health'].map(h => chalk.cyan(h)),
+    });
+    for (const initiative of roadmap.initiatives) {
+      initiatives.push([
+        initiative.name,
+        initiative.projects.toString(),
+        `${initiative.progress}% (${initiative.completedIssues}/${initiative.totalIssues})`,
+        initiative.targetDate || '-',
+        colorHealth(initiative.health),
+      ]);
+    }
+    output += initiatives.toString();
+  }
+
+  return output;
+}
+
 // Formatters
 function formatTable(metrics: LinearMetrics): string {
   let output = chalk.bold.cyan('\n📊 LINEAR METRICS\n\n');
@@ -92,6 +166,28 @@ function formatTable(metrics: LinearMetrics): string {
     output += cc.toString();
   }
 
+  if (metrics.cycleScope) {
+    output += chalk.bold.cyan('\n\n🔁 CYCLE SCOPE (from issue history)\n\n');
+    const cs = new Table({
+      head: ['Cycle', 'Initial', 'Added', 'Removed', 'Carried Over', 'Completed', 'Commitment Kept'].map(h => chalk.cyan(h)),
+    });
+    for (const cycle of metrics.cycleScope.cycles) {
+      const rateColor = cycle.completionRate >= 80 ? chalk.green : cycle.completionRate >= 60 ? chalk.yellow : chalk.red;
+      cs.push([
+        cycle.completedAt ? cycle.name : `${cycle.name} ${chalk.gray('(active)')}`,
+        cycle.initial.toString(),
+        cycle.added ? chalk.yellow(`+${cycle.added}`) : '0',
+        cycle.removed ? `-${cycle.removed}` : '0',
+        cycle.carriedOver.toString(),
+        cycle.completed.toString(),
+        rateColor(`${cycle.completionRate}% (${cycle.initialCompleted}/${cycle.initial})`),
+      ]);
+    }
+    output += cs.toString();
+    output += chalk.gray(`\n  Scope added: ${metrics.cycleScope.scopeAddedRate}% · removed: ${metrics.cycleScope.scopeRemovedRate}%`);
+    output += chalk.gray(` · carried over: ${metrics.cycleScope.carryOverRate}% · avg commitment kept: ${metrics.cycleScope.avgCompletionRate}%`);
+  }
+
   if (metrics.estimateAccuracy) {
     output += chalk.bold.cyan('\n\n📐 ESTIMATES\n\n');
     const ea = new Table({ head: [chalk.cyan('Metric'), chalk.cyan('Value')], colWidths: [25, 12] });
@@ -104,6 +200,10 @@ function formatTable(metrics: LinearMetrics): string {
     output += ea.toString();
   }
 
+  if (metrics.roadmap) {
+    output += formatRoadmapTable(metrics.roadmap);
+  }
+
   return output;
 }
 
@@ -133,6 +233,22 @@ function formatCsv(metrics: LinearMetrics): string {
   if (metrics.cycleCompletion) {
     lines.push(`cycle_completion_rate,${metrics.cycleCompletion.avgRate}`);
   }
+  if (metrics.cycleScope) {
+    lines.push(`cycle_commitment_rate,${metrics.cycleScope.avgCompletionRate}`);
+    lines.push(`cycle_scope_added_rate,${metrics.cycleScope.scopeAddedRate}`);
+    lines.push(`cycle_scope_removed_rate,${metrics.cycleScope.scopeRemovedRate}`);
+    lines.push(`cycle_carry_over_rate,${metrics.cycleScope.carryOverRate}`);
+  }
+  if (metrics.roadmap) {
+    for (const project of metrics.roadmap.projects) {
+      const key = `project_${project.name.toLowerCase().replace(/[^a-z0-9]+/g, '_')}`;
+      lines.push(`${key}_progress,${project.progress}`);
+      lines.push(`${key}_remaining_points,${project.remainingPoints}`);
+      lines.push(`${key}_target_date,${project.targetDate ?? ''}`);
+      lines.push(`${key}_forecast_p85,${project.forecast?.p85 ?? ''}`);
+      lines.push(`${key}_health,${project.health}`);
+    }
+  }
   return lines.join('\n');
 }
 
@@ -157,6 +273,36 @@ function formatMarkdown(metrics: LinearMetrics): string {
     md += `## 🎯 Cycle Completion\n\n| Metric | Value |\n|--------|-------|\n`;
     md += `| Avg Rate | ${metrics.cycleCompletion.avgRate}% |\n\n`;
   }
+  if (metrics.cycleScope) {
+    md += `## 🔁 Cycle Scope\n\n| Cycle | Initial | Added | Removed | Carried Over | Completed | Commitment Kept |\n`;
+    md += `|-------|---------|-------|---------|--------------|-----------|-----------------|\n`;
+    for (const c of metrics.cycleScope.cycles) {
+      md += `| ${c.name}${c.completedAt ? '' : ' (active)'} | ${c.initial} | ${c.added} | ${c.removed} | ${c.carriedOver} | ${c.completed} | ${c.completionRate}% |\n`;
+    }
+    md += `\nScope added: ${metrics.cycleScope.scopeAddedRate}% · removed: ${metrics.cycleScope.scopeRemovedRate}% · `;
+    md += `carried over: ${metrics.cycleScope.carryOverRate}% · avg commitment kept: ${metrics.cycleScope.avgCompletionRate}%\n\n`;
+  }
+  if (metrics.roadmap) {
+    md += `## 🗺️ Projects\n\n| Project | Progress | Points Done / Left | Target | Forecast (P50/P85) | Health |\n`;
+    md += `|---------|----------|--------------------|--------|--------------------|--------|\n`;
+    for (const p of metrics.roadmap.projects) {
+      const forecast = p.forecast ? `${p.forecast.p50} / ${p.forecast.p85}` : '-';
+      md += `| ${p.name} | ${p.progress}% | ${p.completedPoints} / ${p.remainingPoints} | ${p.targetDate || '-'} | ${forecast} | ${HEALTH_LABELS[p.health]} |\n`;
+    }
+    md += '\n';
+    const slipped = metrics.roadmap.projects.flatMap(p => p.slippedMilestones.map(m => ({ project: p.name, ...m })));
+    if (slipped.length) {
+      md += `**Slipped milestones:**\n\n`;
+      md += slipped.map(m => `- ${m.project} › ${m.name}: due ${m.targetDate}, ${m.openIssues} open`).join('\n') + '\n\n';
+    }
+    if (metrics.roadmap.initiatives?.length) {
+      md += `## 🚀 Initiatives\n\n| Initiative | Projects | Progress | Target | Health |\n|------------|----------|----------|--------|--------|\n`;
+      for (const i of metrics.roadmap.initiatives) {
+        md += `| ${i.name} | ${i.projects} | ${i.progress}% | ${i.targetDate || '-'} | ${HEALTH_LABELS[i.health]} |\n`;
+      }
+      md += '\n';
+    }
+  }
   return md;
 }
 
@@ -199,25 +345,49 @@ export async function linearCommand(options: LinearCommandOptions): Promise<void
     const since = options.since || format(subMonths(new Date(), 3), 'yyyy-MM-dd');
     const until = options.until || format(new Date(), 'yyyy-MM-dd');
 
-    const issues = await client.getIssues({
-      teamId: team.id,
-      since,
-      until,
-    });
-
-    spinner.text = 'Calculating metrics...';
-
-    const metrics = calculateLinearMetrics(issues, { since, until });
-
-    spinner.stop();
-
     const fmt = options.format || 'table';
     let output: string;
-    switch (fmt) {
-      case 'json': output = formatJson(metrics); break;
-      case 'csv': output = formatCsv(metrics); break;
-      case 'markdown': output = formatMarkdown(metrics); break;
-      default: output = formatTable(metrics);
+
+    if (options.cfd) {
+      const issues = await client.getIssues({ teamId: team.id, until, activeSince: since });
+      const cfd = calculateCumulativeFlow(issues, { project: team.name, since, until });
+
+      spinner.stop();
+      if (fmt === 'table') {
+        console.log(chalk.bold.cyan(`\n📊 CUMULATIVE FLOW (${team.name}, ${since} → ${until})\n`));
+      }
+      output = formatCumulativeFlow(cfd, fmt);
+    } else {
+      const issues = await client.getIssues({
+        teamId: team.id,
+        since,
+        until,
+      });
+
+      spinner.text = 'Fetching cycle history...';
+      const cycles = (await client.getCycles(team.id))
+        .filter(cycle => cycle.startsAt.slice(0, 10) <= until && cycle.endsAt.slice(0, 10) >= since);
+      const cycleIssues = await client.getCycleIssues(team.id, cycles);
+
+      let roadmap = {};
+      if (options.projects) {
+        spinner.text = `Fetching projects from ${team.name}...`;
+        const projects = await client.getProjectIssues(await client.getTeamProjects(team.id));
+        roadmap = { projects, initiatives: await client.getInitiatives() };
+      }
+
+      spinner.text = 'Calculating metrics...';
+
+      const metrics = calculateLinearMetrics(issues, { since, until, cycles: cycleIssues, ...roadmap });
+
+      spinner.stop();
+
+      switch (fmt) {
+        case 'json': output = formatJson(metrics); break;
+        case 'csv': output = formatCsv(metrics); break;
+        case 'markdown': output = formatMarkdown(metrics); break;
+        default: output = formatTable(metrics);
+      }
     }
 
     if (options.output) {
@@ -0,0 +1,151 @@
+// ============================================
+// Commit-to-Issue Links CLI Command
+// ============================================
+
+import chalk from 'chalk';
+import ora from 'ora';
+import { writeFileSync } from 'fs';
+import { GitMetrics } from '../core/git-metrics';
+import { FilterOptions, IssueTracker, TrackedIssue } from '../types';
+import { formatIssueLinkSummary, formatIssueLinks } from '../output/formatters';
+import {
+  isInitialized,
+  getCommitIndexDir,
+  getJiraConfig,
+  getJiraStatusMapping,
+  getLinearConfig,
+} from '../config/integrations';
+import { JiraClient } from '../integrations/jira/client';
+import { getTrackedIssues as getJiraTrackedIssues } from '../integrations/jira/metrics';
+import { LinearClient } from '../integrations/linear/client';
+import { getTrackedIssues as getLinearTrackedIssues } from '../integrations/linear/metrics';
+
+type OutputFormat = 'table' | 'json' | 'csv' | 'markdown';
+
+interface LinksCommandOptions {
+  since?: string;
+  until?: string;
+  author?: string;
+  branch?: string;
+  tracker?: string;
+  projects?: string;
+  limit?: number;
+  format?: OutputFormat;
+  output?: string;
+}
+
+// ==========================================
+// Helpers
+// ==========================================
+
+/**
+ * Picks the tracker to resolve issue keys against: the one requested, or
+ * Jira, then Linear, whichever is configured first.
+ *
+ * @param requested - "jira", "linear" or "none" (skip the tracker)
+ * @returns The tracker, or null to link by key alone
+ * @throws {Error} If the requested tracker is unknown
+ */
+export function resolveIssueTracker(requested?: string): IssueTracker | null {
+  if (requested === 'none') return null;
+  if (requested === 'jira' || requested === 'linear') return requested;
+  if (requested) {
+    throw new Error(`Unknown issue tracker: ${requested} (use jira, linear or none)`);
+  }
+  if (getJiraConfig()) return 'jira';
+  if (getLinearConfig()) return 'linear';
+  return null;
+}
+
+/**
+ * Fetches the issues behind a set of keys from Jira or Linear.
+ *
+ * @param tracker - Tracker to query
+ * @param keys - Issue keys referenced by commits
+ * @returns Issues found; unknown keys are left out
+ * @throws {Error} If the tracker isn't configured or the request fails
+ */
+export async function fetchTrackedIssues(tracker: IssueTracker, keys: string[]): Promise<TrackedIssue[]> {
+  if (!keys.length) return [];
+
+  if (tracker === 'jira') {
+    const config = getJiraConfig();
+    if (!config) {
+      throw new Error('Jira not configured (set JIRA_URL, JIRA_EMAIL, JIRA_TOKEN)');
+    }
+    return getJiraTrackedIssues(await new JiraClient(config).getIssuesByKeys(keys), getJiraStatusMapping());
+  }
+
+  const config = getLinearConfig();
+  if (!config) {
+    throw new Error('Linear not configured (set LINEAR_API_KEY)');
+  }
+  return getLinearTrackedIssues(await new LinearClient(config).getIssuesByIdentifiers(keys));
+}
+
+/**
+ * Splits a comma-separated list of project or team keys.
+ *
+ * @param value - e.g. "ABC, eng"
+ * @returns Keys, or undefined to accept any project
+ */
+export function parseProjectKeys(value?: string): string[] | undefined {
+  const keys = value?.split(',').map(key => key.trim()).filter(Boolean);
+  return keys?.length ? keys : undefined;
+}
+
+// ==========================================
+// Links Command
+// ==========================================
+
+export async function linksCommand(path: string, options: LinksCommandOptions): Promise<void> {
+  const spinner = ora('Linking commits to issues...').start();
+
+  try {
+    const metrics = new GitMetrics(path, { cacheDir: isInitialized() ? getCommitIndexDir() : undefined });
+    const filterOptions: FilterOptions = {
+      since: options.since,
+      until: options.until,
+      author: options.author,
+      branch: options.branch,
+    };
+    const projects = parseProjectKeys(options.projects);
+    const tracker = resolveIssueTracker(options.tracker);
+
+    let issues: TrackedIssue[] = [];
+    if (tracker) {
+      const keys = await metrics.getIssueKeys(filterOptions, projects);
+      spinner.text = `Fetching ${keys.length} issues from ${tracker === 'jira' ? 'Jira' : 'Linear'}...`;
+      issues = await fetchTrackedIssues(tracker, keys);
+    }
+
+    const links = await metrics.getIssueLinks(filterOptions, { projects, tracker, issues });
+    const outputFormat = options.format || 'table';
+
+    spinner.stop();
+
+    let output: string;
+    if (outputFormat === 'json') {
+      output = formatIssueLinkSummary(links, outputFormat);
+    } else {
+      const source = tracker ? `issues from ${tracker === 'jira' ? 'Jira' : 'Linear'}` : 'keys only, no tracker';
+      console.log(chalk.bold.cyan(`\n🔗 COMMIT TO ISSUE LINKS (${source})\n`));
+      output = formatIssueLinkSummary(links, outputFormat);
+      if (links.issues.length) {
+        output += outputFormat === 'table' ? chalk.bold.cyan('\n\n🎫 ISSUES\n\n') : '\n\n';
+        output += formatIssueLinks(links.issues, outputFormat, options.limit);
+      }
+    }
+
+    if (options.output) {
+      writeFileSync(options.output, output);
+      console.log(chalk.green(`✓ Output saved to ${options.output}`));
+    } else {
+      console.log(output);
+    }
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    spinner.fail(chalk.red(`Error: ${message}`));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,68 @@
+// ============================================
+// Merge History CLI Command
+// ============================================
+
+import chalk from 'chalk';
+import ora from 'ora';
+import { writeFileSync } from 'fs';
+import { GitMetrics } from '../core/git-metrics';
+import { formatMergeAuthors, formatMergedBranches, formatMergeStats } from '../output/formatters';
+import { isInitialized, getCommitIndexDir } from '../config/integrations';
+
+type OutputFormat = 'table' | 'json' | 'csv' | 'markdown';
+
+interface MergesCommandOptions {
+  since?: string;
+  until?: string;
+  author?: string;
+  branch?: string;
+  limit?: number;
+  format?: OutputFormat;
+  output?: string;
+}
+
+// ==========================================
+// Merges Command
+// ==========================================
+
+export async function mergesCommand(path: string, options: MergesCommandOptions): Promise<void> {
+  const spinner = ora('Reading merge history...').start();
+
+  try {
+    const metrics = new GitMetrics(path, { cacheDir: isInitialized() ? getCommitIndexDir() : undefined });
+    const stats = await metrics.getMergeStats({
+      since: options.since,
+      until: options.until,
+      author: options.author,
+      branch: options.branch,
+    });
+    const outputFormat = options.format || 'table';
+
+    spinner.stop();
+
+    let output: string;
+    if (outputFormat === 'json') {
+      output = formatMergeStats(stats, outputFormat);
+    } else {
+      console.log(chalk.bold.cyan(`\n🔀 MERGES INTO ${stats.branch} (from history)\n`));
+      output = formatMergeStats(stats, outputFormat);
+      if (stats.authors.length) {
+        output += outputFormat === 'table' ? chalk.bold.cyan('\n\n👥 AUTHORS\n\n') : '\n\n';
+        output += formatMergeAuthors(stats.authors, outputFormat, options.limit);
+        output += outputFormat === 'table' ? chalk.bold.cyan('\n\n🌿 MERGED BRANCHES\n\n') : '\n\n';
+        output += formatMergedBranches(stats.mergedBranches, outputFormat, options.limit);
+      }
+    }
+
+    if (options.output) {
+      writeFileSync(options.output, output);
+      console.log(chalk.green(`✓ Output saved to ${options.output}`));
+    } else {
+      console.log(output);
+    }
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    spinner.fail(chalk.red(`Error: ${message}`));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,128 @@
+// ============================================
+// Aging WIP CLI Command
+// ============================================
+
+import chalk from 'chalk';
+import ora from 'ora';
+import { writeFileSync } from 'fs';
+import { format, isValid, subMonths } from 'date-fns';
+import { calculateAgingWip } from '../core/wip';
+import { AgingWipReport } from '../types';
+import { formatAgingWip } from '../output/formatters';
+import { getJiraConfig, getJiraStatusMapping, getLinearConfig } from '../config/integrations';
+import { JiraClient } from '../integrations/jira/client';
+import { getCycleTimes as getJiraCycleTimes, getWorkItems as getJiraWorkItems } from '../integrations/jira/metrics';
+import { LinearClient } from '../integrations/linear/client';
+import { getCycleTimes as getLinearCycleTimes, getWorkItems as getLinearWorkItems } from '../integrations/linear/metrics';
+import { parseDate } from '../utils/date-utils';
+
+type OutputFormat = 'table' | 'json' | 'csv' | 'markdown';
+
+interface WipCommandOptions {
+  jira?: string;
+  linear?: string;
+  since?: string;
+  format?: OutputFormat;
+  output?: string;
+}
+
+// ==========================================
+// Helpers
+// ==========================================
+
+/**
+ * Fetches a Jira project's work in progress and the cycle times of issues
+ * completed since `since`.
+ *
+ * @param projectKey - Jira project key
+ * @param since - Start of the cycle time history (YYYY-MM-DD)
+ * @returns Aging WIP report
+ * @throws {Error} If Jira isn't configured or the request fails
+ */
+export async function getJiraAgingWip(projectKey: string, since: string): Promise<AgingWipReport> {
+  const config = getJiraConfig();
+  if (!config) {
+    throw new Error('Jira not configured (set JIRA_URL, JIRA_EMAIL, JIRA_TOKEN)');
+  }
+
+  const client = new JiraClient(config);
+  const mapping = getJiraStatusMapping();
+  const [open, completed] = await Promise.all([
+    client.getWorkInProgress(projectKey, [...mapping.inProgress, ...mapping.blocked]),
+    client.getCompletedIssues(projectKey, since),
+  ]);
+  return calculateAgingWip(getJiraWorkItems(open, mapping), getJiraCycleTimes(completed, mapping), {
+    tracker: 'jira',
+    project: projectKey,
+  });
+}
+
+/**
+ * Fetches a Linear team's started issues and the cycle times of issues
+ * completed since `since`.
+ *
+ * @param teamName - Linear team name
+ * @param since - Start of the cycle time history (YYYY-MM-DD)
+ * @returns Aging WIP report
+ * @throws {Error} If Linear isn't configured, the team doesn't exist or the request fails
+ */
+export async function getLinearAgingWip(teamName: string, since: string): Promise<AgingWipReport> {
+  const config = getLinearConfig();
+  if (!config) {
+    throw new Error('Linear not configured (set LINEAR_API_KEY)');
+  }
+
+  const client = new LinearClient(config);
+  const [started, completed] = await Promise.all([
+    client.getTeamIssues(teamName, { stateTypes: ['started'] }),
+    client.getTeamIssues(teamName, { stateTypes: ['completed'], completedSince: since }),
+  ]);
+  return calculateAgingWip(getLinearWorkItems(started), getLinearCycleTimes(completed), {
+    tracker: 'linear',
+    project: teamName,
+  });
+}
+
+// ==========================================
+// WIP Command
+// ==========================================
+
+export async function wipCommand(options: WipCommandOptions): Promise<void> {
+  const spinner = ora('Fetching work in progress...').start();
+
+  try {
+    if (!options.jira === !options.linear) {
+      throw new Error('Pass either --jira <project> or --linear <team>');
+    }
+
+    const sinceDate = options.since ? parseDate(options.since) : subMonths(new Date(), 3);
+    if (!isValid(sinceDate)) {
+      throw new Error(`Invalid date: ${options.since}`);
+    }
+    const since = format(sinceDate, 'yyyy-MM-dd');
+
+    const report = options.jira
+      ? await getJiraAgingWip(options.jira, since)
+      : await getLinearAgingWip(options.linear!, since);
+    const outputFormat = options.format || 'table';
+
+    spinner.stop();
+
+    if (outputFormat !== 'json') {
+      const source = report.tracker === 'jira' ? 'Jira' : 'Linear';
+      console.log(chalk.bold.cyan(`\n⏳ AGING WORK IN PROGRESS (${source} ${report.project})\n`));
+    }
+    const output = formatAgingWip(report, outputFormat);
+
+    if (options.output) {
+      writeFileSync(options.output, output);
+      console.log(chalk.green(`✓ Output saved to ${options.output}`));
+    } else {
+      console.log(output);
+    }
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    spinner.fail(chalk.red(`Error: ${message}`));
+    process.exit(1);
+  }
+}
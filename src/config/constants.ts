@@ -20,6 +20,12 @@ export const DEFAULTS = {
   TOP_ITEMS: 10,
   /** Default limit for blame file analysis */
   BLAME_FILE_LIMIT: 100,
+  /** Default number of recent sprints for sprint analytics */
+  SPRINT_COUNT: 6,
+  /** Default number of hotspots whose complexity trend is shown */
+  HOTSPOT_TREND_FILES: 5,
+  /** Most changes sampled for a hotspot's complexity trend */
+  HOTSPOT_TREND_POINTS: 12,
 } as const;
 
 /**
@@ -34,18 +40,26 @@ export const RETRY = {
   MAX_DELAY_MS: 10000,
   /** Multiplier for exponential backoff */
   BACKOFF_MULTIPLIER: 2,
+  /** Longest rate limit wait before giving up instead of retrying */
+  MAX_RATE_LIMIT_WAIT_MS: 60000,
 } as const;
 
 /**
  * Performance-related constants
  */
 export const PERFORMANCE = {
-  /** Git command buffer size for large repos (100MB) */
-  GIT_BUFFER_SIZE: 100 * 1024 * 1024,
+  /** Maximum git processes running at once */
+  GIT_CONCURRENCY: 4,
+  /** Timeout for a single git command in milliseconds (10 minutes) */
+  GIT_TIMEOUT_MS: 10 * 60 * 1000,
+  /** Pathspecs passed to a single git command, keeping its command line short */
+  GIT_PATHSPEC_BATCH: 1000,
   /** Default pagination size for API calls */
   PAGINATION_SIZE: 100,
   /** Delay between API calls in milliseconds */
   API_DELAY_MS: 100,
+  /** Default timeout for a single API request in milliseconds */
+  HTTP_TIMEOUT_MS: 30000,
 } as const;
 
 /**
@@ -64,6 +78,18 @@ export const TIME_THRESHOLDS = {
   DEFAULT_MONTHS: 3,
 } as const;
 
+/**
+ * Unmerged branch thresholds in days
+ */
+export const BRANCH_THRESHOLDS = {
+  /** Days without commits for a branch to be stale */
+  STALE_DAYS: 30,
+  /** Days without commits for a branch to be abandoned */
+  ABANDONED_DAYS: 90,
+  /** Days since the first commit for an active branch to be long-lived */
+  LONG_LIVED_DAYS: 14,
+} as const;
+
 /**
  * Display/formatting constants
  */
@@ -88,6 +114,32 @@ export const THRESHOLDS = {
   COMPLETION_RATE_HIGH: 80,
   /** Medium completion rate threshold (yellow) */
   COMPLETION_RATE_MEDIUM: 60,
+  /** High churn rate threshold (red) */
+  CHURN_RATE_HIGH: 0.3,
+  /** Medium churn rate threshold (yellow) */
+  CHURN_RATE_MEDIUM: 0.15,
+  /** High change failure rate threshold (red) */
+  CHANGE_FAILURE_RATE_HIGH: 0.3,
+  /** Medium change failure rate threshold (yellow) */
+  CHANGE_FAILURE_RATE_MEDIUM: 0.15,
+  /** High unreviewed merge rate threshold (red) */
+  UNREVIEWED_MERGE_RATE_HIGH: 0.2,
+  /** Medium unreviewed merge rate threshold (yellow) */
+  UNREVIEWED_MERGE_RATE_MEDIUM: 0.05,
+} as const;
+
+/**
+ * DORA metrics defaults
+ */
+export const DORA = {
+  /** Default deployment source */
+  SOURCE: 'tags',
+  /** Default glob for release tags */
+  TAG_PATTERN: 'v*',
+  /** Default branch whose merges count as deployments */
+  RELEASE_BRANCH: 'main',
+  /** Default glob for hotfix branch names */
+  HOTFIX_PATTERN: 'hotfix/*',
 } as const;
 
 /**
@@ -6,6 +6,8 @@ import { existsSync, readFileSync, writeFileSync, mkdirSync, chmodSync } from 'f
 import { homedir } from 'os';
 import { join } from 'path';
 import { CONFIG } from './constants';
+import { DoraOptions } from '../types';
+import { JiraStatusMapping, DEFAULT_STATUS_MAPPING } from '../integrations/jira/types';
 import {
   validateUrl,
   validateEmail,
@@ -31,6 +33,12 @@ export interface JiraConfig {
   email: string;
   /** Jira API token */
   token: string;
+  /** Workflow statuses per category; categories left out use the defaults */
+  statusMapping?: Partial<JiraStatusMapping>;
+  /** Story points custom field id (e.g. "customfield_10016"); discovered when not set */
+  storyPointsField?: string;
+  /** Timeout of a single API request in milliseconds (default: 30000) */
+  timeout?: number;
 }
 
 /**
@@ -40,6 +48,66 @@ export interface JiraConfig {
 export interface LinearConfig {
   /** Linear API key */
   apiKey: string;
+  /** GraphQL endpoint (default: https://api.linear.app/graphql) */
+  url?: string;
+  /** Timeout of a single API request in milliseconds (default: 30000) */
+  timeout?: number;
+}
+
+/**
+ * GitHub integration configuration.
+ * Required for pull request review metrics.
+ */
+export interface GitHubConfig {
+  /** Personal access token with read access to the repositories */
+  token: string;
+  /** REST API URL (default: https://api.github.com; GitHub Enterprise: https://HOST/api/v3) */
+  url?: string;
+  /** Timeout of a single API request in milliseconds (default: 30000) */
+  timeout?: number;
+}
+
+/**
+ * GitLab integration configuration.
+ * Required for merge request review metrics.
+ */
+export interface GitLabConfig {
+  /** Personal access token with the read_api scope */
+  token: string;
+  /** Instance URL (default: https://gitlab.com; self-managed: https://HOST) */
+  url?: string;
+  /** Timeout of a single API request in milliseconds (default: 30000) */
+  timeout?: number;
+}
+
+/**
+ * Bitbucket Cloud integration configuration.
+ * Required for Bitbucket pull request review metrics.
+ */
+export interface BitbucketConfig {
+  /** App password or API token (with username), or an access token (without) */
+  token: string;
+  /** Bitbucket username the app password or API token belongs to */
+  username?: string;
+  /** REST API URL (default: https://api.bitbucket.org/2.0) */
+  url?: string;
+  /** Timeout of a single API request in milliseconds (default: 30000) */
+  timeout?: number;
+}
+
+/**
+ * Azure Repos integration configuration.
+ * Required for Azure Repos pull request review metrics.
+ */
+export interface AzureReposConfig {
+  /** Azure DevOps organization (collection on Azure DevOps Server) */
+  organization: string;
+  /** Personal access token with the Code (Read) scope */
+  token: string;
+  /** Instance URL (default: https://dev.azure.com; Azure DevOps Server: https://HOST/tfs) */
+  url?: string;
+  /** Timeout of a single API request in milliseconds (default: 30000) */
+  timeout?: number;
 }
 
 /**
@@ -98,10 +166,20 @@ export interface ClientConfig {
   jira?: JiraConfig;
   /** Linear configuration */
   linear?: LinearConfig;
+  /** GitHub configuration */
+  github?: GitHubConfig;
+  /** GitLab configuration */
+  gitlab?: GitLabConfig;
+  /** Bitbucket Cloud configuration */
+  bitbucket?: BitbucketConfig;
+  /** Azure Repos configuration */
+  azure?: AzureReposConfig;
   /** Notion configuration */
   notion?: NotionConfig;
   /** Scheduler configuration */
   scheduler?: SchedulerConfig;
+  /** DORA metrics configuration (where deployments come from) */
+  dora?: DoraOptions;
   /** List of repository paths to track */
   repositories: string[];
   /** ISO date of last scheduled run */
@@ -133,6 +211,10 @@ export interface IntegrationConfig {
   git?: GitConfig;
   jira?: JiraConfig;
   linear?: LinearConfig;
+  github?: GitHubConfig;
+  gitlab?: GitLabConfig;
+  bitbucket?: BitbucketConfig;
+  azure?: AzureReposConfig;
   notion?: NotionConfig;
   scheduler?: SchedulerConfig;
   repositories?: string[];
@@ -155,6 +237,14 @@ export interface ClientStatus {
   jira: { configured: boolean; url?: string; email?: string };
   /** Linear configuration status */
   linear: { configured: boolean };
+  /** GitHub configuration status */
+  github: { configured: boolean; url?: string };
+  /** GitLab configuration status */
+  gitlab: { configured: boolean; url?: string };
+  /** Bitbucket Cloud configuration status */
+  bitbucket: { configured: boolean; username?: string };
+  /** Azure Repos configuration status */
+  azure: { configured: boolean; organization?: string; url?: string };
   /** Notion configuration status */
   notion: { configured: boolean; enabled?: boolean };
   /** Scheduler status */
@@ -269,6 +359,30 @@ function getEnvConfigOverrides(): Partial<ClientConfig> {
     config.linear = { apiKey: process.env.LINEAR_API_KEY };
   }
 
+  // GitHub from env
+  if (process.env.GITHUB_TOKEN) {
+    config.github = { token: process.env.GITHUB_TOKEN, url: process.env.GITHUB_API_URL };
+  }
+
+  // GitLab from env
+  if (process.env.GITLAB_TOKEN) {
+    config.gitlab = { token: process.env.GITLAB_TOKEN, url: process.env.GITLAB_URL };
+  }
+
+  // Bitbucket from env
+  if (process.env.BITBUCKET_TOKEN) {
+    config.bitbucket = { token: process.env.BITBUCKET_TOKEN, username: process.env.BITBUCKET_USERNAME };
+  }
+
+  // Azure Repos from env
+  if (process.env.AZURE_DEVOPS_ORG && process.env.AZURE_DEVOPS_TOKEN) {
+    config.azure = {
+      organization: process.env.AZURE_DEVOPS_ORG,
+      token: process.env.AZURE_DEVOPS_TOKEN,
+      url: process.env.AZURE_DEVOPS_URL,
+    };
+  }
+
   // Notion from env
   if (process.env.NOTION_API_KEY && process.env.NOTION_PARENT_PAGE_ID) {
     config.notion = {
@@ -332,8 +446,19 @@ export function getConfig(): ClientConfig | null {
   return {
     ...clientConfig,
     git: envOverrides.git || clientConfig.git,
-    jira: envOverrides.jira || clientConfig.jira,
+    // Credentials from the environment keep the client's Jira field settings
+    jira: envOverrides.jira
+      ? {
+        ...envOverrides.jira,
+        statusMapping: clientConfig.jira?.statusMapping,
+        storyPointsField: clientConfig.jira?.storyPointsField,
+      }
+      : clientConfig.jira,
     linear: envOverrides.linear || clientConfig.linear,
+    github: envOverrides.github || clientConfig.github,
+    gitlab: envOverrides.gitlab || clientConfig.gitlab,
+    bitbucket: envOverrides.bitbucket || clientConfig.bitbucket,
+    azure: envOverrides.azure || clientConfig.azure,
     notion: envOverrides.notion || clientConfig.notion,
   };
 }
@@ -382,6 +507,50 @@ export function getLinearConfig(): LinearConfig | null {
   return config.linear?.apiKey ? config.linear : null;
 }
 
+/**
+ * Gets GitHub configuration for active client if properly configured.
+ * 
+ * @returns GitHub configuration or null if not properly configured
+ */
+export function getGitHubConfig(): GitHubConfig | null {
+  const config = getConfig();
+  if (!config) return null;
+  return config.github?.token ? config.github : null;
+}
+
+/**
+ * Gets GitLab configuration for active client if properly configured.
+ * 
+ * @returns GitLab configuration or null if not properly configured
+ */
+export function getGitLabConfig(): GitLabConfig | null {
+  const config = getConfig();
+  if (!config) return null;
+  return config.gitlab?.token ? config.gitlab : null;
+}
+
+/**
+ * Gets Bitbucket configuration for active client if properly configured.
+ * 
+ * @returns Bitbucket configuration or null if not properly configured
+ */
+export function getBitbucketConfig(): BitbucketConfig | null {
+  const config = getConfig();
+  if (!config) return null;
+  return config.bitbucket?.token ? config.bitbucket : null;
+}
+
+/**
+ * Gets Azure Repos configuration for active client if properly configured.
+ * 
+ * @returns Azure Repos configuration or null if not properly configured
+ */
+export function getAzureReposConfig(): AzureReposConfig | null {
+  const config = getConfig();
+  if (!config) return null;
+  return config.azure?.organization && config.azure?.token ? config.azure : null;
+}
+
 /**
  * Gets Notion configuration for active client if properly configured.
  * 
@@ -393,6 +562,35 @@ export function getNotionConfig(): NotionConfig | null {
   return config.notion?.enabled && config.notion?.apiKey && config.notion?.parentPageId ? config.notion : null;
 }
 
+/**
+ * Gets the Jira status mapping for the active client: the configured
+ * categories, with the defaults for any category not configured (minus
+ * statuses the configured categories claim).
+ * 
+ * @returns Status mapping to use for Jira metrics
+ */
+export function getJiraStatusMapping(): JiraStatusMapping {
+  const configured = getConfig()?.jira?.statusMapping ?? {};
+  const claimed = new Set(Object.values(configured).flat().map(status => status.toLowerCase()));
+
+  const mapping = { ...DEFAULT_STATUS_MAPPING };
+  for (const category of Object.keys(mapping) as Array<keyof JiraStatusMapping>) {
+    mapping[category] = configured[category]
+      ?? DEFAULT_STATUS_MAPPING[category].filter(status => !claimed.has(status.toLowerCase()));
+  }
+  return mapping;
+}
+
+/**
+ * Gets DORA metrics configuration for active client.
+ * 
+ * @returns DORA configuration or null if not configured (defaults apply)
+ */
+export function getDoraConfig(): DoraOptions | null {
+  const config = getConfig();
+  return config?.dora ?? null;
+}
+
 /**
  * Checks if the CLI has been initialized with at least one client.
  * 
@@ -518,6 +716,23 @@ export function getConfigStatus(): ConfigStatus {
           linear: {
             configured: !!config.linear?.apiKey,
           },
+          github: {
+            configured: !!config.github?.token,
+            url: config.github?.url,
+          },
+          gitlab: {
+            configured: !!config.gitlab?.token,
+            url: config.gitlab?.url,
+          },
+          bitbucket: {
+            configured: !!config.bitbucket?.token,
+            username: config.bitbucket?.username,
+          },
+          azure: {
+            configured: !!(config.azure?.organization && config.azure?.token),
+            organization: config.azure?.organization,
+            url: config.azure?.url,
+          },
           notion: {
             configured: !!(config.notion?.enabled && config.notion?.apiKey && config.notion?.parentPageId),
             enabled: config.notion?.enabled,
@@ -587,6 +802,29 @@ function validateClientConfig(config: Partial<ClientConfig>): void {
     if (!tokenResult.valid) {
       throw new Error(`Invalid Jira token: ${tokenResult.error}`);
     }
+
+    if (config.jira.statusMapping) {
+      const seen = new Map<string, string>();
+      for (const [category, statuses] of Object.entries(config.jira.statusMapping)) {
+        if (!(category in DEFAULT_STATUS_MAPPING)) {
+          throw new Error(`Invalid Jira status category: ${category} (use todo, inProgress, blocked or done)`);
+        }
+        if (!Array.isArray(statuses) || statuses.some(status => typeof status !== 'string' || !status.trim())) {
+          throw new Error(`Invalid Jira statuses for ${category}: expected a list of status names`);
+        }
+        for (const status of statuses) {
+          const other = seen.get(status.toLowerCase());
+          if (other && other !== category) {
+            throw new Error(`Jira status "${status}" is mapped to both ${other} and ${category}`);
+          }
+          seen.set(status.toLowerCase(), category);
+        }
+      }
+    }
+
+    if (config.jira.storyPointsField !== undefined && !/^customfield_\d+$/.test(config.jira.storyPointsField)) {
+      throw new Error(`Invalid Jira story points field: ${config.jira.storyPointsField} (expected e.g. customfield_10016)`);
+    }
   }
 
   // Validate Linear config
@@ -597,6 +835,70 @@ function validateClientConfig(config: Partial<ClientConfig>): void {
     }
   }
 
+  // Validate GitHub config
+  if (config.github) {
+    const tokenResult = validateApiKey(config.github.token);
+    if (!tokenResult.valid) {
+      throw new Error(`Invalid GitHub token: ${tokenResult.error}`);
+    }
+
+    if (config.github.url) {
+      const urlResult = validateUrl(config.github.url);
+      if (!urlResult.valid) {
+        throw new Error(`Invalid GitHub API URL: ${urlResult.error}`);
+      }
+    }
+  }
+
+  // Validate GitLab config
+  if (config.gitlab) {
+    const tokenResult = validateApiKey(config.gitlab.token);
+    if (!tokenResult.valid) {
+      throw new Error(`Invalid GitLab token: ${tokenResult.error}`);
+    }
+
+    if (config.gitlab.url) {
+      const urlResult = validateUrl(config.gitlab.url);
+      if (!urlResult.valid) {
+        throw new Error(`Invalid GitLab URL: ${urlResult.error}`);
+      }
+    }
+  }
+
+  // Validate Bitbucket config
+  if (config.bitbucket) {
+    const tokenResult = validateApiKey(config.bitbucket.token);
+    if (!tokenResult.valid) {
+      throw new Error(`Invalid Bitbucket token: ${tokenResult.error}`);
+    }
+
+    if (config.bitbucket.url) {
+      const urlResult = validateUrl(config.bitbucket.url);
+      if (!urlResult.valid) {
+        throw new Error(`Invalid Bitbucket API URL: ${urlResult.error}`);
+      }
+    }
+  }
+
+  // Validate Azure Repos config
+  if (config.azure) {
+    if (!config.azure.organization || config.azure.organization.trim().length === 0) {
+      throw new Error('Azure DevOps organization is required');
+    }
+
+    const tokenResult = validateApiKey(config.azure.token);
+    if (!tokenResult.valid) {
+      throw new Error(`Invalid Azure DevOps token: ${tokenResult.error}`);
+    }
+
+    if (config.azure.url) {
+      const urlResult = validateUrl(config.azure.url);
+      if (!urlResult.valid) {
+        throw new Error(`Invalid Azure DevOps URL: ${urlResult.error}`);
+      }
+    }
+  }
+
   // Validate Notion config
   if (config.notion) {
     const apiKeyResult = validateApiKey(config.notion.apiKey);
@@ -644,6 +946,31 @@ function validateClientConfig(config: Partial<ClientConfig>): void {
     }
   }
 
+  // Validate DORA config
+  if (config.dora) {
+    if (config.dora.source && !['tags', 'branch', 'file'].includes(config.dora.source)) {
+      throw new Error(`Invalid DORA deployment source: ${config.dora.source} (use tags, branch or file)`);
+    }
+
+    if (config.dora.releaseBranch) {
+      const branchResult = validateBranchName(config.dora.releaseBranch);
+      if (!branchResult.valid) {
+        throw new Error(`Invalid DORA release branch: ${branchResult.error}`);
+      }
+    }
+
+    if (config.dora.deploymentsFile) {
+      const pathResult = validateFilePath(config.dora.deploymentsFile);
+      if (!pathResult.valid) {
+        throw new Error(`Invalid DORA deployments file: ${pathResult.error}`);
+      }
+    }
+
+    if (config.dora.source === 'file' && !config.dora.deploymentsFile) {
+      throw new Error('DORA deployments file is required for the file source');
+    }
+  }
+
   // Validate repositories
   if (config.repositories) {
     for (const repo of config.repositories) {
@@ -734,6 +1061,21 @@ export function setJiraConfig(jiraConfig: JiraConfig): void {
   saveConfig({ jira: jiraConfig });
 }
 
+/**
+ * Sets the Jira status mapping for the active client.
+ * 
+ * @param statusMapping - Statuses per category
+ * @throws Error if Jira isn't configured for the active client
+ */
+export function setJiraStatusMapping(statusMapping: Partial<JiraStatusMapping>): void {
+  const activeClient = getActiveClient();
+  const jira = activeClient ? getClientConfig(activeClient)?.jira : undefined;
+  if (!jira) {
+    throw new Error('Jira is not configured for this client. Run `gdm init --force` to add it.');
+  }
+  saveConfig({ jira: { ...jira, statusMapping } });
+}
+
 /**
  * Sets Linear configuration for active client.
  * 
@@ -743,6 +1085,42 @@ export function setLinearConfig(linearConfig: LinearConfig): void {
   saveConfig({ linear: linearConfig });
 }
 
+/**
+ * Sets GitHub configuration for active client.
+ * 
+ * @param githubConfig - GitHub configuration to save
+ */
+export function setGitHubConfig(githubConfig: GitHubConfig): void {
+  saveConfig({ github: githubConfig });
+}
+
+/**
+ * Sets GitLab configuration for active client.
+ * 
+ * @param gitlabConfig - GitLab configuration to save
+ */
+export function setGitLabConfig(gitlabConfig: GitLabConfig): void {
+  saveConfig({ gitlab: gitlabConfig });
+}
+
+/**
+ * Sets Bitbucket configuration for active client.
+ * 
+ * @param bitbucketConfig - Bitbucket configuration to save
+ */
+export function setBitbucketConfig(bitbucketConfig: BitbucketConfig): void {
+  saveConfig({ bitbucket: bitbucketConfig });
+}
+
+/**
+ * Sets Azure Repos configuration for active client.
+ * 
+ * @param azureConfig - Azure Repos configuration to save
+ */
+export function setAzureReposConfig(azureConfig: AzureReposConfig): void {
+  saveConfig({ azure: azureConfig });
+}
+
 /**
  * Sets Notion configuration for active client.
  * 
@@ -761,6 +1139,15 @@ export function setSchedulerConfig(schedulerConfig: SchedulerConfig): void {
   saveConfig({ scheduler: schedulerConfig });
 }
 
+/**
+ * Sets DORA metrics configuration for active client.
+ * 
+ * @param doraConfig - DORA configuration to save
+ */
+export function setDoraConfig(doraConfig: DoraOptions): void {
+  saveConfig({ dora: doraConfig });
+}
+
 /**
  * Adds a repository to the active client's tracked repositories list.
  * Does nothing if the repository is already in the list.
@@ -890,6 +1277,17 @@ export function getDataDir(clientName?: string): string {
   return clientDataDir;
 }
 
+/**
+ * Gets the commit index cache directory for a specific client or active client.
+ * Each repository gets its own folder inside it.
+ * 
+ * @param clientName - Optional client name (defaults to active client)
+ * @returns Absolute path to ~/.xseed-metrics/data/CLIENT_NAME/commit-index/
+ */
+export function getCommitIndexDir(clientName?: string): string {
+  return join(getDataDir(clientName), 'commit-index');
+}
+
 /**
  * Gets the logs directory path for a specific client or active client.
  * Creates the directory if it doesn't exist.
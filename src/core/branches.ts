@@ -0,0 +1,170 @@
+// ============================================
+// Branch Report - Unmerged branches and their staleness
+// ============================================
+
+import { IndexedCommit } from './commit-index';
+import { BranchFile, BranchReport, BranchStatus, BranchThresholds, UnmergedBranch } from '../types';
+import { BRANCH_THRESHOLDS } from '../config/constants';
+import { round } from '../utils/metrics-calculations';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_BRANCH_THRESHOLDS: BranchThresholds = {
+  staleDays: BRANCH_THRESHOLDS.STALE_DAYS,
+  abandonedDays: BRANCH_THRESHOLDS.ABANDONED_DAYS,
+  longLivedDays: BRANCH_THRESHOLDS.LONG_LIVED_DAYS,
+};
+
+/**
+ * Collects the commits reachable from `from` by walking parents, without
+ * entering `stop`.
+ *
+ * @private
+ */
+function walk(from: string[], byHash: Map<string, IndexedCommit>, stop?: Set<string>): Set<string> {
+  const reached = new Set<string>();
+  const stack = [...from];
+  while (stack.length > 0) {
+    const hash = stack.pop()!;
+    if (reached.has(hash) || stop?.has(hash)) continue;
+    const commit = byHash.get(hash);
+    // Parents missing from the index (shallow clones) end the walk
+    if (!commit) continue;
+    reached.add(hash);
+    stack.push(...commit.parents);
+  }
+  return reached;
+}
+
+/**
+ * Classifies a branch by how long it has gone without commits and, while
+ * still worked on, how long it has been open.
+ *
+ * @param idleDays - Days since the branch's last commit
+ * @param ageDays - Days since its first commit not on the main branch, null if unknown
+ * @param thresholds - Days after which a branch is flagged
+ * @returns The branch status
+ * @example
+ * ```typescript
+ * classifyBranch(45, 60, DEFAULT_BRANCH_THRESHOLDS); // 'stale'
+ * classifyBranch(2, 20, DEFAULT_BRANCH_THRESHOLDS); // 'long-lived'
+ * ```
+ */
+export function classifyBranch(idleDays: number, ageDays: number | null, thresholds: BranchThresholds): BranchStatus {
+  if (idleDays >= thresholds.abandonedDays) return 'abandoned';
+  if (idleDays >= thresholds.staleDays) return 'stale';
+  if (ageDays !== null && ageDays >= thresholds.longLivedDays) return 'long-lived';
+  return 'active';
+}
+
+/**
+ * Compares unmerged branches to the main branch: ahead and behind counts
+ * like `git rev-list --left-right --count main...branch`, the commits and
+ * lines only the branch has, who wrote them, and how stale the branch is.
+ *
+ * @param commits - Indexed commits, merges included, reachable from the main branch and the branches
+ * @param mainTip - Commit at the tip of the main branch
+ * @param branches - Branch names and their tip commits
+ * @param options - Main branch name, thresholds, the current time, and whether to list each branch's commits and files
+ * @returns Branches longest idle first, with counts per status
+ * @example
+ * ```typescript
+ * const report = calculateBranchReport(commits, mainTip, [{ name: 'origin/login', tip }], { mainBranch: 'main' });
+ * report.branches.filter(branch => branch.status === 'abandoned');
+ * ```
+ */
+export function calculateBranchReport(
+  commits: IndexedCommit[],
+  mainTip: string,
+  branches: Array<{ name: string; tip: string }>,
+  options: { mainBranch: string; thresholds?: Partial<BranchThresholds>; now?: Date; details?: boolean }
+): BranchReport {
+  const thresholds: BranchThresholds = {
+    staleDays: options.thresholds?.staleDays ?? DEFAULT_BRANCH_THRESHOLDS.staleDays,
+    abandonedDays: options.thresholds?.abandonedDays ?? DEFAULT_BRANCH_THRESHOLDS.abandonedDays,
+    longLivedDays: options.thresholds?.longLivedDays ?? DEFAULT_BRANCH_THRESHOLDS.longLivedDays,
+  };
+  const now = (options.now ?? new Date()).getTime();
+  const byHash = new Map(commits.map(commit => [commit.hash, commit]));
+  const onMain = walk([mainTip], byHash);
+
+  const report: UnmergedBranch[] = [];
+  for (const { name, tip } of branches) {
+    const last = byHash.get(tip);
+    if (!last) continue;
+
+    const ahead = walk([tip], byHash, onMain);
+    // The main branch commits the branch has are those below where it forked
+    const forks = [...ahead].flatMap(hash => byHash.get(hash)!.parents.filter(parent => onMain.has(parent)));
+    const shared = walk(onMain.has(tip) ? [tip] : forks, byHash);
+
+    const own = [...ahead].map(hash => byHash.get(hash)!).filter(commit => commit.parents.length < 2);
+    const authors = new Map<string, number>();
+    const files = new Map<string, BranchFile>();
+    let linesAdded = 0;
+    let linesDeleted = 0;
+    let first = Infinity;
+    for (const commit of own) {
+      authors.set(commit.author, (authors.get(commit.author) ?? 0) + 1);
+      first = Math.min(first, new Date(commit.authorDate).getTime());
+      for (const file of commit.files) {
+        const changed = files.get(file.path) ?? { path: file.path, linesAdded: 0, linesDeleted: 0 };
+        changed.linesAdded += file.added;
+        changed.linesDeleted += file.deleted;
+        files.set(file.path, changed);
+        linesAdded += file.added;
+        linesDeleted += file.deleted;
+      }
+    }
+
+    const idleDays = round(Math.max(0, now - last.commitTime * 1000) / MS_PER_DAY, 1);
+    const ageDays = own.length ? round(Math.max(0, now - first) / MS_PER_DAY, 1) : null;
+
+    const branch: UnmergedBranch = {
+      branch: name,
+      status: classifyBranch(idleDays, ageDays, thresholds),
+      lastCommitAt: new Date(last.commitTime * 1000).toISOString(),
+      lastCommitAuthor: last.author,
+      lastCommitSubject: last.subject,
+      idleDays,
+      firstCommitAt: own.length ? new Date(first).toISOString() : null,
+      ageDays,
+      ahead: ahead.size,
+      behind: onMain.size - shared.size,
+      commits: own.length,
+      files: files.size,
+      linesAdded,
+      linesDeleted,
+      authors: [...authors]
+        .map(([author, count]) => ({ name: author, commits: count }))
+        .sort((a, b) => b.commits - a.commits || a.name.localeCompare(b.name)),
+    };
+    if (options.details) {
+      branch.commitLog = [...own]
+        .sort((a, b) => b.commitTime - a.commitTime)
+        .map(commit => ({
+          hash: commit.hash,
+          shortHash: commit.shortHash,
+          author: commit.author,
+          date: commit.authorDate,
+          subject: commit.subject,
+        }));
+      branch.changedFiles = [...files.values()].sort((a, b) =>
+        b.linesAdded + b.linesDeleted - (a.linesAdded + a.linesDeleted) || a.path.localeCompare(b.path)
+      );
+    }
+    report.push(branch);
+  }
+  report.sort((a, b) => b.idleDays - a.idleDays || a.branch.localeCompare(b.branch));
+
+  const byStatus: Record<BranchStatus, number> = { active: 0, 'long-lived': 0, stale: 0, abandoned: 0 };
+  for (const branch of report) byStatus[branch.status]++;
+
+  return {
+    mainBranch: options.mainBranch,
+    thresholds,
+    total: report.length,
+    byStatus,
+    branches: report,
+  };
+}
@@ -0,0 +1,707 @@
+// ============================================
+// Commit Index - Persistent cache of parsed git history
+// ============================================
+
+import { createHash } from 'crypto';
+import { createReadStream, createWriteStream, existsSync, mkdirSync, readFileSync, writeFileSync, renameSync } from 'fs';
+import { once } from 'events';
+import { createInterface } from 'readline';
+import { join, basename } from 'path';
+import { FilterOptions } from '../types';
+import { GitRunOptions, isSafeRevision, runGit, streamGit } from './git-runner';
+
+/** Bump when the on-disk format changes to force a rebuild */
+const INDEX_VERSION = 2;
+
+/** Unit separator between header fields (can't appear in names or subjects) */
+const FIELD_SEP = '\x1f';
+
+/** Header format; each header line is prefixed with NUL so it can't be confused with numstat */
+const LOG_FORMAT = ['%H', '%h', '%P', '%aN', '%aE', '%aI', '%ct', '%s'].join('%x1f');
+
+/**
+ * A file touched by an indexed commit (one `--numstat` line).
+ */
+export interface IndexedFileChange {
+  /** File path after the commit (renames resolved to the new path) */
+  path: string;
+  /** Lines added (0 for binary files) */
+  added: number;
+  /** Lines deleted (0 for binary files) */
+  deleted: number;
+}
+
+/**
+ * A commit as stored in the index.
+ */
+export interface IndexedCommit {
+  /** Full commit hash */
+  hash: string;
+  /** Abbreviated hash at the time the commit was indexed */
+  shortHash: string;
+  /** Parent hashes (more than one for merge commits) */
+  parents: string[];
+  /** Author name (mailmap applied) */
+  author: string;
+  /** Author email (mailmap applied) */
+  email: string;
+  /** Author date in ISO 8601 with the author's UTC offset */
+  authorDate: string;
+  /** Committer timestamp in seconds (what --since/--until filter on) */
+  commitTime: number;
+  /** Commit subject line */
+  subject: string;
+  /** Files changed (empty for merge commits) */
+  files: IndexedFileChange[];
+}
+
+/**
+ * Index metadata stored next to the commits.
+ */
+interface IndexMeta {
+  version: number;
+  /** Ref tips everything in the index is reachable from */
+  tips: string[];
+  /** Hash of the .mailmap the names were resolved with */
+  mailmap: string;
+}
+
+/**
+ * Cancellation and timeout applied to every git command the index runs.
+ */
+export type CommitIndexRunOptions = Pick<GitRunOptions, 'signal' | 'timeoutMs'>;
+
+/**
+ * Local index of a repository's commits with parsed numstat, author, dates and parents.
+ * Built with a single `git log` pass, then updated incrementally from the last indexed
+ * ref tips. When a cache directory is given the index is persisted there (one folder
+ * per repository) so later runs only read the commits added since. The log is
+ * parsed line by line as git writes it, so memory is bounded by the index itself.
+ *
+ * Queries take the same {@link FilterOptions} as GitMetrics and are answered in memory;
+ * concurrent queries share a single refresh.
+ *
+ * @example
+ * ```typescript
+ * const index = new CommitIndex('/path/to/repo', '~/.xseed-metrics/data/acme/commit-index');
+ * const commits = await index.query({ since: '2 weeks ago', email: 'john@example.com' });
+ * ```
+ */
+export class CommitIndex {
+  private repoPath: string;
+  private cacheDir?: string;
+  private runOptions: CommitIndexRunOptions;
+  private commits = new Map<string, IndexedCommit>();
+  private tips: string[] = [];
+  private mailmap = '';
+  private refreshing: Promise<void> | null = null;
+  private updating: Promise<void> = Promise.resolve();
+  private sorted: IndexedCommit[] | null = null;
+  private reachableCache = new Map<string, Set<string>>();
+  private revCache = new Map<string, Promise<string | null>>();
+  private dateCache = new Map<string, Promise<{ maxAge?: number; minAge?: number }>>();
+
+  /**
+   * Creates an index for the given repository.
+   *
+   * @param repoPath - Path to the git repository
+   * @param cacheDir - Directory to persist the index in (in-memory only if omitted)
+   * @param runOptions - Cancellation and timeout for the git commands
+   */
+  constructor(repoPath: string, cacheDir?: string, runOptions: CommitIndexRunOptions = {}) {
+    this.repoPath = repoPath;
+    this.cacheDir = cacheDir;
+    this.runOptions = runOptions;
+  }
+
+  /**
+   * Runs a git command in the repository directory.
+   *
+   * @param args - Arguments to git
+   * @param input - Optional data written to the command's stdin
+   * @returns The trimmed output of the command
+   * @private
+   */
+  private git(args: string[], input?: string): Promise<string> {
+    return runGit(args, { ...this.runOptions, cwd: this.repoPath, input });
+  }
+
+  // ==========================================
+  // Queries
+  // ==========================================
+
+  /**
+   * Returns indexed commits matching the filter, newest first.
+   * Mirrors `git log` semantics: commits reachable from `branch`, `branches`
+   * or HEAD, `since`/`until` on the committer date, `email`/`author` as a
+   * pattern against "Name <email>", and `paths` limiting both the commits
+   * and their file changes.
+   *
+   * @param options - Filter options
+   * @returns Matching commits (file changes trimmed to `paths` when given)
+   */
+  async query(options: FilterOptions = {}): Promise<IndexedCommit[]> {
+    await this.refresh();
+
+    const reachable = this.getReachable(await this.resolveTips(options));
+    const { maxAge, minAge } = await this.resolveDateRange(options);
+    const authorPattern = options.email || options.author;
+    const authorRegex = authorPattern ? compileAuthorPattern(authorPattern) : null;
+    const paths = options.paths?.length ? options.paths.map(normalizePathspec) : null;
+
+    const result: IndexedCommit[] = [];
+
+    for (const commit of this.getSorted()) {
+      if (!reachable.has(commit.hash)) continue;
+      if (!options.includeMerges && commit.parents.length > 1) continue;
+      if (maxAge !== undefined && commit.commitTime < maxAge) continue;
+      if (minAge !== undefined && commit.commitTime > minAge) continue;
+      if (authorRegex && !authorRegex.test(`${commit.author} <${commit.email}>`)) continue;
+
+      if (paths) {
+        const files = commit.files.filter(f => paths.some(p => matchesPathspec(f.path, p)));
+        if (files.length === 0) continue;
+        result.push({ ...commit, files });
+      } else {
+        result.push(commit);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Resolves the revisions a query starts from to commit hashes.
+   * Unknown revisions are skipped, matching how multi-branch collection
+   * ignores branches that fail; so are values git would read as options.
+   *
+   * @private
+   */
+  private async resolveTips(options: FilterOptions): Promise<string[]> {
+    let revs: string[];
+    if (options.branches?.length) {
+      revs = options.branches;
+    } else if (options.branch) {
+      revs = [options.branch];
+    } else {
+      revs = ['HEAD'];
+    }
+
+    const tips: string[] = [];
+    for (const rev of revs) {
+      if (!isSafeRevision(rev)) continue;
+
+      let lookup = this.revCache.get(rev);
+      if (!lookup) {
+        lookup = this.git(['rev-parse', '--verify', '--quiet', `${rev}^{commit}`])
+          .then(hash => hash || null)
+          .catch(() => null); // Unknown revision
+        this.revCache.set(rev, lookup);
+      }
+
+      const hash = await lookup;
+      if (!hash) continue;
+
+      // Revisions outside the indexed refs (e.g. a detached commit) are indexed on demand
+      if (!this.commits.has(hash)) {
+        try {
+          await this.serialize(() => this.commits.has(hash) ? Promise.resolve() : this.update([...this.tips, hash]));
+        } catch {
+          continue;
+        }
+      }
+      tips.push(hash);
+    }
+    return tips;
+  }
+
+  /**
+   * Collects every commit reachable from the given tips by walking parents.
+   *
+   * @private
+   */
+  private getReachable(tips: string[]): Set<string> {
+    const key = [...tips].sort().join(',');
+    const cached = this.reachableCache.get(key);
+    if (cached) return cached;
+
+    const reachable = new Set<string>();
+    const stack = [...tips];
+    while (stack.length > 0) {
+      const hash = stack.pop()!;
+      if (reachable.has(hash)) continue;
+      const commit = this.commits.get(hash);
+      // Parents missing from the index (shallow clones) end the walk
+      if (!commit) continue;
+      reachable.add(hash);
+      stack.push(...commit.parents);
+    }
+
+    this.reachableCache.set(key, reachable);
+    return reachable;
+  }
+
+  /**
+   * Resolves since/until to timestamps using git's own date parser,
+   * so relative dates behave exactly as they do with `git log`.
+   *
+   * @param options - Filter options with `since`/`until`
+   * @returns `maxAge` (since) and `minAge` (until) in seconds, when given
+   * @throws {GitError} If git can't be run
+   */
+  resolveDateRange(options: FilterOptions): Promise<{ maxAge?: number; minAge?: number }> {
+    if (!options.since && !options.until) return Promise.resolve({});
+
+    const key = `${options.since ?? ''}|${options.until ?? ''}`;
+    const cached = this.dateCache.get(key);
+    if (cached) return cached;
+
+    const args = ['rev-parse'];
+    if (options.since) args.push(`--since=${options.since}`);
+    if (options.until) args.push(`--until=${options.until}`);
+
+    const range = this.git(args).then(raw => {
+      const parsed: { maxAge?: number; minAge?: number } = {};
+      for (const line of raw.split('\n')) {
+        const match = line.match(/^--(max|min)-age=(\d+)$/);
+        if (match?.[1] === 'max') parsed.maxAge = parseInt(match[2]);
+        if (match?.[1] === 'min') parsed.minAge = parseInt(match[2]);
+      }
+      return parsed;
+    });
+    // Don't cache failures (e.g. a cancelled run)
+    range.catch(() => this.dateCache.delete(key));
+
+    this.dateCache.set(key, range);
+    return range;
+  }
+
+  /**
+   * Returns all indexed commits, newest first.
+   *
+   * @private
+   */
+  private getSorted(): IndexedCommit[] {
+    if (!this.sorted) {
+      this.sorted = Array.from(this.commits.values()).sort((a, b) => b.commitTime - a.commitTime);
+    }
+    return this.sorted;
+  }
+
+  // ==========================================
+  // Index Maintenance
+  // ==========================================
+
+  /**
+   * Brings the index up to date with the repository's refs (once per instance).
+   * Loads the persisted index, then indexes only commits not reachable from the
+   * previously indexed tips. Falls back to a full rebuild when the stored index
+   * is missing, from another format version, built with a different .mailmap,
+   * or when an old tip no longer exists (e.g. after a force-push and gc).
+   * Concurrent callers wait on the same refresh.
+   *
+   * @private
+   */
+  private refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.serialize(() => this.doRefresh());
+      // A failed (e.g. cancelled) refresh can be retried by the next query
+      this.refreshing.catch(() => { this.refreshing = null; });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Performs the refresh described in {@link refresh}.
+   *
+   * @private
+   */
+  private async doRefresh(): Promise<void> {
+    this.commits.clear();
+    const tips = await this.readRefTips();
+    this.mailmap = await this.getMailmapHash();
+
+    const meta = await this.load();
+    if (!meta || meta.version !== INDEX_VERSION || meta.mailmap !== this.mailmap) {
+      await this.rebuild(tips);
+      return;
+    }
+
+    this.tips = meta.tips;
+    if (tips.length === 0) {
+      await this.rebuild(tips);
+      return;
+    }
+
+    const known = new Set(meta.tips);
+    if (tips.every(t => known.has(t)) && tips.length === known.size) return;
+
+    try {
+      await this.update(tips);
+    } catch (error) {
+      if (this.runOptions.signal?.aborted) throw error;
+      await this.rebuild(tips);
+    }
+  }
+
+  /**
+   * Runs index mutations one at a time so concurrent queries can't interleave
+   * two `git log` reads or appends to the stored index.
+   *
+   * @private
+   */
+  private serialize(task: () => Promise<void>): Promise<void> {
+    const run = this.updating.then(task);
+    this.updating = run.catch(() => {});
+    return run;
+  }
+
+  /**
+   * Gets the current tips of HEAD, local and remote branches, and tags.
+   *
+   * @private
+   */
+  private async readRefTips(): Promise<string[]> {
+    try {
+      const raw = await this.git(['rev-parse', 'HEAD', '--branches', '--remotes', '--tags']);
+      return Array.from(new Set(raw.split('\n').filter(Boolean)));
+    } catch {
+      // Empty repository (no HEAD yet)
+      return [];
+    }
+  }
+
+  /**
+   * Hashes the repository's .mailmap so a changed mailmap invalidates the index.
+   *
+   * @private
+   */
+  private async getMailmapHash(): Promise<string> {
+    try {
+      const root = await this.git(['rev-parse', '--show-toplevel']);
+      const mailmapPath = join(root, '.mailmap');
+      if (!existsSync(mailmapPath)) return '';
+      return createHash('sha1').update(readFileSync(mailmapPath)).digest('hex');
+    } catch {
+      return '';
+    }
+  }
+
+  /**
+   * Re-indexes the repository from scratch.
+   *
+   * @private
+   */
+  private async rebuild(tips: string[]): Promise<void> {
+    this.commits.clear();
+    const added = tips.length > 0 ? await this.readCommits(tips) : [];
+    this.tips = tips;
+    this.invalidate();
+    await this.persist(added, false);
+  }
+
+  /**
+   * Indexes commits reachable from `tips` but not from the current tips.
+   *
+   * @private
+   */
+  private async update(tips: string[]): Promise<void> {
+    const added = await this.readCommits([...tips, ...this.tips.map(t => `^${t}`)]);
+    this.tips = Array.from(new Set(tips));
+    this.invalidate();
+    await this.persist(added, true);
+  }
+
+  /**
+   * Streams a single `git log --numstat` over the given revisions and adds the
+   * parsed commits to the index. Commits are only added once the log completed,
+   * so a failed or cancelled read leaves the index unchanged.
+   *
+   * @param revisions - Revisions for `git log --stdin` (`^hash` excludes)
+   * @returns The newly parsed commits
+   * @private
+   */
+  private async readCommits(revisions: string[]): Promise<IndexedCommit[]> {
+    const added: IndexedCommit[] = [];
+    let current: IndexedCommit | null = null;
+
+    const onLine = (line: string) => {
+      if (line.startsWith('\0')) {
+        const [hash, shortHash, parents, author, email, authorDate, commitTime, subject] =
+          line.substring(1).split(FIELD_SEP);
+        current = {
+          hash,
+          shortHash,
+          parents: parents ? parents.split(' ') : [],
+          author,
+          email,
+          authorDate,
+          commitTime: parseInt(commitTime),
+          subject: subject ?? '',
+          files: [],
+        };
+        added.push(current);
+        return;
+      }
+
+      const parts = line.split('\t');
+      if (current && parts.length >= 3) {
+        current.files.push({
+          path: resolveRenamedPath(parts.slice(2).join('\t')),
+          // Binary files are marked with '-'
+          added: parseInt(parts[0]) || 0,
+          deleted: parseInt(parts[1]) || 0,
+        });
+      }
+    };
+
+    await streamGit(
+      ['-c', 'core.quotePath=false', 'log', '--stdin', '--use-mailmap', '--numstat', `--format=%x00${LOG_FORMAT}`],
+      onLine,
+      { ...this.runOptions, cwd: this.repoPath, input: revisions.join('\n') + '\n' }
+    );
+
+    for (const commit of added) {
+      this.commits.set(commit.hash, commit);
+    }
+    return added;
+  }
+
+  /**
+   * Drops query caches after the index changed.
+   *
+   * @private
+   */
+  private invalidate(): void {
+    this.sorted = null;
+    this.reachableCache.clear();
+  }
+
+  // ==========================================
+  // Persistence
+  // ==========================================
+
+  /**
+   * Gets the directory the index for this repository is stored in.
+   * Keyed by repository name plus a hash of its git dir, so clones with
+   * the same name don't collide.
+   *
+   * @private
+   */
+  private async getIndexDir(): Promise<string | null> {
+    if (!this.cacheDir) return null;
+    try {
+      const gitDir = await this.git(['rev-parse', '--absolute-git-dir']);
+      const name = basename(gitDir.replace(/[\\/]\.git$/, '')) || 'repo';
+      const key = createHash('sha1').update(gitDir).digest('hex').substring(0, 10);
+      return join(this.cacheDir, `${name}-${key}`);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Loads the persisted index into memory, reading the commits line by line.
+   *
+   * @returns The stored metadata, or null if there is no usable index
+   * @private
+   */
+  private async load(): Promise<IndexMeta | null> {
+    const dir = await this.getIndexDir();
+    if (!dir) return null;
+
+    const metaPath = join(dir, 'meta.json');
+    const commitsPath = join(dir, 'commits.ndjson');
+    if (!existsSync(metaPath) || !existsSync(commitsPath)) return null;
+
+    try {
+      const meta = JSON.parse(readFileSync(metaPath, 'utf-8')) as IndexMeta;
+      const lines = createInterface({ input: createReadStream(commitsPath, 'utf-8'), crlfDelay: Infinity });
+      for await (const line of lines) {
+        if (!line) continue;
+        const commit = deserializeCommit(line);
+        this.commits.set(commit.hash, commit);
+      }
+      return meta;
+    } catch {
+      // Corrupt index - start over
+      this.commits.clear();
+      return null;
+    }
+  }
+
+  /**
+   * Writes newly indexed commits and the current tips to disk.
+   * Commits are appended so incremental updates don't rewrite the whole file;
+   * metadata is written last (atomically) so an interrupted run only causes
+   * already-stored commits to be re-read, never lost.
+   *
+   * @param added - Commits to write
+   * @param append - Append to the existing file instead of replacing it
+   * @private
+   */
+  private async persist(added: IndexedCommit[], append: boolean): Promise<void> {
+    const dir = await this.getIndexDir();
+    if (!dir) return;
+
+    try {
+      if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+
+      const out = createWriteStream(join(dir, 'commits.ndjson'), { flags: append ? 'a' : 'w' });
+      const closed = once(out, 'close');
+      for (const commit of added) {
+        if (!out.write(serializeCommit(commit) + '\n')) {
+          await Promise.race([once(out, 'drain'), closed]);
+        }
+      }
+      out.end();
+      await closed;
+
+      const meta: IndexMeta = { version: INDEX_VERSION, tips: this.tips, mailmap: this.mailmap };
+      const metaPath = join(dir, 'meta.json');
+      writeFileSync(`${metaPath}.tmp`, JSON.stringify(meta));
+      renameSync(`${metaPath}.tmp`, metaPath);
+    } catch {
+      // The cache is an optimization - keep working from memory
+    }
+  }
+}
+
+// ==========================================
+// Helpers
+// ==========================================
+
+/**
+ * Serializes a commit to one compact JSON line.
+ */
+function serializeCommit(c: IndexedCommit): string {
+  return JSON.stringify([
+    c.hash,
+    c.shortHash,
+    c.parents.join(' '),
+    c.author,
+    c.email,
+    c.authorDate,
+    c.commitTime,
+    c.subject,
+    c.files.map(f => [f.path, f.added, f.deleted]),
+  ]);
+}
+
+/**
+ * Parses a line written by {@link serializeCommit}.
+ */
+function deserializeCommit(line: string): IndexedCommit {
+  const [hash, shortHash, parents, author, email, authorDate, commitTime, subject, files] = JSON.parse(line);
+  return {
+    hash,
+    shortHash,
+    parents: parents ? parents.split(' ') : [],
+    author,
+    email,
+    authorDate,
+    commitTime,
+    subject,
+    files: (files as Array<[string, number, number]>).map(([path, added, deleted]) => ({ path, added, deleted })),
+  };
+}
+
+/** C escapes git uses in quoted paths */
+const PATH_ESCAPES: Record<string, number> = {
+  a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13, '"': 34, '\\': 92,
+};
+
+/**
+ * Decodes a path git printed in C-style quotes (used for names with quotes,
+ * backslashes or control characters). Unquoted paths are returned as is.
+ *
+ * @param path - Path as printed by git
+ * @returns The actual file name
+ * @example
+ * ```typescript
+ * unquoteGitPath('"tab\\there.txt"'); // 'tab\there.txt'
+ * ```
+ */
+export function unquoteGitPath(path: string): string {
+  if (path.length < 2 || !path.startsWith('"') || !path.endsWith('"')) return path;
+
+  // Octal escapes are raw bytes, so decode to bytes first, then UTF-8
+  const body = path.slice(1, -1);
+  const chunks: Buffer[] = [];
+  let last = 0;
+  for (const match of body.matchAll(/\\([0-7]{3}|.)/g)) {
+    const escape = match[1];
+    chunks.push(Buffer.from(body.substring(last, match.index), 'utf-8'));
+    if (escape.length === 3) {
+      chunks.push(Buffer.from([parseInt(escape, 8)]));
+    } else if (PATH_ESCAPES[escape] !== undefined) {
+      chunks.push(Buffer.from([PATH_ESCAPES[escape]]));
+    } else {
+      chunks.push(Buffer.from(escape, 'utf-8'));
+    }
+    last = (match.index ?? 0) + match[0].length;
+  }
+  chunks.push(Buffer.from(body.substring(last), 'utf-8'));
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Resolves a numstat path with rename notation to the new path.
+ * Handles `old => new`, `dir/{old => new}/file`, and quoted names
+ * (`"old" => "new"`, each side quoted when it has special characters).
+ *
+ * @param path - Path as printed by `git log --numstat`
+ * @returns The path after the rename
+ */
+export function resolveRenamedPath(path: string): string {
+  if (path.includes('"')) {
+    const quoted = path.match(/^("(?:[^"\\]|\\.)*"|[^"]*) => ("(?:[^"\\]|\\.)*"|[^"]*)$/);
+    return unquoteGitPath(quoted ? quoted[2] : path);
+  }
+
+  const braced = path.match(/^(.*)\{(.*) => (.*)\}(.*)$/);
+  if (braced) {
+    return `${braced[1]}${braced[3]}${braced[4]}`.replace(/\/\//g, '/');
+  }
+  const plain = path.indexOf(' => ');
+  return plain >= 0 ? path.substring(plain + 4) : path;
+}
+
+/**
+ * Compiles a git `--author` pattern (POSIX basic regex) to a JavaScript RegExp.
+ * In basic regex `+ ? ( ) { } |` are literal, and `^`/`$` are only anchors at the
+ * start/end, so they're escaped; this keeps emails like `john+work@example.com`
+ * and names like `Jo $(x)` matching themselves.
+ *
+ * @param pattern - Author name, email, or pattern
+ * @returns RegExp matching "Name <email>"
+ */
+export function compileAuthorPattern(pattern: string): RegExp {
+  const escaped = pattern.replace(/\\.|[+?(){}|^$]/g, (token, offset: number) => {
+    if (token.length > 1) return token;
+    if (token === '^' && offset === 0) return token;
+    if (token === '$' && offset === pattern.length - 1) return token;
+    return `\\${token}`;
+  });
+  try {
+    return new RegExp(escaped);
+  } catch {
+    return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  }
+}
+
+/**
+ * Normalizes a pathspec for prefix matching.
+ */
+function normalizePathspec(spec: string): string {
+  return spec.replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+/**
+ * Checks whether a file path is matched by a (normalized) pathspec:
+ * the file itself or anything under it when it's a directory.
+ */
+function matchesPathspec(path: string, spec: string): boolean {
+  if (spec === '' || spec === '.') return true;
+  return path === spec || path.startsWith(`${spec}/`);
+}
@@ -0,0 +1,370 @@
+// ============================================
+// DORA Metrics - Delivery performance from deployments
+// ============================================
+
+import {
+  Deployment,
+  DeploymentFailureSignal,
+  DeploymentIncident,
+  DeploymentSource,
+  DoraMetrics,
+} from '../types';
+import { avg, median, percentile, getWeekKey, round } from '../utils/metrics-calculations';
+
+/**
+ * A deployment as read from git, with the commits it shipped first
+ * (those not contained in any earlier deployment).
+ */
+export interface DeploymentRecord {
+  /** Tag name, merge subject or log entry name */
+  name: string;
+  /** Deployed commit hash */
+  commit: string;
+  /** Deployment time in seconds */
+  timestamp: number;
+  /** Whether the deployments log marks it as failed */
+  failedInLog?: boolean;
+  /** Hashes of all commits first shipped, merges included */
+  commits: string[];
+  /** Committer timestamps (seconds) of the non-merge commits first shipped */
+  changeTimestamps: number[];
+  /** Hashes of commits reverted by commits in this deployment */
+  reverts: string[];
+  /** Hotfix branches merged by this deployment */
+  hotfixes: string[];
+}
+
+/**
+ * An entry of the deployments log.
+ */
+export interface DeploymentLogEntry {
+  /** Deployed revision (commit hash, tag or branch) */
+  commit: string;
+  /** Deployment time (anything `Date` parses, ISO 8601 preferred) */
+  date: string;
+  /** Deployment name, e.g. the released version (default: the commit) */
+  name?: string;
+  /** Outcome, e.g. "success" or "failure" */
+  status?: string;
+}
+
+/** Log statuses that mark a deployment as failed */
+const FAILED_STATUSES = new Set(['failure', 'failed', 'error', 'rollback', 'rolled_back']);
+
+/** Body line git revert writes, naming the reverted commit */
+const REVERT_PATTERN = /This reverts commit ([0-9a-f]{40})/;
+
+/**
+ * Merge subjects written by git, GitHub, GitLab and Bitbucket, capturing the merged
+ * branch; `prefixed` branches start with a remote or fork owner ("origin/", "acme/").
+ */
+const MERGE_SUBJECT_PATTERNS: Array<{ pattern: RegExp; prefixed: boolean }> = [
+  { pattern: /^Merge branch '([^']+)'/, prefixed: false },
+  { pattern: /^Merge remote-tracking branch '([^']+)'/, prefixed: true },
+  { pattern: /^Merge pull request #\d+ from (\S+)/, prefixed: true },
+  { pattern: /^Merged in (\S+)/, prefixed: false },
+];
+
+const SECONDS_PER_HOUR = 60 * 60;
+const SECONDS_PER_WEEK = 7 * 24 * SECONDS_PER_HOUR;
+
+// ==========================================
+// Parsing
+// ==========================================
+
+/**
+ * Parses a deployments log: either a JSON array of entries or one JSON
+ * object per line. Each entry needs a `commit` and a `date`.
+ *
+ * @param content - Contents of the log file
+ * @returns Entries in file order
+ * @throws {Error} If the content isn't valid JSON or an entry lacks a commit or date
+ * @example
+ * ```typescript
+ * parseDeploymentLog('{"commit":"v1.2.0","date":"2024-03-01T10:00:00Z","status":"failure"}');
+ * ```
+ */
+export function parseDeploymentLog(content: string): DeploymentLogEntry[] {
+  const trimmed = content.trim();
+  if (!trimmed) return [];
+
+  let raw: unknown[];
+  if (trimmed.startsWith('[')) {
+    raw = JSON.parse(trimmed);
+  } else {
+    raw = trimmed.split('\n').filter(line => line.trim()).map((line, i) => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        throw new Error(`Invalid JSON on line ${i + 1} of deployments log`);
+      }
+    });
+  }
+
+  return raw.map((value, i) => {
+    const entry = value as Partial<Record<keyof DeploymentLogEntry, unknown>> | null;
+    if (typeof entry?.commit !== 'string' || !entry.commit) {
+      throw new Error(`Deployment ${i + 1} has no commit`);
+    }
+    if (typeof entry.date !== 'string' || isNaN(new Date(entry.date).getTime())) {
+      throw new Error(`Deployment ${i + 1} has no valid date`);
+    }
+    return {
+      commit: entry.commit,
+      date: entry.date,
+      name: typeof entry.name === 'string' ? entry.name : undefined,
+      status: typeof entry.status === 'string' ? entry.status : undefined,
+    };
+  });
+}
+
+/**
+ * Checks whether a deployments log status means the deployment failed.
+ *
+ * @param status - Status from the log (case-insensitive)
+ * @returns True for statuses like "failure", "failed" or "rollback"
+ */
+export function isFailedStatus(status?: string): boolean {
+  return !!status && FAILED_STATUSES.has(status.toLowerCase());
+}
+
+/**
+ * Extracts the commit a revert undoes from a commit message line.
+ *
+ * @param line - A line of the commit message
+ * @returns The reverted commit hash, or null
+ */
+export function parseRevertedCommit(line: string): string | null {
+  return line.match(REVERT_PATTERN)?.[1] ?? null;
+}
+
+/**
+ * Converts a branch glob (`*` and `?` wildcards) into an anchored regex.
+ *
+ * @param glob - Glob such as "hotfix/*"
+ * @returns Regex matching the whole branch name
+ */
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Finds the branch a merge commit merged from its subject. Remote-tracking and
+ * pull request merges name the branch with its remote or fork owner
+ * ("origin/hotfix/x", "acme/hotfix/x"), which is stripped.
+ *
+ * @param subject - Subject line of a merge commit
+ * @returns The merged branch, or null if the subject doesn't name one
+ * @example
+ * ```typescript
+ * mergedBranchFromSubject('Merge pull request #12 from acme/ABC-1-login'); // 'ABC-1-login'
+ * ```
+ */
+export function mergedBranchFromSubject(subject: string): string | null {
+  for (const { pattern, prefixed } of MERGE_SUBJECT_PATTERNS) {
+    const merged = subject.match(pattern)?.[1];
+    if (merged) return prefixed ? merged.substring(merged.indexOf('/') + 1) : merged;
+  }
+  return null;
+}
+
+/**
+ * Finds the branch a merge commit merged, if it matches a hotfix pattern.
+ *
+ * @param subject - Subject line of a merge commit
+ * @param pattern - Hotfix branch pattern, see {@link globToRegExp}
+ * @returns The merged hotfix branch, or null
+ * @example
+ * ```typescript
+ * hotfixBranchFromSubject("Merge branch 'hotfix/login'", globToRegExp('hotfix/*')); // 'hotfix/login'
+ * ```
+ */
+export function hotfixBranchFromSubject(subject: string, pattern: RegExp): string | null {
+  const branch = mergedBranchFromSubject(subject);
+  return branch && pattern.test(branch) ? branch : null;
+}
+
+// ==========================================
+// Calculation
+// ==========================================
+
+/**
+ * Release names compare without a leading "v", so tag "v1.2.0" matches version "1.2.0".
+ *
+ * @private
+ */
+function normalizeReleaseName(name: string): string {
+  return name.trim().replace(/^v(?=\d)/i, '');
+}
+
+/**
+ * Attributes every failure signal to the deployment that caused it.
+ * A revert fails the deployment that first shipped the reverted commit; a
+ * hotfix fails the deployment right before the one that merged it.
+ *
+ * @private
+ */
+function findFailures(
+  records: DeploymentRecord[],
+  incidents: DeploymentIncident[]
+): Array<Array<{ signal: DeploymentFailureSignal; detail: string }>> {
+  const failures = records.map(() => [] as Array<{ signal: DeploymentFailureSignal; detail: string }>);
+
+  const shippedBy = new Map<string, number>();
+  records.forEach((record, i) => record.commits.forEach(hash => shippedBy.set(hash, i)));
+
+  records.forEach((record, i) => {
+    for (const hash of record.reverts) {
+      const culprit = shippedBy.get(hash);
+      // A revert shipped together with the reverted commit never reached production
+      if (culprit !== undefined && culprit < i) {
+        failures[culprit].push({ signal: 'revert', detail: `${hash.substring(0, 7)} reverted in ${record.name}` });
+      }
+    }
+    for (const branch of record.hotfixes) {
+      if (i > 0) failures[i - 1].push({ signal: 'hotfix', detail: `${branch} merged in ${record.name}` });
+    }
+    if (record.failedInLog) {
+      failures[i].push({ signal: 'log', detail: 'marked failed in deployments log' });
+    }
+  });
+
+  const byName = new Map<string, number[]>();
+  records.forEach((record, i) => {
+    const key = normalizeReleaseName(record.name);
+    byName.set(key, [...(byName.get(key) ?? []), i]);
+  });
+  for (const incident of incidents) {
+    for (const i of byName.get(normalizeReleaseName(incident.deployment)) ?? []) {
+      failures[i].push({ signal: 'incident', detail: incident.id });
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Summarizes durations in hours (avg/median/p90, one decimal).
+ *
+ * @private
+ */
+function summarizeHours(hours: number[]): { avgHours: number; medianHours: number; p90Hours: number; count: number } {
+  return {
+    avgHours: round(avg(hours), 1),
+    medianHours: round(median(hours), 1),
+    p90Hours: round(percentile(hours, 90), 1),
+    count: hours.length,
+  };
+}
+
+/**
+ * Calculates the four DORA metrics from deployments read from git.
+ *
+ * Only deployments inside the period are counted, but failures and restores
+ * are attributed using every deployment. The first deployment has no earlier
+ * one to compare against, so its commits don't count towards lead time.
+ * A failed deployment is restored by the next deployment that didn't fail.
+ *
+ * @param records - All deployments, oldest first
+ * @param options - Source, period bounds in seconds and incidents reported against deployments
+ * @returns DORA metrics for the period
+ * @example
+ * ```typescript
+ * const dora = calculateDoraMetrics(records, { source: 'tags', since: 1704067200 });
+ * console.log(dora.changeFailureRate.rate);
+ * ```
+ */
+export function calculateDoraMetrics(
+  records: DeploymentRecord[],
+  options: {
+    source: DeploymentSource;
+    since?: number;
+    until?: number;
+    incidents?: DeploymentIncident[];
+    now?: Date;
+  }
+): DoraMetrics {
+  const failures = findFailures(records, options.incidents ?? []);
+  const inPeriod = records
+    .map((_, i) => i)
+    .filter(i =>
+      (options.since === undefined || records[i].timestamp >= options.since) &&
+      (options.until === undefined || records[i].timestamp <= options.until)
+    );
+
+  // Deployment frequency over the period (or since the first deployment in it)
+  const byWeek: Record<string, number> = {};
+  for (const i of inPeriod) {
+    const week = getWeekKey(new Date(records[i].timestamp * 1000));
+    byWeek[week] = (byWeek[week] || 0) + 1;
+  }
+  const start = options.since ?? (inPeriod.length ? records[inPeriod[0]].timestamp : 0);
+  const end = options.until ?? Math.floor((options.now ?? new Date()).getTime() / 1000);
+  const weeks = Math.max(1, (end - start) / SECONDS_PER_WEEK);
+
+  // Lead time: commit to the deployment that first shipped it
+  const leadTimes: number[] = [];
+  for (const i of inPeriod) {
+    if (i === 0) continue;
+    for (const committed of records[i].changeTimestamps) {
+      leadTimes.push(Math.max(0, records[i].timestamp - committed) / SECONDS_PER_HOUR);
+    }
+  }
+
+  // Change failure rate and time to restore
+  const bySignal: Record<DeploymentFailureSignal, number> = { revert: 0, hotfix: 0, log: 0, incident: 0 };
+  const restoreTimes: number[] = [];
+  let failed = 0;
+  let unrestored = 0;
+  for (const i of inPeriod) {
+    if (!failures[i].length) continue;
+    failed++;
+    for (const signal of new Set(failures[i].map(f => f.signal))) bySignal[signal]++;
+
+    const next = records.findIndex((record, k) => k > i && !failures[k].length);
+    if (next === -1) {
+      unrestored++;
+    } else {
+      restoreTimes.push((records[next].timestamp - records[i].timestamp) / SECONDS_PER_HOUR);
+    }
+  }
+
+  const deployments: Deployment[] = inPeriod.map(i => ({
+    name: records[i].name,
+    commit: records[i].commit,
+    date: new Date(records[i].timestamp * 1000).toISOString(),
+    changes: records[i].changeTimestamps.length,
+    failed: failures[i].length > 0,
+    failures: failures[i],
+  }));
+
+  return {
+    source: options.source,
+    period: {
+      since: options.since !== undefined ? new Date(options.since * 1000).toISOString() : '',
+      until: options.until !== undefined ? new Date(options.until * 1000).toISOString() : '',
+    },
+    deploymentFrequency: {
+      total: inPeriod.length,
+      perWeek: round(inPeriod.length / weeks, 2),
+      byWeek: Object.entries(byWeek)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([week, count]) => ({ week, count })),
+    },
+    leadTime: leadTimes.length ? summarizeHours(leadTimes) : null,
+    changeFailureRate: {
+      deployments: inPeriod.length,
+      failed,
+      rate: inPeriod.length ? round(failed / inPeriod.length, 2) : 0,
+      bySignal,
+    },
+    timeToRestore: restoreTimes.length || unrestored
+      ? { ...summarizeHours(restoreTimes), unrestored }
+      : null,
+    deployments,
+  };
+}
@@ -0,0 +1,201 @@
+// ============================================
+// Delivery Forecast - Monte Carlo over weekly throughput
+// ============================================
+
+import { addDays, differenceInCalendarDays, differenceInCalendarWeeks, format, parseISO, startOfWeek } from 'date-fns';
+import { CompletionForecast, DeliveryForecast, IssueTracker, ItemsForecast } from '../types';
+import { avg, getWeekKey, percentile, round, sum } from '../utils/metrics-calculations';
+
+/** Confidence levels reported by the forecast */
+export const FORECAST_CONFIDENCE = [50, 85, 95];
+
+const DEFAULT_ITERATIONS = 10000;
+
+/** Simulations that haven't finished after this many weeks are cut off */
+const MAX_WEEKS = 520;
+
+// ==========================================
+// Random Numbers
+// ==========================================
+
+/**
+ * Creates a seeded random number generator (mulberry32), so the same seed
+ * always gives the same forecast.
+ *
+ * @param seed - Any integer
+ * @returns Function returning numbers in [0, 1)
+ * @example
+ * ```typescript
+ * const random = createRandom(42);
+ * random(); // same value on every run
+ * ```
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ==========================================
+// Simulation
+// ==========================================
+
+/**
+ * Keeps the full weeks of a throughput history: the week `since` falls in
+ * (unless the history starts with it) and the current week are only partly
+ * covered, and would pass for slow weeks if sampled.
+ *
+ * @param byWeek - Completed items per week (ThroughputMetrics.byWeek)
+ * @param since - Start of the history
+ * @param now - End of the history
+ * @returns The full weeks' throughput and how many full weeks there are
+ * @example
+ * ```typescript
+ * const history = getFullWeeks(throughput.byWeek, parseDate(since), new Date());
+ * calculateForecast(history.byWeek, { ...options, weeks: history.weeks });
+ * ```
+ */
+export function getFullWeeks(
+  byWeek: Array<{ week: string; count: number }>,
+  since: Date,
+  now: Date
+): { byWeek: Array<{ week: string; count: number }>; weeks: number } {
+  const startsMidWeek = startOfWeek(since).getTime() !== since.getTime();
+  const partial = new Set([getWeekKey(now), ...(startsMidWeek ? [getWeekKey(since)] : [])]);
+  return {
+    byWeek: byWeek.filter(week => !partial.has(week.week)),
+    weeks: Math.max(0, differenceInCalendarWeeks(now, since) - (startsMidWeek ? 1 : 0)),
+  };
+}
+
+/**
+ * Turns a throughput breakdown into one sample per week of history.
+ *
+ * `byWeek` only lists weeks in which something was completed; the weeks
+ * missing from it are added as zeros so quiet weeks weigh in the forecast.
+ *
+ * @param byWeek - Completed items per week (ThroughputMetrics.byWeek)
+ * @param weeks - Weeks covered by the history
+ * @returns Items completed per week
+ */
+export function getWeeklySamples(byWeek: Array<{ week: string; count: number }>, weeks: number): number[] {
+  const samples = byWeek.map(week => week.count);
+  while (samples.length < weeks) samples.push(0);
+  return samples;
+}
+
+/**
+ * Simulates how many weeks it takes to complete `remaining` items.
+ *
+ * @private
+ */
+function simulateWeeks(samples: number[], remaining: number, random: () => number): number {
+  let done = 0;
+  let weeks = 0;
+  while (done < remaining && weeks < MAX_WEEKS) {
+    done += samples[Math.floor(random() * samples.length)];
+    weeks++;
+  }
+  return weeks;
+}
+
+/**
+ * Simulates how many items are completed in `weeks` weeks; a trailing
+ * partial week contributes its share of a sampled week, rounded down.
+ *
+ * @private
+ */
+function simulateItems(samples: number[], weeks: number, random: () => number): number {
+  let items = 0;
+  for (let week = 0; week < Math.floor(weeks); week++) {
+    items += samples[Math.floor(random() * samples.length)];
+  }
+  const partial = weeks - Math.floor(weeks);
+  if (partial > 0) {
+    items += Math.floor(samples[Math.floor(random() * samples.length)] * partial);
+  }
+  return items;
+}
+
+/**
+ * Forecasts delivery by replaying randomly picked weeks of historical
+ * throughput: when `remaining` items will be done, and how many items will be
+ * done by `targetDate`.
+ *
+ * Dates at a confidence level are the ones that share of simulations finish
+ * by; item counts are the ones that share of simulations reach at least.
+ *
+ * @param byWeek - Completed items per week (ThroughputMetrics.byWeek)
+ * @param options - History length, what to forecast and the simulation settings
+ * @param options.weeks - Weeks covered by the history (quiet weeks count as zero)
+ * @param options.remaining - Items left to do
+ * @param options.targetDate - Date to count completed items by (YYYY-MM-DD)
+ * @param options.iterations - Simulations to run (default: 10000)
+ * @param options.seed - Random seed (default: random)
+ * @param options.now - Start of the forecast (default: now)
+ * @returns The forecast; completion is null when nothing was ever completed
+ * @example
+ * ```typescript
+ * const forecast = calculateForecast(throughput.byWeek, {
+ *   tracker: 'jira', project: 'ABC', weeks: 12, remaining: 40, seed: 1,
+ * });
+ * forecast.completion?.find(c => c.confidence === 85)?.date;
+ * ```
+ */
+export function calculateForecast(
+  byWeek: Array<{ week: string; count: number }>,
+  options: {
+    tracker: IssueTracker; project: string; scope?: string; weeks: number;
+    remaining?: number; targetDate?: string; iterations?: number; seed?: number; now?: Date;
+  }
+): DeliveryForecast {
+  const now = options.now ?? new Date();
+  const iterations = options.iterations ?? DEFAULT_ITERATIONS;
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 31);
+  const random = createRandom(seed);
+  const samples = getWeeklySamples(byWeek, options.weeks);
+  const canFinish = sum(samples) > 0;
+
+  let completion: CompletionForecast[] | null = null;
+  if (options.remaining !== undefined && canFinish) {
+    const runs: number[] = [];
+    for (let i = 0; i < iterations; i++) runs.push(simulateWeeks(samples, options.remaining, random));
+    completion = FORECAST_CONFIDENCE.map(confidence => {
+      const weeks = percentile(runs, confidence);
+      return { confidence, weeks, date: format(addDays(now, weeks * 7), 'yyyy-MM-dd') };
+    });
+  }
+
+  let itemsByDate: ItemsForecast[] | null = null;
+  if (options.targetDate) {
+    const weeks = Math.max(0, differenceInCalendarDays(parseISO(options.targetDate), now) / 7);
+    const runs: number[] = [];
+    if (samples.length) {
+      for (let i = 0; i < iterations; i++) runs.push(simulateItems(samples, weeks, random));
+    }
+    itemsByDate = FORECAST_CONFIDENCE.map(confidence => ({ confidence, items: percentile(runs, 100 - confidence) }));
+  }
+
+  return {
+    tracker: options.tracker,
+    project: options.project,
+    scope: options.scope ?? null,
+    history: {
+      weeks: samples.length,
+      completed: sum(samples),
+      avgPerWeek: round(avg(samples), 1),
+    },
+    iterations,
+    seed,
+    start: format(now, 'yyyy-MM-dd'),
+    remaining: options.remaining ?? null,
+    completion,
+    targetDate: options.targetDate ?? null,
+    itemsByDate,
+  };
+}
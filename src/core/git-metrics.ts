@@ -2,7 +2,8 @@
 // Git Metrics Core - Extract metrics from Git
 // ============================================
 
-import { execSync } from 'child_process';
+import { execFileSync } from 'child_process';
+import { readFile } from 'fs/promises';
 import { 
   AuthorStats, 
   CommitInfo, 
@@ -11,107 +12,193 @@ import {
   RepoSummary,
   FilterOptions,
   BlameStats,
+  CodeChurn,
+  ComparisonStats,
   PeriodStats,
-  GroupBy
+  GroupBy,
+  DateRange,
+  DoraOptions,
+  DoraMetrics,
+  DeploymentIncident,
+  DeploymentSource,
+  IssueLinkMetrics,
+  IssueTracker,
+  TrackedIssue,
+  MergeStats,
+  BranchReport,
+  BranchThresholds,
+  HotspotReport,
+  IndentationComplexity
 } from '../types';
-import { 
-  parseDate, 
-  formatDateForGit, 
-  getWeekKey, 
-  getMonthKey,
-  getDayOfWeek 
-} from '../utils/date-utils';
+import { getLocalDateParts } from '../utils/date-utils';
+import { CommitIndex, IndexedCommit, compileAuthorPattern, unquoteGitPath } from './commit-index';
+import { GitRunOptions, isSafeRevision, runGit, streamGit } from './git-runner';
+import {
+  DeploymentRecord,
+  calculateDoraMetrics,
+  globToRegExp,
+  hotfixBranchFromSubject,
+  isFailedStatus,
+  parseDeploymentLog,
+  parseRevertedCommit,
+} from './dora';
+import { BranchHead, calculateIssueLinks, extractIssueKeys, linkCommitsToIssues } from './links';
+import { MergeMessage, calculateMergeStats } from './merges';
+import { calculateBranchReport } from './branches';
+import { getComplexityTrend, indentationOf, measureComplexity, rankHotspots, sampleEvenly } from './hotspots';
+import { percentageChange } from '../utils/metrics-calculations';
+import { DEFAULTS, DORA, PERFORMANCE, TIME_THRESHOLDS } from '../config/constants';
+import { GitError } from '../utils/errors';
+
+/**
+ * A commit as seen by churn analysis: how much it added and which
+ * line ranges (per file, in the parent's version) it removed.
+ */
+interface ChurnCommit {
+  parent: string | null;
+  author: string;
+  email: string;
+  timestamp: number;
+  added: number;
+  removed: Map<string, Array<[number, number]>>;
+}
+
+/**
+ * Options for creating a GitMetrics instance.
+ */
+export interface GitMetricsOptions {
+  /** Directory to persist the commit index in (in-memory only if omitted) */
+  cacheDir?: string;
+  /** Cancels all git commands started by this instance */
+  signal?: AbortSignal;
+  /** Timeout for each git command in milliseconds (default: PERFORMANCE.GIT_TIMEOUT_MS) */
+  timeoutMs?: number;
+}
 
 /**
  * Core class for extracting metrics and statistics from Git repositories.
  * Provides methods for analyzing commits, authors, files, time patterns, and more.
  * 
+ * History queries are answered from a {@link CommitIndex} built with one `git log`
+ * pass and updated incrementally; blame and churn still read git directly since
+ * they need line-level history. All git access is async and streamed, so
+ * independent queries can run concurrently.
+ * 
  * @example
  * ```typescript
- * const metrics = new GitMetrics('/path/to/repo');
- * const summary = metrics.getRepoSummary();
- * const authors = metrics.getAuthorStats();
+ * const metrics = new GitMetrics('/path/to/repo', { cacheDir: '/path/to/cache' });
+ * const [summary, authors] = await Promise.all([
+ *   metrics.getRepoSummary(),
+ *   metrics.getAuthorStats(),
+ * ]);
  * ```
  */
 export class GitMetrics {
   private repoPath: string;
+  private runOptions: Pick<GitRunOptions, 'signal' | 'timeoutMs'>;
+  private index: CommitIndex;
 
   /**
    * Creates a new GitMetrics instance for the specified repository.
    * 
    * @param repoPath - Path to the git repository (defaults to current directory)
+   * @param options - Optional settings such as the commit index cache directory
    * @throws {Error} If the specified path is not a valid git repository
    */
-  constructor(repoPath: string = '.') {
+  constructor(repoPath: string = '.', options: GitMetricsOptions = {}) {
     this.repoPath = repoPath;
+    this.runOptions = { signal: options.signal, timeoutMs: options.timeoutMs };
     this.validateRepo();
+    this.index = new CommitIndex(repoPath, options.cacheDir, this.runOptions);
   }
 
   /**
    * Validates that the specified path is a valid git repository.
+   * Runs synchronously so an invalid path fails at construction time.
    * 
    * @throws {Error} If the path is not a git repository
    * @private
    */
   private validateRepo(): void {
     try {
-      this.exec('git rev-parse --git-dir');
+      execFileSync('git', ['rev-parse', '--git-dir'], { cwd: this.repoPath, stdio: 'pipe' });
     } catch {
       throw new Error(`Not a git repository: ${this.repoPath}`);
     }
   }
 
   /**
-   * Executes a shell command in the repository directory.
+   * Runs a git command in the repository directory.
    * 
-   * @param command - The command to execute
+   * @param args - Arguments to git
    * @returns The trimmed output of the command
-   * @throws {Error} If the command fails
+   * @throws {GitError} If the command fails, times out or is cancelled
+   * @private
+   */
+  private git(args: string[]): Promise<string> {
+    return runGit(args, { ...this.runOptions, cwd: this.repoPath });
+  }
+
+  /**
+   * Runs a git command in the repository directory, handing each output line to `onLine`.
+   * 
+   * @param args - Arguments to git
+   * @param onLine - Called for each line of output
+   * @param options - Data to write to the command's stdin
+   * @throws {GitError} If the command fails, times out or is cancelled
    * @private
    */
-  private exec(command: string): string {
-    return execSync(command, {
-      cwd: this.repoPath,
-      encoding: 'utf-8',
-      maxBuffer: 100 * 1024 * 1024, // 100MB buffer for large repos
-    }).trim();
+  private streamGit(
+    args: string[],
+    onLine: (line: string) => void,
+    options: Pick<GitRunOptions, 'input'> = {}
+  ): Promise<void> {
+    return streamGit(args, onLine, { ...this.runOptions, ...options, cwd: this.repoPath });
+  }
+
+  /**
+   * Resolves the branches a query covers to commit hashes, like the commit
+   * index does: `branches`, else `branch`, else HEAD. Unknown revisions and
+   * values git would read as options are skipped.
+   * 
+   * @param options - Filter options naming the branches
+   * @returns Commit hashes of the branch tips, without duplicates
+   * @private
+   */
+  private async resolveTips(options: FilterOptions): Promise<string[]> {
+    const revs = options.branches?.length ? options.branches : [options.branch ?? 'HEAD'];
+    const hashes = await Promise.all(revs.map(rev => isSafeRevision(rev)
+      ? this.git(['rev-parse', '--verify', '--quiet', `${rev}^{commit}`]).catch(() => '')
+      : Promise.resolve('')));
+    return [...new Set(hashes.filter(Boolean))];
   }
 
   /**
    * Builds git log command arguments from filter options.
+   * Values are attached to their option (`--since=...`) or placed after
+   * `--end-of-options`/`--`, so user input is never parsed as an option.
+   * Author filters are not included: callers match them with
+   * {@link compileAuthorPattern}, like the commit index does.
    * 
    * @param options - Filter options for the git log command
-   * @returns A string of command-line arguments
+   * @param tips - Commits to start from, from {@link resolveTips}
+   * @returns Command-line arguments for git log
    * @private
    */
-  private buildLogArgs(options: FilterOptions): string {
+  private buildLogArgs(options: FilterOptions, tips: string[]): string[] {
     const args: string[] = [];
     
-    if (options.since) args.push(`--since="${options.since}"`);
-    if (options.until) args.push(`--until="${options.until}"`);
-    
-    // Prefer email for filtering (more reliable than author name)
-    // Git's --author flag matches against both name and email
-    if (options.email) {
-      args.push(`--author="${options.email}"`);
-    } else if (options.author) {
-      args.push(`--author="${options.author}"`);
-    }
+    if (options.since) args.push(`--since=${options.since}`);
+    if (options.until) args.push(`--until=${options.until}`);
     
     if (!options.includeMerges) args.push('--no-merges');
     
-    // Handle branch filtering - support both single and multiple branches
-    if (options.branches?.length) {
-      // Multiple branches - use --all with branch restriction
-      args.push('--all');
-    } else if (options.branch) {
-      // Single branch (legacy)
-      args.push(options.branch);
-    }
+    args.push('--end-of-options', ...tips);
     
-    if (options.paths?.length) args.push('--', ...options.paths);
+    // Always end revisions so a path can't be read as one (or as an option)
+    args.push('--', ...(options.paths ?? []));
     
-    return args.join(' ');
+    return args;
   }
 
   // ==========================================
@@ -126,14 +213,15 @@ export class GitMetrics {
    * @returns Array of unmerged branch names (e.g., ['origin/develop', 'origin/feature-auth'])
    * @example
    * ```typescript
-   * const unmerged = metrics.getUnmergedBranches('main');
+   * const unmerged = await metrics.getUnmergedBranches('main');
    * console.log(`Found ${unmerged.length} unmerged branches`);
    * ```
    */
-  getUnmergedBranches(mainBranch: string = 'main'): string[] {
+  async getUnmergedBranches(mainBranch: string = 'main'): Promise<string[]> {
     try {
       // Get all remote branches that are not merged to main
-      const raw = this.exec(`git branch -r --no-merged ${mainBranch}`);
+      // (attached value, so a hostile branch name can't become an option)
+      const raw = await this.git(['branch', '-r', `--no-merged=${mainBranch}`]);
       
       if (!raw) return [];
       
@@ -164,12 +252,12 @@ export class GitMetrics {
    * @returns Array of all active branch names
    * @example
    * ```typescript
-   * const allBranches = metrics.getAllActiveBranches('main');
+   * const allBranches = await metrics.getAllActiveBranches('main');
    * // Returns: ['main', 'origin/develop', 'origin/feature-auth', ...]
    * ```
    */
-  getAllActiveBranches(mainBranch: string = 'main'): string[] {
-    const unmerged = this.getUnmergedBranches(mainBranch);
+  async getAllActiveBranches(mainBranch: string = 'main'): Promise<string[]> {
+    const unmerged = await this.getUnmergedBranches(mainBranch);
     return [mainBranch, ...unmerged];
   }
 
@@ -184,7 +272,7 @@ export class GitMetrics {
    * @example
    * ```typescript
    * const branches = ['main', 'origin/develop', 'origin/feature-auth'];
-   * const commits = metrics.getCommitsFromMultipleBranches(branches, { since: '2024-01-01' });
+   * const commits = await metrics.getCommitsFromMultipleBranches(branches, { since: '2024-01-01' });
    * console.log(`Found ${commits.length} unique commits across ${branches.length} branches`);
    * ```
    */
@@ -192,163 +280,131 @@ export class GitMetrics {
     branches: string[],
     options: FilterOptions = {},
     limit?: number
-  ): CommitInfo[] {
-    if (!branches || branches.length === 0) {
-      return this.getCommits(options, limit);
-    }
-
-    // Use a Map to deduplicate commits by hash
-    const commitMap = new Map<string, CommitInfo>();
+  ): Promise<CommitInfo[]> {
+    // The index walks all branches at once, so commits shared between them are counted once
+    return this.getCommits({ ...options, branches }, limit);
+  }
 
-    // Collect commits from each branch
-    for (const branch of branches) {
-      try {
-        const branchOptions = { ...options, branch, branches: undefined };
-        const branchCommits = this.getCommits(branchOptions, limit);
-        
-        // Add commits to the map (hash is unique identifier)
-        for (const commit of branchCommits) {
-          if (!commitMap.has(commit.hash)) {
-            commitMap.set(commit.hash, commit);
-          }
-        }
-      } catch (error: unknown) {
-        // If a branch fails, continue with others
-        continue;
-      }
+  /**
+   * Reports on every unmerged remote branch: last commit, authors, ahead and
+   * behind counts against the main branch, the commits and lines only the
+   * branch has, and whether it is active, long-lived, stale or abandoned.
+   * 
+   * @param mainBranch - The main branch to compare against (default: 'main')
+   * @param options - Staleness thresholds in days (defaults from `BRANCH_THRESHOLDS`), the current time,
+   *   a single branch to report on (e.g. 'origin/login') and whether to list each branch's commits and files
+   * @returns Branch report, longest idle branches first; empty if the main branch doesn't exist
+   * @example
+   * ```typescript
+   * const report = await metrics.getBranchReport('main', { thresholds: { staleDays: 14 } });
+   * console.log(`${report.byStatus.stale} stale, ${report.byStatus.abandoned} abandoned`);
+   * ```
+   */
+  async getBranchReport(
+    mainBranch: string = 'main',
+    options: { thresholds?: Partial<BranchThresholds>; now?: Date; branch?: string; details?: boolean } = {}
+  ): Promise<BranchReport> {
+    const empty = calculateBranchReport([], '', [], { mainBranch, ...options });
+    if (!isSafeRevision(mainBranch)) return empty;
+
+    const [mainTip, unmerged, refs] = await Promise.all([
+      this.git(['rev-parse', '--verify', '--quiet', `${mainBranch}^{commit}`]).catch(() => ''),
+      this.getUnmergedBranches(mainBranch),
+      this.git(['for-each-ref', '--format=%(objectname) %(refname)', 'refs/remotes']).catch(() => ''),
+    ]);
+    if (!mainTip) return empty;
+
+    // Same names as `git branch -r` lists them
+    const tips = new Map<string, string>();
+    for (const line of refs.split('\n').filter(Boolean)) {
+      const space = line.indexOf(' ');
+      tips.set(line.substring(space + 1).replace(/^refs\/remotes\//, ''), line.substring(0, space));
     }
+    const branches = unmerged
+      .filter(name => options.branch === undefined || name === options.branch)
+      .flatMap(name => tips.has(name) ? [{ name, tip: tips.get(name)! }] : []);
 
-    // Convert map to array and sort by date (most recent first)
-    const uniqueCommits = Array.from(commitMap.values());
-    uniqueCommits.sort((a, b) => b.date.getTime() - a.date.getTime());
-
-    // Apply limit if specified
-    return limit ? uniqueCommits.slice(0, limit) : uniqueCommits;
+    const commits = await this.index.query({
+      branches: [mainTip, ...branches.map(branch => branch.tip)],
+      includeMerges: true,
+    });
+    return calculateBranchReport(commits, mainTip, branches, { mainBranch, ...options });
   }
 
   // ==========================================
-  // Parsing Utilities (Windows-compatible)
+  // Commit Index Helpers
   // ==========================================
 
   /**
-   * Parses git log --numstat output and sums lines added/deleted.
-   * Replaces Unix utilities like awk.
+   * Converts an indexed commit to the public CommitInfo shape.
    * 
-   * @param output - Raw output from git log --numstat
-   * @returns Object with total added and deleted lines
+   * @param commit - Commit from the index
+   * @returns Commit information with summed line counts
    * @private
    */
-  private parseNumstat(output: string): { added: number; deleted: number } {
-    let added = 0;
-    let deleted = 0;
-    
-    output.split('\n').forEach(line => {
-      const trimmed = line.trim();
-      if (!trimmed) return;
-      
-      const parts = trimmed.split('\t');
-      if (parts.length >= 2) {
-        // Handle binary files (marked as '-')
-        const addedVal = parts[0] === '-' ? 0 : parseInt(parts[0]);
-        const deletedVal = parts[1] === '-' ? 0 : parseInt(parts[1]);
-        
-        if (!isNaN(addedVal)) added += addedVal;
-        if (!isNaN(deletedVal)) deleted += deletedVal;
-      }
-    });
-    
-    return { added, deleted };
-  }
+  private toCommitInfo(commit: IndexedCommit): CommitInfo {
+    let linesAdded = 0;
+    let linesDeleted = 0;
+    for (const file of commit.files) {
+      linesAdded += file.added;
+      linesDeleted += file.deleted;
+    }
 
-  /**
-   * Gets unique values from an array of strings.
-   * Replaces Unix utilities like sort -u.
-   * 
-   * @param values - Array of strings
-   * @returns Array of unique strings
-   * @private
-   */
-  private getUniqueValues(values: string[]): string[] {
-    return Array.from(new Set(values.filter(Boolean)));
+    return {
+      hash: commit.hash,
+      shortHash: commit.shortHash,
+      author: commit.author,
+      email: commit.email,
+      date: new Date(commit.authorDate),
+      message: commit.subject,
+      linesAdded,
+      linesDeleted,
+      filesChanged: commit.files.length,
+      isMerge: commit.parents.length > 1,
+    };
   }
 
   /**
-   * Counts unique lines in output.
-   * Replaces Unix utilities like sort -u | wc -l.
+   * Sums lines added/deleted and collects unique file paths for a set of commits.
    * 
-   * @param output - Raw output string
-   * @returns Count of unique non-empty lines
+   * @param commits - Commits from the index
+   * @returns Totals and the set of files touched
    * @private
    */
-  private countUniqueLines(output: string): number {
-    const lines = output.split('\n').filter(Boolean);
-    return new Set(lines).size;
-  }
+  private sumChanges(commits: IndexedCommit[]): { added: number; deleted: number; files: Set<string> } {
+    let added = 0;
+    let deleted = 0;
+    const files = new Set<string>();
 
-  /**
-   * Parses file list with occurrence counts.
-   * Replaces Unix utilities like sort | uniq -c.
-   * 
-   * @param output - Raw output with one file per line
-   * @returns Array of {file, count} objects sorted by count descending
-   * @private
-   */
-  private parseFileOccurrences(output: string): Array<{ file: string; count: number }> {
-    const counts = new Map<string, number>();
-    
-    output.split('\n').forEach(line => {
-      const trimmed = line.trim();
-      if (trimmed) {
-        counts.set(trimmed, (counts.get(trimmed) || 0) + 1);
+    for (const commit of commits) {
+      for (const file of commit.files) {
+        added += file.added;
+        deleted += file.deleted;
+        files.add(file.path);
       }
-    });
-    
-    return Array.from(counts.entries())
-      .map(([file, count]) => ({ file, count }))
-      .sort((a, b) => b.count - a.count);
+    }
+
+    return { added, deleted, files };
   }
 
   /**
-   * Parses file statistics by extension.
-   * Replaces awk-based file type analysis.
+   * Gets the earliest and latest author dates of a set of commits.
    * 
-   * @param numstatOutput - Raw output from git log --numstat
-   * @returns Object mapping extensions to {files, lines} counts
+   * @param commits - Commits from the index
+   * @returns First and last dates (null when there are no commits)
    * @private
    */
-  private parseFileTypeStats(numstatOutput: string): Record<string, { files: number; lines: number }> {
-    const stats: Record<string, { files: Set<string>; lines: number }> = {};
-    
-    numstatOutput.split('\n').forEach(line => {
-      const parts = line.trim().split('\t');
-      if (parts.length >= 3) {
-        const added = parseInt(parts[0]) || 0;
-        const deleted = parseInt(parts[1]) || 0;
-        const filepath = parts[2];
-        
-        // Extract extension
-        const match = filepath.match(/\.([^./]+)$/);
-        const ext = match ? match[1] : 'no-ext';
-        
-        if (!stats[ext]) {
-          stats[ext] = { files: new Set(), lines: 0 };
-        }
-        
-        stats[ext].files.add(filepath);
-        stats[ext].lines += added + deleted;
-      }
-    });
-    
-    // Convert Sets to counts
-    const result: Record<string, { files: number; lines: number }> = {};
-    for (const [ext, data] of Object.entries(stats)) {
-      result[ext] = {
-        files: data.files.size,
-        lines: data.lines,
-      };
+  private getDateBounds(commits: IndexedCommit[]): { first: Date | null; last: Date | null } {
+    let first: Date | null = null;
+    let last: Date | null = null;
+
+    for (const commit of commits) {
+      const date = new Date(commit.authorDate);
+      if (!first || date < first) first = date;
+      if (!last || date > last) last = date;
     }
-    
-    return result;
+
+    return { first, last };
   }
 
   // ==========================================
@@ -362,137 +418,42 @@ export class GitMetrics {
    * @returns Repository summary with aggregate statistics
    * @example
    * ```typescript
-   * const summary = metrics.getRepoSummary({ since: '2024-01-01' });
+   * const summary = await metrics.getRepoSummary({ since: '2024-01-01' });
    * console.log(`Total commits: ${summary.totalCommits}`);
    * ```
    */
-  getRepoSummary(options: FilterOptions = {}): RepoSummary {
-    // If multiple branches specified, use multi-branch collection
-    if (options.branches && options.branches.length > 0) {
-      return this.getRepoSummaryFromMultipleBranches(options);
-    }
-
-    const logArgs = this.buildLogArgs(options);
-    
-    const totalCommits = parseInt(
-      this.exec(`git rev-list --count HEAD ${logArgs}`) || '0'
-    );
-
-    // Get unique authors (Windows-compatible)
-    // Use --use-mailmap to respect .mailmap file for consolidating author identities
-    const authorsRaw = this.exec(`git log --use-mailmap --format='%aN' ${logArgs}`);
-    const totalAuthors = this.countUniqueLines(authorsRaw);
-
-    // Lines added/deleted (Windows-compatible: no awk)
-    const statsRaw = this.exec(`git log --pretty=tformat: --numstat ${logArgs}`);
-    const { added, deleted } = this.parseNumstat(statsRaw);
-
-    // First and last commit (Windows-compatible: no head)
-    let firstCommitDate: Date | null = null;
-    let lastCommitDate: Date | null = null;
+  async getRepoSummary(options: FilterOptions = {}): Promise<RepoSummary> {
+    const [commits, branchesRaw, currentBranchRaw] = await Promise.all([
+      this.index.query(options),
+      this.git(['branch', '-a']),
+      this.git(['branch', '--show-current']),
+    ]);
 
-    try {
-      const firstRaw = this.exec(`git log --reverse --format='%aI' ${logArgs}`);
-      const first = firstRaw.split('\n')[0]; // First line instead of head -1
-      const last = this.exec(`git log --format='%aI' -1 ${logArgs}`);
-      if (first) firstCommitDate = new Date(first);
-      if (last) lastCommitDate = new Date(last);
-    } catch (error: unknown) {
-      // Log error but continue - dates will remain null
-    }
+    const totalAuthors = new Set(commits.map(c => c.author)).size;
+    const { added, deleted, files } = this.sumChanges(commits);
+    const { first, last } = this.getDateBounds(commits);
 
     // Branches
-    const branchesRaw = this.exec('git branch -a');
     const activeBranches = branchesRaw.split('\n').filter(Boolean).length;
+    const currentBranch = currentBranchRaw || 'HEAD';
 
-    const currentBranch = this.exec('git branch --show-current') || 'HEAD';
-
-    // Files changed (unique) (Windows-compatible: no sort, wc)
-    const filesRaw = this.exec(`git log --pretty=tformat: --name-only ${logArgs}`);
-    const totalFilesChanged = this.countUniqueLines(filesRaw);
-
-    return {
-      totalCommits,
+    const summary: RepoSummary = {
+      totalCommits: commits.length,
       totalAuthors,
       totalLinesAdded: added,
       totalLinesDeleted: deleted,
-      totalFilesChanged,
-      firstCommitDate,
-      lastCommitDate,
+      totalFilesChanged: files.size,
+      firstCommitDate: first,
+      lastCommitDate: last,
       activeBranches,
       currentBranch,
     };
-  }
 
-  /**
-   * Gets repository summary by collecting and deduplicating commits from multiple branches.
-   * This ensures accurate metrics when analyzing work across multiple active branches.
-   * 
-   * @param options - Filter options including branches array
-   * @returns Repository summary with branch metadata
-   * @private
-   */
-  private getRepoSummaryFromMultipleBranches(options: FilterOptions): RepoSummary {
-    const branches = options.branches || [];
-    
-    // Get unique commits across all branches
-    const commits = this.getCommitsFromMultipleBranches(branches, options);
-    
-    // Calculate totals from unique commits
-    const totalCommits = commits.length;
-    
-    // Get unique authors
-    const uniqueAuthors = new Set(commits.map(c => c.author));
-    const totalAuthors = uniqueAuthors.size;
-    
-    // Sum lines from unique commits
-    let totalLinesAdded = 0;
-    let totalLinesDeleted = 0;
-    for (const commit of commits) {
-      totalLinesAdded += commit.linesAdded;
-      totalLinesDeleted += commit.linesDeleted;
-    }
-    
-    // Get unique files
-    const uniqueFiles = new Set<string>();
-    for (const branch of branches) {
-      try {
-        const branchOptions = { ...options, branch, branches: undefined };
-        const filesRaw = this.exec(`git log --pretty=tformat: --name-only ${this.buildLogArgs(branchOptions)}`);
-        filesRaw.split('\n').filter(Boolean).forEach(file => uniqueFiles.add(file));
-      } catch {
-        continue;
-      }
-    }
-    const totalFilesChanged = uniqueFiles.size;
-    
-    // Get first and last commit dates
-    let firstCommitDate: Date | null = null;
-    let lastCommitDate: Date | null = null;
-    
-    if (commits.length > 0) {
-      const sortedByDate = [...commits].sort((a, b) => a.date.getTime() - b.date.getTime());
-      firstCommitDate = sortedByDate[0].date;
-      lastCommitDate = sortedByDate[sortedByDate.length - 1].date;
+    if (options.branches?.length) {
+      summary.branchesAnalyzed = options.branches;
     }
-    
-    // Get branch info
-    const branchesRaw = this.exec('git branch -a');
-    const activeBranches = branchesRaw.split('\n').filter(Boolean).length;
-    const currentBranch = this.exec('git branch --show-current') || 'HEAD';
-    
-    return {
-      totalCommits,
-      totalAuthors,
-      totalLinesAdded,
-      totalLinesDeleted,
-      totalFilesChanged,
-      firstCommitDate,
-      lastCommitDate,
-      activeBranches,
-      currentBranch,
-      branchesAnalyzed: branches,
-    };
+
+    return summary;
   }
 
   // ==========================================
@@ -501,228 +462,69 @@ export class GitMetrics {
 
   /**
    * Gets detailed statistics for each author in the repository.
-   * Includes commits, lines added/deleted, files changed, and activity patterns.
+   * Authors are grouped by email (after .mailmap), so one person committing
+   * under several names is counted once. Line, file and day counts exclude
+   * merge commits; merges are reported separately.
    * 
    * @param options - Filter options to narrow down the analysis
    * @returns Array of author statistics sorted by commit count (descending)
    * @example
    * ```typescript
-   * const authors = metrics.getAuthorStats({ since: '2024-01-01' });
+   * const authors = await metrics.getAuthorStats({ since: '2024-01-01' });
    * authors.forEach(author => {
    *   console.log(`${author.name}: ${author.commits} commits`);
    * });
    * ```
    */
-  getAuthorStats(options: FilterOptions = {}): AuthorStats[] {
-    // If multiple branches specified, use multi-branch collection
-    if (options.branches && options.branches.length > 0) {
-      return this.getAuthorStatsFromMultipleBranches(options);
-    }
-
-    const logArgs = this.buildLogArgs({ ...options, includeMerges: true });
-    
-    // Get all authors (Windows-compatible: no sort -u)
-    // Use --use-mailmap to respect .mailmap file for consolidating author identities
-    const authorsRaw = this.exec(`git log --use-mailmap --format='%aN|%aE' ${logArgs}`);
-    const authorEmails = new Map<string, string>();
-    
-    authorsRaw.split('\n').filter(Boolean).forEach(line => {
-      const [name, email] = line.split('|');
-      if (name && email) authorEmails.set(name, email);
-    });
-
-    const stats: AuthorStats[] = [];
-
-    for (const [author, email] of authorEmails) {
-      // Use email for filtering (more reliable than author name)
-      const authorArgs = this.buildLogArgs({ ...options, email, includeMerges: false });
-      const authorArgsWithMerges = this.buildLogArgs({ ...options, email, includeMerges: true });
-
-      // Commit count (without merges)
-      const commits = parseInt(
-        this.exec(`git rev-list --count HEAD ${authorArgs}`) || '0'
-      );
+  async getAuthorStats(options: FilterOptions = {}): Promise<AuthorStats[]> {
+    const commits = await this.index.query({ ...options, includeMerges: true });
 
-      // Merge commits
-      const totalWithMerges = parseInt(
-        this.exec(`git rev-list --count HEAD ${authorArgsWithMerges}`) || '0'
-      );
-      const mergeCommits = totalWithMerges - commits;
-
-      // Lines added/deleted - use email for filtering
-      const linesRaw = this.exec(
-        `git log --author="${email}" --pretty=tformat: --numstat ${authorArgs}`
-      );
-      const { added: linesAdded, deleted: linesDeleted } = this.parseNumstat(linesRaw);
-
-      // Files changed - use email for filtering
-      const filesRaw = this.exec(
-        `git log --author="${email}" --pretty=tformat: --name-only ${authorArgs}`
-      );
-      const filesChanged = this.countUniqueLines(filesRaw);
-
-      // First and last commit dates - use email for filtering
-      let firstCommit: Date | null = null;
-      let lastCommit: Date | null = null;
+    // Group by email (commits are newest first, so the first name seen is the current one)
+    const authorMap = new Map<string, { name: string; email: string; commits: IndexedCommit[]; mergeCommits: number }>();
 
-      try {
-        const firstRaw = this.exec(
-          `git log --author="${email}" --reverse --format='%aI' ${authorArgs}`
-        );
-        const first = firstRaw.split('\n')[0]; // First line instead of head -1
-        const last = this.exec(
-          `git log --author="${email}" --format='%aI' -1 ${authorArgs}`
-        );
-        if (first) firstCommit = new Date(first);
-        if (last) lastCommit = new Date(last);
-      } catch {}
+    for (const commit of commits) {
+      const key = commit.email.toLowerCase();
+      let data = authorMap.get(key);
+      if (!data) {
+        data = { name: commit.author, email: commit.email, commits: [], mergeCommits: 0 };
+        authorMap.set(key, data);
+      }
 
-      // Active days - use email for filtering
-      const daysRaw = this.exec(
-        `git log --author="${email}" --format='%ad' --date='format:%Y-%m-%d' ${authorArgs}`
-      );
-      const activeDays = this.countUniqueLines(daysRaw);
+      if (commit.parents.length > 1) {
+        data.mergeCommits++;
+      } else {
+        data.commits.push(commit);
+      }
+    }
 
-      const avgCommitsPerDay = activeDays > 0 ? commits / activeDays : 0;
+    const stats: AuthorStats[] = [];
 
-      const username = email.includes('@') ? email.split('@')[0] : email || author;
-      stats.push({
-        name: author,
-        username,
-        email,
-        commits,
-        linesAdded,
-        linesDeleted,
-        linesNet: linesAdded - linesDeleted,
-        filesChanged,
-        firstCommit,
-        lastCommit,
-        activeDays,
-        avgCommitsPerDay: Math.round(avgCommitsPerDay * 100) / 100,
-        mergeCommits,
-      });
-    }
+    for (const data of authorMap.values()) {
+      const commitCount = data.commits.length;
+      const { added: linesAdded, deleted: linesDeleted, files } = this.sumChanges(data.commits);
+      const { first: firstCommit, last: lastCommit } = this.getDateBounds(data.commits);
+      const activeDays = new Set(data.commits.map(c => getLocalDateParts(c.authorDate).day)).size;
 
-    // Sort by commits descending
-    return stats.sort((a, b) => b.commits - a.commits);
-  }
+      const avgCommitsPerDay = activeDays > 0 ? commitCount / activeDays : 0;
+      const username = data.email.includes('@') ? data.email.split('@')[0] : data.email || data.name;
 
-  /**
-   * Gets author statistics by collecting and deduplicating commits from multiple branches.
-   * This ensures accurate per-author metrics when analyzing work across multiple active branches.
-   * 
-   * @param options - Filter options including branches array
-   * @returns Array of author statistics sorted by commit count (descending)
-   * @private
-   */
-  private getAuthorStatsFromMultipleBranches(options: FilterOptions): AuthorStats[] {
-    const branches = options.branches || [];
-    
-    // Get unique commits across all branches (including merge commits for accurate counting)
-    const allCommits = this.getCommitsFromMultipleBranches(branches, { ...options, includeMerges: true });
-    const nonMergeCommits = this.getCommitsFromMultipleBranches(branches, { ...options, includeMerges: false });
-    
-    // Group commits by author email (more reliable than name)
-    const authorMap = new Map<string, {
-      name: string;
-      email: string;
-      commits: CommitInfo[];
-      mergeCommits: CommitInfo[];
-    }>();
-    
-    // Add all commits to author map
-    for (const commit of allCommits) {
-      const key = commit.email;
-      if (!authorMap.has(key)) {
-        authorMap.set(key, {
-          name: commit.author,
-          email: commit.email,
-          commits: [],
-          mergeCommits: [],
-        });
-      }
-      
-      const authorData = authorMap.get(key)!;
-      if (commit.isMerge) {
-        authorData.mergeCommits.push(commit);
-      }
-    }
-    
-    // Add non-merge commits
-    for (const commit of nonMergeCommits) {
-      const key = commit.email;
-      const authorData = authorMap.get(key);
-      if (authorData) {
-        authorData.commits.push(commit);
-      }
-    }
-    
-    // Calculate stats for each author
-    const stats: AuthorStats[] = [];
-    
-    for (const [email, data] of authorMap) {
-      const commits = data.commits.length;
-      const mergeCommits = data.mergeCommits.length;
-      
-      // Calculate lines and files from non-merge commits
-      let linesAdded = 0;
-      let linesDeleted = 0;
-      const uniqueFiles = new Set<string>();
-      const uniqueDates = new Set<string>();
-      
-      for (const commit of data.commits) {
-        linesAdded += commit.linesAdded;
-        linesDeleted += commit.linesDeleted;
-        
-        // Track unique dates for active days
-        const dateStr = commit.date.toISOString().split('T')[0];
-        uniqueDates.add(dateStr);
-      }
-      
-      // Get unique files for this author across all branches
-      for (const branch of branches) {
-        try {
-          const branchOptions = { ...options, branch, branches: undefined, email };
-          const filesRaw = this.exec(`git log --author="${email}" --pretty=tformat: --name-only ${this.buildLogArgs(branchOptions)}`);
-          filesRaw.split('\n').filter(Boolean).forEach(file => uniqueFiles.add(file));
-        } catch {
-          continue;
-        }
-      }
-      
-      const filesChanged = uniqueFiles.size;
-      const activeDays = uniqueDates.size;
-      
-      // Get first and last commit dates
-      let firstCommit: Date | null = null;
-      let lastCommit: Date | null = null;
-      
-      if (data.commits.length > 0) {
-        const sortedByDate = [...data.commits].sort((a, b) => a.date.getTime() - b.date.getTime());
-        firstCommit = sortedByDate[0].date;
-        lastCommit = sortedByDate[sortedByDate.length - 1].date;
-      }
-      
-      const avgCommitsPerDay = activeDays > 0 ? commits / activeDays : 0;
-      const username = email.includes('@') ? email.split('@')[0] : email || data.name;
-      
       stats.push({
         name: data.name,
         username,
-        email,
-        commits,
+        email: data.email,
+        commits: commitCount,
         linesAdded,
         linesDeleted,
         linesNet: linesAdded - linesDeleted,
-        filesChanged,
+        filesChanged: files.size,
         firstCommit,
         lastCommit,
         activeDays,
         avgCommitsPerDay: Math.round(avgCommitsPerDay * 100) / 100,
-        mergeCommits,
+        mergeCommits: data.mergeCommits,
       });
     }
-    
+
     // Sort by commits descending
     return stats.sort((a, b) => b.commits - a.commits);
   }
@@ -736,64 +538,16 @@ export class GitMetrics {
    * 
    * @param options - Filter options to narrow down the commits
    * @param limit - Maximum number of commits to return (optional)
-   * @returns Array of commit information objects
+   * @returns Array of commit information objects, most recent first
    * @example
    * ```typescript
-   * const recentCommits = metrics.getCommits({}, 10);
-   * const authorCommits = metrics.getCommits({ author: 'John Doe' });
+   * const recentCommits = await metrics.getCommits({}, 10);
+   * const authorCommits = await metrics.getCommits({ author: 'John Doe' });
    * ```
    */
-  getCommits(options: FilterOptions = {}, limit?: number): CommitInfo[] {
-    const logArgs = this.buildLogArgs(options);
-    const limitArg = limit ? `-n ${limit}` : '';
-
-    // Format: hash|shortHash|author|email|date|message|isMerge
-    const format = '%H|%h|%aN|%aE|%aI|%s|%P';
-    
-    // Use --use-mailmap to respect .mailmap file for consolidating author identities
-    const raw = this.exec(`git log --use-mailmap --format='${format}' ${limitArg} ${logArgs}`);
-    const commits: CommitInfo[] = [];
-
-    for (const line of raw.split('\n').filter(Boolean)) {
-      const [hash, shortHash, author, email, dateStr, message, parents] = line.split('|');
-      const isMerge = parents?.includes(' ') || false;
-
-      // Get stats for this commit
-      let linesAdded = 0;
-      let linesDeleted = 0;
-      let filesChanged = 0;
-
-      try {
-        const statsRaw = this.exec(`git show --stat --format='' ${hash}`);
-        // Get last non-empty line (cross-platform replacement for tail -1)
-        const lines = statsRaw.split('\n').filter(line => line.trim());
-        const lastLine = lines[lines.length - 1] || '';
-        
-        const match = lastLine.match(/(\d+) files? changed(?:, (\d+) insertions?[^,]*)?(?:, (\d+) deletions?)?/);
-        if (match) {
-          filesChanged = parseInt(match[1]) || 0;
-          linesAdded = parseInt(match[2]) || 0;
-          linesDeleted = parseInt(match[3]) || 0;
-        }
-      } catch (error: unknown) {
-        // Log error but continue with zero stats
-      }
-
-      commits.push({
-        hash,
-        shortHash,
-        author,
-        email,
-        date: new Date(dateStr),
-        message,
-        linesAdded,
-        linesDeleted,
-        filesChanged,
-        isMerge,
-      });
-    }
-
-    return commits;
+  async getCommits(options: FilterOptions = {}, limit?: number): Promise<CommitInfo[]> {
+    const commits = await this.index.query(options);
+    return (limit ? commits.slice(0, limit) : commits).map(c => this.toCommitInfo(c));
   }
 
   // ==========================================
@@ -802,177 +556,216 @@ export class GitMetrics {
 
   /**
    * Analyzes commit patterns across different time dimensions.
-   * Provides breakdowns by hour of day, day of week, month, and week.
+   * Provides breakdowns by hour of day, day of week, month, and week,
+   * using each commit's author date in the author's own timezone.
    * 
    * @param options - Filter options to narrow down the analysis
    * @returns Time-based statistics including hourly, daily, weekly, and monthly patterns
    * @example
    * ```typescript
-   * const timeStats = metrics.getTimeStats();
+   * const timeStats = await metrics.getTimeStats();
    * console.log(`Most active hour: ${Object.entries(timeStats.byHour).sort((a, b) => b[1] - a[1])[0]}`);
    * ```
    */
-  getTimeStats(options: FilterOptions = {}): TimeStats {
-    // If multiple branches specified, use multi-branch collection
-    if (options.branches && options.branches.length > 0) {
-      return this.getTimeStatsFromMultipleBranches(options);
-    }
-
-    const logArgs = this.buildLogArgs(options);
+  async getTimeStats(options: FilterOptions = {}): Promise<TimeStats> {
+    const commits = await this.index.query(options);
 
     // By hour (0-23)
     const byHour: Record<number, number> = {};
     for (let i = 0; i < 24; i++) byHour[i] = 0;
 
-    // Use --use-mailmap to respect .mailmap file for consolidating author identities
-    const hourRaw = this.exec(
-      `git log --use-mailmap --format='%ad' --date='format:%H' ${logArgs}`
-    );
-    hourRaw.split('\n').filter(Boolean).forEach(h => {
-      const hour = parseInt(h);
-      byHour[hour] = (byHour[hour] || 0) + 1;
-    });
-
     // By day of week
     const byDayOfWeek: Record<string, number> = {
       'Monday': 0, 'Tuesday': 0, 'Wednesday': 0, 'Thursday': 0,
       'Friday': 0, 'Saturday': 0, 'Sunday': 0
     };
 
-    const dayRaw = this.exec(
-      `git log --use-mailmap --format='%ad' --date='format:%A' ${logArgs}`
-    );
-    dayRaw.split('\n').filter(Boolean).forEach(d => {
-      byDayOfWeek[d] = (byDayOfWeek[d] || 0) + 1;
-    });
-
-    // By month (YYYY-MM)
+    // By month (YYYY-MM) and week (YYYY-WW)
     const byMonth: Record<string, number> = {};
-    const monthRaw = this.exec(
-      `git log --use-mailmap --format='%ad' --date='format:%Y-%m' ${logArgs}`
-    );
-    monthRaw.split('\n').filter(Boolean).forEach(m => {
-      byMonth[m] = (byMonth[m] || 0) + 1;
-    });
-
-    // By week (YYYY-WW)
     const byWeek: Record<string, number> = {};
-    const weekRaw = this.exec(
-      `git log --use-mailmap --format='%ad' --date='format:%Y-%V' ${logArgs}`
-    );
-    weekRaw.split('\n').filter(Boolean).forEach(w => {
-      byWeek[w] = (byWeek[w] || 0) + 1;
-    });
+
+    for (const commit of commits) {
+      const date = getLocalDateParts(commit.authorDate);
+      const week = `${date.year}-${String(date.isoWeek).padStart(2, '0')}`;
+
+      byHour[date.hour] = (byHour[date.hour] || 0) + 1;
+      byDayOfWeek[date.dayOfWeek] = (byDayOfWeek[date.dayOfWeek] || 0) + 1;
+      byMonth[date.month] = (byMonth[date.month] || 0) + 1;
+      byWeek[week] = (byWeek[week] || 0) + 1;
+    }
 
     return { byHour, byDayOfWeek, byMonth, byWeek };
   }
 
+  // ==========================================
+  // File Statistics
+  // ==========================================
+
   /**
-   * Gets time statistics by collecting and deduplicating commits from multiple branches.
-   * 
-   * @param options - Filter options including branches array
-   * @returns Time-based statistics
-   * @private
-   */
-  private getTimeStatsFromMultipleBranches(options: FilterOptions): TimeStats {
-    const branches = options.branches || [];
-    
-    // Get unique commits across all branches
-    const commits = this.getCommitsFromMultipleBranches(branches, options);
-    
-    // Initialize counters
-    const byHour: Record<number, number> = {};
-    for (let i = 0; i < 24; i++) byHour[i] = 0;
-    
-    const byDayOfWeek: Record<string, number> = {
-      'Monday': 0, 'Tuesday': 0, 'Wednesday': 0, 'Thursday': 0,
-      'Friday': 0, 'Saturday': 0, 'Sunday': 0
-    };
-    
-    const byMonth: Record<string, number> = {};
-    const byWeek: Record<string, number> = {};
-    
-    // Count commits by time dimensions
-    for (const commit of commits) {
-      const date = commit.date;
-      
-      // By hour
-      const hour = date.getHours();
-      byHour[hour] = (byHour[hour] || 0) + 1;
-      
-      // By day of week
-      const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-      const dayName = days[date.getDay()];
-      byDayOfWeek[dayName] = (byDayOfWeek[dayName] || 0) + 1;
-      
-      // By month (YYYY-MM)
-      const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-      byMonth[month] = (byMonth[month] || 0) + 1;
-      
-      // By week (approximate - YYYY-WW)
-      const week = getWeekKey(date);
-      byWeek[week] = (byWeek[week] || 0) + 1;
-    }
-    
-    return { byHour, byDayOfWeek, byMonth, byWeek };
-  }
-
-  // ==========================================
-  // File Statistics
-  // ==========================================
-
-  /**
-   * Gets statistics for the most frequently changed files in the repository.
-   * Includes change count, lines added/deleted, and contributing authors.
+   * Gets statistics for the most frequently changed files in the repository.
+   * Includes change count, lines added/deleted, and contributing authors.
    * 
    * @param options - Filter options to narrow down the analysis
    * @param limit - Maximum number of files to return (default: 20)
    * @returns Array of file statistics sorted by change frequency
    * @example
    * ```typescript
-   * const topFiles = metrics.getFileStats({}, 10);
+   * const topFiles = await metrics.getFileStats({}, 10);
    * topFiles.forEach(file => {
    *   console.log(`${file.path}: ${file.changes} changes by ${file.authors.length} authors`);
    * });
    * ```
    */
-  getFileStats(options: FilterOptions = {}, limit: number = 20): FileStats[] {
-    const logArgs = this.buildLogArgs(options);
-
-    // Get most changed files (Windows-compatible: no sed, sort, uniq, head)
-    const raw = this.exec(`git log --pretty=format: --name-only ${logArgs}`);
-    const fileOccurrences = this.parseFileOccurrences(raw);
-    const topFiles = fileOccurrences.slice(0, limit);
+  async getFileStats(options: FilterOptions = {}, limit: number = 20): Promise<FileStats[]> {
+    const commits = await this.index.query(options);
+    const fileMap = new Map<string, { changes: number; linesAdded: number; linesDeleted: number; authors: Set<string> }>();
 
-    const stats: FileStats[] = [];
+    for (const commit of commits) {
+      for (const file of commit.files) {
+        let data = fileMap.get(file.path);
+        if (!data) {
+          data = { changes: 0, linesAdded: 0, linesDeleted: 0, authors: new Set() };
+          fileMap.set(file.path, data);
+        }
+        data.changes++;
+        data.linesAdded += file.added;
+        data.linesDeleted += file.deleted;
+        data.authors.add(commit.author);
+      }
+    }
 
-    for (const { file: path, count: changes } of topFiles) {
-      // Get lines added/deleted for this file (Windows-compatible: no awk)
-      let linesAdded = 0;
-      let linesDeleted = 0;
+    return Array.from(fileMap.entries())
+      .map(([path, data]) => ({
+        path,
+        changes: data.changes,
+        linesAdded: data.linesAdded,
+        linesDeleted: data.linesDeleted,
+        authors: Array.from(data.authors),
+      }))
+      .sort((a, b) => b.changes - a.changes)
+      .slice(0, limit);
+  }
 
-      try {
-        const statsRaw = this.exec(`git log --pretty=tformat: --numstat ${logArgs} -- "${path}"`);
-        const { added, deleted } = this.parseNumstat(statsRaw);
-        linesAdded = added;
-        linesDeleted = deleted;
-      } catch {}
+  // ==========================================
+  // Hotspots
+  // ==========================================
 
-      // Get authors who touched this file (Windows-compatible: no sort -u)
-      // Use --use-mailmap to respect .mailmap file for consolidating author identities
-      const authorsRaw = this.exec(`git log --use-mailmap --format='%aN' ${logArgs} -- "${path}"`);
-      const authors = this.getUniqueValues(authorsRaw.split('\n'));
+  /**
+   * Ranks the riskiest files and directories: those changed most often in
+   * the period that also hold the most, and most deeply nested, code at the
+   * analyzed revision. Complexity comes from the indentation of the file
+   * contents, so it works for any language. The top files' complexity is
+   * also measured after their changes in the period to show its trend.
+   * 
+   * @param options - Filter options for the changes; `branch` is also the revision measured (default: HEAD)
+   * @param hotspotOptions - Files and directories to return (default: 20) and files to trend (default: 5)
+   * @returns Hotspot report; empty if the revision doesn't exist
+   * @example
+   * ```typescript
+   * const report = await metrics.getHotspots({ since: '1 year ago' }, { limit: 10 });
+   * report.files.forEach(file => console.log(`${file.path}: ${file.score}`));
+   * ```
+   */
+  async getHotspots(
+    options: FilterOptions = {},
+    hotspotOptions: { limit?: number; trendFiles?: number } = {}
+  ): Promise<HotspotReport> {
+    const revision = options.branch ?? 'HEAD';
+    const empty: HotspotReport = { revision, analyzedFiles: 0, files: [], directories: [], trends: [] };
+    if (!isSafeRevision(revision)) return empty;
+
+    const tip = await this.git(['rev-parse', '--verify', '--quiet', `${revision}^{commit}`]).catch(() => '');
+    if (!tip) return empty;
+
+    const [files, commits] = await Promise.all([
+      this.getFileStats(options, Infinity),
+      this.index.query(options),
+    ]);
+    // Only files changed in the period are ranked, so only those are read
+    const current = await this.readComplexity([tip], files.map(file => `:(literal)${file.path}`));
+    const ranked = rankHotspots(files, current.get(tip) ?? new Map(), hotspotOptions.limit);
+
+    // Complexity after the changes in the period, oldest first
+    const trended = ranked.files.slice(0, hotspotOptions.trendFiles ?? DEFAULTS.HOTSPOT_TREND_FILES);
+    const trends = await Promise.all(trended.map(async ({ path }) => {
+      const changed = commits.filter(c => c.files.some(f => f.path === path)).reverse();
+      const changes = sampleEvenly(changed, DEFAULTS.HOTSPOT_TREND_POINTS);
+      const measured = await this.readComplexity(changes.map(c => c.hash), [`:(literal)${path}`]);
+      return getComplexityTrend(path, changes.flatMap(c => {
+        const complexity = measured.get(c.hash)?.get(path);
+        return complexity ? [{
+          hash: c.hash,
+          shortHash: c.shortHash,
+          date: new Date(c.commitTime * 1000).toISOString(),
+          lines: complexity.lines,
+          total: complexity.total,
+          mean: complexity.mean,
+        }] : [];
+      }));
+    }));
+
+    return { revision, ...ranked, trends };
+  }
 
-      stats.push({
-        path,
-        changes,
-        linesAdded,
-        linesDeleted,
-        authors,
-      });
+  /**
+   * Measures the indentation complexity of text files at revisions, reading
+   * them with `git grep` (binary files are skipped), a batch of pathspecs at
+   * a time.
+   * 
+   * @param revisions - Commit hashes
+   * @param pathspecs - Pathspecs of the files to read; nothing is read when empty
+   * @returns Complexity per path, per revision
+   * @private
+   */
+  private async readComplexity(
+    revisions: string[],
+    pathspecs: string[]
+  ): Promise<Map<string, Map<string, IndentationComplexity>>> {
+    const indents = new Map<string, Map<string, number[]>>();
+
+    const batches: string[][] = [];
+    for (let i = 0; i < pathspecs.length; i += PERFORMANCE.GIT_PATHSPEC_BATCH) {
+      batches.push(pathspecs.slice(i, i + PERFORMANCE.GIT_PATHSPEC_BATCH));
     }
 
-    return stats;
+    await Promise.all(batches.map(async batch => {
+      try {
+        // An empty pattern matches every line; -z ends each "REV:PATH" with a NUL instead of quoting it
+        await this.streamGit(
+          [
+            '-c', 'grep.lineNumber=false', '-c', 'grep.column=false',
+            'grep', '-z', '-I', '--no-color', '--full-name', '-e', '', ...revisions, '--', ...batch,
+          ],
+          line => {
+            const nul = line.indexOf('\0');
+            if (nul === -1) return;
+            const indent = indentationOf(line.substring(nul + 1));
+            if (indent === null) return;
+
+            const name = line.substring(0, nul);
+            const colon = name.indexOf(':');
+            const rev = name.substring(0, colon);
+            const path = name.substring(colon + 1);
+            let files = indents.get(rev);
+            if (!files) {
+              files = new Map();
+              indents.set(rev, files);
+            }
+            const lines = files.get(path);
+            if (lines) lines.push(indent);
+            else files.set(path, [indent]);
+          }
+        );
+      } catch (error: unknown) {
+        // git grep exits with 1 when no line matched: no text files
+        if (!(error instanceof GitError && error.exitCode === 1)) throw error;
+      }
+    }));
+
+    return new Map([...indents].map(([rev, files]) => [
+      rev,
+      new Map([...files].map(([path, lines]) => [path, measureComplexity(lines)])),
+    ]));
   }
 
   // ==========================================
@@ -982,51 +775,58 @@ export class GitMetrics {
   /**
    * Analyzes code ownership using git blame to determine which authors wrote which lines.
    * Can analyze a specific file or all tracked files in the repository (limited to 100 files).
+   * Files are blamed concurrently.
    * 
    * @param filePath - Optional specific file to analyze (if omitted, analyzes all tracked files)
    * @returns Array of blame statistics sorted by line count (descending)
    * @example
    * ```typescript
-   * const ownership = metrics.getBlameStats('src/index.ts');
-   * const repoOwnership = metrics.getBlameStats();
+   * const ownership = await metrics.getBlameStats('src/index.ts');
+   * const repoOwnership = await metrics.getBlameStats();
    * ```
    */
-  getBlameStats(filePath?: string): BlameStats[] {
-    const statsMap = new Map<string, { lines: number; email: string }>();
-    
+  async getBlameStats(filePath?: string): Promise<BlameStats[]> {
     let files: string[];
     if (filePath) {
       files = [filePath];
     } else {
-      // Get all tracked files (limit to avoid timeout) (Windows-compatible: no head)
-      const filesRaw = this.exec('git ls-files');
+      // Get all tracked files (limit to avoid timeout)
+      const filesRaw = await this.git(['ls-files']);
       files = filesRaw.split('\n').filter(Boolean).slice(0, 100);
     }
 
-    let totalLines = 0;
-
-    for (const file of files) {
+    const perFile = await Promise.all(files.map(async file => {
+      const fileStats = new Map<string, { lines: number; email: string }>();
+      let currentAuthor = '';
       try {
-        // Get blame output without error redirection or grep (Windows-compatible)
-        const blameRaw = this.exec(`git blame -w --line-porcelain -- "${file}"`);
-
-        let currentAuthor = '';
-        // Parse all lines and filter in JavaScript instead of using grep
-        for (const line of blameRaw.split('\n')) {
+        await this.streamGit(['blame', '-w', '--line-porcelain', '--', file], line => {
           if (line.startsWith('author ')) {
             currentAuthor = line.substring(7); // Replace 'author ' prefix
           } else if (line.startsWith('author-mail ')) {
             const email = line.substring(12).replace(/[<>]/g, ''); // Replace 'author-mail ' prefix
             if (currentAuthor) {
-              const existing = statsMap.get(currentAuthor) || { lines: 0, email };
+              const existing = fileStats.get(currentAuthor) || { lines: 0, email };
               existing.lines++;
-              statsMap.set(currentAuthor, existing);
-              totalLines++;
+              fileStats.set(currentAuthor, existing);
             }
           }
-        }
+        });
       } catch {
         // Skip files that can't be blamed (binary, etc)
+        return new Map<string, { lines: number; email: string }>();
+      }
+      return fileStats;
+    }));
+
+    // Merge in file order so ties sort the same way on every run
+    const statsMap = new Map<string, { lines: number; email: string }>();
+    let totalLines = 0;
+    for (const fileStats of perFile) {
+      for (const [author, data] of fileStats) {
+        const existing = statsMap.get(author) || { lines: 0, email: data.email };
+        existing.lines += data.lines;
+        statsMap.set(author, existing);
+        totalLines += data.lines;
       }
     }
 
@@ -1044,171 +844,301 @@ export class GitMetrics {
   }
 
   // ==========================================
-  // Period Aggregation
+  // Code Churn
   // ==========================================
 
   /**
-   * Aggregates commit statistics by time period (day, week, month, or year).
-   * Provides counts of commits, lines changed, and active authors for each period.
+   * Measures code churn: lines that were rewritten or deleted shortly after being written.
+   * Walks the zero-context diff of every commit in range and blames the removed lines
+   * against the commit's parent to find out when they were originally written. A removed
+   * line counts as churn when it was younger than `windowDays` at the time of the rewrite,
+   * and is attributed to the author of the rewriting commit. The diff is parsed as it
+   * streams and the blames run concurrently.
    * 
    * @param options - Filter options to narrow down the analysis
-   * @param groupBy - Time period to group by ('day', 'week', 'month', or 'year')
-   * @returns Array of period statistics sorted chronologically
+   * @param windowDays - Age (in days) under which a rewritten line counts as churn (default: 21)
+   * @returns Array of churn statistics per author, sorted by churned lines (descending)
    * @example
    * ```typescript
-   * const monthlyStats = metrics.getStatsByPeriod({}, 'month');
-   * const weeklyStats = metrics.getStatsByPeriod({ author: 'John' }, 'week');
+   * const churn = await metrics.getCodeChurn({ since: '1 week ago' });
+   * churn.forEach(c => console.log(`${c.author}: ${(c.churnRate * 100).toFixed(1)}% rework`));
    * ```
    */
-  getStatsByPeriod(options: FilterOptions = {}, groupBy: GroupBy = 'month'): PeriodStats[] {
-    // If multiple branches specified, use multi-branch collection
-    if (options.branches && options.branches.length > 0) {
-      return this.getStatsByPeriodFromMultipleBranches(options, groupBy);
-    }
+  async getCodeChurn(options: FilterOptions = {}, windowDays: number = TIME_THRESHOLDS.NEW_CODE_DAYS): Promise<CodeChurn[]> {
+    // Only the listed branches, like the index-backed metrics; nothing for unknown ones
+    const tips = await this.resolveTips(options);
+    if (tips.length === 0) return [];
+
+    const logArgs = this.buildLogArgs({ ...options, includeMerges: false }, tips);
+    const windowSeconds = windowDays * 24 * 60 * 60;
+
+    // Prefer email for filtering (more reliable than author name); matched like `git log --author`
+    const authorPattern = options.email || options.author;
+    const authorRegex = authorPattern ? compileAuthorPattern(authorPattern) : null;
+    const commits = await this.readChurnLog(logArgs, authorRegex);
+
+    // Count churned lines per commit; root commits have no parent, so nothing could have been rewritten
+    const churned = await Promise.all(commits.map(async commit => {
+      if (!commit.parent) return 0;
+      const parent = commit.parent;
+
+      const counts = await Promise.all(Array.from(commit.removed).map(async ([file, ranges]) => {
+        const rangeArgs = ranges.flatMap(([start, end]) => ['-L', `${start},${end}`]);
+        let count = 0;
+        try {
+          await this.streamGit(['blame', '-w', '--line-porcelain', ...rangeArgs, parent, '--', file], line => {
+            if (!line.startsWith('author-time ')) return;
+            const writtenAt = parseInt(line.substring(12), 10);
+            if (commit.timestamp - writtenAt < windowSeconds) count++;
+          });
+        } catch {
+          // Skip files that can't be blamed (binary, etc)
+          return 0;
+        }
+        return count;
+      }));
+      return counts.reduce((sum, n) => sum + n, 0);
+    }));
+
+    const statsMap = new Map<string, CodeChurn>();
+
+    commits.forEach((commit, i) => {
+      const key = commit.email.toLowerCase();
+      const stats = statsMap.get(key) || {
+        author: commit.author,
+        email: commit.email,
+        newCode: 0,
+        churnedCode: 0,
+        churnRate: 0,
+      };
+      stats.newCode += commit.added;
+      stats.churnedCode += churned[i];
+      statsMap.set(key, stats);
+    });
 
-    const logArgs = this.buildLogArgs(options);
-    
-    let dateFormat: string;
-    switch (groupBy) {
-      case 'day': dateFormat = '%Y-%m-%d'; break;
-      case 'week': dateFormat = '%Y-W%V'; break;
-      case 'month': dateFormat = '%Y-%m'; break;
-      case 'year': dateFormat = '%Y'; break;
+    const stats = Array.from(statsMap.values());
+    for (const s of stats) {
+      s.churnRate = s.newCode > 0 ? Math.round((s.churnedCode / s.newCode) * 10000) / 10000 : 0;
     }
 
-    // Get commits with stats grouped by period
-    // Use --use-mailmap to respect .mailmap file for consolidating author identities
-    const raw = this.exec(`
-      git log --use-mailmap --format='%ad|%aN' --date='format:${dateFormat}' --numstat ${logArgs}
-    `);
-
-    const periodMap = new Map<string, {
-      commits: Set<string>;
-      authors: Set<string>;
-      linesAdded: number;
-      linesDeleted: number;
-    }>();
+    return stats.sort((a, b) => b.churnedCode - a.churnedCode);
+  }
 
-    let currentPeriod = '';
-    let currentAuthor = '';
-    let commitId = 0;
-
-    for (const line of raw.split('\n')) {
-      if (line.includes('|')) {
-        const [period, author] = line.split('|');
-        currentPeriod = period;
-        currentAuthor = author;
-        commitId++;
-
-        if (!periodMap.has(currentPeriod)) {
-          periodMap.set(currentPeriod, {
-            commits: new Set(),
-            authors: new Set(),
-            linesAdded: 0,
-            linesDeleted: 0,
-          });
+  /**
+   * Streams `git log -p --unified=0` and parses it into per-commit added line counts
+   * and the line ranges each commit removed from its parent, keyed by file.
+   * Only the counts and ranges are kept, not the diff text.
+   * 
+   * @param logArgs - Filter arguments from {@link buildLogArgs}
+   * @param authorRegex - Only keep commits whose "Name <email>" matches (all if null)
+   * @returns Parsed commits in log order
+   * @private
+   */
+  private async readChurnLog(logArgs: string[], authorRegex: RegExp | null): Promise<ChurnCommit[]> {
+    const commits: ChurnCommit[] = [];
+    let current: ChurnCommit | null = null;
+    let currentFile: string | null = null;
+    // File headers only come between "diff --git" and the first hunk; after
+    // that a removed "-- comment" line looks just like "--- a/path"
+    let inHeader = false;
+
+    const onLine = (line: string) => {
+      if (line.startsWith('\0')) {
+        const [, parents, author, email, timestamp] = line.substring(1).split('\x1f');
+        // Skip other authors' commits entirely (their diffs are ignored below)
+        if (authorRegex && !authorRegex.test(`${author} <${email}>`)) {
+          current = null;
+          return;
         }
-        periodMap.get(currentPeriod)!.commits.add(`${commitId}`);
-        periodMap.get(currentPeriod)!.authors.add(currentAuthor);
-      } else if (line.trim() && currentPeriod) {
-        const parts = line.split('\t');
-        if (parts.length >= 2) {
-          const added = parseInt(parts[0]) || 0;
-          const deleted = parseInt(parts[1]) || 0;
-          const data = periodMap.get(currentPeriod)!;
-          data.linesAdded += added;
-          data.linesDeleted += deleted;
+        current = {
+          parent: parents ? parents.split(' ')[0] : null,
+          author,
+          email,
+          timestamp: parseInt(timestamp, 10),
+          added: 0,
+          removed: new Map(),
+        };
+        commits.push(current);
+        currentFile = null;
+        inHeader = false;
+        return;
+      }
+      if (!current) return;
+
+      if (line.startsWith('diff --git ')) {
+        currentFile = null;
+        inHeader = true;
+        return;
+      }
+
+      if (inHeader && line.startsWith('--- ')) {
+        // "--- /dev/null" means the file was created, nothing removed.
+        // Git appends a tab to names with spaces and quotes names with special characters.
+        const path = unquoteGitPath(line.substring(4).replace(/\t$/, ''));
+        currentFile = path === '/dev/null' ? null : path.replace(/^a\//, '');
+        return;
+      }
+
+      const hunk = line.match(/^@@ -(\d+)(?:,(\d+))? \+\d+(?:,(\d+))? @@/);
+      if (hunk) {
+        inHeader = false;
+        const start = parseInt(hunk[1], 10);
+        const removedCount = hunk[2] !== undefined ? parseInt(hunk[2], 10) : 1;
+        current.added += hunk[3] !== undefined ? parseInt(hunk[3], 10) : 1;
+
+        if (currentFile && removedCount > 0) {
+          const ranges = current.removed.get(currentFile) || [];
+          ranges.push([start, start + removedCount - 1]);
+          current.removed.set(currentFile, ranges);
         }
       }
-    }
+    };
 
-    const stats: PeriodStats[] = [];
-    for (const [period, data] of periodMap) {
-      stats.push({
-        period,
-        commits: data.commits.size,
-        linesAdded: data.linesAdded,
-        linesDeleted: data.linesDeleted,
-        authors: data.authors.size,
-      });
-    }
+    // %x00 marks commit headers so they can't be confused with diff lines;
+    // %x1f separates fields since it can't appear in names
+    await this.streamGit(
+      [
+        '-c', 'core.quotePath=false', 'log', '--use-mailmap', '--no-color', '--no-renames',
+        '--unified=0', '--format=%x00%H%x1f%P%x1f%aN%x1f%aE%x1f%at', '-p', ...logArgs,
+      ],
+      onLine
+    );
 
-    return stats.sort((a, b) => a.period.localeCompare(b.period));
+    return commits;
   }
 
+  // ==========================================
+  // Period Aggregation
+  // ==========================================
+
   /**
-   * Gets period statistics by collecting and deduplicating commits from multiple branches.
+   * Aggregates commit statistics by time period (day, week, month, or year).
+   * Provides counts of commits, lines changed, and active authors for each period.
    * 
-   * @param options - Filter options including branches array
-   * @param groupBy - Time period to group by
+   * @param options - Filter options to narrow down the analysis
+   * @param groupBy - Time period to group by ('day', 'week', 'month', or 'year')
    * @returns Array of period statistics sorted chronologically
-   * @private
+   * @example
+   * ```typescript
+   * const monthlyStats = await metrics.getStatsByPeriod({}, 'month');
+   * const weeklyStats = await metrics.getStatsByPeriod({ author: 'John' }, 'week');
+   * ```
    */
-  private getStatsByPeriodFromMultipleBranches(options: FilterOptions, groupBy: GroupBy): PeriodStats[] {
-    const branches = options.branches || [];
-    
-    // Get unique commits across all branches
-    const commits = this.getCommitsFromMultipleBranches(branches, options);
-    
-    // Group commits by period
+  async getStatsByPeriod(options: FilterOptions = {}, groupBy: GroupBy = 'month'): Promise<PeriodStats[]> {
+    const commits = await this.index.query(options);
+
     const periodMap = new Map<string, {
-      commits: Set<string>;
+      commits: number;
       authors: Set<string>;
       linesAdded: number;
       linesDeleted: number;
     }>();
-    
+
     for (const commit of commits) {
-      // Determine period key based on groupBy
+      const date = getLocalDateParts(commit.authorDate);
+
       let period: string;
-      const date = commit.date;
-      
       switch (groupBy) {
-        case 'day':
-          period = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
-          break;
-        case 'week':
-          period = getWeekKey(date);
-          break;
-        case 'month':
-          period = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-          break;
-        case 'year':
-          period = `${date.getFullYear()}`;
-          break;
+        case 'day': period = date.day; break;
+        case 'week': period = `${date.year}-W${String(date.isoWeek).padStart(2, '0')}`; break;
+        case 'month': period = date.month; break;
+        case 'year': period = date.year; break;
       }
-      
-      if (!periodMap.has(period)) {
-        periodMap.set(period, {
-          commits: new Set(),
-          authors: new Set(),
-          linesAdded: 0,
-          linesDeleted: 0,
-        });
+
+      let data = periodMap.get(period);
+      if (!data) {
+        data = { commits: 0, authors: new Set(), linesAdded: 0, linesDeleted: 0 };
+        periodMap.set(period, data);
       }
-      
-      const data = periodMap.get(period)!;
-      data.commits.add(commit.hash);
+
+      data.commits++;
       data.authors.add(commit.author);
-      data.linesAdded += commit.linesAdded;
-      data.linesDeleted += commit.linesDeleted;
+      for (const file of commit.files) {
+        data.linesAdded += file.added;
+        data.linesDeleted += file.deleted;
+      }
     }
-    
-    // Convert to array
+
     const stats: PeriodStats[] = [];
     for (const [period, data] of periodMap) {
       stats.push({
         period,
-        commits: data.commits.size,
+        commits: data.commits,
         linesAdded: data.linesAdded,
         linesDeleted: data.linesDeleted,
         authors: data.authors.size,
       });
     }
-    
+
     return stats.sort((a, b) => a.period.localeCompare(b.period));
   }
 
+  // ==========================================
+  // Period Comparison
+  // ==========================================
+
+  /**
+   * Compares per-author statistics between two time windows.
+   * Authors are matched by email; an author active in only one window
+   * is compared against zeros for the other.
+   * 
+   * @param current - Filter options for the current window
+   * @param previous - Filter options for the previous window
+   * @returns Array of comparisons sorted by current-period commits (descending)
+   * @example
+   * ```typescript
+   * const comparison = await metrics.getComparisonStats(
+   *   { since: '2024-01-15', until: '2024-01-28' },
+   *   { since: '2024-01-01', until: '2024-01-14' }
+   * );
+   * ```
+   */
+  async getComparisonStats(current: FilterOptions, previous: FilterOptions): Promise<ComparisonStats[]> {
+    const pick = (s: AuthorStats): Partial<AuthorStats> => ({
+      commits: s.commits,
+      linesAdded: s.linesAdded,
+      linesDeleted: s.linesDeleted,
+      filesChanged: s.filesChanged,
+      activeDays: s.activeDays,
+    });
+
+    const [currentList, previousList] = await Promise.all([
+      this.getAuthorStats(current),
+      this.getAuthorStats(previous),
+    ]);
+    const currentStats = new Map(currentList.map(s => [s.email.toLowerCase(), s]));
+    const previousStats = new Map(previousList.map(s => [s.email.toLowerCase(), s]));
+    const emails = new Set([...currentStats.keys(), ...previousStats.keys()]);
+
+    const comparisons: ComparisonStats[] = [];
+
+    for (const key of emails) {
+      const cur = currentStats.get(key);
+      const prev = previousStats.get(key);
+      const curCommits = cur?.commits ?? 0;
+      const prevCommits = prev?.commits ?? 0;
+      const curLines = cur?.linesAdded ?? 0;
+      const prevLines = prev?.linesAdded ?? 0;
+
+      comparisons.push({
+        author: (cur || prev)!.name,
+        email: (cur || prev)!.email,
+        currentPeriod: cur ? pick(cur) : {},
+        previousPeriod: prev ? pick(prev) : {},
+        change: {
+          commits: curCommits - prevCommits,
+          commitsPercent: percentageChange(curCommits, prevCommits),
+          linesAdded: curLines - prevLines,
+          linesAddedPercent: percentageChange(curLines, prevLines),
+        },
+      });
+    }
+
+    return comparisons.sort(
+      (a, b) => (b.currentPeriod.commits ?? 0) - (a.currentPeriod.commits ?? 0)
+    );
+  }
+
   // ==========================================
   // File Type Statistics
   // ==========================================
@@ -1221,17 +1151,385 @@ export class GitMetrics {
    * @returns Object mapping file extensions to their statistics
    * @example
    * ```typescript
-   * const typeStats = metrics.getFileTypeStats();
+   * const typeStats = await metrics.getFileTypeStats();
    * console.log(`TypeScript files: ${typeStats['ts'].files} files, ${typeStats['ts'].lines} lines`);
    * ```
    */
-  getFileTypeStats(options: FilterOptions = {}): Record<string, { files: number; lines: number }> {
-    const logArgs = this.buildLogArgs(options);
+  async getFileTypeStats(options: FilterOptions = {}): Promise<Record<string, { files: number; lines: number }>> {
+    const commits = await this.index.query(options);
+    const stats: Record<string, { files: Set<string>; lines: number }> = {};
 
-    // Get numstat output (Windows-compatible: no awk, sort)
-    const raw = this.exec(`git log --pretty=tformat: --numstat ${logArgs}`);
-    
-    // Parse using helper method instead of awk
-    return this.parseFileTypeStats(raw);
+    for (const commit of commits) {
+      for (const file of commit.files) {
+        // Extract extension
+        const match = file.path.match(/\.([^./]+)$/);
+        const ext = match ? match[1] : 'no-ext';
+
+        if (!stats[ext]) {
+          stats[ext] = { files: new Set(), lines: 0 };
+        }
+
+        stats[ext].files.add(file.path);
+        stats[ext].lines += file.added + file.deleted;
+      }
+    }
+
+    // Convert Sets to counts
+    const result: Record<string, { files: number; lines: number }> = {};
+    for (const [ext, data] of Object.entries(stats)) {
+      result[ext] = {
+        files: data.files.size,
+        lines: data.lines,
+      };
+    }
+
+    return result;
+  }
+
+  // ==========================================
+  // DORA Metrics
+  // ==========================================
+
+  /**
+   * Calculates the four DORA metrics (deployment frequency, lead time for changes,
+   * change failure rate and time to restore) for the deployments in a period.
+   * 
+   * Deployments come from release tags, merges into a release branch, or a
+   * deployments log. Each commit's lead time runs from its commit date to the
+   * first deployment containing it. A deployment failed if a later commit reverts
+   * one of its changes, if the next deployment merges a hotfix branch, if the log
+   * marks it as failed, or if an incident was reported against it.
+   * 
+   * @param range - Period to report on (deployments outside it are still used to attribute failures)
+   * @param options - Deployment source and patterns
+   * @param incidents - Problems reported against deployments by name (e.g. Jira bugs per release)
+   * @returns DORA metrics for the period
+   * @throws {Error} If the source is misconfigured or the deployments log can't be read
+   * @example
+   * ```typescript
+   * const dora = await metrics.getDoraMetrics({ since: '3 months ago' }, { source: 'tags', tagPattern: 'v*' });
+   * console.log(`${dora.deploymentFrequency.perWeek} deploys/week`);
+   * ```
+   */
+  async getDoraMetrics(
+    range: DateRange = {},
+    options: DoraOptions = {},
+    incidents: DeploymentIncident[] = []
+  ): Promise<DoraMetrics> {
+    const source = options.source ?? DORA.SOURCE;
+    const [deployments, bounds] = await Promise.all([
+      this.readDeployments(source, options),
+      this.index.resolveDateRange(range),
+    ]);
+    const records = await this.readDeployedChanges(
+      deployments,
+      globToRegExp(options.hotfixPattern || DORA.HOTFIX_PATTERN)
+    );
+
+    return calculateDoraMetrics(records, {
+      source,
+      since: bounds.maxAge,
+      until: bounds.minAge,
+      incidents,
+    });
+  }
+
+  /**
+   * Lists deployments from the configured source, oldest first.
+   * 
+   * @param source - Where to read deployments from
+   * @param options - Tag pattern, release branch or deployments log path
+   * @returns Deployed commits with their names and times (in seconds)
+   * @throws {Error} If the source is unknown or misconfigured
+   * @private
+   */
+  private async readDeployments(
+    source: DeploymentSource,
+    options: DoraOptions
+  ): Promise<Array<Pick<DeploymentRecord, 'name' | 'commit' | 'timestamp' | 'failedInLog'>>> {
+    const deployments: Array<Pick<DeploymentRecord, 'name' | 'commit' | 'timestamp' | 'failedInLog'>> = [];
+
+    if (source === 'tags') {
+      // The pattern is always under refs/tags/, so it can't be read as an option.
+      // Annotated tags are peeled to their commit and dated by the tagger.
+      await this.streamGit(
+        [
+          'for-each-ref', '--sort=creatordate',
+          '--format=%(refname:strip=2)%1f%(objecttype)%1f%(objectname)%1f%(*objecttype)%1f%(*objectname)%1f%(creatordate:unix)',
+          `refs/tags/${options.tagPattern || DORA.TAG_PATTERN}`,
+        ],
+        line => {
+          const [name, type, hash, peeledType, peeledHash, date] = line.split('\x1f');
+          if ((peeledType || type) !== 'commit') return;
+          deployments.push({ name, commit: peeledHash || hash, timestamp: parseInt(date, 10) });
+        }
+      );
+    } else if (source === 'branch') {
+      const branch = options.releaseBranch || DORA.RELEASE_BRANCH;
+      if (!isSafeRevision(branch)) {
+        throw new Error(`Invalid release branch: ${branch}`);
+      }
+      await this.streamGit(
+        ['log', '--first-parent', '--merges', '--reverse', '--format=%H%x1f%ct%x1f%s', '--end-of-options', branch, '--'],
+        line => {
+          const [hash, date, subject] = line.split('\x1f');
+          deployments.push({ name: subject, commit: hash, timestamp: parseInt(date, 10) });
+        }
+      );
+    } else if (source === 'file') {
+      if (!options.deploymentsFile) {
+        throw new Error('The file deployment source needs a deployments file');
+      }
+      const entries = parseDeploymentLog(await readFile(options.deploymentsFile, 'utf-8'));
+
+      // Resolve every revision in one call; unknown ones print "<rev> missing"
+      const valid = entries.filter(entry => isSafeRevision(entry.commit));
+      const resolved: string[] = [];
+      await this.streamGit(['cat-file', '--batch-check=%(objectname)'], line => resolved.push(line), {
+        input: valid.map(entry => `${entry.commit}^{commit}\n`).join(''),
+      });
+
+      valid.forEach((entry, i) => {
+        const hash = resolved[i];
+        // Skip deployments of commits this clone doesn't have
+        if (!hash || !/^[0-9a-f]{40,64}$/.test(hash)) return;
+        deployments.push({
+          name: entry.name || entry.commit,
+          commit: hash,
+          timestamp: Math.floor(new Date(entry.date).getTime() / 1000),
+          failedInLog: isFailedStatus(entry.status),
+        });
+      });
+      // Stable sort keeps the log order for deployments at the same time
+      deployments.sort((a, b) => a.timestamp - b.timestamp);
+    } else {
+      throw new Error(`Unknown deployment source: ${source}`);
+    }
+
+    return deployments;
+  }
+
+  /**
+   * Reads the commits each deployment shipped first: those reachable from it but
+   * from no earlier deployment. Records their commit dates, the commits they
+   * revert and the hotfix branches they merge.
+   * 
+   * @param deployments - Deployments, oldest first
+   * @param hotfixPattern - Hotfix branch pattern for merge subjects
+   * @returns Deployment records in the same order
+   * @private
+   */
+  private async readDeployedChanges(
+    deployments: Array<Pick<DeploymentRecord, 'name' | 'commit' | 'timestamp' | 'failedInLog'>>,
+    hotfixPattern: RegExp
+  ): Promise<DeploymentRecord[]> {
+    return Promise.all(deployments.map(async (deployment, i) => {
+      const record: DeploymentRecord = {
+        ...deployment,
+        commits: [],
+        changeTimestamps: [],
+        reverts: [],
+        hotfixes: [],
+      };
+      const earlier = new Set(deployments.slice(0, i).map(d => d.commit));
+      // A redeploy of an earlier commit ships nothing new
+      if (earlier.has(deployment.commit)) return record;
+
+      const onLine = (line: string) => {
+        if (line.startsWith('\0')) {
+          const [hash, parents, date, subject] = line.substring(1).split('\x1f');
+          record.commits.push(hash);
+          if (parents.includes(' ')) {
+            const hotfix = hotfixBranchFromSubject(subject, hotfixPattern);
+            if (hotfix) record.hotfixes.push(hotfix);
+          } else {
+            record.changeTimestamps.push(parseInt(date, 10));
+          }
+          return;
+        }
+        const reverted = parseRevertedCommit(line);
+        if (reverted) record.reverts.push(reverted);
+      };
+
+      // %x00 marks commit headers so they can't be confused with message body lines
+      await this.streamGit(
+        ['log', '--stdin', '--format=%x00%H%x1f%P%x1f%ct%x1f%s%n%b', '--'],
+        onLine,
+        { input: [deployment.commit, ...Array.from(earlier, hash => `^${hash}`)].join('\n') + '\n' }
+      );
+      return record;
+    }));
+  }
+
+  // ==========================================
+  // Issue Links
+  // ==========================================
+
+  /**
+   * Lists the issue keys referenced by commits matching the filters,
+   * so they can be fetched from a tracker and passed to {@link getIssueLinks}.
+   * 
+   * @param options - Filter options to narrow down the commits
+   * @param projects - Only keep keys of these projects or teams
+   * @returns Unique keys, sorted
+   * @example
+   * ```typescript
+   * const keys = await metrics.getIssueKeys({ since: '1 month ago' }, ['ABC']);
+   * // ['ABC-12', 'ABC-7']
+   * ```
+   */
+  async getIssueKeys(options: FilterOptions = {}, projects?: string[]): Promise<string[]> {
+    const { commits, keysByCommit } = await this.readIssueLinks(options, projects);
+    return [...new Set(commits.flatMap(commit => keysByCommit.get(commit.hash) ?? []))].sort();
+  }
+
+  /**
+   * Joins commits with the Jira or Linear issues they reference, reporting per
+   * issue the commits, lines changed, coding time (first to last commit) and
+   * waiting time (last commit to done), plus the share of unlinked commits.
+   * 
+   * Keys are read from commit subjects, from the branch named by the merge that
+   * brought a commit onto the branch analyzed, and from the names of unmerged
+   * local and remote branches (included unless `branch`/`branches` is given).
+   * 
+   * @param options - Filter options to narrow down the commits
+   * @param links - Project keys to keep, and the tracker and issues fetched for {@link getIssueKeys}
+   * @returns Issue link metrics
+   * @example
+   * ```typescript
+   * const keys = await metrics.getIssueKeys({ since: '1 month ago' });
+   * const issues = await fetchIssues(keys);
+   * const links = await metrics.getIssueLinks({ since: '1 month ago' }, { tracker: 'jira', issues });
+   * ```
+   */
+  async getIssueLinks(
+    options: FilterOptions = {},
+    links: { projects?: string[]; tracker?: IssueTracker | null; issues?: TrackedIssue[] } = {}
+  ): Promise<IssueLinkMetrics> {
+    const { commits, keysByCommit } = await this.readIssueLinks(options, links.projects);
+    return calculateIssueLinks(commits, keysByCommit, { tracker: links.tracker ?? null, issues: links.issues });
+  }
+
+  /**
+   * Reads the commits matching the filters and the issue keys each references.
+   * 
+   * @param options - Filter options to narrow down the commits
+   * @param projects - Only keep keys of these projects or teams
+   * @returns Non-merge commits in scope and keys per commit hash
+   * @private
+   */
+  private async readIssueLinks(
+    options: FilterOptions,
+    projects?: string[]
+  ): Promise<{ commits: IndexedCommit[]; keysByCommit: Map<string, string[]> }> {
+    const explicit = options.branches?.length ? options.branches : options.branch ? [options.branch] : null;
+    const mainline = explicit?.[0] ?? 'HEAD';
+    if (!isSafeRevision(mainline)) return { commits: [], keysByCommit: new Map() };
+
+    const [tip, heads] = await Promise.all([
+      this.git(['rev-parse', '--verify', '--quiet', `${mainline}^{commit}`]).catch(() => ''),
+      explicit ? Promise.resolve<BranchHead[]>([]) : this.readIssueBranches(projects),
+    ]);
+    if (!tip) return { commits: [], keysByCommit: new Map() };
+
+    const branches = heads.filter(head => head.tip !== tip);
+    const tips = [...(explicit ?? [tip]), ...branches.map(head => head.tip)];
+    const [all, commits] = await Promise.all([
+      this.index.query({ branches: tips, includeMerges: true }),
+      this.index.query({ ...options, branch: undefined, branches: tips, includeMerges: false }),
+    ]);
+
+    return { commits, keysByCommit: linkCommitsToIssues(all, tip, branches, projects) };
+  }
+
+  /**
+   * Lists local and remote branches whose names reference issues.
+   * 
+   * @param projects - Only keep branches with keys of these projects or teams
+   * @returns Branch names and the commits they point to
+   * @private
+   */
+  private async readIssueBranches(projects?: string[]): Promise<BranchHead[]> {
+    const heads: BranchHead[] = [];
+    await this.streamGit(
+      ['for-each-ref', '--format=%(refname:short)%1f%(objectname)%1f%(objecttype)', 'refs/heads/', 'refs/remotes/'],
+      line => {
+        const [name, tip, type] = line.split('\x1f');
+        if (type !== 'commit') return;
+        if (extractIssueKeys(name, { projects, ignoreCase: true }).length) heads.push({ name, tip });
+      }
+    );
+    return heads;
+  }
+
+  // ==========================================
+  // Merge History
+  // ==========================================
+
+  /**
+   * Derives review-like signals from the merges into a branch, for repositories
+   * without access to their platform's API: branch lifetime (first commit to
+   * merge), merge size, merges per author and who merged whose work. Finds
+   * merge commits and squash merges referencing a pull or merge request
+   * (GitHub "(#123)", GitLab "See merge request", Bitbucket, Azure Repos).
+   * 
+   * @param options - Mainline (`branch`, default HEAD), period of the merges and author of the merged work
+   * @returns Merge statistics
+   * @example
+   * ```typescript
+   * const stats = await metrics.getMergeStats({ branch: 'main', since: '3 months ago' });
+   * console.log(`${stats.totalMerges} merges, median lifetime ${stats.lifetime?.medianHours}h`);
+   * ```
+   */
+  async getMergeStats(options: FilterOptions = {}): Promise<MergeStats> {
+    const mainline = options.branch ?? 'HEAD';
+    const empty = calculateMergeStats([], '', new Map(), { branch: options.branch });
+    if (!isSafeRevision(mainline)) return empty;
+
+    const [tip, name, bounds] = await Promise.all([
+      this.git(['rev-parse', '--verify', '--quiet', `${mainline}^{commit}`]).catch(() => ''),
+      options.branch ? Promise.resolve(options.branch) : this.git(['symbolic-ref', '--short', '-q', 'HEAD']).catch(() => ''),
+      this.index.resolveDateRange(options),
+    ]);
+    if (!tip) return empty;
+
+    const [commits, messages] = await Promise.all([
+      this.index.query({ branches: [tip], includeMerges: true }),
+      this.readMergeMessages(tip),
+    ]);
+    return calculateMergeStats(commits, tip, messages, {
+      branch: name || undefined,
+      since: bounds.maxAge,
+      until: bounds.minAge,
+      author: options.author,
+    });
+  }
+
+  /**
+   * Reads the committers and message bodies of a mainline's commits, which
+   * the commit index doesn't keep.
+   * 
+   * @param tip - Commit whose first-parent history is the mainline
+   * @returns Committer and body per commit hash
+   * @private
+   */
+  private async readMergeMessages(tip: string): Promise<Map<string, MergeMessage>> {
+    const messages = new Map<string, MergeMessage>();
+    let current: MergeMessage | null = null;
+
+    // %x00 marks commit headers so they can't be confused with message body lines
+    await this.streamGit(
+      ['log', '--first-parent', '--format=%x00%H%x1f%cN%x1f%cE%n%b', tip, '--'],
+      line => {
+        if (line.startsWith('\0')) {
+          const [hash, committer, committerEmail] = line.substring(1).split('\x1f');
+          current = { committer, committerEmail, body: '' };
+          messages.set(hash, current);
+        } else if (current) {
+          current.body += current.body ? `\n${line}` : line;
+        }
+      }
+    );
+    return messages;
   }
 }
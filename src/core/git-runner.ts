@@ -0,0 +1,265 @@
+// ============================================
+// Git Runner - Async, streaming git execution
+// ============================================
+
+import { spawn } from 'child_process';
+import { createInterface } from 'readline';
+import { GitError } from '../utils/errors';
+import { PERFORMANCE } from '../config/constants';
+
+/**
+ * Options for running a git command.
+ */
+export interface GitRunOptions {
+  /** Directory to run git in (the repository) */
+  cwd: string;
+  /** Cancels the command; the git process is killed and the promise rejects */
+  signal?: AbortSignal;
+  /** Kills the command after this many milliseconds (0 disables, default: PERFORMANCE.GIT_TIMEOUT_MS) */
+  timeoutMs?: number;
+  /** Data written to the command's stdin */
+  input?: string;
+}
+
+/** Cap on captured stderr so a chatty failure can't grow memory unbounded */
+const MAX_STDERR_LENGTH = 64 * 1024;
+
+// ==========================================
+// Concurrency Limit
+// ==========================================
+
+let activeCommands = 0;
+const waiting: Array<() => void> = [];
+
+/**
+ * Waits for a free slot among the concurrently running git processes.
+ */
+async function acquireSlot(): Promise<void> {
+  if (activeCommands < PERFORMANCE.GIT_CONCURRENCY) {
+    activeCommands++;
+    return;
+  }
+  // The releasing command hands its slot over directly
+  await new Promise<void>(resolve => waiting.push(resolve));
+}
+
+/**
+ * Frees a slot, handing it to the next waiting command if there is one.
+ */
+function releaseSlot(): void {
+  const next = waiting.shift();
+  if (next) {
+    next();
+  } else {
+    activeCommands--;
+  }
+}
+
+// ==========================================
+// Running Commands
+// ==========================================
+
+/**
+ * Runs git and calls `onLine` for each line of stdout as it arrives, so large
+ * outputs (e.g. `git log --numstat` on a big history) are parsed with bounded
+ * memory. Arguments are passed straight to git; no shell is involved.
+ *
+ * At most PERFORMANCE.GIT_CONCURRENCY git processes run at once; extra
+ * commands wait for a free slot.
+ *
+ * @param args - Arguments to git (e.g. ['log', '--format=%H'])
+ * @param onLine - Called for each stdout line (without the newline); throwing stops the command
+ * @param options - Working directory, cancellation, timeout and stdin
+ * @throws {GitError} If git exits non-zero, times out, is cancelled, or can't be started
+ * @example
+ * ```typescript
+ * let count = 0;
+ * await streamGit(['log', '--format=%H'], () => count++, { cwd: '/path/to/repo' });
+ * ```
+ */
+export async function streamGit(
+  args: string[],
+  onLine: (line: string) => void,
+  options: GitRunOptions
+): Promise<void> {
+  const command = `git ${args.join(' ')}`;
+  if (options.signal?.aborted) {
+    throw new GitError(`Git command cancelled: ${command}`, command);
+  }
+
+  await acquireSlot();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const child = spawn('git', args, {
+        cwd: options.cwd,
+        stdio: ['pipe', 'pipe', 'pipe'],
+        windowsHide: true,
+      });
+
+      let stderr = '';
+      let failure: Error | null = null;
+      let exitCode: number | null = null;
+      let pending = 2; // child exit + stdout fully read
+
+      const lines = createInterface({ input: child.stdout, crlfDelay: Infinity });
+
+      const fail = (error: Error) => {
+        if (failure) return;
+        failure = error;
+        child.kill();
+        // Don't wait for output from processes git spawned (e.g. hooks or aliases) that outlive it
+        lines.close();
+        child.stdout.destroy();
+        child.stderr.destroy();
+      };
+
+      const timeoutMs = options.timeoutMs ?? PERFORMANCE.GIT_TIMEOUT_MS;
+      const timer = timeoutMs > 0
+        ? setTimeout(() => fail(new GitError(`Git command timed out after ${timeoutMs}ms: ${command}`, command)), timeoutMs)
+        : null;
+
+      const onAbort = () => fail(new GitError(`Git command cancelled: ${command}`, command));
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      const finish = () => {
+        if (--pending > 0) return;
+        if (timer) clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+
+        if (failure) {
+          reject(failure);
+        } else if (exitCode !== 0) {
+          reject(new GitError(stderr.trim() || `Git exited with code ${exitCode}: ${command}`, command, exitCode ?? undefined));
+        } else {
+          resolve();
+        }
+      };
+
+      lines.on('line', line => {
+        if (failure) return;
+        try {
+          onLine(line);
+        } catch (error: unknown) {
+          fail(error instanceof Error ? error : new Error(String(error)));
+        }
+      });
+      lines.on('close', finish);
+
+      child.stderr.on('data', (chunk: Buffer) => {
+        if (stderr.length < MAX_STDERR_LENGTH) stderr += chunk.toString();
+      });
+
+      child.on('error', error => {
+        fail(new GitError(`Failed to run git: ${error.message}`, command));
+      });
+      child.on('close', code => {
+        exitCode = code;
+        finish();
+      });
+
+      // git may exit before reading all of stdin (EPIPE); its exit code tells the story
+      child.stdin.on('error', () => {});
+      child.stdin.end(options.input);
+    });
+  } finally {
+    releaseSlot();
+  }
+}
+
+/**
+ * Runs git and returns its trimmed stdout.
+ * Use for commands with small output; prefer {@link streamGit} for logs.
+ *
+ * @param args - Arguments to git (e.g. ['rev-parse', 'HEAD'])
+ * @param options - Working directory, cancellation, timeout and stdin
+ * @returns The trimmed output of the command
+ * @throws {GitError} If git exits non-zero, times out, is cancelled, or can't be started
+ * @example
+ * ```typescript
+ * const branch = await runGit(['branch', '--show-current'], { cwd: '.' });
+ * ```
+ */
+export async function runGit(args: string[], options: GitRunOptions): Promise<string> {
+  const lines: string[] = [];
+  await streamGit(args, line => lines.push(line), options);
+  return lines.join('\n').trim();
+}
+
+/**
+ * Checks whether a user-supplied revision (branch, tag, commit) can be passed to
+ * git as a positional argument. Values starting with `-` would be parsed as
+ * options (e.g. `--output=<file>`), and line breaks would split `--stdin` input;
+ * no valid ref name contains either.
+ *
+ * @param rev - Revision as given by the user or config
+ * @returns True if it's safe to pass to git
+ * @example
+ * ```typescript
+ * isSafeRevision('origin/main');    // true
+ * isSafeRevision('--output=/tmp/x'); // false
+ * ```
+ */
+export function isSafeRevision(rev: string): boolean {
+  return rev.length > 0 && !rev.startsWith('-') && !/[\0\r\n]/.test(rev);
+}
+
+/**
+ * Host and repository path of a git remote.
+ */
+export interface GitRemote {
+  /** Host name, without user or port (e.g. "github.com") */
+  host: string;
+  /** Repository path without the ".git" suffix (e.g. "owner/repo") */
+  path: string;
+}
+
+/**
+ * Parses a remote URL in any form git accepts: HTTPS, SSH URLs and the scp-like
+ * `git@host:path` syntax.
+ *
+ * @param url - Remote URL (e.g. from `git remote get-url origin`)
+ * @returns Host and path, or null for local paths and unparseable URLs
+ * @example
+ * ```typescript
+ * parseRemoteUrl('git@github.com:acme/api.git'); // { host: 'github.com', path: 'acme/api' }
+ * ```
+ */
+export function parseRemoteUrl(url: string): GitRemote | null {
+  const trimmed = url.trim();
+  let host: string;
+  let path: string;
+
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)) {
+    let parsed: URL;
+    try {
+      parsed = new URL(trimmed);
+    } catch {
+      return null;
+    }
+    if (parsed.protocol === 'file:') return null;
+    host = parsed.hostname;
+    path = decodeURIComponent(parsed.pathname);
+  } else {
+    const scp = trimmed.match(/^(?:[^@/]+@)?([^:/]+):(.+)$/);
+    if (!scp) return null;
+    [, host, path] = scp;
+  }
+
+  path = path.replace(/^\/+|\/+$/g, '').replace(/\.git$/, '');
+  return host && path ? { host: host.toLowerCase(), path } : null;
+}
+
+/**
+ * Reads and parses the URL of a repository's remote.
+ *
+ * @param repoPath - Repository path
+ * @param remote - Remote name (default: origin)
+ * @returns Host and path, or null without such a remote or for a local one
+ */
+export async function getRemote(repoPath: string, remote: string = 'origin'): Promise<GitRemote | null> {
+  try {
+    return parseRemoteUrl(await runGit(['remote', 'get-url', remote], { cwd: repoPath }));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,189 @@
+// ============================================
+// Hotspots - Change frequency against size and complexity
+// ============================================
+
+import {
+  ComplexityTrend, ComplexityTrendPoint, DirectoryHotspot, FileHotspot, FileStats, IndentationComplexity,
+} from '../types';
+import { round } from '../utils/metrics-calculations';
+
+/** Columns a tab counts for */
+const TAB_WIDTH = 4;
+
+/** Share of the first total complexity a trend has to move to rise or fall */
+const TREND_THRESHOLD = 0.1;
+
+// ==========================================
+// Complexity
+// ==========================================
+
+/**
+ * Measures a line's leading whitespace in columns, tabs counting as four.
+ *
+ * @param line - Line of a file, without the line break
+ * @returns Indentation in columns, or null for a blank line
+ * @example
+ * ```typescript
+ * indentationOf('    return x;'); // 4
+ * indentationOf('\t\tif (a) {'); // 8
+ * indentationOf('   '); // null
+ * ```
+ */
+export function indentationOf(line: string): number | null {
+  let columns = 0;
+  for (const char of line) {
+    if (char === ' ') columns++;
+    else if (char === '\t') columns += TAB_WIDTH;
+    else return columns;
+  }
+  return null;
+}
+
+/**
+ * Turns the indentation of a file's non-blank lines into complexity: each
+ * line counts its nesting level, so deeply nested code weighs more than the
+ * same number of flat lines. Files indented by two spaces (at least 10% of
+ * their even indents not being multiples of four) count a level per two
+ * columns, others per four; odd indents such as comment continuations count
+ * in fractions.
+ *
+ * @param indents - Indentation in columns of each non-blank line
+ * @returns Size and complexity of the file
+ * @example
+ * ```typescript
+ * const indents = content.split('\n').map(indentationOf).filter((i): i is number => i !== null);
+ * measureComplexity(indents); // { lines: 120, total: 164, mean: 1.37, max: 5 }
+ * ```
+ */
+export function measureComplexity(indents: number[]): IndentationComplexity {
+  const even = indents.filter(columns => columns > 0 && columns % 2 === 0);
+  const unit = even.length && even.filter(columns => columns % 4 !== 0).length / even.length >= 0.1 ? 2 : 4;
+
+  let total = 0;
+  let max = 0;
+  for (const columns of indents) {
+    total += columns / unit;
+    max = Math.max(max, columns / unit);
+  }
+  return {
+    lines: indents.length,
+    total: round(total, 1),
+    mean: indents.length ? round(total / indents.length, 2) : 0,
+    max: round(max, 1),
+  };
+}
+
+// ==========================================
+// Ranking
+// ==========================================
+
+/**
+ * Ranks files changed in a period by how often they changed times how much
+ * code they hold: change count, non-blank lines and indentation complexity
+ * are each scaled to the largest in the repository, and the score is the
+ * change share times the average of the size and complexity shares, scaled
+ * so the riskiest file scores 100. Directories sum the scores of the files
+ * directly in them.
+ *
+ * @param files - Change statistics of the files changed in the period
+ * @param complexity - Current complexity per path; files without one (deleted or binary) are left out
+ * @param limit - Files and directories to return (default: 20)
+ * @returns Riskiest files and directories first
+ * @example
+ * ```typescript
+ * const { files, directories } = rankHotspots(await metrics.getFileStats(options, Infinity), complexity);
+ * ```
+ */
+export function rankHotspots(
+  files: FileStats[],
+  complexity: Map<string, IndentationComplexity>,
+  limit: number = 20
+): { analyzedFiles: number; files: FileHotspot[]; directories: DirectoryHotspot[] } {
+  const measured = files.flatMap(file => {
+    const current = complexity.get(file.path);
+    return current && current.lines > 0 ? [{ file, current }] : [];
+  });
+
+  // Reduced rather than spread into Math.max, which overflows the stack on large repositories
+  const maxChanges = measured.reduce((max, { file }) => Math.max(max, file.changes), 1);
+  const maxLines = measured.reduce((max, { current }) => Math.max(max, current.lines), 1);
+  const maxTotal = measured.reduce((max, { current }) => Math.max(max, current.total), 1);
+  const raw = measured.map(({ file, current }) =>
+    (file.changes / maxChanges) * (current.lines / maxLines + current.total / maxTotal) / 2
+  );
+  const maxRaw = raw.reduce((max, score) => Math.max(max, score), 0) || 1;
+
+  const hotspots: FileHotspot[] = measured.map(({ file, current }, i) => ({
+    path: file.path,
+    changes: file.changes,
+    authors: file.authors.length,
+    linesAdded: file.linesAdded,
+    linesDeleted: file.linesDeleted,
+    complexity: current,
+    score: round((raw[i] / maxRaw) * 100, 1),
+  }));
+  hotspots.sort((a, b) => b.score - a.score || b.changes - a.changes || a.path.localeCompare(b.path));
+
+  const byDirectory = new Map<string, DirectoryHotspot>();
+  for (const hotspot of hotspots) {
+    const slash = hotspot.path.lastIndexOf('/');
+    const path = slash === -1 ? '.' : hotspot.path.substring(0, slash);
+    let directory = byDirectory.get(path);
+    if (!directory) {
+      directory = { path, files: 0, changes: 0, lines: 0, complexity: 0, score: 0 };
+      byDirectory.set(path, directory);
+    }
+    directory.files++;
+    directory.changes += hotspot.changes;
+    directory.lines += hotspot.complexity.lines;
+    directory.complexity += hotspot.complexity.total;
+    directory.score += hotspot.score;
+  }
+  const directories = [...byDirectory.values()]
+    .map(directory => ({ ...directory, complexity: round(directory.complexity, 1), score: round(directory.score, 1) }))
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+
+  return {
+    analyzedFiles: hotspots.length,
+    files: hotspots.slice(0, limit),
+    directories: directories.slice(0, limit),
+  };
+}
+
+// ==========================================
+// Trends
+// ==========================================
+
+/**
+ * Picks at most `max` items spread evenly over a list, keeping the first and
+ * the last.
+ *
+ * @param items - Items in order
+ * @param max - Items to keep (at least 2)
+ * @returns The picked items, in order
+ */
+export function sampleEvenly<T>(items: T[], max: number): T[] {
+  if (items.length <= max) return items;
+  const step = (items.length - 1) / (max - 1);
+  return Array.from({ length: max }, (_, i) => items[Math.round(i * step)]);
+}
+
+/**
+ * Summarizes how a file's complexity moved over its sampled changes.
+ *
+ * @param path - File path
+ * @param points - Complexity after each sampled change, oldest first
+ * @returns The trend, rising or falling when the total moved more than 10%
+ */
+export function getComplexityTrend(path: string, points: ComplexityTrendPoint[]): ComplexityTrend {
+  if (points.length < 2) return { path, points, direction: null, changePercent: null };
+
+  const first = points[0].total;
+  const last = points[points.length - 1].total;
+  const change = first > 0 ? (last - first) / first : last > 0 ? 1 : 0;
+  let direction: ComplexityTrend['direction'] = 'stable';
+  if (change > TREND_THRESHOLD) direction = 'rising';
+  else if (change < -TREND_THRESHOLD) direction = 'falling';
+
+  return { path, points, direction, changePercent: round(change * 100, 1) };
+}
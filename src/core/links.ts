@@ -0,0 +1,253 @@
+// ============================================
+// Issue Links - Joins commits with Jira/Linear issues
+// ============================================
+
+import { IndexedCommit } from './commit-index';
+import { mergedBranchFromSubject } from './dora';
+import { DurationSummary, IssueLink, IssueLinkMetrics, IssueTracker, TrackedIssue } from '../types';
+import { avg, median, round } from '../utils/metrics-calculations';
+
+/**
+ * Issue keys as Jira and Linear write them: a project or team key, a dash and
+ * a number ("ABC-123", "ENG-42"), not glued to surrounding letters or digits.
+ */
+const ISSUE_KEY_PATTERN = /(?<![A-Za-z0-9])([A-Za-z][A-Za-z0-9]*)-([1-9]\d*)(?![A-Za-z0-9])/g;
+
+const SECONDS_PER_HOUR = 60 * 60;
+
+/**
+ * A local branch whose name may reference issues.
+ */
+export interface BranchHead {
+  /** Branch name */
+  name: string;
+  /** Commit the branch points to */
+  tip: string;
+}
+
+// ==========================================
+// Key Extraction
+// ==========================================
+
+/**
+ * Extracts issue keys from a commit subject or branch name.
+ *
+ * Keys must be uppercase unless `ignoreCase` is set, so "utf-8" in a commit
+ * message isn't mistaken for an issue; branch names are conventionally
+ * lowercase ("eng-42-fix-login") and are matched with `ignoreCase`.
+ *
+ * @param text - Commit subject or branch name
+ * @param options - Extraction options
+ * @param options.projects - Only keep keys of these projects or teams (case-insensitive)
+ * @param options.ignoreCase - Also match lowercase keys
+ * @returns Unique keys in uppercase, in order of appearance
+ * @example
+ * ```typescript
+ * extractIssueKeys('ABC-12: fix login (see ABC-7)'); // ['ABC-12', 'ABC-7']
+ * extractIssueKeys('feature/eng-42-login', { ignoreCase: true }); // ['ENG-42']
+ * ```
+ */
+export function extractIssueKeys(
+  text: string,
+  options: { projects?: string[]; ignoreCase?: boolean } = {}
+): string[] {
+  const projects = options.projects?.length ? new Set(options.projects.map(p => p.toUpperCase())) : null;
+  const keys: string[] = [];
+
+  for (const match of text.matchAll(ISSUE_KEY_PATTERN)) {
+    const project = match[1].toUpperCase();
+    if (projects ? !projects.has(project) : !options.ignoreCase && match[1] !== project) continue;
+    const key = `${project}-${match[2]}`;
+    if (!keys.includes(key)) keys.push(key);
+  }
+
+  return keys;
+}
+
+// ==========================================
+// Linking
+// ==========================================
+
+/**
+ * Finds the issues each commit references.
+ *
+ * A commit references the keys in its own subject. Commits without keys inherit
+ * them from their branch: the branch named in the subject of the merge that
+ * brought them onto the mainline (the first-parent history of `tip`), or the
+ * name of an unmerged local branch they're on. Mainline commits never inherit.
+ *
+ * @param commits - Indexed commits, merges included, covering `tip` and `branches`
+ * @param tip - Commit whose first-parent history is the mainline
+ * @param branches - Unmerged local branches (their commits must be in `commits`)
+ * @param projects - Only keep keys of these projects or teams
+ * @returns Keys per commit hash, for commits that reference at least one issue
+ */
+export function linkCommitsToIssues(
+  commits: IndexedCommit[],
+  tip: string,
+  branches: BranchHead[] = [],
+  projects?: string[]
+): Map<string, string[]> {
+  const byHash = new Map(commits.map(commit => [commit.hash, commit]));
+  const keysByCommit = new Map<string, string[]>();
+
+  for (const commit of commits) {
+    const keys = extractIssueKeys(commit.subject, { projects });
+    if (keys.length) keysByCommit.set(commit.hash, keys);
+  }
+
+  // Mainline, newest first
+  const mainline: IndexedCommit[] = [];
+  const onMainline = new Set<string>();
+  for (let commit = byHash.get(tip); commit && !onMainline.has(commit.hash); commit = byHash.get(commit.parents[0])) {
+    mainline.push(commit);
+    onMainline.add(commit.hash);
+  }
+
+  // Each side commit belongs to the first branch (oldest merge first) that reaches it
+  const claimed = new Set<string>();
+  const claim = (from: string[], keys: string[]) => {
+    const stack = [...from];
+    while (stack.length > 0) {
+      const hash = stack.pop()!;
+      if (onMainline.has(hash) || claimed.has(hash)) continue;
+      const commit = byHash.get(hash);
+      if (!commit) continue;
+      claimed.add(hash);
+      if (keys.length && !keysByCommit.has(hash)) keysByCommit.set(hash, keys);
+      stack.push(...commit.parents);
+    }
+  };
+
+  for (const merge of [...mainline].reverse()) {
+    if (merge.parents.length < 2) continue;
+    const branch = mergedBranchFromSubject(merge.subject);
+    const keys = [...new Set([
+      ...(keysByCommit.get(merge.hash) ?? []),
+      ...(branch ? extractIssueKeys(branch, { projects, ignoreCase: true }) : []),
+    ])];
+    claim(merge.parents.slice(1), keys);
+  }
+
+  for (const branch of branches) {
+    claim([branch.tip], extractIssueKeys(branch.name, { projects, ignoreCase: true }));
+  }
+
+  return keysByCommit;
+}
+
+// ==========================================
+// Calculation
+// ==========================================
+
+/**
+ * Summarizes durations in hours (avg/median, one decimal).
+ *
+ * @private
+ */
+function summarizeHours(hours: number[]): DurationSummary | null {
+  if (!hours.length) return null;
+  return {
+    avgHours: round(avg(hours), 1),
+    medianHours: round(median(hours), 1),
+    count: hours.length,
+  };
+}
+
+/**
+ * Joins commits with the issues they reference.
+ *
+ * When issues were fetched from a tracker, only keys it knows count as links;
+ * the rest are reported as unknown. Without a tracker every key counts, but
+ * nothing is done, so only coding time is measured. A commit referencing
+ * several issues counts towards each of them.
+ *
+ * @param commits - Non-merge commits to analyze
+ * @param keysByCommit - Keys per commit hash, see {@link linkCommitsToIssues}
+ * @param options - Tracker and the issues fetched from it
+ * @returns Per-issue activity and the share of unlinked commits
+ * @example
+ * ```typescript
+ * const links = calculateIssueLinks(commits, keysByCommit, { tracker: 'jira', issues });
+ * console.log(links.unlinkedRate, links.waitingTime?.medianHours);
+ * ```
+ */
+export function calculateIssueLinks(
+  commits: IndexedCommit[],
+  keysByCommit: Map<string, string[]>,
+  options: { tracker: IssueTracker | null; issues?: TrackedIssue[] } = { tracker: null }
+): IssueLinkMetrics {
+  const known = options.tracker
+    ? new Map((options.issues ?? []).map(issue => [issue.key.toUpperCase(), issue]))
+    : null;
+  const unknownKeys = new Set<string>();
+  const byKey = new Map<string, IndexedCommit[]>();
+  let linkedCommits = 0;
+
+  for (const commit of commits) {
+    const keys = (keysByCommit.get(commit.hash) ?? []).filter(key => {
+      if (!known || known.has(key)) return true;
+      unknownKeys.add(key);
+      return false;
+    });
+    if (!keys.length) continue;
+
+    linkedCommits++;
+    for (const key of keys) {
+      const linked = byKey.get(key);
+      if (linked) linked.push(commit);
+      else byKey.set(key, [commit]);
+    }
+  }
+
+  const issues: IssueLink[] = [];
+  for (const [key, linked] of byKey) {
+    const issue = known?.get(key);
+    const times = linked.map(commit => commit.commitTime);
+    const first = Math.min(...times);
+    const last = Math.max(...times);
+    const done = issue?.doneAt ? Math.floor(new Date(issue.doneAt).getTime() / 1000) : NaN;
+    const isDone = !isNaN(done);
+
+    let linesAdded = 0;
+    let linesDeleted = 0;
+    for (const commit of linked) {
+      for (const file of commit.files) {
+        linesAdded += file.added;
+        linesDeleted += file.deleted;
+      }
+    }
+
+    issues.push({
+      key,
+      title: issue?.title ?? '',
+      status: issue?.status ?? '',
+      commits: linked.length,
+      linesAdded,
+      linesDeleted,
+      firstCommit: new Date(first * 1000).toISOString(),
+      lastCommit: new Date(last * 1000).toISOString(),
+      doneAt: isDone ? new Date(done * 1000).toISOString() : null,
+      codingHours: round((last - first) / SECONDS_PER_HOUR, 1),
+      // Commits after the issue was closed (follow-up fixes) don't make waiting time negative
+      waitingHours: isDone ? round(Math.max(0, done - last) / SECONDS_PER_HOUR, 1) : null,
+      firstCommitToDoneHours: isDone ? round(Math.max(0, done - first) / SECONDS_PER_HOUR, 1) : null,
+    });
+  }
+
+  issues.sort((a, b) => b.commits - a.commits || a.key.localeCompare(b.key));
+  const done = issues.filter(issue => issue.doneAt !== null);
+
+  return {
+    tracker: options.tracker,
+    totalCommits: commits.length,
+    linkedCommits,
+    unlinkedCommits: commits.length - linkedCommits,
+    unlinkedRate: commits.length ? round((commits.length - linkedCommits) / commits.length, 2) : 0,
+    unknownKeys: [...unknownKeys].sort(),
+    codingTime: summarizeHours(issues.map(issue => issue.codingHours)),
+    waitingTime: summarizeHours(done.map(issue => issue.waitingHours!)),
+    firstCommitToDone: summarizeHours(done.map(issue => issue.firstCommitToDoneHours!)),
+    issues,
+  };
+}
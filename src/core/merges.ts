@@ -0,0 +1,242 @@
+// ============================================
+// Merge History - Review signals from merges alone
+// ============================================
+
+import { IndexedCommit, compileAuthorPattern } from './commit-index';
+import { mergedBranchFromSubject } from './dora';
+import { MergeAuthorStats, MergedBranch, MergeStats } from '../types';
+import { avg, median, round } from '../utils/metrics-calculations';
+
+const SECONDS_PER_HOUR = 60 * 60;
+
+/**
+ * Pull and merge request references as each platform writes them into merge
+ * and squash commit messages.
+ */
+const PULL_REQUEST_PATTERNS: Array<{ pattern: RegExp; in: 'subject' | 'body' }> = [
+  // GitHub merge commit
+  { pattern: /^Merge pull request #(\d+) from /, in: 'subject' },
+  // GitHub squash merge
+  { pattern: /\(#(\d+)\)$/, in: 'subject' },
+  // GitLab merge commit or squash with the default template
+  { pattern: /^See merge request \S+!(\d+)$/m, in: 'body' },
+  // Bitbucket
+  { pattern: /^Merged in \S+ \(pull request #(\d+)\)/, in: 'subject' },
+  // Azure Repos
+  { pattern: /^Merged PR (\d+):/, in: 'subject' },
+];
+
+/** Committer of commits made in the GitHub web UI, which hides who merged */
+const GITHUB_WEB_COMMITTER = 'noreply@github.com';
+
+/**
+ * What the commit index doesn't keep about a mainline commit.
+ */
+export interface MergeMessage {
+  /** Committer name (mailmap applied) */
+  committer: string;
+  /** Committer email (mailmap applied) */
+  committerEmail: string;
+  /** Message body, without the subject */
+  body: string;
+}
+
+// ==========================================
+// Parsing
+// ==========================================
+
+/**
+ * Finds the pull or merge request a merge or squash commit message references.
+ *
+ * @param subject - Commit subject
+ * @param body - Commit message body
+ * @returns The request number, or null if the message references none
+ * @example
+ * ```typescript
+ * findPullRequest('Add login (#123)', ''); // 123
+ * findPullRequest("Merge branch 'login' into 'main'", 'See merge request acme/api!45'); // 45
+ * ```
+ */
+export function findPullRequest(subject: string, body: string = ''): number | null {
+  for (const { pattern, in: part } of PULL_REQUEST_PATTERNS) {
+    const match = (part === 'subject' ? subject.trim() : body).match(pattern);
+    if (match) return parseInt(match[1], 10);
+  }
+  return null;
+}
+
+// ==========================================
+// Calculation
+// ==========================================
+
+/**
+ * Picks the author of most commits, the earliest one on a tie.
+ *
+ * @private
+ */
+function mainAuthor(commits: IndexedCommit[]): IndexedCommit {
+  const counts = new Map<string, number>();
+  for (const commit of commits) counts.set(commit.author, (counts.get(commit.author) ?? 0) + 1);
+  return [...commits]
+    .sort((a, b) => new Date(a.authorDate).getTime() - new Date(b.authorDate).getTime())
+    .reduce((best, commit) => counts.get(commit.author)! > counts.get(best.author)! ? commit : best);
+}
+
+/**
+ * Summarizes one author's merges.
+ *
+ * @private
+ */
+function summarizeAuthor(author: string, merges: MergedBranch[]): MergeAuthorStats {
+  const lifetimes = merges.flatMap(merge => merge.lifetimeHours ?? []);
+  const mergers = new Map<string, number>();
+  for (const merge of merges) {
+    if (merge.mergedBy) mergers.set(merge.mergedBy, (mergers.get(merge.mergedBy) ?? 0) + 1);
+  }
+
+  return {
+    author,
+    merges: merges.length,
+    medianLifetimeHours: lifetimes.length ? round(median(lifetimes), 1) : null,
+    medianLines: median(merges.map(merge => merge.linesAdded + merge.linesDeleted)),
+    mergedBy: [...mergers]
+      .map(([name, count]) => ({ name, merges: count }))
+      .sort((a, b) => b.merges - a.merges || a.name.localeCompare(b.name)),
+  };
+}
+
+/**
+ * Finds the branches merged into the mainline and measures them.
+ *
+ * Mainline merge commits merge the commits reachable from their other parents
+ * that no earlier merge brought in; the first commit's author date starts the
+ * branch lifetime. Merges of the mainline's own branch (`git pull` onto a local
+ * mainline) aren't branches and are left out. Single-parent commits referencing
+ * a pull or merge request are squash merges, measured from their own author
+ * date, which only predates the merge when the squash kept the first commit's
+ * date. Rebase merges leave no trace and aren't found.
+ *
+ * @param commits - Indexed commits, merges included, reachable from `tip`
+ * @param tip - Commit whose first-parent history is the mainline
+ * @param messages - Committers and bodies of the mainline commits, by hash
+ * @param options - Mainline name, period (seconds, on the merge time) and author pattern
+ * @returns Merge statistics for the period
+ * @example
+ * ```typescript
+ * const stats = calculateMergeStats(commits, tip, messages, { branch: 'main', since: 1704067200 });
+ * console.log(stats.lifetime?.medianHours, stats.selfMerges.rate);
+ * ```
+ */
+export function calculateMergeStats(
+  commits: IndexedCommit[],
+  tip: string,
+  messages: Map<string, MergeMessage>,
+  options: { branch?: string; since?: number; until?: number; author?: string } = {}
+): MergeStats {
+  const byHash = new Map(commits.map(commit => [commit.hash, commit]));
+  const authorRegex = options.author ? compileAuthorPattern(options.author) : null;
+
+  // Mainline, newest first
+  const mainline: IndexedCommit[] = [];
+  const onMainline = new Set<string>();
+  for (let commit = byHash.get(tip); commit && !onMainline.has(commit.hash); commit = byHash.get(commit.parents[0])) {
+    mainline.push(commit);
+    onMainline.add(commit.hash);
+  }
+
+  // Each side commit belongs to the first merge (oldest first) that reaches it
+  const claimed = new Set<string>();
+  const claim = (from: string[]): IndexedCommit[] => {
+    const work: IndexedCommit[] = [];
+    const stack = [...from];
+    while (stack.length > 0) {
+      const hash = stack.pop()!;
+      if (onMainline.has(hash) || claimed.has(hash)) continue;
+      const commit = byHash.get(hash);
+      if (!commit) continue;
+      claimed.add(hash);
+      if (commit.parents.length < 2) work.push(commit);
+      stack.push(...commit.parents);
+    }
+    return work;
+  };
+
+  const mergedBranches: MergedBranch[] = [];
+  for (const commit of [...mainline].reverse()) {
+    const message = messages.get(commit.hash);
+    const pullRequest = findPullRequest(commit.subject, message?.body);
+    const merge = commit.parents.length > 1;
+    const branch = merge ? mergedBranchFromSubject(commit.subject) : null;
+
+    // Claimed even outside the period, so later merges don't take them over
+    const work = merge ? claim(commit.parents.slice(1)) : pullRequest !== null ? [commit] : [];
+    if (!work.length) continue;
+    if (merge && branch && options.branch && (branch === options.branch || options.branch.endsWith(`/${branch}`))) continue;
+    if (options.since !== undefined && commit.commitTime < options.since) continue;
+    if (options.until !== undefined && commit.commitTime > options.until) continue;
+
+    const author = mainAuthor(work);
+    if (authorRegex && !authorRegex.test(`${author.author} <${author.email}>`)) continue;
+
+    const first = work.reduce((min, c) => Math.min(min, Math.floor(new Date(c.authorDate).getTime() / 1000)), Infinity);
+    const lifetime = commit.commitTime - first;
+    const files = new Set<string>();
+    let linesAdded = 0;
+    let linesDeleted = 0;
+    for (const file of work.flatMap(c => c.files)) {
+      files.add(file.path);
+      linesAdded += file.added;
+      linesDeleted += file.deleted;
+    }
+
+    mergedBranches.push({
+      hash: commit.hash,
+      shortHash: commit.shortHash,
+      kind: merge ? 'merge' : 'squash',
+      subject: commit.subject,
+      branch,
+      pullRequest,
+      author: author.author,
+      // A merge commit is authored by whoever merged, even in a web UI; a squash is committed by them
+      mergedBy: merge
+        ? commit.author
+        : message && message.committerEmail !== GITHUB_WEB_COMMITTER ? message.committer : null,
+      mergedAt: new Date(commit.commitTime * 1000).toISOString(),
+      firstCommitAt: new Date(first * 1000).toISOString(),
+      lifetimeHours: merge || lifetime > 0 ? round(Math.max(0, lifetime) / SECONDS_PER_HOUR, 1) : null,
+      commits: work.length,
+      files: files.size,
+      linesAdded,
+      linesDeleted,
+    });
+  }
+  mergedBranches.reverse();
+
+  const byAuthor = new Map<string, MergedBranch[]>();
+  for (const merge of mergedBranches) {
+    const merges = byAuthor.get(merge.author);
+    if (merges) merges.push(merge);
+    else byAuthor.set(merge.author, [merge]);
+  }
+
+  const lifetimes = mergedBranches.flatMap(merge => merge.lifetimeHours ?? []);
+  const lines = mergedBranches.map(merge => merge.linesAdded + merge.linesDeleted);
+  const known = mergedBranches.filter(merge => merge.mergedBy !== null);
+  const selfMerges = known.filter(merge => merge.mergedBy === merge.author).length;
+
+  return {
+    branch: options.branch || 'HEAD',
+    totalMerges: mergedBranches.length,
+    mergeCommits: mergedBranches.filter(merge => merge.kind === 'merge').length,
+    squashMerges: mergedBranches.filter(merge => merge.kind === 'squash').length,
+    lifetime: lifetimes.length
+      ? { avgHours: round(avg(lifetimes), 1), medianHours: round(median(lifetimes), 1), count: lifetimes.length }
+      : null,
+    size: lines.length ? { avgLines: round(avg(lines), 1), medianLines: median(lines) } : null,
+    selfMerges: { count: selfMerges, rate: known.length ? round(selfMerges / known.length, 2) : 0 },
+    authors: [...byAuthor]
+      .map(([author, merges]) => summarizeAuthor(author, merges))
+      .sort((a, b) => b.merges - a.merges || a.author.localeCompare(b.author)),
+    mergedBranches,
+  };
+}
@@ -0,0 +1,199 @@
+// ============================================
+// Review Metrics - Code review metrics over normalized pull requests
+// ============================================
+
+import { differenceInMinutes, format, parseISO } from 'date-fns';
+import { DurationSummary, PullRequest, PullRequestReview, ReviewMetrics, ReviewPlatform } from '../types';
+import { avg, median, round } from '../utils/metrics-calculations';
+
+/** Upper bounds (lines changed) of the small, medium and large size buckets */
+const SIZE_BUCKETS = { small: 100, medium: 400, large: 1000 };
+
+/**
+ * Summarizes durations in hours (avg/median, one decimal).
+ *
+ * @private
+ */
+function summarizeHours(hours: number[]): DurationSummary | null {
+  if (!hours.length) return null;
+  return {
+    avgHours: round(avg(hours), 1),
+    medianHours: round(median(hours), 1),
+    count: hours.length,
+  };
+}
+
+/**
+ * Hours between two ISO timestamps.
+ *
+ * @private
+ */
+function hoursBetween(from: string, to: string): number {
+  return differenceInMinutes(parseISO(to), parseISO(from)) / 60;
+}
+
+/**
+ * Reviews of a pull request by someone other than its author.
+ *
+ * @param pr - Pull request
+ * @returns Reviews, oldest first
+ */
+export function getPeerReviews(pr: PullRequest): PullRequestReview[] {
+  return pr.reviews
+    .filter(review => review.reviewer !== pr.author)
+    .sort((a, b) => a.submittedAt.localeCompare(b.submittedAt));
+}
+
+/**
+ * When someone other than the author first responded to a pull request, with
+ * a comment or a review.
+ *
+ * @param pr - Pull request
+ * @returns ISO timestamp, or null if nobody did
+ */
+export function getFirstResponse(pr: PullRequest): string | null {
+  const times = [
+    ...pr.comments.filter(comment => comment.author !== pr.author).map(comment => comment.createdAt),
+    ...getPeerReviews(pr).map(review => review.submittedAt),
+  ].sort();
+  return times[0] ?? null;
+}
+
+/**
+ * Review rounds of a pull request: the first review, plus one for every
+ * change request (each sends the author back for another round).
+ *
+ * @param pr - Pull request
+ * @returns Rounds, 0 if nobody else reviewed it
+ */
+export function countReviewRounds(pr: PullRequest): number {
+  const reviews = getPeerReviews(pr);
+  if (!reviews.length) return 0;
+  return 1 + reviews.filter(review => review.state === 'changes_requested').length;
+}
+
+/**
+ * Counts pull requests per size bucket.
+ *
+ * @param prs - Pull requests
+ * @returns Size distribution and median lines changed
+ */
+export function calculateSizeDistribution(prs: PullRequest[]): ReviewMetrics['size'] {
+  const size = { small: 0, medium: 0, large: 0, huge: 0 };
+  const lines = prs.map(pr => pr.additions + pr.deletions);
+  for (const changed of lines) {
+    if (changed <= SIZE_BUCKETS.small) size.small++;
+    else if (changed <= SIZE_BUCKETS.medium) size.medium++;
+    else if (changed <= SIZE_BUCKETS.large) size.large++;
+    else size.huge++;
+  }
+  return { ...size, medianLines: lines.length ? median(lines) : 0 };
+}
+
+/**
+ * Reviews and reviewed pull requests per reviewer. Authors reviewing their
+ * own pull request (e.g. replying to comments) don't count.
+ *
+ * @param prs - Pull requests
+ * @returns Reviewer load, busiest first
+ */
+export function calculateReviewerLoad(prs: PullRequest[]): ReviewMetrics['reviewerLoad'] {
+  const load = new Map<string, { reviews: number; pullRequests: Set<number> }>();
+  for (const pr of prs) {
+    for (const review of getPeerReviews(pr)) {
+      const entry = load.get(review.reviewer) ?? { reviews: 0, pullRequests: new Set<number>() };
+      entry.reviews++;
+      entry.pullRequests.add(pr.number);
+      load.set(review.reviewer, entry);
+    }
+  }
+  return [...load.entries()]
+    .map(([reviewer, entry]) => ({ reviewer, reviews: entry.reviews, pullRequests: entry.pullRequests.size }))
+    .sort((a, b) => b.reviews - a.reviews || a.reviewer.localeCompare(b.reviewer));
+}
+
+/**
+ * Adds up the CI pipelines of pull requests whose platform reports them.
+ *
+ * @param prs - Pull requests
+ * @returns Finished pipelines and their failure rate, or null without any
+ */
+export function calculatePipelineFailureRate(prs: PullRequest[]): ReviewMetrics['pipelines'] {
+  let succeeded = 0;
+  let failed = 0;
+  for (const pr of prs) {
+    succeeded += pr.pipelines?.succeeded ?? 0;
+    failed += pr.pipelines?.failed ?? 0;
+  }
+  const total = succeeded + failed;
+  return total ? { total, failed, failureRate: round(failed / total, 2) } : null;
+}
+
+/**
+ * Calculates the review metrics every platform supports from normalized
+ * pull requests.
+ *
+ * @param prs - Pull requests opened in the period
+ * @param options - Platform, repository and period (YYYY-MM-DD)
+ * @returns Review metrics
+ * @example
+ * ```typescript
+ * const metrics = calculateReviewMetrics(prs, { platform: 'github', repository: 'acme/api', since: '2024-01-01' });
+ * metrics.timeToFirstReview?.medianHours;
+ * ```
+ */
+export function calculateReviewMetrics(
+  prs: PullRequest[],
+  options: { platform: ReviewPlatform; repository: string; since?: string; until?: string }
+): ReviewMetrics {
+  const merged = prs.filter(pr => pr.mergedAt);
+
+  const firstReviewHours: number[] = [];
+  const firstCommentHours: number[] = [];
+  const approvalHours: number[] = [];
+  const rounds: number[] = [];
+  let comments = 0;
+  for (const pr of prs) {
+    comments += pr.comments.filter(comment => comment.author !== pr.author).length;
+    const firstResponse = getFirstResponse(pr);
+    if (firstResponse) {
+      firstCommentHours.push(Math.max(0, hoursBetween(pr.createdAt, firstResponse)));
+    }
+
+    const reviews = getPeerReviews(pr);
+    if (!reviews.length) continue;
+    firstReviewHours.push(Math.max(0, hoursBetween(pr.createdAt, reviews[0].submittedAt)));
+    rounds.push(countReviewRounds(pr));
+    const approval = reviews.find(review => review.state === 'approved');
+    if (approval) {
+      approvalHours.push(Math.max(0, hoursBetween(pr.createdAt, approval.submittedAt)));
+    }
+  }
+
+  const unreviewed = merged.filter(pr => !getPeerReviews(pr).length).length;
+
+  return {
+    available: true,
+    ...(!prs.length && { reason: 'No pull requests found in the specified period' }),
+    platform: options.platform,
+    repository: options.repository,
+    period: { since: options.since || '', until: options.until || format(new Date(), 'yyyy-MM-dd') },
+    pullRequests: prs.length,
+    merged: merged.length,
+    cycleTime: summarizeHours(merged.map(pr => hoursBetween(pr.createdAt, pr.mergedAt!))),
+    timeToFirstReview: summarizeHours(firstReviewHours),
+    timeToFirstComment: summarizeHours(firstCommentHours),
+    approvalLatency: summarizeHours(approvalHours),
+    comments: { total: comments, perPullRequest: prs.length ? round(comments / prs.length, 1) : 0 },
+    reviewRounds: rounds.length
+      ? { avg: round(avg(rounds), 1), median: median(rounds), max: Math.max(...rounds) }
+      : null,
+    size: calculateSizeDistribution(prs),
+    reviewerLoad: calculateReviewerLoad(prs),
+    unreviewedMerges: {
+      count: unreviewed,
+      rate: merged.length ? round(unreviewed / merged.length, 2) : 0,
+    },
+    pipelines: calculatePipelineFailureRate(prs),
+  };
+}
@@ -0,0 +1,134 @@
+// ============================================
+// Tracker Metrics - Flow metrics over normalized issues from any tracker
+// ============================================
+
+import { differenceInDays, differenceInWeeks, format, parseISO } from 'date-fns';
+import { DaysDistribution, NormalizedIssue, TrackerMetrics } from '../types';
+import { avg, median, percentile, round, getWeekKey } from '../utils/metrics-calculations';
+
+/**
+ * Summarizes durations in days.
+ *
+ * @param days - One duration per issue
+ * @returns Average, median and p90 (one decimal), or null without durations
+ */
+export function summarizeDays(days: number[]): DaysDistribution | null {
+  if (!days.length) return null;
+  return {
+    avgDays: round(avg(days), 1),
+    medianDays: round(median(days), 1),
+    minDays: Math.min(...days),
+    maxDays: Math.max(...days),
+    p90Days: round(percentile(days, 90), 1),
+    count: days.length,
+  };
+}
+
+/**
+ * Cycle time: whole days from started to done, over issues that were both.
+ *
+ * @param issues - Normalized issues
+ * @returns Cycle time distribution, or null if no issue was measured
+ */
+export function calculateCycleTime(issues: NormalizedIssue[]): DaysDistribution | null {
+  const days: number[] = [];
+  for (const issue of issues) {
+    if (!issue.startedAt || !issue.doneAt) continue;
+    const started = parseISO(issue.startedAt);
+    const done = parseISO(issue.doneAt);
+    if (done > started) days.push(differenceInDays(done, started));
+  }
+  return summarizeDays(days);
+}
+
+/**
+ * Lead time: whole days from created to done, over done issues.
+ *
+ * @param issues - Normalized issues
+ * @returns Lead time distribution, or null if no issue is done
+ */
+export function calculateLeadTime(issues: NormalizedIssue[]): DaysDistribution | null {
+  return summarizeDays(issues
+    .filter(issue => issue.doneAt)
+    .map(issue => differenceInDays(parseISO(issue.doneAt!), parseISO(issue.createdAt))));
+}
+
+/**
+ * Issues in progress now, per assignee.
+ *
+ * @param issues - Normalized issues
+ * @returns Work in progress
+ */
+export function calculateWip(issues: NormalizedIssue[]): TrackerMetrics['wip'] {
+  const byAssignee: Record<string, number> = {};
+  const inProgress = issues.filter(issue => issue.stateCategory === 'in_progress');
+  for (const issue of inProgress) {
+    const assignee = issue.assignee || 'Unassigned';
+    byAssignee[assignee] = (byAssignee[assignee] || 0) + 1;
+  }
+  return { current: inProgress.length, byAssignee };
+}
+
+/**
+ * Issues done, per week and per assignee.
+ *
+ * @param issues - Normalized issues
+ * @param periodWeeks - Length of the period, for the weekly rate
+ * @returns Throughput, or null if no issue is done
+ */
+export function calculateThroughput(issues: NormalizedIssue[], periodWeeks: number): TrackerMetrics['throughput'] {
+  const done = issues.filter(issue => issue.stateCategory === 'done');
+  if (!done.length) return null;
+
+  const byWeek: Record<string, number> = {};
+  const byAssignee: Record<string, number> = {};
+  for (const issue of done) {
+    if (issue.doneAt) {
+      const week = getWeekKey(parseISO(issue.doneAt));
+      byWeek[week] = (byWeek[week] || 0) + 1;
+    }
+    const assignee = issue.assignee || 'Unassigned';
+    byAssignee[assignee] = (byAssignee[assignee] || 0) + 1;
+  }
+
+  return {
+    total: done.length,
+    perWeek: periodWeeks > 0 ? round(done.length / periodWeeks, 1) : done.length,
+    byWeek: Object.entries(byWeek)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([week, count]) => ({ week, count })),
+    byAssignee,
+  };
+}
+
+/**
+ * Calculates the flow metrics every tracker supports from normalized issues.
+ *
+ * @param issues - Normalized issues of the period
+ * @param options - Period (YYYY-MM-DD); without `since` the weekly rate assumes 12 weeks
+ * @returns Tracker metrics
+ * @example
+ * ```typescript
+ * const metrics = calculateTrackerMetrics(provider.normalize(issues), { since: '2024-01-01' });
+ * metrics.cycleTime?.medianDays;
+ * ```
+ */
+export function calculateTrackerMetrics(
+  issues: NormalizedIssue[],
+  options: { since?: string; until?: string } = {}
+): TrackerMetrics {
+  const since = options.since || '';
+  const until = options.until || format(new Date(), 'yyyy-MM-dd');
+  const periodWeeks = since ? differenceInWeeks(parseISO(until), parseISO(since)) : 12;
+
+  return {
+    available: true,
+    ...(!issues.length && { reason: 'No issues found in the specified period' }),
+    issuesAnalyzed: issues.length,
+    period: { since, until },
+    cycleTime: calculateCycleTime(issues),
+    leadTime: calculateLeadTime(issues),
+    wip: calculateWip(issues),
+    throughput: calculateThroughput(issues, periodWeeks),
+  };
+}
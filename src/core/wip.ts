@@ -0,0 +1,67 @@
+// ============================================
+// Aging WIP - In-progress items against historical cycle times
+// ============================================
+
+import { AgingWipReport, AgingWorkItem, CycleTimePercentiles, IssueTracker, WorkItem } from '../types';
+import { percentile, round } from '../utils/metrics-calculations';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Summarizes cycle times as the percentiles aging WIP is compared against.
+ *
+ * @param cycleTimesDays - Cycle times of completed issues, in days
+ * @returns Percentiles (one decimal), or null without cycle times
+ */
+export function getCycleTimePercentiles(cycleTimesDays: number[]): CycleTimePercentiles | null {
+  if (!cycleTimesDays.length) return null;
+  return {
+    p50Days: round(percentile(cycleTimesDays, 50), 1),
+    p85Days: round(percentile(cycleTimesDays, 85), 1),
+    p95Days: round(percentile(cycleTimesDays, 95), 1),
+    count: cycleTimesDays.length,
+  };
+}
+
+/**
+ * Ages in-progress items and flags those older than most completed work was
+ * when it was done: past the 85th percentile an item is "stuck".
+ *
+ * @param items - Items in progress
+ * @param cycleTimesDays - Cycle times of recently completed issues, in days
+ * @param options - Where the items come from, and the current time
+ * @returns Items oldest first, with their age and the percentiles they exceed
+ * @example
+ * ```typescript
+ * const report = calculateAgingWip(items, cycleTimes, { tracker: 'jira', project: 'ABC' });
+ * report.items.filter(item => item.stuck);
+ * ```
+ */
+export function calculateAgingWip(
+  items: WorkItem[],
+  cycleTimesDays: number[],
+  options: { tracker: IssueTracker; project: string; now?: Date }
+): AgingWipReport {
+  const now = (options.now ?? new Date()).getTime();
+  const percentiles = getCycleTimePercentiles(cycleTimesDays);
+
+  const aged: AgingWorkItem[] = items.map(item => {
+    const ageDays = round(Math.max(0, now - new Date(item.startedAt).getTime()) / MS_PER_DAY, 1);
+    let exceeds: AgingWorkItem['exceeds'] = null;
+    if (percentiles) {
+      if (ageDays > percentiles.p95Days) exceeds = 'p95';
+      else if (ageDays > percentiles.p85Days) exceeds = 'p85';
+      else if (ageDays > percentiles.p50Days) exceeds = 'p50';
+    }
+    return { ...item, ageDays, exceeds, stuck: exceeds === 'p85' || exceeds === 'p95' };
+  });
+  aged.sort((a, b) => b.ageDays - a.ageDays || a.key.localeCompare(b.key));
+
+  return {
+    tracker: options.tracker,
+    project: options.project,
+    percentiles,
+    items: aged,
+    stuck: aged.filter(item => item.stuck).length,
+  };
+}
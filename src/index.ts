@@ -13,11 +13,20 @@ import {
   filesCommand,
   trendsCommand,
   blameCommand,
+  churnCommand,
+  compareCommand,
   reportCommand,
   fileTypesCommand,
 } from './commands';
-import { jiraCommand } from './commands/jira';
+import { jiraCommand, jiraStatusesCommand } from './commands/jira';
 import { linearCommand } from './commands/linear';
+import { doraCommand } from './commands/dora';
+import { linksCommand } from './commands/links';
+import { mergesCommand } from './commands/merges';
+import { branchesCommand } from './commands/branches';
+import { hotspotsCommand } from './commands/hotspots';
+import { wipCommand } from './commands/wip';
+import { forecastCommand } from './commands/forecast';
 import { configCommand } from './commands/config';
 import { initCommand, quickInitCommand } from './commands/init';
 import { collectCommand, showCommand } from './commands/collect';
@@ -26,6 +35,7 @@ import { cleanCommand } from './commands/clean';
 import { listClientsCommand, switchClientCommand, removeClientCommand } from './commands/client';
 import { XSEED_LOGO, printBanner, printCompactHeader } from './branding';
 import { isInitialized, getConfigStatus } from './config/integrations';
+import { getReviewProviders, getTrackers } from './integrations/registry';
 
 const program = new Command();
 
@@ -59,8 +69,18 @@ program
   .option('--jira-email <email>', 'Jira email (non-interactive)')
   .option('--jira-token <token>', 'Jira token (non-interactive)')
   .option('--linear-key <key>', 'Linear API key (non-interactive)')
+  .option('--github-token <token>', 'GitHub token (non-interactive)')
+  .option('--github-url <url>', 'GitHub Enterprise API URL (non-interactive)')
+  .option('--gitlab-token <token>', 'GitLab token (non-interactive)')
+  .option('--gitlab-url <url>', 'Self-managed GitLab URL (non-interactive)')
+  .option('--bitbucket-username <name>', 'Bitbucket username of the app password or API token (non-interactive)')
+  .option('--bitbucket-token <token>', 'Bitbucket token (non-interactive)')
+  .option('--azure-org <organization>', 'Azure DevOps organization (non-interactive)')
+  .option('--azure-token <token>', 'Azure DevOps token (non-interactive)')
+  .option('--azure-url <url>', 'Azure DevOps Server URL (non-interactive)')
   .action(async (options) => {
-    if (options.clientName || options.username || options.email || options.jiraUrl || options.linearKey) {
+    if (options.clientName || options.username || options.email || options.jiraUrl || options.linearKey || options.githubToken ||
+        options.gitlabToken || options.bitbucketToken || options.azureToken) {
       await quickInitCommand({
         clientName: options.clientName,
         username: options.username,
@@ -71,16 +91,44 @@ program
         jiraEmail: options.jiraEmail,
         jiraToken: options.jiraToken,
         linearKey: options.linearKey,
+        githubToken: options.githubToken,
+        githubUrl: options.githubUrl,
+        gitlabToken: options.gitlabToken,
+        gitlabUrl: options.gitlabUrl,
+        bitbucketUsername: options.bitbucketUsername,
+        bitbucketToken: options.bitbucketToken,
+        azureOrg: options.azureOrg,
+        azureToken: options.azureToken,
+        azureUrl: options.azureUrl,
       });
     } else {
       await initCommand({ force: options.force });
     }
   });
 
+// One `--<tracker> <project>` option per registered issue tracker
+const addTrackerOptions = (cmd: Command) => {
+  for (const tracker of getTrackers()) {
+    cmd.option(`--${tracker.id} <${tracker.scope}>`, `Include ${tracker.name} ${tracker.scope} metrics`);
+  }
+  return cmd;
+};
+
+// One `--<platform> [repository]` option per registered code review platform
+const addReviewOptions = (cmd: Command) => {
+  for (const provider of getReviewProviders()) {
+    cmd.option(
+      `--${provider.id} [${provider.repositoryFormat}]`,
+      `Include ${provider.name} ${provider.label.toLowerCase()} review metrics (default: origin remote)`
+    );
+  }
+  return cmd;
+};
+
 // ==========================================
 // Collect Command
 // ==========================================
-program
+addTrackerOptions(program
   .command('collect')
   .description('Collect metrics from configured repositories (default: CSV format, last 7 days)')
   .option('-r, --repo <path>', 'Specific repository to collect from')
@@ -91,13 +139,13 @@ program
   .option('-s, --since <date>', 'Start date for metrics (e.g. 2024-01-01, "30 days ago")')
   .option('-u, --until <date>', 'End date for metrics (e.g. 2024-12-31)')
   .option('--usernames <list>', 'Collect for specific users (comma-separated) or ALL')
-  .option('--jira <project>', 'Include Jira project metrics')
   .option('-f, --format <type>', 'Output format: csv or json', 'csv')
+  .option('--churn', 'Also measure code churn (slower: blames every changed file)')
   .option('-q, --quiet', 'Minimal output')
   .option('--scheduled', 'Mark as scheduled run (used by cron)')
   .option('--upload', 'Force upload to Notion')
   .option('--no-upload', 'Skip upload to Notion')
-  .action(collectCommand);
+).action(collectCommand);
 
 // ==========================================
 // Show Command
@@ -248,10 +296,74 @@ program.command('blame').description('Code ownership statistics').argument('[pat
   .action(blameCommand);
 
 addCommonOptions(
-  program.command('report').description('Comprehensive report (Git + Jira/Linear)').argument('[path]', 'Repository path', '.')
-    .option('--jira <project>', 'Include Jira metrics')
-    .option('--linear <team>', 'Include Linear metrics')
-).action(reportCommand);
+  program.command('churn').description('Code rewritten shortly after being written').argument('[path]', 'Repository path', '.')
+    .option('-w, --window <days>', 'Days under which rewritten code counts as churn', (v) => parseInt(v, 10), 21)
+).action(churnCommand);
+
+addCommonOptions(
+  program.command('compare').description('Compare author statistics between two periods').argument('[path]', 'Repository path', '.')
+    .option('--current <period>', 'Current period: "last 2 weeks", "START..END" (END exclusive), or a start date')
+    .option('--previous <period>', 'Previous period: "2 weeks before", "START..END" (default: same length, right before current)')
+).action(compareCommand);
+
+addReviewOptions(addTrackerOptions(addCommonOptions(
+  program.command('report').description('Comprehensive report (Git + issue trackers)').argument('[path]', 'Repository path', '.')
+    .option('--compare', 'Add a "vs previous period" section (requires --since)')
+    .option('--churn', 'Add a code churn section (slower: blames every changed file)')
+))).action(reportCommand);
+
+program.command('dora').description('DORA metrics (deployment frequency, lead time, failure rate, time to restore)')
+  .argument('[path]', 'Repository path', '.')
+  .option('-s, --since <date>', 'Start date (ISO or relative)')
+  .option('-u, --until <date>', 'End date (ISO or relative)')
+  .option('--source <type>', 'Deployments from: tags, branch, file (default: tags)')
+  .option('--tag-pattern <glob>', 'Release tag pattern for the tags source (default: v*)')
+  .option('--release-branch <name>', 'Branch whose merges are deployments (default: main branch)')
+  .option('--deployments-file <path>', 'Deployments log (JSON or NDJSON) for the file source')
+  .option('--hotfix-pattern <glob>', 'Hotfix branch pattern (default: hotfix/*)')
+  .option('--jira <project>', 'Count Jira bugs reported against releases as failures')
+  .option('-f, --format <type>', 'Output format: table, json, csv, markdown', 'table')
+  .option('-o, --output <file>', 'Save output to file')
+  .action(doraCommand);
+
+program.command('merges').description('Branch lifetime, merge size and who merged whose work, from merge history alone')
+  .argument('[path]', 'Repository path', '.')
+  .option('-s, --since <date>', 'Start date (ISO or relative)')
+  .option('-u, --until <date>', 'End date (ISO or relative)')
+  .option('-a, --author <name>', 'Filter by author of the merged work')
+  .option('-b, --branch <name>', 'Branch merged into (default: HEAD)')
+  .option('-l, --limit <n>', 'Number of authors and merges to show', (v) => parseInt(v, 10), 20)
+  .option('-f, --format <type>', 'Output format: table, json, csv, markdown', 'table')
+  .option('-o, --output <file>', 'Save output to file')
+  .action(mergesCommand);
+
+program.command('branches').description('Unmerged branches: last commit, authors, ahead/behind and staleness')
+  .argument('[path]', 'Repository path', '.')
+  .option('-m, --main <branch>', 'Main branch to compare against (default: configured main branch, or main)')
+  .option('--stale-days <n>', 'Days without commits for a branch to be stale (default: 30)', (v) => parseInt(v, 10))
+  .option('--abandoned-days <n>', 'Days without commits for a branch to be abandoned (default: 90)', (v) => parseInt(v, 10))
+  .option('--long-lived-days <n>', 'Days open for an active branch to be long-lived (default: 14)', (v) => parseInt(v, 10))
+  .option('--status <list>', 'Only show these statuses (comma-separated: active,long-lived,stale,abandoned)')
+  .option('-b, --branch <name>', 'Only report on this branch (origin/ is added to a bare name)')
+  .option('-d, --details', 'List the commits and changed files only each branch has')
+  .option('--no-fetch', 'Skip fetching all remotes first')
+  .option('-l, --limit <n>', 'Number of branches to show', (v) => parseInt(v, 10), 50)
+  .option('-f, --format <type>', 'Output format: table, json, csv, markdown', 'table')
+  .option('-o, --output <file>', 'Save output to file')
+  .action(branchesCommand);
+
+program.command('hotspots').description('Riskiest files and directories: change frequency times size and indentation complexity')
+  .argument('[path]', 'Repository path', '.')
+  .option('-s, --since <date>', 'Start of the change window (default: 1 year ago)')
+  .option('-u, --until <date>', 'End of the change window')
+  .option('-a, --author <name>', 'Only count changes by this author')
+  .option('-b, --branch <name>', 'Branch whose history and contents are analyzed (default: HEAD)')
+  .option('-p, --path <paths...>', 'Limit to these paths')
+  .option('-l, --limit <n>', 'Number of files and directories to show', (v) => parseInt(v, 10), 20)
+  .option('-t, --trend <n>', 'Number of top hotspots to show the complexity trend of (default: 5)', (v) => parseInt(v, 10))
+  .option('-f, --format <type>', 'Output format: table, json, csv, markdown', 'table')
+  .option('-o, --output <file>', 'Save output to file')
+  .action(hotspotsCommand);
 
 addCommonOptions(
   program.command('types').description('Statistics by file type').argument('[path]', 'Repository path', '.')
@@ -265,18 +377,67 @@ program.command('jira').description('Jira project metrics')
   .option('-s, --since <date>', 'Start date')
   .option('-u, --until <date>', 'End date')
   .option('--subtasks', 'Include subtasks', false)
+  .option('--sprints [count]', 'Sprint analytics for the last N sprints (default: 6)', (v) => parseInt(v, 10))
+  .option('--flow', 'Time in status and flow efficiency')
+  .option('--cfd', 'Cumulative flow: daily issue counts per status, charted in the terminal')
   .option('-f, --format <type>', 'Output format', 'table')
   .option('-o, --output <file>', 'Save output to file')
   .action(jiraCommand);
 
+program.command('jira:statuses').description('List Jira workflow statuses and how they are mapped')
+  .requiredOption('-p, --project <key>', 'Jira project key')
+  .option('--save', 'Save suggested categories for unmapped statuses')
+  .option('-f, --format <type>', 'Output format', 'table')
+  .option('-o, --output <file>', 'Save output to file')
+  .action(jiraStatusesCommand);
+
 program.command('linear').description('Linear team metrics')
   .requiredOption('-t, --team <name>', 'Linear team name')
   .option('-s, --since <date>', 'Start date')
   .option('-u, --until <date>', 'End date')
+  .option('--cfd', 'Cumulative flow: daily issue counts per state, charted in the terminal')
+  .option('--projects', 'Project and initiative progress: scope, forecast vs target date, slipped milestones')
   .option('-f, --format <type>', 'Output format', 'table')
   .option('-o, --output <file>', 'Save output to file')
   .action(linearCommand);
 
+program.command('links').description('Link commits to Jira/Linear issues (coding vs waiting time per issue)')
+  .argument('[path]', 'Repository path', '.')
+  .option('-s, --since <date>', 'Start date (ISO or relative)')
+  .option('-u, --until <date>', 'End date (ISO or relative)')
+  .option('-a, --author <name>', 'Filter by author name')
+  .option('-b, --branch <name>', 'Branch to analyze (default: HEAD plus branches named after issues)')
+  .option('-t, --tracker <name>', 'Tracker to fetch issues from: jira, linear, none (default: the configured one)')
+  .option('-p, --projects <keys>', 'Only link these Jira projects or Linear teams (comma-separated)')
+  .option('-l, --limit <n>', 'Number of issues to show', (v) => parseInt(v, 10), 20)
+  .option('-f, --format <type>', 'Output format: table, json, csv, markdown', 'table')
+  .option('-o, --output <file>', 'Save output to file')
+  .action(linksCommand);
+
+program.command('wip').description('Aging work in progress against historical cycle times')
+  .option('--jira <project>', 'Jira project key')
+  .option('--linear <team>', 'Linear team name')
+  .option('-s, --since <date>', 'Start of the cycle time history (default: 3 months ago)')
+  .option('-f, --format <type>', 'Output format: table, json, csv, markdown', 'table')
+  .option('-o, --output <file>', 'Save output to file')
+  .action(wipCommand);
+
+program.command('forecast').description('Monte Carlo delivery forecast from weekly throughput')
+  .option('--jira <project>', 'Jira project key (throughput history)')
+  .option('--linear <team>', 'Linear team name (throughput history)')
+  .option('--jql <query>', 'Jira: remaining work is the open issues of this query')
+  .option('--epic <key>', 'Jira: remaining work is the open issues of this epic')
+  .option('--project <name>', 'Linear: remaining work is the open issues of this project')
+  .option('--cycle <number>', 'Linear: remaining work is the open issues of this cycle', (v) => parseInt(v, 10))
+  .option('-n, --items <count>', 'Remaining work as a number of items', (v) => parseInt(v, 10))
+  .option('--by <date>', 'Also forecast how many items are done by this date')
+  .option('-s, --since <date>', 'Start of the throughput history (default: 3 months ago)')
+  .option('--iterations <n>', 'Number of simulations', (v) => parseInt(v, 10), 10000)
+  .option('--seed <n>', 'Random seed, to reproduce a forecast', (v) => parseInt(v, 10))
+  .option('-f, --format <type>', 'Output format: table, json, csv, markdown', 'table')
+  .option('-o, --output <file>', 'Save output to file')
+  .action(forecastCommand);
+
 program.command('config').description('Manage integration configurations')
   .option('--check', 'Check configurations')
   .option('--init', 'Create example config file')
@@ -299,11 +460,21 @@ ${chalk.bold('Quick Start:')}
 ${chalk.bold('Git Analysis:')}
   ${chalk.cyan('gdm summary')}        Repository overview
   ${chalk.cyan('gdm authors')}        Per-author statistics
-  ${chalk.cyan('gdm report')}         Full report (Git + Jira)
+  ${chalk.cyan('gdm churn')}          Rework (code rewritten within 21 days)
+  ${chalk.cyan('gdm compare')}        Period-over-period author deltas
+  ${chalk.cyan('gdm dora')}           DORA metrics from tags, release merges or a deploy log
+  ${chalk.cyan('gdm merges')}         Branch lifetime and who merged whose work, from history
+  ${chalk.cyan('gdm branches')}       Unmerged branches, ahead/behind, stale and abandoned ones
+  ${chalk.cyan('gdm hotspots')}       Often-changed complex files to prioritize in tech-debt reviews
+  ${chalk.cyan('gdm report')}         Full report (Git + Jira/Linear)
 
 ${chalk.bold('Integrations:')}
   ${chalk.cyan('gdm jira -p KEY')}    Jira project metrics
+  ${chalk.cyan('gdm jira:statuses -p KEY')} Jira workflow statuses and their mapping
   ${chalk.cyan('gdm linear -t Team')} Linear team metrics
+  ${chalk.cyan('gdm links')}          Commits per Jira/Linear issue, coding vs waiting time
+  ${chalk.cyan('gdm wip --jira KEY')} Aging work in progress, flags items past the P85 cycle time
+  ${chalk.cyan('gdm forecast --jira KEY --epic KEY-1')} When the epic's open issues will be done (50/85/95%)
 
 ${chalk.bold('Environment Variables:')}
   GDM_GIT_USERNAME, GDM_GIT_EMAIL, GDM_MAIN_BRANCH
@@ -0,0 +1,205 @@
+// ============================================
+// Azure Repos API Client (Azure DevOps REST)
+// ============================================
+
+import { AzureReposConfig } from '../../config/integrations';
+import { PERFORMANCE } from '../../config/constants';
+import { BaseHttpClient } from '../base/http-client';
+import { ConnectionResult, IPullRequestClient } from '../base/interfaces';
+import { IntegrationError } from '../../utils/errors';
+import { parseRepository } from './metrics';
+import {
+  AzureFileDiff, AzureIteration, AzureIterationChanges, AzureList, AzurePullRequest, AzurePullRequestWithThreads,
+  AzureRepository, AzureThread,
+} from './types';
+
+export const AZURE_DEVOPS_URL = 'https://dev.azure.com';
+
+const API_VERSION = 'api-version=7.1';
+
+/** Files per FileDiffs request */
+const FILE_DIFF_BATCH = 10;
+
+/**
+ * Azure Repos API client for pull requests, their comment threads (which
+ * also record votes) and line counts. Works with Azure DevOps Services and,
+ * through `url`, Azure DevOps Server; the organization (collection on a
+ * server) comes from the configuration.
+ *
+ * @example
+ * ```typescript
+ * const client = new AzureReposClient({ organization: 'acme', token: 'pat' });
+ * const prs = await client.getPullRequests({ project: 'Platform', repo: 'api' }, { since: new Date('2024-01-01') });
+ * ```
+ */
+export class AzureReposClient extends BaseHttpClient implements IPullRequestClient<AzurePullRequestWithThreads> {
+  /**
+   * Creates a new Azure Repos API client.
+   *
+   * @param config - Azure Repos configuration containing the organization and personal access token
+   */
+  constructor(config: AzureReposConfig) {
+    super({
+      baseUrl: `${(config.url || AZURE_DEVOPS_URL).replace(/\/+$/, '')}/${encodeURIComponent(config.organization)}`,
+      integration: 'Azure Repos',
+      timeout: config.timeout,
+      headers: {
+        'Authorization': `Basic ${Buffer.from(`:${config.token}`).toString('base64')}`,
+        'Accept': 'application/json',
+      },
+    });
+  }
+
+  /**
+   * Tests the connection to the organization by fetching the token's user.
+   *
+   * @returns Promise resolving to connection result with display name
+   */
+  async testConnection(): Promise<ConnectionResult> {
+    try {
+      const data = await this.get<{ authenticatedUser: { providerDisplayName: string } }>('/_apis/connectionData');
+      return { success: true, user: data.authenticatedUser.providerDisplayName };
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Lists pull requests of a repository in every state created in the period.
+   *
+   * @param repository - Project and repository name
+   * @param options - Period; all pull requests when omitted
+   * @returns Promise resolving to pull requests as the list endpoint returns them
+   */
+  async listPullRequests(
+    repository: AzureRepository,
+    options: { since?: Date; until?: Date } = {}
+  ): Promise<AzurePullRequest[]> {
+    const top = PERFORMANCE.PAGINATION_SIZE;
+    const params = new URLSearchParams({ 'searchCriteria.status': 'all' });
+    if (options.since || options.until) params.set('searchCriteria.queryTimeRangeType', 'created');
+    if (options.since) params.set('searchCriteria.minTime', options.since.toISOString());
+    if (options.until) params.set('searchCriteria.maxTime', options.until.toISOString());
+
+    const pullRequests: AzurePullRequest[] = [];
+    for (let skip = 0; ; skip += top) {
+      const page = await this.get<AzureList<AzurePullRequest>>(
+        `${this.repoPath(repository)}/pullrequests?${params}&$top=${top}&$skip=${skip}&${API_VERSION}`
+      );
+      pullRequests.push(...page.value);
+      if (page.value.length < top) return pullRequests;
+      await this.sleep(PERFORMANCE.API_DELAY_MS);
+    }
+  }
+
+  /**
+   * Gets the comment threads of a pull request, including the system threads
+   * recording votes.
+   *
+   * @param repository - Project and repository name
+   * @param id - Pull request id
+   * @returns Promise resolving to the threads
+   */
+  async getThreads(repository: AzureRepository, id: number): Promise<AzureThread[]> {
+    const threads = await this.get<AzureList<AzureThread>>(
+      `${this.repoPath(repository)}/pullRequests/${id}/threads?${API_VERSION}`
+    );
+    return threads.value;
+  }
+
+  /**
+   * Counts the lines a pull request adds and removes, comparing its latest
+   * iteration to the merge base.
+   *
+   * @param repository - Project and repository name
+   * @param id - Pull request id
+   * @returns Promise resolving to added and removed lines and changed files
+   */
+  async getSize(
+    repository: AzureRepository,
+    id: number
+  ): Promise<{ additions: number; deletions: number; changedFiles: number }> {
+    const iterations = await this.get<AzureList<AzureIteration>>(
+      `${this.repoPath(repository)}/pullRequests/${id}/iterations?${API_VERSION}`
+    );
+    const latest = iterations.value[iterations.value.length - 1];
+    if (!latest) return { additions: 0, deletions: 0, changedFiles: 0 };
+
+    const files: Array<{ path: string; originalPath: string }> = [];
+    for (let skip = 0; ;) {
+      const changes = await this.get<AzureIterationChanges>(
+        `${this.repoPath(repository)}/pullRequests/${id}/iterations/${latest.id}/changes?$top=${PERFORMANCE.PAGINATION_SIZE}&$skip=${skip}&${API_VERSION}`
+      );
+      for (const change of changes.changeEntries) {
+        if (!change.item.isFolder) files.push({ path: change.item.path, originalPath: change.originalPath ?? change.item.path });
+      }
+      if (!changes.nextSkip) break;
+      skip = changes.nextSkip;
+    }
+
+    let additions = 0;
+    let deletions = 0;
+    for (let i = 0; i < files.length; i += FILE_DIFF_BATCH) {
+      const diffs = await this.post<AzureFileDiff[]>(`${this.repoPath(repository)}/FileDiffs?${API_VERSION}`, {
+        baseVersionCommit: latest.commonRefCommit.commitId,
+        targetVersionCommit: latest.sourceRefCommit.commitId,
+        fileDiffParams: files.slice(i, i + FILE_DIFF_BATCH),
+      });
+      for (const block of diffs.flatMap(diff => diff.lineDiffBlocks)) {
+        if (block.changeType === 'add' || block.changeType === 'edit') additions += block.modifiedLinesCount;
+        if (block.changeType === 'delete' || block.changeType === 'edit') deletions += block.originalLinesCount;
+      }
+    }
+    return { additions, deletions, changedFiles: files.length };
+  }
+
+  /**
+   * Gets the pull requests opened in the period with their threads and size.
+   * Drafts are left out: they aren't up for review yet.
+   *
+   * @param repository - Project and repository name
+   * @param options - Period; all pull requests when omitted
+   * @returns Promise resolving to the pull requests
+   */
+  async getPullRequests(
+    repository: AzureRepository,
+    options: { since?: Date; until?: Date } = {}
+  ): Promise<AzurePullRequestWithThreads[]> {
+    const listed = await this.listPullRequests(repository, options);
+    const pullRequests: AzurePullRequestWithThreads[] = [];
+    for (const pr of listed.filter(pr => !pr.isDraft)) {
+      const threads = await this.getThreads(repository, pr.pullRequestId);
+      const size = await this.getSize(repository, pr.pullRequestId);
+      pullRequests.push({ ...pr, threads, ...size });
+    }
+    return pullRequests;
+  }
+
+  /**
+   * Fetches the pull requests of a "project/repo" repository.
+   *
+   * @param repository - Repository name
+   * @param options - Period; all pull requests when omitted
+   * @returns Promise resolving to the pull requests
+   * @throws {IntegrationError} If the name isn't "project/repo"
+   */
+  async fetchPullRequests(
+    repository: string,
+    options: { since?: Date; until?: Date } = {}
+  ): Promise<AzurePullRequestWithThreads[]> {
+    const parsed = parseRepository(repository);
+    if (!parsed) {
+      throw new IntegrationError(`Invalid Azure Repos repository: ${repository} (expected project/repo)`, this.integration);
+    }
+    return this.getPullRequests(parsed, options);
+  }
+
+  /**
+   * API path of a repository.
+   *
+   * @private
+   */
+  private repoPath({ project, repo }: AzureRepository): string {
+    return `/${encodeURIComponent(project)}/_apis/git/repositories/${encodeURIComponent(repo)}`;
+  }
+}
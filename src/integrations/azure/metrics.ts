@@ -0,0 +1,162 @@
+// ============================================
+// Azure Repos Metrics Calculator
+// ============================================
+
+import { PullRequest, PullRequestReview } from '../../types';
+import { GitRemote } from '../../core/git-runner';
+import { AzureIdentity, AzurePullRequest, AzurePullRequestWithThreads, AzureRepository, AzureThread } from './types';
+import { AZURE_DEVOPS_URL } from './client';
+
+const STATES: Record<AzurePullRequest['status'], PullRequest['state']> = {
+  active: 'open',
+  completed: 'merged',
+  abandoned: 'closed',
+};
+
+/** Lowest vote that approves (10 approved, 5 approved with suggestions) */
+const APPROVING_VOTE = 5;
+
+/**
+ * Whether an identity is a person rather than a group or service.
+ *
+ * @private
+ */
+function isPerson(identity: AzureIdentity | null | undefined): identity is AzureIdentity {
+  return !!identity && !identity.isContainer;
+}
+
+/**
+ * Reads the review a vote thread records.
+ *
+ * @private
+ */
+function toReview(thread: AzureThread): PullRequestReview | null {
+  if (thread.properties?.CodeReviewThreadType?.$value !== 'VoteUpdate') return null;
+  const voter = thread.comments[0]?.author;
+  if (!isPerson(voter)) return null;
+
+  const vote = Number(thread.properties.CodeReviewVoteResult?.$value ?? 0);
+  const state: PullRequestReview['state'] = vote >= APPROVING_VOTE
+    ? 'approved'
+    : vote < 0 ? 'changes_requested' : 'dismissed';
+  return { reviewer: voter.uniqueName, state, submittedAt: thread.publishedDate };
+}
+
+/**
+ * Converts Azure Repos pull requests to the shared pull request model. Votes
+ * come from the system threads that record them (approve, wait for author or
+ * reject; a reset vote dismisses), and comments on the diff count as
+ * commented reviews. Reviewers approving without such a thread are taken to
+ * have approved at completion.
+ *
+ * @param prs - Pull requests with their threads and size
+ * @returns Normalized pull requests; people are identified by their unique name
+ */
+export function normalizePullRequests(prs: AzurePullRequestWithThreads[]): PullRequest[] {
+  return prs.map(pr => {
+    const reviews: PullRequestReview[] = [];
+    const comments: PullRequest['comments'] = [];
+    for (const thread of pr.threads.filter(thread => !thread.isDeleted)) {
+      const vote = toReview(thread);
+      if (vote) {
+        reviews.push(vote);
+        continue;
+      }
+      for (const comment of thread.comments) {
+        if (comment.commentType !== 'text' || comment.isDeleted || !isPerson(comment.author)) continue;
+        comments.push({ author: comment.author.uniqueName, createdAt: comment.publishedDate });
+        if (thread.threadContext) {
+          reviews.push({ reviewer: comment.author.uniqueName, state: 'commented', submittedAt: comment.publishedDate });
+        }
+      }
+    }
+
+    const mergedAt = pr.status === 'completed' ? pr.closedDate ?? null : null;
+    if (mergedAt) {
+      for (const reviewer of pr.reviewers.filter(reviewer => reviewer.vote >= APPROVING_VOTE && isPerson(reviewer))) {
+        if (!reviews.some(review => review.reviewer === reviewer.uniqueName && review.state === 'approved')) {
+          reviews.push({ reviewer: reviewer.uniqueName, state: 'approved', submittedAt: mergedAt });
+        }
+      }
+    }
+
+    return {
+      platform: 'azure',
+      number: pr.pullRequestId,
+      title: pr.title,
+      author: pr.createdBy?.uniqueName ?? 'Unknown',
+      state: STATES[pr.status],
+      createdAt: pr.creationDate,
+      mergedAt,
+      closedAt: pr.status === 'active' ? null : pr.closedDate ?? null,
+      additions: pr.additions,
+      deletions: pr.deletions,
+      changedFiles: pr.changedFiles,
+      reviews: reviews.sort((a, b) => a.submittedAt.localeCompare(b.submittedAt)),
+      comments: comments.sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+      pipelines: null,
+    };
+  });
+}
+
+/**
+ * Parses a "project/repo" repository name.
+ *
+ * @param name - Repository name
+ * @returns Project and repository, or null if it isn't "project/repo"
+ */
+export function parseRepository(name: string): AzureRepository | null {
+  const match = name.trim().match(/^([^/]+)\/([^/]+)$/);
+  return match ? { project: match[1], repo: match[2] } : null;
+}
+
+/**
+ * Finds the Azure Repos repository of a git remote, if the remote belongs to
+ * the configured organization. Understands the HTTPS (`dev.azure.com/ORG/
+ * PROJECT/_git/REPO`, `ORG.visualstudio.com/PROJECT/_git/REPO`, a server's
+ * `HOST/COLLECTION/PROJECT/_git/REPO`) and SSH (`v3/ORG/PROJECT/REPO`) forms.
+ *
+ * @param remote - Parsed git remote
+ * @param organization - Configured organization (collection on a server)
+ * @param url - Configured URL (default: https://dev.azure.com)
+ * @returns Project and repository, or null if the remote is hosted elsewhere
+ */
+export function getRepositoryFromRemote(
+  remote: GitRemote,
+  organization: string,
+  url: string = AZURE_DEVOPS_URL
+): AzureRepository | null {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+  // Azure DevOps Services answers on several hosts, including the legacy ORG.visualstudio.com
+  const services = host === 'dev.azure.com';
+  const hosts = services ? ['dev.azure.com', 'ssh.dev.azure.com', 'vs-ssh.visualstudio.com'] : [host];
+  const visualStudio = services && !hosts.includes(remote.host) && /^[^.]+\.visualstudio\.com$/.test(remote.host);
+  if (!hosts.includes(remote.host) && !visualStudio) return null;
+
+  const parts = remote.path.split('/').map(part => decodeURIComponent(part));
+  let found: { organization: string; project: string; repo: string } | null = null;
+  const git = parts.indexOf('_git');
+  if (git > 0 && git === parts.length - 2) {
+    const repo = parts[git + 1];
+    const before = parts.slice(0, git);
+    if (visualStudio) {
+      found = { organization: remote.host.split('.')[0], project: before[before.length - 1], repo };
+    } else if (before.length >= 2) {
+      found = { organization: before[before.length - 2], project: before[before.length - 1], repo };
+    } else {
+      // dev.azure.com/ORG/_git/REPO: a repository named like its project
+      found = { organization: before[0], project: repo, repo };
+    }
+  } else if (parts[0] === 'v3' && parts.length === 4) {
+    found = { organization: parts[1], project: parts[2], repo: parts[3] };
+  }
+
+  return found && found.organization.toLowerCase() === organization.toLowerCase()
+    ? { project: found.project, repo: found.repo }
+    : null;
+}
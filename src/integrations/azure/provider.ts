@@ -0,0 +1,34 @@
+// ============================================
+// Azure Repos Code Review Provider
+// ============================================
+
+import { getAzureReposConfig } from '../../config/integrations';
+import { ReviewProvider } from '../base/interfaces';
+import { AzureReposClient } from './client';
+import { getRepositoryFromRemote, normalizePullRequests } from './metrics';
+import { AzurePullRequestWithThreads } from './types';
+
+/**
+ * Azure Repos (Azure DevOps Services or Server) as a code review provider.
+ * Repositories are named within the configured organization.
+ */
+export const azureProvider: ReviewProvider<AzurePullRequestWithThreads> = {
+  id: 'azure',
+  name: 'Azure Repos',
+  label: 'Pull Requests',
+  repositoryFormat: 'project/repo',
+  setupHint: 'set AZURE_DEVOPS_ORG, AZURE_DEVOPS_TOKEN',
+
+  createClient() {
+    const config = getAzureReposConfig();
+    return config ? new AzureReposClient(config) : null;
+  },
+
+  getRepository(remote) {
+    const config = getAzureReposConfig();
+    const repository = config && getRepositoryFromRemote(remote, config.organization, config.url);
+    return repository ? `${repository.project}/${repository.repo}` : null;
+  },
+
+  normalize: normalizePullRequests,
+};
@@ -0,0 +1,94 @@
+// ============================================
+// Azure Repos Types & Interfaces
+// ============================================
+
+// API Response Types
+export interface AzureIdentity {
+  id: string;
+  displayName: string;
+  /** Email or domain\user; stable across pull requests */
+  uniqueName: string;
+  /** True for service identities (build service, bots) */
+  isContainer?: boolean;
+}
+
+/** A list response */
+export interface AzureList<T> {
+  value: T[];
+  count?: number;
+}
+
+export interface AzureReviewer extends AzureIdentity {
+  /** 10 approved, 5 approved with suggestions, 0 no vote, -5 waiting for author, -10 rejected */
+  vote: number;
+}
+
+export interface AzurePullRequest {
+  pullRequestId: number;
+  title: string;
+  status: 'active' | 'abandoned' | 'completed';
+  isDraft?: boolean;
+  createdBy: AzureIdentity | null;
+  creationDate: string;
+  /** When it was completed or abandoned */
+  closedDate?: string;
+  reviewers: AzureReviewer[];
+}
+
+export interface AzureComment {
+  id: number;
+  author: AzureIdentity | null;
+  publishedDate: string;
+  commentType: 'text' | 'codeChange' | 'system' | 'unknown';
+  isDeleted?: boolean;
+}
+
+/** A comment thread; votes are recorded as system threads */
+export interface AzureThread {
+  id: number;
+  publishedDate: string;
+  comments: AzureComment[];
+  /** Set on threads on the diff */
+  threadContext?: { filePath: string } | null;
+  properties?: Record<string, { $value: string | number } | undefined>;
+  isDeleted?: boolean;
+}
+
+export interface AzureIteration {
+  id: number;
+  sourceRefCommit: { commitId: string };
+  commonRefCommit: { commitId: string };
+}
+
+export interface AzureIterationChanges {
+  changeEntries: Array<{
+    changeType: string;
+    item: { path: string; isFolder?: boolean };
+    originalPath?: string;
+  }>;
+  nextSkip?: number;
+  nextTop?: number;
+}
+
+export interface AzureFileDiff {
+  path: string;
+  lineDiffBlocks: Array<{
+    changeType: 'none' | 'add' | 'delete' | 'edit';
+    originalLinesCount: number;
+    modifiedLinesCount: number;
+  }>;
+}
+
+/** A pull request with its threads and size */
+export interface AzurePullRequestWithThreads extends AzurePullRequest {
+  threads: AzureThread[];
+  additions: number;
+  deletions: number;
+  changedFiles: number;
+}
+
+/** Project and name of a repository within the configured organization */
+export interface AzureRepository {
+  project: string;
+  repo: string;
+}
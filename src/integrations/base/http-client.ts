@@ -3,9 +3,9 @@
 // ============================================
 
 import { HttpClientConfig, RetryConfig } from './interfaces';
-import { RETRY } from '../../config/constants';
-import { NetworkError, RateLimitError, AuthenticationError } from '../../utils/errors';
-import { isHttpError, getStatusCode, getErrorMessage } from '../../utils/type-guards';
+import { PERFORMANCE, RETRY } from '../../config/constants';
+import { NetworkError, RateLimitError, AuthenticationError, IntegrationError } from '../../utils/errors';
+import { getErrorMessage } from '../../utils/type-guards';
 import logger from '../../utils/logger';
 
 /**
@@ -16,28 +16,63 @@ const DEFAULT_RETRY_CONFIG: RetryConfig = {
   baseDelay: RETRY.BASE_DELAY_MS,
   maxDelay: RETRY.MAX_DELAY_MS,
   backoffMultiplier: RETRY.BACKOFF_MULTIPLIER,
+  maxRateLimitWait: RETRY.MAX_RATE_LIMIT_WAIT_MS,
   retryOnStatus: [429, 500, 502, 503, 504],
 };
 
 /**
- * Sleep utility
+ * Parses a response body as JSON, falling back to the raw text
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+function parseBody(text: string): unknown {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Extracts the error message of an error response body: REST (`message`),
+ * Jira (`errorMessages`, `errors`) and GraphQL (`errors[].message`) shapes
+ */
+function getErrorDetail(body: unknown): string | undefined {
+  if (!body || typeof body !== 'object') return undefined;
+  const { message, errorMessages, errors } = body as {
+    message?: unknown; errorMessages?: unknown; errors?: unknown;
+  };
+  if (typeof message === 'string' && message) return message;
+  if (Array.isArray(errorMessages) && typeof errorMessages[0] === 'string') return errorMessages[0];
+  if (Array.isArray(errors)) return getErrorDetail(errors[0]);
+  if (errors && typeof errors === 'object') {
+    const first = Object.values(errors)[0];
+    if (typeof first === 'string') return first;
+  }
+  return undefined;
 }
 
 /**
- * Base HTTP client with retry and error handling
+ * Base HTTP client with retry and error handling.
+ *
+ * Failed requests throw typed errors: `AuthenticationError` (401/403, never
+ * retried), `RateLimitError` (429, retried after the server's Retry-After),
+ * `NetworkError` (timeouts, connection failures and 5xx, retried with
+ * exponential backoff) and `IntegrationError` (any other status, not retried).
+ *
+ * Subclasses can hook into every attempt with `beforeRequest`, `onResponse`
+ * and `checkResponse`, e.g. to follow API-specific rate limit headers.
  */
 export class BaseHttpClient {
   protected readonly baseUrl: string;
+  protected readonly integration: string;
   protected readonly timeout: number;
   protected readonly retryConfig: RetryConfig;
   protected readonly headers: Record<string, string>;
 
   constructor(config: HttpClientConfig) {
-    this.baseUrl = config.baseUrl;
-    this.timeout = config.timeout || 30000;
+    this.baseUrl = config.baseUrl.replace(/\/$/, '');
+    this.integration = config.integration || this.baseUrl;
+    this.timeout = config.timeout || PERFORMANCE.HTTP_TIMEOUT_MS;
     this.headers = config.headers || {};
     this.retryConfig = {
       ...DEFAULT_RETRY_CONFIG,
@@ -47,9 +82,10 @@ export class BaseHttpClient {
 
   /**
    * Makes an HTTP request with retry logic
-   * @param url - URL to request
+   * @param url - URL to request, absolute or relative to the base URL
    * @param options - Fetch options
    * @returns Response data
+   * @throws {AuthenticationError | RateLimitError | NetworkError | IntegrationError} When the request fails
    * @protected
    */
   protected async request<T>(
@@ -66,122 +102,162 @@ export class BaseHttpClient {
     };
 
     let lastError: Error | undefined;
-    
+
     for (let attempt = 0; attempt < this.retryConfig.maxAttempts; attempt++) {
       try {
+        await this.beforeRequest();
         logger.debug(`HTTP ${options.method || 'GET'} ${fullUrl} (attempt ${attempt + 1}/${this.retryConfig.maxAttempts})`);
-        
-        const response = await this.fetchWithTimeout(fullUrl, requestOptions);
-        
-        // Handle specific status codes
-        if (!response.ok) {
-          await this.handleErrorResponse(response, attempt);
+
+        const { response, text } = await this.fetchWithTimeout(fullUrl, requestOptions);
+        this.onResponse(response);
+
+        const body = parseBody(text);
+        this.checkResponse(response, body);
+        if (typeof body === 'string') {
+          throw new IntegrationError(`${this.integration} API returned invalid JSON`, this.integration, response.status);
         }
-        
-        // Parse response
-        const text = await response.text();
-        return text ? JSON.parse(text) as T : ({} as T);
-        
+        return (body ?? {}) as T;
+
       } catch (error: unknown) {
         lastError = this.standardizeError(error);
-        
-        // Don't retry on authentication errors
-        if (lastError instanceof AuthenticationError) {
+
+        // Only transient failures are worth another attempt
+        if (!(lastError instanceof NetworkError || lastError instanceof RateLimitError)) {
           throw lastError;
         }
-        
+
         // Don't retry if this is the last attempt
         if (attempt === this.retryConfig.maxAttempts - 1) {
           break;
         }
-        
-        // Calculate delay with exponential backoff
-        const delay = Math.min(
-          this.retryConfig.baseDelay * Math.pow(this.retryConfig.backoffMultiplier, attempt),
-          this.retryConfig.maxDelay
-        );
-        
+
+        const delay = this.getRetryDelay(lastError, attempt);
+        if (delay === null) {
+          break;
+        }
+
         logger.warn(`Request failed (attempt ${attempt + 1}), retrying in ${delay}ms...`, {
-          error: getErrorMessage(error),
+          error: lastError.message,
         });
-        
-        await sleep(delay);
+
+        await this.sleep(delay);
       }
     }
-    
+
     // All retries exhausted
     throw lastError || new NetworkError('Request failed after all retries');
   }
 
   /**
-   * Fetch with timeout
-   * @param url - URL to fetch
-   * @param options - Fetch options
-   * @returns Response
-   * @private
+   * Called before every attempt; subclasses can wait here for rate limits
+   * @protected
    */
-  private async fetchWithTimeout(
-    url: string,
-    options: RequestInit
-  ): Promise<Response> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-    
-    try {
-      const response = await fetch(url, {
-        ...options,
-        signal: controller.signal,
-      });
-      return response;
-    } finally {
-      clearTimeout(timeoutId);
-    }
+  protected async beforeRequest(): Promise<void> {
+    // Nothing to wait for by default
   }
 
   /**
-   * Handles error responses
+   * Called with every response, successful or not, before it is checked
    * @param response - HTTP response
-   * @param attempt - Current attempt number
+   * @protected
+   */
+  protected onResponse(response: Response): void {
+    void response;
+  }
+
+  /**
+   * Throws the error matching a failed response
+   * @param response - HTTP response
+   * @param body - Parsed response body (raw text if it isn't JSON)
    * @throws Error based on status code
-   * @private
+   * @protected
    */
-  private async handleErrorResponse(response: Response, attempt: number): Promise<void> {
+  protected checkResponse(response: Response, body: unknown): void {
+    if (response.ok) return;
+
     const status = response.status;
-    
+    const detail = getErrorDetail(body);
+    const message = `${this.integration} API error: ${status} ${response.statusText}${detail ? ` - ${detail}` : ''}`;
+
     // Authentication errors (don't retry)
     if (status === 401 || status === 403) {
-      throw new AuthenticationError(
-        `Authentication failed: ${response.statusText}`,
-        this.baseUrl
-      );
+      throw new AuthenticationError(message, this.integration);
     }
-    
+
     // Rate limiting
     if (status === 429) {
-      const retryAfter = parseInt(response.headers.get('Retry-After') || '60');
-      throw new RateLimitError(
-        `Rate limit exceeded. Retry after ${retryAfter} seconds.`,
-        retryAfter
-      );
+      throw new RateLimitError(message, this.getRetryAfter(response));
     }
-    
-    // Server errors (retry if configured)
+
+    // Server errors (retry if configured); an overloaded server may say when to come back
     if (status >= 500 && this.retryConfig.retryOnStatus?.includes(status)) {
-      throw new NetworkError(`Server error: ${status} ${response.statusText}`);
+      const retryAfter = this.getRetryAfter(response);
+      throw retryAfter !== undefined ? new RateLimitError(message, retryAfter) : new NetworkError(message);
     }
-    
+
     // Other errors (don't retry)
-    let errorMessage = `HTTP ${status}: ${response.statusText}`;
+    throw new IntegrationError(message, this.integration, status);
+  }
+
+  /**
+   * Reads how long to wait before retrying from the Retry-After header
+   * @param response - HTTP response
+   * @returns Seconds to wait, or undefined without a (valid) header
+   * @protected
+   */
+  protected getRetryAfter(response: Response): number | undefined {
+    const header = response.headers.get('Retry-After');
+    if (!header) return undefined;
+
+    // Either a number of seconds or an HTTP date
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return Math.max(0, seconds);
+    const date = Date.parse(header);
+    return isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000);
+  }
+
+  /**
+   * Delay before the next attempt: the server's Retry-After for rate limits,
+   * exponential backoff otherwise
+   * @param error - Error of the failed attempt
+   * @param attempt - Failed attempt number (0-based)
+   * @returns Delay in milliseconds, or null if the wait is too long to retry
+   * @private
+   */
+  private getRetryDelay(error: Error, attempt: number): number | null {
+    if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+      const wait = Math.ceil(error.retryAfter * 1000);
+      return wait <= (this.retryConfig.maxRateLimitWait ?? RETRY.MAX_RATE_LIMIT_WAIT_MS) ? wait : null;
+    }
+    return Math.min(
+      this.retryConfig.baseDelay * Math.pow(this.retryConfig.backoffMultiplier, attempt),
+      this.retryConfig.maxDelay
+    );
+  }
+
+  /**
+   * Fetch with timeout, covering the response body as well
+   * @param url - URL to fetch
+   * @param options - Fetch options
+   * @returns Response and its body text
+   * @private
+   */
+  private async fetchWithTimeout(
+    url: string,
+    options: RequestInit
+  ): Promise<{ response: Response; text: string }> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
     try {
-      const errorBody = await response.json() as { message?: string };
-      if (errorBody.message) {
-        errorMessage += ` - ${errorBody.message}`;
-      }
-    } catch {
-      // Ignore JSON parse errors
+      const response = await fetch(url, {
+        ...options,
+        signal: controller.signal,
+      });
+      return { response, text: await response.text() };
+    } finally {
+      clearTimeout(timeoutId);
     }
-    
-    throw new NetworkError(errorMessage);
   }
 
   /**
@@ -191,17 +267,36 @@ export class BaseHttpClient {
    * @private
    */
   private standardizeError(error: unknown): Error {
+    if (error instanceof Error && error.name === 'AbortError') {
+      return new NetworkError(`${this.integration} request timed out after ${this.timeout}ms`);
+    }
+
+    // fetch rejects with a TypeError when the connection fails
+    if (error instanceof TypeError) {
+      const cause = (error as TypeError & { cause?: unknown }).cause;
+      return new NetworkError(`${this.integration} request failed: ${getErrorMessage(cause ?? error)}`);
+    }
+
     if (error instanceof Error) {
       return error;
     }
-    
+
     if (typeof error === 'string') {
       return new NetworkError(error);
     }
-    
+
     return new NetworkError('Unknown error occurred');
   }
 
+  /**
+   * Waits between requests, e.g. between pages of results
+   * @param ms - Milliseconds to wait
+   * @protected
+   */
+  protected sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
   /**
    * GET request
    * @param url - URL to request
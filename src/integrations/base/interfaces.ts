@@ -2,6 +2,9 @@
 // Base Integration Interfaces
 // ============================================
 
+import { IssueTracker, NormalizedIssue, PullRequest, ReviewPlatform, TrackerMetrics } from '../../types';
+import { GitRemote } from '../../core/git-runner';
+
 /**
  * Connection test result
  */
@@ -16,6 +19,10 @@ export interface ConnectionResult {
  * Generic fetch options for integration clients
  */
 export interface FetchOptions {
+  /** Jira project key or Linear team name/key; all visible issues when omitted */
+  project?: string;
+  /** Only issues assigned to this user (email) */
+  assignee?: string;
   since?: Date;
   until?: Date;
   limit?: number;
@@ -36,13 +43,145 @@ export interface IIntegrationClient {
 /**
  * Base interface for issue tracking integrations (Jira, Linear)
  */
-export interface IIssueTrackingClient extends IIntegrationClient {
+export interface IIssueTrackingClient<TIssue = any> extends IIntegrationClient {
   /**
    * Fetches issues from the integration
    * @param options - Fetch options (filters, pagination)
    * @returns Promise with array of issues
    */
-  fetchIssues(options: FetchOptions): Promise<any[]>;
+  fetchIssues(options: FetchOptions): Promise<TIssue[]>;
+}
+
+/**
+ * Base interface for code review integrations (GitHub, GitLab)
+ */
+export interface IPullRequestClient<TPullRequest = any> extends IIntegrationClient {
+  /**
+   * Fetches the pull requests opened in a period, with their reviews
+   * @param repository - Repository as the platform names it (e.g. "owner/repo")
+   * @param options - Period; all pull requests when omitted
+   * @returns Promise with array of pull requests
+   */
+  fetchPullRequests(repository: string, options: { since?: Date; until?: Date }): Promise<TPullRequest[]>;
+}
+
+/**
+ * What a tracker's metrics are fetched for
+ */
+export interface TrackerMetricsOptions {
+  /** Jira project key, Linear team name, ... */
+  project: string;
+  /** Start of the period (YYYY-MM-DD) */
+  since: string;
+  /** End of the period (YYYY-MM-DD) */
+  until: string;
+  /** Only issues assigned to this user (email); the whole project when omitted */
+  assignee?: string;
+}
+
+/**
+ * A row of a tracker's report section: label and (formatted) value
+ */
+export type MetricRow = [label: string, value: string];
+
+/**
+ * An issue tracker gdm can report on. Commands iterate over the registered
+ * providers (see integrations/registry), so adding a tracker means adding a
+ * provider rather than touching every command.
+ *
+ * Without `getMetrics`, metrics are the shared tracker metrics over the
+ * normalized issues of `fetchIssues`.
+ */
+export interface IssueTrackerProvider<TIssue = any, TMetrics extends TrackerMetrics = TrackerMetrics> {
+  /** Tracker id, also the name of its CLI option (e.g. `--jira`) and output keys */
+  id: IssueTracker;
+  /** Display name */
+  name: string;
+  /** What metrics are scoped to, e.g. "project" or "team" */
+  scope: string;
+  /** Emoji of the tracker's report section */
+  icon: string;
+  /** How to configure the tracker, shown when it isn't */
+  setupHint: string;
+  /**
+   * Creates a client from the active configuration
+   * @returns The client, or null if the tracker isn't configured
+   */
+  createClient(): IIssueTrackingClient<TIssue> | null;
+  /**
+   * Maps the tracker's issues to the common issue model
+   * @param issues - Issues as fetched by the client
+   * @returns Normalized issues
+   */
+  normalize(issues: TIssue[]): NormalizedIssue[];
+  /**
+   * Calculates tracker-specific metrics (a superset of the shared ones)
+   * @param client - Client from createClient
+   * @param options - Project, period and assignee
+   * @returns Metrics
+   */
+  getMetrics?(client: IIssueTrackingClient<TIssue>, options: TrackerMetricsOptions): Promise<TMetrics>;
+  /**
+   * Rows added to the shared rows of the tracker's report section
+   * @param metrics - Metrics from getMetrics
+   * @param markdown - Whether the rows go into a markdown table (no colors)
+   */
+  reportRows?(metrics: TMetrics, markdown: boolean): MetricRow[];
+  /**
+   * Lines added to the shared summary of collected metrics (gdm show)
+   * @param metrics - Metrics from getMetrics
+   */
+  summaryLines?(metrics: TMetrics): string[];
+  /**
+   * Rows added to the shared rows of the collected CSV, as
+   * `[metric_name, value, unit]`
+   * @param metrics - Metrics from getMetrics
+   */
+  csvRows?(metrics: TMetrics): Array<[name: string, value: string | number, unit: string]>;
+  /**
+   * Reads a row written by csvRows back into metrics loaded from a collected
+   * CSV (gdm show)
+   * @param metrics - Metrics being rebuilt, the shared ones already read
+   * @param name - Metric name of the row
+   * @param value - Value of the row
+   */
+  parseCsvRow?(metrics: Partial<TMetrics>, name: string, value: string): void;
+}
+
+/**
+ * A code hosting platform gdm reports pull request reviews for. Like issue
+ * trackers, platforms are registered (see integrations/registry) and commands
+ * iterate over them; every platform reports the shared review metrics over
+ * its normalized pull requests.
+ */
+export interface ReviewProvider<TPullRequest = any> {
+  /** Platform id, also the name of its CLI option (e.g. `--github`) and output keys */
+  id: ReviewPlatform;
+  /** Display name */
+  name: string;
+  /** What the platform calls a pull request, e.g. "Merge Requests" */
+  label: string;
+  /** Form of a repository name, e.g. "owner/repo" */
+  repositoryFormat: string;
+  /** How to configure the platform, shown when it isn't */
+  setupHint: string;
+  /**
+   * Creates a client from the active configuration
+   * @returns The client, or null if the platform isn't configured
+   */
+  createClient(): IPullRequestClient<TPullRequest> | null;
+  /**
+   * Finds the repository of a git remote hosted on the configured instance
+   * @param remote - Parsed git remote
+   * @returns Repository name, or null if the remote is hosted elsewhere
+   */
+  getRepository(remote: GitRemote): string | null;
+  /**
+   * Maps the platform's pull requests to the common model
+   * @param prs - Pull requests as fetched by the client
+   * @returns Normalized pull requests
+   */
+  normalize(prs: TPullRequest[]): PullRequest[];
 }
 
 /**
@@ -57,6 +196,8 @@ export interface RetryConfig {
   maxDelay: number;
   /** Multiplier for exponential backoff */
   backoffMultiplier: number;
+  /** Longest Retry-After to wait for in milliseconds; longer waits fail right away */
+  maxRateLimitWait?: number;
   /** Whether to retry on specific HTTP status codes */
   retryOnStatus?: number[];
 }
@@ -67,6 +208,8 @@ export interface RetryConfig {
 export interface HttpClientConfig {
   /** Base URL for API */
   baseUrl: string;
+  /** Service name used in error messages (e.g. "Jira") */
+  integration?: string;
   /** Timeout in milliseconds */
   timeout?: number;
   /** Retry configuration */
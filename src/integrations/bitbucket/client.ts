@@ -0,0 +1,197 @@
+// ============================================
+// Bitbucket Cloud API Client (REST 2.0)
+// ============================================
+
+import { BitbucketConfig } from '../../config/integrations';
+import { PERFORMANCE } from '../../config/constants';
+import { BaseHttpClient } from '../base/http-client';
+import { ConnectionResult, IPullRequestClient } from '../base/interfaces';
+import { IntegrationError } from '../../utils/errors';
+import { parseRepository } from './metrics';
+import {
+  BitbucketActivity, BitbucketDiffStat, BitbucketPage, BitbucketPullRequest, BitbucketPullRequestWithActivity,
+  BitbucketRepository, BitbucketUser,
+} from './types';
+
+const BITBUCKET_API_URL = 'https://api.bitbucket.org/2.0';
+
+/** Largest page Bitbucket serves for pull requests and their activity */
+const PAGE_LENGTH = 50;
+
+/**
+ * Bitbucket Cloud API client for pull requests, their activity (approvals,
+ * change requests, comments, merges) and diffstats. Authenticates with an app
+ * password or API token and its username (Basic), or with a repository,
+ * project or workspace access token (Bearer).
+ *
+ * @example
+ * ```typescript
+ * const client = new BitbucketClient({ username: 'alice', token: 'app-password' });
+ * const prs = await client.getPullRequests({ workspace: 'acme', repo: 'api' }, { since: new Date('2024-01-01') });
+ * ```
+ */
+export class BitbucketClient extends BaseHttpClient implements IPullRequestClient<BitbucketPullRequestWithActivity> {
+  /**
+   * Creates a new Bitbucket API client.
+   *
+   * @param config - Bitbucket configuration containing the credentials
+   */
+  constructor(config: BitbucketConfig) {
+    super({
+      baseUrl: config.url || BITBUCKET_API_URL,
+      integration: 'Bitbucket',
+      timeout: config.timeout,
+      headers: {
+        'Authorization': config.username
+          ? `Basic ${Buffer.from(`${config.username}:${config.token}`).toString('base64')}`
+          : `Bearer ${config.token}`,
+        'Accept': 'application/json',
+      },
+    });
+  }
+
+  /**
+   * Tests the connection to Bitbucket by fetching the credentials' user.
+   *
+   * @returns Promise resolving to connection result with display name
+   */
+  async testConnection(): Promise<ConnectionResult> {
+    try {
+      const user = await this.get<BitbucketUser>('/user');
+      return { success: true, user: user.display_name };
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Lists pull requests of a repository in every state, newest first, opened
+   * in the period.
+   *
+   * @param repository - Workspace and repository slug
+   * @param options - Period; all pull requests when omitted
+   * @returns Promise resolving to pull requests as the list endpoint returns them
+   */
+  async listPullRequests(
+    repository: BitbucketRepository,
+    options: { since?: Date; until?: Date } = {}
+  ): Promise<BitbucketPullRequest[]> {
+    const states = ['OPEN', 'MERGED', 'DECLINED', 'SUPERSEDED'].map(state => `state=${state}`).join('&');
+    let next: string | undefined =
+      `${this.repoPath(repository)}/pullrequests?${states}&sort=-created_on&pagelen=${PAGE_LENGTH}`;
+    const pullRequests: BitbucketPullRequest[] = [];
+
+    while (next) {
+      const page: BitbucketPage<BitbucketPullRequest> = await this.get<BitbucketPage<BitbucketPullRequest>>(next);
+      for (const pr of page.values) {
+        const created = new Date(pr.created_on);
+        if (options.until && created > options.until) continue;
+        if (options.since && created < options.since) return pullRequests;
+        pullRequests.push(pr);
+      }
+      next = page.next;
+      if (next) await this.sleep(PERFORMANCE.API_DELAY_MS);
+    }
+    return pullRequests;
+  }
+
+  /**
+   * Gets the activity of a pull request, oldest first.
+   *
+   * @param repository - Workspace and repository slug
+   * @param id - Pull request id
+   * @returns Promise resolving to the activity
+   */
+  async getActivity(repository: BitbucketRepository, id: number): Promise<BitbucketActivity[]> {
+    const activity = await this.getAllPages<BitbucketActivity>(
+      `${this.repoPath(repository)}/pullrequests/${id}/activity?pagelen=${PAGE_LENGTH}`
+    );
+    // Bitbucket lists activity newest first
+    return activity.reverse();
+  }
+
+  /**
+   * Gets the changed files of a pull request with their added and removed lines.
+   *
+   * @param repository - Workspace and repository slug
+   * @param id - Pull request id
+   * @returns Promise resolving to the diffstat
+   */
+  async getDiffStat(repository: BitbucketRepository, id: number): Promise<BitbucketDiffStat[]> {
+    return this.getAllPages<BitbucketDiffStat>(
+      `${this.repoPath(repository)}/pullrequests/${id}/diffstat?pagelen=${PERFORMANCE.PAGINATION_SIZE}`
+    );
+  }
+
+  /**
+   * Gets the pull requests opened in the period with their activity and size.
+   * Drafts are left out: they aren't up for review yet.
+   *
+   * @param repository - Workspace and repository slug
+   * @param options - Period; all pull requests when omitted
+   * @returns Promise resolving to the pull requests, newest first
+   */
+  async getPullRequests(
+    repository: BitbucketRepository,
+    options: { since?: Date; until?: Date } = {}
+  ): Promise<BitbucketPullRequestWithActivity[]> {
+    const listed = await this.listPullRequests(repository, options);
+    const pullRequests: BitbucketPullRequestWithActivity[] = [];
+    for (const pr of listed.filter(pr => !pr.draft)) {
+      const activity = await this.getActivity(repository, pr.id);
+      const diffStat = await this.getDiffStat(repository, pr.id);
+      pullRequests.push({
+        ...pr,
+        activity,
+        additions: diffStat.reduce((sum, file) => sum + (file.lines_added || 0), 0),
+        deletions: diffStat.reduce((sum, file) => sum + (file.lines_removed || 0), 0),
+        changedFiles: diffStat.length,
+      });
+    }
+    return pullRequests;
+  }
+
+  /**
+   * Fetches the pull requests of a "workspace/repo" repository.
+   *
+   * @param repository - Repository name
+   * @param options - Period; all pull requests when omitted
+   * @returns Promise resolving to the pull requests, newest first
+   * @throws {IntegrationError} If the name isn't "workspace/repo"
+   */
+  async fetchPullRequests(
+    repository: string,
+    options: { since?: Date; until?: Date } = {}
+  ): Promise<BitbucketPullRequestWithActivity[]> {
+    const parsed = parseRepository(repository);
+    if (!parsed) {
+      throw new IntegrationError(`Invalid Bitbucket repository: ${repository} (expected workspace/repo)`, this.integration);
+    }
+    return this.getPullRequests(parsed, options);
+  }
+
+  /**
+   * Gets every page of a list endpoint, following the `next` links.
+   *
+   * @private
+   */
+  private async getAllPages<T>(path: string): Promise<T[]> {
+    const items: T[] = [];
+    let next: string | undefined = path;
+    while (next) {
+      const page: BitbucketPage<T> = await this.get<BitbucketPage<T>>(next);
+      items.push(...page.values);
+      next = page.next;
+    }
+    return items;
+  }
+
+  /**
+   * API path of a repository.
+   *
+   * @private
+   */
+  private repoPath({ workspace, repo }: BitbucketRepository): string {
+    return `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(repo)}`;
+  }
+}
@@ -0,0 +1,8 @@
+// ============================================
+// Bitbucket Integration - Exports
+// ============================================
+
+export * from './types';
+export * from './client';
+export * from './metrics';
+export * from './provider';
@@ -0,0 +1,96 @@
+// ============================================
+// Bitbucket Cloud Metrics Calculator
+// ============================================
+
+import { PullRequest, PullRequestReview } from '../../types';
+import { GitRemote } from '../../core/git-runner';
+import { BitbucketPullRequest, BitbucketPullRequestWithActivity, BitbucketRepository, BitbucketUser } from './types';
+
+const BITBUCKET_HOST = 'bitbucket.org';
+
+const STATES: Record<BitbucketPullRequest['state'], PullRequest['state']> = {
+  OPEN: 'open',
+  MERGED: 'merged',
+  DECLINED: 'closed',
+  SUPERSEDED: 'closed',
+};
+
+/**
+ * Whether a user is a person rather than an app or access token.
+ *
+ * @private
+ */
+function isPerson(user: BitbucketUser | null | undefined): user is BitbucketUser {
+  return !!user && user.type !== 'app_user';
+}
+
+/**
+ * Converts Bitbucket pull requests to the shared pull request model.
+ * Approvals and change requests come from the activity, comments on the
+ * diff count as commented reviews, and the merge or close time is that of
+ * the last state update (the pull request's last update without one).
+ *
+ * @param prs - Pull requests with their activity and size
+ * @returns Normalized pull requests; activity of apps and deleted comments are left out
+ */
+export function normalizePullRequests(prs: BitbucketPullRequestWithActivity[]): PullRequest[] {
+  return prs.map(pr => {
+    const reviews: PullRequestReview[] = [];
+    const comments: PullRequest['comments'] = [];
+    let closedAt: string | null = null;
+
+    for (const entry of pr.activity) {
+      if (entry.update && entry.update.state !== 'OPEN') {
+        closedAt = entry.update.date;
+      } else if (entry.approval && isPerson(entry.approval.user)) {
+        reviews.push({ reviewer: entry.approval.user.display_name, state: 'approved', submittedAt: entry.approval.date });
+      } else if (entry.changes_requested && isPerson(entry.changes_requested.user)) {
+        const { user, date } = entry.changes_requested;
+        reviews.push({ reviewer: user.display_name, state: 'changes_requested', submittedAt: date });
+      } else if (entry.comment && !entry.comment.deleted && isPerson(entry.comment.user)) {
+        const { user, created_on, inline } = entry.comment;
+        comments.push({ author: user.display_name, createdAt: created_on });
+        if (inline) reviews.push({ reviewer: user.display_name, state: 'commented', submittedAt: created_on });
+      }
+    }
+    if (pr.state !== 'OPEN') closedAt = closedAt ?? pr.updated_on;
+
+    return {
+      platform: 'bitbucket',
+      number: pr.id,
+      title: pr.title,
+      author: pr.author?.display_name ?? 'Former user',
+      state: STATES[pr.state],
+      createdAt: pr.created_on,
+      mergedAt: pr.state === 'MERGED' ? closedAt : null,
+      closedAt,
+      additions: pr.additions,
+      deletions: pr.deletions,
+      changedFiles: pr.changedFiles,
+      reviews: reviews.sort((a, b) => a.submittedAt.localeCompare(b.submittedAt)),
+      comments: comments.sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+      pipelines: null,
+    };
+  });
+}
+
+/**
+ * Parses a "workspace/repo" repository name.
+ *
+ * @param name - Repository name
+ * @returns Workspace and slug, or null if it isn't "workspace/repo"
+ */
+export function parseRepository(name: string): BitbucketRepository | null {
+  const match = name.trim().match(/^([\w.-]+)\/([\w.-]+?)(?:\.git)?$/);
+  return match ? { workspace: match[1], repo: match[2] } : null;
+}
+
+/**
+ * Finds the Bitbucket Cloud repository of a git remote.
+ *
+ * @param remote - Parsed git remote
+ * @returns Workspace and slug, or null if the remote is hosted elsewhere
+ */
+export function getRepositoryFromRemote(remote: GitRemote): BitbucketRepository | null {
+  return remote.host === BITBUCKET_HOST ? parseRepository(remote.path) : null;
+}
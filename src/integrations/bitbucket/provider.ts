@@ -0,0 +1,32 @@
+// ============================================
+// Bitbucket Cloud Code Review Provider
+// ============================================
+
+import { getBitbucketConfig } from '../../config/integrations';
+import { ReviewProvider } from '../base/interfaces';
+import { BitbucketClient } from './client';
+import { getRepositoryFromRemote, normalizePullRequests } from './metrics';
+import { BitbucketPullRequestWithActivity } from './types';
+
+/**
+ * Bitbucket Cloud as a code review provider.
+ */
+export const bitbucketProvider: ReviewProvider<BitbucketPullRequestWithActivity> = {
+  id: 'bitbucket',
+  name: 'Bitbucket',
+  label: 'Pull Requests',
+  repositoryFormat: 'workspace/repo',
+  setupHint: 'set BITBUCKET_TOKEN',
+
+  createClient() {
+    const config = getBitbucketConfig();
+    return config ? new BitbucketClient(config) : null;
+  },
+
+  getRepository(remote) {
+    const repository = getRepositoryFromRemote(remote);
+    return repository && `${repository.workspace}/${repository.repo}`;
+  },
+
+  normalize: normalizePullRequests,
+};
@@ -0,0 +1,67 @@
+// ============================================
+// Bitbucket Cloud Types & Interfaces
+// ============================================
+
+// API Response Types
+export interface BitbucketUser {
+  display_name: string;
+  uuid?: string;
+  account_id?: string;
+  nickname?: string;
+  /** "user", or "app_user" for apps and access tokens */
+  type?: string;
+}
+
+/** A page of a list endpoint; `next` is the absolute URL of the next page */
+export interface BitbucketPage<T> {
+  values: T[];
+  next?: string;
+}
+
+export interface BitbucketPullRequest {
+  id: number;
+  title: string;
+  state: 'OPEN' | 'MERGED' | 'DECLINED' | 'SUPERSEDED';
+  draft?: boolean;
+  author: BitbucketUser | null;
+  created_on: string;
+  updated_on: string;
+}
+
+export interface BitbucketComment {
+  id: number;
+  user: BitbucketUser | null;
+  created_on: string;
+  deleted?: boolean;
+  /** Set on comments on the diff */
+  inline?: { path: string };
+}
+
+/** An entry of a pull request's activity: one of its keys is set */
+export interface BitbucketActivity {
+  update?: { state: BitbucketPullRequest['state']; date: string; author: BitbucketUser | null };
+  approval?: { date: string; user: BitbucketUser | null };
+  changes_requested?: { date: string; user: BitbucketUser | null };
+  comment?: BitbucketComment;
+}
+
+export interface BitbucketDiffStat {
+  lines_added: number;
+  lines_removed: number;
+  status: string;
+}
+
+/** A pull request with its activity and size */
+export interface BitbucketPullRequestWithActivity extends BitbucketPullRequest {
+  /** Activity, oldest first */
+  activity: BitbucketActivity[];
+  additions: number;
+  deletions: number;
+  changedFiles: number;
+}
+
+/** Workspace and slug of a repository */
+export interface BitbucketRepository {
+  workspace: string;
+  repo: string;
+}
@@ -0,0 +1,232 @@
+// ============================================
+// GitHub API Client (REST)
+// ============================================
+
+import { GitHubConfig } from '../../config/integrations';
+import { PERFORMANCE } from '../../config/constants';
+import { BaseHttpClient } from '../base/http-client';
+import { ConnectionResult, IPullRequestClient } from '../base/interfaces';
+import { IntegrationError, RateLimitError } from '../../utils/errors';
+import { parseRepository } from './metrics';
+import {
+  GitHubComment, GitHubPullRequest, GitHubPullRequestDetail, GitHubPullRequestWithReviews, GitHubRepository,
+  GitHubReview, GitHubUser,
+} from './types';
+
+const GITHUB_API_URL = 'https://api.github.com';
+
+/**
+ * Reads a numeric response header.
+ *
+ * @private
+ */
+function getNumberHeader(response: Response, name: string): number | undefined {
+  const value = response.headers.get(name);
+  return value !== null && value !== '' && !isNaN(Number(value)) ? Number(value) : undefined;
+}
+
+/**
+ * GitHub API client for pull requests and their reviews.
+ * Works with github.com, GitHub Enterprise Server (`https://HOST/api/v3`) and
+ * any server speaking the same REST API. GitHub answers rate-limited requests
+ * with a 403 or 429 and the wait in Retry-After or X-RateLimit-Reset; those
+ * are retried like any other rate limit.
+ *
+ * @example
+ * ```typescript
+ * const client = new GitHubClient({ token: 'ghp_...' });
+ * const prs = await client.getPullRequests({ owner: 'acme', repo: 'api' }, { since: new Date('2024-01-01') });
+ * ```
+ */
+export class GitHubClient extends BaseHttpClient implements IPullRequestClient<GitHubPullRequestWithReviews> {
+  /**
+   * Creates a new GitHub API client.
+   *
+   * @param config - GitHub configuration containing the token and API URL
+   */
+  constructor(config: GitHubConfig) {
+    super({
+      baseUrl: config.url || GITHUB_API_URL,
+      integration: 'GitHub',
+      timeout: config.timeout,
+      headers: {
+        'Authorization': `Bearer ${config.token}`,
+        'Accept': 'application/vnd.github+json',
+        'X-GitHub-Api-Version': '2022-11-28',
+        'User-Agent': 'gdm',
+      },
+    });
+  }
+
+  /**
+   * Treats a 403 that exhausted the rate limit (primary or secondary) as a
+   * rate limit rather than a permission error.
+   *
+   * @protected
+   */
+  protected checkResponse(response: Response, body: unknown): void {
+    if (response.status === 403 &&
+        (getNumberHeader(response, 'X-RateLimit-Remaining') === 0 || response.headers.has('Retry-After'))) {
+      throw new RateLimitError(`GitHub rate limit exceeded: ${response.status} ${response.statusText}`, this.getRetryAfter(response));
+    }
+    super.checkResponse(response, body);
+  }
+
+  /**
+   * Reads the wait from Retry-After, or else from the reset time (epoch
+   * seconds) of the exhausted rate limit.
+   *
+   * @protected
+   */
+  protected getRetryAfter(response: Response): number | undefined {
+    const retryAfter = super.getRetryAfter(response);
+    if (retryAfter !== undefined) return retryAfter;
+
+    const reset = getNumberHeader(response, 'X-RateLimit-Reset');
+    return getNumberHeader(response, 'X-RateLimit-Remaining') === 0 && reset !== undefined
+      ? Math.max(0, reset - Date.now() / 1000)
+      : undefined;
+  }
+
+  /**
+   * Tests the connection to GitHub by fetching the token's user.
+   *
+   * @returns Promise resolving to connection result with user login
+   */
+  async testConnection(): Promise<ConnectionResult> {
+    try {
+      const user = await this.get<GitHubUser>('/user');
+      return { success: true, user: user.login };
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Lists pull requests of a repository, newest first, opened in the period.
+   *
+   * @param repository - Repository owner and name
+   * @param options - Period; all pull requests when omitted
+   * @returns Promise resolving to pull requests as the list endpoint returns them
+   */
+  async listPullRequests(
+    repository: GitHubRepository,
+    options: { since?: Date; until?: Date } = {}
+  ): Promise<GitHubPullRequest[]> {
+    const perPage = PERFORMANCE.PAGINATION_SIZE;
+    const pullRequests: GitHubPullRequest[] = [];
+
+    for (let page = 1; ; page++) {
+      const batch = await this.get<GitHubPullRequest[]>(
+        `${this.repoPath(repository)}/pulls?state=all&sort=created&direction=desc&per_page=${perPage}&page=${page}`
+      );
+      for (const pr of batch) {
+        const created = new Date(pr.created_at);
+        if (options.until && created > options.until) continue;
+        if (options.since && created < options.since) return pullRequests;
+        pullRequests.push(pr);
+      }
+      if (batch.length < perPage) return pullRequests;
+      await this.sleep(PERFORMANCE.API_DELAY_MS);
+    }
+  }
+
+  /**
+   * Gets a pull request with its size.
+   *
+   * @param repository - Repository owner and name
+   * @param number - Pull request number
+   * @returns Promise resolving to the pull request
+   */
+  async getPullRequest(repository: GitHubRepository, number: number): Promise<GitHubPullRequestDetail> {
+    return this.get<GitHubPullRequestDetail>(`${this.repoPath(repository)}/pulls/${number}`);
+  }
+
+  /**
+   * Gets the reviews of a pull request, oldest first.
+   *
+   * @param repository - Repository owner and name
+   * @param number - Pull request number
+   * @returns Promise resolving to the reviews
+   */
+  async getReviews(repository: GitHubRepository, number: number): Promise<GitHubReview[]> {
+    return this.getAllPages<GitHubReview>(`${this.repoPath(repository)}/pulls/${number}/reviews`);
+  }
+
+  /**
+   * Gets the comments of a pull request's conversation, oldest first.
+   *
+   * @param repository - Repository owner and name
+   * @param number - Pull request number
+   * @returns Promise resolving to the comments
+   */
+  async getComments(repository: GitHubRepository, number: number): Promise<GitHubComment[]> {
+    return this.getAllPages<GitHubComment>(`${this.repoPath(repository)}/issues/${number}/comments`);
+  }
+
+  /**
+   * Gets the pull requests opened in the period with their size, reviews and
+   * comments. Drafts are left out: they aren't up for review yet.
+   *
+   * @param repository - Repository owner and name
+   * @param options - Period; all pull requests when omitted
+   * @returns Promise resolving to the pull requests, newest first
+   */
+  async getPullRequests(
+    repository: GitHubRepository,
+    options: { since?: Date; until?: Date } = {}
+  ): Promise<GitHubPullRequestWithReviews[]> {
+    const listed = await this.listPullRequests(repository, options);
+    const pullRequests: GitHubPullRequestWithReviews[] = [];
+    for (const pr of listed.filter(pr => !pr.draft)) {
+      const detail = await this.getPullRequest(repository, pr.number);
+      const reviews = await this.getReviews(repository, pr.number);
+      const comments = await this.getComments(repository, pr.number);
+      pullRequests.push({ ...detail, reviews, comments });
+    }
+    return pullRequests;
+  }
+
+  /**
+   * Fetches the pull requests of an "owner/repo" repository.
+   *
+   * @param repository - Repository name
+   * @param options - Period; all pull requests when omitted
+   * @returns Promise resolving to the pull requests, newest first
+   * @throws {IntegrationError} If the name isn't "owner/repo"
+   */
+  async fetchPullRequests(
+    repository: string,
+    options: { since?: Date; until?: Date } = {}
+  ): Promise<GitHubPullRequestWithReviews[]> {
+    const parsed = parseRepository(repository);
+    if (!parsed) {
+      throw new IntegrationError(`Invalid GitHub repository: ${repository} (expected owner/repo)`, this.integration);
+    }
+    return this.getPullRequests(parsed, options);
+  }
+
+  /**
+   * Gets every page of a list endpoint.
+   *
+   * @private
+   */
+  private async getAllPages<T>(path: string): Promise<T[]> {
+    const perPage = PERFORMANCE.PAGINATION_SIZE;
+    const items: T[] = [];
+    for (let page = 1; ; page++) {
+      const batch = await this.get<T[]>(`${path}?per_page=${perPage}&page=${page}`);
+      items.push(...batch);
+      if (batch.length < perPage) return items;
+    }
+  }
+
+  /**
+   * API path of a repository.
+   *
+   * @private
+   */
+  private repoPath({ owner, repo }: GitHubRepository): string {
+    return `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  }
+}
@@ -0,0 +1,8 @@
+// ============================================
+// GitHub Integration - Exports
+// ============================================
+
+export * from './types';
+export * from './client';
+export * from './metrics';
+export * from './provider';
@@ -0,0 +1,84 @@
+// ============================================
+// GitHub Metrics Calculator
+// ============================================
+
+import { PullRequest, PullRequestReview } from '../../types';
+import { GitRemote } from '../../core/git-runner';
+import { GitHubPullRequestWithReviews, GitHubRepository, GitHubReview } from './types';
+
+/** Review states as the shared review metrics name them; pending reviews aren't submitted yet */
+const REVIEW_STATES: Record<GitHubReview['state'], PullRequestReview['state'] | null> = {
+  APPROVED: 'approved',
+  CHANGES_REQUESTED: 'changes_requested',
+  COMMENTED: 'commented',
+  DISMISSED: 'dismissed',
+  PENDING: null,
+};
+
+/**
+ * Converts GitHub pull requests to the shared pull request model.
+ *
+ * @param prs - Pull requests with their size, reviews and comments
+ * @returns Normalized pull requests; reviews and comments of deleted users,
+ *   and comments of bots, are left out
+ */
+export function normalizePullRequests(prs: GitHubPullRequestWithReviews[]): PullRequest[] {
+  return prs.map(pr => ({
+    platform: 'github',
+    number: pr.number,
+    title: pr.title,
+    author: pr.user?.login ?? 'ghost',
+    state: pr.merged_at ? 'merged' : pr.state,
+    createdAt: pr.created_at,
+    mergedAt: pr.merged_at,
+    closedAt: pr.closed_at,
+    additions: pr.additions,
+    deletions: pr.deletions,
+    changedFiles: pr.changed_files,
+    reviews: pr.reviews.flatMap(review => {
+      const state = REVIEW_STATES[review.state];
+      return state && review.user && review.submitted_at
+        ? [{ reviewer: review.user.login, state, submittedAt: review.submitted_at }]
+        : [];
+    }),
+    comments: pr.comments.flatMap(comment =>
+      comment.user && comment.user.type !== 'Bot'
+        ? [{ author: comment.user.login, createdAt: comment.created_at }]
+        : []
+    ),
+    pipelines: null,
+  }));
+}
+
+/**
+ * Parses an "owner/repo" repository name.
+ *
+ * @param name - Repository name
+ * @returns Owner and name, or null if it isn't "owner/repo"
+ */
+export function parseRepository(name: string): GitHubRepository | null {
+  const match = name.trim().match(/^([\w.-]+)\/([\w.-]+?)(?:\.git)?$/);
+  return match ? { owner: match[1], repo: match[2] } : null;
+}
+
+/**
+ * Finds the GitHub repository of a git remote, if the remote is hosted on the
+ * configured GitHub (github.com for the public API, the API URL's host for
+ * GitHub Enterprise).
+ *
+ * @param remote - Parsed git remote
+ * @param apiUrl - Configured API URL (default: https://api.github.com)
+ * @returns Owner and name, or null if the remote is hosted elsewhere
+ */
+export function getRepositoryFromRemote(remote: GitRemote, apiUrl?: string): GitHubRepository | null {
+  let apiHost = 'api.github.com';
+  if (apiUrl) {
+    try {
+      apiHost = new URL(apiUrl).hostname.toLowerCase();
+    } catch {
+      return null;
+    }
+  }
+  const host = apiHost === 'api.github.com' ? 'github.com' : apiHost;
+  return remote.host === host ? parseRepository(remote.path) : null;
+}
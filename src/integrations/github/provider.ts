@@ -0,0 +1,32 @@
+// ============================================
+// GitHub Code Review Provider
+// ============================================
+
+import { getGitHubConfig } from '../../config/integrations';
+import { ReviewProvider } from '../base/interfaces';
+import { GitHubClient } from './client';
+import { getRepositoryFromRemote, normalizePullRequests } from './metrics';
+import { GitHubPullRequestWithReviews } from './types';
+
+/**
+ * GitHub (github.com or Enterprise) as a code review provider.
+ */
+export const githubProvider: ReviewProvider<GitHubPullRequestWithReviews> = {
+  id: 'github',
+  name: 'GitHub',
+  label: 'Pull Requests',
+  repositoryFormat: 'owner/repo',
+  setupHint: 'set GITHUB_TOKEN',
+
+  createClient() {
+    const config = getGitHubConfig();
+    return config ? new GitHubClient(config) : null;
+  },
+
+  getRepository(remote) {
+    const repository = getRepositoryFromRemote(remote, getGitHubConfig()?.url);
+    return repository && `${repository.owner}/${repository.repo}`;
+  },
+
+  normalize: normalizePullRequests,
+};
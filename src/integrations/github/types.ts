@@ -0,0 +1,57 @@
+// ============================================
+// GitHub Types & Interfaces
+// ============================================
+
+// API Response Types
+export interface GitHubUser {
+  login: string;
+  name?: string | null;
+  /** "User", "Bot" or "Organization" */
+  type?: string;
+}
+
+/** A pull request as the list endpoint returns it */
+export interface GitHubPullRequest {
+  number: number;
+  title: string;
+  state: 'open' | 'closed';
+  draft?: boolean;
+  user: GitHubUser | null;
+  created_at: string;
+  closed_at: string | null;
+  merged_at: string | null;
+}
+
+/** A single pull request, with its size */
+export interface GitHubPullRequestDetail extends GitHubPullRequest {
+  additions: number;
+  deletions: number;
+  changed_files: number;
+}
+
+export interface GitHubReview {
+  id: number;
+  user: GitHubUser | null;
+  state: 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'DISMISSED' | 'PENDING';
+  /** Missing on pending reviews */
+  submitted_at?: string;
+}
+
+/** A comment in a pull request's conversation */
+export interface GitHubComment {
+  id: number;
+  user: GitHubUser | null;
+  created_at: string;
+}
+
+/** A pull request with its size, reviews and conversation */
+export interface GitHubPullRequestWithReviews extends GitHubPullRequestDetail {
+  reviews: GitHubReview[];
+  comments: GitHubComment[];
+}
+
+/** Owner and name of a repository */
+export interface GitHubRepository {
+  owner: string;
+  repo: string;
+}
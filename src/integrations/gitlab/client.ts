@@ -0,0 +1,230 @@
+// ============================================
+// GitLab API Client (REST v4)
+// ============================================
+
+import { GitLabConfig } from '../../config/integrations';
+import { PERFORMANCE } from '../../config/constants';
+import { BaseHttpClient } from '../base/http-client';
+import { ConnectionResult, IPullRequestClient } from '../base/interfaces';
+import {
+  GitLabApprovals, GitLabDiff, GitLabDiscussion, GitLabMergeRequest, GitLabMergeRequestWithReviews, GitLabNote,
+  GitLabPipeline, GitLabUser,
+} from './types';
+
+export const GITLAB_URL = 'https://gitlab.com';
+
+/**
+ * Counts added and removed lines of a unified diff.
+ *
+ * @param diff - Diff of one file, as GitLab returns it (hunks without file headers)
+ * @returns Added and removed lines
+ */
+export function countDiffLines(diff: string): { additions: number; deletions: number } {
+  let additions = 0;
+  let deletions = 0;
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+')) additions++;
+    else if (line.startsWith('-')) deletions++;
+  }
+  return { additions, deletions };
+}
+
+/**
+ * GitLab API client for merge requests and their approvals, discussions,
+ * pipelines and diffs. Works with gitlab.com and self-managed instances.
+ * GitLab answers rate-limited requests with a 429 and the wait in Retry-After
+ * or RateLimit-Reset; those are retried like any other rate limit.
+ *
+ * @example
+ * ```typescript
+ * const client = new GitLabClient({ token: 'glpat-...', url: 'https://gitlab.acme.com' });
+ * const mrs = await client.getMergeRequests('platform/api', { since: new Date('2024-01-01') });
+ * ```
+ */
+export class GitLabClient extends BaseHttpClient implements IPullRequestClient<GitLabMergeRequestWithReviews> {
+  /**
+   * Creates a new GitLab API client.
+   *
+   * @param config - GitLab configuration containing the token and instance URL
+   */
+  constructor(config: GitLabConfig) {
+    super({
+      baseUrl: `${(config.url || GITLAB_URL).replace(/\/+$/, '')}/api/v4`,
+      integration: 'GitLab',
+      timeout: config.timeout,
+      headers: {
+        'PRIVATE-TOKEN': config.token,
+        'Accept': 'application/json',
+      },
+    });
+  }
+
+  /**
+   * Reads the wait from Retry-After, or else from the reset time (epoch
+   * seconds) of the exhausted rate limit. GitLab sends RateLimit-Reset on
+   * every response, so it only counts on a 429 or with no requests left.
+   *
+   * @protected
+   */
+  protected getRetryAfter(response: Response): number | undefined {
+    const retryAfter = super.getRetryAfter(response);
+    if (retryAfter !== undefined) return retryAfter;
+
+    const exhausted = response.status === 429 || response.headers.get('RateLimit-Remaining') === '0';
+    const reset = Number(response.headers.get('RateLimit-Reset') || NaN);
+    return exhausted && !isNaN(reset) ? Math.max(0, reset - Date.now() / 1000) : undefined;
+  }
+
+  /**
+   * Tests the connection to GitLab by fetching the token's user.
+   *
+   * @returns Promise resolving to connection result with username
+   */
+  async testConnection(): Promise<ConnectionResult> {
+    try {
+      const user = await this.get<GitLabUser>('/user');
+      return { success: true, user: user.username };
+    } catch (error: unknown) {
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Lists merge requests of a project, newest first, opened in the period.
+   *
+   * @param project - Project path with its groups (e.g. "platform/backend/api")
+   * @param options - Period; all merge requests when omitted
+   * @returns Promise resolving to merge requests as the list endpoint returns them
+   */
+  async listMergeRequests(
+    project: string,
+    options: { since?: Date; until?: Date } = {}
+  ): Promise<GitLabMergeRequest[]> {
+    const params = new URLSearchParams({ state: 'all', order_by: 'created_at', sort: 'desc' });
+    if (options.since) params.set('created_after', options.since.toISOString());
+    if (options.until) params.set('created_before', options.until.toISOString());
+    return this.getAllPages<GitLabMergeRequest>(`${this.projectPath(project)}/merge_requests?${params}`);
+  }
+
+  /**
+   * Gets the notes of a merge request's discussions, oldest first, including
+   * the system notes recording approvals.
+   *
+   * @param project - Project path
+   * @param iid - Merge request number within the project
+   * @returns Promise resolving to the notes
+   */
+  async getNotes(project: string, iid: number): Promise<GitLabNote[]> {
+    const discussions = await this.getAllPages<GitLabDiscussion>(
+      `${this.projectPath(project)}/merge_requests/${iid}/discussions`
+    );
+    return discussions
+      .flatMap(discussion => discussion.notes)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  /**
+   * Gets who currently approves a merge request.
+   *
+   * @param project - Project path
+   * @param iid - Merge request number within the project
+   * @returns Promise resolving to the approvers' usernames
+   */
+  async getApprovers(project: string, iid: number): Promise<string[]> {
+    const approvals = await this.get<GitLabApprovals>(`${this.projectPath(project)}/merge_requests/${iid}/approvals`);
+    return (approvals.approved_by ?? []).map(approval => approval.user.username);
+  }
+
+  /**
+   * Gets the pipelines run for a merge request.
+   *
+   * @param project - Project path
+   * @param iid - Merge request number within the project
+   * @returns Promise resolving to the pipelines
+   */
+  async getPipelines(project: string, iid: number): Promise<GitLabPipeline[]> {
+    return this.getAllPages<GitLabPipeline>(`${this.projectPath(project)}/merge_requests/${iid}/pipelines`);
+  }
+
+  /**
+   * Gets the changed files of a merge request with their diffs.
+   *
+   * @param project - Project path
+   * @param iid - Merge request number within the project
+   * @returns Promise resolving to the diffs
+   */
+  async getDiffs(project: string, iid: number): Promise<GitLabDiff[]> {
+    return this.getAllPages<GitLabDiff>(`${this.projectPath(project)}/merge_requests/${iid}/diffs`);
+  }
+
+  /**
+   * Gets the merge requests opened in the period with their notes, approvers,
+   * pipelines and size. Drafts are left out: they aren't up for review yet.
+   *
+   * @param project - Project path
+   * @param options - Period; all merge requests when omitted
+   * @returns Promise resolving to the merge requests, newest first
+   */
+  async getMergeRequests(
+    project: string,
+    options: { since?: Date; until?: Date } = {}
+  ): Promise<GitLabMergeRequestWithReviews[]> {
+    const listed = await this.listMergeRequests(project, options);
+    const mergeRequests: GitLabMergeRequestWithReviews[] = [];
+    for (const mr of listed.filter(mr => !mr.draft)) {
+      const notes = await this.getNotes(project, mr.iid);
+      const approvedBy = await this.getApprovers(project, mr.iid);
+      const pipelines = await this.getPipelines(project, mr.iid);
+      const diffs = await this.getDiffs(project, mr.iid);
+      let additions = 0;
+      let deletions = 0;
+      for (const file of diffs) {
+        const lines = countDiffLines(file.diff);
+        additions += lines.additions;
+        deletions += lines.deletions;
+      }
+      mergeRequests.push({ ...mr, notes, approvedBy, pipelines, additions, deletions, changedFiles: diffs.length });
+    }
+    return mergeRequests;
+  }
+
+  /**
+   * Fetches the merge requests of a project.
+   *
+   * @param repository - Project path with its groups
+   * @param options - Period; all merge requests when omitted
+   * @returns Promise resolving to the merge requests, newest first
+   */
+  async fetchPullRequests(
+    repository: string,
+    options: { since?: Date; until?: Date } = {}
+  ): Promise<GitLabMergeRequestWithReviews[]> {
+    return this.getMergeRequests(repository, options);
+  }
+
+  /**
+   * Gets every page of a list endpoint.
+   *
+   * @private
+   */
+  private async getAllPages<T>(path: string): Promise<T[]> {
+    const perPage = PERFORMANCE.PAGINATION_SIZE;
+    const separator = path.includes('?') ? '&' : '?';
+    const items: T[] = [];
+    for (let page = 1; ; page++) {
+      const batch = await this.get<T[]>(`${path}${separator}per_page=${perPage}&page=${page}`);
+      items.push(...batch);
+      if (batch.length < perPage) return items;
+      await this.sleep(PERFORMANCE.API_DELAY_MS);
+    }
+  }
+
+  /**
+   * API path of a project; GitLab takes the URL-encoded path as its id.
+   *
+   * @private
+   */
+  private projectPath(project: string): string {
+    return `/projects/${encodeURIComponent(project.replace(/^\/+|\/+$/g, ''))}`;
+  }
+}
@@ -0,0 +1,105 @@
+// ============================================
+// GitLab Metrics Calculator
+// ============================================
+
+import { PullRequest, PullRequestReview } from '../../types';
+import { GitRemote } from '../../core/git-runner';
+import { GitLabMergeRequest, GitLabMergeRequestWithReviews, GitLabNote } from './types';
+import { GITLAB_URL } from './client';
+
+/** System notes that record a review, and the review state they stand for */
+const REVIEW_NOTES: Array<[RegExp, PullRequestReview['state']]> = [
+  [/^approved this merge request/i, 'approved'],
+  [/^unapproved this merge request/i, 'dismissed'],
+  [/^requested changes/i, 'changes_requested'],
+];
+
+const STATES: Record<GitLabMergeRequest['state'], PullRequest['state']> = {
+  opened: 'open',
+  merged: 'merged',
+  closed: 'closed',
+  locked: 'closed',
+};
+
+/**
+ * Reads the review a note records: an approval, unapproval or change request
+ * from a system note, or a comment on the diff.
+ *
+ * @private
+ */
+function toReview(note: GitLabNote): PullRequestReview | null {
+  if (!note.author) return null;
+  if (!note.system) {
+    return note.type === 'DiffNote' && !note.author.bot
+      ? { reviewer: note.author.username, state: 'commented', submittedAt: note.created_at }
+      : null;
+  }
+  const match = REVIEW_NOTES.find(([pattern]) => pattern.test(note.body.trim()));
+  return match ? { reviewer: note.author.username, state: match[1], submittedAt: note.created_at } : null;
+}
+
+/**
+ * Converts GitLab merge requests to the shared pull request model. GitLab
+ * has no review objects: approvals and change requests come from the system
+ * notes that record them, and comments on the diff count as commented
+ * reviews. Current approvers without such a note (e.g. approvals older than
+ * the instance's note history) are taken to have approved at the merge.
+ *
+ * @param mrs - Merge requests with their notes, approvers, pipelines and size
+ * @returns Normalized pull requests; notes of deleted users and bots are left out
+ */
+export function normalizeMergeRequests(mrs: GitLabMergeRequestWithReviews[]): PullRequest[] {
+  return mrs.map(mr => {
+    const reviews = mr.notes.flatMap(note => toReview(note) ?? []);
+    if (mr.merged_at) {
+      for (const approver of mr.approvedBy) {
+        if (!reviews.some(review => review.reviewer === approver && review.state === 'approved')) {
+          reviews.push({ reviewer: approver, state: 'approved', submittedAt: mr.merged_at });
+        }
+      }
+    }
+
+    return {
+      platform: 'gitlab',
+      number: mr.iid,
+      title: mr.title,
+      author: mr.author?.username ?? 'ghost',
+      state: STATES[mr.state],
+      createdAt: mr.created_at,
+      mergedAt: mr.merged_at,
+      closedAt: mr.closed_at ?? mr.merged_at,
+      additions: mr.additions,
+      deletions: mr.deletions,
+      changedFiles: mr.changedFiles,
+      reviews: reviews.sort((a, b) => a.submittedAt.localeCompare(b.submittedAt)),
+      comments: mr.notes.flatMap(note =>
+        !note.system && note.author && !note.author.bot
+          ? [{ author: note.author.username, createdAt: note.created_at }]
+          : []
+      ),
+      pipelines: {
+        succeeded: mr.pipelines.filter(pipeline => pipeline.status === 'success').length,
+        failed: mr.pipelines.filter(pipeline => pipeline.status === 'failed').length,
+      },
+    };
+  });
+}
+
+/**
+ * Finds the GitLab project of a git remote, if the remote is hosted on the
+ * configured instance.
+ *
+ * @param remote - Parsed git remote
+ * @param url - Configured instance URL (default: https://gitlab.com)
+ * @returns Project path with its groups (e.g. "platform/backend/api"), or
+ *   null if the remote is hosted elsewhere
+ */
+export function getProjectFromRemote(remote: GitRemote, url: string = GITLAB_URL): string | null {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+  return remote.host === host && remote.path.includes('/') ? remote.path : null;
+}
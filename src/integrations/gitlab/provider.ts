@@ -0,0 +1,32 @@
+// ============================================
+// GitLab Code Review Provider
+// ============================================
+
+import { getGitLabConfig } from '../../config/integrations';
+import { ReviewProvider } from '../base/interfaces';
+import { GitLabClient } from './client';
+import { getProjectFromRemote, normalizeMergeRequests } from './metrics';
+import { GitLabMergeRequestWithReviews } from './types';
+
+/**
+ * GitLab (gitlab.com or self-managed) as a code review provider. Unlike
+ * GitHub, it reports the pipelines of every merge request.
+ */
+export const gitlabProvider: ReviewProvider<GitLabMergeRequestWithReviews> = {
+  id: 'gitlab',
+  name: 'GitLab',
+  label: 'Merge Requests',
+  repositoryFormat: 'group/project',
+  setupHint: 'set GITLAB_TOKEN',
+
+  createClient() {
+    const config = getGitLabConfig();
+    return config ? new GitLabClient(config) : null;
+  },
+
+  getRepository(remote) {
+    return getProjectFromRemote(remote, getGitLabConfig()?.url);
+  },
+
+  normalize: normalizeMergeRequests,
+};
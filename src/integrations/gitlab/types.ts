@@ -0,0 +1,69 @@
+// ============================================
+// GitLab Types & Interfaces
+// ============================================
+
+// API Response Types
+export interface GitLabUser {
+  id: number;
+  username: string;
+  name?: string;
+  /** True for project and group access tokens, service accounts, etc. */
+  bot?: boolean;
+}
+
+/** A merge request as the list endpoint returns it */
+export interface GitLabMergeRequest {
+  id: number;
+  iid: number;
+  title: string;
+  state: 'opened' | 'closed' | 'merged' | 'locked';
+  draft?: boolean;
+  author: GitLabUser | null;
+  created_at: string;
+  merged_at: string | null;
+  closed_at: string | null;
+}
+
+/** A note (comment or system event) in a merge request discussion */
+export interface GitLabNote {
+  id: number;
+  /** "DiffNote" for comments on the diff, null for comments on the merge request */
+  type: string | null;
+  body: string;
+  author: GitLabUser | null;
+  created_at: string;
+  /** True for events GitLab records itself ("approved this merge request", ...) */
+  system: boolean;
+}
+
+export interface GitLabDiscussion {
+  id: string;
+  notes: GitLabNote[];
+}
+
+export interface GitLabApprovals {
+  approved_by: Array<{ user: GitLabUser }>;
+}
+
+export interface GitLabPipeline {
+  id: number;
+  status: 'created' | 'waiting_for_resource' | 'preparing' | 'pending' | 'running' | 'success' | 'failed'
+    | 'canceled' | 'skipped' | 'manual' | 'scheduled';
+}
+
+/** A changed file of a merge request, with its unified diff */
+export interface GitLabDiff {
+  new_path: string;
+  old_path: string;
+  diff: string;
+}
+
+/** A merge request with everything its review metrics need */
+export interface GitLabMergeRequestWithReviews extends GitLabMergeRequest {
+  notes: GitLabNote[];
+  approvedBy: string[];
+  pipelines: GitLabPipeline[];
+  additions: number;
+  deletions: number;
+  changedFiles: number;
+}
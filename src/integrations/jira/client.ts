@@ -3,54 +3,28 @@
 // ============================================
 
 import { JiraConfig } from '../../config/integrations';
-import { JiraIssue, JiraSearchResult, JiraSprint, JiraSprintResult, JiraBoardResult, JiraFilterOptions } from './types';
+import { PERFORMANCE } from '../../config/constants';
+import { BaseHttpClient } from '../base/http-client';
+import { ConnectionResult, FetchOptions, IIssueTrackingClient } from '../base/interfaces';
+import { format } from 'date-fns';
+import {
+  JiraIssue, JiraSearchResult, JiraSprint, JiraSprintResult, JiraBoardResult, JiraFilterOptions, JiraProjectStatus,
+  JiraSprintIssues, DEFAULT_STORY_POINTS_FIELD,
+} from './types';
 
-/**
- * Sleeps for a specified duration.
- * 
- * @param ms - Milliseconds to sleep
- * @returns Promise that resolves after the delay
- * @private
- */
-async function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
+/** Fields fetched by issue searches unless others are requested */
+const DEFAULT_SEARCH_FIELDS = [
+  'summary', 'status', 'issuetype', 'assignee', 'reporter', 'created', 'updated', 'resolutiondate', 'priority', 'labels',
+];
 
-/**
- * Executes a function with retry logic for handling transient failures.
- * Automatically retries on rate limits (429) and transient errors.
- * 
- * @template T
- * @param fn - Function to execute
- * @param maxRetries - Maximum number of retry attempts (default: 3)
- * @param baseDelay - Base delay in milliseconds (default: 1000)
- * @returns Promise resolving to the function's return value
- * @throws {Error} If max retries exceeded or authentication fails
- * @private
- */
-async function withRetry<T>(fn: () => Promise<T>, maxRetries = 3, baseDelay = 1000): Promise<T> {
-  let lastError: Error | null = null;
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      return await fn();
-    } catch (error: unknown) {
-      lastError = error as Error;
-      const err = error as { status?: number; retryAfter?: number };
-      if (err.status === 401 || err.status === 403) throw error;
-      if (err.status === 429) {
-        await sleep(err.retryAfter || baseDelay * Math.pow(2, attempt));
-        continue;
-      }
-      if (attempt < maxRetries - 1) await sleep(baseDelay * Math.pow(2, attempt));
-    }
-  }
-  throw lastError || new Error('Max retries exceeded');
-}
+/** Names Jira gives the story points field (company-managed and team-managed projects) */
+const STORY_POINTS_FIELD_NAMES = ['story point estimate', 'story points'];
 
 /**
  * Jira API client for interacting with Atlassian Jira.
  * Supports issue search, project queries, sprint data, and board information.
- * Includes automatic retry logic and rate limit handling.
+ * Requests go through BaseHttpClient: retried with backoff on transient errors
+ * and after Retry-After on rate limits, with the configured timeout.
  * 
  * @example
  * ```typescript
@@ -58,9 +32,8 @@ async function withRetry<T>(fn: () => Promise<T>, maxRetries = 3, baseDelay = 10
  * const issues = await client.getProjectIssues({ project: 'MYPROJ' });
  * ```
  */
-export class JiraClient {
-  private baseUrl: string;
-  private auth: string;
+export class JiraClient extends BaseHttpClient implements IIssueTrackingClient<JiraIssue> {
+  private storyPointsField: Promise<string | null> | null;
 
   /**
    * Creates a new Jira API client.
@@ -68,30 +41,38 @@ export class JiraClient {
    * @param config - Jira configuration containing URL, email, and API token
    */
   constructor(config: JiraConfig) {
-    this.baseUrl = config.url.replace(/\/$/, '');
-    this.auth = Buffer.from(`${config.email}:${config.token}`).toString('base64');
+    super({
+      baseUrl: config.url,
+      integration: 'Jira',
+      timeout: config.timeout,
+      headers: {
+        'Authorization': `Basic ${Buffer.from(`${config.email}:${config.token}`).toString('base64')}`,
+        'Accept': 'application/json',
+      },
+    });
+    this.storyPointsField = config.storyPointsField ? Promise.resolve(config.storyPointsField) : null;
   }
 
   /**
-   * Makes an HTTP request to the Jira API.
+   * Makes a request to the Jira API, retried on rate limits and transient errors.
    * 
    * @template T
    * @param endpoint - API endpoint path
    * @param options - Request options
    * @param options.method - HTTP method (default: GET)
-   * @param options.body - Request body for POST/PUT requests
+   * @param options.body - Request body for POST requests
    * @param options.params - Query parameters
    * @returns Promise resolving to the API response
-   * @throws {Error} If the request fails or returns a non-2xx status
+   * @throws {AuthenticationError | RateLimitError | NetworkError | IntegrationError} If the request fails
    * @private
    */
-  private async request<T>(
+  private async api<T>(
     endpoint: string,
-    options: { method?: string; body?: unknown; params?: Record<string, string | number> } = {}
+    options: { method?: 'GET' | 'POST'; body?: unknown; params?: Record<string, string | number> } = {}
   ): Promise<T> {
     const { method = 'GET', body, params } = options;
 
-    let url = `${this.baseUrl}${endpoint}`;
+    let url = endpoint;
     if (params) {
       const searchParams = new URLSearchParams();
       for (const [key, value] of Object.entries(params)) {
@@ -101,29 +82,7 @@ export class JiraClient {
       if (qs) url += `?${qs}`;
     }
 
-    const fetchOptions: RequestInit = {
-      method,
-      headers: {
-        'Authorization': `Basic ${this.auth}`,
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-      },
-    };
-    if (body) fetchOptions.body = JSON.stringify(body);
-
-    const response = await fetch(url, fetchOptions);
-
-    if (!response.ok) {
-      const error = new Error(`Jira API error: ${response.status} ${response.statusText}`) as Error & { status: number; retryAfter?: number };
-      error.status = response.status;
-      if (response.status === 429) {
-        error.retryAfter = parseInt(response.headers.get('Retry-After') || '60') * 1000;
-      }
-      throw error;
-    }
-
-    const text = await response.text();
-    return text ? JSON.parse(text) as T : ({} as T);
+    return method === 'POST' ? this.post<T>(url, body) : this.get<T>(url);
   }
 
   /**
@@ -135,6 +94,7 @@ export class JiraClient {
    * @param options.maxResults - Maximum results per page (default: 100)
    * @param options.fields - Fields to include in response
    * @param options.expand - Relations to expand (e.g., 'changelog')
+   * @param options.validateQuery - 'warn' ignores unknown issue keys instead of failing (default: 'strict')
    * @returns Promise resolving to search results
    * @example
    * ```typescript
@@ -143,37 +103,44 @@ export class JiraClient {
    */
   async searchIssues(
     jql: string,
-    options: { startAt?: number; maxResults?: number; fields?: string[]; expand?: string[] } = {}
+    options: {
+      startAt?: number; maxResults?: number; fields?: string[]; expand?: string[];
+      validateQuery?: 'strict' | 'warn';
+    } = {}
   ): Promise<JiraSearchResult> {
     const {
       startAt = 0, maxResults = 100,
-      fields = ['summary', 'status', 'issuetype', 'assignee', 'reporter', 'created', 'updated', 'resolutiondate', 'priority', 'labels'],
+      fields = DEFAULT_SEARCH_FIELDS,
       expand = ['changelog'],
+      validateQuery = 'strict',
     } = options;
 
-    return withRetry(() =>
-      this.request<JiraSearchResult>('/rest/api/3/search', {
-        method: 'POST',
-        body: { jql, startAt, maxResults, fields, expand },
-      })
-    );
+    return this.api<JiraSearchResult>('/rest/api/3/search', {
+      method: 'POST',
+      body: { jql, startAt, maxResults, fields, expand, validateQuery },
+    });
   }
 
   async searchAllIssues(
     jql: string,
-    options: { onProgress?: (fetched: number, total: number) => void } = {}
+    options: {
+      fields?: string[]; validateQuery?: 'strict' | 'warn';
+      onProgress?: (fetched: number, total: number) => void;
+    } = {}
   ): Promise<JiraIssue[]> {
     const allIssues: JiraIssue[] = [];
     let startAt = 0;
     let total = 0;
 
     do {
-      const result = await this.searchIssues(jql, { startAt, maxResults: 100 });
+      const result = await this.searchIssues(jql, {
+        startAt, maxResults: 100, fields: options.fields, validateQuery: options.validateQuery,
+      });
       allIssues.push(...result.issues);
       total = result.total;
       startAt += result.issues.length;
       options.onProgress?.(allIssues.length, total);
-      if (startAt < total) await sleep(100);
+      if (startAt < total) await this.sleep(PERFORMANCE.API_DELAY_MS);
     } while (startAt < total);
 
     return allIssues;
@@ -182,13 +149,13 @@ export class JiraClient {
   async getBoards(projectKey?: string): Promise<JiraBoardResult> {
     const params: Record<string, string | number> = { maxResults: 50 };
     if (projectKey) params.projectKeyOrId = projectKey;
-    return withRetry(() => this.request<JiraBoardResult>('/rest/agile/1.0/board', { params }));
+    return this.api<JiraBoardResult>('/rest/agile/1.0/board', { params });
   }
 
   async getSprints(boardId: number, options: { state?: string; startAt?: number } = {}): Promise<JiraSprintResult> {
     const params: Record<string, string | number> = { maxResults: 50, startAt: options.startAt || 0 };
     if (options.state) params.state = options.state;
-    return withRetry(() => this.request<JiraSprintResult>(`/rest/agile/1.0/board/${boardId}/sprint`, { params }));
+    return this.api<JiraSprintResult>(`/rest/agile/1.0/board/${boardId}/sprint`, { params });
   }
 
   async getAllSprints(boardId: number): Promise<JiraSprint[]> {
@@ -200,11 +167,76 @@ export class JiraClient {
       all.push(...result.values);
       hasMore = result.values.length === 50;
       startAt += result.values.length;
-      if (hasMore) await sleep(100);
+      if (hasMore) await this.sleep(PERFORMANCE.API_DELAY_MS);
     }
     return all;
   }
 
+  /**
+   * Gets a project's most recent sprints across its scrum boards (kanban
+   * boards have none). Future sprints are left out.
+   * 
+   * @param projectKey - Jira project key
+   * @param count - Number of sprints to keep
+   * @returns Active and closed sprints, oldest first
+   */
+  async getRecentSprints(projectKey: string, count: number): Promise<JiraSprint[]> {
+    const boards = (await this.getBoards(projectKey)).values.filter(board => board.type === 'scrum');
+    const sprints = new Map<number, JiraSprint>();
+    for (const board of boards) {
+      for (const sprint of await this.getAllSprints(board.id)) {
+        if (sprint.state !== 'future') sprints.set(sprint.id, sprint);
+      }
+    }
+    return Array.from(sprints.values())
+      .sort((a, b) => (a.startDate || '').localeCompare(b.startDate || ''))
+      .slice(-count);
+  }
+
+  /**
+   * Gets the issues of a sprint, including those carried over to a later
+   * sprint, with their changelog.
+   * 
+   * @param sprintId - Sprint id
+   * @param options - Fields to fetch and an optional assignee (email or account id)
+   * @returns The sprint's issues
+   */
+  async getSprintIssues(sprintId: number, options: { fields?: string[]; assignee?: string } = {}): Promise<JiraIssue[]> {
+    const params: Record<string, string | number> = { maxResults: 100, expand: 'changelog' };
+    if (options.fields?.length) params.fields = options.fields.join(',');
+    if (options.assignee) params.jql = `assignee = "${options.assignee}"`;
+
+    const issues: JiraIssue[] = [];
+    let total = 0;
+    do {
+      params.startAt = issues.length;
+      const result = await this.api<JiraSearchResult>(`/rest/agile/1.0/sprint/${sprintId}/issue`, { params });
+      issues.push(...result.issues);
+      total = result.total;
+      if (!result.issues.length) break;
+      if (issues.length < total) await this.sleep(PERFORMANCE.API_DELAY_MS);
+    } while (issues.length < total);
+    return issues;
+  }
+
+  /**
+   * Gets a project's most recent sprints with their issues.
+   * 
+   * @param projectKey - Jira project key
+   * @param count - Number of sprints
+   * @param assignee - Only issues assigned to this user (email or account id)
+   * @returns Sprints with their issues, oldest first
+   */
+  async getRecentSprintIssues(projectKey: string, count: number, assignee?: string): Promise<JiraSprintIssues[]> {
+    const storyPointsField = await this.getStoryPointsField() ?? DEFAULT_STORY_POINTS_FIELD;
+    const fields = ['summary', 'status', 'issuetype', 'assignee', 'created', 'resolutiondate', storyPointsField];
+    const result: JiraSprintIssues[] = [];
+    for (const sprint of await this.getRecentSprints(projectKey, count)) {
+      result.push({ sprint, issues: await this.getSprintIssues(sprint.id, { fields, assignee }) });
+    }
+    return result;
+  }
+
   buildJQL(options: JiraFilterOptions): string {
     const conditions: string[] = [`project = "${options.project}"`];
     if (options.since) conditions.push(`created >= "${options.since}"`);
@@ -220,19 +252,220 @@ export class JiraClient {
     options: JiraFilterOptions,
     callbacks?: { onProgress?: (fetched: number, total: number) => void }
   ): Promise<JiraIssue[]> {
-    return this.searchAllIssues(this.buildJQL(options), { onProgress: callbacks?.onProgress });
+    const storyPointsField = await this.getStoryPointsField();
+    return this.searchAllIssues(this.buildJQL(options), {
+      fields: storyPointsField ? [...DEFAULT_SEARCH_FIELDS, storyPointsField] : undefined,
+      onProgress: callbacks?.onProgress,
+    });
+  }
+
+  /**
+   * Fetches issues created in a period, for code working with any tracker.
+   * 
+   * @param options - Project key, assignee, creation date range and pagination
+   * @returns Issues with their changelog, newest first
+   */
+  async fetchIssues(options: FetchOptions): Promise<JiraIssue[]> {
+    const conditions: string[] = [];
+    if (options.project) conditions.push(`project = "${options.project}"`);
+    if (options.assignee) conditions.push(`assignee = "${options.assignee}"`);
+    if (options.since) conditions.push(`created >= "${format(options.since, 'yyyy-MM-dd HH:mm')}"`);
+    if (options.until) conditions.push(`created <= "${format(options.until, 'yyyy-MM-dd HH:mm')}"`);
+    const jql = `${conditions.join(' AND ')} ORDER BY created DESC`.trim();
+
+    const issues: JiraIssue[] = [];
+    let startAt = options.offset ?? 0;
+    const end = options.limit !== undefined ? startAt + options.limit : Infinity;
+    while (startAt < end) {
+      const result = await this.searchIssues(jql, { startAt, maxResults: Math.min(100, end - startAt) });
+      issues.push(...result.issues);
+      startAt += result.issues.length;
+      if (!result.issues.length || startAt >= result.total) break;
+      await this.sleep(PERFORMANCE.API_DELAY_MS);
+    }
+    return issues;
+  }
+
+  /**
+   * Gets bugs reported against a release (those with "Affects versions" set).
+   * Used to detect failed deployments for DORA metrics.
+   * 
+   * @param projectKey - Jira project key
+   * @param since - Only bugs created on or after this date (YYYY-MM-DD)
+   * @returns Bugs with their affected versions
+   */
+  async getReleaseBugs(projectKey: string, since?: string): Promise<JiraIssue[]> {
+    const conditions = [`project = "${projectKey}"`, 'issuetype = Bug', 'affectedVersion IS NOT EMPTY'];
+    if (since) conditions.push(`created >= "${since}"`);
+    return this.searchAllIssues(`${conditions.join(' AND ')} ORDER BY created DESC`, {
+      fields: ['summary', 'status', 'issuetype', 'created', 'resolutiondate', 'versions'],
+    });
+  }
+
+  /**
+   * Gets the issues of a project that are being worked on: those in Jira's
+   * "In Progress" category or in one of the given statuses, excluding done.
+   * 
+   * @param projectKey - Jira project key
+   * @param statuses - Extra status names counting as work in progress (e.g. mapped blocked statuses)
+   * @returns Open issues with their changelog
+   */
+  async getWorkInProgress(projectKey: string, statuses: string[] = []): Promise<JiraIssue[]> {
+    const names = statuses.map(status => `"${status.replace(/"/g, '\\"')}"`);
+    const inProgress = names.length
+      ? `(statusCategory = "In Progress" OR status IN (${names.join(', ')}))`
+      : 'statusCategory = "In Progress"';
+    return this.searchAllIssues(
+      `project = "${projectKey}" AND ${inProgress} AND statusCategory != Done AND issuetype not in subTaskIssueTypes() ORDER BY created ASC`,
+      // Statuses the project doesn't use are ignored
+      { validateQuery: 'warn' }
+    );
+  }
+
+  /**
+   * Gets the issues of a project completed since a date.
+   * 
+   * @param projectKey - Jira project key
+   * @param since - Completed on or after this date (YYYY-MM-DD)
+   * @returns Completed issues with their changelog
+   */
+  async getCompletedIssues(projectKey: string, since: string): Promise<JiraIssue[]> {
+    return this.searchAllIssues(
+      `project = "${projectKey}" AND statusCategory = Done AND statusCategoryChangedDate >= "${since}" ` +
+      'AND issuetype not in subTaskIssueTypes() ORDER BY created DESC'
+    );
+  }
+
+  /**
+   * Gets the issues of a project that were open at some point in a period:
+   * created by its end and not done before it started.
+   * 
+   * @param projectKey - Jira project key
+   * @param since - Start of the period (YYYY-MM-DD)
+   * @param until - End of the period (YYYY-MM-DD)
+   * @returns Issues with their changelog
+   */
+  async getIssuesActiveBetween(
+    projectKey: string,
+    since: string,
+    until: string,
+    callbacks?: { onProgress?: (fetched: number, total: number) => void }
+  ): Promise<JiraIssue[]> {
+    return this.searchAllIssues(
+      `project = "${projectKey}" AND created <= "${until} 23:59" ` +
+      `AND (statusCategory != Done OR statusCategoryChangedDate >= "${since}") ` +
+      'AND issuetype != Epic AND issuetype not in subTaskIssueTypes() ORDER BY created ASC',
+      { onProgress: callbacks?.onProgress }
+    );
+  }
+
+  /**
+   * Counts the issues matching a JQL query that aren't done yet.
+   *
+   * @param jql - JQL query; an ORDER BY clause is ignored
+   * @returns Number of open issues
+   */
+  async countOpenIssues(jql: string): Promise<number> {
+    const query = jql.replace(/\s*\bORDER\s+BY\b[\s\S]*$/i, '').trim();
+    const result = await this.searchIssues(`(${query}) AND statusCategory != Done`, {
+      maxResults: 0, fields: ['status'], expand: [],
+    });
+    return result.total;
+  }
+
+  /**
+   * Gets issues by key, e.g. those referenced by commit messages.
+   * Keys that don't exist or aren't visible are skipped.
+   * 
+   * @param keys - Issue keys such as "ABC-123"
+   * @returns The issues found, with their changelog
+   */
+  async getIssuesByKeys(keys: string[]): Promise<JiraIssue[]> {
+    const valid = keys.filter(key => /^[A-Z][A-Z0-9]*-\d+$/.test(key));
+    const issues: JiraIssue[] = [];
+    // Keep each JQL query well below Jira's length limit
+    for (let i = 0; i < valid.length; i += 100) {
+      const batch = valid.slice(i, i + 100);
+      issues.push(...await this.searchAllIssues(`key IN (${batch.join(', ')})`, { validateQuery: 'warn' }));
+    }
+    return issues;
   }
 
-  async testConnection(): Promise<{ success: boolean; user?: string; error?: string }> {
+  async testConnection(): Promise<ConnectionResult> {
     try {
-      const result = await this.request<{ displayName: string; emailAddress: string }>('/rest/api/3/myself');
+      const result = await this.api<{ displayName: string; emailAddress: string }>('/rest/api/3/myself');
       return { success: true, user: result.displayName || result.emailAddress };
     } catch (error: unknown) {
       return { success: false, error: (error as Error).message };
     }
   }
 
+  /**
+   * Lists the workflow statuses a project uses, across all its issue types.
+   * 
+   * @param projectKey - Jira project key
+   * @returns Statuses (once each) with their Jira category and the issue types using them
+   */
+  async getProjectStatuses(projectKey: string): Promise<JiraProjectStatus[]> {
+    const issueTypes = await this.api<Array<{
+      name: string;
+      statuses: Array<{ id: string; name: string; statusCategory: { key: string; name: string } }>;
+    }>>(`/rest/api/3/project/${encodeURIComponent(projectKey)}/statuses`);
+
+    const statuses = new Map<string, JiraProjectStatus>();
+    for (const issueType of issueTypes) {
+      for (const status of issueType.statuses) {
+        const existing = statuses.get(status.id);
+        if (existing) {
+          existing.issueTypes.push(issueType.name);
+          continue;
+        }
+        statuses.set(status.id, {
+          id: status.id,
+          name: status.name,
+          categoryKey: status.statusCategory.key,
+          categoryName: status.statusCategory.name,
+          issueTypes: [issueType.name],
+        });
+      }
+    }
+    return Array.from(statuses.values());
+  }
+
+  /**
+   * Finds the story points custom field among the instance's fields.
+   * 
+   * @returns Field id such as "customfield_10016", or null if there is none
+   */
+  async findStoryPointsField(): Promise<string | null> {
+    const fields = await this.api<Array<{
+      id: string;
+      name: string;
+      custom: boolean;
+      schema?: { type: string };
+    }>>('/rest/api/3/field');
+
+    for (const name of STORY_POINTS_FIELD_NAMES) {
+      const field = fields.find(f => f.custom && f.schema?.type === 'number' && f.name.toLowerCase() === name);
+      if (field) return field.id;
+    }
+    return null;
+  }
+
+  /**
+   * Gets the story points field: the configured one, or the one found on the
+   * instance (looked up once per client).
+   * 
+   * @returns Field id, or null if the instance has no story points field
+   */
+  async getStoryPointsField(): Promise<string | null> {
+    if (!this.storyPointsField) {
+      this.storyPointsField = this.findStoryPointsField().catch(() => null);
+    }
+    return this.storyPointsField;
+  }
+
   async getProject(projectKey: string): Promise<{ key: string; name: string; id: string }> {
-    return withRetry(() => this.request<{ key: string; name: string; id: string }>(`/rest/api/3/project/${projectKey}`));
+    return this.api<{ key: string; name: string; id: string }>(`/rest/api/3/project/${projectKey}`);
   }
 }
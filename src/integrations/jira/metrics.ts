@@ -5,10 +5,14 @@
 import {
   JiraIssue, JiraMetrics, CycleTimeMetrics, LeadTimeMetrics,
   WIPMetrics, BlockedTimeMetrics, ThroughputMetrics, BugRatioMetrics,
-  JiraStatusMapping, DEFAULT_STATUS_MAPPING,
+  JiraStatusMapping, JiraStatusCategory, JiraProjectStatus, DEFAULT_STATUS_MAPPING,
+  JiraSprint, JiraSprintIssues, SprintMetrics, SprintReport, VelocityMetrics, EstimateAccuracyMetrics,
+  FlowMetrics, StatusTimeMetrics, DEFAULT_STORY_POINTS_FIELD,
 } from './types';
-import { format, differenceInDays, differenceInWeeks, parseISO } from 'date-fns';
-import { median, percentile, avg, getWeekKey } from '../../utils/metrics-calculations';
+import { format, differenceInDays, differenceInHours, differenceInWeeks, parseISO } from 'date-fns';
+import { median, percentile, avg, correlation, getWeekKey } from '../../utils/metrics-calculations';
+import { CumulativeFlow, DeploymentIncident, IssueStateCategory, NormalizedIssue, TrackedIssue, WorkItem } from '../../types';
+import { buildCumulativeFlow } from '../../core/cfd';
 
 // Status helpers
 function isInProgressStatus(status: string, mapping: JiraStatusMapping): boolean {
@@ -23,6 +27,61 @@ function isBlockedStatus(status: string, mapping: JiraStatusMapping): boolean {
   return mapping.blocked.some(s => s.toLowerCase() === status.toLowerCase());
 }
 
+// Status mapping
+/** Status names that suggest waiting rather than working */
+const BLOCKED_NAME_PATTERN = /block|hold|wait|imped|paused/i;
+
+/**
+ * Finds the category a status is mapped to.
+ *
+ * @param status - Status name (case-insensitive)
+ * @param mapping - Status mapping
+ * @returns The category, or null if the status isn't mapped
+ */
+export function getStatusCategory(status: string, mapping: JiraStatusMapping): JiraStatusCategory | null {
+  const categories: JiraStatusCategory[] = ['todo', 'inProgress', 'blocked', 'done'];
+  return categories.find(category => mapping[category].some(s => s.toLowerCase() === status.toLowerCase())) ?? null;
+}
+
+/**
+ * Suggests a status mapping from a project's statuses and their Jira categories:
+ * "Done" statuses map to done; others whose name suggests waiting ("On Hold",
+ * "Waiting on Customer") to blocked; the rest to todo or in progress.
+ *
+ * @param statuses - Statuses from JiraClient.getProjectStatuses
+ * @returns A mapping covering every status
+ */
+export function suggestStatusMapping(statuses: JiraProjectStatus[]): JiraStatusMapping {
+  const mapping: JiraStatusMapping = { todo: [], inProgress: [], blocked: [], done: [] };
+  for (const status of statuses) {
+    if (status.categoryKey === 'done') mapping.done.push(status.name);
+    else if (BLOCKED_NAME_PATTERN.test(status.name)) mapping.blocked.push(status.name);
+    else if (status.categoryKey === 'new') mapping.todo.push(status.name);
+    else mapping.inProgress.push(status.name);
+  }
+  return mapping;
+}
+
+/**
+ * Merges two status mappings; statuses in `overrides` move to the category
+ * given there and every other status of `base` stays where it was.
+ *
+ * @param base - Mapping to start from (e.g. the current one)
+ * @param overrides - Statuses to (re)map
+ * @returns The merged mapping
+ */
+export function mergeStatusMapping(base: JiraStatusMapping, overrides: Partial<JiraStatusMapping>): JiraStatusMapping {
+  const overridden = new Set(Object.values(overrides).flat().map(status => status.toLowerCase()));
+  const merged = { ...base };
+  for (const category of Object.keys(merged) as JiraStatusCategory[]) {
+    merged[category] = [
+      ...base[category].filter(status => !overridden.has(status.toLowerCase())),
+      ...(overrides[category] ?? []),
+    ];
+  }
+  return merged;
+}
+
 // Changelog analysis
 function getFirstInProgressDate(issue: JiraIssue, mapping: JiraStatusMapping): Date | null {
   const histories = issue.changelog?.histories || [];
@@ -51,33 +110,69 @@ function getDoneDate(issue: JiraIssue, mapping: JiraStatusMapping): Date | null
   return null;
 }
 
-function getBlockedTime(issue: JiraIssue, mapping: JiraStatusMapping): number {
-  const histories = issue.changelog?.histories || [];
-  let totalBlockedDays = 0;
-  let blockedStart: Date | null = null;
-
-  const sorted = [...histories].sort((a, b) => 
-    new Date(a.created).getTime() - new Date(b.created).getTime()
-  );
+/** A stretch of time an issue spent in one status */
+interface StatusPeriod {
+  status: string;
+  start: Date;
+  end: Date;
+}
 
-  for (const history of sorted) {
-    for (const item of history.items) {
-      if (item.field === 'status') {
-        if (item.toString && isBlockedStatus(item.toString, mapping)) {
-          blockedStart = parseISO(history.created);
-        } else if (blockedStart) {
-          totalBlockedDays += differenceInDays(parseISO(history.created), blockedStart);
-          blockedStart = null;
-        }
-      }
-    }
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Reconstructs the statuses an issue went through from its changelog. The
+ * first status is the one the first transition left (or the current one
+ * without transitions); the last period runs until `now`.
+ */
+function getStatusPeriods(issue: JiraIssue, now: Date = new Date()): StatusPeriod[] {
+  const transitions = [...(issue.changelog?.histories || [])]
+    .sort((a, b) => new Date(a.created).getTime() - new Date(b.created).getTime())
+    .flatMap(history => history.items
+      .filter(item => item.field === 'status' && item.toString)
+      .map(item => ({ at: parseISO(history.created), from: item.fromString, to: item.toString! })));
+
+  const periods: StatusPeriod[] = [];
+  let status = transitions[0]?.from || issue.fields.status.name;
+  let start = parseISO(issue.fields.created);
+  for (const transition of transitions) {
+    periods.push({ status, start, end: transition.at });
+    status = transition.to;
+    start = transition.at;
   }
+  periods.push({ status, start, end: now });
+  return periods.filter(period => period.end > period.start);
+}
 
-  if (blockedStart) {
-    totalBlockedDays += differenceInDays(new Date(), blockedStart);
-  }
+function getBlockedTime(issue: JiraIssue, mapping: JiraStatusMapping): number {
+  return getStatusPeriods(issue)
+    .filter(period => isBlockedStatus(period.status, mapping))
+    .reduce((total, period) => total + differenceInDays(period.end, period.start), 0);
+}
 
-  return totalBlockedDays;
+/**
+ * Hours per status from the moment work started (first "in progress"
+ * status) until the issue was done; time in done statuses (before a reopen)
+ * is left out. Null if work never started.
+ */
+function getFlowTime(
+  issue: JiraIssue,
+  mapping: JiraStatusMapping
+): { byStatus: Record<string, number>; activeHours: number; totalHours: number } | null {
+  const periods = getStatusPeriods(issue);
+  const started = periods.findIndex(period => isInProgressStatus(period.status, mapping));
+  if (started < 0) return null;
+
+  const byStatus: Record<string, number> = {};
+  let activeHours = 0;
+  let totalHours = 0;
+  for (const period of periods.slice(started)) {
+    if (isDoneStatus(period.status, mapping)) continue;
+    const hours = (period.end.getTime() - period.start.getTime()) / HOUR_MS;
+    byStatus[period.status] = (byStatus[period.status] || 0) + hours;
+    totalHours += hours;
+    if (isInProgressStatus(period.status, mapping)) activeHours += hours;
+  }
+  return totalHours > 0 ? { byStatus, activeHours, totalHours } : null;
 }
 
 // Metric calculators
@@ -244,14 +339,294 @@ function calculateBugRatio(issues: JiraIssue[], mapping: JiraStatusMapping): Bug
   };
 }
 
+/**
+ * Calculates time in status and flow efficiency for completed issues, at
+ * hour precision. Time counts from the first "in progress" status to done;
+ * only in-progress statuses are active, every other status (blocked, back
+ * in to do, or unmapped queues like "Ready for QA") is waiting.
+ *
+ * @param issues - Issues with their changelog
+ * @param mapping - Status mapping
+ * @returns Flow metrics, or null if no completed issue was worked on
+ */
+export function calculateFlowMetrics(
+  issues: JiraIssue[],
+  mapping: JiraStatusMapping = DEFAULT_STATUS_MAPPING
+): FlowMetrics | null {
+  const flows = issues
+    .filter(issue => isDoneStatus(issue.fields.status.name, mapping))
+    .map(issue => getFlowTime(issue, mapping))
+    .filter((flow): flow is NonNullable<typeof flow> => flow !== null);
+  if (!flows.length) return null;
+
+  const hoursByStatus = new Map<string, number[]>();
+  for (const flow of flows) {
+    for (const [status, hours] of Object.entries(flow.byStatus)) {
+      const all = hoursByStatus.get(status);
+      if (all) all.push(hours);
+      else hoursByStatus.set(status, [hours]);
+    }
+  }
+
+  const round1 = (value: number) => Math.round(value * 10) / 10;
+  const totalHours = flows.reduce((total, flow) => total + flow.totalHours, 0);
+  const activeHours = flows.reduce((total, flow) => total + flow.activeHours, 0);
+  const efficiencies = flows.map(flow => (flow.activeHours / flow.totalHours) * 100);
+
+  const byStatus: StatusTimeMetrics[] = Array.from(hoursByStatus.entries()).map(([status, hours]) => {
+    const statusHours = hours.reduce((total, h) => total + h, 0);
+    return {
+      status,
+      category: getStatusCategory(status, mapping),
+      issues: hours.length,
+      totalHours: round1(statusHours),
+      avgHours: round1(avg(hours)),
+      medianHours: round1(median(hours)),
+      p85Hours: round1(percentile(hours, 85)),
+      p95Hours: round1(percentile(hours, 95)),
+      share: Math.round((statusHours / totalHours) * 100),
+    };
+  });
+  byStatus.sort((a, b) => b.totalHours - a.totalHours);
+
+  return {
+    issuesAnalyzed: flows.length,
+    avgEfficiency: Math.round(avg(efficiencies)),
+    medianEfficiency: Math.round(median(efficiencies)),
+    activeHours: round1(activeHours),
+    waitingHours: round1(totalHours - activeHours),
+    byStatus,
+  };
+}
+
+// Sprint analytics
+function getStoryPoints(issue: JiraIssue, field: string): number {
+  const value = issue.fields[field];
+  return typeof value === 'number' && value > 0 ? value : 0;
+}
+
+/** Whether a Sprint changelog value (ids, or names in older entries) includes the sprint */
+function includesSprint(ids: string | null | undefined, names: string | null, sprint: JiraSprint): boolean {
+  if (ids) return ids.split(',').some(id => id.trim() === String(sprint.id));
+  return !!names && names.split(',').some(name => name.trim() === sprint.name);
+}
+
+/** When the issue (last) joined the sprint: its creation, or a later Sprint field change */
+function getSprintJoinDate(issue: JiraIssue, sprint: JiraSprint): Date {
+  let joined = parseISO(issue.fields.created);
+  const sorted = [...(issue.changelog?.histories || [])].sort((a, b) =>
+    new Date(a.created).getTime() - new Date(b.created).getTime()
+  );
+  for (const history of sorted) {
+    for (const item of history.items) {
+      if (item.field !== 'Sprint') continue;
+      const was = includesSprint(item.from, item.fromString, sprint);
+      const is = includesSprint(item.to, item.toString, sprint);
+      if (is && !was) joined = parseISO(history.created);
+    }
+  }
+  return joined;
+}
+
+function calculateSprintReport(
+  { sprint, issues }: JiraSprintIssues,
+  mapping: JiraStatusMapping,
+  storyPointsField: string
+): SprintReport {
+  const start = sprint.startDate ? parseISO(sprint.startDate) : null;
+  const endDate = sprint.completeDate || sprint.endDate || null;
+  const end = sprint.state === 'closed' && endDate ? parseISO(endDate) : null;
+  const report: SprintReport = {
+    id: sprint.id,
+    name: sprint.name,
+    state: sprint.state,
+    startDate: sprint.startDate || null,
+    endDate,
+    committed: 0, added: 0, completed: 0, carriedOver: 0,
+    committedPoints: 0, addedPoints: 0, completedPoints: 0,
+    completionRate: 0,
+  };
+
+  for (const issue of issues) {
+    if (issue.fields.issuetype.subtask) continue;
+    const points = getStoryPoints(issue, storyPointsField);
+
+    if (start && getSprintJoinDate(issue, sprint) > start) {
+      report.added++;
+      report.addedPoints += points;
+    } else {
+      report.committed++;
+      report.committedPoints += points;
+    }
+
+    const isDone = !!issue.fields.resolutiondate || isDoneStatus(issue.fields.status.name, mapping);
+    const doneDate = isDone ? getDoneDate(issue, mapping) : null;
+    if (doneDate && (!end || doneDate <= end)) {
+      report.completed++;
+      report.completedPoints += points;
+    } else if (sprint.state === 'closed') {
+      report.carriedOver++;
+    }
+  }
+
+  const total = report.committed + report.added;
+  report.completionRate = total ? Math.round((report.completed / total) * 100) : 0;
+  return report;
+}
+
+/**
+ * Calculates sprint metrics comparable to Linear's cycle completion:
+ * committed vs completed issues and story points per sprint, scope added
+ * after the sprint started (from Sprint field changes in the changelog),
+ * carry-over and the velocity trend. Subtasks are left out, as in Jira's
+ * sprint report.
+ *
+ * @param sprints - Sprints with their issues (see JiraClient.getSprintIssues)
+ * @param options - Status mapping and story points field
+ * @returns Sprint metrics, or null without sprints
+ */
+export function calculateSprintMetrics(
+  sprints: JiraSprintIssues[],
+  options: { statusMapping?: JiraStatusMapping; storyPointsField?: string } = {}
+): SprintMetrics | null {
+  if (!sprints.length) return null;
+
+  const mapping = options.statusMapping || DEFAULT_STATUS_MAPPING;
+  const storyPointsField = options.storyPointsField || DEFAULT_STORY_POINTS_FIELD;
+  const reports = [...sprints]
+    .sort((a, b) => (a.sprint.startDate || '').localeCompare(b.sprint.startDate || ''))
+    .map(sprint => calculateSprintReport(sprint, mapping, storyPointsField));
+
+  const closed = reports.filter(report => report.state === 'closed');
+  const closedIssues = closed.reduce((total, report) => total + report.committed + report.added, 0);
+  const allIssues = reports.reduce((total, report) => total + report.committed + report.added, 0);
+  const allAdded = reports.reduce((total, report) => total + report.added, 0);
+
+  let velocityTrend: SprintMetrics['velocityTrend'] = null;
+  if (closed.length >= 2) {
+    const half = Math.floor(closed.length / 2);
+    const earlier = avg(closed.slice(0, half).map(report => report.completedPoints));
+    const later = avg(closed.slice(-half).map(report => report.completedPoints));
+    // Within 10% counts as stable
+    velocityTrend = later > earlier * 1.1 ? 'up' : later < earlier * 0.9 ? 'down' : 'stable';
+  }
+
+  return {
+    sprints: reports,
+    avgCompletionRate: closed.length ? Math.round(avg(closed.map(report => report.completionRate))) : 0,
+    avgVelocity: closed.length ? Math.round(avg(closed.map(report => report.completedPoints)) * 10) / 10 : 0,
+    avgCompletedIssues: closed.length ? Math.round(avg(closed.map(report => report.completed)) * 10) / 10 : 0,
+    scopeAddedRate: allIssues ? Math.round((allAdded / allIssues) * 100) : 0,
+    carryOverRate: closedIssues
+      ? Math.round((closed.reduce((total, report) => total + report.carriedOver, 0) / closedIssues) * 100)
+      : 0,
+    velocityTrend,
+  };
+}
+
+/**
+ * Velocity in story points: per sprint over closed sprints when sprint data
+ * is given, otherwise per week over the issues completed in the period.
+ */
+function calculateVelocity(
+  issues: JiraIssue[],
+  sprints: SprintMetrics | null,
+  mapping: JiraStatusMapping,
+  storyPointsField: string,
+  periodWeeks: number
+): VelocityMetrics | null {
+  const completed = issues.filter(issue => isDoneStatus(issue.fields.status.name, mapping));
+  const byAssignee: Record<string, number> = {};
+  let totalPoints = 0;
+  for (const issue of completed) {
+    const points = getStoryPoints(issue, storyPointsField);
+    if (!points) continue;
+    const assignee = issue.fields.assignee?.displayName || 'Unassigned';
+    byAssignee[assignee] = (byAssignee[assignee] || 0) + points;
+    totalPoints += points;
+  }
+
+  const closed = sprints?.sprints.filter(report => report.state === 'closed' && report.startDate && report.endDate) ?? [];
+  if (closed.length) {
+    const weeks = closed.reduce(
+      (total, report) => total + differenceInDays(parseISO(report.endDate!), parseISO(report.startDate!)) / 7, 0
+    );
+    const completedIssues = closed.reduce((total, report) => total + report.completed, 0);
+    return {
+      storyPoints: Math.round(avg(closed.map(report => report.completedPoints)) * 10) / 10,
+      per: 'sprint',
+      issuesPerWeek: weeks > 0 ? Math.round((completedIssues / weeks) * 10) / 10 : completedIssues,
+      sprints: closed.length,
+      totalPoints,
+      byAssignee,
+    };
+  }
+
+  if (!totalPoints) return null;
+  return {
+    storyPoints: periodWeeks > 0 ? Math.round((totalPoints / periodWeeks) * 10) / 10 : totalPoints,
+    per: 'week',
+    issuesPerWeek: periodWeeks > 0 ? Math.round((completed.length / periodWeeks) * 10) / 10 : completed.length,
+    sprints: 0,
+    totalPoints,
+    byAssignee,
+  };
+}
+
+function calculateEstimateAccuracy(
+  issues: JiraIssue[],
+  mapping: JiraStatusMapping,
+  storyPointsField: string
+): EstimateAccuracyMetrics | null {
+  const withEstimates = issues.filter(issue => getStoryPoints(issue, storyPointsField) > 0);
+  if (!withEstimates.length) return null;
+
+  const completed = withEstimates.filter(issue => isDoneStatus(issue.fields.status.name, mapping));
+  const cycleTimes: Array<{ points: number; days: number }> = [];
+  for (const issue of completed) {
+    const startDate = getFirstInProgressDate(issue, mapping);
+    const doneDate = getDoneDate(issue, mapping);
+    if (startDate && doneDate && doneDate > startDate) {
+      cycleTimes.push({ points: getStoryPoints(issue, storyPointsField), days: differenceInHours(doneDate, startDate) / 24 });
+    }
+  }
+
+  const byEstimate: Record<string, number[]> = {};
+  for (const { points, days } of cycleTimes) {
+    if (!byEstimate[points]) byEstimate[points] = [];
+    byEstimate[points].push(days);
+  }
+
+  return {
+    issuesWithEstimates: withEstimates.length,
+    coverage: Math.round((withEstimates.length / issues.length) * 100),
+    avgEstimate: Math.round(avg(withEstimates.map(issue => getStoryPoints(issue, storyPointsField))) * 10) / 10,
+    totalEstimated: withEstimates.reduce((sum, issue) => sum + getStoryPoints(issue, storyPointsField), 0),
+    totalCompleted: completed.reduce((sum, issue) => sum + getStoryPoints(issue, storyPointsField), 0),
+    cycleDaysByEstimate: Object.fromEntries(
+      Object.entries(byEstimate)
+        .sort(([a], [b]) => Number(a) - Number(b))
+        .map(([points, days]) => [points, Math.round(avg(days) * 10) / 10])
+    ),
+    cycleTimeCorrelation: cycleTimes.length >= 3
+      ? Math.round(correlation(cycleTimes.map(t => t.points), cycleTimes.map(t => t.days)) * 100) / 100
+      : null,
+  };
+}
+
 // Main calculator
 export function calculateJiraMetrics(
   issues: JiraIssue[],
-  options: { since?: string; until?: string; statusMapping?: JiraStatusMapping } = {}
+  options: {
+    since?: string; until?: string; statusMapping?: JiraStatusMapping;
+    sprints?: JiraSprintIssues[]; storyPointsField?: string; flow?: boolean;
+  } = {}
 ): JiraMetrics {
   const mapping = options.statusMapping || DEFAULT_STATUS_MAPPING;
   const since = options.since || '';
   const until = options.until || format(new Date(), 'yyyy-MM-dd');
+  const storyPointsField = options.storyPointsField || DEFAULT_STORY_POINTS_FIELD;
+  const sprints = options.sprints ? calculateSprintMetrics(options.sprints, { statusMapping: mapping, storyPointsField }) : null;
 
   if (!issues.length) {
     return {
@@ -265,6 +640,10 @@ export function calculateJiraMetrics(
       blockedTime: { avgDays: 0, totalBlockedIssues: 0, percentageBlocked: 0 },
       throughput: null,
       bugRatio: { totalIssues: 0, totalBugs: 0, ratio: 0, bugsByPriority: {}, bugResolutionTime: { avgDays: 0, medianDays: 0 } },
+      sprints,
+      velocity: calculateVelocity(issues, sprints, mapping, storyPointsField, 0),
+      estimateAccuracy: null,
+      flow: null,
     };
   }
 
@@ -280,5 +659,166 @@ export function calculateJiraMetrics(
     blockedTime: calculateBlockedTime(issues, mapping),
     throughput: calculateThroughput(issues, mapping, periodWeeks),
     bugRatio: calculateBugRatio(issues, mapping),
+    sprints,
+    velocity: calculateVelocity(issues, sprints, mapping, storyPointsField, periodWeeks),
+    estimateAccuracy: calculateEstimateAccuracy(issues, mapping, storyPointsField),
+    flow: options.flow ? calculateFlowMetrics(issues, mapping) : null,
   };
 }
+
+/**
+ * Turns bugs reported against releases into DORA incidents, one per affected version.
+ * A deployment whose name matches an affected version counts as failed.
+ *
+ * @param issues - Bugs with their `versions` field (see JiraClient.getReleaseBugs)
+ * @returns Incidents keyed by release name
+ */
+export function getReleaseIncidents(issues: JiraIssue[]): DeploymentIncident[] {
+  return issues.flatMap(issue =>
+    (issue.fields.versions ?? []).map(version => ({ deployment: version.name, id: issue.key }))
+  );
+}
+
+/**
+ * Normalizes issues for the shared tracker metrics. Blocked statuses count as
+ * in progress and unmapped statuses as to do; an issue started when it first
+ * entered an in-progress status.
+ *
+ * @param issues - Issues with their changelog
+ * @param mapping - Status mapping
+ * @param storyPointsField - Story points custom field
+ * @returns Normalized issues
+ */
+export function normalizeIssues(
+  issues: JiraIssue[],
+  mapping: JiraStatusMapping = DEFAULT_STATUS_MAPPING,
+  storyPointsField: string = DEFAULT_STORY_POINTS_FIELD
+): NormalizedIssue[] {
+  return issues.map(issue => {
+    const status = issue.fields.status.name;
+    const category = getStatusCategory(status, mapping);
+    const stateCategory: IssueStateCategory = category === 'done' ? 'done'
+      : category === 'inProgress' || category === 'blocked' ? 'in_progress' : 'todo';
+    const points = getStoryPoints(issue, storyPointsField);
+    return {
+      tracker: 'jira',
+      key: issue.key,
+      title: issue.fields.summary,
+      type: issue.fields.issuetype?.name ?? null,
+      status,
+      stateCategory,
+      assignee: issue.fields.assignee?.displayName ?? null,
+      estimate: points || null,
+      createdAt: issue.fields.created,
+      startedAt: getFirstInProgressDate(issue, mapping)?.toISOString() ?? null,
+      doneAt: stateCategory === 'done' ? getDoneDate(issue, mapping)?.toISOString() ?? null : null,
+    };
+  });
+}
+
+/**
+ * Reduces issues to what commit linking needs. An issue is done when it has a
+ * resolution or its current status is a done status.
+ *
+ * @param issues - Issues with their changelog (see JiraClient.getIssuesByKeys)
+ * @param mapping - Status mapping used to recognize done statuses
+ * @returns Tracked issues with the date they were done
+ */
+export function getTrackedIssues(
+  issues: JiraIssue[],
+  mapping: JiraStatusMapping = DEFAULT_STATUS_MAPPING
+): TrackedIssue[] {
+  return issues.map(issue => {
+    const isDone = !!issue.fields.resolutiondate || isDoneStatus(issue.fields.status.name, mapping);
+    const doneAt = isDone ? getDoneDate(issue, mapping) : null;
+    return {
+      key: issue.key,
+      title: issue.fields.summary,
+      status: issue.fields.status.name,
+      doneAt: doneAt?.toISOString(),
+    };
+  });
+}
+
+/**
+ * Reduces issues being worked on to work items: issues that entered an
+ * in-progress status and are neither done nor back in a to-do status.
+ *
+ * @param issues - Open issues with their changelog (see JiraClient.getWorkInProgress)
+ * @param mapping - Status mapping
+ * @returns Work items, started when they first entered an in-progress status
+ */
+export function getWorkItems(issues: JiraIssue[], mapping: JiraStatusMapping = DEFAULT_STATUS_MAPPING): WorkItem[] {
+  const items: WorkItem[] = [];
+  for (const issue of issues) {
+    const status = issue.fields.status.name;
+    if (isDoneStatus(status, mapping) || getStatusCategory(status, mapping) === 'todo') continue;
+    const startedAt = getFirstInProgressDate(issue, mapping);
+    if (!startedAt) continue;
+    items.push({
+      key: issue.key,
+      title: issue.fields.summary,
+      status,
+      assignee: issue.fields.assignee?.displayName ?? null,
+      startedAt: startedAt.toISOString(),
+    });
+  }
+  return items;
+}
+
+/**
+ * Cycle times of completed issues, at hour precision.
+ *
+ * @param issues - Completed issues with their changelog
+ * @param mapping - Status mapping
+ * @returns Days from first in-progress status to done, per issue
+ */
+export function getCycleTimes(issues: JiraIssue[], mapping: JiraStatusMapping = DEFAULT_STATUS_MAPPING): number[] {
+  const days: number[] = [];
+  for (const issue of issues) {
+    const startDate = getFirstInProgressDate(issue, mapping);
+    const doneDate = getDoneDate(issue, mapping);
+    if (startDate && doneDate && doneDate > startDate) {
+      days.push((doneDate.getTime() - startDate.getTime()) / (24 * HOUR_MS));
+    }
+  }
+  return days;
+}
+
+/** Where each status category goes in a cumulative flow diagram; unmapped statuses sit before done */
+const CFD_CATEGORY_ORDER: Record<JiraStatusCategory, number> = { todo: 0, inProgress: 1, blocked: 2, done: 4 };
+
+/**
+ * Reconstructs daily issue counts per status from changelogs.
+ *
+ * Statuses are ordered by category (to do, in progress, blocked, unmapped,
+ * done), then as listed in the mapping.
+ *
+ * @param issues - Issues with their changelog (see JiraClient.getIssuesActiveBetween)
+ * @param mapping - Status mapping
+ * @param options - Project key and period (YYYY-MM-DD, inclusive)
+ * @returns Cumulative flow data
+ */
+export function calculateCumulativeFlow(
+  issues: JiraIssue[],
+  mapping: JiraStatusMapping = DEFAULT_STATUS_MAPPING,
+  options: { project: string; since: string; until: string }
+): CumulativeFlow {
+  const histories = issues.map(issue =>
+    getStatusPeriods(issue).map(period => ({ state: period.status, at: period.start }))
+  );
+
+  const seen = [...new Set(histories.flatMap(history => history.map(change => change.state)))];
+  const rank = (status: string) => {
+    const category = getStatusCategory(status, mapping);
+    if (!category) return [3, seen.indexOf(status)];
+    return [CFD_CATEGORY_ORDER[category], mapping[category].findIndex(s => s.toLowerCase() === status.toLowerCase())];
+  };
+  const states = seen.sort((a, b) => {
+    const [categoryA, indexA] = rank(a);
+    const [categoryB, indexB] = rank(b);
+    return categoryA - categoryB || indexA - indexB;
+  });
+
+  return buildCumulativeFlow(histories, { tracker: 'jira', states, ...options });
+}
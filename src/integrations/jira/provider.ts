@@ -0,0 +1,113 @@
+// ============================================
+// Jira Issue Tracker Provider
+// ============================================
+
+import chalk from 'chalk';
+import { getJiraConfig, getJiraStatusMapping } from '../../config/integrations';
+import { DEFAULTS } from '../../config/constants';
+import { IssueTrackerProvider } from '../base/interfaces';
+import { JiraClient } from './client';
+import { calculateJiraMetrics, normalizeIssues } from './metrics';
+import { JiraIssue, JiraMetrics } from './types';
+
+/**
+ * Jira as an issue tracker provider. Project metrics leave epics out; a
+ * user's metrics (with an assignee) include their last sprints.
+ */
+export const jiraProvider: IssueTrackerProvider<JiraIssue, JiraMetrics> = {
+  id: 'jira',
+  name: 'Jira',
+  scope: 'project',
+  icon: '🎫',
+  setupHint: 'set JIRA_URL, JIRA_EMAIL, JIRA_TOKEN',
+
+  createClient() {
+    const config = getJiraConfig();
+    return config ? new JiraClient(config) : null;
+  },
+
+  normalize(issues) {
+    return normalizeIssues(issues, getJiraStatusMapping());
+  },
+
+  async getMetrics(client, { project, since, until, assignee }) {
+    const jira = client as JiraClient;
+    const issues = await jira.getProjectIssues({ project, since, until, assignee, excludeTypes: ['Epic'] });
+    const sprints = assignee
+      ? await jira.getRecentSprintIssues(project, DEFAULTS.SPRINT_COUNT, assignee)
+      : undefined;
+    return calculateJiraMetrics(issues, {
+      since,
+      until,
+      statusMapping: getJiraStatusMapping(),
+      sprints,
+      storyPointsField: await jira.getStoryPointsField() ?? undefined,
+    });
+  },
+
+  reportRows(metrics, markdown) {
+    const ratio = metrics.bugRatio.ratio;
+    const ratioColor: (text: string) => string = markdown ? String : ratio > 0.3 ? chalk.red : ratio > 0.15 ? chalk.yellow : chalk.green;
+    return [['Bug Ratio', ratioColor(`${Math.round(ratio * 100)}%`)]];
+  },
+
+  summaryLines(metrics) {
+    const lines: string[] = [];
+    if (metrics.velocity) {
+      lines.push(metrics.velocity.per === 'week'
+        ? `Velocity: ${metrics.velocity.storyPoints} points/week`
+        : `Velocity: ${metrics.velocity.storyPoints} points/sprint (last ${metrics.velocity.sprints} sprints)`);
+    }
+    if (metrics.sprints) {
+      lines.push(`Sprint Completion: ${metrics.sprints.avgCompletionRate}% (${metrics.sprints.carryOverRate}% carried over)`);
+    }
+    return lines;
+  },
+
+  csvRows(metrics) {
+    const rows: Array<[string, string | number, string]> = [];
+    if (metrics.velocity) {
+      rows.push(['velocity_story_points', metrics.velocity.storyPoints || 0, 'points']);
+      rows.push(['velocity_issues_per_week', metrics.velocity.issuesPerWeek || 0, 'rate']);
+      rows.push(['velocity_sprints', metrics.velocity.sprints || 0, 'count']);
+    }
+    if (metrics.estimateAccuracy) {
+      rows.push(['estimate_coverage', metrics.estimateAccuracy.coverage || 0, 'percent']);
+      rows.push(['estimate_cycle_time_correlation', metrics.estimateAccuracy.cycleTimeCorrelation ?? '', 'ratio']);
+    }
+    if (metrics.sprints) {
+      rows.push(['sprint_completion_rate', metrics.sprints.avgCompletionRate || 0, 'percent']);
+      rows.push(['sprint_scope_added_rate', metrics.sprints.scopeAddedRate || 0, 'percent']);
+      rows.push(['sprint_carry_over_rate', metrics.sprints.carryOverRate || 0, 'percent']);
+    }
+    return rows;
+  },
+
+  parseCsvRow(metrics, name, value) {
+    const number = parseFloat(value) || 0;
+    if (name.startsWith('velocity_')) {
+      const velocity = metrics.velocity ??= { storyPoints: 0, per: 'week', issuesPerWeek: 0, sprints: 0, totalPoints: 0, byAssignee: {} };
+      if (name === 'velocity_story_points') velocity.storyPoints = number;
+      else if (name === 'velocity_issues_per_week') velocity.issuesPerWeek = number;
+      else if (name === 'velocity_sprints') {
+        velocity.sprints = number;
+        velocity.per = number > 0 ? 'sprint' : 'week';
+      }
+    } else if (name.startsWith('estimate_')) {
+      const accuracy = metrics.estimateAccuracy ??= {
+        issuesWithEstimates: 0, coverage: 0, avgEstimate: 0, totalEstimated: 0, totalCompleted: 0,
+        cycleDaysByEstimate: {}, cycleTimeCorrelation: null,
+      };
+      if (name === 'estimate_coverage') accuracy.coverage = number;
+      else if (name === 'estimate_cycle_time_correlation') accuracy.cycleTimeCorrelation = value === '' ? null : number;
+    } else if (name.startsWith('sprint_')) {
+      const sprints = metrics.sprints ??= {
+        sprints: [], avgCompletionRate: 0, avgVelocity: 0, avgCompletedIssues: 0,
+        scopeAddedRate: 0, carryOverRate: 0, velocityTrend: null,
+      };
+      if (name === 'sprint_completion_rate') sprints.avgCompletionRate = number;
+      else if (name === 'sprint_scope_added_rate') sprints.scopeAddedRate = number;
+      else if (name === 'sprint_carry_over_rate') sprints.carryOverRate = number;
+    }
+  },
+};
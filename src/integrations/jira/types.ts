@@ -28,6 +28,14 @@ export interface JiraSprint {
   state: 'active' | 'closed' | 'future';
   startDate?: string;
   endDate?: string;
+  completeDate?: string;
+}
+
+export interface JiraVersion {
+  id: string;
+  name: string;
+  released?: boolean;
+  releaseDate?: string;
 }
 
 export interface JiraIssue {
@@ -44,6 +52,8 @@ export interface JiraIssue {
     updated: string;
     resolutiondate?: string;
     labels?: string[];
+    versions?: JiraVersion[];
+    fixVersions?: JiraVersion[];
     [key: string]: unknown;
   };
   changelog?: { histories: JiraChangelogHistory[] };
@@ -55,6 +65,9 @@ export interface JiraChangelogHistory {
   author: JiraUser;
   items: Array<{
     field: string;
+    /** Raw values, e.g. comma-separated sprint ids for the Sprint field */
+    from?: string | null;
+    to?: string | null;
     fromString: string | null;
     toString: string | null;
   }>;
@@ -79,6 +92,12 @@ export interface JiraBoardResult {
   values: Array<{ id: number; name: string; type: string }>;
 }
 
+/** A sprint with the issues it contained (see JiraClient.getSprintIssues) */
+export interface JiraSprintIssues {
+  sprint: JiraSprint;
+  issues: JiraIssue[];
+}
+
 // Filter Options
 export interface JiraFilterOptions {
   project: string;
@@ -102,6 +121,10 @@ export interface JiraMetrics {
   blockedTime: BlockedTimeMetrics;
   throughput: ThroughputMetrics | null;
   bugRatio: BugRatioMetrics;
+  sprints: SprintMetrics | null;
+  velocity: VelocityMetrics | null;
+  estimateAccuracy: EstimateAccuracyMetrics | null;
+  flow: FlowMetrics | null;
 }
 
 export interface CycleTimeMetrics {
@@ -152,6 +175,94 @@ export interface BugRatioMetrics {
   bugResolutionTime: { avgDays: number; medianDays: number };
 }
 
+export interface SprintReport {
+  id: number;
+  name: string;
+  state: JiraSprint['state'];
+  startDate: string | null;
+  endDate: string | null;
+  /** Issues in the sprint when it started */
+  committed: number;
+  /** Issues added after the sprint started */
+  added: number;
+  /** Issues done by the end of the sprint */
+  completed: number;
+  /** Issues left undone when the sprint closed */
+  carriedOver: number;
+  committedPoints: number;
+  addedPoints: number;
+  completedPoints: number;
+  /** Percentage of the sprint's issues (committed and added) completed */
+  completionRate: number;
+}
+
+export interface SprintMetrics {
+  /** Oldest first; averages only cover closed sprints */
+  sprints: SprintReport[];
+  avgCompletionRate: number;
+  /** Completed story points per sprint */
+  avgVelocity: number;
+  avgCompletedIssues: number;
+  /** Percentage of sprint issues added after the sprint started */
+  scopeAddedRate: number;
+  /** Percentage of sprint issues left undone when the sprint closed */
+  carryOverRate: number;
+  /** Velocity of the later half of the sprints against the earlier half */
+  velocityTrend: 'up' | 'down' | 'stable' | null;
+}
+
+export interface VelocityMetrics {
+  /** Completed story points per sprint, or per week without sprint data */
+  storyPoints: number;
+  per: 'sprint' | 'week';
+  issuesPerWeek: number;
+  /** Sprints averaged over (0 without sprint data) */
+  sprints: number;
+  /** Story points of issues completed in the period */
+  totalPoints: number;
+  byAssignee: Record<string, number>;
+}
+
+export interface EstimateAccuracyMetrics {
+  issuesWithEstimates: number;
+  /** Percentage of issues with an estimate */
+  coverage: number;
+  avgEstimate: number;
+  totalEstimated: number;
+  totalCompleted: number;
+  /** Average cycle time in days per estimate, e.g. { "3": 2.5, "5": 4.1 } */
+  cycleDaysByEstimate: Record<string, number>;
+  /** Correlation between estimates and cycle time (-1 to 1); null with fewer than 3 completed, estimated issues */
+  cycleTimeCorrelation: number | null;
+}
+
+export interface StatusTimeMetrics {
+  status: string;
+  /** Category the status is mapped to, null if unmapped */
+  category: JiraStatusCategory | null;
+  /** Issues that spent time in the status */
+  issues: number;
+  totalHours: number;
+  avgHours: number;
+  medianHours: number;
+  p85Hours: number;
+  p95Hours: number;
+  /** Percentage of all flow time spent in the status */
+  share: number;
+}
+
+export interface FlowMetrics {
+  /** Completed issues that were worked on */
+  issuesAnalyzed: number;
+  /** Active time / total time from first "in progress" to done, in percent */
+  avgEfficiency: number;
+  medianEfficiency: number;
+  activeHours: number;
+  waitingHours: number;
+  /** Most time first */
+  byStatus: StatusTimeMetrics[];
+}
+
 // Status Mapping
 export interface JiraStatusMapping {
   todo: string[];
@@ -160,9 +271,26 @@ export interface JiraStatusMapping {
   done: string[];
 }
 
+/** Categories statuses are mapped to */
+export type JiraStatusCategory = keyof JiraStatusMapping;
+
+/** A workflow status used by a project, as listed by the project statuses API */
+export interface JiraProjectStatus {
+  id: string;
+  name: string;
+  /** Jira's own category: 'new', 'indeterminate' or 'done' */
+  categoryKey: string;
+  categoryName: string;
+  /** Issue types whose workflow uses the status */
+  issueTypes: string[];
+}
+
 export const DEFAULT_STATUS_MAPPING: JiraStatusMapping = {
   todo: ['To Do', 'Open', 'Backlog', 'New'],
   inProgress: ['In Progress', 'In Development', 'In Review', 'Code Review', 'Testing', 'QA'],
   blocked: ['Blocked', 'On Hold', 'Waiting', 'Impediment'],
   done: ['Done', 'Closed', 'Resolved', 'Complete', 'Deployed'],
 };
+
+/** Jira Cloud's "Story point estimate" field */
+export const DEFAULT_STORY_POINTS_FIELD = 'customfield_10016';
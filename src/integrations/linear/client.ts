@@ -3,28 +3,51 @@
 // ============================================
 
 import { LinearConfig } from '../../config/integrations';
+import { PERFORMANCE } from '../../config/constants';
+import { BaseHttpClient } from '../base/http-client';
+import { ConnectionResult, FetchOptions, IIssueTrackingClient } from '../base/interfaces';
+import { AuthenticationError, IntegrationError, RateLimitError } from '../../utils/errors';
 import {
-  LinearIssue, LinearTeam, LinearCycle, LinearIssueConnection,
-  LinearGraphQLResponse, TeamsQueryResponse, IssuesQueryResponse,
-  CyclesQueryResponse, LinearFilterOptions,
+  LinearIssue, LinearTeam, LinearCycle, LinearUser, LinearIssueConnection,
+  LinearProject, LinearInitiative, LinearProjectIssues, LinearCycleIssues, LinearCycleChange,
+  LinearGraphQLResponse, TeamsQueryResponse, IssuesQueryResponse, IssueHistoryQueryResponse,
+  CyclesQueryResponse, TeamProjectsQueryResponse, InitiativesQueryResponse, LinearFilterOptions,
 } from './types';
 
 const LINEAR_API_URL = 'https://api.linear.app/graphql';
 
+/** Requests and query complexity left in Linear's current rate limit windows */
+interface LinearRateLimit {
+  requestsRemaining?: number;
+  requestsReset?: number;
+  complexityRemaining?: number;
+  complexityReset?: number;
+  /** Complexity of the last query, to tell whether another one still fits */
+  lastComplexity?: number;
+}
+
+/** Rate limit windows Linear reports: remaining budget and reset time (epoch ms) headers */
+const RATE_LIMIT_WINDOWS: Array<[remaining: string, reset: string]> = [
+  ['X-RateLimit-Requests-Remaining', 'X-RateLimit-Requests-Reset'],
+  ['X-RateLimit-Complexity-Remaining', 'X-RateLimit-Complexity-Reset'],
+];
+
 /**
- * Sleeps for a specified duration.
+ * Reads a numeric response header.
  * 
- * @param ms - Milliseconds to sleep
- * @returns Promise that resolves after the delay
  * @private
  */
-async function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+function getNumberHeader(response: Response, name: string): number | undefined {
+  const value = response.headers.get(name);
+  return value !== null && value !== '' && !isNaN(Number(value)) ? Number(value) : undefined;
 }
 
 /**
  * Linear API client for interacting with Linear's GraphQL API.
  * Provides methods for querying teams, issues, cycles, and metrics.
+ * Requests go through BaseHttpClient and follow Linear's rate limit headers:
+ * once the request or complexity budget runs out, the next request waits for
+ * the window to reset, and rate-limited requests are retried after it.
  * 
  * @example
  * ```typescript
@@ -33,8 +56,8 @@ async function sleep(ms: number): Promise<void> {
  * const issues = await client.getIssues({ teamId: team.id });
  * ```
  */
-export class LinearClient {
-  private apiKey: string;
+export class LinearClient extends BaseHttpClient implements IIssueTrackingClient<LinearIssue> {
+  private rateLimit: LinearRateLimit = {};
 
   /**
    * Creates a new Linear API client.
@@ -42,7 +65,12 @@ export class LinearClient {
    * @param config - Linear configuration containing API key
    */
   constructor(config: LinearConfig) {
-    this.apiKey = config.apiKey;
+    super({
+      baseUrl: config.url || LINEAR_API_URL,
+      integration: 'Linear',
+      timeout: config.timeout,
+      headers: { 'Authorization': config.apiKey },
+    });
   }
 
   /**
@@ -52,32 +80,91 @@ export class LinearClient {
    * @param query - GraphQL query string
    * @param variables - Optional query variables
    * @returns Promise resolving to the query response data
-   * @throws {Error} If the request fails or returns errors
+   * @throws {AuthenticationError | RateLimitError | NetworkError | IntegrationError} If the request fails or returns errors
    * @private
    */
   private async graphql<T>(query: string, variables?: Record<string, unknown>): Promise<T> {
-    const response = await fetch(LINEAR_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': this.apiKey,
-      },
-      body: JSON.stringify({ query, variables }),
-    });
+    const result = await this.post<LinearGraphQLResponse<T>>('', { query, variables });
+    return result.data;
+  }
 
-    if (!response.ok) {
-      const error = new Error(`Linear API error: ${response.status} ${response.statusText}`) as Error & { status: number };
-      error.status = response.status;
-      throw error;
+  /**
+   * Waits for the rate limit window to reset when the last response left no
+   * room for another request. Longer waits than the retry limit are left to
+   * the server, which answers with a rate limit error.
+   * 
+   * @protected
+   */
+  protected async beforeRequest(): Promise<void> {
+    const { requestsRemaining, requestsReset, complexityRemaining, complexityReset, lastComplexity } = this.rateLimit;
+    const resets: number[] = [];
+    if (requestsRemaining !== undefined && requestsRemaining <= 0 && requestsReset) {
+      resets.push(requestsReset);
+    }
+    if (complexityRemaining !== undefined && lastComplexity !== undefined &&
+        complexityRemaining < lastComplexity && complexityReset) {
+      resets.push(complexityReset);
     }
 
-    const result = await response.json() as LinearGraphQLResponse<T>;
-    
-    if (result.errors?.length) {
-      throw new Error(`Linear GraphQL error: ${result.errors[0].message}`);
+    const wait = resets.length ? Math.max(...resets) - Date.now() : 0;
+    if (wait > 0 && wait <= (this.retryConfig.maxRateLimitWait ?? 0)) {
+      await this.sleep(wait);
     }
+  }
 
-    return result.data;
+  /**
+   * Records Linear's rate limit headers.
+   * 
+   * @protected
+   */
+  protected onResponse(response: Response): void {
+    this.rateLimit = {
+      requestsRemaining: getNumberHeader(response, 'X-RateLimit-Requests-Remaining'),
+      requestsReset: getNumberHeader(response, 'X-RateLimit-Requests-Reset'),
+      complexityRemaining: getNumberHeader(response, 'X-RateLimit-Complexity-Remaining'),
+      complexityReset: getNumberHeader(response, 'X-RateLimit-Complexity-Reset'),
+      lastComplexity: getNumberHeader(response, 'X-Complexity'),
+    };
+  }
+
+  /**
+   * Adds GraphQL errors to the HTTP status checks; Linear reports rate limits
+   * as a RATELIMITED error, not only as a 429.
+   * 
+   * @protected
+   */
+  protected checkResponse(response: Response, body: unknown): void {
+    const errors = (body as LinearGraphQLResponse<unknown> | undefined)?.errors;
+    if (errors?.some(error => error.extensions?.code === 'RATELIMITED')) {
+      throw new RateLimitError(`Linear rate limit exceeded: ${errors[0].message}`, this.getRetryAfter(response));
+    }
+
+    super.checkResponse(response, body);
+
+    if (errors?.length) {
+      const message = `Linear GraphQL error: ${errors[0].message}`;
+      if (errors[0].extensions?.code === 'AUTHENTICATION_ERROR') {
+        throw new AuthenticationError(message, this.integration);
+      }
+      throw new IntegrationError(message, this.integration, response.status);
+    }
+  }
+
+  /**
+   * Reads the wait from Retry-After, or else from the reset time of the
+   * exhausted rate limit window.
+   * 
+   * @protected
+   */
+  protected getRetryAfter(response: Response): number | undefined {
+    const retryAfter = super.getRetryAfter(response);
+    if (retryAfter !== undefined) return retryAfter;
+
+    const resets = RATE_LIMIT_WINDOWS
+      .filter(([remaining]) => (getNumberHeader(response, remaining) ?? 1) <= 0)
+      .map(([, reset]) => getNumberHeader(response, reset))
+      .filter((reset): reset is number => reset !== undefined);
+    return resets.length ? Math.max(0, (Math.max(...resets) - Date.now()) / 1000) : undefined;
   }
 
   // ==========================================
@@ -120,6 +207,35 @@ export class LinearClient {
     ) || null;
   }
 
+  // ==========================================
+  // Users
+  // ==========================================
+
+  /**
+   * Finds a workspace member by email (case-insensitive).
+   * 
+   * @param email - Email address
+   * @returns Promise resolving to the user or null if not found
+   */
+  async getUserByEmail(email: string): Promise<LinearUser | null> {
+    const query = `
+      query GetUserByEmail($email: String!) {
+        users(filter: { email: { eqIgnoreCase: $email } }) {
+          nodes {
+            id
+            name
+            email
+            displayName
+            active
+          }
+        }
+      }
+    `;
+
+    const result = await this.graphql<{ users: { nodes: LinearUser[] } }>(query, { email });
+    return result.users.nodes[0] ?? null;
+  }
+
   // ==========================================
   // Issues
   // ==========================================
@@ -134,6 +250,13 @@ export class LinearClient {
    * @param options.assigneeId - Filter by assignee ID
    * @param options.since - Filter issues updated since this date
    * @param options.until - Filter issues updated before this date
+   * @param options.identifiers - Only these issues (e.g. "ENG-42"), from any team
+   * @param options.stateTypes - Only issues in these kinds of state (e.g. "started")
+   * @param options.completedSince - Only issues completed on or after this date
+   * @param options.projectName - Only issues of this project (case-insensitive)
+   * @param options.cycleNumber - Only issues of this cycle, e.g. 12 (combine with a team)
+   * @param options.activeSince - Only issues not completed or canceled before this date
+   * @param options.projectIds - Only issues of these projects
    * @returns Promise resolving to array of issues
    */
   async getIssues(options: LinearFilterOptions): Promise<LinearIssue[]> {
@@ -174,6 +297,15 @@ export class LinearClient {
               startsAt
               endsAt
             }
+            project {
+              id
+              name
+            }
+            projectMilestone {
+              id
+              name
+              targetDate
+            }
             labels {
               nodes {
                 id
@@ -204,6 +336,44 @@ export class LinearClient {
     if (options.states?.length) {
       filter.state = { name: { in: options.states } };
     }
+    if (options.stateTypes?.length) {
+      filter.state = { ...filter.state as object, type: { in: options.stateTypes } };
+    }
+    if (options.updatedSince) {
+      filter.updatedAt = { gte: options.updatedSince };
+    }
+    if (options.completedSince) {
+      filter.completedAt = { gte: options.completedSince };
+    }
+    if (options.projectName) {
+      filter.project = { name: { eqIgnoreCase: options.projectName } };
+    }
+    if (options.projectIds?.length) {
+      filter.project = { id: { in: options.projectIds } };
+    }
+    if (options.cycleNumber !== undefined) {
+      filter.cycle = { number: { eq: options.cycleNumber } };
+    }
+    if (options.activeSince) {
+      filter.and = [
+        { or: [{ completedAt: { null: true } }, { completedAt: { gte: options.activeSince } }] },
+        { or: [{ canceledAt: { null: true } }, { canceledAt: { gte: options.activeSince } }] },
+      ];
+    }
+    if (options.identifiers?.length) {
+      // Identifiers aren't filterable; match each team's key and issue numbers instead
+      const numbersByTeam = new Map<string, number[]>();
+      for (const identifier of options.identifiers) {
+        const match = identifier.match(/^([A-Za-z][A-Za-z0-9]*)-(\d+)$/);
+        if (!match) continue;
+        const team = match[1].toUpperCase();
+        numbersByTeam.set(team, [...(numbersByTeam.get(team) ?? []), parseInt(match[2], 10)]);
+      }
+      filter.or = Array.from(numbersByTeam, ([key, numbers]) => ({
+        team: { key: { eq: key } },
+        number: { in: numbers },
+      }));
+    }
 
     const allIssues: LinearIssue[] = [];
     let cursor: string | undefined;
@@ -233,7 +403,7 @@ export class LinearClient {
       hasMore = result.issues.pageInfo.hasNextPage;
       cursor = result.issues.pageInfo.endCursor;
 
-      if (hasMore) await sleep(100);
+      if (hasMore) await this.sleep(PERFORMANCE.API_DELAY_MS);
     }
 
     return allIssues;
@@ -277,17 +447,214 @@ export class LinearClient {
       hasMore = result.cycles.pageInfo.hasNextPage;
       cursor = result.cycles.pageInfo.endCursor;
 
-      if (hasMore) await sleep(100);
+      if (hasMore) await this.sleep(PERFORMANCE.API_DELAY_MS);
     }
 
     return allCycles;
   }
 
+  /**
+   * Gets the cycle changes in each issue's history.
+   * 
+   * @param issueIds - Issue IDs
+   * @returns Promise resolving to the cycle changes per issue ID, oldest first
+   * @private
+   */
+  private async getCycleHistory(issueIds: string[]): Promise<Map<string, LinearCycleChange[]>> {
+    const query = `
+      query GetCycleHistory($filter: IssueFilter, $first: Int) {
+        issues(filter: $filter, first: $first) {
+          nodes {
+            id
+            history(first: 100) {
+              nodes {
+                createdAt
+                fromCycleId
+                toCycleId
+              }
+            }
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    `;
+
+    const histories = new Map<string, LinearCycleChange[]>();
+    // Keep each request within Linear's query complexity limit
+    for (let i = 0; i < issueIds.length; i += 50) {
+      const ids = issueIds.slice(i, i + 50);
+      const result = await this.graphql<IssueHistoryQueryResponse>(query, {
+        filter: { id: { in: ids } },
+        first: ids.length,
+      });
+
+      for (const issue of result.issues.nodes) {
+        const changes = issue.history.nodes
+          .filter(change => (change.fromCycleId || change.toCycleId) && change.fromCycleId !== change.toCycleId)
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+        histories.set(issue.id, changes);
+      }
+
+      if (i + 50 < issueIds.length) await this.sleep(PERFORMANCE.API_DELAY_MS);
+    }
+
+    return histories;
+  }
+
+  /**
+   * Gets every issue that was in each cycle at some point, including the
+   * ones moved out since, with their cycle history.
+   * 
+   * @param teamId - Team ID
+   * @param cycles - Cycles of the team (see getCycles)
+   * @returns Promise resolving to each cycle with its issues
+   */
+  async getCycleIssues(teamId: string, cycles: LinearCycle[]): Promise<LinearCycleIssues[]> {
+    if (!cycles.length) return [];
+
+    // Joining or leaving a cycle updates the issue, so nothing older can have been in one
+    const since = cycles.reduce((min, cycle) => (cycle.startsAt < min ? cycle.startsAt : min), cycles[0].startsAt);
+    const issues = await this.getIssues({ teamId, updatedSince: since });
+    const histories = await this.getCycleHistory(issues.map(issue => issue.id));
+    const withHistory = issues.map(issue => ({ ...issue, cycleHistory: histories.get(issue.id) ?? [] }));
+
+    return cycles.map(cycle => ({
+      cycle,
+      issues: withHistory.filter(issue =>
+        issue.cycle?.id === cycle.id ||
+        issue.cycleHistory.some(change => change.fromCycleId === cycle.id || change.toCycleId === cycle.id)),
+    }));
+  }
+
+  // ==========================================
+  // Projects & Initiatives
+  // ==========================================
+
+  /**
+   * Gets the projects a team takes part in, with their milestones.
+   * 
+   * @param teamId - Team ID
+   * @returns Promise resolving to array of projects
+   */
+  async getTeamProjects(teamId: string): Promise<LinearProject[]> {
+    const query = `
+      query GetTeamProjects($teamId: String!, $after: String) {
+        team(id: $teamId) {
+          projects(first: 50, after: $after) {
+            nodes {
+              id
+              name
+              state
+              progress
+              startDate
+              targetDate
+              createdAt
+              completedAt
+              canceledAt
+              lead {
+                name
+                displayName
+              }
+              projectMilestones {
+                nodes {
+                  id
+                  name
+                  targetDate
+                }
+              }
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+      }
+    `;
+
+    const allProjects: LinearProject[] = [];
+    let cursor: string | undefined;
+    let hasMore = true;
+
+    while (hasMore) {
+      const result = await this.graphql<TeamProjectsQueryResponse>(query, { teamId, after: cursor });
+      const { nodes, pageInfo } = result.team.projects;
+
+      allProjects.push(...nodes.map(({ projectMilestones, lead, ...project }) => ({
+        ...project,
+        lead: lead ?? undefined,
+        milestones: projectMilestones.nodes,
+      })));
+      hasMore = pageInfo.hasNextPage;
+      cursor = pageInfo.endCursor;
+
+      if (hasMore) await this.sleep(PERFORMANCE.API_DELAY_MS);
+    }
+
+    return allProjects;
+  }
+
+  /**
+   * Gets the workspace's initiatives and the projects in each.
+   * Initiatives aren't available on every plan.
+   * 
+   * @returns Promise resolving to array of initiatives, or null if unavailable
+   */
+  async getInitiatives(): Promise<LinearInitiative[] | null> {
+    const query = `
+      query {
+        initiatives(first: 100) {
+          nodes {
+            id
+            name
+            status
+            targetDate
+            projects {
+              nodes {
+                id
+              }
+            }
+          }
+        }
+      }
+    `;
+
+    try {
+      const result = await this.graphql<InitiativesQueryResponse>(query);
+      return result.initiatives.nodes.map(({ projects, ...initiative }) => ({
+        ...initiative,
+        projectIds: projects.nodes.map(project => project.id),
+      }));
+    } catch (error: unknown) {
+      // Authentication problems are real errors; anything else means no initiatives here
+      if (error instanceof AuthenticationError) throw error;
+      return null;
+    }
+  }
+
+  /**
+   * Gets the issues of each project.
+   * 
+   * @param projects - Projects (see getTeamProjects)
+   * @returns Promise resolving to each project with its issues
+   */
+  async getProjectIssues(projects: LinearProject[]): Promise<LinearProjectIssues[]> {
+    if (!projects.length) return [];
+    const issues = await this.getIssues({ projectIds: projects.map(project => project.id) });
+    return projects.map(project => ({
+      project,
+      issues: issues.filter(issue => issue.project?.id === project.id),
+    }));
+  }
+
   // ==========================================
   // Test Connection
   // ==========================================
 
-  async testConnection(): Promise<{ success: boolean; user?: string; error?: string }> {
+  async testConnection(): Promise<ConnectionResult> {
     try {
       const query = `
         query {
@@ -310,6 +677,47 @@ export class LinearClient {
   // Convenience Methods
   // ==========================================
 
+  /**
+   * Gets issues by identifier, e.g. those referenced by commit messages.
+   * Identifiers that don't exist are skipped.
+   * 
+   * @param identifiers - Issue identifiers such as "ENG-42"
+   * @returns The issues found
+   */
+  async getIssuesByIdentifiers(identifiers: string[]): Promise<LinearIssue[]> {
+    const issues: LinearIssue[] = [];
+    // Keep each filter small enough for Linear's query complexity limit
+    for (let i = 0; i < identifiers.length; i += 100) {
+      issues.push(...await this.getIssues({ identifiers: identifiers.slice(i, i + 100) }));
+    }
+    return issues;
+  }
+
+  /**
+   * Fetches issues created in a period, for code working with any tracker.
+   * Linear paginates with cursors, so the offset is applied after fetching.
+   * 
+   * @param options - Team name or key, assignee email, creation date range and pagination
+   * @returns The issues
+   * @throws {Error} If the team or the assignee doesn't exist
+   */
+  async fetchIssues(options: FetchOptions): Promise<LinearIssue[]> {
+    const filter: Omit<LinearFilterOptions, 'teamId' | 'teamName'> = {
+      since: options.since?.toISOString(),
+      until: options.until?.toISOString(),
+    };
+    if (options.assignee) {
+      const user = await this.getUserByEmail(options.assignee);
+      if (!user) {
+        throw new Error(`No Linear user with email ${options.assignee}`);
+      }
+      filter.assigneeId = user.id;
+    }
+    const issues = options.project ? await this.getTeamIssues(options.project, filter) : await this.getIssues(filter);
+    const offset = options.offset ?? 0;
+    return issues.slice(offset, options.limit !== undefined ? offset + options.limit : undefined);
+  }
+
   async getTeamIssues(
     teamName: string,
     options: Omit<LinearFilterOptions, 'teamId' | 'teamName'> = {}
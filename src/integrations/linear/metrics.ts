@@ -3,11 +3,19 @@
 // ============================================
 
 import {
-  LinearIssue, LinearMetrics, CycleTimeMetrics, LeadTimeMetrics,
+  LinearIssue, LinearMetrics,
   WIPMetrics, ThroughputMetrics, CycleCompletionMetrics, EstimateAccuracyMetrics,
+  LinearInitiative, LinearProjectIssues, RoadmapMetrics, ProjectProgress, ProjectHealth,
+  ProjectScopeWeek, InitiativeProgress, LinearCycleIssues, CycleScopeMetrics, CycleScopeReport,
 } from './types';
-import { format, differenceInDays, differenceInWeeks, parseISO } from 'date-fns';
-import { median, percentile, avg, getWeekKey } from '../../utils/metrics-calculations';
+import {
+  format, differenceInWeeks, parseISO, addWeeks, startOfWeek, subWeeks, max as latest,
+} from 'date-fns';
+import { avg, getWeekKey } from '../../utils/metrics-calculations';
+import { CumulativeFlow, IssueStateCategory, NormalizedIssue, TrackedIssue, WorkItem } from '../../types';
+import { calculateCycleTime, calculateLeadTime } from '../../core/tracker-metrics';
+import { buildCumulativeFlow, StateChange } from '../../core/cfd';
+import { calculateForecast } from '../../core/forecast';
 
 // Priority mapping
 const PRIORITY_NAMES: Record<number, string> = {
@@ -18,55 +26,16 @@ const PRIORITY_NAMES: Record<number, string> = {
   4: 'Low',
 };
 
-// Metric calculators
-function calculateCycleTime(issues: LinearIssue[]): CycleTimeMetrics | null {
-  const times: number[] = [];
-
-  for (const issue of issues) {
-    if (issue.startedAt && issue.completedAt) {
-      const started = parseISO(issue.startedAt);
-      const completed = parseISO(issue.completedAt);
-      if (completed > started) {
-        times.push(differenceInDays(completed, started));
-      }
-    }
-  }
-
-  if (!times.length) return null;
-
-  return {
-    avgDays: Math.round(avg(times) * 10) / 10,
-    medianDays: Math.round(median(times) * 10) / 10,
-    minDays: Math.min(...times),
-    maxDays: Math.max(...times),
-    p90Days: Math.round(percentile(times, 90) * 10) / 10,
-    count: times.length,
-  };
-}
-
-function calculateLeadTime(issues: LinearIssue[]): LeadTimeMetrics | null {
-  const times: number[] = [];
-
-  for (const issue of issues) {
-    if (issue.completedAt) {
-      const created = parseISO(issue.createdAt);
-      const completed = parseISO(issue.completedAt);
-      times.push(differenceInDays(completed, created));
-    }
-  }
-
-  if (!times.length) return null;
-
-  return {
-    avgDays: Math.round(avg(times) * 10) / 10,
-    medianDays: Math.round(median(times) * 10) / 10,
-    minDays: Math.min(...times),
-    maxDays: Math.max(...times),
-    p90Days: Math.round(percentile(times, 90) * 10) / 10,
-    count: times.length,
-  };
-}
+/** Category of each Linear workflow state type */
+const STATE_CATEGORIES: Record<LinearIssue['state']['type'], IssueStateCategory> = {
+  backlog: 'todo',
+  unstarted: 'todo',
+  started: 'in_progress',
+  completed: 'done',
+  canceled: 'canceled',
+};
 
+// Metric calculators
 function calculateWIP(issues: LinearIssue[]): WIPMetrics {
   const inProgress = issues.filter(issue => issue.state.type === 'started');
   const byAssignee: Record<string, number> = {};
@@ -151,6 +120,123 @@ function calculateCycleCompletion(issues: LinearIssue[]): CycleCompletionMetrics
   return { avgRate, cycles };
 }
 
+// ==========================================
+// Cycle Scope
+// ==========================================
+
+/** Linear moves unfinished issues into the next cycle around the time one ends and the next starts */
+const CYCLE_ROLLOVER_GRACE_MS = 60 * 60 * 1000;
+
+/** The issue's cycle at a point in time, from its cycle history */
+function getCycleAt(issue: LinearIssue, at: string): string | null {
+  const changes = issue.cycleHistory ?? [];
+  if (!changes.length) return issue.cycle?.id ?? null;
+
+  let cycleId = changes[0].fromCycleId;
+  for (const change of changes) {
+    if (change.createdAt > at) break;
+    cycleId = change.toCycleId;
+  }
+  return cycleId;
+}
+
+/** The change that (last) brought the issue into the cycle by a point in time */
+function getCycleJoin(issue: LinearIssue, cycleId: string, at: string) {
+  return (issue.cycleHistory ?? [])
+    .filter(change => change.toCycleId === cycleId && change.createdAt <= at)
+    .pop();
+}
+
+function calculateCycleScopeReport({ cycle, issues }: LinearCycleIssues, now: string): CycleScopeReport {
+  const start = new Date(parseISO(cycle.startsAt).getTime() + CYCLE_ROLLOVER_GRACE_MS).toISOString();
+  const scheduledEnd = cycle.completedAt || cycle.endsAt;
+  const end = scheduledEnd < now ? scheduledEnd : now;
+  // Unfinished issues rolled into the next cycle as this one ends haven't been removed
+  const removedBy = new Date(parseISO(end).getTime() - CYCLE_ROLLOVER_GRACE_MS).toISOString();
+  const report: CycleScopeReport = {
+    id: cycle.id,
+    number: cycle.number,
+    name: cycle.name || `Cycle ${cycle.number}`,
+    startsAt: cycle.startsAt,
+    endsAt: cycle.endsAt,
+    completedAt: cycle.completedAt ?? null,
+    initial: 0, added: 0, removed: 0, carriedOver: 0, completed: 0, initialCompleted: 0,
+    initialPoints: 0, addedPoints: 0, completedPoints: 0,
+    completionRate: 0,
+  };
+
+  for (const issue of issues) {
+    const points = issue.estimate || 0;
+    const initial = issue.createdAt <= start && getCycleAt(issue, start) === cycle.id;
+    const added = !initial && (
+      (issue.createdAt > start && issue.createdAt <= end && getCycleAt(issue, issue.createdAt) === cycle.id) ||
+      (issue.cycleHistory ?? []).some(change => change.toCycleId === cycle.id && change.createdAt > start && change.createdAt <= end)
+    );
+    if (!initial && !added) continue;
+
+    if (initial) {
+      report.initial++;
+      report.initialPoints += points;
+    } else {
+      report.added++;
+      report.addedPoints += points;
+    }
+
+    const join = getCycleJoin(issue, cycle.id, end);
+    if (join?.fromCycleId) report.carriedOver++;
+
+    const completedAt = issue.completedAt;
+    if (completedAt && completedAt <= end && getCycleAt(issue, completedAt) === cycle.id) {
+      report.completed++;
+      report.completedPoints += points;
+      if (initial) report.initialCompleted++;
+    } else if (getCycleAt(issue, removedBy) !== cycle.id || (issue.canceledAt && issue.canceledAt <= end)) {
+      report.removed++;
+    }
+  }
+
+  report.completionRate = report.initial ? Math.round((report.initialCompleted / report.initial) * 100) : 0;
+  return report;
+}
+
+/**
+ * Calculates each cycle's scope from the issues' cycle history rather than
+ * their current cycle: the initial commitment when the cycle started, issues
+ * added and removed after that, issues rolled over from other cycles and the
+ * share of the commitment completed. Canceled issues count as removed.
+ *
+ * @param cycles - Cycles with their issues (see LinearClient.getCycleIssues)
+ * @param options - The current time, which ends cycles still running
+ * @returns Cycle scope metrics, or null without cycles
+ */
+export function calculateCycleScope(
+  cycles: LinearCycleIssues[],
+  options: { now?: Date } = {}
+): CycleScopeMetrics | null {
+  if (!cycles.length) return null;
+
+  const now = (options.now ?? new Date()).toISOString();
+  const reports = [...cycles]
+    .filter(({ cycle }) => cycle.startsAt <= now)
+    .sort((a, b) => a.cycle.startsAt.localeCompare(b.cycle.startsAt))
+    .map(entry => calculateCycleScopeReport(entry, now));
+  if (!reports.length) return null;
+
+  const closed = reports.filter(report => report.completedAt);
+  const total = (key: 'initial' | 'added' | 'removed' | 'carriedOver') =>
+    reports.reduce((sum, report) => sum + report[key], 0);
+  const initial = total('initial');
+  const scope = initial + total('added');
+
+  return {
+    cycles: reports,
+    avgCompletionRate: closed.length ? Math.round(avg(closed.map(report => report.completionRate))) : 0,
+    scopeAddedRate: initial ? Math.round((total('added') / initial) * 100) : 0,
+    scopeRemovedRate: scope ? Math.round((total('removed') / scope) * 100) : 0,
+    carryOverRate: scope ? Math.round((total('carriedOver') / scope) * 100) : 0,
+  };
+}
+
 function calculateEstimateAccuracy(issues: LinearIssue[]): EstimateAccuracyMetrics | null {
   const withEstimates = issues.filter(i => i.estimate && i.estimate > 0);
   if (!withEstimates.length) return null;
@@ -165,13 +251,186 @@ function calculateEstimateAccuracy(issues: LinearIssue[]): EstimateAccuracyMetri
   };
 }
 
+// ==========================================
+// Roadmap
+// ==========================================
+
+/** Weeks of throughput a project's completion forecast is based on */
+const ROADMAP_HISTORY_WEEKS = 12;
+
+/** Fixed so reports show the same forecast for the same data */
+const ROADMAP_FORECAST_SEED = 1;
+
+/** From best to worst; an initiative takes the worst health of its projects */
+const HEALTH_ORDER: ProjectHealth[] = ['completed', 'no_target', 'on_track', 'no_forecast', 'at_risk', 'off_track'];
+
+function isOpen(issue: LinearIssue): boolean {
+  return issue.state.type !== 'completed' && issue.state.type !== 'canceled';
+}
+
+function sumEstimates(issues: LinearIssue[]): number {
+  return issues.reduce((total, issue) => total + (issue.estimate || 0), 0);
+}
+
+/**
+ * Weekly project scope, rebuilt from issue timestamps: an issue counts from
+ * the week it was created until it is canceled.
+ */
+function calculateScopeByWeek(issues: LinearIssue[], now: Date): ProjectScopeWeek[] {
+  if (!issues.length) return [];
+
+  const first = issues.reduce((min, issue) => (issue.createdAt < min ? issue.createdAt : min), issues[0].createdAt);
+  const weeks: ProjectScopeWeek[] = [];
+  for (let start = startOfWeek(parseISO(first)); start <= now; start = addWeeks(start, 1)) {
+    const end = addWeeks(start, 1).toISOString();
+    const inScope = issues.filter(issue => issue.createdAt < end && !(issue.canceledAt && issue.canceledAt < end));
+    const completed = inScope.filter(issue => issue.completedAt && issue.completedAt < end);
+    weeks.push({
+      week: getWeekKey(start),
+      issues: inScope.length,
+      points: sumEstimates(inScope),
+      completedIssues: completed.length,
+      completedPoints: sumEstimates(completed),
+    });
+  }
+  return weeks;
+}
+
+function calculateProjectProgress({ project, issues }: LinearProjectIssues, now: Date): ProjectProgress {
+  const live = issues.filter(issue => issue.state.type !== 'canceled');
+  const completed = live.filter(issue => issue.state.type === 'completed');
+  const open = live.filter(isOpen);
+  const today = format(now, 'yyyy-MM-dd');
+
+  // Forecast the open issues from the project's own recent throughput
+  let forecast: ProjectProgress['forecast'] = null;
+  if (project.state !== 'completed' && open.length) {
+    const historyStart = latest([subWeeks(now, ROADMAP_HISTORY_WEEKS), parseISO(project.startDate || project.createdAt)]);
+    const byWeek: Record<string, number> = {};
+    for (const issue of completed) {
+      if (issue.completedAt && parseISO(issue.completedAt) >= historyStart) {
+        const week = getWeekKey(parseISO(issue.completedAt));
+        byWeek[week] = (byWeek[week] || 0) + 1;
+      }
+    }
+    const result = calculateForecast(
+      Object.entries(byWeek).map(([week, count]) => ({ week, count })),
+      {
+        tracker: 'linear',
+        project: project.name,
+        weeks: Math.max(1, differenceInWeeks(now, historyStart)),
+        remaining: open.length,
+        iterations: 2000,
+        seed: ROADMAP_FORECAST_SEED,
+        now,
+      }
+    );
+    const at = (confidence: number) => result.completion?.find(c => c.confidence === confidence)?.date;
+    if (result.completion) forecast = { p50: at(50)!, p85: at(85)! };
+  } else if (project.state !== 'completed') {
+    forecast = { p50: today, p85: today };
+  }
+
+  let health: ProjectHealth;
+  if (project.state === 'completed') health = 'completed';
+  else if (!project.targetDate) health = 'no_target';
+  else if (!forecast) health = 'no_forecast';
+  else if (forecast.p85 <= project.targetDate) health = 'on_track';
+  else if (forecast.p50 <= project.targetDate) health = 'at_risk';
+  else health = 'off_track';
+
+  const slippedMilestones = project.milestones
+    .filter(milestone => milestone.targetDate && milestone.targetDate < today)
+    .map(milestone => ({
+      name: milestone.name,
+      targetDate: milestone.targetDate!,
+      openIssues: open.filter(issue => issue.projectMilestone?.id === milestone.id).length,
+    }))
+    .filter(milestone => milestone.openIssues > 0);
+
+  return {
+    id: project.id,
+    name: project.name,
+    state: project.state,
+    lead: project.lead?.displayName || project.lead?.name || null,
+    targetDate: project.targetDate ?? null,
+    totalIssues: live.length,
+    completedIssues: completed.length,
+    completedPoints: sumEstimates(completed),
+    remainingPoints: sumEstimates(open),
+    progress: live.length ? Math.round((completed.length / live.length) * 100) : 0,
+    forecast,
+    health,
+    slippedMilestones,
+    scopeByWeek: calculateScopeByWeek(issues, now),
+  };
+}
+
+/**
+ * Progress of a team's projects, and of the initiatives they belong to:
+ * scope per week, completed vs remaining estimates, a completion forecast
+ * against the target date and milestones past their date with open issues.
+ *
+ * Canceled projects are left out, and so are projects completed before `since`.
+ *
+ * @param projects - Projects with their issues (see LinearClient.getProjectIssues)
+ * @param initiatives - Workspace initiatives, null if unavailable
+ * @param options - Start of the period (YYYY-MM-DD) and the current time
+ * @returns Projects by target date, and initiatives containing any of them
+ */
+export function calculateRoadmapMetrics(
+  projects: LinearProjectIssues[],
+  initiatives: LinearInitiative[] | null = null,
+  options: { since?: string; now?: Date } = {}
+): RoadmapMetrics {
+  const now = options.now ?? new Date();
+  const progress = projects
+    .filter(({ project }) => project.state !== 'canceled')
+    .filter(({ project }) => !(options.since && project.completedAt && project.completedAt < options.since))
+    .map(entry => calculateProjectProgress(entry, now))
+    .sort((a, b) =>
+      (a.targetDate ?? '9999').localeCompare(b.targetDate ?? '9999') || a.name.localeCompare(b.name));
+
+  const byId = new Map(progress.map(project => [project.id, project]));
+  const initiativeProgress = initiatives?.flatMap((initiative): InitiativeProgress[] => {
+    const included = initiative.projectIds.map(id => byId.get(id)).filter((p): p is ProjectProgress => !!p);
+    if (!included.length) return [];
+    const totalIssues = included.reduce((total, p) => total + p.totalIssues, 0);
+    const completedIssues = included.reduce((total, p) => total + p.completedIssues, 0);
+    return [{
+      id: initiative.id,
+      name: initiative.name,
+      status: initiative.status ?? null,
+      targetDate: initiative.targetDate ?? null,
+      projects: included.length,
+      totalIssues,
+      completedIssues,
+      progress: totalIssues ? Math.round((completedIssues / totalIssues) * 100) : 0,
+      health: included.reduce<ProjectHealth>(
+        (worst, p) => (HEALTH_ORDER.indexOf(p.health) > HEALTH_ORDER.indexOf(worst) ? p.health : worst),
+        'completed'
+      ),
+    }];
+  }) ?? null;
+
+  return { projects: progress, initiatives: initiativeProgress };
+}
+
 // Main calculator
 export function calculateLinearMetrics(
   issues: LinearIssue[],
-  options: { since?: string; until?: string } = {}
+  options: {
+    since?: string; until?: string;
+    projects?: LinearProjectIssues[]; initiatives?: LinearInitiative[] | null;
+    cycles?: LinearCycleIssues[];
+  } = {}
 ): LinearMetrics {
   const since = options.since || '';
   const until = options.until || format(new Date(), 'yyyy-MM-dd');
+  const roadmap = options.projects
+    ? calculateRoadmapMetrics(options.projects, options.initiatives, { since: options.since })
+    : null;
+  const cycleScope = options.cycles ? calculateCycleScope(options.cycles) : null;
 
   if (!issues.length) {
     return {
@@ -184,21 +443,122 @@ export function calculateLinearMetrics(
       wip: { current: 0, byAssignee: {}, byPriority: {} },
       throughput: null,
       cycleCompletion: null,
+      cycleScope,
       estimateAccuracy: null,
+      roadmap,
     };
   }
 
   const periodWeeks = since ? differenceInWeeks(parseISO(until), parseISO(since)) : 12;
+  const normalized = normalizeIssues(issues);
 
   return {
     available: true,
     issuesAnalyzed: issues.length,
     period: { since, until },
-    cycleTime: calculateCycleTime(issues),
-    leadTime: calculateLeadTime(issues),
+    cycleTime: calculateCycleTime(normalized),
+    leadTime: calculateLeadTime(normalized),
     wip: calculateWIP(issues),
     throughput: calculateThroughput(issues, periodWeeks),
     cycleCompletion: calculateCycleCompletion(issues),
+    cycleScope,
     estimateAccuracy: calculateEstimateAccuracy(issues),
+    roadmap,
   };
 }
+
+/**
+ * Normalizes issues for the shared tracker metrics. Linear's state type gives
+ * the category; an issue is started and done when Linear marked it so.
+ *
+ * @param issues - Issues
+ * @returns Normalized issues
+ */
+export function normalizeIssues(issues: LinearIssue[]): NormalizedIssue[] {
+  return issues.map(issue => ({
+    tracker: 'linear',
+    key: issue.identifier,
+    title: issue.title,
+    type: null,
+    status: issue.state.name,
+    stateCategory: STATE_CATEGORIES[issue.state.type] ?? 'todo',
+    assignee: issue.assignee?.displayName || issue.assignee?.name || null,
+    estimate: issue.estimate ?? null,
+    createdAt: issue.createdAt,
+    startedAt: issue.startedAt ?? null,
+    doneAt: issue.completedAt ?? null,
+  }));
+}
+
+/**
+ * Reduces issues to what commit linking needs; an issue is done once completed.
+ *
+ * @param issues - Issues (see LinearClient.getIssuesByIdentifiers)
+ * @returns Tracked issues with the date they were completed
+ */
+export function getTrackedIssues(issues: LinearIssue[]): TrackedIssue[] {
+  return issues.map(issue => ({
+    key: issue.identifier,
+    title: issue.title,
+    status: issue.state.name,
+    doneAt: issue.completedAt,
+  }));
+}
+
+/**
+ * Reduces started issues to work items.
+ *
+ * @param issues - Issues (only those in a started state are kept)
+ * @returns Work items, started when Linear marked them started
+ */
+export function getWorkItems(issues: LinearIssue[]): WorkItem[] {
+  return issues
+    .filter(issue => issue.state.type === 'started' && issue.startedAt)
+    .map(issue => ({
+      key: issue.identifier,
+      title: issue.title,
+      status: issue.state.name,
+      assignee: issue.assignee?.displayName || issue.assignee?.name || null,
+      startedAt: issue.startedAt!,
+    }));
+}
+
+/**
+ * Cycle times of completed issues, at hour precision.
+ *
+ * @param issues - Completed issues
+ * @returns Days from started to completed, per issue
+ */
+export function getCycleTimes(issues: LinearIssue[]): number[] {
+  return issues
+    .filter(issue => issue.startedAt && issue.completedAt)
+    .map(issue => (parseISO(issue.completedAt!).getTime() - parseISO(issue.startedAt!).getTime()) / (24 * 60 * 60 * 1000))
+    .filter(days => days > 0);
+}
+
+/** States of a Linear cumulative flow diagram, in workflow order */
+const CFD_STATES = ['Todo', 'In Progress', 'Done'];
+
+/**
+ * Reconstructs daily issue counts per state from issue timestamps: an issue
+ * is to do once created, in progress once started and done once completed.
+ * Canceled issues leave the diagram.
+ *
+ * @param issues - Issues (see LinearClient.getIssues with `activeSince`)
+ * @param options - Team name and period (YYYY-MM-DD, inclusive)
+ * @returns Cumulative flow data
+ */
+export function calculateCumulativeFlow(
+  issues: LinearIssue[],
+  options: { project: string; since: string; until: string }
+): CumulativeFlow {
+  const histories = issues.map(issue => {
+    const changes: StateChange[] = [{ state: 'Todo', at: parseISO(issue.createdAt) }];
+    if (issue.startedAt) changes.push({ state: 'In Progress', at: parseISO(issue.startedAt) });
+    if (issue.completedAt) changes.push({ state: 'Done', at: parseISO(issue.completedAt) });
+    if (issue.canceledAt) changes.push({ state: null, at: parseISO(issue.canceledAt) });
+    return changes.sort((a, b) => a.at.getTime() - b.at.getTime());
+  });
+
+  return buildCumulativeFlow(histories, { tracker: 'linear', states: CFD_STATES, ...options });
+}
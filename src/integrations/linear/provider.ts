@@ -0,0 +1,103 @@
+// ============================================
+// Linear Issue Tracker Provider
+// ============================================
+
+import chalk from 'chalk';
+import { getLinearConfig } from '../../config/integrations';
+import { IssueTrackerProvider, MetricRow } from '../base/interfaces';
+import { LinearClient } from './client';
+import { calculateLinearMetrics, normalizeIssues } from './metrics';
+import { LinearIssue, LinearMetrics } from './types';
+
+/**
+ * Linear as an issue tracker provider. Team metrics (without an assignee)
+ * include the roadmap of the team's projects.
+ */
+export const linearProvider: IssueTrackerProvider<LinearIssue, LinearMetrics> = {
+  id: 'linear',
+  name: 'Linear',
+  scope: 'team',
+  icon: '📐',
+  setupHint: 'set LINEAR_API_KEY',
+
+  createClient() {
+    const config = getLinearConfig();
+    return config ? new LinearClient(config) : null;
+  },
+
+  normalize: normalizeIssues,
+
+  async getMetrics(client, { project, since, until, assignee }) {
+    const linear = client as LinearClient;
+    const team = await linear.getTeamByName(project);
+    if (!team) {
+      throw new Error(`Team not found: ${project}`);
+    }
+
+    if (assignee) {
+      const user = await linear.getUserByEmail(assignee);
+      if (!user) {
+        throw new Error(`No Linear user with email ${assignee}`);
+      }
+      const issues = await linear.getIssues({ teamId: team.id, since, until, assigneeId: user.id });
+      return calculateLinearMetrics(issues, { since, until });
+    }
+
+    const issues = await linear.getIssues({ teamId: team.id, since, until });
+    const projects = await linear.getProjectIssues(await linear.getTeamProjects(team.id));
+    const initiatives = await linear.getInitiatives();
+    return calculateLinearMetrics(issues, { since, until, projects, initiatives });
+  },
+
+  reportRows(metrics, markdown) {
+    const rows: MetricRow[] = [];
+    if (metrics.cycleCompletion) {
+      const rate = metrics.cycleCompletion.avgRate;
+      const rateColor: (text: string) => string = markdown ? String : rate >= 80 ? chalk.green : rate >= 60 ? chalk.yellow : chalk.red;
+      rows.push(['Cycle Completion', rateColor(`${rate}%`)]);
+    }
+    for (const project of metrics.roadmap?.projects ?? []) {
+      const health = project.health.replace('_', ' ');
+      if (markdown) {
+        const target = project.targetDate ? `, target ${project.targetDate}` : '';
+        rows.push([`Project: ${project.name}`, `${project.progress}%${target} (${health})`]);
+      } else {
+        const healthColor = project.health === 'off_track' ? chalk.red
+          : project.health === 'at_risk' ? chalk.yellow : chalk.green;
+        const slipped = project.slippedMilestones.length ? chalk.red(' ⚠') : '';
+        rows.push([`Project: ${project.name}`, healthColor(`${project.progress}% ${health}`) + slipped]);
+      }
+    }
+    return rows;
+  },
+
+  summaryLines(metrics) {
+    const lines: string[] = [];
+    if (metrics.throughput) {
+      lines.push(`Throughput: ${metrics.throughput.perWeek} issues/week`);
+    }
+    if (metrics.cycleCompletion) {
+      lines.push(`Cycle Completion: ${metrics.cycleCompletion.avgRate}%`);
+    }
+    return lines;
+  },
+
+  csvRows(metrics) {
+    const rows: Array<[string, string | number, string]> = [];
+    if (metrics.cycleCompletion) {
+      rows.push(['cycle_completion_rate', metrics.cycleCompletion.avgRate || 0, 'percent']);
+    }
+    if (metrics.estimateAccuracy) {
+      rows.push(['estimate_points_completed', metrics.estimateAccuracy.totalCompleted || 0, 'points']);
+    }
+    return rows;
+  },
+
+  parseCsvRow(metrics, name, value) {
+    if (name === 'cycle_completion_rate') {
+      metrics.cycleCompletion = { avgRate: parseFloat(value) || 0, cycles: [] };
+    } else if (name === 'estimate_points_completed') {
+      metrics.estimateAccuracy = { issuesWithEstimates: 0, avgEstimate: 0, totalEstimated: 0, totalCompleted: parseFloat(value) || 0 };
+    }
+  },
+};
@@ -2,6 +2,8 @@
 // Linear Types & Interfaces
 // ============================================
 
+import { DaysDistribution } from '../../types';
+
 // API Response Types
 export interface LinearUser {
   id: string;
@@ -33,6 +35,47 @@ export interface LinearCycle {
   completedAt?: string;
 }
 
+/** A change of an issue's cycle, from its history */
+export interface LinearCycleChange {
+  createdAt: string;
+  fromCycleId: string | null;
+  toCycleId: string | null;
+}
+
+export interface LinearProjectMilestone {
+  id: string;
+  name: string;
+  targetDate?: string;  // YYYY-MM-DD
+}
+
+export interface LinearProject {
+  id: string;
+  name: string;
+  state: string;        // e.g., "planned", "started", "paused", "completed", "canceled"
+  progress: number;     // 0-1, as computed by Linear
+  startDate?: string;   // YYYY-MM-DD
+  targetDate?: string;  // YYYY-MM-DD
+  createdAt: string;
+  completedAt?: string;
+  canceledAt?: string;
+  lead?: { name: string; displayName: string };
+  milestones: LinearProjectMilestone[];
+}
+
+export interface LinearInitiative {
+  id: string;
+  name: string;
+  status?: string;
+  targetDate?: string;  // YYYY-MM-DD
+  projectIds: string[];
+}
+
+/** A project with its issues (see LinearClient.getProjectIssues) */
+export interface LinearProjectIssues {
+  project: LinearProject;
+  issues: LinearIssue[];
+}
+
 export interface LinearIssue {
   id: string;
   identifier: string;  // e.g., "ENG-123"
@@ -50,7 +93,17 @@ export interface LinearIssue {
   creator?: LinearUser;
   team: LinearTeam;
   cycle?: LinearCycle;
+  project?: { id: string; name: string };
+  projectMilestone?: LinearProjectMilestone;
   labels: Array<{ id: string; name: string }>;
+  /** Oldest first; only fetched by LinearClient.getCycleIssues */
+  cycleHistory?: LinearCycleChange[];
+}
+
+/** A cycle with every issue that was in it at some point (see LinearClient.getCycleIssues) */
+export interface LinearCycleIssues {
+  cycle: LinearCycle;
+  issues: LinearIssue[];
 }
 
 export interface LinearIssueConnection {
@@ -70,6 +123,14 @@ export interface LinearFilterOptions {
   assigneeId?: string;
   states?: string[];
   cycleId?: string;
+  identifiers?: string[];  // e.g., ["ENG-42"]; matched across teams
+  stateTypes?: LinearWorkflowState['type'][];
+  completedSince?: string;
+  projectName?: string;
+  cycleNumber?: number;
+  activeSince?: string;  // open on or after this date: not completed or canceled before it
+  updatedSince?: string;
+  projectIds?: string[];
 }
 
 // Calculated Metrics
@@ -83,26 +144,16 @@ export interface LinearMetrics {
   wip: WIPMetrics;
   throughput: ThroughputMetrics | null;
   cycleCompletion: CycleCompletionMetrics | null;
+  cycleScope: CycleScopeMetrics | null;
   estimateAccuracy: EstimateAccuracyMetrics | null;
+  roadmap: RoadmapMetrics | null;
 }
 
-export interface CycleTimeMetrics {
-  avgDays: number;
-  medianDays: number;
-  minDays: number;
-  maxDays: number;
-  p90Days: number;
-  count: number;
-}
+/** Started to completed, see the shared tracker metrics */
+export type CycleTimeMetrics = DaysDistribution;
 
-export interface LeadTimeMetrics {
-  avgDays: number;
-  medianDays: number;
-  minDays: number;
-  maxDays: number;
-  p90Days: number;
-  count: number;
-}
+/** Created to completed, see the shared tracker metrics */
+export type LeadTimeMetrics = DaysDistribution;
 
 export interface WIPMetrics {
   current: number;
@@ -128,6 +179,44 @@ export interface CycleCompletionMetrics {
   }>;
 }
 
+export interface CycleScopeReport {
+  id: string;
+  number: number;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  completedAt: string | null;
+  /** Issues in the cycle when it started */
+  initial: number;
+  /** Issues added after the cycle started */
+  added: number;
+  /** Issues moved out of the cycle, or canceled, before it ended */
+  removed: number;
+  /** Issues of the cycle that came from another cycle (rolled over unfinished) */
+  carriedOver: number;
+  /** Issues completed in the cycle, initial and added */
+  completed: number;
+  /** Initial issues completed in the cycle */
+  initialCompleted: number;
+  initialPoints: number;
+  addedPoints: number;
+  completedPoints: number;
+  /** Percentage of the initial issues completed: the commitment kept */
+  completionRate: number;
+}
+
+export interface CycleScopeMetrics {
+  /** Oldest first; averages only cover completed cycles */
+  cycles: CycleScopeReport[];
+  avgCompletionRate: number;
+  /** Added issues as a percentage of the initial ones */
+  scopeAddedRate: number;
+  /** Removed issues as a percentage of the initial and added ones */
+  scopeRemovedRate: number;
+  /** Percentage of cycle issues that came from another cycle */
+  carryOverRate: number;
+}
+
 export interface EstimateAccuracyMetrics {
   issuesWithEstimates: number;
   avgEstimate: number;
@@ -135,10 +224,70 @@ export interface EstimateAccuracyMetrics {
   totalCompleted: number;
 }
 
+export interface ProjectScopeWeek {
+  /** Week (YYYY-Www) */
+  week: string;
+  /** Issues in the project at the end of the week, canceled ones excluded */
+  issues: number;
+  points: number;
+  completedIssues: number;
+  completedPoints: number;
+}
+
+export interface SlippedMilestone {
+  name: string;
+  targetDate: string;
+  /** Issues of the milestone still open */
+  openIssues: number;
+}
+
+export type ProjectHealth = 'completed' | 'on_track' | 'at_risk' | 'off_track' | 'no_target' | 'no_forecast';
+
+export interface ProjectProgress {
+  id: string;
+  name: string;
+  state: string;
+  lead: string | null;
+  targetDate: string | null;
+  totalIssues: number;
+  completedIssues: number;
+  /** Estimate points of completed and open issues */
+  completedPoints: number;
+  remainingPoints: number;
+  /** Percentage of issues completed */
+  progress: number;
+  /** Completion dates with 50% and 85% confidence, from the project's own weekly throughput */
+  forecast: { p50: string; p85: string } | null;
+  /** Target date against the forecast: on track if the P85 date makes it, at risk if only the P50 does */
+  health: ProjectHealth;
+  slippedMilestones: SlippedMilestone[];
+  /** Oldest first */
+  scopeByWeek: ProjectScopeWeek[];
+}
+
+export interface InitiativeProgress {
+  id: string;
+  name: string;
+  status: string | null;
+  targetDate: string | null;
+  projects: number;
+  totalIssues: number;
+  completedIssues: number;
+  progress: number;
+  /** Worst health of its projects */
+  health: ProjectHealth;
+}
+
+export interface RoadmapMetrics {
+  projects: ProjectProgress[];
+  /** Null when the workspace has no initiatives (or the plan doesn't include them) */
+  initiatives: InitiativeProgress[] | null;
+}
+
 // GraphQL Query Response Types
 export interface LinearGraphQLResponse<T> {
   data: T;
-  errors?: Array<{ message: string }>;
+  errors?: Array<{ message: string; extensions?: { code?: string } }>;
 }
 
 export interface TeamsQueryResponse {
@@ -157,3 +306,28 @@ export interface CyclesQueryResponse {
     pageInfo: { hasNextPage: boolean; endCursor?: string };
   };
 }
+
+export interface IssueHistoryQueryResponse {
+  issues: {
+    nodes: Array<{ id: string; history: { nodes: LinearCycleChange[] } }>;
+    pageInfo: { hasNextPage: boolean; endCursor?: string };
+  };
+}
+
+export interface TeamProjectsQueryResponse {
+  team: {
+    projects: {
+      nodes: Array<Omit<LinearProject, 'milestones' | 'lead'> & {
+        lead: LinearProject['lead'] | null;
+        projectMilestones: { nodes: LinearProjectMilestone[] };
+      }>;
+      pageInfo: { hasNextPage: boolean; endCursor?: string };
+    };
+  };
+}
+
+export interface InitiativesQueryResponse {
+  initiatives: {
+    nodes: Array<Omit<LinearInitiative, 'projectIds'> & { projects: { nodes: Array<{ id: string }> } }>;
+  };
+}
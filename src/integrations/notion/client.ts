@@ -6,6 +6,8 @@ import { Client } from '@notionhq/client';
 import { readFileSync } from 'fs';
 import { format } from 'date-fns';
 import { NotionConfig } from '../../config/integrations';
+import { ReviewMetrics } from '../../types';
+import { getReviewProviders } from '../registry';
 
 /**
  * Structure of collected metrics data.
@@ -32,6 +34,38 @@ interface CollectedData {
   gitMetrics: unknown;
   /** Optional Jira metrics data */
   jiraMetrics?: unknown;
+  /** Optional Linear metrics data */
+  linearMetrics?: unknown;
+  /** Optional GitHub pull request review metrics */
+  githubMetrics?: unknown;
+  /** Optional GitLab merge request review metrics */
+  gitlabMetrics?: unknown;
+  /** Optional Bitbucket pull request review metrics */
+  bitbucketMetrics?: unknown;
+  /** Optional Azure Repos pull request review metrics */
+  azureMetrics?: unknown;
+}
+
+/**
+ * Summary of the collected review metrics, one line per code review
+ * platform. Metrics read back from CSV only carry the headline numbers.
+ *
+ * @private
+ */
+function summarizeReviewMetrics(data: CollectedData): string | null {
+  const lines = getReviewProviders().flatMap(provider => {
+    const review = data[`${provider.id}Metrics`] as Partial<ReviewMetrics> | undefined;
+    if (!review || review.available === false || review.pullRequests === undefined) return [];
+
+    const parts = [`${provider.name}: ${review.pullRequests} ${provider.label.toLowerCase()} (${review.merged ?? 0} merged)`];
+    if (review.cycleTime) parts.push(`cycle time ${review.cycleTime.medianHours}h median`);
+    if (review.timeToFirstReview) parts.push(`first review ${review.timeToFirstReview.medianHours}h median`);
+    if (review.approvalLatency) parts.push(`approval ${review.approvalLatency.medianHours}h median`);
+    parts.push(`${Math.round((review.unreviewedMerges?.rate || 0) * 100)}% merged unreviewed`);
+    if (review.pipelines) parts.push(`${Math.round((review.pipelines.failureRate || 0) * 100)}% pipelines failed`);
+    return [parts.join(', ')];
+  });
+  return lines.length ? lines.join('\n') : null;
 }
 
 /**
@@ -228,6 +262,7 @@ export class NotionClient {
   ): Promise<string> {
     // Read JSON file
     const jsonContent = readFileSync(filePath, 'utf-8');
+    const reviewSummary = summarizeReviewMetrics(data);
     
     // Create page with date as title
     const response = await this.client.pages.create({
@@ -274,6 +309,18 @@ export class NotionClient {
             ],
           },
         },
+        ...(reviewSummary ? [{
+          object: 'block' as const,
+          type: 'paragraph' as const,
+          paragraph: {
+            rich_text: [
+              {
+                type: 'text' as const,
+                text: { content: reviewSummary },
+              },
+            ],
+          },
+        }] : []),
         {
           object: 'block',
           type: 'divider',
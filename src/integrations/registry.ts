@@ -0,0 +1,230 @@
+// ============================================
+// Issue Tracker & Code Review Registry
+// ============================================
+
+import { format, subMonths } from 'date-fns';
+import { IssueTracker, ReviewMetrics, ReviewPlatform, TrackerMetrics } from '../types';
+import { IssueTrackerProvider, ReviewProvider, TrackerMetricsOptions } from './base/interfaces';
+import { jiraProvider } from './jira/provider';
+import { linearProvider } from './linear/provider';
+import { githubProvider } from './github/provider';
+import { gitlabProvider } from './gitlab/provider';
+import { bitbucketProvider } from './bitbucket/provider';
+import { azureProvider } from './azure/provider';
+import { calculateTrackerMetrics } from '../core/tracker-metrics';
+import { calculateReviewMetrics } from '../core/review-metrics';
+import { GitRemote, getRemote } from '../core/git-runner';
+import { getErrorMessage } from '../utils/type-guards';
+
+/** Registered trackers, in the order commands list them */
+const TRACKERS: IssueTrackerProvider[] = [jiraProvider, linearProvider];
+
+/** Registered code review platforms, in the order commands list them */
+const REVIEW_PROVIDERS: ReviewProvider[] = [githubProvider, gitlabProvider, bitbucketProvider, azureProvider];
+
+/**
+ * Metrics of a tracker that couldn't be fetched
+ */
+export interface UnavailableTrackerMetrics {
+  available: false;
+  reason: string;
+}
+
+/**
+ * Lists the registered issue trackers.
+ *
+ * @returns Providers, Jira first
+ */
+export function getTrackers(): IssueTrackerProvider[] {
+  return TRACKERS;
+}
+
+/**
+ * Finds a registered issue tracker.
+ *
+ * @param id - Tracker id (e.g. "jira")
+ * @returns The provider, or undefined if none has that id
+ */
+export function getTracker(id: string): IssueTrackerProvider | undefined {
+  return TRACKERS.find(provider => provider.id === id);
+}
+
+/**
+ * Lists the trackers the active client has configured.
+ *
+ * @returns Providers whose configuration is complete
+ */
+export function getConfiguredTrackers(): IssueTrackerProvider[] {
+  return TRACKERS.filter(provider => provider.createClient() !== null);
+}
+
+/**
+ * Picks the trackers requested through their CLI options (`--jira KEY`,
+ * `--linear Team`, ...).
+ *
+ * @param options - Command options, keyed by tracker id
+ * @returns The requested trackers with their project or team
+ */
+export function getRequestedTrackers(
+  options: Partial<Record<IssueTracker, string>>
+): Array<{ provider: IssueTrackerProvider; project: string }> {
+  return TRACKERS
+    .filter(provider => options[provider.id])
+    .map(provider => ({ provider, project: options[provider.id]! }));
+}
+
+/**
+ * Fetches a tracker's metrics: its own when it calculates them, otherwise the
+ * shared metrics over its normalized issues. Never throws; failures come back
+ * as unavailable metrics with the reason.
+ *
+ * @param provider - Tracker
+ * @param options - Project and assignee; the period defaults to the last 3 months
+ * @returns Metrics, or why they are unavailable
+ * @example
+ * ```typescript
+ * const metrics = await getTrackerMetrics(getTracker('linear')!, { project: 'Core' });
+ * if (metrics.available) console.log(metrics.cycleTime?.medianDays);
+ * ```
+ */
+export async function getTrackerMetrics(
+  provider: IssueTrackerProvider,
+  options: Omit<TrackerMetricsOptions, 'since' | 'until'> & { since?: string; until?: string }
+): Promise<TrackerMetrics | UnavailableTrackerMetrics> {
+  const client = provider.createClient();
+  if (!client) {
+    return { available: false, reason: `${provider.name} not configured (${provider.setupHint})` };
+  }
+
+  const since = options.since || format(subMonths(new Date(), 3), 'yyyy-MM-dd');
+  const until = options.until || format(new Date(), 'yyyy-MM-dd');
+  try {
+    if (provider.getMetrics) {
+      return await provider.getMetrics(client, { ...options, since, until });
+    }
+    const issues = await client.fetchIssues({
+      project: options.project,
+      assignee: options.assignee,
+      since: new Date(since),
+      until: new Date(until),
+    });
+    return calculateTrackerMetrics(provider.normalize(issues), { since, until });
+  } catch (error: unknown) {
+    return { available: false, reason: getErrorMessage(error) };
+  }
+}
+
+// ============================================
+// Code Review Platforms
+// ============================================
+
+/**
+ * Metrics of a code review platform that couldn't be fetched
+ */
+export interface UnavailableReviewMetrics {
+  available: false;
+  reason: string;
+}
+
+/**
+ * Lists the registered code review platforms.
+ *
+ * @returns Providers, GitHub first
+ */
+export function getReviewProviders(): ReviewProvider[] {
+  return REVIEW_PROVIDERS;
+}
+
+/**
+ * Finds a registered code review platform.
+ *
+ * @param id - Platform id (e.g. "gitlab")
+ * @returns The provider, or undefined if none has that id
+ */
+export function getReviewProvider(id: string): ReviewProvider | undefined {
+  return REVIEW_PROVIDERS.find(provider => provider.id === id);
+}
+
+/**
+ * Finds the configured platform hosting a git remote.
+ *
+ * @param remote - Parsed git remote
+ * @returns The platform and the remote's repository on it, or null if no
+ *   configured platform hosts it
+ */
+export function detectReviewProvider(remote: GitRemote): { provider: ReviewProvider; repository: string } | null {
+  for (const provider of REVIEW_PROVIDERS) {
+    if (!provider.createClient()) continue;
+    const repository = provider.getRepository(remote);
+    if (repository) return { provider, repository };
+  }
+  return null;
+}
+
+/**
+ * Fetches the pull requests of a repository and calculates their review
+ * metrics. Never throws; failures come back as unavailable metrics with the
+ * reason.
+ *
+ * @param provider - Platform
+ * @param repoPath - Local repository; its origin remote names the repository
+ *   unless one is given
+ * @param options - Repository (in the platform's format) and period
+ *   (YYYY-MM-DD); the period defaults to the last 3 months
+ * @returns Metrics, or why they are unavailable
+ * @example
+ * ```typescript
+ * const metrics = await getReviewMetrics(getReviewProvider('gitlab')!, '.', { since: '2024-01-01' });
+ * if (metrics.available) console.log(metrics.approvalLatency?.medianHours);
+ * ```
+ */
+export async function getReviewMetrics(
+  provider: ReviewProvider,
+  repoPath: string,
+  options: { repository?: string; since?: string; until?: string } = {}
+): Promise<ReviewMetrics | UnavailableReviewMetrics> {
+  const client = provider.createClient();
+  if (!client) {
+    return { available: false, reason: `${provider.name} not configured (${provider.setupHint})` };
+  }
+
+  let repository = options.repository;
+  if (!repository) {
+    const remote = await getRemote(repoPath);
+    repository = (remote && provider.getRepository(remote)) ?? undefined;
+    if (!repository) {
+      return { available: false, reason: `The origin remote is not a ${provider.name} repository` };
+    }
+  }
+
+  const since = options.since || format(subMonths(new Date(), 3), 'yyyy-MM-dd');
+  const until = options.until || format(new Date(), 'yyyy-MM-dd');
+  try {
+    const prs = await client.fetchPullRequests(repository, {
+      since: new Date(since),
+      until: new Date(`${until}T23:59:59`),
+    });
+    return calculateReviewMetrics(provider.normalize(prs), { platform: provider.id, repository, since, until });
+  } catch (error: unknown) {
+    return { available: false, reason: getErrorMessage(error) };
+  }
+}
+
+/**
+ * Picks the platforms requested through their CLI options (`--github`,
+ * `--gitlab group/project`, ...). A bare option means the origin remote's
+ * repository.
+ *
+ * @param options - Command options, keyed by platform id
+ * @returns The requested platforms with their repository, if one was given
+ */
+export function getRequestedReviewProviders(
+  options: Partial<Record<ReviewPlatform, string | boolean>>
+): Array<{ provider: ReviewProvider; repository?: string }> {
+  return REVIEW_PROVIDERS
+    .filter(provider => options[provider.id])
+    .map(provider => {
+      const value = options[provider.id];
+      return { provider, repository: typeof value === 'string' ? value : undefined };
+    });
+}
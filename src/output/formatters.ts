@@ -11,9 +11,30 @@ import {
   TimeStats, 
   RepoSummary,
   PeriodStats,
-  BlameStats
+  BlameStats,
+  CodeChurn,
+  ComparisonStats,
+  DoraMetrics,
+  Deployment,
+  IssueLink,
+  IssueLinkMetrics,
+  BranchReport,
+  BranchStatus,
+  UnmergedBranch,
+  ComplexityTrend,
+  DirectoryHotspot,
+  FileHotspot,
+  MergeAuthorStats,
+  MergedBranch,
+  MergeStats,
+  AgingWipReport,
+  AgingWorkItem,
+  DeliveryForecast,
+  CumulativeFlow,
+  ReviewMetrics
 } from '../types';
 import { formatDate, formatShortDate, formatDuration } from '../utils/date-utils';
+import { THRESHOLDS } from '../config/constants';
 
 type OutputFormat = 'table' | 'json' | 'csv' | 'markdown';
 
@@ -481,3 +502,1273 @@ export function formatBlameStats(stats: BlameStats[], format: OutputFormat): str
     },
   });
 }
+
+// ==========================================
+// Code Churn
+// ==========================================
+
+function colorChurnRate(rate: number): string {
+  const text = `${(rate * 100).toFixed(1)}%`;
+  if (rate >= THRESHOLDS.CHURN_RATE_HIGH) return chalk.red(text);
+  if (rate >= THRESHOLDS.CHURN_RATE_MEDIUM) return chalk.yellow(text);
+  return chalk.green(text);
+}
+
+export function formatCodeChurn(stats: CodeChurn[], format: OutputFormat): string {
+  return formatOutput(stats, format, {
+    table: (data) => {
+      const table = new Table({
+        head: [
+          chalk.cyan('#'),
+          chalk.cyan('Author'),
+          chalk.cyan('New Code'),
+          chalk.cyan('Churned'),
+          chalk.cyan('Churn Rate'),
+        ],
+        colWidths: [4, 30, 12, 12, 12],
+      });
+
+      data.slice(0, 20).forEach((c, i) => {
+        table.push([
+          (i + 1).toString(),
+          c.author.substring(0, 28),
+          chalk.green(`+${c.newCode.toLocaleString()}`),
+          chalk.yellow(c.churnedCode.toLocaleString()),
+          colorChurnRate(c.churnRate),
+        ]);
+      });
+
+      return table.toString();
+    },
+    json: (data) => JSON.stringify(data, null, 2),
+    csv: (data) => {
+      const lines = ['rank,author,email,new_code,churned_code,churn_rate'];
+      data.forEach((c, i) => {
+        lines.push([i + 1, `"${c.author}"`, c.email, c.newCode, c.churnedCode, c.churnRate].join(','));
+      });
+      return lines.join('\n');
+    },
+    markdown: (data) => {
+      let md = `## Code Churn
+
+| # | Author | New Code | Churned | Churn Rate |
+|---|--------|----------|---------|------------|
+`;
+      data.slice(0, 20).forEach((c, i) => {
+        md += `| ${i + 1} | ${c.author} | +${c.newCode.toLocaleString()} | ${c.churnedCode.toLocaleString()} | ${(c.churnRate * 100).toFixed(1)}% |\n`;
+      });
+      return md;
+    },
+  });
+}
+
+// ==========================================
+// Period Comparison
+// ==========================================
+
+function formatChange(delta: number, percent: number): string {
+  const sign = delta > 0 ? '+' : '';
+  return `${sign}${delta.toLocaleString()} (${sign}${percent}%)`;
+}
+
+function colorChange(delta: number, percent: number): string {
+  const text = formatChange(delta, percent);
+  if (delta > 0) return chalk.green(text);
+  if (delta < 0) return chalk.red(text);
+  return chalk.gray(text);
+}
+
+export function formatComparisonStats(stats: ComparisonStats[], format: OutputFormat): string {
+  return formatOutput(stats, format, {
+    table: (data) => {
+      const table = new Table({
+        head: [
+          chalk.cyan('#'),
+          chalk.cyan('Author'),
+          chalk.cyan('Commits'),
+          chalk.cyan('Δ Commits'),
+          chalk.cyan('Lines Added'),
+          chalk.cyan('Δ Lines Added'),
+        ],
+        colWidths: [4, 26, 12, 18, 16, 22],
+      });
+
+      data.slice(0, 20).forEach((c, i) => {
+        table.push([
+          (i + 1).toString(),
+          c.author.substring(0, 24),
+          `${c.previousPeriod.commits ?? 0} → ${c.currentPeriod.commits ?? 0}`,
+          colorChange(c.change.commits, c.change.commitsPercent),
+          `${(c.previousPeriod.linesAdded ?? 0).toLocaleString()} → ${(c.currentPeriod.linesAdded ?? 0).toLocaleString()}`,
+          colorChange(c.change.linesAdded, c.change.linesAddedPercent),
+        ]);
+      });
+
+      return table.toString();
+    },
+    json: (data) => JSON.stringify(data, null, 2),
+    csv: (data) => {
+      const lines = ['author,email,previous_commits,current_commits,commits_change,commits_change_percent,previous_lines_added,current_lines_added,lines_added_change,lines_added_change_percent'];
+      data.forEach((c) => {
+        lines.push([
+          `"${c.author}"`,
+          c.email,
+          c.previousPeriod.commits ?? 0,
+          c.currentPeriod.commits ?? 0,
+          c.change.commits,
+          c.change.commitsPercent,
+          c.previousPeriod.linesAdded ?? 0,
+          c.currentPeriod.linesAdded ?? 0,
+          c.change.linesAdded,
+          c.change.linesAddedPercent,
+        ].join(','));
+      });
+      return lines.join('\n');
+    },
+    markdown: (data) => {
+      let md = `## Period Comparison
+
+| # | Author | Commits | Δ Commits | Lines Added | Δ Lines Added |
+|---|--------|---------|-----------|-------------|---------------|
+`;
+      data.slice(0, 20).forEach((c, i) => {
+        md += `| ${i + 1} | ${c.author} | ${c.previousPeriod.commits ?? 0} → ${c.currentPeriod.commits ?? 0} | ${formatChange(c.change.commits, c.change.commitsPercent)} | ${(c.previousPeriod.linesAdded ?? 0).toLocaleString()} → ${(c.currentPeriod.linesAdded ?? 0).toLocaleString()} | ${formatChange(c.change.linesAdded, c.change.linesAddedPercent)} |\n`;
+      });
+      return md;
+    },
+  });
+}
+
+// ==========================================
+// DORA Metrics
+// ==========================================
+
+function formatHours(hours: number): string {
+  return hours >= 48 ? `${(hours / 24).toFixed(1)} days` : `${hours} hours`;
+}
+
+function colorFailureRate(rate: number): string {
+  const text = `${(rate * 100).toFixed(1)}%`;
+  if (rate >= THRESHOLDS.CHANGE_FAILURE_RATE_HIGH) return chalk.red(text);
+  if (rate >= THRESHOLDS.CHANGE_FAILURE_RATE_MEDIUM) return chalk.yellow(text);
+  return chalk.green(text);
+}
+
+export function formatDoraMetrics(metrics: DoraMetrics, format: OutputFormat): string {
+  return formatOutput(metrics, format, {
+    table: (m) => {
+      const table = new Table({
+        head: [chalk.cyan('Metric'), chalk.cyan('Value')],
+        colWidths: [28, 30],
+      });
+
+      const cfr = m.changeFailureRate;
+      table.push(
+        ['Deployments', chalk.yellow(m.deploymentFrequency.total.toLocaleString())],
+        ['Deployment Frequency', `${m.deploymentFrequency.perWeek} / week`],
+        ['Lead Time (median)', m.leadTime ? chalk.yellow(formatHours(m.leadTime.medianHours)) : 'N/A'],
+        ['Lead Time (p90)', m.leadTime ? formatHours(m.leadTime.p90Hours) : 'N/A'],
+        ['Change Failure Rate', `${colorFailureRate(cfr.rate)} (${cfr.failed}/${cfr.deployments})`],
+        ['Time to Restore (median)', m.timeToRestore?.count ? chalk.yellow(formatHours(m.timeToRestore.medianHours)) : 'N/A'],
+      );
+      if (m.timeToRestore?.unrestored) {
+        table.push(['Unrestored Failures', chalk.red(m.timeToRestore.unrestored.toString())]);
+      }
+
+      return table.toString();
+    },
+    json: (m) => JSON.stringify(m, null, 2),
+    csv: (m) => {
+      const lines = ['metric,value'];
+      lines.push(`deployments,${m.deploymentFrequency.total}`);
+      lines.push(`deployments_per_week,${m.deploymentFrequency.perWeek}`);
+      lines.push(`lead_time_median_hours,${m.leadTime?.medianHours ?? ''}`);
+      lines.push(`lead_time_p90_hours,${m.leadTime?.p90Hours ?? ''}`);
+      lines.push(`failed_deployments,${m.changeFailureRate.failed}`);
+      lines.push(`change_failure_rate,${m.changeFailureRate.rate}`);
+      lines.push(`time_to_restore_median_hours,${m.timeToRestore?.count ? m.timeToRestore.medianHours : ''}`);
+      lines.push(`unrestored_failures,${m.timeToRestore?.unrestored ?? 0}`);
+      return lines.join('\n');
+    },
+    markdown: (m) => {
+      const cfr = m.changeFailureRate;
+      return `## DORA Metrics
+
+| Metric | Value |
+|--------|-------|
+| Deployments | ${m.deploymentFrequency.total} |
+| Deployment Frequency | ${m.deploymentFrequency.perWeek} / week |
+| Lead Time (median) | ${m.leadTime ? formatHours(m.leadTime.medianHours) : 'N/A'} |
+| Lead Time (p90) | ${m.leadTime ? formatHours(m.leadTime.p90Hours) : 'N/A'} |
+| Change Failure Rate | ${(cfr.rate * 100).toFixed(1)}% (${cfr.failed}/${cfr.deployments}) |
+| Time to Restore (median) | ${m.timeToRestore?.count ? formatHours(m.timeToRestore.medianHours) : 'N/A'} |
+`;
+    },
+  });
+}
+
+export function formatDeployments(deployments: Deployment[], format: OutputFormat): string {
+  return formatOutput(deployments, format, {
+    table: (data) => {
+      const table = new Table({
+        head: [
+          chalk.cyan('Deployment'),
+          chalk.cyan('Date'),
+          chalk.cyan('Changes'),
+          chalk.cyan('Status'),
+        ],
+        colWidths: [30, 18, 10, 40],
+      });
+
+      data.slice(-20).forEach((d) => {
+        table.push([
+          d.name.substring(0, 28),
+          formatDate(new Date(d.date)),
+          d.changes.toString(),
+          d.failed ? chalk.red(d.failures.map(f => f.detail).join('; ').substring(0, 38)) : chalk.green('ok'),
+        ]);
+      });
+
+      return table.toString();
+    },
+    json: (data) => JSON.stringify(data, null, 2),
+    csv: (data) => {
+      const lines = ['deployment,commit,date,changes,failed,failures'];
+      data.forEach((d) => {
+        lines.push([
+          `"${d.name.replace(/"/g, '""')}"`,
+          d.commit,
+          d.date,
+          d.changes,
+          d.failed,
+          `"${d.failures.map(f => `${f.signal}: ${f.detail}`).join('; ').replace(/"/g, '""')}"`,
+        ].join(','));
+      });
+      return lines.join('\n');
+    },
+    markdown: (data) => {
+      let md = `## Deployments
+
+| Deployment | Date | Changes | Status |
+|------------|------|---------|--------|
+`;
+      data.slice(-20).forEach((d) => {
+        md += `| ${d.name} | ${formatDate(new Date(d.date))} | ${d.changes} | ${d.failed ? d.failures.map(f => f.detail).join('; ') : 'ok'} |\n`;
+      });
+      return md;
+    },
+  });
+}
+
+// ==========================================
+// Issue Links
+// ==========================================
+
+export function formatIssueLinkSummary(metrics: IssueLinkMetrics, format: OutputFormat): string {
+  return formatOutput(metrics, format, {
+    table: (m) => {
+      const table = new Table({
+        head: [chalk.cyan('Metric'), chalk.cyan('Value')],
+        colWidths: [30, 30],
+      });
+
+      const unlinked = `${(m.unlinkedRate * 100).toFixed(1)}%`;
+      table.push(
+        ['Commits', m.totalCommits.toLocaleString()],
+        ['Linked Commits', chalk.green(m.linkedCommits.toLocaleString())],
+        ['Unlinked Commits', `${m.unlinkedRate > 0.5 ? chalk.red(unlinked) : chalk.yellow(unlinked)} (${m.unlinkedCommits})`],
+        ['Issues', chalk.yellow(m.issues.length.toLocaleString())],
+        ['Coding Time (median)', m.codingTime ? formatHours(m.codingTime.medianHours) : 'N/A'],
+        ['Waiting Time (median)', m.waitingTime ? chalk.yellow(formatHours(m.waitingTime.medianHours)) : 'N/A'],
+        ['First Commit → Done (median)', m.firstCommitToDone ? formatHours(m.firstCommitToDone.medianHours) : 'N/A'],
+      );
+      if (m.unknownKeys.length) {
+        table.push([`Unknown Keys (${m.tracker})`, chalk.gray(m.unknownKeys.slice(0, 5).join(', ').substring(0, 28))]);
+      }
+
+      return table.toString();
+    },
+    json: (m) => JSON.stringify(m, null, 2),
+    csv: (m) => {
+      const lines = ['metric,value'];
+      lines.push(`commits,${m.totalCommits}`);
+      lines.push(`linked_commits,${m.linkedCommits}`);
+      lines.push(`unlinked_commits,${m.unlinkedCommits}`);
+      lines.push(`unlinked_rate,${m.unlinkedRate}`);
+      lines.push(`issues,${m.issues.length}`);
+      lines.push(`coding_time_median_hours,${m.codingTime?.medianHours ?? ''}`);
+      lines.push(`waiting_time_median_hours,${m.waitingTime?.medianHours ?? ''}`);
+      lines.push(`first_commit_to_done_median_hours,${m.firstCommitToDone?.medianHours ?? ''}`);
+      return lines.join('\n');
+    },
+    markdown: (m) => {
+      return `## Commit to Issue Links
+
+| Metric | Value |
+|--------|-------|
+| Commits | ${m.totalCommits} |
+| Linked Commits | ${m.linkedCommits} |
+| Unlinked Commits | ${(m.unlinkedRate * 100).toFixed(1)}% (${m.unlinkedCommits}) |
+| Issues | ${m.issues.length} |
+| Coding Time (median) | ${m.codingTime ? formatHours(m.codingTime.medianHours) : 'N/A'} |
+| Waiting Time (median) | ${m.waitingTime ? formatHours(m.waitingTime.medianHours) : 'N/A'} |
+| First Commit → Done (median) | ${m.firstCommitToDone ? formatHours(m.firstCommitToDone.medianHours) : 'N/A'} |
+`;
+    },
+  });
+}
+
+export function formatIssueLinks(issues: IssueLink[], format: OutputFormat, limit: number = 20): string {
+  return formatOutput(issues, format, {
+    table: (data) => {
+      const table = new Table({
+        head: [
+          chalk.cyan('Issue'),
+          chalk.cyan('Title'),
+          chalk.cyan('Commits'),
+          chalk.cyan('+/-'),
+          chalk.cyan('Coding'),
+          chalk.cyan('Waiting'),
+        ],
+        colWidths: [12, 36, 9, 16, 13, 13],
+      });
+
+      data.slice(0, limit).forEach((issue) => {
+        table.push([
+          issue.key,
+          (issue.title || chalk.gray(issue.status || '-')).substring(0, 34),
+          issue.commits.toString(),
+          `${chalk.green('+' + issue.linesAdded)} ${chalk.red('-' + issue.linesDeleted)}`,
+          formatHours(issue.codingHours),
+          issue.waitingHours !== null ? chalk.yellow(formatHours(issue.waitingHours)) : chalk.gray('open'),
+        ]);
+      });
+
+      return table.toString();
+    },
+    json: (data) => JSON.stringify(data, null, 2),
+    csv: (data) => {
+      const lines = ['issue,title,status,commits,lines_added,lines_deleted,first_commit,last_commit,done_at,coding_hours,waiting_hours,first_commit_to_done_hours'];
+      data.forEach((issue) => {
+        lines.push([
+          issue.key,
+          `"${issue.title.replace(/"/g, '""')}"`,
+          `"${issue.status.replace(/"/g, '""')}"`,
+          issue.commits,
+          issue.linesAdded,
+          issue.linesDeleted,
+          issue.firstCommit,
+          issue.lastCommit,
+          issue.doneAt ?? '',
+          issue.codingHours,
+          issue.waitingHours ?? '',
+          issue.firstCommitToDoneHours ?? '',
+        ].join(','));
+      });
+      return lines.join('\n');
+    },
+    markdown: (data) => {
+      let md = `## Issues
+
+| Issue | Title | Commits | Lines +/- | Coding | Waiting |
+|-------|-------|---------|-----------|--------|---------|
+`;
+      data.slice(0, limit).forEach((issue) => {
+        const waiting = issue.waitingHours !== null ? formatHours(issue.waitingHours) : 'open';
+        md += `| ${issue.key} | ${issue.title} | ${issue.commits} | +${issue.linesAdded}/-${issue.linesDeleted} | ${formatHours(issue.codingHours)} | ${waiting} |\n`;
+      });
+      return md;
+    },
+  });
+}
+
+// ==========================================
+// Hotspot Formatters
+// ==========================================
+
+const SPARK_CHARS = '▁▂▃▄▅▆▇█';
+
+function sparkline(values: number[]): string {
+  const min = values.reduce((a, b) => Math.min(a, b), Infinity);
+  const max = values.reduce((a, b) => Math.max(a, b), -Infinity);
+  return values
+    .map(value => SPARK_CHARS[max > min ? Math.round(((value - min) / (max - min)) * (SPARK_CHARS.length - 1)) : 0])
+    .join('');
+}
+
+function colorScore(score: number): string {
+  if (score >= 70) return chalk.red(score.toFixed(1));
+  if (score >= 40) return chalk.yellow(score.toFixed(1));
+  return score.toFixed(1);
+}
+
+export function formatFileHotspots(files: FileHotspot[], format: OutputFormat, limit: number = 20): string {
+  return formatOutput(files, format, {
+    table: (data) => {
+      if (!data.length) return chalk.gray('No text files changed in the period.');
+
+      const table = new Table({
+        head: [
+          chalk.cyan('#'),
+          chalk.cyan('File'),
+          chalk.cyan('Score'),
+          chalk.cyan('Changes'),
+          chalk.cyan('Authors'),
+          chalk.cyan('Lines'),
+          chalk.cyan('Complexity'),
+          chalk.cyan('Mean'),
+          chalk.cyan('Max'),
+        ],
+        colWidths: [4, 44, 8, 9, 9, 8, 12, 7, 7],
+      });
+
+      data.slice(0, limit).forEach((file, i) => {
+        table.push([
+          (i + 1).toString(),
+          file.path.length > 42 ? '…' + file.path.slice(-41) : file.path,
+          colorScore(file.score),
+          chalk.yellow(file.changes.toString()),
+          file.authors.toString(),
+          file.complexity.lines.toLocaleString(),
+          file.complexity.total.toLocaleString(),
+          file.complexity.mean.toString(),
+          file.complexity.max.toString(),
+        ]);
+      });
+
+      return table.toString();
+    },
+    json: (data) => JSON.stringify(data, null, 2),
+    csv: (data) => {
+      const lines = ['rank,path,score,changes,authors,lines_added,lines_deleted,lines,complexity_total,complexity_mean,complexity_max'];
+      data.forEach((file, i) => {
+        lines.push([
+          i + 1,
+          `"${file.path.replace(/"/g, '""')}"`,
+          file.score,
+          file.changes,
+          file.authors,
+          file.linesAdded,
+          file.linesDeleted,
+          file.complexity.lines,
+          file.complexity.total,
+          file.complexity.mean,
+          file.complexity.max,
+        ].join(','));
+      });
+      return lines.join('\n');
+    },
+    markdown: (data) => {
+      let md = `## Hotspots
+
+Files changed most often that also hold the most, and most deeply nested, code. Complexity is the total indentation depth of the file's lines; the riskiest file scores 100.
+
+| # | File | Score | Changes | Authors | Lines | Complexity | Mean Depth | Max Depth |
+|---|------|-------|---------|---------|-------|------------|------------|-----------|
+`;
+      data.slice(0, limit).forEach((file, i) => {
+        md += `| ${i + 1} | \`${file.path}\` | ${file.score} | ${file.changes} | ${file.authors} | ${file.complexity.lines} | ${file.complexity.total} | ${file.complexity.mean} | ${file.complexity.max} |\n`;
+      });
+      return md;
+    },
+  });
+}
+
+export function formatDirectoryHotspots(directories: DirectoryHotspot[], format: OutputFormat, limit: number = 20): string {
+  return formatOutput(directories, format, {
+    table: (data) => {
+      const table = new Table({
+        head: [
+          chalk.cyan('Directory'),
+          chalk.cyan('Score'),
+          chalk.cyan('Files'),
+          chalk.cyan('Changes'),
+          chalk.cyan('Lines'),
+          chalk.cyan('Complexity'),
+        ],
+        colWidths: [44, 9, 8, 9, 10, 12],
+      });
+
+      data.slice(0, limit).forEach((directory) => {
+        table.push([
+          directory.path.length > 42 ? '…' + directory.path.slice(-41) : directory.path,
+          directory.score.toFixed(1),
+          directory.files.toString(),
+          chalk.yellow(directory.changes.toString()),
+          directory.lines.toLocaleString(),
+          directory.complexity.toLocaleString(),
+        ]);
+      });
+
+      return table.toString();
+    },
+    json: (data) => JSON.stringify(data, null, 2),
+    csv: (data) => {
+      const lines = ['directory,score,files,changes,lines,complexity'];
+      data.forEach((directory) => {
+        lines.push([
+          `"${directory.path.replace(/"/g, '""')}"`,
+          directory.score,
+          directory.files,
+          directory.changes,
+          directory.lines,
+          directory.complexity,
+        ].join(','));
+      });
+      return lines.join('\n');
+    },
+    markdown: (data) => {
+      let md = `## Hotspot Directories
+
+Scores of the files directly in each directory, summed.
+
+| Directory | Score | Files | Changes | Lines | Complexity |
+|-----------|-------|-------|---------|-------|------------|
+`;
+      data.slice(0, limit).forEach((directory) => {
+        md += `| \`${directory.path}\` | ${directory.score} | ${directory.files} | ${directory.changes} | ${directory.lines} | ${directory.complexity} |\n`;
+      });
+      return md;
+    },
+  });
+}
+
+export function formatComplexityTrends(trends: ComplexityTrend[], format: OutputFormat): string {
+  const describe = (trend: ComplexityTrend) => {
+    const first = trend.points[0];
+    const last = trend.points[trend.points.length - 1];
+    return {
+      spark: trend.points.length > 1 ? sparkline(trend.points.map(point => point.total)) : '-',
+      range: first ? `${first.total} → ${last.total}` : '-',
+      change: trend.changePercent !== null ? `${trend.changePercent > 0 ? '+' : ''}${trend.changePercent}%` : '-',
+      since: first ? formatShortDate(new Date(first.date)) : '-',
+    };
+  };
+
+  return formatOutput(trends, format, {
+    table: (data) => {
+      const table = new Table({
+        head: [
+          chalk.cyan('File'),
+          chalk.cyan('Trend'),
+          chalk.cyan('Complexity'),
+          chalk.cyan('Change'),
+          chalk.cyan('Since'),
+        ],
+        colWidths: [44, 16, 20, 10, 12],
+      });
+
+      data.forEach((trend) => {
+        const { spark, range, change, since } = describe(trend);
+        const color = trend.direction === 'rising' ? chalk.red : trend.direction === 'falling' ? chalk.green : (text: string) => text;
+        table.push([
+          trend.path.length > 42 ? '…' + trend.path.slice(-41) : trend.path,
+          color(spark),
+          range,
+          color(change),
+          since,
+        ]);
+      });
+
+      return table.toString();
+    },
+    json: (data) => JSON.stringify(data, null, 2),
+    csv: (data) => {
+      const lines = ['path,hash,date,lines,complexity_total,complexity_mean'];
+      data.forEach((trend) => {
+        trend.points.forEach((point) => {
+          lines.push([
+            `"${trend.path.replace(/"/g, '""')}"`,
+            point.hash,
+            point.date,
+            point.lines,
+            point.total,
+            point.mean,
+          ].join(','));
+        });
+      });
+      return lines.join('\n');
+    },
+    markdown: (data) => {
+      let md = `## Complexity Trends
+
+Total complexity of the top hotspots after their changes in the period, oldest first.
+
+| File | Trend | Complexity | Change | Direction | Since |
+|------|-------|------------|--------|-----------|-------|
+`;
+      data.forEach((trend) => {
+        const { spark, range, change, since } = describe(trend);
+        md += `| \`${trend.path}\` | ${spark} | ${range} | ${change} | ${trend.direction ?? '-'} | ${since} |\n`;
+      });
+      return md;
+    },
+  });
+}
+
+// ==========================================
+// Branch Report Formatters
+// ==========================================
+
+const BRANCH_STATUS_COLORS: Record<BranchStatus, (text: string) => string> = {
+  active: chalk.green,
+  'long-lived': chalk.yellow,
+  stale: chalk.red,
+  abandoned: chalk.red.bold,
+};
+
+/** Commits and files listed per branch in table and markdown details */
+const BRANCH_DETAIL_LIMIT = 10;
+
+function describeBranchDetails(branch: UnmergedBranch, markdown: boolean): string {
+  const commits = branch.commitLog ?? [];
+  const files = branch.changedFiles ?? [];
+  const more = (total: number) => total > BRANCH_DETAIL_LIMIT ? [`… and ${total - BRANCH_DETAIL_LIMIT} more`] : [];
+
+  const commitLines = commits.slice(0, BRANCH_DETAIL_LIMIT).map(commit => markdown
+    ? `\`${commit.shortHash}\` ${commit.subject} (${commit.author}, ${formatShortDate(new Date(commit.date))})`
+    : `${chalk.yellow(commit.shortHash)} ${commit.subject} ${chalk.gray(`(${commit.author}, ${formatShortDate(new Date(commit.date))})`)}`
+  ).concat(more(commits.length));
+  const fileLines = files.slice(0, BRANCH_DETAIL_LIMIT).map(file => markdown
+    ? `${file.path} (+${file.linesAdded}/-${file.linesDeleted})`
+    : `${file.path} ${chalk.green('+' + file.linesAdded)} ${chalk.red('-' + file.linesDeleted)}`
+  ).concat(more(files.length));
+
+  if (markdown) {
+    return `### ${branch.branch}
+
+**Commits**
+
+${commitLines.map(line => `- ${line}`).join('\n')}
+
+**Changed files**
+
+${fileLines.map(line => `- ${line}`).join('\n')}
+`;
+  }
+  return [
+    chalk.bold.cyan(branch.branch),
+    chalk.blue('  Commits:'),
+    ...commitLines.map(line => `    ${line}`),
+    chalk.blue('  Changed files:'),
+    ...fileLines.map(line => `    ${line}`),
+  ].join('\n');
+}
+
+export function formatBranchReport(report: BranchReport, format: OutputFormat, limit: number = 50): string {
+  const { staleDays, abandonedDays, longLivedDays } = report.thresholds;
+  const summary = `${report.total} unmerged into ${report.mainBranch}: ` +
+    `${report.byStatus.active} active, ${report.byStatus['long-lived']} long-lived (open ${longLivedDays}+ days), ` +
+    `${report.byStatus.stale} stale (idle ${staleDays}+ days), ${report.byStatus.abandoned} abandoned (idle ${abandonedDays}+ days)`;
+
+  return formatOutput(report, format, {
+    table: (data) => {
+      if (!data.total) return chalk.green(`No unmerged branches: everything is in ${data.mainBranch}.`);
+
+      const table = new Table({
+        head: [
+          chalk.cyan('Branch'),
+          chalk.cyan('Status'),
+          chalk.cyan('Last Commit'),
+          chalk.cyan('Idle'),
+          chalk.cyan('Authors'),
+          chalk.cyan('Ahead/Behind'),
+          chalk.cyan('Commits'),
+          chalk.cyan('+/-'),
+        ],
+        colWidths: [30, 12, 13, 8, 24, 14, 9, 16],
+      });
+
+      data.branches.slice(0, limit).forEach((branch) => {
+        table.push([
+          branch.branch.substring(0, 28),
+          BRANCH_STATUS_COLORS[branch.status](branch.status),
+          formatShortDate(new Date(branch.lastCommitAt)),
+          `${Math.floor(branch.idleDays)}d`,
+          (branch.authors.map(author => author.name).join(', ') || branch.lastCommitAuthor).substring(0, 22),
+          `${chalk.green(branch.ahead.toString())}/${chalk.red(branch.behind.toString())}`,
+          branch.commits.toString(),
+          `${chalk.green('+' + branch.linesAdded)} ${chalk.red('-' + branch.linesDeleted)}`,
+        ]);
+      });
+
+      const details = data.branches.slice(0, limit).filter(branch => branch.commitLog)
+        .map(branch => `\n\n${describeBranchDetails(branch, false)}`).join('');
+      return `${chalk.gray(summary)}\n\n${table.toString()}${details}`;
+    },
+    json: (data) => JSON.stringify(data, null, 2),
+    csv: (data) => {
+      const lines = ['branch,status,last_commit_at,last_commit_author,idle_days,first_commit_at,age_days,ahead,behind,commits,files,lines_added,lines_deleted,authors'];
+      data.branches.forEach((branch) => {
+        lines.push([
+          `"${branch.branch.replace(/"/g, '""')}"`,
+          branch.status,
+          branch.lastCommitAt,
+          `"${branch.lastCommitAuthor.replace(/"/g, '""')}"`,
+          branch.idleDays,
+          branch.firstCommitAt ?? '',
+          branch.ageDays ?? '',
+          branch.ahead,
+          branch.behind,
+          branch.commits,
+          branch.files,
+          branch.linesAdded,
+          branch.linesDeleted,
+          `"${branch.authors.map(author => `${author.name} (${author.commits})`).join('; ').replace(/"/g, '""')}"`,
+        ].join(','));
+      });
+      return lines.join('\n');
+    },
+    markdown: (data) => {
+      let md = `## Unmerged Branches
+
+${summary}
+
+| Branch | Status | Last Commit | Idle | Authors | Ahead/Behind | Commits | Lines +/- |
+|--------|--------|-------------|------|---------|--------------|---------|-----------|
+`;
+      data.branches.slice(0, limit).forEach((branch) => {
+        const authors = branch.authors.map(author => `${author.name} (${author.commits})`).join(', ') || branch.lastCommitAuthor;
+        const status = branch.status === 'stale' || branch.status === 'abandoned' ? `**${branch.status}**` : branch.status;
+        md += `| ${branch.branch} | ${status} | ${formatShortDate(new Date(branch.lastCommitAt))} | ${Math.floor(branch.idleDays)}d | ${authors} | ${branch.ahead}/${branch.behind} | ${branch.commits} | +${branch.linesAdded}/-${branch.linesDeleted} |\n`;
+      });
+      data.branches.slice(0, limit).filter(branch => branch.commitLog).forEach((branch) => {
+        md += `\n${describeBranchDetails(branch, true)}`;
+      });
+      return md;
+    },
+  });
+}
+
+// ==========================================
+// Merge History Formatters
+// ==========================================
+
+function describeMergedBy(author: MergeAuthorStats): string {
+  return author.mergedBy.length ? author.mergedBy.map(m => `${m.name} (${m.merges})`).join(', ') : '-';
+}
+
+function describeMergedBranch(merge: MergedBranch): string {
+  const name = merge.branch ?? merge.subject;
+  return merge.pullRequest !== null && !name.includes(`#${merge.pullRequest}`) ? `#${merge.pullRequest} ${name}` : name;
+}
+
+export function formatMergeStats(stats: MergeStats, format: OutputFormat): string {
+  return formatOutput(stats, format, {
+    table: (m) => {
+      const table = new Table({
+        head: [chalk.cyan('Metric'), chalk.cyan('Value')],
+        colWidths: [30, 36],
+      });
+
+      const self = `${(m.selfMerges.rate * 100).toFixed(1)}%`;
+      table.push(
+        ['Merges', `${chalk.yellow(m.totalMerges.toLocaleString())} (${m.mergeCommits} merge, ${m.squashMerges} squash)`],
+        ['Branch Lifetime (median)', m.lifetime ? chalk.yellow(formatHours(m.lifetime.medianHours)) : 'N/A'],
+        ['Branch Lifetime (avg)', m.lifetime ? formatHours(m.lifetime.avgHours) : 'N/A'],
+        ['Merge Size (median lines)', m.size ? m.size.medianLines.toLocaleString() : 'N/A'],
+        ['Merge Size (avg lines)', m.size ? m.size.avgLines.toLocaleString() : 'N/A'],
+        ['Self-Merges', `${m.selfMerges.rate > 0.5 ? chalk.red(self) : chalk.green(self)} (${m.selfMerges.count})`],
+        ['Authors', m.authors.length.toLocaleString()],
+      );
+
+      return table.toString();
+    },
+    json: (m) => JSON.stringify(m, null, 2),
+    csv: (m) => {
+      const lines = ['metric,value'];
+      lines.push(`merges,${m.totalMerges}`);
+      lines.push(`merge_commits,${m.mergeCommits}`);
+      lines.push(`squash_merges,${m.squashMerges}`);
+      lines.push(`lifetime_median_hours,${m.lifetime?.medianHours ?? ''}`);
+      lines.push(`lifetime_avg_hours,${m.lifetime?.avgHours ?? ''}`);
+      lines.push(`size_median_lines,${m.size?.medianLines ?? ''}`);
+      lines.push(`size_avg_lines,${m.size?.avgLines ?? ''}`);
+      lines.push(`self_merges,${m.selfMerges.count}`);
+      lines.push(`self_merge_rate,${m.selfMerges.rate}`);
+      return lines.join('\n');
+    },
+    markdown: (m) => {
+      return `## Merges into ${m.branch}
+
+| Metric | Value |
+|--------|-------|
+| Merges | ${m.totalMerges} (${m.mergeCommits} merge, ${m.squashMerges} squash) |
+| Branch Lifetime (median) | ${m.lifetime ? formatHours(m.lifetime.medianHours) : 'N/A'} |
+| Branch Lifetime (avg) | ${m.lifetime ? formatHours(m.lifetime.avgHours) : 'N/A'} |
+| Merge Size (median lines) | ${m.size ? m.size.medianLines : 'N/A'} |
+| Merge Size (avg lines) | ${m.size ? m.size.avgLines : 'N/A'} |
+| Self-Merges | ${(m.selfMerges.rate * 100).toFixed(1)}% (${m.selfMerges.count}) |
+| Authors | ${m.authors.length} |
+`;
+    },
+  });
+}
+
+export function formatMergeAuthors(authors: MergeAuthorStats[], format: OutputFormat, limit: number = 20): string {
+  return formatOutput(authors, format, {
+    table: (data) => {
+      const table = new Table({
+        head: [
+          chalk.cyan('Author'),
+          chalk.cyan('Merges'),
+          chalk.cyan('Lifetime'),
+          chalk.cyan('Lines'),
+          chalk.cyan('Merged By'),
+        ],
+        colWidths: [22, 9, 13, 9, 40],
+      });
+
+      data.slice(0, limit).forEach((author) => {
+        table.push([
+          author.author.substring(0, 20),
+          author.merges.toString(),
+          author.medianLifetimeHours !== null ? formatHours(author.medianLifetimeHours) : chalk.gray('N/A'),
+          author.medianLines.toString(),
+          describeMergedBy(author).substring(0, 38),
+        ]);
+      });
+
+      return table.toString();
+    },
+    json: (data) => JSON.stringify(data, null, 2),
+    csv: (data) => {
+      const lines = ['author,merged_by,merges'];
+      data.forEach((author) => {
+        const name = `"${author.author.replace(/"/g, '""')}"`;
+        for (const merger of author.mergedBy) {
+          lines.push([name, `"${merger.name.replace(/"/g, '""')}"`, merger.merges].join(','));
+        }
+        // Merges whose merger is unknown (squashed in the GitHub web UI)
+        const unknown = author.merges - author.mergedBy.reduce((sum, merger) => sum + merger.merges, 0);
+        if (unknown) lines.push([name, '', unknown].join(','));
+      });
+      return lines.join('\n');
+    },
+    markdown: (data) => {
+      let md = `## Merges per Author
+
+| Author | Merges | Lifetime (median) | Lines (median) | Merged By |
+|--------|--------|-------------------|----------------|-----------|
+`;
+      data.slice(0, limit).forEach((author) => {
+        const lifetime = author.medianLifetimeHours !== null ? formatHours(author.medianLifetimeHours) : 'N/A';
+        md += `| ${author.author} | ${author.merges} | ${lifetime} | ${author.medianLines} | ${describeMergedBy(author)} |\n`;
+      });
+      return md;
+    },
+  });
+}
+
+export function formatMergedBranches(merges: MergedBranch[], format: OutputFormat, limit: number = 20): string {
+  return formatOutput(merges, format, {
+    table: (data) => {
+      const table = new Table({
+        head: [
+          chalk.cyan('Merged'),
+          chalk.cyan('Branch / Subject'),
+          chalk.cyan('Author'),
+          chalk.cyan('Merged By'),
+          chalk.cyan('Lifetime'),
+          chalk.cyan('+/-'),
+        ],
+        colWidths: [12, 34, 16, 16, 13, 16],
+      });
+
+      data.slice(0, limit).forEach((merge) => {
+        const name = describeMergedBranch(merge);
+        table.push([
+          formatShortDate(new Date(merge.mergedAt)),
+          name.substring(0, 32),
+          merge.author.substring(0, 14),
+          (merge.mergedBy ?? chalk.gray('unknown')).substring(0, 14),
+          merge.lifetimeHours !== null ? formatHours(merge.lifetimeHours) : chalk.gray('N/A'),
+          `${chalk.green('+' + merge.linesAdded)} ${chalk.red('-' + merge.linesDeleted)}`,
+        ]);
+      });
+
+      return table.toString();
+    },
+    json: (data) => JSON.stringify(data, null, 2),
+    csv: (data) => {
+      const lines = ['hash,kind,merged_at,branch,pull_request,subject,author,merged_by,first_commit_at,lifetime_hours,commits,files,lines_added,lines_deleted'];
+      data.forEach((merge) => {
+        lines.push([
+          merge.hash,
+          merge.kind,
+          merge.mergedAt,
+          `"${(merge.branch ?? '').replace(/"/g, '""')}"`,
+          merge.pullRequest ?? '',
+          `"${merge.subject.replace(/"/g, '""')}"`,
+          `"${merge.author.replace(/"/g, '""')}"`,
+          `"${(merge.mergedBy ?? '').replace(/"/g, '""')}"`,
+          merge.firstCommitAt,
+          merge.lifetimeHours ?? '',
+          merge.commits,
+          merge.files,
+          merge.linesAdded,
+          merge.linesDeleted,
+        ].join(','));
+      });
+      return lines.join('\n');
+    },
+    markdown: (data) => {
+      let md = `## Merged Branches
+
+| Merged | Branch / Subject | Author | Merged By | Lifetime | Lines +/- |
+|--------|------------------|--------|-----------|----------|-----------|
+`;
+      data.slice(0, limit).forEach((merge) => {
+        const name = describeMergedBranch(merge);
+        const lifetime = merge.lifetimeHours !== null ? formatHours(merge.lifetimeHours) : 'N/A';
+        md += `| ${formatShortDate(new Date(merge.mergedAt))} | ${name} | ${merge.author} | ${merge.mergedBy ?? 'unknown'} | ${lifetime} | +${merge.linesAdded}/-${merge.linesDeleted} |\n`;
+      });
+      return md;
+    },
+  });
+}
+
+// ==========================================
+// Code Review Formatters
+// ==========================================
+
+function colorUnreviewedRate(rate: number): string {
+  const text = `${(rate * 100).toFixed(1)}%`;
+  if (rate >= THRESHOLDS.UNREVIEWED_MERGE_RATE_HIGH) return chalk.red(text);
+  if (rate >= THRESHOLDS.UNREVIEWED_MERGE_RATE_MEDIUM) return chalk.yellow(text);
+  return chalk.green(text);
+}
+
+function describeSize(size: ReviewMetrics['size']): string {
+  return `${size.small} S / ${size.medium} M / ${size.large} L / ${size.huge} XL`;
+}
+
+function describePipelines(metrics: ReviewMetrics): string {
+  const pipelines = metrics.pipelines;
+  return pipelines ? `${(pipelines.failureRate * 100).toFixed(1)}% (${pipelines.failed}/${pipelines.total} failed)` : 'N/A';
+}
+
+function describeReviewerLoad(metrics: ReviewMetrics, limit: number): string {
+  return metrics.reviewerLoad.length
+    ? metrics.reviewerLoad.slice(0, limit).map(r => `${r.reviewer} (${r.reviews})`).join(', ')
+    : 'N/A';
+}
+
+export function formatReviewMetrics(metrics: ReviewMetrics, format: OutputFormat): string {
+  return formatOutput(metrics, format, {
+    table: (m) => {
+      const table = new Table({
+        head: [chalk.cyan('Metric'), chalk.cyan('Value')],
+        colWidths: [32, 40],
+      });
+
+      const unreviewed = m.unreviewedMerges;
+      table.push(
+        ['Pull Requests', `${chalk.yellow(m.pullRequests.toLocaleString())} (${m.merged} merged)`],
+        ['Cycle Time (median)', m.cycleTime ? chalk.yellow(formatHours(m.cycleTime.medianHours)) : 'N/A'],
+        ['Time to First Review (median)', m.timeToFirstReview ? formatHours(m.timeToFirstReview.medianHours) : 'N/A'],
+        ['Time to First Comment (median)', m.timeToFirstComment ? formatHours(m.timeToFirstComment.medianHours) : 'N/A'],
+        ['Approval Latency (median)', m.approvalLatency ? formatHours(m.approvalLatency.medianHours) : 'N/A'],
+        ['Comments', `${m.comments.total} (${m.comments.perPullRequest} per pull request)`],
+        ['Review Rounds (avg / max)', m.reviewRounds ? `${m.reviewRounds.avg} / ${m.reviewRounds.max}` : 'N/A'],
+        ['Size (lines changed)', `${describeSize(m.size)}, median ${m.size.medianLines}`],
+        ['Unreviewed Merges', `${colorUnreviewedRate(unreviewed.rate)} (${unreviewed.count}/${m.merged})`],
+        ['Pipeline Failure Rate', describePipelines(m)],
+        ['Top Reviewers', describeReviewerLoad(m, 3).substring(0, 38)],
+      );
+
+      return table.toString();
+    },
+    json: (m) => JSON.stringify(m, null, 2),
+    csv: (m) => {
+      const lines = ['metric,value'];
+      lines.push(`pull_requests,${m.pullRequests}`);
+      lines.push(`merged,${m.merged}`);
+      lines.push(`cycle_time_median_hours,${m.cycleTime?.medianHours ?? ''}`);
+      lines.push(`time_to_first_review_median_hours,${m.timeToFirstReview?.medianHours ?? ''}`);
+      lines.push(`time_to_first_comment_median_hours,${m.timeToFirstComment?.medianHours ?? ''}`);
+      lines.push(`approval_latency_median_hours,${m.approvalLatency?.medianHours ?? ''}`);
+      lines.push(`comments_total,${m.comments.total}`);
+      lines.push(`review_rounds_avg,${m.reviewRounds?.avg ?? ''}`);
+      lines.push(`size_median_lines,${m.size.medianLines}`);
+      lines.push(`unreviewed_merges,${m.unreviewedMerges.count}`);
+      lines.push(`unreviewed_merge_rate,${m.unreviewedMerges.rate}`);
+      lines.push(`pipeline_failure_rate,${m.pipelines?.failureRate ?? ''}`);
+      return lines.join('\n');
+    },
+    markdown: (m) => {
+      return `| Metric | Value |
+|--------|-------|
+| Pull Requests | ${m.pullRequests} (${m.merged} merged) |
+| Cycle Time (median) | ${m.cycleTime ? formatHours(m.cycleTime.medianHours) : 'N/A'} |
+| Time to First Review (median) | ${m.timeToFirstReview ? formatHours(m.timeToFirstReview.medianHours) : 'N/A'} |
+| Time to First Comment (median) | ${m.timeToFirstComment ? formatHours(m.timeToFirstComment.medianHours) : 'N/A'} |
+| Approval Latency (median) | ${m.approvalLatency ? formatHours(m.approvalLatency.medianHours) : 'N/A'} |
+| Comments | ${m.comments.total} (${m.comments.perPullRequest} per pull request) |
+| Review Rounds (avg / max) | ${m.reviewRounds ? `${m.reviewRounds.avg} / ${m.reviewRounds.max}` : 'N/A'} |
+| Size (lines changed) | ${describeSize(m.size)}, median ${m.size.medianLines} |
+| Unreviewed Merges | ${(m.unreviewedMerges.rate * 100).toFixed(1)}% (${m.unreviewedMerges.count}/${m.merged}) |
+| Pipeline Failure Rate | ${describePipelines(m)} |
+| Top Reviewers | ${describeReviewerLoad(m, 5)} |
+`;
+    },
+  });
+}
+
+// ==========================================
+// Aging WIP Formatters
+// ==========================================
+
+const EXCEEDS_LABELS: Record<NonNullable<AgingWorkItem['exceeds']>, string> = {
+  p50: '> P50',
+  p85: '> P85',
+  p95: '> P95',
+};
+
+function colorAge(item: AgingWorkItem): string {
+  const label = item.exceeds ? EXCEEDS_LABELS[item.exceeds] : '≤ P50';
+  if (item.exceeds === 'p95') return chalk.red.bold(label);
+  if (item.exceeds === 'p85') return chalk.red(label);
+  if (item.exceeds === 'p50') return chalk.yellow(label);
+  return chalk.green(label);
+}
+
+export function formatAgingWip(report: AgingWipReport, format: OutputFormat): string {
+  const percentiles = report.percentiles;
+  const history = percentiles
+    ? `Cycle time P50 ${percentiles.p50Days}d · P85 ${percentiles.p85Days}d · P95 ${percentiles.p95Days}d (${percentiles.count} completed issues)`
+    : 'No completed issues to compare against';
+
+  return formatOutput(report, format, {
+    table: (data) => {
+      if (!data.items.length) return chalk.gray(`${history}\n\nNothing in progress.`);
+
+      const table = new Table({
+        head: [
+          chalk.cyan('Issue'),
+          chalk.cyan('Title'),
+          chalk.cyan('Status'),
+          chalk.cyan('Assignee'),
+          chalk.cyan('Age'),
+          chalk.cyan('vs History'),
+        ],
+        colWidths: [12, 34, 16, 18, 9, 12],
+      });
+
+      data.items.forEach((item) => {
+        table.push([
+          item.stuck ? chalk.red(item.key) : item.key,
+          item.title.substring(0, 32),
+          item.status.substring(0, 14),
+          item.assignee ? item.assignee.substring(0, 16) : chalk.gray('Unassigned'),
+          `${item.ageDays}d`,
+          colorAge(item),
+        ]);
+      });
+
+      const stuck = data.stuck
+        ? chalk.red(`${data.stuck} of ${data.items.length} items are older than the P85 cycle time`)
+        : chalk.green(`None of ${data.items.length} items are older than the P85 cycle time`);
+      return `${chalk.gray(history)}\n\n${table.toString()}\n\n  ${stuck}`;
+    },
+    json: (data) => JSON.stringify(data, null, 2),
+    csv: (data) => {
+      const lines = ['issue,title,status,assignee,started_at,age_days,exceeds,stuck'];
+      data.items.forEach((item) => {
+        lines.push([
+          item.key,
+          `"${item.title.replace(/"/g, '""')}"`,
+          `"${item.status.replace(/"/g, '""')}"`,
+          `"${(item.assignee ?? '').replace(/"/g, '""')}"`,
+          item.startedAt,
+          item.ageDays,
+          item.exceeds ?? '',
+          item.stuck,
+        ].join(','));
+      });
+      return lines.join('\n');
+    },
+    markdown: (data) => {
+      let md = `## Aging WIP
+
+${history}
+
+| Issue | Title | Status | Assignee | Age | vs History |
+|-------|-------|--------|----------|-----|------------|
+`;
+      data.items.forEach((item) => {
+        const exceeds = item.exceeds ? EXCEEDS_LABELS[item.exceeds] : '≤ P50';
+        md += `| ${item.stuck ? `**${item.key}**` : item.key} | ${item.title} | ${item.status} | ${item.assignee ?? 'Unassigned'} | ${item.ageDays}d | ${exceeds} |\n`;
+      });
+      md += `\n${data.stuck} of ${data.items.length} items are older than the P85 cycle time.\n`;
+      return md;
+    },
+  });
+}
+
+// ==========================================
+// Delivery Forecast Formatters
+// ==========================================
+
+function describeHistory(forecast: DeliveryForecast): string {
+  const { weeks, completed, avgPerWeek } = forecast.history;
+  return `${completed} items completed over ${weeks} weeks (${avgPerWeek}/week) · ` +
+    `${forecast.iterations} simulations, seed ${forecast.seed}`;
+}
+
+export function formatForecast(forecast: DeliveryForecast, format: OutputFormat): string {
+  const remaining = forecast.remaining !== null
+    ? `${forecast.remaining} remaining items${forecast.scope ? ` (${forecast.scope})` : ''}`
+    : null;
+  const noThroughput = 'No completed items in the history, so no completion date can be forecast.';
+
+  return formatOutput(forecast, format, {
+    table: (data) => {
+      const sections = [chalk.gray(describeHistory(data))];
+
+      if (remaining) {
+        if (data.completion) {
+          const table = new Table({
+            head: [chalk.cyan('Confidence'), chalk.cyan('Weeks'), chalk.cyan('Done by')],
+            colWidths: [12, 8, 14],
+          });
+          data.completion.forEach((c) => {
+            table.push([`${c.confidence}%`, c.weeks, c.confidence === 85 ? chalk.bold(c.date) : c.date]);
+          });
+          sections.push(`${chalk.bold(`When will the ${remaining} be done?`)}\n${table.toString()}`);
+        } else {
+          sections.push(`${chalk.bold(remaining)}\n${chalk.yellow(noThroughput)}`);
+        }
+      }
+
+      if (data.itemsByDate) {
+        const table = new Table({
+          head: [chalk.cyan('Confidence'), chalk.cyan('Items')],
+          colWidths: [12, 8],
+        });
+        data.itemsByDate.forEach((i) => {
+          table.push([`${i.confidence}%`, i.confidence === 85 ? chalk.bold(i.items) : i.items]);
+        });
+        sections.push(`${chalk.bold(`How many items by ${data.targetDate}?`)}\n${table.toString()}`);
+      }
+
+      return sections.join('\n\n');
+    },
+    json: (data) => JSON.stringify(data, null, 2),
+    csv: (data) => {
+      const lines = ['question,confidence,weeks,date,items'];
+      data.completion?.forEach((c) => {
+        lines.push(['completion', c.confidence, c.weeks, c.date, data.remaining].join(','));
+      });
+      data.itemsByDate?.forEach((i) => {
+        lines.push(['items_by_date', i.confidence, '', data.targetDate, i.items].join(','));
+      });
+      return lines.join('\n');
+    },
+    markdown: (data) => {
+      let md = `## Delivery Forecast
+
+${describeHistory(data)}
+`;
+      if (remaining) {
+        md += `\n### When will the ${remaining} be done?\n\n`;
+        if (data.completion) {
+          md += '| Confidence | Weeks | Done by |\n|------------|-------|---------|\n';
+          data.completion.forEach((c) => {
+            md += `| ${c.confidence}% | ${c.weeks} | ${c.date} |\n`;
+          });
+        } else {
+          md += `${noThroughput}\n`;
+        }
+      }
+      if (data.itemsByDate) {
+        md += `\n### How many items by ${data.targetDate}?\n\n| Confidence | Items |\n|------------|-------|\n`;
+        data.itemsByDate.forEach((i) => {
+          md += `| ${i.confidence}% | ${i.items} |\n`;
+        });
+      }
+      return md;
+    },
+  });
+}
+
+// ==========================================
+// Cumulative Flow Formatters
+// ==========================================
+
+const CFD_COLORS = [chalk.gray, chalk.blue, chalk.cyan, chalk.magenta, chalk.yellow, chalk.red, chalk.white];
+
+/**
+ * Colors of the diagram's bands: done (the last state) is green, the others
+ * cycle through the palette.
+ */
+function getCfdColors(states: string[]): Array<(text: string) => string> {
+  return states.map((_, i) => (i === states.length - 1 ? chalk.green : CFD_COLORS[i % CFD_COLORS.length]));
+}
+
+/**
+ * Draws a stacked area chart of daily counts per state, done at the bottom
+ * and each earlier state above it, one column per day (sampled down to `width`).
+ */
+function renderCumulativeFlowChart(cfd: CumulativeFlow, height = 16, width = 60): string {
+  const columns = cfd.days.length <= width
+    ? cfd.days
+    : Array.from({ length: width }, (_, i) => cfd.days[Math.round((i * (cfd.days.length - 1)) / (width - 1))]);
+  const colors = getCfdColors(cfd.states);
+  const bottomUp = cfd.states.map((state, i) => ({ state, color: colors[i] })).reverse();
+  const top = Math.max(1, ...columns.map(day => cfd.states.reduce((total, state) => total + day.counts[state], 0)));
+  const axisWidth = String(top).length;
+
+  const rows: string[] = [];
+  for (let row = height - 1; row >= 0; row--) {
+    const level = ((row + 0.5) / height) * top;
+    const label = row === height - 1 ? String(top) : row === 0 ? '0' : '';
+    let line = `${label.padStart(axisWidth)} │`;
+    for (const day of columns) {
+      let stacked = 0;
+      const band = bottomUp.find(({ state }) => (stacked += day.counts[state]) >= level);
+      line += band ? band.color('█') : ' ';
+    }
+    rows.push(line);
+  }
+
+  const first = columns[0]?.date ?? '';
+  const last = columns[columns.length - 1]?.date ?? '';
+  const gap = Math.max(1, columns.length - first.length - last.length);
+  rows.push(`${' '.repeat(axisWidth)} └${'─'.repeat(columns.length)}`);
+  rows.push(`${' '.repeat(axisWidth + 2)}${first}${columns.length > 1 ? `${' '.repeat(gap)}${last}` : ''}`);
+
+  const latest = cfd.days[cfd.days.length - 1];
+  const legend = cfd.states.map((state, i) => `${colors[i]('█')} ${state} (${latest?.counts[state] ?? 0})`);
+  return `${rows.join('\n')}\n\n  ${legend.join('  ')}`;
+}
+
+export function formatCumulativeFlow(cfd: CumulativeFlow, format: OutputFormat): string {
+  const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+  return formatOutput(cfd, format, {
+    table: (data) => {
+      if (!data.days.length || !data.states.length) return chalk.gray('No issues in the period.');
+      return renderCumulativeFlowChart(data);
+    },
+    json: (data) => JSON.stringify(data, null, 2),
+    csv: (data) => {
+      const lines = [['date', ...data.states.map(quote)].join(',')];
+      data.days.forEach((day) => {
+        lines.push([day.date, ...data.states.map(state => day.counts[state])].join(','));
+      });
+      return lines.join('\n');
+    },
+    markdown: (data) => {
+      let md = `## Cumulative Flow
+
+| Date | ${data.states.join(' | ')} |
+|------|${data.states.map(() => '---').join('|')}|
+`;
+      data.days.forEach((day) => {
+        md += `| ${day.date} | ${data.states.map(state => day.counts[state]).join(' | ')} |\n`;
+      });
+      return md;
+    },
+  });
+}
@@ -188,11 +188,13 @@ export interface BlameStats {
 export interface CodeChurn {
   /** Author name */
   author: string;
-  /** Lines in recent commits (< 21 days old) that were modified */
+  /** Author email */
+  email: string;
+  /** Lines added by the author in the analyzed period */
   newCode: number;
-  /** Lines rewritten within 21 days */
+  /** Lines the author deleted or rewrote within 21 days of them being written */
   churnedCode: number;
-  /** Churn rate (churnedCode / totalCode) */
+  /** Churn rate (churnedCode / newCode) */
   churnRate: number;
 }
 
@@ -226,6 +228,8 @@ export type GroupBy = 'day' | 'week' | 'month' | 'year';
 export interface ComparisonStats {
   /** Author name */
   author: string;
+  /** Author email */
+  email: string;
   /** Statistics for the current period */
   currentPeriod: Partial<AuthorStats>;
   /** Statistics for the previous period */
@@ -242,3 +246,858 @@ export interface ComparisonStats {
     linesAddedPercent: number;
   };
 }
+
+// ==========================================
+// DORA Metrics
+// ==========================================
+
+/**
+ * Where deployments are read from.
+ * - `tags`: git tags matching a pattern (one deployment per tag)
+ * - `branch`: merge commits on a release branch (first-parent history)
+ * - `file`: a local deployments log (JSON array or one JSON object per line)
+ */
+export type DeploymentSource = 'tags' | 'branch' | 'file';
+
+/**
+ * Options for deriving deployments and failures from a repository.
+ */
+export interface DoraOptions {
+  /** Deployment source (default: 'tags') */
+  source?: DeploymentSource;
+  /** Glob for release tags, matched against the tag name (default: 'v*') */
+  tagPattern?: string;
+  /** Branch whose merges count as deployments (default: 'main') */
+  releaseBranch?: string;
+  /** Path to the deployments log, for the 'file' source */
+  deploymentsFile?: string;
+  /** Glob for hotfix branch names found in merge subjects (default: 'hotfix/*') */
+  hotfixPattern?: string;
+}
+
+/**
+ * A problem reported against a deployment outside of git,
+ * e.g. a Jira bug whose "affects version" is a release.
+ */
+export interface DeploymentIncident {
+  /** Name of the deployment (tag or log entry name) the incident affects */
+  deployment: string;
+  /** Identifier of the incident (e.g. "PROJ-123") */
+  id: string;
+}
+
+/**
+ * How a deployment was found to have failed.
+ * - `revert`: a later commit reverts a change it shipped
+ * - `hotfix`: the next deployment merges a hotfix branch
+ * - `log`: the deployments log marks it as failed
+ * - `incident`: an incident (e.g. a Jira bug) was reported against it
+ */
+export type DeploymentFailureSignal = 'revert' | 'hotfix' | 'log' | 'incident';
+
+/**
+ * A single deployment and what it shipped.
+ */
+export interface Deployment {
+  /** Tag name, merge subject or log entry name */
+  name: string;
+  /** Deployed commit hash */
+  commit: string;
+  /** When the deployment happened (ISO 8601) */
+  date: string;
+  /** Number of non-merge commits first shipped by this deployment */
+  changes: number;
+  /** Whether the deployment caused a failure in production */
+  failed: boolean;
+  /** Evidence for the failure, empty when it succeeded */
+  failures: Array<{ signal: DeploymentFailureSignal; detail: string }>;
+}
+
+/**
+ * How often deployments happen.
+ */
+export interface DeploymentFrequencyMetrics {
+  /** Deployments in the period */
+  total: number;
+  /** Average deployments per week */
+  perWeek: number;
+  /** Deployments per week (e.g. "2024-W01") */
+  byWeek: Array<{ week: string; count: number }>;
+}
+
+/**
+ * Time from a commit to the deployment that first contains it.
+ */
+export interface LeadTimeForChangesMetrics {
+  /** Average lead time in hours */
+  avgHours: number;
+  /** Median lead time in hours */
+  medianHours: number;
+  /** 90th percentile lead time in hours */
+  p90Hours: number;
+  /** Number of commits measured */
+  count: number;
+}
+
+/**
+ * Share of deployments that caused a failure.
+ */
+export interface ChangeFailureRateMetrics {
+  /** Deployments in the period */
+  deployments: number;
+  /** Failed deployments in the period */
+  failed: number;
+  /** Failure rate (failed / deployments) */
+  rate: number;
+  /** Failed deployments per signal; a deployment may count under several */
+  bySignal: Record<DeploymentFailureSignal, number>;
+}
+
+/**
+ * Time from a failed deployment to the next deployment that didn't fail.
+ */
+export interface TimeToRestoreMetrics {
+  /** Average time to restore in hours */
+  avgHours: number;
+  /** Median time to restore in hours */
+  medianHours: number;
+  /** 90th percentile time to restore in hours */
+  p90Hours: number;
+  /** Number of failures restored */
+  count: number;
+  /** Failures with no successful deployment after them yet */
+  unrestored: number;
+}
+
+/**
+ * The four DORA metrics for a repository and period.
+ */
+export interface DoraMetrics {
+  /** Where deployments were read from */
+  source: DeploymentSource;
+  /** Period analyzed (empty when unbounded) */
+  period: { since: string; until: string };
+  /** Deployment frequency */
+  deploymentFrequency: DeploymentFrequencyMetrics;
+  /** Lead time for changes (null when no change could be measured) */
+  leadTime: LeadTimeForChangesMetrics | null;
+  /** Change failure rate */
+  changeFailureRate: ChangeFailureRateMetrics;
+  /** Time to restore service (null when nothing was restored) */
+  timeToRestore: TimeToRestoreMetrics | null;
+  /** Deployments in the period, oldest first */
+  deployments: Deployment[];
+}
+
+// ==========================================
+// Issue Links
+// ==========================================
+
+/**
+ * Issue tracker commits are linked to.
+ */
+export type IssueTracker = 'jira' | 'linear';
+
+/**
+ * An issue as fetched from the tracker, reduced to what linking needs.
+ */
+export interface TrackedIssue {
+  /** Issue key or identifier (e.g. "ABC-123", "ENG-42") */
+  key: string;
+  /** Issue title */
+  title: string;
+  /** Current status name */
+  status: string;
+  /** When the issue was resolved or completed (ISO 8601) */
+  doneAt?: string;
+}
+
+/**
+ * Git activity linked to one issue.
+ */
+export interface IssueLink {
+  /** Issue key or identifier */
+  key: string;
+  /** Issue title (empty when no tracker was queried) */
+  title: string;
+  /** Current status (empty when no tracker was queried) */
+  status: string;
+  /** Non-merge commits linked to the issue */
+  commits: number;
+  /** Lines added by those commits */
+  linesAdded: number;
+  /** Lines deleted by those commits */
+  linesDeleted: number;
+  /** First linked commit (ISO 8601) */
+  firstCommit: string;
+  /** Last linked commit (ISO 8601) */
+  lastCommit: string;
+  /** When the issue was done (ISO 8601), null if it isn't */
+  doneAt: string | null;
+  /** Coding time: first to last linked commit, in hours */
+  codingHours: number;
+  /** Waiting time: last linked commit to done, in hours (null if not done) */
+  waitingHours: number | null;
+  /** First linked commit to done, in hours (null if not done) */
+  firstCommitToDoneHours: number | null;
+}
+
+/**
+ * Average and median of a set of durations.
+ */
+export interface DurationSummary {
+  /** Average in hours */
+  avgHours: number;
+  /** Median in hours */
+  medianHours: number;
+  /** Number of issues measured */
+  count: number;
+}
+
+/**
+ * Commits joined with the issues they reference.
+ */
+export interface IssueLinkMetrics {
+  /** Tracker the issues were fetched from (null when keys weren't checked) */
+  tracker: IssueTracker | null;
+  /** Non-merge commits analyzed */
+  totalCommits: number;
+  /** Commits linked to at least one issue */
+  linkedCommits: number;
+  /** Commits with no linked issue */
+  unlinkedCommits: number;
+  /** Share of commits with no linked issue (0-1) */
+  unlinkedRate: number;
+  /** Keys referenced by commits that the tracker doesn't know */
+  unknownKeys: string[];
+  /** Coding time over all linked issues */
+  codingTime: DurationSummary | null;
+  /** Waiting time over done issues */
+  waitingTime: DurationSummary | null;
+  /** First commit to done over done issues */
+  firstCommitToDone: DurationSummary | null;
+  /** Linked issues, most commits first */
+  issues: IssueLink[];
+}
+
+// ==========================================
+// Issue Tracker Metrics
+// ==========================================
+
+/**
+ * Where an issue is in its workflow, whatever the tracker calls its states.
+ */
+export type IssueStateCategory = 'todo' | 'in_progress' | 'done' | 'canceled';
+
+/**
+ * An issue from any tracker, reduced to what the shared metrics need.
+ */
+export interface NormalizedIssue {
+  /** Tracker the issue comes from */
+  tracker: IssueTracker;
+  /** Issue key or identifier */
+  key: string;
+  /** Issue title */
+  title: string;
+  /** Issue type (e.g. "Bug", "Story"), null if the tracker has none */
+  type: string | null;
+  /** Current status name */
+  status: string;
+  /** Category of the current status */
+  stateCategory: IssueStateCategory;
+  /** Assignee name, null if unassigned */
+  assignee: string | null;
+  /** Story points or estimate, null if not estimated */
+  estimate: number | null;
+  /** When the issue was created (ISO 8601) */
+  createdAt: string;
+  /** When work started (ISO 8601), null if it hasn't */
+  startedAt: string | null;
+  /** When the issue was done (ISO 8601), null if it isn't */
+  doneAt: string | null;
+}
+
+/**
+ * Distribution of a duration over issues, in whole days.
+ */
+export interface DaysDistribution {
+  avgDays: number;
+  medianDays: number;
+  minDays: number;
+  maxDays: number;
+  p90Days: number;
+  /** Issues measured */
+  count: number;
+}
+
+/**
+ * Flow metrics every tracker reports. Tracker-specific metrics (Jira sprints,
+ * Linear cycles) extend this.
+ */
+export interface TrackerMetrics {
+  available: boolean;
+  reason?: string;
+  issuesAnalyzed: number;
+  period: { since: string; until: string };
+  /** Started to done */
+  cycleTime: DaysDistribution | null;
+  /** Created to done */
+  leadTime: DaysDistribution | null;
+  /** Issues in progress now */
+  wip: { current: number; byAssignee: Record<string, number> };
+  /** Issues done, null if none were */
+  throughput: {
+    total: number;
+    perWeek: number;
+    byWeek: Array<{ week: string; count: number }>;
+    byAssignee: Record<string, number>;
+  } | null;
+}
+
+// ==========================================
+// Code Review
+// ==========================================
+
+/**
+ * Code hosting platform pull requests are fetched from.
+ */
+export type ReviewPlatform = 'github' | 'gitlab' | 'bitbucket' | 'azure';
+
+/**
+ * A review submitted on a pull request.
+ */
+export interface PullRequestReview {
+  /** Reviewer login */
+  reviewer: string;
+  /** Verdict of the review */
+  state: 'approved' | 'changes_requested' | 'commented' | 'dismissed';
+  /** When the review was submitted (ISO 8601) */
+  submittedAt: string;
+}
+
+/**
+ * A comment on a pull request, in its conversation or on its code.
+ */
+export interface PullRequestComment {
+  /** Comment author login */
+  author: string;
+  /** When the comment was posted (ISO 8601) */
+  createdAt: string;
+}
+
+/**
+ * A pull (or merge) request from any platform, reduced to what the review
+ * metrics need.
+ */
+export interface PullRequest {
+  /** Platform the pull request comes from */
+  platform: ReviewPlatform;
+  /** Pull request number */
+  number: number;
+  /** Pull request title */
+  title: string;
+  /** Author login */
+  author: string;
+  /** Current state */
+  state: 'open' | 'merged' | 'closed';
+  /** When the pull request was opened (ISO 8601) */
+  createdAt: string;
+  /** When it was merged (ISO 8601), null if it wasn't */
+  mergedAt: string | null;
+  /** When it was closed or merged (ISO 8601), null while open */
+  closedAt: string | null;
+  /** Lines added */
+  additions: number;
+  /** Lines deleted */
+  deletions: number;
+  /** Files changed */
+  changedFiles: number;
+  /** Reviews, oldest first */
+  reviews: PullRequestReview[];
+  /** Comments by people (not bots or system notes), oldest first */
+  comments: PullRequestComment[];
+  /** CI pipelines run for the pull request by outcome, null if the platform doesn't report them */
+  pipelines: { succeeded: number; failed: number } | null;
+}
+
+/**
+ * Review metrics of a repository's pull requests.
+ */
+export interface ReviewMetrics {
+  available: boolean;
+  reason?: string;
+  platform: ReviewPlatform;
+  /** Repository, e.g. "owner/repo" */
+  repository: string;
+  period: { since: string; until: string };
+  /** Pull requests opened in the period */
+  pullRequests: number;
+  /** Of those, merged */
+  merged: number;
+  /** Opened to merged, over merged pull requests */
+  cycleTime: DurationSummary | null;
+  /** Opened to the first review by someone other than the author */
+  timeToFirstReview: DurationSummary | null;
+  /** Opened to the first comment or review by someone other than the author */
+  timeToFirstComment: DurationSummary | null;
+  /** Opened to the first approval by someone other than the author */
+  approvalLatency: DurationSummary | null;
+  /** Comments by people other than the author */
+  comments: { total: number; perPullRequest: number };
+  /** Review rounds per reviewed pull request: one, plus one per change request */
+  reviewRounds: { avg: number; median: number; max: number } | null;
+  /** Pull requests by lines changed (additions + deletions) */
+  size: {
+    /** Up to 100 lines */
+    small: number;
+    /** 101-400 lines */
+    medium: number;
+    /** 401-1000 lines */
+    large: number;
+    /** More than 1000 lines */
+    huge: number;
+    medianLines: number;
+  };
+  /** Reviews per reviewer, busiest first */
+  reviewerLoad: Array<{ reviewer: string; reviews: number; pullRequests: number }>;
+  /** Pull requests merged without a review by someone other than the author */
+  unreviewedMerges: { count: number; rate: number };
+  /** Finished CI pipelines, null if the platform doesn't report them */
+  pipelines: { total: number; failed: number; failureRate: number } | null;
+}
+
+// ==========================================
+// Hotspots
+// ==========================================
+
+/**
+ * Indentation-based complexity of a file's contents: nesting as a stand-in
+ * for the branches and loops a language-aware tool would count.
+ */
+export interface IndentationComplexity {
+  /** Non-blank lines */
+  lines: number;
+  /** Sum of the indentation levels of all non-blank lines */
+  total: number;
+  /** Average indentation level per line */
+  mean: number;
+  /** Deepest indentation level */
+  max: number;
+}
+
+/**
+ * A file that changes often, ranked by how much code its changes touch.
+ */
+export interface FileHotspot {
+  /** File path relative to repository root */
+  path: string;
+  /** Commits changing the file in the period */
+  changes: number;
+  /** Distinct authors of those commits */
+  authors: number;
+  /** Lines added in the period */
+  linesAdded: number;
+  /** Lines deleted in the period */
+  linesDeleted: number;
+  /** Current size and complexity */
+  complexity: IndentationComplexity;
+  /** Change frequency times size and complexity, relative to the riskiest file (0-100) */
+  score: number;
+}
+
+/**
+ * Hotspots of a directory, summed over the files directly in it.
+ */
+export interface DirectoryHotspot {
+  /** Directory path ('.' for the repository root) */
+  path: string;
+  /** Files changed in the period */
+  files: number;
+  /** Changes summed over the files */
+  changes: number;
+  /** Non-blank lines summed over the files */
+  lines: number;
+  /** Indentation complexity summed over the files */
+  complexity: number;
+  /** File scores summed */
+  score: number;
+}
+
+/**
+ * A file's size and complexity after one of its changes.
+ */
+export interface ComplexityTrendPoint {
+  /** Commit that changed the file */
+  hash: string;
+  /** Abbreviated hash */
+  shortHash: string;
+  /** Commit date (ISO 8601) */
+  date: string;
+  /** Non-blank lines */
+  lines: number;
+  /** Total indentation complexity */
+  total: number;
+  /** Average indentation level per line */
+  mean: number;
+}
+
+/**
+ * How a hotspot's complexity changed over the period.
+ */
+export interface ComplexityTrend {
+  /** File path relative to repository root */
+  path: string;
+  /** Sampled changes, oldest first */
+  points: ComplexityTrendPoint[];
+  /** Total complexity from first to last point (±10% is stable), null with fewer than two points */
+  direction: 'rising' | 'falling' | 'stable' | null;
+  /** Change of the total complexity from first to last point, in percent */
+  changePercent: number | null;
+}
+
+/**
+ * Files and directories ranked by change frequency and complexity.
+ */
+export interface HotspotReport {
+  /** Revision whose contents were measured */
+  revision: string;
+  /** Files changed in the period that still exist as text */
+  analyzedFiles: number;
+  /** Riskiest files first */
+  files: FileHotspot[];
+  /** Riskiest directories first */
+  directories: DirectoryHotspot[];
+  /** Complexity over time of the top files */
+  trends: ComplexityTrend[];
+}
+
+// ==========================================
+// Branch Report
+// ==========================================
+
+/**
+ * How an unmerged branch is doing, from its last commit and its first own commit.
+ * `long-lived` branches are still worked on but have been open for a while.
+ */
+export type BranchStatus = 'active' | 'long-lived' | 'stale' | 'abandoned';
+
+/**
+ * Days after which an unmerged branch is flagged.
+ */
+export interface BranchThresholds {
+  /** Days since the last commit for a branch to be stale */
+  staleDays: number;
+  /** Days since the last commit for a branch to be abandoned */
+  abandonedDays: number;
+  /** Days since the first own commit for an active branch to be long-lived */
+  longLivedDays: number;
+}
+
+/**
+ * A branch with work not merged into the main branch.
+ */
+export interface UnmergedBranch {
+  /** Branch name (e.g. origin/feature-auth) */
+  branch: string;
+  /** Staleness classification */
+  status: BranchStatus;
+  /** Commit date of the branch's last commit (ISO 8601) */
+  lastCommitAt: string;
+  /** Author of the last commit */
+  lastCommitAuthor: string;
+  /** Subject of the last commit */
+  lastCommitSubject: string;
+  /** Days since the last commit */
+  idleDays: number;
+  /** Author date of the first commit not on the main branch (ISO 8601), null if there is none */
+  firstCommitAt: string | null;
+  /** Days since the first commit not on the main branch, null if there is none */
+  ageDays: number | null;
+  /** Commits on the branch and not on the main branch, merges included */
+  ahead: number;
+  /** Commits on the main branch and not on the branch, merges included */
+  behind: number;
+  /** Non-merge commits unique to the branch */
+  commits: number;
+  /** Files changed by those commits */
+  files: number;
+  /** Lines added by those commits */
+  linesAdded: number;
+  /** Lines deleted by those commits */
+  linesDeleted: number;
+  /** Authors of those commits, most commits first */
+  authors: Array<{ name: string; commits: number }>;
+  /** Those commits, newest first (only when details are requested) */
+  commitLog?: BranchCommit[];
+  /** Files those commits changed, most lines changed first (only when details are requested) */
+  changedFiles?: BranchFile[];
+}
+
+/**
+ * A non-merge commit only an unmerged branch has.
+ */
+export interface BranchCommit {
+  hash: string;
+  shortHash: string;
+  author: string;
+  /** Author date (ISO 8601) */
+  date: string;
+  subject: string;
+}
+
+/**
+ * A file changed on an unmerged branch.
+ */
+export interface BranchFile {
+  path: string;
+  linesAdded: number;
+  linesDeleted: number;
+}
+
+/**
+ * Unmerged branches and how stale they are.
+ */
+export interface BranchReport {
+  /** Branch the others are compared to */
+  mainBranch: string;
+  /** Thresholds the branches were classified with */
+  thresholds: BranchThresholds;
+  /** Unmerged branches */
+  total: number;
+  /** Branches per status */
+  byStatus: Record<BranchStatus, number>;
+  /** Branches, longest idle first */
+  branches: UnmergedBranch[];
+}
+
+// ==========================================
+// Merge History
+// ==========================================
+
+/**
+ * A branch merged into the mainline, as read from history alone: a merge
+ * commit, or a commit squash-merged from a pull or merge request.
+ */
+export interface MergedBranch {
+  /** Merge commit, or the squash commit */
+  hash: string;
+  /** Abbreviated hash */
+  shortHash: string;
+  /** How the branch landed */
+  kind: 'merge' | 'squash';
+  /** Subject of the merge or squash commit */
+  subject: string;
+  /** Branch named in the merge subject, null if it names none (always for squashes) */
+  branch: string | null;
+  /** Pull or merge request number from the message, null if it references none */
+  pullRequest: number | null;
+  /** Author of most of the merged commits */
+  author: string;
+  /** Who merged, null when it was the platform (squash merges in the GitHub web UI) */
+  mergedBy: string | null;
+  /** When the branch was merged (ISO 8601) */
+  mergedAt: string;
+  /** Author date of the branch's first commit (ISO 8601) */
+  firstCommitAt: string;
+  /** First commit to merge in hours, null when unknown (a squash commit dated at the merge) */
+  lifetimeHours: number | null;
+  /** Commits merged (1 for a squash) */
+  commits: number;
+  /** Files changed */
+  files: number;
+  /** Lines added */
+  linesAdded: number;
+  /** Lines deleted */
+  linesDeleted: number;
+}
+
+/**
+ * Merges per author and who merged them.
+ */
+export interface MergeAuthorStats {
+  /** Author of the merged work */
+  author: string;
+  /** Branches merged */
+  merges: number;
+  /** Median branch lifetime in hours, null if none was measured */
+  medianLifetimeHours: number | null;
+  /** Median lines changed (added + deleted) */
+  medianLines: number;
+  /** Who merged the author's branches, most merges first (the author too, for self-merges) */
+  mergedBy: Array<{ name: string; merges: number }>;
+}
+
+/**
+ * Review-like signals derived from the merges into a branch.
+ */
+export interface MergeStats {
+  /** Mainline analyzed */
+  branch: string;
+  /** Branches merged in the period */
+  totalMerges: number;
+  /** Of those, merged with a merge commit */
+  mergeCommits: number;
+  /** Of those, squash-merged */
+  squashMerges: number;
+  /** First commit to merge */
+  lifetime: DurationSummary | null;
+  /** Lines changed (added + deleted) per merge */
+  size: { avgLines: number; medianLines: number } | null;
+  /** Merges by their own author, out of those with a known merger */
+  selfMerges: { count: number; rate: number };
+  /** Per author, most merges first */
+  authors: MergeAuthorStats[];
+  /** Merged branches, newest first */
+  mergedBranches: MergedBranch[];
+}
+
+// ==========================================
+// Aging WIP
+// ==========================================
+
+/**
+ * An issue being worked on, as reported by a tracker.
+ */
+export interface WorkItem {
+  /** Issue key or identifier */
+  key: string;
+  /** Issue title */
+  title: string;
+  /** Current status name */
+  status: string;
+  /** Assignee name, null if unassigned */
+  assignee: string | null;
+  /** When the issue entered an in-progress state (ISO 8601) */
+  startedAt: string;
+}
+
+/**
+ * Cycle time percentiles of the issues completed recently.
+ */
+export interface CycleTimePercentiles {
+  /** Median cycle time in days */
+  p50Days: number;
+  /** 85th percentile in days */
+  p85Days: number;
+  /** 95th percentile in days */
+  p95Days: number;
+  /** Completed issues measured */
+  count: number;
+}
+
+/**
+ * A work item with its age compared to historical cycle times.
+ */
+export interface AgingWorkItem extends WorkItem {
+  /** Days since the item was started */
+  ageDays: number;
+  /** Highest percentile the age is past, null if under the median */
+  exceeds: 'p50' | 'p85' | 'p95' | null;
+  /** Older than the 85th percentile */
+  stuck: boolean;
+}
+
+/**
+ * Work in progress by age.
+ */
+export interface AgingWipReport {
+  /** Tracker the items come from */
+  tracker: IssueTracker;
+  /** Jira project key or Linear team */
+  project: string;
+  /** Historical cycle times (null without completed issues) */
+  percentiles: CycleTimePercentiles | null;
+  /** Items in progress, oldest first */
+  items: AgingWorkItem[];
+  /** Items older than the 85th percentile */
+  stuck: number;
+}
+
+// ==========================================
+// Delivery Forecast
+// ==========================================
+
+/**
+ * Completion date at a confidence level.
+ */
+export interface CompletionForecast {
+  /** Share of simulations finishing by the date (50, 85 or 95) */
+  confidence: number;
+  /** Weeks from the start of the forecast */
+  weeks: number;
+  /** Forecast date (YYYY-MM-DD) */
+  date: string;
+}
+
+/**
+ * Items delivered by a date at a confidence level.
+ */
+export interface ItemsForecast {
+  /** Share of simulations delivering at least `items` (50, 85 or 95) */
+  confidence: number;
+  /** Items completed by the target date */
+  items: number;
+}
+
+/**
+ * Monte Carlo forecast over historical weekly throughput.
+ */
+export interface DeliveryForecast {
+  /** Tracker the history comes from */
+  tracker: IssueTracker;
+  /** Jira project key or Linear team */
+  project: string;
+  /** What the remaining items were counted from, e.g. "epic ABC-12" */
+  scope: string | null;
+  /** Throughput history the simulation samples from */
+  history: {
+    /** Weeks of history, including weeks nothing was completed */
+    weeks: number;
+    /** Items completed over the history */
+    completed: number;
+    /** Average items per week */
+    avgPerWeek: number;
+  };
+  /** Simulations run */
+  iterations: number;
+  /** Seed of the random number generator, to reproduce the forecast */
+  seed: number;
+  /** Start of the forecast (YYYY-MM-DD) */
+  start: string;
+  /** Items left to do, null when not asked */
+  remaining: number | null;
+  /** When the remaining items will be done (null when not asked or no throughput) */
+  completion: CompletionForecast[] | null;
+  /** Target date (YYYY-MM-DD), null when not asked */
+  targetDate: string | null;
+  /** Items done by the target date (null when not asked) */
+  itemsByDate: ItemsForecast[] | null;
+}
+
+// ==========================================
+// Cumulative Flow
+// ==========================================
+
+/**
+ * Issues per state at the end of one day.
+ */
+export interface CumulativeFlowDay {
+  /** Day (YYYY-MM-DD) */
+  date: string;
+  /** Issues in each state, every state of the diagram included */
+  counts: Record<string, number>;
+}
+
+/**
+ * Daily issue counts per workflow state, the data behind a cumulative flow diagram.
+ */
+export interface CumulativeFlow {
+  /** Tracker the issues come from */
+  tracker: IssueTracker;
+  /** Jira project key or Linear team */
+  project: string;
+  /** States in workflow order, from not started to done */
+  states: string[];
+  /** One entry per day of the period, oldest first */
+  days: CumulativeFlowDay[];
+}
@@ -58,22 +58,147 @@ export function parseRelativeDate(dateStr: string): Date | null {
   // "X days/weeks/months/years ago"
   const match = lower.match(/^(\d+)\s+(day|week|month|year)s?\s+ago$/);
   if (match) {
-    const num = parseInt(match[1]);
-    const unit = match[2];
-    const d = new Date(now);
-    
-    switch (unit) {
-      case 'day': d.setDate(d.getDate() - num); break;
-      case 'week': d.setDate(d.getDate() - num * 7); break;
-      case 'month': d.setMonth(d.getMonth() - num); break;
-      case 'year': d.setFullYear(d.getFullYear() - num); break;
-    }
-    return d;
+    return subtractUnits(now, parseInt(match[1]), match[2]);
   }
 
   return null;
 }
 
+/**
+ * Subtracts a number of calendar units from a date.
+ * 
+ * @param date - Date to subtract from (not modified)
+ * @param num - Number of units
+ * @param unit - One of 'day', 'week', 'month', 'year'
+ * @returns New Date object
+ */
+function subtractUnits(date: Date, num: number, unit: string): Date {
+  const d = new Date(date);
+  
+  switch (unit) {
+    case 'day': d.setDate(d.getDate() - num); break;
+    case 'week': d.setDate(d.getDate() - num * 7); break;
+    case 'month': d.setMonth(d.getMonth() - num); break;
+    case 'year': d.setFullYear(d.getFullYear() - num); break;
+  }
+  return d;
+}
+
+// ==========================================
+// Periods
+// ==========================================
+
+/**
+ * A time window with concrete start and end dates.
+ */
+export interface Period {
+  since: Date;
+  until: Date;
+}
+
+/**
+ * Parses a date and throws if it is not valid.
+ * 
+ * @param dateStr - Date string (ISO or relative)
+ * @param spec - The full period spec, used in the error message
+ * @returns Parsed Date object
+ * @throws {Error} If the date cannot be parsed
+ */
+function parseDateStrict(dateStr: string, spec: string): Date {
+  const date = parseDate(dateStr.trim());
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid period: "${spec}"`);
+  }
+  return date;
+}
+
+/**
+ * Parses a period spec into concrete dates.
+ * Supports "last N days/weeks/months/years", explicit "START..END" ranges,
+ * and a single start date (ISO or relative) which runs until now.
+ * 
+ * @param spec - Period spec to parse
+ * @param now - Reference date for relative specs (defaults to now)
+ * @returns Resolved period
+ * @throws {Error} If the spec cannot be parsed
+ * @example
+ * ```typescript
+ * parsePeriod('last 2 weeks')
+ * parsePeriod('2024-01-01..2024-01-14')
+ * parsePeriod('1 month ago')
+ * ```
+ */
+export function parsePeriod(spec: string, now: Date = new Date()): Period {
+  const lower = spec.toLowerCase().trim();
+
+  // "START..END" (END may be omitted)
+  if (lower.includes('..')) {
+    const [start, end] = spec.split('..');
+    return {
+      since: parseDateStrict(start, spec),
+      until: end.trim() ? parseDateStrict(end, spec) : now,
+    };
+  }
+
+  // "last week", "last 2 weeks"
+  const last = lower.match(/^last\s+(\d+\s+)?(day|week|month|year)s?$/);
+  if (last) {
+    const num = last[1] ? parseInt(last[1]) : 1;
+    return { since: subtractUnits(now, num, last[2]), until: now };
+  }
+
+  return { since: parseDateStrict(spec, spec), until: now };
+}
+
+/**
+ * Resolves the period to compare a given period against.
+ * Without a spec, returns the equal-length window immediately before `current`.
+ * "N days/weeks/months/years before" is a window of that length ending where
+ * `current` starts; any other spec is parsed with {@link parsePeriod}.
+ * 
+ * @param current - The period being compared
+ * @param spec - Optional spec for the previous period
+ * @returns Resolved previous period
+ * @throws {Error} If the spec cannot be parsed
+ * @example
+ * ```typescript
+ * const current = parsePeriod('last 2 weeks');
+ * getPreviousPeriod(current)                  // the 2 weeks before that
+ * getPreviousPeriod(current, '1 month before') // the month before that
+ * ```
+ */
+export function getPreviousPeriod(current: Period, spec?: string): Period {
+  if (!spec) {
+    const length = current.until.getTime() - current.since.getTime();
+    return { since: new Date(current.since.getTime() - length), until: new Date(current.since) };
+  }
+
+  const before = spec.toLowerCase().trim().match(/^(\d+)\s+(day|week|month|year)s?\s+before$/);
+  if (before) {
+    return {
+      since: subtractUnits(current.since, parseInt(before[1]), before[2]),
+      until: new Date(current.since),
+    };
+  }
+
+  return parsePeriod(spec);
+}
+
+/**
+ * Formats a period as git-compatible since/until strings.
+ * The end is pulled back one second so adjacent periods don't share commits.
+ * 
+ * @param period - Period to format
+ * @returns Since/until strings with second precision
+ */
+export function periodToGitRange(period: Period): { since: string; until: string } {
+  const pattern = "yyyy-MM-dd'T'HH:mm:ssxxx";
+  return {
+    since: format(period.since, pattern),
+    until: format(new Date(period.until.getTime() - 1000), pattern),
+  };
+}
+
 /**
  * Formats a date for use in git commands.
  * 
@@ -157,3 +282,66 @@ export function formatShortDate(date: Date | null): string {
   if (!date) return 'N/A';
   return format(date, 'yyyy-MM-dd');
 }
+
+// ==========================================
+// Author-local Dates
+// ==========================================
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Calendar parts of a date as seen in the timezone it was recorded in.
+ */
+export interface LocalDateParts {
+  /** Hour of day (0-23) */
+  hour: number;
+  /** Full day name (e.g., "Monday") */
+  dayOfWeek: string;
+  /** Day key (YYYY-MM-DD) */
+  day: string;
+  /** Month key (YYYY-MM) */
+  month: string;
+  /** Year (YYYY) */
+  year: string;
+  /** ISO 8601 week number (1-53) */
+  isoWeek: number;
+}
+
+/**
+ * Splits an ISO 8601 date with a UTC offset (e.g. git's `%aI`) into calendar
+ * parts in that offset, rather than in the machine's timezone. This matches
+ * what `git log --date=format:...` prints for the author date.
+ * 
+ * @param isoDate - Date string like "2024-01-15T23:30:00+02:00"
+ * @returns Hour, day name, and day/month/year/week keys
+ * @example
+ * ```typescript
+ * getLocalDateParts('2024-01-15T23:30:00-05:00').hour  // 23, wherever this runs
+ * ```
+ */
+export function getLocalDateParts(isoDate: string): LocalDateParts {
+  const offsetMatch = isoDate.match(/([+-])(\d{2}):?(\d{2})$/);
+  const offsetMinutes = offsetMatch
+    ? (offsetMatch[1] === '-' ? -1 : 1) * (parseInt(offsetMatch[2]) * 60 + parseInt(offsetMatch[3]))
+    : 0;
+  // Shift so the UTC fields hold the wall-clock time in the recorded offset
+  const d = new Date(new Date(isoDate).getTime() + offsetMinutes * 60 * 1000);
+
+  const year = d.getUTCFullYear().toString();
+  const month = `${year}-${String(d.getUTCMonth() + 1).padStart(2, '0')}`;
+
+  // ISO week: the week containing the Thursday of this date's week
+  const thursday = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+  thursday.setUTCDate(thursday.getUTCDate() + 4 - (thursday.getUTCDay() || 7));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const isoWeek = Math.ceil(((thursday.getTime() - yearStart) / 86400000 + 1) / 7);
+
+  return {
+    hour: d.getUTCHours(),
+    dayOfWeek: DAY_NAMES[d.getUTCDay()],
+    day: `${month}-${String(d.getUTCDate()).padStart(2, '0')}`,
+    month,
+    year,
+    isoWeek,
+  };
+}
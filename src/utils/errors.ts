@@ -51,7 +51,12 @@ export class IntegrationError extends AppError {
  * Error for Git-related operations
  */
 export class GitError extends AppError {
-  constructor(message: string, public readonly command?: string) {
+  /**
+   * @param message - Error message, git's stderr when it wrote any
+   * @param command - The git command that failed
+   * @param exitCode - Git's exit code, undefined if it didn't exit on its own (timeout, cancel, failed start)
+   */
+  constructor(message: string, public readonly command?: string, public readonly exitCode?: number) {
     super(message, 'GIT_ERROR');
     this.name = 'GitError';
   }
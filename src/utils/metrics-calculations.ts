@@ -80,6 +80,29 @@ export function standardDeviation(values: number[]): number {
   return Math.sqrt(avg(squaredDiffs));
 }
 
+/**
+ * Calculates the Pearson correlation between two series of equal length
+ * @param xs - First series
+ * @param ys - Second series
+ * @returns Correlation (-1 to 1), or 0 if either series doesn't vary
+ */
+export function correlation(xs: number[], ys: number[]): number {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 2) return 0;
+  const meanX = avg(xs.slice(0, n));
+  const meanY = avg(ys.slice(0, n));
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += Math.pow(xs[i] - meanX, 2);
+    varianceY += Math.pow(ys[i] - meanY, 2);
+  }
+  if (!varianceX || !varianceY) return 0;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
 /**
  * Gets a week key in format YYYY-Www (e.g., "2024-W01")
  * @param date - Date to get week key for
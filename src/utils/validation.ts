@@ -88,6 +88,11 @@ export function validateBranchName(branch: string): ValidationResult {
     return { valid: false, error: 'Branch name cannot start with . or /' };
   }
 
+  // Cannot start with - (git would read it as an option)
+  if (branch.startsWith('-')) {
+    return { valid: false, error: 'Branch name cannot start with -' };
+  }
+
   return { valid: true };
 }
 
@@ -0,0 +1,82 @@
+// ============================================
+// Temporary Git Repository Fixture
+// ============================================
+
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+export interface Identity {
+  name: string;
+  email: string;
+}
+
+export const ALICE: Identity = { name: 'Alice', email: 'alice@example.com' };
+
+export interface TestRepo {
+  /** Directory of the repository */
+  readonly path: string;
+  /** Runs git in the repository, dated `date`, and returns its trimmed output */
+  git(args: string[], date?: string, author?: Identity, committer?: Identity): string;
+  /** Writes the files, commits them, and returns the new commit's hash */
+  commit(
+    files: Record<string, string | Buffer>,
+    message: string,
+    date: string,
+    author?: Identity,
+    committer?: Identity
+  ): string;
+  /** Deletes the repository */
+  remove(): void;
+}
+
+/**
+ * Creates an empty repository on `main` in a temporary directory.
+ * Author, committer and both dates are set per command, so commits
+ * don't depend on the machine's git config or clock.
+ *
+ * @param prefix - Prefix for the temporary directory name
+ */
+export function createTestRepo(prefix: string): TestRepo {
+  const path = mkdtempSync(join(tmpdir(), prefix));
+
+  const git = (args: string[], date = '2024-01-01T00:00:00Z', author = ALICE, committer = author) =>
+    execFileSync('git', args, {
+      cwd: path,
+      encoding: 'utf-8',
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: author.name,
+        GIT_AUTHOR_EMAIL: author.email,
+        GIT_AUTHOR_DATE: date,
+        GIT_COMMITTER_NAME: committer.name,
+        GIT_COMMITTER_EMAIL: committer.email,
+        GIT_COMMITTER_DATE: date,
+      },
+    }).trim();
+
+  const commit = (
+    files: Record<string, string | Buffer>,
+    message: string,
+    date: string,
+    author = ALICE,
+    committer = author
+  ) => {
+    for (const [file, content] of Object.entries(files)) {
+      writeFileSync(join(path, file), content);
+      git(['add', '--', file], date, author);
+    }
+    git(['commit', '-q', '-m', message], date, author, committer);
+    return git(['rev-parse', 'HEAD']);
+  };
+
+  git(['init', '-q', '-b', 'main']);
+
+  return {
+    path,
+    git,
+    commit,
+    remove: () => rmSync(path, { recursive: true, force: true }),
+  };
+}
@@ -0,0 +1,96 @@
+// ============================================
+// Collect Command Tests - CSV Round Trip
+// ============================================
+
+import { describe, it, expect } from 'vitest';
+import { CollectedData, convertToCSV, parseCSVToCollectedData } from '../../../src/commands/collect';
+
+const distribution = (avgDays: number, medianDays: number) => ({
+  avgDays, medianDays, minDays: 0, maxDays: 10, p90Days: 8, count: 4,
+});
+
+const collected = (metrics: Partial<CollectedData>): CollectedData => ({
+  collectedAt: '2024-06-01T00:00:00.000Z',
+  repository: '/repos/app',
+  repoName: 'app',
+  user: { username: 'alice', email: 'alice@example.com' },
+  gitMetrics: { summary: {}, userStats: {}, activity: {}, trends: [] },
+  ...metrics,
+});
+
+describe('Collected CSV', () => {
+  it('should read Linear metrics back', () => {
+    const csv = convertToCSV(collected({
+      linearMetrics: {
+        available: true,
+        issuesAnalyzed: 12,
+        period: { since: '2024-05-01', until: '2024-06-01' },
+        cycleTime: distribution(3.5, 2),
+        leadTime: distribution(6.25, 5),
+        wip: { current: 3, byAssignee: {}, byPriority: {} },
+        throughput: { total: 9, perWeek: 2.1, byWeek: [], byAssignee: {} },
+        cycleCompletion: { avgRate: 85, cycles: [] },
+        cycleScope: null,
+        estimateAccuracy: { issuesWithEstimates: 5, avgEstimate: 2, totalEstimated: 10, totalCompleted: 8 },
+        roadmap: null,
+      },
+    }));
+
+    const linear = parseCSVToCollectedData(csv)?.linearMetrics;
+    expect(linear).toMatchObject({
+      available: true,
+      issuesAnalyzed: 12,
+      wip: { current: 3 },
+      cycleTime: { avgDays: 3.5, medianDays: 2 },
+      leadTime: { avgDays: 6.25, medianDays: 5 },
+      throughput: { total: 9, perWeek: 2.1 },
+      cycleCompletion: { avgRate: 85 },
+      estimateAccuracy: { totalCompleted: 8 },
+    });
+  });
+
+  it('should read Jira metrics back', () => {
+    const csv = convertToCSV(collected({
+      jiraMetrics: {
+        available: true,
+        issuesAnalyzed: 4,
+        cycleTime: null,
+        leadTime: null,
+        wip: { current: 1, byAssignee: {} },
+        throughput: null,
+        velocity: { storyPoints: 21, per: 'sprint', issuesPerWeek: 3, sprints: 4, totalPoints: 84, byAssignee: {} },
+        estimateAccuracy: { coverage: 75, cycleTimeCorrelation: null },
+        sprints: { avgCompletionRate: 80, scopeAddedRate: 10, carryOverRate: 20 },
+      },
+    }));
+
+    const jira = parseCSVToCollectedData(csv)?.jiraMetrics;
+    expect(jira).toMatchObject({
+      issuesAnalyzed: 4,
+      wip: { current: 1 },
+      velocity: { storyPoints: 21, per: 'sprint', issuesPerWeek: 3, sprints: 4 },
+      estimateAccuracy: { coverage: 75, cycleTimeCorrelation: null },
+      sprints: { avgCompletionRate: 80, scopeAddedRate: 10, carryOverRate: 20 },
+    });
+    expect(jira).not.toHaveProperty('cycleTime');
+  });
+
+  it('should quote reviewer names in review rows', () => {
+    const csv = convertToCSV(collected({
+      githubMetrics: {
+        available: true,
+        pullRequests: 5,
+        merged: 4,
+        reviewerLoad: [{ reviewer: 'Doe, Jane "JD"', reviews: 3 }],
+        unreviewedMerges: { count: 1, rate: 0.25 },
+      },
+    }));
+
+    expect(csv).toContain('github,reviews,3,count,"reviewer:Doe, Jane ""JD"""');
+    expect(parseCSVToCollectedData(csv)?.githubMetrics).toMatchObject({
+      pullRequests: 5,
+      merged: 4,
+      unreviewedMerges: { rate: 0.25 },
+    });
+  });
+});
@@ -0,0 +1,132 @@
+// ============================================
+// Branch Report Tests
+// ============================================
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { DEFAULT_BRANCH_THRESHOLDS, classifyBranch } from '../../../src/core/branches';
+import { GitMetrics } from '../../../src/core/git-metrics';
+import { ALICE, createTestRepo, TestRepo } from '../../helpers/git-repo';
+
+const BOB = { name: 'Bob', email: 'bob@example.com' };
+const CAROL = { name: 'Carol', email: 'carol@example.com' };
+const NOW = new Date('2024-06-01T00:00:00Z');
+
+describe('Branch Report', () => {
+  describe('classifyBranch', () => {
+    it('should classify by idle days first, then by age', () => {
+      expect(classifyBranch(120, 200, DEFAULT_BRANCH_THRESHOLDS)).toBe('abandoned');
+      expect(classifyBranch(45, 60, DEFAULT_BRANCH_THRESHOLDS)).toBe('stale');
+      expect(classifyBranch(2, 20, DEFAULT_BRANCH_THRESHOLDS)).toBe('long-lived');
+      expect(classifyBranch(2, 3, DEFAULT_BRANCH_THRESHOLDS)).toBe('active');
+      expect(classifyBranch(2, null, DEFAULT_BRANCH_THRESHOLDS)).toBe('active');
+    });
+  });
+
+  describe('getBranchReport', () => {
+    let repo: TestRepo;
+    let metrics: GitMetrics;
+
+    /** `lines` lines of text, each naming the commit */
+    const numbered = (message: string, lines: number) =>
+      Array.from({ length: lines }, (_, i) => `${message} ${i}`).join('\n') + '\n';
+
+    const commit = (file: string, lines: number, message: string, date: string, author = ALICE) =>
+      repo.commit({ [file]: numbered(message, lines) }, message, date, author);
+
+    const branch = (name: string, from: string) => repo.git(['checkout', '-q', '-b', name, from]);
+
+    beforeAll(() => {
+      repo = createTestRepo('gdm-branches-');
+      commit('readme.md', 1, 'initial', '2024-01-01T12:00:00Z');
+
+      // Worked on by two people for a month, still active
+      branch('login', 'main');
+      commit('login.ts', 3, 'add login form', '2024-05-01T12:00:00Z', BOB);
+      commit('login.ts', 5, 'validate password', '2024-05-30T12:00:00Z', BOB);
+      commit('auth.ts', 2, 'add auth', '2024-05-31T12:00:00Z', CAROL);
+
+      repo.git(['checkout', '-q', 'main']);
+      commit('main.ts', 1, 'main work', '2024-01-05T12:00:00Z');
+      branch('merged', 'main');
+
+      branch('old', 'main');
+      commit('old.ts', 1, 'old idea', '2024-01-10T12:00:00Z');
+      branch('wip', 'main');
+      commit('wip.ts', 1, 'half done', '2024-04-20T12:00:00Z');
+      branch('fresh', 'main');
+      commit('fresh.ts', 1, 'just started', '2024-05-31T00:00:00Z');
+
+      repo.git(['checkout', '-q', 'main']);
+      commit('more.ts', 1, 'more main work', '2024-02-01T12:00:00Z');
+
+      for (const name of ['main', 'login', 'merged', 'old', 'wip', 'fresh']) {
+        repo.git(['update-ref', `refs/remotes/origin/${name}`, name]);
+      }
+      metrics = new GitMetrics(repo.path);
+    });
+
+    afterAll(() => {
+      repo.remove();
+    });
+
+    it('should report unmerged branches longest idle first', async () => {
+      const report = await metrics.getBranchReport('main', { now: NOW });
+      expect(report.branches.map(b => [b.branch, b.status, b.idleDays, b.ahead, b.behind])).toEqual([
+        ['origin/old', 'abandoned', 142.5, 1, 1],
+        ['origin/wip', 'stale', 41.5, 1, 1],
+        ['origin/fresh', 'active', 1, 1, 1],
+        ['origin/login', 'long-lived', 0.5, 3, 2],
+      ]);
+      expect(report).toMatchObject({
+        mainBranch: 'main',
+        thresholds: DEFAULT_BRANCH_THRESHOLDS,
+        total: 4,
+        byStatus: { active: 1, 'long-lived': 1, stale: 1, abandoned: 1 },
+      });
+    });
+
+    it('should count the commits, lines and authors only the branch has', async () => {
+      const report = await metrics.getBranchReport('main', { now: NOW });
+      expect(report.branches.find(b => b.branch === 'origin/login')).toMatchObject({
+        lastCommitAuthor: 'Carol',
+        lastCommitSubject: 'add auth',
+        lastCommitAt: '2024-05-31T12:00:00.000Z',
+        firstCommitAt: '2024-05-01T12:00:00.000Z',
+        ageDays: 30.5,
+        commits: 3,
+        files: 2,
+        linesAdded: 10,
+        linesDeleted: 3,
+        authors: [{ name: 'Bob', commits: 2 }, { name: 'Carol', commits: 1 }],
+      });
+    });
+
+    it('should apply custom thresholds', async () => {
+      const report = await metrics.getBranchReport('main', { now: NOW, thresholds: { staleDays: 60, longLivedDays: 45 } });
+      expect(report.thresholds).toEqual({ staleDays: 60, abandonedDays: 90, longLivedDays: 45 });
+      expect(report.branches.map(b => b.status)).toEqual(['abandoned', 'active', 'active', 'active']);
+    });
+
+    it('should report a single branch with its commits and files', async () => {
+      const report = await metrics.getBranchReport('main', { now: NOW, branch: 'origin/login', details: true });
+      expect(report.total).toBe(1);
+      expect(report.branches[0].commitLog?.map(commit => [commit.author, commit.subject])).toEqual([
+        ['Carol', 'add auth'],
+        ['Bob', 'validate password'],
+        ['Bob', 'add login form'],
+      ]);
+      expect(report.branches[0].changedFiles).toEqual([
+        { path: 'login.ts', linesAdded: 8, linesDeleted: 3 },
+        { path: 'auth.ts', linesAdded: 2, linesDeleted: 0 },
+      ]);
+
+      const summary = await metrics.getBranchReport('main', { now: NOW });
+      expect(summary.branches.every(branch => branch.commitLog === undefined)).toBe(true);
+    });
+
+    it('should return nothing for an unknown main branch', async () => {
+      const report = await metrics.getBranchReport('missing', { now: NOW });
+      expect(report).toMatchObject({ mainBranch: 'missing', total: 0, branches: [] });
+    });
+  });
+});
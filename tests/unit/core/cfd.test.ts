@@ -0,0 +1,70 @@
+// ============================================
+// Cumulative Flow Tests
+// ============================================
+
+import { describe, it, expect } from 'vitest';
+import { buildCumulativeFlow } from '../../../src/core/cfd';
+import { calculateCumulativeFlow } from '../../../src/integrations/linear/metrics';
+import { LinearIssue } from '../../../src/integrations/linear/types';
+
+const at = (day: number, hour = 12) => new Date(2024, 0, day, hour);
+
+const linearIssue = (identifier: string, dates: Partial<Pick<LinearIssue, 'startedAt' | 'completedAt' | 'canceledAt'>>): LinearIssue => ({
+  id: identifier,
+  identifier,
+  title: identifier,
+  priority: 0,
+  createdAt: at(1).toISOString(),
+  updatedAt: at(1).toISOString(),
+  ...dates,
+  state: { id: 's', name: 'State', type: 'backlog', position: 0 },
+  team: { id: 't', name: 'Core', key: 'CORE' },
+  labels: [],
+});
+
+describe('Cumulative Flow', () => {
+  describe('buildCumulativeFlow', () => {
+    it('should count issues per state at the end of each day', () => {
+      const cfd = buildCumulativeFlow(
+        [
+          [{ state: 'Todo', at: at(1) }, { state: 'Doing', at: at(2) }, { state: 'Done', at: at(3, 23) }],
+          [{ state: 'Todo', at: at(2) }, { state: 'Review', at: at(3) }, { state: null, at: at(4) }],
+        ],
+        { tracker: 'jira', project: 'ABC', states: ['Todo', 'Doing', 'Done'], since: '2024-01-01', until: '2024-01-04' }
+      );
+
+      expect(cfd.states).toEqual(['Todo', 'Doing', 'Done', 'Review']);
+      expect(cfd.days.map(day => [day.date, ...cfd.states.map(state => day.counts[state])])).toEqual([
+        ['2024-01-01', 1, 0, 0, 0],
+        ['2024-01-02', 1, 1, 0, 0],
+        ['2024-01-03', 0, 0, 1, 1],
+        ['2024-01-04', 0, 0, 1, 0],
+      ]);
+    });
+
+    it('should have no days for an empty or reversed period', () => {
+      const options = { tracker: 'linear' as const, project: 'Core', states: ['Todo'], since: '2024-01-05', until: '2024-01-01' };
+      expect(buildCumulativeFlow([], options).days).toEqual([]);
+    });
+  });
+
+  describe('Linear', () => {
+    it('should place issues by their timestamps and drop canceled ones', () => {
+      const cfd = calculateCumulativeFlow(
+        [
+          linearIssue('CORE-1', { startedAt: at(2).toISOString(), completedAt: at(3).toISOString() }),
+          linearIssue('CORE-2', { startedAt: at(2).toISOString() }),
+          linearIssue('CORE-3', { canceledAt: at(3).toISOString() }),
+        ],
+        { project: 'Core', since: '2024-01-01', until: '2024-01-03' }
+      );
+
+      expect(cfd.states).toEqual(['Todo', 'In Progress', 'Done']);
+      expect(cfd.days.map(day => day.counts)).toEqual([
+        { Todo: 3, 'In Progress': 0, Done: 0 },
+        { Todo: 1, 'In Progress': 2, Done: 0 },
+        { Todo: 0, 'In Progress': 1, Done: 1 },
+      ]);
+    });
+  });
+});
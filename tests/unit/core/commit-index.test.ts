@@ -0,0 +1,133 @@
+// ============================================
+// Commit Index Tests
+// ============================================
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync, readdirSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  CommitIndex,
+  resolveRenamedPath,
+  unquoteGitPath,
+  compileAuthorPattern,
+} from '../../../src/core/commit-index';
+import { createTestRepo, TestRepo } from '../../helpers/git-repo';
+
+describe('Commit Index', () => {
+  describe('resolveRenamedPath', () => {
+    it('should keep plain paths', () => {
+      expect(resolveRenamedPath('src/index.ts')).toBe('src/index.ts');
+    });
+
+    it('should resolve braced renames', () => {
+      expect(resolveRenamedPath('src/{old => new}/file.ts')).toBe('src/new/file.ts');
+      expect(resolveRenamedPath('src/{ => sub}/file.ts')).toBe('src/sub/file.ts');
+      expect(resolveRenamedPath('src/{sub => }/file.ts')).toBe('src/file.ts');
+    });
+
+    it('should resolve full-path renames', () => {
+      expect(resolveRenamedPath('a.ts => lib/b.ts')).toBe('lib/b.ts');
+    });
+
+    it('should resolve quoted renames', () => {
+      expect(resolveRenamedPath('"a\\tb.ts" => "c \\"d\\".ts"')).toBe('c "d".ts');
+      expect(resolveRenamedPath('plain.ts => "new\\tname.ts"')).toBe('new\tname.ts');
+    });
+  });
+
+  describe('unquoteGitPath', () => {
+    it('should leave unquoted paths alone', () => {
+      expect(unquoteGitPath('src/a b.ts')).toBe('src/a b.ts');
+    });
+
+    it('should decode C-style escapes and octal bytes', () => {
+      expect(unquoteGitPath('"we\\"ird\\\\name\\t.ts"')).toBe('we"ird\\name\t.ts');
+      expect(unquoteGitPath('"caf\\303\\251.ts"')).toBe('café.ts');
+    });
+  });
+
+  describe('compileAuthorPattern', () => {
+    it('should treat + and parentheses literally like git', () => {
+      const regex = compileAuthorPattern('john+work@example.com');
+      expect(regex.test('John <john+work@example.com>')).toBe(true);
+      expect(regex.test('John <johnwork@example.com>')).toBe(false);
+    });
+
+    it('should keep basic regex anchors and wildcards', () => {
+      expect(compileAuthorPattern('^Jo.n').test('John <j@x.io>')).toBe(true);
+      expect(compileAuthorPattern('^ohn').test('John <j@x.io>')).toBe(false);
+      expect(compileAuthorPattern('io>$').test('John <j@x.io>')).toBe(true);
+    });
+
+    it('should treat ^ and $ inside the pattern literally like git', () => {
+      expect(compileAuthorPattern('Jo $(x) ^_^').test('Jo $(x) ^_^ <j@x.io>')).toBe(true);
+    });
+  });
+
+  describe('CommitIndex', () => {
+    let repo: TestRepo;
+    let cacheDir: string;
+
+    beforeAll(() => {
+      repo = createTestRepo('gdm-index-repo-');
+      cacheDir = mkdtempSync(join(tmpdir(), 'gdm-index-cache-'));
+      repo.commit({ 'a.txt': '1\n2\n' }, 'first', '2024-01-01T10:00:00+00:00');
+      repo.commit({ 'b.txt': '1\n' }, 'second', '2024-01-10T10:00:00+00:00');
+    });
+
+    afterAll(() => {
+      repo.remove();
+      rmSync(cacheDir, { recursive: true, force: true });
+    });
+
+    it('should index commits with numstat, newest first', async () => {
+      const commits = await new CommitIndex(repo.path).query();
+      expect(commits.map(c => c.subject)).toEqual(['second', 'first']);
+      expect(commits[1].files).toEqual([{ path: 'a.txt', added: 2, deleted: 0 }]);
+      expect(commits[1].author).toBe('Alice');
+    });
+
+    it('should filter by date, author and path in memory', async () => {
+      const index = new CommitIndex(repo.path);
+      expect((await index.query({ since: '2024-01-05' })).map(c => c.subject)).toEqual(['second']);
+      expect((await index.query({ until: '2024-01-05' })).map(c => c.subject)).toEqual(['first']);
+      expect(await index.query({ author: 'Bob' })).toEqual([]);
+      expect((await index.query({ paths: ['b.txt'] })).map(c => c.subject)).toEqual(['second']);
+    });
+
+    it('should persist and only append new commits on later runs', async () => {
+      await new CommitIndex(repo.path, cacheDir).query();
+      const [dir] = readdirSync(cacheDir);
+      const stored = () => readFileSync(join(cacheDir, dir, 'commits.ndjson'), 'utf-8').trim().split('\n');
+      expect(stored()).toHaveLength(2);
+
+      repo.commit({ 'a.txt': '1\n2\n3\n' }, 'third', '2024-01-20T10:00:00+00:00');
+      const commits = await new CommitIndex(repo.path, cacheDir).query();
+
+      expect(commits.map(c => c.subject)).toEqual(['third', 'second', 'first']);
+      expect(stored()).toHaveLength(3);
+    });
+
+    it('should only include commits reachable from the requested branch', async () => {
+      repo.git(['checkout', '-q', '-b', 'feature']);
+      repo.commit({ 'c.txt': 'x\n' }, 'feature work', '2024-01-21T10:00:00+00:00');
+      repo.git(['checkout', '-q', 'main']);
+
+      const index = new CommitIndex(repo.path, cacheDir);
+      expect((await index.query()).map(c => c.subject)).not.toContain('feature work');
+      expect((await index.query({ branch: 'feature' })).map(c => c.subject)).toContain('feature work');
+      expect(await index.query({ branches: ['main', 'feature'] })).toHaveLength(4);
+    });
+
+    it('should share one refresh between concurrent queries', async () => {
+      const index = new CommitIndex(repo.path, cacheDir);
+      const [all, recent] = await Promise.all([
+        index.query(),
+        index.query({ since: '2024-01-15' }),
+      ]);
+      expect(all.map(c => c.subject)).toEqual(['third', 'second', 'first']);
+      expect(recent.map(c => c.subject)).toEqual(['third']);
+    });
+  });
+});
@@ -0,0 +1,189 @@
+// ============================================
+// DORA Metrics Tests
+// ============================================
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import {
+  parseDeploymentLog,
+  hotfixBranchFromSubject,
+  globToRegExp,
+  isFailedStatus,
+} from '../../../src/core/dora';
+import { GitMetrics } from '../../../src/core/git-metrics';
+import { createTestRepo, TestRepo } from '../../helpers/git-repo';
+
+describe('DORA Metrics', () => {
+  describe('parseDeploymentLog', () => {
+    it('should parse a JSON array', () => {
+      const entries = parseDeploymentLog('[{"commit":"abc","date":"2024-01-01T00:00:00Z","name":"1.0"}]');
+      expect(entries).toEqual([{ commit: 'abc', date: '2024-01-01T00:00:00Z', name: '1.0', status: undefined }]);
+    });
+
+    it('should parse one JSON object per line', () => {
+      const entries = parseDeploymentLog(
+        '{"commit":"a","date":"2024-01-01"}\n\n{"commit":"b","date":"2024-01-02","status":"failure"}\n'
+      );
+      expect(entries.map(e => [e.commit, e.status])).toEqual([['a', undefined], ['b', 'failure']]);
+    });
+
+    it('should reject entries without a commit or valid date', () => {
+      expect(() => parseDeploymentLog('{"date":"2024-01-01"}')).toThrow('Deployment 1 has no commit');
+      expect(() => parseDeploymentLog('{"commit":"a","date":"soon"}')).toThrow('Deployment 1 has no valid date');
+      expect(() => parseDeploymentLog('{"commit":"a"\n')).toThrow('Invalid JSON on line 1');
+    });
+
+    it('should treat an empty log as no deployments', () => {
+      expect(parseDeploymentLog('  \n')).toEqual([]);
+    });
+  });
+
+  describe('isFailedStatus', () => {
+    it('should recognize failure statuses case-insensitively', () => {
+      expect(isFailedStatus('Failure')).toBe(true);
+      expect(isFailedStatus('rolled_back')).toBe(true);
+      expect(isFailedStatus('success')).toBe(false);
+      expect(isFailedStatus(undefined)).toBe(false);
+    });
+  });
+
+  describe('hotfixBranchFromSubject', () => {
+    const pattern = globToRegExp('hotfix/*');
+
+    it('should find hotfix branches in merge subjects', () => {
+      expect(hotfixBranchFromSubject("Merge branch 'hotfix/login' into main", pattern)).toBe('hotfix/login');
+      expect(hotfixBranchFromSubject("Merge remote-tracking branch 'origin/hotfix/x'", pattern)).toBe('hotfix/x');
+      expect(hotfixBranchFromSubject('Merge pull request #12 from acme/hotfix/crash', pattern)).toBe('hotfix/crash');
+      expect(hotfixBranchFromSubject('Merged in hotfix/pay (pull request #3)', pattern)).toBe('hotfix/pay');
+    });
+
+    it('should ignore other merges and plain commits', () => {
+      expect(hotfixBranchFromSubject("Merge branch 'feature/hotfix/x'", pattern)).toBeNull();
+      expect(hotfixBranchFromSubject('hotfix/login: fix crash', pattern)).toBeNull();
+    });
+
+    it('should treat regex characters in the glob literally', () => {
+      expect(globToRegExp('fix.(*)').test('fix.(1)')).toBe(true);
+      expect(globToRegExp('fix.(*)').test('fixa(1)')).toBe(false);
+    });
+  });
+
+  describe('getDoraMetrics', () => {
+    let repo: TestRepo;
+    let metrics: GitMetrics;
+
+    const tag = (name: string, date: string) => repo.git(['tag', '-a', '-m', name, name], date);
+
+    let feature: string;
+
+    beforeAll(() => {
+      repo = createTestRepo('gdm-dora-');
+
+      repo.commit({ 'app.ts': 'v1\n' }, 'initial', '2024-01-01T10:00:00Z');
+      tag('v1.0.0', '2024-01-01T12:00:00Z');
+
+      feature = repo.commit({ 'feature.ts': 'f\n' }, 'feature', '2024-01-02T10:00:00Z');
+      tag('v1.1.0', '2024-01-03T10:00:00Z');
+
+      repo.commit({ 'other.ts': 'o\n' }, 'other', '2024-01-04T10:00:00Z');
+      repo.git(['revert', '--no-edit', feature], '2024-01-05T10:00:00Z');
+      tag('v1.2.0', '2024-01-05T12:00:00Z');
+
+      repo.git(['checkout', '-q', '-b', 'hotfix/login']);
+      repo.commit({ 'app.ts': 'v1 fixed\n' }, 'fix login', '2024-01-06T10:00:00Z');
+      repo.git(['checkout', '-q', 'main']);
+      repo.git(['merge', '-q', '--no-ff', '--no-edit', 'hotfix/login'], '2024-01-07T10:00:00Z');
+      tag('v1.3.0', '2024-01-07T12:00:00Z');
+
+      metrics = new GitMetrics(repo.path);
+    });
+
+    afterAll(() => {
+      repo.remove();
+    });
+
+    it('should derive deployments from tags', async () => {
+      const dora = await metrics.getDoraMetrics();
+      expect(dora.source).toBe('tags');
+      expect(dora.deployments.map(d => [d.name, d.changes])).toEqual([
+        ['v1.0.0', 1],
+        ['v1.1.0', 1],
+        ['v1.2.0', 2],
+        ['v1.3.0', 1],
+      ]);
+      expect(dora.deploymentFrequency.total).toBe(4);
+    });
+
+    it('should keep two decimals of deployments per week', async () => {
+      // 4 deployments over 60 days (8.57 weeks)
+      const dora = await metrics.getDoraMetrics({ since: '2024-01-01T00:00:00Z', until: '2024-03-01T00:00:00Z' });
+      expect(dora.deploymentFrequency.perWeek).toBe(0.47);
+    });
+
+    it('should measure lead time from commit to first deployment', async () => {
+      const dora = await metrics.getDoraMetrics();
+      // feature 24h, other 26h, revert 2h, hotfix 26h; the first deployment has no baseline
+      expect(dora.leadTime).toEqual({ avgHours: 19.5, medianHours: 25, p90Hours: 26, count: 4 });
+    });
+
+    it('should detect failures from reverts and hotfixes', async () => {
+      const dora = await metrics.getDoraMetrics();
+      expect(dora.deployments.filter(d => d.failed).map(d => [d.name, d.failures.map(f => f.signal)])).toEqual([
+        ['v1.1.0', ['revert']],
+        ['v1.2.0', ['hotfix']],
+      ]);
+      expect(dora.changeFailureRate).toMatchObject({ deployments: 4, failed: 2, rate: 0.5 });
+      expect(dora.changeFailureRate.bySignal).toEqual({ revert: 1, hotfix: 1, log: 0, incident: 0 });
+      // Both are restored by v1.3.0, the next deployment that didn't fail (98h and 48h)
+      expect(dora.timeToRestore).toMatchObject({ avgHours: 73, count: 2, unrestored: 0 });
+    });
+
+    it('should only count deployments in the period', async () => {
+      const dora = await metrics.getDoraMetrics({ since: '2024-01-04T00:00:00Z' });
+      expect(dora.deployments.map(d => d.name)).toEqual(['v1.2.0', 'v1.3.0']);
+      expect(dora.changeFailureRate.failed).toBe(1);
+      expect(dora.timeToRestore).toMatchObject({ medianHours: 48, count: 1 });
+    });
+
+    it('should mark deployments with incidents as failed', async () => {
+      const dora = await metrics.getDoraMetrics({}, {}, [{ deployment: '1.3.0', id: 'PROJ-1' }]);
+      const last = dora.deployments[dora.deployments.length - 1];
+      expect(last.failures).toEqual([{ signal: 'incident', detail: 'PROJ-1' }]);
+      // Nothing after v1.3.0 restores it or the failures before it
+      expect(dora.timeToRestore).toMatchObject({ count: 0, unrestored: 3 });
+    });
+
+    it('should derive deployments from merges into a release branch', async () => {
+      const dora = await metrics.getDoraMetrics({}, { source: 'branch', releaseBranch: 'main' });
+      expect(dora.deployments.map(d => d.name)).toEqual(["Merge branch 'hotfix/login'"]);
+      await expect(metrics.getDoraMetrics({}, { source: 'branch', releaseBranch: '--output=x' }))
+        .rejects.toThrow('Invalid release branch');
+    });
+
+    it('should read deployments from a log file', async () => {
+      const logFile = join(repo.path, 'deployments.ndjson');
+      writeFileSync(logFile, [
+        { commit: 'v1.1.0', date: '2024-01-03T10:00:00Z', name: 'release-1' },
+        { commit: 'v1.2.0', date: '2024-01-05T12:00:00Z', name: 'release-2', status: 'failure' },
+        { commit: '0000000000000000000000000000000000000000', date: '2024-01-06T00:00:00Z' },
+        { commit: '--output=leak.txt', date: '2024-01-06T00:00:00Z' },
+        { commit: 'v1.3.0', date: '2024-01-07T12:00:00Z', name: 'release-3' },
+      ].map(entry => JSON.stringify(entry)).join('\n'));
+
+      const dora = await metrics.getDoraMetrics({}, { source: 'file', deploymentsFile: logFile });
+      expect(dora.deployments.map(d => [d.name, d.failed])).toEqual([
+        ['release-1', true],
+        ['release-2', true],
+        ['release-3', false],
+      ]);
+      expect(dora.deployments[1].failures.map(f => f.signal)).toEqual(['log', 'hotfix']);
+      // Only release-2 and release-3 have an earlier deployment to measure against
+      expect(dora.leadTime?.count).toBe(3);
+    });
+
+    it('should reject an unknown source', async () => {
+      await expect(metrics.getDoraMetrics({}, { source: 'nope' as never })).rejects.toThrow('Unknown deployment source');
+    });
+  });
+});
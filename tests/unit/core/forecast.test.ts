@@ -0,0 +1,77 @@
+// ============================================
+// Delivery Forecast Tests
+// ============================================
+
+import { describe, it, expect } from 'vitest';
+import { calculateForecast, createRandom, getFullWeeks, getWeeklySamples } from '../../../src/core/forecast';
+
+const NOW = new Date(2024, 2, 1, 9, 0);
+
+const weeks = (...counts: number[]) => counts.map((count, i) => ({ week: `2024-W${String(i + 1).padStart(2, '0')}`, count }));
+
+describe('Delivery Forecast', () => {
+  describe('createRandom', () => {
+    it('should repeat the same sequence for a seed', () => {
+      const a = createRandom(42);
+      const b = createRandom(42);
+      const values = Array.from({ length: 5 }, () => a());
+      expect(Array.from({ length: 5 }, () => b())).toEqual(values);
+      expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+      expect(createRandom(43)()).not.toBe(values[0]);
+    });
+  });
+
+  describe('getFullWeeks', () => {
+    it('should drop the partial first and current weeks', () => {
+      const history = weeks(1, 5, 5, 5, 5, 5, 5, 5, 2);
+      // Monday Jan 1 to Friday Mar 1: W02-W08 are full
+      expect(getFullWeeks(history, new Date(2024, 0, 1), NOW)).toEqual({ byWeek: history.slice(1, 8), weeks: 7 });
+      // Starting on a Sunday, the first week is full
+      expect(getFullWeeks(history.slice(1), new Date(2024, 0, 7), NOW)).toEqual({ byWeek: history.slice(1, 8), weeks: 7 });
+      expect(getFullWeeks(history.slice(8), new Date(2024, 1, 27), NOW)).toEqual({ byWeek: [], weeks: 0 });
+    });
+  });
+
+  describe('getWeeklySamples', () => {
+    it('should count missing weeks as zero', () => {
+      expect(getWeeklySamples(weeks(3, 5), 4)).toEqual([3, 5, 0, 0]);
+      expect(getWeeklySamples(weeks(3, 5), 1)).toEqual([3, 5]);
+    });
+  });
+
+  describe('calculateForecast', () => {
+    const options = { tracker: 'jira' as const, project: 'ABC', now: NOW, iterations: 500 };
+
+    it('should be exact with constant throughput', () => {
+      const forecast = calculateForecast(weeks(5, 5, 5), { ...options, weeks: 3, remaining: 20, targetDate: '2024-03-22' });
+      expect(forecast.history).toEqual({ weeks: 3, completed: 15, avgPerWeek: 5 });
+      expect(forecast.completion).toEqual([
+        { confidence: 50, weeks: 4, date: '2024-03-29' },
+        { confidence: 85, weeks: 4, date: '2024-03-29' },
+        { confidence: 95, weeks: 4, date: '2024-03-29' },
+      ]);
+      expect(forecast.itemsByDate?.map(i => i.items)).toEqual([15, 15, 15]);
+    });
+
+    it('should be reproducible with a seed and widen with confidence', () => {
+      const history = weeks(0, 2, 8, 3, 1, 6);
+      const run = () => calculateForecast(history, { ...options, weeks: 8, remaining: 30, targetDate: '2024-04-26', seed: 7 });
+      const forecast = run();
+
+      expect(run()).toEqual(forecast);
+      expect(forecast.seed).toBe(7);
+      const [p50, p85, p95] = forecast.completion!.map(c => c.weeks);
+      expect(p50).toBeLessThanOrEqual(p85);
+      expect(p85).toBeLessThanOrEqual(p95);
+      const [i50, i85, i95] = forecast.itemsByDate!.map(i => i.items);
+      expect(i50).toBeGreaterThanOrEqual(i85);
+      expect(i85).toBeGreaterThanOrEqual(i95);
+    });
+
+    it('should not forecast completion without throughput', () => {
+      const forecast = calculateForecast([], { ...options, weeks: 4, remaining: 10, targetDate: '2024-04-01' });
+      expect(forecast.completion).toBeNull();
+      expect(forecast.itemsByDate?.map(i => i.items)).toEqual([0, 0, 0]);
+    });
+  });
+});
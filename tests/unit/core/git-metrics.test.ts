@@ -0,0 +1,241 @@
+// ============================================
+// Git Metrics Tests
+// ============================================
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { existsSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { GitMetrics } from '../../../src/core/git-metrics';
+import { createTestRepo, TestRepo } from '../../helpers/git-repo';
+
+/** Shell payloads; if any of them ever reaches a shell, a file named "pwned" appears */
+const PAYLOADS = [
+  '$(touch pwned)',
+  '`touch pwned`',
+  '"; touch pwned; echo "',
+  "'; touch pwned #",
+];
+
+/** Option-shaped values; if git parses one as an option, "leak.txt" appears */
+const OPTION_LIKE = '--output=leak.txt';
+
+const EVIL_NAME = 'Mallory $(touch${IFS}pwned) "Q" | `id`';
+const EVIL_EMAIL = 'mallory+x@example.com';
+const EVIL_FILE = `we"ird $(touch pwned) 'a'.txt`;
+const EVIL_BRANCH = 'hostile/$(touch${IFS}pwned)';
+const OPTION_FILE = '--output=leak.txt';
+
+describe('Git Metrics', () => {
+  describe('hostile input', () => {
+    let repo: TestRepo;
+    let cwd: string;
+    let metrics: GitMetrics;
+
+    const mallory = { name: EVIL_NAME, email: EVIL_EMAIL };
+
+    /** Files a successful injection would have created */
+    const injectionArtifacts = () =>
+      [repo.path, cwd].flatMap(dir => readdirSync(dir).filter(f => f === 'pwned' || f === 'leak.txt'));
+
+    beforeAll(() => {
+      repo = createTestRepo('gdm-hostile-repo-');
+      cwd = process.cwd();
+
+      repo.commit({ 'normal.ts': 'a\n' }, 'normal', '2024-01-01T10:00:00+00:00');
+      repo.commit(
+        { [EVIL_FILE]: '1\n2\n3\n', [OPTION_FILE]: 'x\n' },
+        'evil files',
+        '2024-01-02T10:00:00+00:00',
+        mallory
+      );
+      repo.commit({ [EVIL_FILE]: '1\nrewritten\n3\n' }, 'rework', '2024-01-03T10:00:00+00:00', mallory);
+
+      repo.git(['checkout', '-q', '-b', EVIL_BRANCH]);
+      repo.commit({ 'branch.ts': 'b\n' }, 'on hostile branch', '2024-01-04T10:00:00+00:00');
+      repo.git(['checkout', '-q', 'main']);
+
+      metrics = new GitMetrics(repo.path);
+    });
+
+    afterEach(() => {
+      expect(injectionArtifacts()).toEqual([]);
+    });
+
+    afterAll(() => {
+      repo.remove();
+    });
+
+    it('should sanity check the fixture', () => {
+      expect(repo.git(['branch', '--list', 'hostile/*'])).toContain(EVIL_BRANCH);
+      expect(existsSync(join(repo.path, EVIL_FILE))).toBe(true);
+    });
+
+    it('getUnmergedBranches should not run payloads or options', async () => {
+      for (const value of [...PAYLOADS, OPTION_LIKE]) {
+        expect(await metrics.getUnmergedBranches(value)).toEqual([]);
+      }
+    });
+
+    it('getAllActiveBranches should return the main branch as given', async () => {
+      for (const value of [...PAYLOADS, OPTION_LIKE]) {
+        expect(await metrics.getAllActiveBranches(value)).toEqual([value]);
+      }
+    });
+
+    it('getCommitsFromMultipleBranches should resolve hostile branch names literally', async () => {
+      const commits = await metrics.getCommitsFromMultipleBranches(['main', EVIL_BRANCH, OPTION_LIKE, ...PAYLOADS]);
+      expect(commits.map(c => c.message)).toEqual(['on hostile branch', 'rework', 'evil files', 'normal']);
+    });
+
+    it('getRepoSummary should handle hostile branches and dates', async () => {
+      expect((await metrics.getRepoSummary({ branch: EVIL_BRANCH })).totalCommits).toBe(4);
+      expect((await metrics.getRepoSummary({ branch: OPTION_LIKE })).totalCommits).toBe(0);
+      for (const value of PAYLOADS) {
+        await metrics.getRepoSummary({ since: value, until: value, branch: value });
+      }
+    });
+
+    it('getAuthorStats should match hostile names and emails literally', async () => {
+      const byName = await metrics.getAuthorStats({ author: EVIL_NAME });
+      expect(byName).toHaveLength(1);
+      expect(byName[0].name).toBe(EVIL_NAME);
+      expect(byName[0].commits).toBe(2);
+
+      const byEmail = await metrics.getAuthorStats({ email: EVIL_EMAIL });
+      expect(byEmail.map(a => a.email)).toEqual([EVIL_EMAIL]);
+
+      for (const value of [...PAYLOADS, OPTION_LIKE]) {
+        expect(await metrics.getAuthorStats({ author: value })).toEqual([]);
+      }
+    });
+
+    it('getCommits should treat option-like branches as unknown', async () => {
+      expect(await metrics.getCommits({ branch: OPTION_LIKE })).toEqual([]);
+      expect((await metrics.getCommits({ branch: EVIL_BRANCH }, 1))[0].message).toBe('on hostile branch');
+    });
+
+    it('getTimeStats should filter by hostile authors', async () => {
+      const stats = await metrics.getTimeStats({ email: EVIL_EMAIL });
+      expect(Object.values(stats.byMonth)).toEqual([2]);
+      for (const value of PAYLOADS) {
+        expect(Object.keys((await metrics.getTimeStats({ author: value })).byMonth)).toEqual([]);
+      }
+    });
+
+    it('getFileStats should filter by hostile paths', async () => {
+      const stats = await metrics.getFileStats({ paths: [EVIL_FILE] });
+      expect(stats.map(f => f.path)).toEqual([EVIL_FILE]);
+      expect(stats[0].changes).toBe(2);
+
+      const optionFile = await metrics.getFileStats({ paths: [OPTION_FILE] });
+      expect(optionFile.map(f => f.path)).toEqual([OPTION_FILE]);
+    });
+
+    it('getBlameStats should blame hostile paths as files', async () => {
+      const blame = await metrics.getBlameStats(EVIL_FILE);
+      expect(blame).toEqual([{ author: EVIL_NAME, email: EVIL_EMAIL, lines: 3, percentage: 100 }]);
+
+      const optionFile = await metrics.getBlameStats(OPTION_FILE);
+      expect(optionFile.map(b => b.lines)).toEqual([1]);
+
+      for (const value of PAYLOADS) {
+        expect(await metrics.getBlameStats(value)).toEqual([]);
+      }
+    });
+
+    it('getCodeChurn should parse hostile paths and authors', async () => {
+      const churn = await metrics.getCodeChurn({ email: EVIL_EMAIL });
+      expect(churn).toHaveLength(1);
+      expect(churn[0].author).toBe(EVIL_NAME);
+      expect(churn[0].churnedCode).toBe(1);
+
+      const scoped = await metrics.getCodeChurn({ paths: [EVIL_FILE], branch: EVIL_BRANCH, author: EVIL_NAME });
+      expect(scoped.map(c => [c.newCode, c.churnedCode])).toEqual([[4, 1]]);
+      expect(await metrics.getCodeChurn({ branch: OPTION_LIKE })).toEqual([]);
+      expect(await metrics.getCodeChurn({ branch: 'nosuch' })).toEqual([]);
+      for (const value of PAYLOADS) {
+        expect(await metrics.getCodeChurn({ author: value })).toEqual([]);
+      }
+    });
+
+    it('getStatsByPeriod should filter by hostile paths', async () => {
+      const stats = await metrics.getStatsByPeriod({ paths: [EVIL_FILE] }, 'day');
+      expect(stats.map(s => s.period)).toEqual(['2024-01-02', '2024-01-03']);
+      expect(await metrics.getStatsByPeriod({ paths: PAYLOADS }, 'day')).toEqual([]);
+    });
+
+    it('getComparisonStats should compare hostile authors', async () => {
+      const comparison = await metrics.getComparisonStats(
+        { since: '2024-01-03T00:00:00', email: EVIL_EMAIL },
+        { until: '2024-01-02T23:59:59', email: EVIL_EMAIL }
+      );
+      expect(comparison).toHaveLength(1);
+      expect(comparison[0].author).toBe(EVIL_NAME);
+      expect(comparison[0].change.commits).toBe(0);
+    });
+
+    it('getDoraMetrics should treat hostile patterns and branches literally', async () => {
+      for (const value of [...PAYLOADS, OPTION_LIKE]) {
+        const dora = await metrics.getDoraMetrics({ since: value }, { tagPattern: value, hotfixPattern: value });
+        expect(dora.deployments).toEqual([]);
+      }
+      const branch = await metrics.getDoraMetrics({}, { source: 'branch', releaseBranch: EVIL_BRANCH });
+      expect(branch.deployments).toEqual([]);
+      await expect(metrics.getDoraMetrics({}, { source: 'branch', releaseBranch: OPTION_LIKE })).rejects.toThrow();
+    });
+
+    it('getIssueLinks should treat hostile branches literally', async () => {
+      const links = await metrics.getIssueLinks({ branch: EVIL_BRANCH });
+      expect(links.totalCommits).toBe(4);
+      for (const value of [...PAYLOADS, OPTION_LIKE]) {
+        expect((await metrics.getIssueLinks({ branch: value })).totalCommits).toBe(0);
+        expect(await metrics.getIssueKeys({ author: value }, [value])).toEqual([]);
+      }
+    });
+
+    it('getFileTypeStats should filter by hostile paths', async () => {
+      expect(await metrics.getFileTypeStats({ paths: [EVIL_FILE] })).toEqual({ txt: { files: 1, lines: 5 } });
+      expect(await metrics.getFileTypeStats({ paths: [OPTION_LIKE, ...PAYLOADS] })).toEqual({
+        txt: { files: 1, lines: 1 },
+      });
+    });
+  });
+
+  describe('getCodeChurn', () => {
+    let repo: TestRepo;
+
+    const commit = (file: string, lines: string[], date: string) =>
+      repo.commit({ [file]: lines.join('\n') + '\n' }, `update ${file}`, date);
+
+    beforeAll(() => {
+      repo = createTestRepo('gdm-churn-repo-');
+    });
+
+    afterAll(() => {
+      repo.remove();
+    });
+
+    it('should not take removed "-- " lines for file headers', async () => {
+      const lines = ['select 1;', '-- note', 'c', 'd', 'e', 'f', 'g', 'h', 'i'];
+      commit('a.sql', lines, '2024-01-01T10:00:00+00:00');
+      // Two hunks: the first removes "-- note", which the diff shows as "--- note"
+      commit('a.sql', lines.filter(line => line !== '-- note' && line !== 'h'), '2024-01-02T10:00:00+00:00');
+
+      const churn = await new GitMetrics(repo.path).getCodeChurn();
+      expect(churn.map(c => [c.author, c.newCode, c.churnedCode])).toEqual([['Alice', 9, 2]]);
+    });
+
+    it('should only walk the listed branches', async () => {
+      repo.git(['checkout', '-q', '--detach']);
+      commit('a.sql', ['select 2;'], '2024-01-03T10:00:00+00:00');
+      repo.git(['tag', 'side']);
+      repo.git(['checkout', '-q', 'main']);
+
+      const metrics = new GitMetrics(repo.path);
+      const onMain = await metrics.getCodeChurn({ branches: ['main'] });
+      expect(onMain.map(c => [c.author, c.newCode, c.churnedCode])).toEqual([['Alice', 9, 2]]);
+      const withSide = await metrics.getCodeChurn({ branches: ['main', 'side'] });
+      expect(withSide.map(c => [c.author, c.newCode, c.churnedCode])).not.toEqual([['Alice', 9, 2]]);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+// ============================================
+// Hotspots Tests
+// ============================================
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdirSync } from 'fs';
+import { join } from 'path';
+import {
+  getComplexityTrend, indentationOf, measureComplexity, rankHotspots, sampleEvenly,
+} from '../../../src/core/hotspots';
+import { GitMetrics } from '../../../src/core/git-metrics';
+import { FileStats, IndentationComplexity } from '../../../src/types';
+import { createTestRepo, TestRepo } from '../../helpers/git-repo';
+
+const fileStats = (path: string, changes: number): FileStats => ({
+  path,
+  changes,
+  linesAdded: changes * 10,
+  linesDeleted: changes,
+  authors: ['Alice'],
+});
+
+const complexity = (lines: number, total: number): IndentationComplexity => ({
+  lines,
+  total,
+  mean: total / lines,
+  max: 3,
+});
+
+describe('Hotspots', () => {
+  describe('indentationOf', () => {
+    it('should count spaces and tabs and skip blank lines', () => {
+      expect(indentationOf('return x;')).toBe(0);
+      expect(indentationOf('    return x;')).toBe(4);
+      expect(indentationOf('\t\tif (a) {')).toBe(8);
+      expect(indentationOf('   ')).toBeNull();
+      expect(indentationOf('')).toBeNull();
+    });
+  });
+
+  describe('measureComplexity', () => {
+    it('should count a level per four columns in four-space files', () => {
+      expect(measureComplexity([0, 4, 8, 8, 4, 0])).toEqual({ lines: 6, total: 6, mean: 1, max: 2 });
+    });
+
+    it('should count a level per two columns in two-space files', () => {
+      expect(measureComplexity([0, 2, 4, 4, 2, 0])).toEqual({ lines: 6, total: 6, mean: 1, max: 2 });
+    });
+
+    it('should handle files without indentation', () => {
+      expect(measureComplexity([0, 0])).toEqual({ lines: 2, total: 0, mean: 0, max: 0 });
+      expect(measureComplexity([])).toEqual({ lines: 0, total: 0, mean: 0, max: 0 });
+    });
+  });
+
+  describe('rankHotspots', () => {
+    it('should weigh change frequency against size and complexity', () => {
+      const { analyzedFiles, files, directories } = rankHotspots(
+        [fileStats('src/big.ts', 10), fileStats('src/small.ts', 10), fileStats('lib/rare.ts', 2), fileStats('logo.png', 20)],
+        new Map([
+          ['src/big.ts', complexity(100, 200)],
+          ['src/small.ts', complexity(10, 5)],
+          ['lib/rare.ts', complexity(100, 200)],
+        ])
+      );
+
+      expect(analyzedFiles).toBe(3);
+      expect(files.map(file => [file.path, file.score])).toEqual([
+        ['src/big.ts', 100],
+        ['lib/rare.ts', 20],
+        ['src/small.ts', 6.3],
+      ]);
+      expect(files[0]).toMatchObject({ changes: 10, authors: 1, linesAdded: 100, linesDeleted: 10 });
+      expect(directories).toEqual([
+        { path: 'src', files: 2, changes: 20, lines: 110, complexity: 205, score: 106.3 },
+        { path: 'lib', files: 1, changes: 2, lines: 100, complexity: 200, score: 20 },
+      ]);
+    });
+
+    it('should limit files and directories', () => {
+      const { files, directories } = rankHotspots(
+        [fileStats('a.ts', 3), fileStats('b/c.ts', 2)],
+        new Map([['a.ts', complexity(10, 10)], ['b/c.ts', complexity(10, 10)]]),
+        1
+      );
+      expect(files.map(file => file.path)).toEqual(['a.ts']);
+      expect(directories.map(directory => directory.path)).toEqual(['.']);
+    });
+  });
+
+  describe('sampleEvenly', () => {
+    it('should keep the first and last items', () => {
+      expect(sampleEvenly([1, 2, 3], 5)).toEqual([1, 2, 3]);
+      expect(sampleEvenly([1, 2, 3, 4, 5, 6, 7, 8, 9], 3)).toEqual([1, 5, 9]);
+    });
+  });
+
+  describe('getComplexityTrend', () => {
+    const point = (total: number) => ({ hash: 'h', shortHash: 'h', date: '2024-01-01T00:00:00.000Z', lines: 10, total, mean: total / 10 });
+
+    it('should call moves of more than 10% rising or falling', () => {
+      expect(getComplexityTrend('a.ts', [point(100), point(150)])).toMatchObject({ direction: 'rising', changePercent: 50 });
+      expect(getComplexityTrend('a.ts', [point(100), point(80)])).toMatchObject({ direction: 'falling', changePercent: -20 });
+      expect(getComplexityTrend('a.ts', [point(100), point(105)])).toMatchObject({ direction: 'stable', changePercent: 5 });
+    });
+
+    it('should leave a single point without a direction', () => {
+      expect(getComplexityTrend('a.ts', [point(100)])).toMatchObject({ direction: null, changePercent: null });
+    });
+  });
+
+  describe('getHotspots', () => {
+    let repo: TestRepo;
+    let metrics: GitMetrics;
+
+    const commit = (file: string, content: string | Buffer, date: string) =>
+      repo.commit({ [file]: content }, `update ${file}`, date);
+
+    // A function with `depth` nested blocks, indented by four spaces
+    const nested = (depth: number) =>
+      Array.from({ length: depth }, (_, i) => `${'    '.repeat(i)}if (x) {`)
+        .concat(Array.from({ length: depth }, (_, i) => `${'    '.repeat(depth - i - 1)}}`))
+        .join('\n') + '\n';
+
+    beforeAll(() => {
+      repo = createTestRepo('gdm-hotspots-');
+      mkdirSync(join(repo.path, 'src'));
+      commit('src/core.ts', nested(2), '2024-01-01T12:00:00Z');
+      commit('src/core.ts', nested(3), '2024-01-02T12:00:00Z');
+      commit('src/core.ts', nested(4), '2024-01-03T12:00:00Z');
+      commit('readme.md', 'Hello\n', '2024-01-04T12:00:00Z');
+      commit('logo.png', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01, 0x02]), '2024-01-05T12:00:00Z');
+      commit('logo.png', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x03, 0x04]), '2024-01-06T12:00:00Z');
+      commit('old.ts', nested(2), '2024-01-07T12:00:00Z');
+      repo.git(['rm', '-q', 'old.ts'], '2024-01-08T12:00:00Z');
+      repo.git(['commit', '-q', '-m', 'remove old.ts'], '2024-01-08T12:00:00Z');
+      metrics = new GitMetrics(repo.path);
+    });
+
+    afterAll(() => {
+      repo.remove();
+    });
+
+    it('should rank text files and leave binaries out', async () => {
+      const report = await metrics.getHotspots({});
+      expect(report.revision).toBe('HEAD');
+      expect(report.analyzedFiles).toBe(2);
+      expect(report.files.map(file => [file.path, file.changes, file.complexity.total])).toEqual([
+        ['src/core.ts', 3, 12],
+        ['readme.md', 1, 0],
+      ]);
+      expect(report.directories.map(directory => directory.path)).toEqual(['src', '.']);
+    });
+
+    it('should follow the complexity of the top files over their changes', async () => {
+      const report = await metrics.getHotspots({}, { trendFiles: 1 });
+      expect(report.trends).toHaveLength(1);
+      expect(report.trends[0]).toMatchObject({ path: 'src/core.ts', direction: 'rising', changePercent: 500 });
+      expect(report.trends[0].points.map(point => point.total)).toEqual([2, 6, 12]);
+    });
+
+    it('should only read the files changed in the period', async () => {
+      const report = await metrics.getHotspots({ since: '2024-01-03T18:00:00Z' });
+      expect(report.analyzedFiles).toBe(1);
+      expect(report.files.map(file => file.path)).toEqual(['readme.md']);
+
+      // Deleted since, binary, or both: nothing left to read
+      expect((await metrics.getHotspots({ since: '2024-01-04T18:00:00Z' })).files).toEqual([]);
+    });
+
+    it('should only look at the given paths', async () => {
+      const report = await metrics.getHotspots({ paths: ['src'] });
+      expect(report.files.map(file => file.path)).toEqual(['src/core.ts']);
+    });
+  });
+});
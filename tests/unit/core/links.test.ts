@@ -0,0 +1,139 @@
+// ============================================
+// Commit-to-Issue Links Tests
+// ============================================
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { extractIssueKeys, calculateIssueLinks } from '../../../src/core/links';
+import { IndexedCommit } from '../../../src/core/commit-index';
+import { GitMetrics } from '../../../src/core/git-metrics';
+import { createTestRepo, TestRepo } from '../../helpers/git-repo';
+
+const HOUR = 60 * 60;
+
+const indexed = (hash: string, commitTime: number, added = 1): IndexedCommit => ({
+  hash,
+  shortHash: hash.substring(0, 7),
+  parents: [],
+  author: 'Alice',
+  email: 'alice@example.com',
+  authorDate: new Date(commitTime * 1000).toISOString(),
+  commitTime,
+  subject: hash,
+  files: [{ path: 'a.ts', added, deleted: 0 }],
+});
+
+describe('Issue Links', () => {
+  describe('extractIssueKeys', () => {
+    it('should find uppercase keys in commit subjects', () => {
+      expect(extractIssueKeys('ABC-12: fix login (see ABC-7, ABC-12)')).toEqual(['ABC-12', 'ABC-7']);
+      expect(extractIssueKeys('[ENG-42] Add retries')).toEqual(['ENG-42']);
+    });
+
+    it('should ignore lowercase words and glued keys in subjects', () => {
+      expect(extractIssueKeys('Switch to utf-8 and sha-256')).toEqual([]);
+      expect(extractIssueKeys('XABC-12a and ABC-0')).toEqual([]);
+    });
+
+    it('should match lowercase keys in branch names', () => {
+      expect(extractIssueKeys('feature/eng-42-login', { ignoreCase: true })).toEqual(['ENG-42']);
+    });
+
+    it('should keep only the given projects', () => {
+      expect(extractIssueKeys('abc-1 UTF-8 ENG-2', { projects: ['abc', 'ENG'] })).toEqual(['ABC-1', 'ENG-2']);
+    });
+  });
+
+  describe('calculateIssueLinks', () => {
+    const commits = [indexed('a', 0, 10), indexed('b', 5 * HOUR, 5), indexed('c', 6 * HOUR), indexed('d', 7 * HOUR)];
+    const keysByCommit = new Map([['a', ['ABC-1']], ['b', ['ABC-1']], ['c', ['ABC-9']]]);
+
+    it('should count every key without a tracker', () => {
+      const links = calculateIssueLinks(commits, keysByCommit);
+      expect(links).toMatchObject({ tracker: null, totalCommits: 4, linkedCommits: 3, unlinkedRate: 0.25 });
+      expect(links.issues.map(i => [i.key, i.commits, i.linesAdded, i.codingHours, i.doneAt])).toEqual([
+        ['ABC-1', 2, 15, 5, null],
+        ['ABC-9', 1, 1, 0, null],
+      ]);
+      expect(links.waitingTime).toBeNull();
+    });
+
+    it('should split coding and waiting time using the tracker', () => {
+      const links = calculateIssueLinks(commits, keysByCommit, {
+        tracker: 'jira',
+        issues: [{ key: 'ABC-1', title: 'Login', status: 'Done', doneAt: new Date(29 * HOUR * 1000).toISOString() }],
+      });
+      expect(links.unknownKeys).toEqual(['ABC-9']);
+      expect(links).toMatchObject({ linkedCommits: 2, unlinkedCommits: 2, unlinkedRate: 0.5 });
+      expect(links.issues).toHaveLength(1);
+      expect(links.issues[0]).toMatchObject({ title: 'Login', codingHours: 5, waitingHours: 24, firstCommitToDoneHours: 29 });
+      expect(links.firstCommitToDone).toEqual({ avgHours: 29, medianHours: 29, count: 1 });
+    });
+  });
+
+  describe('getIssueLinks', () => {
+    let repo: TestRepo;
+    let metrics: GitMetrics;
+
+    const commit = (file: string, message: string, date: string) =>
+      repo.commit({ [file]: `${message}\n` }, message, date);
+
+    beforeAll(() => {
+      repo = createTestRepo('gdm-links-');
+
+      commit('readme.md', 'initial', '2024-01-01T10:00:00Z');
+
+      // Merged branch: its commits inherit the key from the merge subject
+      repo.git(['checkout', '-q', '-b', 'feature/ABC-1-login']);
+      commit('login.ts', 'add login form', '2024-01-02T10:00:00Z');
+      commit('login.ts', 'validate password', '2024-01-02T14:00:00Z');
+      repo.git(['checkout', '-q', 'main']);
+      repo.git(['merge', '-q', '--no-ff', '--no-edit', 'feature/ABC-1-login'], '2024-01-03T10:00:00Z');
+
+      commit('fix.ts', 'ABC-2 fix crash', '2024-01-04T10:00:00Z');
+      commit('misc.ts', 'tidy up', '2024-01-05T10:00:00Z');
+
+      // Unmerged branch named after a Linear-style lowercase key
+      repo.git(['checkout', '-q', '-b', 'abc-3-search']);
+      commit('search.ts', 'search box', '2024-01-06T10:00:00Z');
+      repo.git(['checkout', '-q', 'main']);
+
+      metrics = new GitMetrics(repo.path);
+    });
+
+    afterAll(() => {
+      repo.remove();
+    });
+
+    it('should link commits by subject, merged branch and unmerged branch', async () => {
+      expect(await metrics.getIssueKeys()).toEqual(['ABC-1', 'ABC-2', 'ABC-3']);
+
+      const links = await metrics.getIssueLinks();
+      expect(links).toMatchObject({ totalCommits: 6, linkedCommits: 4, unlinkedCommits: 2 });
+      expect(links.issues.map(i => [i.key, i.commits, i.codingHours])).toEqual([
+        ['ABC-1', 2, 4],
+        ['ABC-2', 1, 0],
+        ['ABC-3', 1, 0],
+      ]);
+    });
+
+    it('should only follow the given branch', async () => {
+      const links = await metrics.getIssueLinks({ branch: 'main' });
+      expect(links.totalCommits).toBe(5);
+      expect(links.issues.map(i => i.key)).toEqual(['ABC-1', 'ABC-2']);
+    });
+
+    it('should apply filters and project keys', async () => {
+      expect(await metrics.getIssueKeys({ since: '2024-01-04T00:00:00Z' })).toEqual(['ABC-2', 'ABC-3']);
+      expect(await metrics.getIssueKeys({}, ['XYZ'])).toEqual([]);
+    });
+
+    it('should measure waiting time against tracked issues', async () => {
+      const links = await metrics.getIssueLinks({}, {
+        tracker: 'linear',
+        issues: [{ key: 'ABC-1', title: 'Login', status: 'Done', doneAt: '2024-01-04T14:00:00Z' }],
+      });
+      expect(links.unknownKeys).toEqual(['ABC-2', 'ABC-3']);
+      expect(links.issues[0]).toMatchObject({ key: 'ABC-1', codingHours: 4, waitingHours: 48, firstCommitToDoneHours: 52 });
+    });
+  });
+});
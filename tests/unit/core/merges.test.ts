@@ -0,0 +1,125 @@
+// ============================================
+// Merge History Tests
+// ============================================
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { findPullRequest } from '../../../src/core/merges';
+import { GitMetrics } from '../../../src/core/git-metrics';
+import { ALICE, createTestRepo, TestRepo } from '../../helpers/git-repo';
+
+const BOB = { name: 'Bob', email: 'bob@example.com' };
+const CAROL = { name: 'Carol', email: 'carol@example.com' };
+const GITHUB = { name: 'GitHub', email: 'noreply@github.com' };
+
+describe('Merge History', () => {
+  describe('findPullRequest', () => {
+    it('should read GitHub merge and squash subjects', () => {
+      expect(findPullRequest('Merge pull request #12 from acme/login')).toBe(12);
+      expect(findPullRequest('Add login form (#123)')).toBe(123);
+    });
+
+    it('should read GitLab merge requests from the body', () => {
+      expect(findPullRequest("Merge branch 'login' into 'main'", 'Add login\n\nSee merge request acme/api!45')).toBe(45);
+    });
+
+    it('should read Bitbucket and Azure Repos subjects', () => {
+      expect(findPullRequest('Merged in feature/login (pull request #7)')).toBe(7);
+      expect(findPullRequest('Merged PR 31: Add login')).toBe(31);
+    });
+
+    it('should ignore issue references and plain commits', () => {
+      expect(findPullRequest('Fix #12 in the middle')).toBeNull();
+      expect(findPullRequest('Tidy up', 'See #45')).toBeNull();
+    });
+  });
+
+  describe('getMergeStats', () => {
+    let repo: TestRepo;
+    let metrics: GitMetrics;
+
+    /** `lines` lines of text, each naming the commit */
+    const numbered = (message: string, lines: number) =>
+      Array.from({ length: lines }, (_, i) => `${message} ${i}`).join('\n') + '\n';
+
+    const commit = (file: string, lines: number, message: string, date: string, author = ALICE, committer = author) =>
+      repo.commit({ [file]: numbered(message, lines) }, message, date, author, committer);
+
+    beforeAll(() => {
+      repo = createTestRepo('gdm-merges-');
+      commit('readme.md', 1, 'initial', '2024-01-01T10:00:00Z');
+
+      // Bob's branch, merged by Alice on GitHub: 1 day from first commit to merge
+      repo.git(['checkout', '-q', '-b', 'login']);
+      commit('login.ts', 3, 'add login form', '2024-01-02T10:00:00Z', BOB);
+      commit('login.ts', 5, 'validate password', '2024-01-02T20:00:00Z', BOB);
+      repo.git(['checkout', '-q', 'main']);
+      repo.git(['merge', '-q', '--no-ff', '-m', 'Merge pull request #12 from bob/login', 'login'], '2024-01-03T10:00:00Z');
+
+      // Squashed in the GitHub web UI, keeping the first commit's date
+      commit('search.ts', 4, 'Add search (#13)', '2024-01-04T10:00:00Z', CAROL, GITHUB);
+      repo.git(['commit', '-q', '--amend', '--no-edit'], '2024-01-05T10:00:00Z', CAROL, GITHUB);
+
+      // A local pull onto main isn't a branch
+      repo.git(['checkout', '-q', '-b', 'upstream']);
+      commit('upstream.ts', 1, 'upstream change', '2024-01-06T10:00:00Z');
+      repo.git(['checkout', '-q', 'main']);
+      commit('local.ts', 1, 'local change', '2024-01-06T11:00:00Z');
+      repo.git(['merge', '-q', '--no-ff', '-m', "Merge branch 'main' of github.com:acme/api", 'upstream'], '2024-01-06T12:00:00Z');
+
+      // GitLab merge commit, Bob merging his own branch
+      repo.git(['checkout', '-q', '-b', 'cache']);
+      commit('cache.ts', 2, 'add cache', '2024-01-07T10:00:00Z', BOB);
+      repo.git(['checkout', '-q', 'main']);
+      repo.git(
+        ['merge', '-q', '--no-ff', '-m', "Merge branch 'cache' into 'main'", '-m', 'See merge request acme/api!45', 'cache'],
+        '2024-01-08T10:00:00Z',
+        BOB
+      );
+
+      commit('misc.ts', 1, 'tidy up', '2024-01-09T10:00:00Z');
+      metrics = new GitMetrics(repo.path);
+    });
+
+    afterAll(() => {
+      repo.remove();
+    });
+
+    it('should find merge commits and squash merges', async () => {
+      const stats = await metrics.getMergeStats();
+      expect(stats).toMatchObject({ branch: 'main', totalMerges: 3, mergeCommits: 2, squashMerges: 1 });
+      expect(stats.mergedBranches.map(m => [m.kind, m.branch, m.pullRequest, m.author, m.mergedBy, m.lifetimeHours])).toEqual([
+        ['merge', 'cache', 45, 'Bob', 'Bob', 24],
+        ['squash', null, 13, 'Carol', null, 24],
+        ['merge', 'login', 12, 'Bob', 'Alice', 24],
+      ]);
+      expect(stats.mergedBranches[2]).toMatchObject({ commits: 2, files: 1, linesAdded: 8, linesDeleted: 3 });
+    });
+
+    it('should summarize lifetimes, sizes and who merged whose work', async () => {
+      const stats = await metrics.getMergeStats();
+      expect(stats.lifetime).toEqual({ avgHours: 24, medianHours: 24, count: 3 });
+      expect(stats.size).toEqual({ avgLines: 5.7, medianLines: 4 });
+      expect(stats.selfMerges).toEqual({ count: 1, rate: 0.5 });
+      expect(stats.authors).toEqual([
+        {
+          author: 'Bob', merges: 2, medianLifetimeHours: 24, medianLines: 6.5,
+          mergedBy: [{ name: 'Alice', merges: 1 }, { name: 'Bob', merges: 1 }],
+        },
+        { author: 'Carol', merges: 1, medianLifetimeHours: 24, medianLines: 4, mergedBy: [] },
+      ]);
+    });
+
+    it('should filter by merge time and author of the work', async () => {
+      expect((await metrics.getMergeStats({ since: '2024-01-04T00:00:00Z' })).totalMerges).toBe(2);
+      expect((await metrics.getMergeStats({ until: '2024-01-04T00:00:00Z' })).totalMerges).toBe(1);
+
+      const carol = await metrics.getMergeStats({ author: 'carol@example.com' });
+      expect(carol.mergedBranches.map(m => m.pullRequest)).toEqual([13]);
+    });
+
+    it('should return nothing for an unknown branch', async () => {
+      const stats = await metrics.getMergeStats({ branch: 'missing' });
+      expect(stats).toMatchObject({ branch: 'missing', totalMerges: 0, lifetime: null, size: null });
+    });
+  });
+});
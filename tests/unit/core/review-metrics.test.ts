@@ -0,0 +1,274 @@
+// ============================================
+// Review Metrics Tests
+// ============================================
+
+import { describe, it, expect } from 'vitest';
+import { calculateReviewMetrics, countReviewRounds } from '../../../src/core/review-metrics';
+import { normalizePullRequests, getRepositoryFromRemote } from '../../../src/integrations/github/metrics';
+import { normalizeMergeRequests, getProjectFromRemote } from '../../../src/integrations/gitlab/metrics';
+import { GitLabMergeRequestWithReviews, GitLabNote } from '../../../src/integrations/gitlab/types';
+import * as bitbucket from '../../../src/integrations/bitbucket/metrics';
+import * as azure from '../../../src/integrations/azure/metrics';
+import { AzureComment, AzureThread } from '../../../src/integrations/azure/types';
+import { PullRequest, PullRequestReview } from '../../../src/types';
+
+const review = (reviewer: string, state: PullRequestReview['state'], submittedAt: string): PullRequestReview =>
+  ({ reviewer, state, submittedAt });
+
+const pr = (number: number, options: Partial<PullRequest> = {}): PullRequest => ({
+  platform: 'github',
+  number,
+  title: `PR ${number}`,
+  author: 'alice',
+  state: 'open',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  mergedAt: null,
+  closedAt: null,
+  additions: 50,
+  deletions: 10,
+  changedFiles: 2,
+  reviews: [],
+  comments: [],
+  pipelines: null,
+  ...options,
+});
+
+const merged = (number: number, mergedAt: string, options: Partial<PullRequest> = {}) =>
+  pr(number, { state: 'merged', mergedAt, closedAt: mergedAt, ...options });
+
+describe('Review Metrics', () => {
+  it('should count a round per change request, ignoring the author', () => {
+    expect(countReviewRounds(pr(1))).toBe(0);
+    expect(countReviewRounds(pr(1, {
+      reviews: [
+        review('bob', 'changes_requested', '2024-01-01T02:00:00.000Z'),
+        review('alice', 'commented', '2024-01-01T03:00:00.000Z'),
+        review('bob', 'changes_requested', '2024-01-01T04:00:00.000Z'),
+        review('bob', 'approved', '2024-01-01T05:00:00.000Z'),
+      ],
+    }))).toBe(3);
+  });
+
+  it('should calculate review metrics over pull requests', () => {
+    const metrics = calculateReviewMetrics([
+      merged(1, '2024-01-02T00:00:00.000Z', {
+        reviews: [review('alice', 'commented', '2024-01-01T01:00:00.000Z'), review('bob', 'approved', '2024-01-01T04:00:00.000Z')],
+      }),
+      merged(2, '2024-01-01T12:00:00.000Z', { additions: 900, deletions: 200 }),
+      pr(3, {
+        additions: 300,
+        reviews: [review('carol', 'changes_requested', '2024-01-01T02:00:00.000Z'), review('bob', 'commented', '2024-01-01T06:00:00.000Z')],
+        comments: [{ author: 'alice', createdAt: '2024-01-01T00:30:00.000Z' }, { author: 'dave', createdAt: '2024-01-01T01:00:00.000Z' }],
+      }),
+    ], { platform: 'github', repository: 'acme/api', since: '2024-01-01', until: '2024-01-31' });
+
+    expect(metrics).toMatchObject({ available: true, repository: 'acme/api', pullRequests: 3, merged: 2 });
+    expect(metrics.cycleTime).toEqual({ avgHours: 18, medianHours: 18, count: 2 });
+    expect(metrics.timeToFirstReview).toEqual({ avgHours: 3, medianHours: 3, count: 2 });
+    expect(metrics.timeToFirstComment).toEqual({ avgHours: 2.5, medianHours: 2.5, count: 2 });
+    expect(metrics.approvalLatency).toEqual({ avgHours: 4, medianHours: 4, count: 1 });
+    expect(metrics.comments).toEqual({ total: 1, perPullRequest: 0.3 });
+    expect(metrics.reviewRounds).toEqual({ avg: 1.5, median: 1.5, max: 2 });
+    expect(metrics.size).toEqual({ small: 1, medium: 1, large: 0, huge: 1, medianLines: 310 });
+    expect(metrics.reviewerLoad).toEqual([
+      { reviewer: 'bob', reviews: 2, pullRequests: 2 },
+      { reviewer: 'carol', reviews: 1, pullRequests: 1 },
+    ]);
+    expect(metrics.unreviewedMerges).toEqual({ count: 1, rate: 0.5 });
+    expect(metrics.pipelines).toBeNull();
+  });
+
+  it('should add up the pipeline outcomes of platforms that report them', () => {
+    const metrics = calculateReviewMetrics([
+      pr(1, { pipelines: { succeeded: 3, failed: 1 } }),
+      pr(2, { pipelines: { succeeded: 0, failed: 0 } }),
+      pr(3),
+    ], { platform: 'gitlab', repository: 'platform/api' });
+    expect(metrics.pipelines).toEqual({ total: 4, failed: 1, failureRate: 0.25 });
+  });
+
+  it('should report no pull requests as available but empty', () => {
+    const metrics = calculateReviewMetrics([], { platform: 'github', repository: 'acme/api' });
+    expect(metrics).toMatchObject({ reason: 'No pull requests found in the specified period', cycleTime: null, reviewRounds: null });
+  });
+
+  describe('GitHub', () => {
+    it('should normalize merged pull requests and skip pending reviews', () => {
+      const [normalized] = normalizePullRequests([{
+        number: 5, title: 'Fix', state: 'closed', user: { login: 'alice' },
+        created_at: '2024-01-01T00:00:00Z', closed_at: '2024-01-02T00:00:00Z', merged_at: '2024-01-02T00:00:00Z',
+        additions: 1, deletions: 1, changed_files: 1,
+        reviews: [
+          { id: 1, user: { login: 'bob' }, state: 'PENDING' },
+          { id: 2, user: null, state: 'APPROVED', submitted_at: '2024-01-01T10:00:00Z' },
+          { id: 3, user: { login: 'bob' }, state: 'APPROVED', submitted_at: '2024-01-01T12:00:00Z' },
+        ],
+        comments: [
+          { id: 4, user: { login: 'ci-bot', type: 'Bot' }, created_at: '2024-01-01T00:01:00Z' },
+          { id: 5, user: { login: 'carol', type: 'User' }, created_at: '2024-01-01T02:00:00Z' },
+        ],
+      }]);
+      expect(normalized).toMatchObject({
+        state: 'merged',
+        reviews: [{ reviewer: 'bob', state: 'approved' }],
+        comments: [{ author: 'carol', createdAt: '2024-01-01T02:00:00Z' }],
+        pipelines: null,
+      });
+      expect(normalized.reviews).toHaveLength(1);
+      expect(normalized.comments).toHaveLength(1);
+    });
+
+    it('should only take repositories hosted on the configured GitHub', () => {
+      const remote = { host: 'github.com', path: 'acme/api' };
+      expect(getRepositoryFromRemote(remote)).toEqual({ owner: 'acme', repo: 'api' });
+      expect(getRepositoryFromRemote(remote, 'https://ghe.example.com/api/v3')).toBeNull();
+      expect(getRepositoryFromRemote({ host: 'ghe.example.com', path: 'acme/api' }, 'https://ghe.example.com/api/v3'))
+        .toEqual({ owner: 'acme', repo: 'api' });
+    });
+  });
+
+  describe('GitLab', () => {
+    const note = (id: number, body: string, username: string, createdAt: string, options: Partial<GitLabNote> = {}): GitLabNote =>
+      ({ id, type: null, body, author: { id, username }, created_at: createdAt, system: false, ...options });
+
+    const mr = (options: Partial<GitLabMergeRequestWithReviews> = {}): GitLabMergeRequestWithReviews => ({
+      id: 1, iid: 7, title: 'Add cache', state: 'merged', author: { id: 1, username: 'alice' },
+      created_at: '2024-01-01T00:00:00Z', merged_at: '2024-01-02T00:00:00Z', closed_at: null,
+      notes: [], approvedBy: [], pipelines: [], additions: 20, deletions: 5, changedFiles: 2,
+      ...options,
+    });
+
+    it('should read reviews from system notes and diff comments', () => {
+      const [normalized] = normalizeMergeRequests([mr({
+        notes: [
+          note(1, 'Looks risky', 'bob', '2024-01-01T02:00:00Z', { type: 'DiffNote' }),
+          note(2, 'requested changes', 'bob', '2024-01-01T03:00:00Z', { system: true }),
+          note(3, 'Pipeline passed', 'gitlab-bot', '2024-01-01T04:00:00Z', { author: { id: 9, username: 'gitlab-bot', bot: true } }),
+          note(4, 'added 1 commit', 'alice', '2024-01-01T05:00:00Z', { system: true }),
+          note(5, 'approved this merge request', 'bob', '2024-01-01T06:00:00Z', { system: true }),
+        ],
+        approvedBy: ['bob', 'carol'],
+        pipelines: [{ id: 1, status: 'failed' }, { id: 2, status: 'success' }, { id: 3, status: 'canceled' }],
+      })]);
+
+      expect(normalized).toMatchObject({
+        platform: 'gitlab', number: 7, state: 'merged', closedAt: '2024-01-02T00:00:00Z',
+        comments: [{ author: 'bob', createdAt: '2024-01-01T02:00:00Z' }],
+        pipelines: { succeeded: 1, failed: 1 },
+      });
+      expect(normalized.reviews).toEqual([
+        review('bob', 'commented', '2024-01-01T02:00:00Z'),
+        review('bob', 'changes_requested', '2024-01-01T03:00:00Z'),
+        review('bob', 'approved', '2024-01-01T06:00:00Z'),
+        review('carol', 'approved', '2024-01-02T00:00:00Z'),
+      ]);
+    });
+
+    it('should only take projects hosted on the configured instance', () => {
+      expect(getProjectFromRemote({ host: 'gitlab.com', path: 'platform/backend/api' })).toBe('platform/backend/api');
+      expect(getProjectFromRemote({ host: 'gitlab.com', path: 'platform/api' }, 'https://gitlab.acme.com')).toBeNull();
+      expect(getProjectFromRemote({ host: 'gitlab.acme.com', path: 'platform/api' }, 'https://gitlab.acme.com/')).toBe('platform/api');
+    });
+  });
+
+  describe('Bitbucket', () => {
+    it('should read reviews, comments and the merge time from the activity', () => {
+      const [normalized] = bitbucket.normalizePullRequests([{
+        id: 9, title: 'Add cache', state: 'MERGED', author: { display_name: 'Alice' },
+        created_on: '2024-01-01T00:00:00Z', updated_on: '2024-01-03T00:00:00Z',
+        additions: 20, deletions: 5, changedFiles: 2,
+        activity: [
+          { comment: { id: 1, user: { display_name: 'Bob' }, created_on: '2024-01-01T02:00:00Z', inline: { path: 'a.ts' } } },
+          { comment: { id: 2, user: { display_name: 'Pipelines', type: 'app_user' }, created_on: '2024-01-01T02:30:00Z' } },
+          { comment: { id: 3, user: { display_name: 'Carol' }, created_on: '2024-01-01T02:45:00Z', deleted: true } },
+          { changes_requested: { date: '2024-01-01T03:00:00Z', user: { display_name: 'Bob' } } },
+          { comment: { id: 4, user: { display_name: 'Alice' }, created_on: '2024-01-01T04:00:00Z' } },
+          { approval: { date: '2024-01-01T06:00:00Z', user: { display_name: 'Bob' } } },
+          { update: { state: 'MERGED', date: '2024-01-02T00:00:00Z', author: { display_name: 'Alice' } } },
+        ],
+      }]);
+
+      expect(normalized).toMatchObject({
+        platform: 'bitbucket', number: 9, author: 'Alice', state: 'merged',
+        mergedAt: '2024-01-02T00:00:00Z', closedAt: '2024-01-02T00:00:00Z',
+        comments: [{ author: 'Bob', createdAt: '2024-01-01T02:00:00Z' }, { author: 'Alice', createdAt: '2024-01-01T04:00:00Z' }],
+        pipelines: null,
+      });
+      expect(normalized.reviews).toEqual([
+        review('Bob', 'commented', '2024-01-01T02:00:00Z'),
+        review('Bob', 'changes_requested', '2024-01-01T03:00:00Z'),
+        review('Bob', 'approved', '2024-01-01T06:00:00Z'),
+      ]);
+    });
+
+    it('should only take repositories hosted on bitbucket.org', () => {
+      expect(bitbucket.getRepositoryFromRemote({ host: 'bitbucket.org', path: 'acme/api' })).toEqual({ workspace: 'acme', repo: 'api' });
+      expect(bitbucket.getRepositoryFromRemote({ host: 'github.com', path: 'acme/api' })).toBeNull();
+      expect(bitbucket.parseRepository('api')).toBeNull();
+    });
+  });
+
+  describe('Azure Repos', () => {
+    const alice = { id: '1', displayName: 'Alice', uniqueName: 'alice@acme.com' };
+    const bob = { id: '2', displayName: 'Bob', uniqueName: 'bob@acme.com' };
+    const comment = (author: AzureComment['author'], publishedDate: string, commentType: AzureComment['commentType'] = 'text'): AzureComment =>
+      ({ id: 1, author, publishedDate, commentType });
+    const vote = (voter: AzureComment['author'], result: number, publishedDate: string): AzureThread => ({
+      id: 1, publishedDate, comments: [comment(voter, publishedDate, 'system')],
+      properties: { CodeReviewThreadType: { $value: 'VoteUpdate' }, CodeReviewVoteResult: { $value: String(result) } },
+    });
+
+    it('should read votes from vote threads and comments from text threads', () => {
+      const [normalized] = azure.normalizePullRequests([{
+        pullRequestId: 31, title: 'Add cache', status: 'completed', createdBy: alice,
+        creationDate: '2024-01-01T00:00:00Z', closedDate: '2024-01-02T00:00:00Z',
+        reviewers: [
+          { ...bob, vote: 10 },
+          { id: '3', displayName: 'Carol', uniqueName: 'carol@acme.com', vote: 5 },
+          { id: '4', displayName: '[Platform]\\Reviewers', uniqueName: 'vstfs:///Classification/TeamProject/1', isContainer: true, vote: 10 },
+        ],
+        additions: 20, deletions: 5, changedFiles: 2,
+        threads: [
+          { id: 1, publishedDate: '2024-01-01T02:00:00Z', threadContext: { filePath: '/a.ts' }, comments: [comment(bob, '2024-01-01T02:00:00Z')] },
+          vote(bob, -5, '2024-01-01T03:00:00Z'),
+          { id: 2, publishedDate: '2024-01-01T03:30:00Z', comments: [comment(null, '2024-01-01T03:30:00Z', 'system')] },
+          { id: 3, publishedDate: '2024-01-01T04:00:00Z', comments: [comment(alice, '2024-01-01T04:00:00Z')] },
+          { id: 4, publishedDate: '2024-01-01T04:30:00Z', isDeleted: true, comments: [comment(bob, '2024-01-01T04:30:00Z')] },
+          vote(bob, 10, '2024-01-01T06:00:00Z'),
+        ],
+      }]);
+
+      expect(normalized).toMatchObject({
+        platform: 'azure', number: 31, author: 'alice@acme.com', state: 'merged',
+        mergedAt: '2024-01-02T00:00:00Z', closedAt: '2024-01-02T00:00:00Z',
+        comments: [{ author: 'bob@acme.com', createdAt: '2024-01-01T02:00:00Z' }, { author: 'alice@acme.com', createdAt: '2024-01-01T04:00:00Z' }],
+        pipelines: null,
+      });
+      expect(normalized.reviews).toEqual([
+        review('bob@acme.com', 'commented', '2024-01-01T02:00:00Z'),
+        review('bob@acme.com', 'changes_requested', '2024-01-01T03:00:00Z'),
+        review('bob@acme.com', 'approved', '2024-01-01T06:00:00Z'),
+        review('carol@acme.com', 'approved', '2024-01-02T00:00:00Z'),
+      ]);
+    });
+
+    it('should find repositories of the configured organization in every remote form', () => {
+      const remote = (host: string, path: string) => azure.getRepositoryFromRemote({ host, path }, 'Acme');
+      const repository = { project: 'Platform', repo: 'api' };
+
+      expect(remote('dev.azure.com', 'acme/Platform/_git/api')).toEqual(repository);
+      expect(remote('ssh.dev.azure.com', 'v3/acme/Platform/api')).toEqual(repository);
+      expect(remote('acme.visualstudio.com', 'DefaultCollection/Platform/_git/api')).toEqual(repository);
+      expect(remote('vs-ssh.visualstudio.com', 'v3/acme/Platform/api')).toEqual(repository);
+      expect(remote('dev.azure.com', 'acme/_git/api')).toEqual({ project: 'api', repo: 'api' });
+      expect(remote('dev.azure.com', 'acme/My%20Project/_git/api')).toEqual({ project: 'My Project', repo: 'api' });
+      expect(remote('dev.azure.com', 'other/Platform/_git/api')).toBeNull();
+      expect(remote('github.com', 'acme/api')).toBeNull();
+
+      expect(azure.getRepositoryFromRemote({ host: 'tfs.acme.com', path: 'tfs/Acme/Platform/_git/api' }, 'acme', 'https://tfs.acme.com/tfs'))
+        .toEqual(repository);
+      expect(azure.getRepositoryFromRemote({ host: 'dev.azure.com', path: 'acme/Platform/_git/api' }, 'acme', 'https://tfs.acme.com/tfs'))
+        .toBeNull();
+    });
+  });
+});
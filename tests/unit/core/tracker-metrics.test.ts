@@ -0,0 +1,109 @@
+// ============================================
+// Tracker Metrics Tests
+// ============================================
+
+import { describe, it, expect } from 'vitest';
+import { calculateTrackerMetrics, summarizeDays } from '../../../src/core/tracker-metrics';
+import { normalizeIssues as normalizeJiraIssues } from '../../../src/integrations/jira/metrics';
+import { normalizeIssues as normalizeLinearIssues } from '../../../src/integrations/linear/metrics';
+import { DEFAULT_STATUS_MAPPING, DEFAULT_STORY_POINTS_FIELD, JiraIssue } from '../../../src/integrations/jira/types';
+import { LinearIssue } from '../../../src/integrations/linear/types';
+import { NormalizedIssue } from '../../../src/types';
+
+const issue = (key: string, options: Partial<NormalizedIssue> = {}): NormalizedIssue => ({
+  tracker: 'linear',
+  key,
+  title: key,
+  type: null,
+  status: 'Todo',
+  stateCategory: 'todo',
+  assignee: null,
+  estimate: null,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  startedAt: null,
+  doneAt: null,
+  ...options,
+});
+
+const done = (key: string, started: string, doneAt: string, assignee: string | null = 'Alice') =>
+  issue(key, { status: 'Done', stateCategory: 'done', startedAt: started, doneAt, assignee });
+
+describe('Tracker Metrics', () => {
+  it('should summarize durations in days', () => {
+    expect(summarizeDays([1, 2, 3, 10])).toEqual({ avgDays: 4, medianDays: 2.5, minDays: 1, maxDays: 10, p90Days: 10, count: 4 });
+    expect(summarizeDays([])).toBeNull();
+  });
+
+  it('should calculate flow metrics from issues of any tracker', () => {
+    const metrics = calculateTrackerMetrics([
+      done('A', '2024-01-02T00:00:00.000Z', '2024-01-04T00:00:00.000Z'),
+      done('B', '2024-01-03T00:00:00.000Z', '2024-01-09T00:00:00.000Z', null),
+      issue('C', { stateCategory: 'in_progress', startedAt: '2024-01-10T00:00:00.000Z', assignee: 'Bob' }),
+      issue('D', { stateCategory: 'canceled', doneAt: null }),
+      issue('E'),
+    ], { since: '2024-01-01', until: '2024-01-29' });
+
+    expect(metrics).toMatchObject({ available: true, issuesAnalyzed: 5, period: { since: '2024-01-01', until: '2024-01-29' } });
+    expect(metrics.cycleTime).toMatchObject({ avgDays: 4, count: 2 });
+    expect(metrics.leadTime).toMatchObject({ minDays: 3, maxDays: 8, count: 2 });
+    expect(metrics.wip).toEqual({ current: 1, byAssignee: { Bob: 1 } });
+    expect(metrics.throughput).toMatchObject({ total: 2, perWeek: 0.5, byAssignee: { Alice: 1, Unassigned: 1 } });
+  });
+
+  it('should report no issues as available but empty', () => {
+    const metrics = calculateTrackerMetrics([], { since: '2024-01-01', until: '2024-01-29' });
+    expect(metrics).toMatchObject({ available: true, reason: 'No issues found in the specified period', cycleTime: null, throughput: null });
+  });
+
+  describe('normalizers', () => {
+    it('should map Jira statuses through the status mapping', () => {
+      const jira: JiraIssue = {
+        id: '1',
+        key: 'ABC-1',
+        fields: {
+          summary: 'Fix login',
+          issuetype: { id: '1', name: 'Bug', subtask: false },
+          status: { id: '2', name: 'Blocked', statusCategory: { id: 4, key: 'indeterminate', name: 'In Progress' } },
+          assignee: { accountId: 'a', displayName: 'Alice', active: true },
+          created: '2024-01-01T00:00:00.000Z',
+          updated: '2024-01-05T00:00:00.000Z',
+          [DEFAULT_STORY_POINTS_FIELD]: 3,
+        },
+        changelog: {
+          histories: [{
+            id: '1',
+            created: '2024-01-02T00:00:00.000Z',
+            author: { accountId: 'a', displayName: 'Alice', active: true },
+            items: [{ field: 'status', from: '1', to: '2', fromString: 'To Do', toString: 'In Progress' }],
+          }],
+        },
+      };
+
+      expect(normalizeJiraIssues([jira], DEFAULT_STATUS_MAPPING)).toEqual([{
+        tracker: 'jira', key: 'ABC-1', title: 'Fix login', type: 'Bug', status: 'Blocked', stateCategory: 'in_progress',
+        assignee: 'Alice', estimate: 3, createdAt: '2024-01-01T00:00:00.000Z', startedAt: '2024-01-02T00:00:00.000Z', doneAt: null,
+      }]);
+    });
+
+    it('should map Linear state types', () => {
+      const linear: LinearIssue = {
+        id: '1',
+        identifier: 'ENG-1',
+        title: 'Ship it',
+        priority: 0,
+        estimate: 2,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-05T00:00:00.000Z',
+        startedAt: '2024-01-02T00:00:00.000Z',
+        canceledAt: '2024-01-05T00:00:00.000Z',
+        state: { id: 's', name: 'Canceled', type: 'canceled', position: 4 },
+        team: { id: 't', name: 'Core', key: 'CORE' },
+        labels: [],
+      };
+
+      expect(normalizeLinearIssues([linear])[0]).toMatchObject({
+        tracker: 'linear', key: 'ENG-1', type: null, stateCategory: 'canceled', estimate: 2, startedAt: '2024-01-02T00:00:00.000Z', doneAt: null,
+      });
+    });
+  });
+});
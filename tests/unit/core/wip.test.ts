@@ -0,0 +1,58 @@
+// ============================================
+// Aging WIP Tests
+// ============================================
+
+import { describe, it, expect } from 'vitest';
+import { calculateAgingWip, getCycleTimePercentiles } from '../../../src/core/wip';
+import { WorkItem } from '../../../src/types';
+
+const NOW = new Date('2024-03-01T00:00:00Z');
+
+const item = (key: string, startedAt: string): WorkItem => ({
+  key,
+  title: `Title of ${key}`,
+  status: 'In Progress',
+  assignee: null,
+  startedAt,
+});
+
+describe('Aging WIP', () => {
+  // 20 completed issues taking 1 to 20 days
+  const cycleTimes = Array.from({ length: 20 }, (_, i) => i + 1);
+
+  it('should summarize cycle time percentiles', () => {
+    expect(getCycleTimePercentiles(cycleTimes)).toEqual({ p50Days: 10, p85Days: 17, p95Days: 19, count: 20 });
+    expect(getCycleTimePercentiles([])).toBeNull();
+  });
+
+  it('should age items and flag those past the 85th percentile', () => {
+    const report = calculateAgingWip(
+      [
+        item('ABC-1', '2024-02-28T12:00:00Z'),
+        item('ABC-2', '2024-02-10T00:00:00Z'),
+        item('ABC-3', '2024-01-01T00:00:00Z'),
+        item('ABC-4', '2024-02-12T00:00:00Z'),
+      ],
+      cycleTimes,
+      { tracker: 'jira', project: 'ABC', now: NOW }
+    );
+
+    expect(report.items.map(i => [i.key, i.ageDays, i.exceeds, i.stuck])).toEqual([
+      ['ABC-3', 60, 'p95', true],
+      ['ABC-2', 20, 'p95', true],
+      ['ABC-4', 18, 'p85', true],
+      ['ABC-1', 1.5, null, false],
+    ]);
+    expect(report.stuck).toBe(3);
+  });
+
+  it('should not flag anything without history', () => {
+    const report = calculateAgingWip([item('ENG-1', '2024-01-01T00:00:00Z')], [], {
+      tracker: 'linear',
+      project: 'Engineering',
+      now: NOW,
+    });
+    expect(report.percentiles).toBeNull();
+    expect(report.items[0]).toMatchObject({ ageDays: 60, exceeds: null, stuck: false });
+  });
+});
@@ -0,0 +1,400 @@
+// ============================================
+// Jira, Linear & Code Review HTTP Client Tests (local stub server)
+// ============================================
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { JiraClient } from '../../../src/integrations/jira/client';
+import { LinearClient } from '../../../src/integrations/linear/client';
+import { GitHubClient } from '../../../src/integrations/github/client';
+import { GitLabClient } from '../../../src/integrations/gitlab/client';
+import { BitbucketClient } from '../../../src/integrations/bitbucket/client';
+import { AzureReposClient } from '../../../src/integrations/azure/client';
+import { AuthenticationError, IntegrationError, RateLimitError } from '../../../src/utils/errors';
+
+interface StubRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+  at: number;
+}
+
+type StubResponse = { status?: number; headers?: Record<string, string>; body?: unknown; delay?: number };
+
+/** Serves the queued responses in order (the last one repeats) and records the requests */
+function createStubServer() {
+  const requests: StubRequest[] = [];
+  let responses: StubResponse[] = [];
+
+  const server: Server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      requests.push({ method: req.method, url: req.url, headers: req.headers, body, at: Date.now() });
+      const response = responses[Math.min(requests.length - 1, responses.length - 1)] ?? {};
+      setTimeout(() => {
+        res.writeHead(response.status ?? 200, { 'Content-Type': 'application/json', ...response.headers });
+        res.end(response.body === undefined ? '' : JSON.stringify(response.body));
+      }, response.delay ?? 0);
+    });
+  });
+
+  return {
+    requests,
+    respond: (...queued: StubResponse[]) => { responses = queued; },
+    start: () => new Promise<string>(resolve => server.listen(0, '127.0.0.1', () =>
+      resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`))),
+    stop: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+describe('HTTP clients', () => {
+  let stub: ReturnType<typeof createStubServer>;
+  let url: string;
+
+  beforeEach(async () => {
+    stub = createStubServer();
+    url = await stub.start();
+  });
+
+  afterEach(async () => {
+    await stub.stop();
+  });
+
+  describe('JiraClient', () => {
+    const jira = (timeout?: number) => new JiraClient({ url: `${url}/`, email: 'me@example.com', token: 'secret', timeout });
+
+    it('should retry after the Retry-After of a rate limit', async () => {
+      stub.respond(
+        { status: 429, headers: { 'Retry-After': '0' } },
+        { body: { key: 'ABC', name: 'Alpha', id: '1' } }
+      );
+
+      await expect(jira().getProject('ABC')).resolves.toEqual({ key: 'ABC', name: 'Alpha', id: '1' });
+      expect(stub.requests).toHaveLength(2);
+      expect(stub.requests[1].url).toBe('/rest/api/3/project/ABC');
+      expect(stub.requests[1].headers.authorization).toBe(`Basic ${Buffer.from('me@example.com:secret').toString('base64')}`);
+    });
+
+    it('should give up right away when the rate limit wait is too long', async () => {
+      stub.respond({ status: 429, headers: { 'Retry-After': '3600' } });
+
+      const error = await jira().getProject('ABC').catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect((error as RateLimitError).retryAfter).toBe(3600);
+      expect(stub.requests).toHaveLength(1);
+    });
+
+    it('should not retry authentication or client errors', async () => {
+      stub.respond({ status: 401 });
+      await expect(jira().getProject('ABC')).rejects.toBeInstanceOf(AuthenticationError);
+      expect(stub.requests).toHaveLength(1);
+
+      stub.respond({ status: 400, body: { errorMessages: ["Field 'sprint' does not exist"] } });
+      const error = await jira().searchIssues('sprint = 1').catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(IntegrationError);
+      expect((error as IntegrationError).statusCode).toBe(400);
+      expect((error as Error).message).toBe("Jira API error: 400 Bad Request - Field 'sprint' does not exist");
+      expect(JSON.parse(stub.requests[1].body)).toMatchObject({ jql: 'sprint = 1', startAt: 0 });
+    });
+
+    it('should time out slow requests and retry them', async () => {
+      stub.respond(
+        { delay: 300, body: {} },
+        { body: { displayName: 'Me', emailAddress: 'me@example.com' } }
+      );
+
+      await expect(jira(50).testConnection()).resolves.toEqual({ success: true, user: 'Me' });
+      expect(stub.requests).toHaveLength(2);
+    });
+  });
+
+  describe('LinearClient', () => {
+    const linear = () => new LinearClient({ apiKey: 'lin_api_test', url });
+    const teams = { data: { teams: { nodes: [{ id: 't1', name: 'Core', key: 'CORE' }] } } };
+
+    it('should retry RATELIMITED errors once the window resets', async () => {
+      stub.respond(
+        {
+          status: 400,
+          headers: { 'X-RateLimit-Requests-Remaining': '0', 'X-RateLimit-Requests-Reset': String(Date.now() + 100) },
+          body: { errors: [{ message: 'Rate limit exceeded', extensions: { code: 'RATELIMITED' } }] },
+        },
+        { body: teams }
+      );
+
+      await expect(linear().getTeams()).resolves.toEqual([{ id: 't1', name: 'Core', key: 'CORE' }]);
+      expect(stub.requests).toHaveLength(2);
+      expect(stub.requests[0].headers.authorization).toBe('lin_api_test');
+    });
+
+    it('should wait for the complexity budget before the next request', async () => {
+      const reset = Date.now() + 300;
+      stub.respond(
+        {
+          headers: {
+            'X-Complexity': '500',
+            'X-RateLimit-Complexity-Remaining': '100',
+            'X-RateLimit-Complexity-Reset': String(reset),
+          },
+          body: teams,
+        },
+        { body: teams }
+      );
+
+      const client = linear();
+      await client.getTeams();
+      await client.getTeams();
+      expect(stub.requests[1].at).toBeGreaterThanOrEqual(reset - 20);
+    });
+
+    it('should surface GraphQL errors without retrying', async () => {
+      stub.respond({ body: { errors: [{ message: 'Cannot query field "foo"' }] } });
+
+      await expect(linear().getTeams()).rejects.toThrow('Linear GraphQL error: Cannot query field "foo"');
+      expect(stub.requests).toHaveLength(1);
+
+      stub.respond({ status: 401, body: { errors: [{ message: 'Authentication required' }] } });
+      await expect(linear().testConnection()).resolves.toMatchObject({ success: false });
+      expect(stub.requests).toHaveLength(2);
+    });
+  });
+
+  describe('GitHubClient', () => {
+    const github = () => new GitHubClient({ token: 'ghp_secret', url });
+
+    it('should fetch pull requests opened in the period with their size, reviews and comments', async () => {
+      stub.respond(
+        {
+          body: [
+            { number: 2, title: 'New', state: 'open', user: { login: 'alice' }, created_at: '2024-02-10T00:00:00Z', closed_at: null, merged_at: null },
+            { number: 1, title: 'Old', state: 'closed', user: { login: 'bob' }, created_at: '2023-12-01T00:00:00Z', closed_at: null, merged_at: null },
+          ],
+        },
+        { body: { number: 2, title: 'New', state: 'open', user: { login: 'alice' }, created_at: '2024-02-10T00:00:00Z', closed_at: null, merged_at: null, additions: 10, deletions: 2, changed_files: 1 } },
+        { body: [{ id: 7, user: { login: 'bob' }, state: 'APPROVED', submitted_at: '2024-02-11T00:00:00Z' }] },
+        { body: [{ id: 8, user: { login: 'carol', type: 'User' }, created_at: '2024-02-10T06:00:00Z' }] }
+      );
+
+      const prs = await github().getPullRequests({ owner: 'acme', repo: 'api' }, { since: new Date('2024-01-01') });
+      expect(prs).toHaveLength(1);
+      expect(prs[0]).toMatchObject({ number: 2, additions: 10, reviews: [{ state: 'APPROVED' }], comments: [{ id: 8 }] });
+      expect(stub.requests.map(request => request.url)).toEqual([
+        '/repos/acme/api/pulls?state=all&sort=created&direction=desc&per_page=100&page=1',
+        '/repos/acme/api/pulls/2',
+        '/repos/acme/api/pulls/2/reviews?per_page=100&page=1',
+        '/repos/acme/api/issues/2/comments?per_page=100&page=1',
+      ]);
+      expect(stub.requests[0].headers.authorization).toBe('Bearer ghp_secret');
+    });
+
+    it('should retry a 403 that exhausted the rate limit, but not a forbidden one', async () => {
+      stub.respond(
+        { status: 403, headers: { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': String(Math.floor(Date.now() / 1000)) } },
+        { body: { login: 'alice' } }
+      );
+      await expect(github().testConnection()).resolves.toEqual({ success: true, user: 'alice' });
+      expect(stub.requests).toHaveLength(2);
+
+      stub.respond({ status: 403, body: { message: 'Resource not accessible by integration' } });
+      await expect(github().getPullRequest({ owner: 'acme', repo: 'api' }, 1)).rejects.toBeInstanceOf(AuthenticationError);
+      expect(stub.requests).toHaveLength(3);
+    });
+  });
+
+  describe('GitLabClient', () => {
+    const gitlab = () => new GitLabClient({ token: 'glpat-secret', url: `${url}/` });
+
+    it('should fetch merge requests with their notes, approvers, pipelines and size', async () => {
+      stub.respond(
+        {
+          body: [
+            { id: 11, iid: 4, title: 'Add cache', state: 'merged', author: { id: 1, username: 'alice' }, created_at: '2024-02-10T00:00:00Z', merged_at: '2024-02-11T00:00:00Z', closed_at: null },
+            { id: 12, iid: 3, title: 'WIP', state: 'opened', draft: true, author: { id: 1, username: 'alice' }, created_at: '2024-02-09T00:00:00Z', merged_at: null, closed_at: null },
+          ],
+        },
+        {
+          body: [
+            { id: 'a', notes: [{ id: 2, type: null, body: 'approved this merge request', author: { id: 2, username: 'bob' }, created_at: '2024-02-10T08:00:00Z', system: true }] },
+            { id: 'b', notes: [{ id: 1, type: 'DiffNote', body: 'Why?', author: { id: 2, username: 'bob' }, created_at: '2024-02-10T02:00:00Z', system: false }] },
+          ],
+        },
+        { body: { approved_by: [{ user: { id: 2, username: 'bob' } }] } },
+        { body: [{ id: 100, status: 'failed' }, { id: 101, status: 'success' }] },
+        { body: [{ old_path: 'a.ts', new_path: 'a.ts', diff: '@@ -1,2 +1,3 @@\n-old\n+new\n+more\n same\n' }] }
+      );
+
+      const mrs = await gitlab().fetchPullRequests('platform/backend/api', { since: new Date('2024-01-01T00:00:00Z') });
+      expect(mrs).toHaveLength(1);
+      expect(mrs[0]).toMatchObject({ iid: 4, approvedBy: ['bob'], additions: 2, deletions: 1, changedFiles: 1 });
+      expect(mrs[0].notes.map(note => note.id)).toEqual([1, 2]);
+      expect(mrs[0].pipelines).toHaveLength(2);
+
+      const project = '/api/v4/projects/platform%2Fbackend%2Fapi/merge_requests';
+      expect(stub.requests.map(request => request.url)).toEqual([
+        `${project}?state=all&order_by=created_at&sort=desc&created_after=2024-01-01T00%3A00%3A00.000Z&per_page=100&page=1`,
+        `${project}/4/discussions?per_page=100&page=1`,
+        `${project}/4/approvals`,
+        `${project}/4/pipelines?per_page=100&page=1`,
+        `${project}/4/diffs?per_page=100&page=1`,
+      ]);
+      expect(stub.requests[0].headers['private-token']).toBe('glpat-secret');
+    });
+
+    it('should retry after the RateLimit-Reset of a rate limit', async () => {
+      stub.respond(
+        { status: 429, headers: { 'RateLimit-Reset': String(Math.floor(Date.now() / 1000)) } },
+        { body: { id: 1, username: 'alice' } }
+      );
+
+      await expect(gitlab().testConnection()).resolves.toEqual({ success: true, user: 'alice' });
+      expect(stub.requests).toHaveLength(2);
+      expect(stub.requests[1].url).toBe('/api/v4/user');
+    });
+
+    it('should retry a server error as such while requests are left', async () => {
+      const reset = String(Math.floor(Date.now() / 1000) + 3600);
+      stub.respond(
+        { status: 502, headers: { 'RateLimit-Remaining': '1999', 'RateLimit-Reset': reset } },
+        { body: { id: 1, username: 'alice' } }
+      );
+
+      await expect(gitlab().testConnection()).resolves.toEqual({ success: true, user: 'alice' });
+      expect(stub.requests).toHaveLength(2);
+    });
+
+    it('should not retry a rejected token', async () => {
+      stub.respond({ status: 401, body: { message: '401 Unauthorized' } });
+
+      await expect(gitlab().getApprovers('acme/api', 1)).rejects.toBeInstanceOf(AuthenticationError);
+      expect(stub.requests).toHaveLength(1);
+    });
+  });
+
+  describe('BitbucketClient', () => {
+    const bitbucket = (username?: string) => new BitbucketClient({ username, token: 'app-password', url });
+
+    it('should follow next links until pull requests predate the period and fetch activity and diffstat', async () => {
+      const pulls = '/repositories/acme/api/pullrequests';
+      stub.respond(
+        {
+          body: {
+            values: [
+              { id: 7, title: 'Add cache', state: 'MERGED', author: { display_name: 'Alice' }, created_on: '2024-02-10T00:00:00Z', updated_on: '2024-02-11T00:00:00Z' },
+              { id: 6, title: 'WIP', state: 'OPEN', draft: true, author: { display_name: 'Alice' }, created_on: '2024-02-09T00:00:00Z', updated_on: '2024-02-09T00:00:00Z' },
+            ],
+            next: `${url}${pulls}?page=2`,
+          },
+        },
+        {
+          body: {
+            values: [
+              { id: 5, title: 'Old', state: 'MERGED', author: { display_name: 'Alice' }, created_on: '2023-12-01T00:00:00Z', updated_on: '2023-12-02T00:00:00Z' },
+            ],
+            next: `${url}${pulls}?page=3`,
+          },
+        },
+        {
+          body: {
+            values: [
+              { update: { state: 'MERGED', date: '2024-02-11T00:00:00Z', author: { display_name: 'Alice' } } },
+              { approval: { date: '2024-02-10T08:00:00Z', user: { display_name: 'Bob' } } },
+            ],
+          },
+        },
+        { body: { values: [{ lines_added: 3, lines_removed: 1, status: 'modified' }, { lines_added: 2, lines_removed: 0, status: 'added' }] } }
+      );
+
+      const prs = await bitbucket('alice').fetchPullRequests('acme/api', { since: new Date('2024-01-01T00:00:00Z') });
+      expect(prs).toHaveLength(1);
+      expect(prs[0]).toMatchObject({ id: 7, additions: 5, deletions: 1, changedFiles: 2 });
+      expect(prs[0].activity.map(entry => Object.keys(entry)[0])).toEqual(['approval', 'update']);
+
+      expect(stub.requests.map(request => request.url)).toEqual([
+        `${pulls}?state=OPEN&state=MERGED&state=DECLINED&state=SUPERSEDED&sort=-created_on&pagelen=50`,
+        `${pulls}?page=2`,
+        `${pulls}/7/activity?pagelen=50`,
+        `${pulls}/7/diffstat?pagelen=100`,
+      ]);
+      expect(stub.requests[0].headers.authorization).toBe(`Basic ${Buffer.from('alice:app-password').toString('base64')}`);
+    });
+
+    it('should test the connection with an access token', async () => {
+      stub.respond({ body: { display_name: 'Acme CI' } });
+
+      await expect(bitbucket().testConnection()).resolves.toEqual({ success: true, user: 'Acme CI' });
+      expect(stub.requests[0].url).toBe('/user');
+      expect(stub.requests[0].headers.authorization).toBe('Bearer app-password');
+    });
+
+    it('should reject a repository that is not workspace/repo', async () => {
+      await expect(bitbucket().fetchPullRequests('api')).rejects.toBeInstanceOf(IntegrationError);
+      expect(stub.requests).toHaveLength(0);
+    });
+  });
+
+  describe('AzureReposClient', () => {
+    const azure = () => new AzureReposClient({ organization: 'acme', token: 'pat', url: `${url}/` });
+
+    it('should fetch pull requests with their threads and line counts', async () => {
+      stub.respond(
+        {
+          body: {
+            value: [
+              { pullRequestId: 12, title: 'Add cache', status: 'completed', createdBy: { id: '1', displayName: 'Alice', uniqueName: 'alice@acme.com' }, creationDate: '2024-02-10T00:00:00Z', closedDate: '2024-02-11T00:00:00Z', reviewers: [] },
+              { pullRequestId: 11, title: 'WIP', status: 'active', isDraft: true, createdBy: { id: '1', displayName: 'Alice', uniqueName: 'alice@acme.com' }, creationDate: '2024-02-09T00:00:00Z', reviewers: [] },
+            ],
+          },
+        },
+        { body: { value: [{ id: 1, publishedDate: '2024-02-10T02:00:00Z', comments: [] }] } },
+        { body: { value: [{ id: 1, sourceRefCommit: { commitId: 'a1' }, commonRefCommit: { commitId: 'b1' } }, { id: 2, sourceRefCommit: { commitId: 'a2' }, commonRefCommit: { commitId: 'b2' } }] } },
+        { body: { changeEntries: [{ changeType: 'edit', item: { path: '/src/a.ts' } }, { changeType: 'edit', item: { path: '/src', isFolder: true } }] } },
+        { body: [{ path: '/src/a.ts', lineDiffBlocks: [{ changeType: 'edit', originalLinesCount: 2, modifiedLinesCount: 3 }, { changeType: 'add', originalLinesCount: 0, modifiedLinesCount: 4 }] }] }
+      );
+
+      const prs = await azure().fetchPullRequests('Platform/api', {
+        since: new Date('2024-01-01T00:00:00Z'),
+        until: new Date('2024-03-01T00:00:00Z'),
+      });
+      expect(prs).toHaveLength(1);
+      expect(prs[0]).toMatchObject({ pullRequestId: 12, additions: 7, deletions: 2, changedFiles: 1 });
+      expect(prs[0].threads).toHaveLength(1);
+
+      const repository = '/acme/Platform/_apis/git/repositories/api';
+      expect(stub.requests.map(request => request.url)).toEqual([
+        `${repository}/pullrequests?searchCriteria.status=all&searchCriteria.queryTimeRangeType=created` +
+          '&searchCriteria.minTime=2024-01-01T00%3A00%3A00.000Z&searchCriteria.maxTime=2024-03-01T00%3A00%3A00.000Z' +
+          '&$top=100&$skip=0&api-version=7.1',
+        `${repository}/pullRequests/12/threads?api-version=7.1`,
+        `${repository}/pullRequests/12/iterations?api-version=7.1`,
+        `${repository}/pullRequests/12/iterations/2/changes?$top=100&$skip=0&api-version=7.1`,
+        `${repository}/FileDiffs?api-version=7.1`,
+      ]);
+      expect(JSON.parse(stub.requests[4].body)).toEqual({
+        baseVersionCommit: 'b2',
+        targetVersionCommit: 'a2',
+        fileDiffParams: [{ path: '/src/a.ts', originalPath: '/src/a.ts' }],
+      });
+      expect(stub.requests[0].headers.authorization).toBe(`Basic ${Buffer.from(':pat').toString('base64')}`);
+    });
+
+    it('should test the connection with the organization', async () => {
+      stub.respond({ body: { authenticatedUser: { providerDisplayName: 'Alice' } } });
+
+      await expect(azure().testConnection()).resolves.toEqual({ success: true, user: 'Alice' });
+      expect(stub.requests[0].url).toBe('/acme/_apis/connectionData');
+    });
+
+    it('should not retry a rejected token', async () => {
+      stub.respond({ status: 401 });
+
+      await expect(azure().getThreads({ project: 'Platform', repo: 'api' }, 1)).rejects.toBeInstanceOf(AuthenticationError);
+      expect(stub.requests).toHaveLength(1);
+    });
+  });
+});
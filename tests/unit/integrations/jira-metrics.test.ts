@@ -0,0 +1,268 @@
+// ============================================
+// Jira Metrics Tests
+// ============================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  getStatusCategory,
+  suggestStatusMapping,
+  mergeStatusMapping,
+  calculateSprintMetrics,
+  calculateJiraMetrics,
+  calculateFlowMetrics,
+  calculateCumulativeFlow,
+  getWorkItems,
+  getCycleTimes,
+} from '../../../src/integrations/jira/metrics';
+import {
+  DEFAULT_STATUS_MAPPING,
+  DEFAULT_STORY_POINTS_FIELD,
+  JiraIssue,
+  JiraProjectStatus,
+  JiraSprint,
+} from '../../../src/integrations/jira/types';
+
+const status = (name: string, categoryKey: string): JiraProjectStatus => ({
+  id: name,
+  name,
+  categoryKey,
+  categoryName: categoryKey,
+  issueTypes: ['Story'],
+});
+
+const sprint = (id: number, startDate: string, endDate: string, state: JiraSprint['state'] = 'closed'): JiraSprint => ({
+  id, name: `Sprint ${id}`, state, startDate, endDate, completeDate: state === 'closed' ? endDate : undefined,
+});
+
+const issue = (
+  key: string,
+  points: number,
+  options: { created?: string; resolved?: string; addedToSprint?: { at: string; sprint: number } } = {}
+): JiraIssue => ({
+  id: key,
+  key,
+  fields: {
+    summary: key,
+    issuetype: { id: '1', name: 'Story', subtask: false },
+    status: options.resolved
+      ? { id: '3', name: 'Done', statusCategory: { id: 3, key: 'done', name: 'Done' } }
+      : { id: '2', name: 'In Progress', statusCategory: { id: 4, key: 'indeterminate', name: 'In Progress' } },
+    created: options.created ?? '2024-01-01T00:00:00.000Z',
+    updated: '2024-01-01T00:00:00.000Z',
+    resolutiondate: options.resolved,
+    [DEFAULT_STORY_POINTS_FIELD]: points,
+  },
+  changelog: {
+    histories: options.addedToSprint ? [{
+      id: '1',
+      created: options.addedToSprint.at,
+      author: { accountId: 'a', displayName: 'Alice', active: true },
+      items: [{ field: 'Sprint', from: '', to: String(options.addedToSprint.sprint), fromString: '', toString: `Sprint ${options.addedToSprint.sprint}` }],
+    }] : [],
+  },
+});
+
+describe('Jira Metrics', () => {
+  describe('status mapping', () => {
+    it('should find the category of a status regardless of case', () => {
+      expect(getStatusCategory('in progress', DEFAULT_STATUS_MAPPING)).toBe('inProgress');
+      expect(getStatusCategory('Ready for QA', DEFAULT_STATUS_MAPPING)).toBeNull();
+    });
+
+    it('should suggest categories from Jira categories and waiting names', () => {
+      const mapping = suggestStatusMapping([
+        status('Backlog', 'new'),
+        status('On Hold', 'new'),
+        status('Ready for QA', 'indeterminate'),
+        status('Waiting on Customer', 'indeterminate'),
+        status('Shipped', 'done'),
+      ]);
+      expect(mapping).toEqual({
+        todo: ['Backlog'],
+        inProgress: ['Ready for QA'],
+        blocked: ['On Hold', 'Waiting on Customer'],
+        done: ['Shipped'],
+      });
+    });
+
+    it('should move overridden statuses and keep the rest', () => {
+      const merged = mergeStatusMapping(DEFAULT_STATUS_MAPPING, { done: ['in review'], inProgress: ['Ready for QA'] });
+      expect(getStatusCategory('In Review', merged)).toBe('done');
+      expect(getStatusCategory('Ready for QA', merged)).toBe('inProgress');
+      expect(merged.blocked).toEqual(DEFAULT_STATUS_MAPPING.blocked);
+    });
+  });
+
+  describe('sprints', () => {
+    const first = sprint(1, '2024-01-01T09:00:00.000Z', '2024-01-15T09:00:00.000Z');
+    const second = sprint(2, '2024-01-15T09:00:00.000Z', '2024-01-29T09:00:00.000Z');
+    const active = sprint(3, '2024-01-29T09:00:00.000Z', '2024-02-12T09:00:00.000Z', 'active');
+
+    // ABC-2 is carried over from sprint 1 and completed in sprint 2; ABC-3 is added mid-sprint
+    const carried = issue('ABC-2', 5, { resolved: '2024-01-20T00:00:00.000Z' });
+    const sprints = [
+      { sprint: second, issues: [carried, issue('ABC-4', 8, { resolved: '2024-01-25T00:00:00.000Z' })] },
+      {
+        sprint: first,
+        issues: [
+          issue('ABC-1', 3, { resolved: '2024-01-10T00:00:00.000Z' }),
+          carried,
+          issue('ABC-3', 2, { resolved: '2024-01-12T00:00:00.000Z', addedToSprint: { at: '2024-01-05T00:00:00.000Z', sprint: 1 } }),
+        ],
+      },
+      { sprint: active, issues: [issue('ABC-5', 3, { created: '2024-02-01T00:00:00.000Z' })] },
+    ];
+
+    it('should compare committed, added and completed work per sprint', () => {
+      const metrics = calculateSprintMetrics(sprints)!;
+      expect(metrics.sprints.map(s => [s.name, s.committed, s.added, s.completed, s.carriedOver, s.completedPoints])).toEqual([
+        ['Sprint 1', 2, 1, 2, 1, 5],
+        ['Sprint 2', 2, 0, 2, 0, 13],
+        ['Sprint 3', 0, 1, 0, 0, 0],
+      ]);
+      expect(metrics).toMatchObject({
+        avgVelocity: 9,
+        avgCompletionRate: 84,
+        scopeAddedRate: 33,
+        carryOverRate: 20,
+        velocityTrend: 'up',
+      });
+    });
+
+    it('should derive velocity from closed sprints only', () => {
+      const metrics = calculateJiraMetrics([], { sprints });
+      expect(metrics.velocity).toMatchObject({ storyPoints: 9, per: 'sprint', issuesPerWeek: 1, sprints: 2 });
+      expect(calculateJiraMetrics([]).velocity).toBeNull();
+      expect(calculateSprintMetrics([])).toBeNull();
+    });
+  });
+
+  describe('estimates', () => {
+    const started = (key: string, points: number, start: string, done: string, assignee = 'Alice'): JiraIssue => {
+      const base = issue(key, points, { resolved: done });
+      base.fields.assignee = { accountId: assignee, displayName: assignee, active: true };
+      base.changelog!.histories.push({
+        id: '2',
+        created: start,
+        author: { accountId: 'a', displayName: 'Alice', active: true },
+        items: [{ field: 'status', fromString: 'To Do', toString: 'In Progress' }],
+      });
+      return base;
+    };
+    const issues = [
+      started('ABC-1', 1, '2024-01-01T00:00:00.000Z', '2024-01-02T00:00:00.000Z'),
+      started('ABC-2', 3, '2024-01-01T00:00:00.000Z', '2024-01-04T00:00:00.000Z', 'Bob'),
+      started('ABC-3', 5, '2024-01-01T00:00:00.000Z', '2024-01-06T12:00:00.000Z'),
+      issue('ABC-4', 0),
+    ];
+
+    it('should relate estimates to cycle time', () => {
+      const { estimateAccuracy } = calculateJiraMetrics(issues, { since: '2024-01-01', until: '2024-01-15' });
+      expect(estimateAccuracy).toMatchObject({
+        issuesWithEstimates: 3,
+        coverage: 75,
+        totalEstimated: 9,
+        totalCompleted: 9,
+        cycleDaysByEstimate: { 1: 1, 3: 3, 5: 5.5 },
+      });
+      expect(estimateAccuracy!.cycleTimeCorrelation).toBeGreaterThan(0.99);
+    });
+
+    it('should measure velocity per week and per assignee without sprints', () => {
+      const { velocity } = calculateJiraMetrics(issues, { since: '2024-01-01', until: '2024-01-15' });
+      expect(velocity).toEqual({
+        storyPoints: 4.5,
+        per: 'week',
+        issuesPerWeek: 1.5,
+        sprints: 0,
+        totalPoints: 9,
+        byAssignee: { Alice: 6, Bob: 3 },
+      });
+    });
+
+    it('should read estimates from the configured field', () => {
+      const metrics = calculateJiraMetrics(issues, { storyPointsField: 'customfield_10002' });
+      expect(metrics.estimateAccuracy).toBeNull();
+      expect(metrics.velocity).toBeNull();
+    });
+  });
+
+  describe('flow', () => {
+    const withTransitions = (key: string, transitions: Array<[string, string, string]>, current = 'Done'): JiraIssue => {
+      const base = issue(key, 0, { resolved: current === 'Done' ? transitions[transitions.length - 1][0] : undefined });
+      base.fields.status = { ...base.fields.status, name: current };
+      base.changelog!.histories = transitions.map(([at, from, to], i) => ({
+        id: String(i),
+        created: at,
+        author: { accountId: 'a', displayName: 'Alice', active: true },
+        items: [{ field: 'status', fromString: from, toString: to }],
+      }));
+      return base;
+    };
+
+    const issues = [
+      // 4h active, 6h in review, 2h blocked, 8h back in progress
+      withTransitions('ABC-1', [
+        ['2024-01-02T00:00:00.000Z', 'To Do', 'In Progress'],
+        ['2024-01-02T04:00:00.000Z', 'In Progress', 'Ready for QA'],
+        ['2024-01-02T10:00:00.000Z', 'Ready for QA', 'Blocked'],
+        ['2024-01-02T12:00:00.000Z', 'Blocked', 'In Progress'],
+        ['2024-01-02T20:00:00.000Z', 'In Progress', 'Done'],
+      ]),
+      withTransitions('ABC-2', [
+        ['2024-01-03T00:00:00.000Z', 'To Do', 'In Progress'],
+        ['2024-01-03T10:00:00.000Z', 'In Progress', 'Done'],
+      ]),
+      // Never started, or not done yet: left out
+      withTransitions('ABC-3', [['2024-01-03T00:00:00.000Z', 'To Do', 'Done']]),
+      withTransitions('ABC-4', [['2024-01-03T00:00:00.000Z', 'To Do', 'In Progress']], 'In Progress'),
+    ];
+
+    it('should split time in status from start of work to done', () => {
+      const flow = calculateFlowMetrics(issues)!;
+      expect(flow).toMatchObject({
+        issuesAnalyzed: 2,
+        avgEfficiency: 80,
+        medianEfficiency: 80,
+        activeHours: 22,
+        waitingHours: 8,
+      });
+      expect(flow.byStatus.map(s => [s.status, s.category, s.issues, s.totalHours, s.medianHours, s.share])).toEqual([
+        ['In Progress', 'inProgress', 2, 22, 11, 73],
+        ['Ready for QA', null, 1, 6, 6, 20],
+        ['Blocked', 'blocked', 1, 2, 2, 7],
+      ]);
+    });
+
+    it('should list started, unfinished issues as work items', () => {
+      const backToTodo = withTransitions('ABC-5', [
+        ['2024-01-03T00:00:00.000Z', 'To Do', 'In Progress'],
+        ['2024-01-04T00:00:00.000Z', 'In Progress', 'To Do'],
+      ], 'To Do');
+      const blocked = withTransitions('ABC-6', [
+        ['2024-01-05T00:00:00.000Z', 'To Do', 'In Progress'],
+        ['2024-01-06T00:00:00.000Z', 'In Progress', 'Blocked'],
+      ], 'Blocked');
+
+      expect(getWorkItems([...issues, backToTodo, blocked]).map(i => [i.key, i.status, i.startedAt])).toEqual([
+        ['ABC-4', 'In Progress', '2024-01-03T00:00:00.000Z'],
+        ['ABC-6', 'Blocked', '2024-01-05T00:00:00.000Z'],
+      ]);
+      expect(getCycleTimes(issues).map(days => Math.round(days * 24))).toEqual([20, 10]);
+    });
+
+    it('should count issues per status for a cumulative flow diagram', () => {
+      const cfd = calculateCumulativeFlow(issues, DEFAULT_STATUS_MAPPING, { project: 'ABC', since: '2024-01-01', until: '2024-01-05' });
+      expect(cfd.states).toEqual(['To Do', 'In Progress', 'Blocked', 'Ready for QA', 'Done']);
+      expect(cfd.days).toHaveLength(5);
+      expect(cfd.days[1].counts).toMatchObject({ 'To Do': 3, Done: 1 });
+      expect(cfd.days[4].counts).toEqual({ 'To Do': 0, 'In Progress': 1, Blocked: 0, 'Ready for QA': 0, Done: 3 });
+    });
+
+    it('should only be calculated on request', () => {
+      expect(calculateJiraMetrics(issues).flow).toBeNull();
+      expect(calculateJiraMetrics(issues, { flow: true }).flow?.issuesAnalyzed).toBe(2);
+      expect(calculateFlowMetrics([])).toBeNull();
+    });
+  });
+});
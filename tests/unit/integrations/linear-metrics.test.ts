@@ -0,0 +1,168 @@
+// ============================================
+// Linear Metrics Tests
+// ============================================
+
+import { describe, it, expect } from 'vitest';
+import { addDays } from 'date-fns';
+import { calculateCycleScope, calculateLinearMetrics, calculateRoadmapMetrics } from '../../../src/integrations/linear/metrics';
+import { LinearCycle, LinearCycleChange, LinearIssue, LinearProject, LinearProjectIssues } from '../../../src/integrations/linear/types';
+
+const NOW = new Date(2024, 2, 1, 12, 0);
+
+const daysAgo = (days: number) => addDays(NOW, -days).toISOString();
+
+const issue = (
+  identifier: string,
+  options: { created?: number; completed?: number; canceled?: number; estimate?: number; milestone?: string } = {}
+): LinearIssue => ({
+  id: identifier,
+  identifier,
+  title: identifier,
+  priority: 0,
+  estimate: options.estimate,
+  createdAt: daysAgo(options.created ?? 90),
+  updatedAt: daysAgo(0),
+  completedAt: options.completed !== undefined ? daysAgo(options.completed) : undefined,
+  canceledAt: options.canceled !== undefined ? daysAgo(options.canceled) : undefined,
+  state: options.completed !== undefined
+    ? { id: 'done', name: 'Done', type: 'completed', position: 2 }
+    : options.canceled !== undefined
+      ? { id: 'canceled', name: 'Canceled', type: 'canceled', position: 3 }
+      : { id: 'todo', name: 'Todo', type: 'unstarted', position: 0 },
+  team: { id: 't', name: 'Core', key: 'CORE' },
+  projectMilestone: options.milestone ? { id: options.milestone, name: options.milestone } : undefined,
+  labels: [],
+});
+
+const project = (id: string, options: Partial<LinearProject> = {}): LinearProject => ({
+  id,
+  name: id,
+  state: 'started',
+  progress: 0,
+  startDate: '2023-12-01',
+  createdAt: '2023-12-01T00:00:00.000Z',
+  milestones: [],
+  ...options,
+});
+
+/** One issue completed every week for the last 12 weeks, plus `open` open issues */
+const steadyIssues = (prefix: string, open: number): LinearIssue[] => [
+  ...Array.from({ length: 12 }, (_, i) => issue(`${prefix}-${i}`, { completed: i * 7 + 1, estimate: 2 })),
+  ...Array.from({ length: open }, (_, i) => issue(`${prefix}-open-${i}`, { estimate: 3 })),
+];
+
+describe('Linear Metrics', () => {
+  describe('roadmap', () => {
+    const projects: LinearProjectIssues[] = [
+      { project: project('Search', { targetDate: '2024-12-31' }), issues: steadyIssues('S', 4) },
+      {
+        project: project('Billing', {
+          targetDate: '2024-03-08',
+          milestones: [{ id: 'beta', name: 'Beta', targetDate: '2024-02-15' }, { id: 'ga', name: 'GA', targetDate: '2024-03-08' }],
+        }),
+        issues: [...steadyIssues('B', 30), issue('B-beta', { milestone: 'beta' }), issue('B-gone', { canceled: 3 })],
+      },
+      { project: project('Docs'), issues: steadyIssues('D', 2) },
+      { project: project('Dropped', { state: 'canceled' }), issues: [] },
+      { project: project('Old', { state: 'completed', completedAt: '2023-12-20T00:00:00.000Z' }), issues: [] },
+    ];
+
+    it('should measure progress and forecast completion against the target date', () => {
+      const roadmap = calculateRoadmapMetrics(projects, null, { since: '2024-01-01', now: NOW });
+
+      expect(roadmap.projects.map(p => [p.name, p.health])).toEqual([
+        ['Billing', 'off_track'],
+        ['Search', 'on_track'],
+        ['Docs', 'no_target'],
+      ]);
+      const search = roadmap.projects[1];
+      expect(search).toMatchObject({ totalIssues: 16, completedIssues: 12, completedPoints: 24, remainingPoints: 12, progress: 75 });
+      expect(search.forecast!.p50 <= search.forecast!.p85).toBe(true);
+      expect(roadmap.initiatives).toBeNull();
+    });
+
+    it('should list milestones past their date with open issues', () => {
+      const billing = calculateRoadmapMetrics(projects, null, { now: NOW }).projects[0];
+      expect(billing.slippedMilestones).toEqual([{ name: 'Beta', targetDate: '2024-02-15', openIssues: 1 }]);
+      expect(billing.totalIssues).toBe(43);
+    });
+
+    it('should track scope per week, dropping canceled issues', () => {
+      const billing = calculateRoadmapMetrics(projects, null, { now: NOW }).projects[0];
+      const [first] = billing.scopeByWeek;
+      const last = billing.scopeByWeek[billing.scopeByWeek.length - 1];
+
+      expect(first).toMatchObject({ issues: 44, completedIssues: 0 });
+      expect(last).toMatchObject({ issues: 43, completedIssues: 12, completedPoints: 24 });
+    });
+
+    it('should give initiatives the worst health of their projects', () => {
+      const initiatives = [
+        { id: 'i1', name: 'Growth', targetDate: '2024-06-30', projectIds: ['Search', 'Billing'] },
+        { id: 'i2', name: 'Elsewhere', projectIds: ['other-team'] },
+      ];
+      const roadmap = calculateRoadmapMetrics(projects, initiatives, { now: NOW });
+
+      expect(roadmap.initiatives).toEqual([{
+        id: 'i1', name: 'Growth', status: null, targetDate: '2024-06-30',
+        projects: 2, totalIssues: 59, completedIssues: 24, progress: 41, health: 'off_track',
+      }]);
+    });
+
+    it('should only be calculated on request', () => {
+      expect(calculateLinearMetrics([], {}).roadmap).toBeNull();
+      expect(calculateLinearMetrics([], { projects: [] }).roadmap).toEqual({ projects: [], initiatives: null });
+    });
+  });
+
+  describe('cycle scope', () => {
+    const c1: LinearCycle = { id: 'c1', number: 1, startsAt: '2024-01-01T00:00:00.000Z', endsAt: '2024-01-15T00:00:00.000Z', completedAt: '2024-01-15T00:00:00.000Z' };
+    const c2: LinearCycle = { id: 'c2', number: 2, startsAt: '2024-01-15T00:00:00.000Z', endsAt: '2024-01-29T00:00:00.000Z', completedAt: '2024-01-29T00:00:00.000Z' };
+    const move = (createdAt: string, fromCycleId: string | null, toCycleId: string | null): LinearCycleChange =>
+      ({ createdAt, fromCycleId, toCycleId });
+    const cycleIssue = (identifier: string, createdAt: string, cycleHistory: LinearCycleChange[], completedAt?: string, cycle?: LinearCycle) => ({
+      ...issue(identifier, { estimate: 1 }),
+      createdAt,
+      completedAt,
+      state: completedAt
+        ? { id: 'done', name: 'Done', type: 'completed' as const, position: 2 }
+        : { id: 'todo', name: 'Todo', type: 'unstarted' as const, position: 0 },
+      cycle,
+      cycleHistory,
+    });
+
+    const done = cycleIssue('A', '2023-12-20T00:00:00.000Z', [move('2023-12-28T00:00:00.000Z', null, 'c1')], '2024-01-10T00:00:00.000Z');
+    const rolled = cycleIssue('B', '2023-12-20T00:00:00.000Z', [
+      move('2023-12-28T00:00:00.000Z', null, 'c1'),
+      move('2024-01-15T00:10:00.000Z', 'c1', 'c2'),
+    ], undefined, c2);
+    const added = cycleIssue('C', '2024-01-05T00:00:00.000Z', [move('2024-01-05T00:00:00.000Z', null, 'c1')], '2024-01-12T00:00:00.000Z');
+    const dropped = cycleIssue('D', '2023-12-20T00:00:00.000Z', [
+      move('2023-12-28T00:00:00.000Z', null, 'c1'),
+      move('2024-01-08T00:00:00.000Z', 'c1', null),
+    ]);
+    const planned = cycleIssue('E', '2023-12-20T00:00:00.000Z', [], undefined, c2);
+
+    it('should split each cycle into initial, added, removed and carried over scope', () => {
+      const scope = calculateCycleScope(
+        [{ cycle: c2, issues: [rolled, planned] }, { cycle: c1, issues: [done, rolled, added, dropped] }],
+        { now: NOW }
+      )!;
+
+      expect(scope.cycles.map(c => [c.name, c.initial, c.added, c.removed, c.carriedOver, c.completed, c.completionRate])).toEqual([
+        ['Cycle 1', 3, 1, 1, 0, 2, 33],
+        ['Cycle 2', 2, 0, 0, 1, 0, 0],
+      ]);
+      expect(scope).toMatchObject({ avgCompletionRate: 17, scopeAddedRate: 20, scopeRemovedRate: 17, carryOverRate: 17 });
+    });
+
+    it('should end a running cycle now and skip cycles not started yet', () => {
+      const running = { ...c2, completedAt: undefined };
+      const scope = calculateCycleScope([{ cycle: running, issues: [rolled, planned] }], { now: new Date('2024-01-20T00:00:00.000Z') })!;
+
+      expect(scope.cycles[0]).toMatchObject({ completedAt: null, initial: 2, removed: 0 });
+      expect(scope.avgCompletionRate).toBe(0);
+      expect(calculateCycleScope([{ cycle: running, issues: [] }], { now: new Date('2024-01-01T00:00:00.000Z') })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,73 @@
+// ============================================
+// Date Utilities Tests
+// ============================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  parsePeriod,
+  getPreviousPeriod,
+  periodToGitRange,
+} from '../../../src/utils/date-utils';
+
+const NOW = new Date(2024, 0, 29, 12, 0, 0);
+
+describe('Date Utilities', () => {
+  describe('parsePeriod', () => {
+    it('should parse "last N units" relative to now', () => {
+      const period = parsePeriod('last 2 weeks', NOW);
+      expect(period.since).toEqual(new Date(2024, 0, 15, 12, 0, 0));
+      expect(period.until).toEqual(NOW);
+    });
+
+    it('should treat "last unit" as one unit', () => {
+      const period = parsePeriod('last month', NOW);
+      expect(period.since).toEqual(new Date(2023, 11, 29, 12, 0, 0));
+    });
+
+    it('should parse explicit START..END ranges', () => {
+      const period = parsePeriod('2024-01-01..2024-01-15', NOW);
+      expect(period.since).toEqual(new Date(2024, 0, 1));
+      expect(period.until).toEqual(new Date(2024, 0, 15));
+    });
+
+    it('should default an open-ended range to now', () => {
+      const period = parsePeriod('2024-01-01..', NOW);
+      expect(period.until).toEqual(NOW);
+    });
+
+    it('should throw for unparseable specs', () => {
+      expect(() => parsePeriod('whenever', NOW)).toThrow('Invalid period');
+      expect(() => parsePeriod('soon..later', NOW)).toThrow('Invalid period');
+    });
+  });
+
+  describe('getPreviousPeriod', () => {
+    const current = { since: new Date(2024, 0, 15), until: new Date(2024, 0, 29) };
+
+    it('should default to the equal-length window before current', () => {
+      const previous = getPreviousPeriod(current);
+      expect(previous.since).toEqual(new Date(2024, 0, 1));
+      expect(previous.until).toEqual(current.since);
+    });
+
+    it('should parse "N units before" relative to the current start', () => {
+      const previous = getPreviousPeriod(current, '1 month before');
+      expect(previous.since).toEqual(new Date(2023, 11, 15));
+      expect(previous.until).toEqual(current.since);
+    });
+
+    it('should accept explicit ranges', () => {
+      const previous = getPreviousPeriod(current, '2023-12-01..2023-12-15');
+      expect(previous.since).toEqual(new Date(2023, 11, 1));
+      expect(previous.until).toEqual(new Date(2023, 11, 15));
+    });
+  });
+
+  describe('periodToGitRange', () => {
+    it('should end one second before the period end', () => {
+      const range = periodToGitRange({ since: new Date(2024, 0, 1), until: new Date(2024, 0, 15) });
+      expect(new Date(range.since)).toEqual(new Date(2024, 0, 1));
+      expect(new Date(range.until)).toEqual(new Date(2024, 0, 14, 23, 59, 59));
+    });
+  });
+});
@@ -11,6 +11,7 @@ import {
   min,
   max,
   standardDeviation,
+  correlation,
   round,
   percentage,
   percentageChange,
@@ -114,6 +115,18 @@ describe('Metrics Calculations', () => {
     });
   });
 
+  describe('correlation', () => {
+    it('should detect perfect positive and negative correlation', () => {
+      expect(correlation([1, 2, 3], [2, 4, 6])).toBeCloseTo(1, 5);
+      expect(correlation([1, 2, 3], [6, 4, 2])).toBeCloseTo(-1, 5);
+    });
+
+    it('should return 0 when a series does not vary', () => {
+      expect(correlation([3, 3, 3], [1, 2, 3])).toBe(0);
+      expect(correlation([1], [1])).toBe(0);
+    });
+  });
+
   describe('round', () => {
     it('should round to specified decimal places', () => {
       expect(round(3.14159, 2)).toBe(3.14);
@@ -86,6 +86,10 @@ describe('Validation Utilities', () => {
       expect(validateBranchName('/absolute').valid).toBe(false);
     });
 
+    it('should reject branches starting with -', () => {
+      expect(validateBranchName('--output=x').valid).toBe(false);
+    });
+
     it('should reject branches with spaces', () => {
       expect(validateBranchName('my branch').valid).toBe(false);
     });